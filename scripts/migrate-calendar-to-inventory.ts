@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import connectDB from '../src/config/database';
+import { inventoryMigrationService } from '../src/services/inventoryMigrationService';
+
+dotenv.config();
+
+/**
+ * Migration Script: Merge legacy Calendar data into RoomAvailability
+ *
+ * Usage:
+ *   npm run migrate:inventory -- [--dry-run] [--property <propertyId>]
+ *
+ * Safe to re-run: existing RoomAvailability data is kept, bookings are
+ * attached once and duplicate calendar entries for a night are merged.
+ */
+async function migrateCalendarToInventory() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const propertyIndex = args.indexOf('--property');
+  const propertyId = propertyIndex !== -1 ? args[propertyIndex + 1] : undefined;
+
+  try {
+    await connectDB();
+
+    const report = await inventoryMigrationService.migrateLegacyCalendar({ dryRun, propertyId });
+
+    console.log(JSON.stringify(report, null, 2));
+
+    if (report.overbookedNights.length > 0) {
+      console.warn(`⚠️  ${report.overbookedNights.length} nights hold more bookings than units - review them in the inventory grid`);
+    }
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Migration error:', error);
+    process.exit(1);
+  }
+}
+
+migrateCalendarToInventory();
@@ -0,0 +1,45 @@
+import dotenv from 'dotenv';
+import { MockOTAServer } from '../src/utils/mockOTAServer';
+import { OTAProvider } from '../src/services/OTAService';
+
+dotenv.config();
+
+/**
+ * Run the mock OTA locally for manual channel testing
+ *
+ * Usage:
+ *   npm run mock:ota -- [--port <port>]
+ *
+ * Serves one demo listing per provider and accepts any API key. Point
+ * MOCK_OTA_URL (or a channel's apiCredentials.additionalConfig.baseUrl)
+ * at it.
+ */
+async function runMockOTA() {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const port = parseInt(portIndex !== -1 ? args[portIndex + 1] ?? '3001' : '3001', 10);
+
+  try {
+    const server = new MockOTAServer();
+
+    for (const provider of Object.values(OTAProvider)) {
+      server.addListing(provider, {
+        id: `${provider.toUpperCase()}-DEMO-1`,
+        name: `Demo ${provider} listing`,
+        rooms: [{ id: `${provider.toUpperCase()}-DEMO-1-STD`, name: 'Standard room' }]
+      });
+    }
+
+    const url = await server.start(port);
+    console.log(`✅ Mock OTA listening on ${url}`);
+
+    process.on('SIGINT', () => {
+      server.stop().then(() => process.exit(0)).catch(() => process.exit(1));
+    });
+  } catch (error) {
+    console.error('❌ Mock OTA error:', error);
+    process.exit(1);
+  }
+}
+
+runMockOTA();
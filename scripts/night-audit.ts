@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import connectDB from '../src/config/database';
+import { nightAuditService } from '../src/services/nightAuditService';
+
+dotenv.config();
+
+/**
+ * Run the night audit: mark no-shows and flag overdue departures
+ *
+ * Usage:
+ *   npm run audit:night -- [--dry-run] [--property <propertyId>]
+ *
+ * With --dry-run the report lists what would be processed but nothing is changed.
+ */
+async function runNightAudit() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const propertyIndex = args.indexOf('--property');
+  const propertyId = propertyIndex !== -1 ? args[propertyIndex + 1] : undefined;
+
+  try {
+    await connectDB();
+
+    const report = await nightAuditService.run({ dryRun, propertyId });
+
+    console.log(JSON.stringify({
+      id: report._id,
+      dryRun: report.dryRun,
+      stats: report.stats,
+      entries: report.entries
+    }, null, 2));
+
+    if (report.stats.failures > 0) {
+      console.warn(`⚠️  ${report.stats.failures} bookings could not be processed`);
+    }
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Night audit error:', error);
+    process.exit(1);
+  }
+}
+
+runNightAudit();
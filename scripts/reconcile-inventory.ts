@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import connectDB from '../src/config/database';
+import { inventoryReconciliationService } from '../src/services/inventoryReconciliationService';
+
+dotenv.config();
+
+/**
+ * Reconcile inventory against bookings, room definitions and legacy calendar data
+ *
+ * Usage:
+ *   npm run reconcile:inventory -- [--apply] [--property <propertyId>]
+ *
+ * Without --apply the drift report is produced but nothing is changed.
+ * Replaces the old check/fix totalRooms consistency scripts.
+ */
+async function reconcileInventory() {
+  const args = process.argv.slice(2);
+  const apply = args.includes('--apply');
+  const propertyIndex = args.indexOf('--property');
+  const propertyId = propertyIndex !== -1 ? args[propertyIndex + 1] : undefined;
+
+  try {
+    await connectDB();
+
+    const report = await inventoryReconciliationService.run({ apply, propertyId });
+
+    console.log(JSON.stringify({
+      id: report._id,
+      mode: report.mode,
+      stats: report.stats,
+      summary: report.summary,
+      issues: report.issues
+    }, null, 2));
+
+    if (!apply && report.stats.issuesFound > 0) {
+      console.warn(`⚠️  ${report.stats.issuesFound} issues found - re-run with --apply to repair them`);
+    }
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Reconciliation error:', error);
+    process.exit(1);
+  }
+}
+
+reconcileInventory();
@@ -24,9 +24,17 @@ import analyticsRoutes from './routes/analyticsRoutes';
 import multiPropertyRoutes from './routes/multiPropertyRoutes';
 import communicationRoutes from './routes/communicationRoutes';
 import clientRoutes from './routes/clientRoutes';
+import guestRoutes from './routes/guestRoutes';
+import nightAuditRoutes from './routes/nightAuditRoutes';
+import invoiceRoutes from './routes/invoiceRoutes';
+import taxRuleRoutes from './routes/taxRuleRoutes';
+import exchangeRateRoutes from './routes/exchangeRateRoutes';
+import promotionRoutes from './routes/promotionRoutes';
+import channelMappingRoutes from './routes/channelMappingRoutes';
 import { errorHandler } from './utils/errors';
 import rateLimitingMiddleware from './middleware/rateLimiting';
 import { auditMiddleware } from './middleware/audit';
+import { captureRawBody } from './middleware/webhookSignature';
 import swaggerUi from 'swagger-ui-express';
 import swaggerDocs from './config/swagger';
 
@@ -41,7 +49,8 @@ logger.info(`Port: ${PORT}`);
 // Connect to database (handles initialization, indexes, and seed data)
 connectDB();
 
-app.use(express.json());
+// Webhook signatures are checked over the raw body, kept by captureRawBody
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
 // CORS configuration - allow multiple frontend origins
@@ -144,6 +153,13 @@ app.use('/api/v1/analytics', analyticsRoutes); // Analytics and reporting endpoi
 app.use('/api/v1/multi-property', multiPropertyRoutes); // Multi-property management endpoints (requires auth)
 app.use('/api/v1/communication', communicationRoutes); // Guest communication and email templates (requires auth)
 app.use('/api/v1/client', clientRoutes); // Client-facing endpoints (requires auth, client role)
+app.use('/api/v1/guests', guestRoutes); // Guest profiles and stay history (requires auth)
+app.use('/api/v1/night-audit', nightAuditRoutes); // No-show and overdue departure processing (requires admin)
+app.use('/api/v1/invoices', invoiceRoutes); // Invoices and credit notes (requires auth)
+app.use('/api/v1/tax-rules', taxRuleRoutes); // Region tax and fee rules (requires auth)
+app.use('/api/v1/exchange-rates', exchangeRateRoutes); // Exchange-rate tables and conversion (requires auth)
+app.use('/api/v1/promotions', promotionRoutes); // Promotion codes and vouchers (requires auth)
+app.use('/api/v1/channel-mappings', channelMappingRoutes); // OTA property, room and rate plan IDs (requires admin)
 
 app.use(errorHandler);
 
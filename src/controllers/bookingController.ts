@@ -1,8 +1,20 @@
 import { Request, Response } from 'express';
 import Booking, { BookingStatus, BookingChannel } from '../models/Booking';
 import Property from '../models/Property';
-import Calendar from '../models/Calendar';
 import { logger } from '../config/logger';
+import { inventoryReservationService } from '../services/inventoryReservationService';
+import { unitAssignmentService } from '../services/unitAssignmentService';
+import { guestProfileService } from '../services/guestProfileService';
+import { bookingModificationService } from '../services/bookingModificationService';
+import { bookingStatusService } from '../services/bookingStatusService';
+import { folioService } from '../services/folioService';
+import { cancellationPolicyService } from '../services/cancellationPolicyService';
+import { taxRuleService } from '../services/taxRuleService';
+import { BaseError, ConflictError } from '../utils/errors';
+import { ValidationMiddleware } from '../middleware/validation';
+import { auditLoggers } from '../middleware/audit';
+import { Role } from '../models/User';
+import mongoose from 'mongoose';
 import { z } from 'zod';
 
 // Query validation schema
@@ -13,6 +25,7 @@ const querySchema = z.object({
   channel: z.nativeEnum(BookingChannel).optional(),
   property: z.string().optional(),
   room: z.string().optional(),
+  group: z.string().optional(),
   checkIn: z.string().datetime().optional(),
   checkOut: z.string().datetime().optional(),
   guestEmail: z.string().email().optional(),
@@ -20,6 +33,11 @@ const querySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('asc')
 });
 
+// Cancellation quote query schema
+const cancellationQuoteSchema = z.object({
+  noShow: z.enum(['true', 'false']).transform(val => val === 'true').default('false')
+});
+
 // Date range query schema
 const dateRangeSchema = z.object({
   startDate: z.string().datetime(),
@@ -39,7 +57,7 @@ export class BookingController {
   static async getAllBookings(req: Request, res: Response): Promise<void> {
     try {
       const query = querySchema.parse(req.query);
-      const { page, limit, status, channel, property, room, checkIn, checkOut, guestEmail, sortBy, sortOrder } = query;
+      const { page, limit, status, channel, property, room, group, checkIn, checkOut, guestEmail, sortBy, sortOrder } = query;
 
       // Build filter object
       const filter: any = {};
@@ -48,6 +66,7 @@ export class BookingController {
       if (channel) filter.channel = channel;
       if (property) filter.property = property;
       if (room) filter.room = room;
+      if (group) filter.group = group;
       if (guestEmail) filter['guestInfo.email'] = { $regex: guestEmail, $options: 'i' };
 
       // Date range filters
@@ -72,6 +91,7 @@ export class BookingController {
       const [bookings, total] = await Promise.all([
         Booking.find(filter)
           .populate('property', 'name address rooms')
+          .populate('group', 'name confirmationCode status')
           .populate('createdBy', 'email profile.firstName profile.lastName')
           .populate('lastModifiedBy', 'email profile.firstName profile.lastName')
           .sort(sort)
@@ -230,45 +250,58 @@ export class BookingController {
         return;
       }
 
-      // Check availability
+      // Availability is checked when the inventory is claimed below
       const checkIn = new Date(bookingData.checkIn);
       const checkOut = new Date(bookingData.checkOut);
-      
-      const availabilityCheck = await Calendar.find({
-        property: bookingData.property,
-        room: bookingData.room,
-        date: { $gte: checkIn, $lt: checkOut },
-        status: { $in: ['booked', 'blocked', 'maintenance'] }
-      });
-
-      if (availabilityCheck.length > 0) {
-        res.status(400).json({
-          success: false,
-          message: 'Room not available for selected dates',
-          code: 'ROOM_NOT_AVAILABLE'
-        });
-        return;
-      }
 
       // Add created by user
       bookingData.createdBy = userId;
 
       const booking = new Booking(bookingData);
-      await booking.save();
-
-      // Update calendar entries
-      const CalendarModel = require('../models/Calendar').default;
-      await CalendarModel.bulkUpdateAvailability(
-        bookingData.property,
-        bookingData.room,
-        Array.from({ length: Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24)) }, (_, i) => {
-          const date = new Date(checkIn);
-          date.setDate(date.getDate() + i);
-          return date;
-        }),
-        'booked',
-        userId
-      );
+      await booking.validate();
+
+      // Levy the property's tax and fee rules on the room rate
+      await taxRuleService.applyToBooking(booking);
+
+      // Claim shared inventory for every night before persisting the booking
+      try {
+        await inventoryReservationService.reserve({
+          propertyId: bookingData.property,
+          roomId: bookingData.room,
+          checkIn,
+          checkOut,
+          bookingId: booking._id as mongoose.Types.ObjectId,
+          channel: booking.channel,
+          guestName: `${booking.guestInfo.firstName} ${booking.guestInfo.lastName}`
+        });
+      } catch (error) {
+        if (error instanceof ConflictError) {
+          res.status(409).json({
+            success: false,
+            message: error.message,
+            code: 'ROOM_NOT_AVAILABLE',
+            errors: error.errors
+          });
+          return;
+        }
+        throw error;
+      }
+
+      try {
+        await booking.save();
+      } catch (error) {
+        await inventoryReservationService.release({
+          propertyId: bookingData.property,
+          roomId: bookingData.room,
+          checkIn,
+          checkOut,
+          bookingId: booking._id as mongoose.Types.ObjectId
+        });
+        throw error;
+      }
+
+      await unitAssignmentService.tryAssignBooking(booking);
+      await guestProfileService.tryAttachBooking(booking);
 
       // Populate the created booking
       await booking.populate([
@@ -328,6 +361,26 @@ export class BookingController {
         return;
       }
 
+      // Stay changes must move inventory with them
+      if (updateData.checkIn || updateData.checkOut) {
+        res.status(400).json({
+          success: false,
+          message: 'Use POST /bookings/:id/modify to change the stay dates',
+          code: 'USE_MODIFY_BOOKING'
+        });
+        return;
+      }
+
+      // Status changes go through the transition table
+      if (updateData.status && updateData.status !== existingBooking.status) {
+        res.status(400).json({
+          success: false,
+          message: 'Use PATCH /bookings/:id/status to change the booking status',
+          code: 'USE_STATUS_ENDPOINT'
+        });
+        return;
+      }
+
       // Add last modified by user
       updateData.lastModifiedBy = userId;
 
@@ -384,88 +437,111 @@ export class BookingController {
   }
 
   /**
-   * Cancel booking
+   * Modify booking stay (dates, room type, guests) with inventory swap and repricing
    */
-  static async cancelBooking(req: Request, res: Response): Promise<void> {
+  static async modifyBooking(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { cancellationReason } = req.body;
-      const userId = req.user?.id;
+      const { checkIn, checkOut, room, guests, ratePlan, reprice, reason } =
+        req.body as z.infer<typeof ValidationMiddleware.bookingSchemas.modify>;
+      const userId = req.user?.id as string | undefined;
 
-      const booking = await Booking.findById(id);
-      if (!booking) {
-        res.status(404).json({
+      const { booking, modification } = await bookingModificationService.modifyBooking(
+        id,
+        {
+          checkIn: checkIn ? new Date(checkIn) : undefined,
+          checkOut: checkOut ? new Date(checkOut) : undefined,
+          roomId: room,
+          guests,
+          ratePlanId: ratePlan,
+          reprice,
+          reason
+        },
+        { userId }
+      );
+
+      await booking.populate([
+        { path: 'property', select: 'name address contactInfo' },
+        { path: 'lastModifiedBy', select: 'email profile.firstName profile.lastName' }
+      ]);
+
+      res.status(200).json({
+        success: true,
+        data: { booking, modification },
+        message: 'Booking modified successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error modifying booking:', error);
+
+      if (error instanceof ConflictError) {
+        res.status(409).json({
           success: false,
-          message: 'Booking not found',
-          code: 'BOOKING_NOT_FOUND'
+          message: error.message,
+          code: 'ROOM_NOT_AVAILABLE',
+          errors: error.errors
         });
         return;
       }
 
-      // Check if booking can be cancelled
-      if (!booking.canBeCancelled()) {
-        res.status(400).json({
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
           success: false,
-          message: 'Booking cannot be cancelled',
-          code: 'BOOKING_CANNOT_CANCEL'
+          message: error.message,
+          code: error.code,
+          errors: error.errors
         });
         return;
       }
 
-      // Update booking status
-      await booking.updateStatus(BookingStatus.CANCELLED, userId);
-      booking.cancellationReason = cancellationReason;
-      await booking.save();
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'BOOKING_MODIFY_ERROR'
+      });
+    }
+  }
 
-      // Update calendar entries to available
-      const checkIn = new Date(booking.checkIn);
-      const checkOut = new Date(booking.checkOut);
-      
-      const CalendarModel = require('../models/Calendar').default;
-      await CalendarModel.bulkUpdateAvailability(
-        booking.property.toString(),
-        booking.room.toString(),
-        Array.from({ length: Math.ceil((checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24)) }, (_, i) => {
-          const date = new Date(checkIn);
-          date.setDate(date.getDate() + i);
-          return date;
-        }),
-        'available',
-        userId
-      );
+  /**
+   * Change booking status through the transition table
+   */
+  static async updateBookingStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status, reason, override, waivePenalty } = req.body as z.infer<typeof ValidationMiddleware.bookingSchemas.status>;
+      const userId = req.user?.id as string | undefined;
+
+      const booking = await bookingStatusService.transition(id, status as BookingStatus, {
+        userId,
+        reason,
+        override: override && BookingController.isAdmin(req),
+        allowBalanceDue: override && BookingController.isAdmin(req),
+        waivePenalty: waivePenalty && BookingController.isAdmin(req)
+      });
 
-      // Populate the updated booking
       await booking.populate([
         { path: 'property', select: 'name address contactInfo' },
-        { path: 'room', select: 'name type capacity amenities baseRate' },
-        { path: 'cancelledBy', select: 'email profile.firstName profile.lastName' }
+        { path: 'lastModifiedBy', select: 'email profile.firstName profile.lastName' }
       ]);
 
-      logger.info(`Booking cancelled: ${booking._id} by user: ${userId}`);
-
       res.status(200).json({
         success: true,
         data: { booking },
-        message: 'Booking cancelled successfully'
+        message: `Booking status changed to ${status}`
       });
 
     } catch (error) {
-      logger.error('Error cancelling booking:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Internal server error',
-        code: 'BOOKING_CANCEL_ERROR'
-      });
+      BookingController.handleStatusError(res, error, 'Error changing booking status:', 'BOOKING_STATUS_ERROR');
     }
   }
 
   /**
-   * Check in booking
+   * Preview the penalty and refund of cancelling a booking now
    */
-  static async checkInBooking(req: Request, res: Response): Promise<void> {
+  static async getCancellationQuote(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const userId = req.user?.id;
+      const { noShow } = cancellationQuoteSchema.parse(req.query);
 
       const booking = await Booking.findById(id);
       if (!booking) {
@@ -477,16 +553,93 @@ export class BookingController {
         return;
       }
 
-      if (booking.status !== BookingStatus.CONFIRMED) {
+      const targetStatus = noShow ? BookingStatus.NO_SHOW : BookingStatus.CANCELLED;
+      const quote = await cancellationPolicyService.quote(booking, { noShow });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          quote,
+          canCancel: booking.canTransitionTo(targetStatus) && (noShow || booking.canBeCancelled())
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
         res.status(400).json({
           success: false,
-          message: 'Only confirmed bookings can be checked in',
-          code: 'INVALID_BOOKING_STATUS'
+          message: 'Invalid query parameters',
+          errors: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
         });
         return;
       }
+      BookingController.handleStatusError(res, error, 'Error quoting booking cancellation:', 'CANCELLATION_QUOTE_ERROR');
+    }
+  }
+
+  /**
+   * Cancel booking
+   */
+  static async cancelBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { cancellationReason, override, waivePenalty } = req.body as {
+        cancellationReason?: string;
+        override?: boolean;
+        waivePenalty?: boolean;
+      };
+      const userId = req.user?.id as string | undefined;
+
+      const booking = await Booking.findById(id);
+      if (!booking) {
+        res.status(404).json({
+          success: false,
+          message: 'Booking not found',
+          code: 'BOOKING_NOT_FOUND'
+        });
+        return;
+      }
+
+      booking.cancellationReason = cancellationReason;
+      await bookingStatusService.transition(booking, BookingStatus.CANCELLED, {
+        userId,
+        reason: cancellationReason,
+        override: override === true && BookingController.isAdmin(req),
+        waivePenalty: waivePenalty === true && BookingController.isAdmin(req)
+      });
+
+      // Populate the updated booking
+      await booking.populate([
+        { path: 'property', select: 'name address contactInfo' },
+        { path: 'room', select: 'name type capacity amenities baseRate' },
+        { path: 'cancelledBy', select: 'email profile.firstName profile.lastName' }
+      ]);
+
+      logger.info(`Booking cancelled: ${booking._id.toString()} by user: ${userId}`);
+
+      res.status(200).json({
+        success: true,
+        data: { booking, cancellation: booking.cancellationCharge },
+        message: 'Booking cancelled successfully'
+      });
+
+    } catch (error) {
+      BookingController.handleStatusError(res, error, 'Error cancelling booking:', 'BOOKING_CANCEL_ERROR');
+    }
+  }
+
+  /**
+   * Check in booking
+   */
+  static async checkInBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id as string | undefined;
 
-      await booking.updateStatus(BookingStatus.CHECKED_IN, userId);
+      const booking = await bookingStatusService.transition(id, BookingStatus.CHECKED_IN, { userId });
 
       // Populate the updated booking
       await booking.populate([
@@ -495,7 +648,7 @@ export class BookingController {
         { path: 'lastModifiedBy', select: 'email profile.firstName profile.lastName' }
       ]);
 
-      logger.info(`Booking checked in: ${booking._id} by user: ${userId}`);
+      logger.info(`Booking checked in: ${booking._id.toString()} by user: ${userId}`);
 
       res.status(200).json({
         success: true,
@@ -504,12 +657,7 @@ export class BookingController {
       });
 
     } catch (error) {
-      logger.error('Error checking in booking:', error);
-      res.status(500).json({
-        success: false,
-        message: 'Internal server error',
-        code: 'BOOKING_CHECKIN_ERROR'
-      });
+      BookingController.handleStatusError(res, error, 'Error checking in booking:', 'BOOKING_CHECKIN_ERROR');
     }
   }
 
@@ -519,29 +667,21 @@ export class BookingController {
   static async checkOutBooking(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const userId = req.user?.id;
+      const { allowBalanceDue } = req.body as { allowBalanceDue?: boolean };
+      const userId = req.user?.id as string | undefined;
 
-      const booking = await Booking.findById(id);
-      if (!booking) {
-        res.status(404).json({
-          success: false,
-          message: 'Booking not found',
-          code: 'BOOKING_NOT_FOUND'
-        });
-        return;
-      }
+      // Only admins may let a guest leave with money owed
+      const booking = await bookingStatusService.transition(id, BookingStatus.CHECKED_OUT, {
+        userId,
+        allowBalanceDue: Boolean(allowBalanceDue) && BookingController.isAdmin(req)
+      });
 
-      if (booking.status !== BookingStatus.CHECKED_IN) {
-        res.status(400).json({
-          success: false,
-          message: 'Only checked-in bookings can be checked out',
-          code: 'INVALID_BOOKING_STATUS'
-        });
-        return;
+      const folio = await folioService.getFolio(booking);
+      if (folio.balance > 0) {
+        await auditLoggers.bookingCheckedOutWithBalance(req, booking._id.toString(), booking.property.toString(), folio.balance)
+          .catch(error => logger.error('Balance due audit entry failed:', error));
       }
 
-      await booking.updateStatus(BookingStatus.CHECKED_OUT, userId);
-
       // Populate the updated booking
       await booking.populate([
         { path: 'property', select: 'name address contactInfo' },
@@ -549,22 +689,42 @@ export class BookingController {
         { path: 'lastModifiedBy', select: 'email profile.firstName profile.lastName' }
       ]);
 
-      logger.info(`Booking checked out: ${booking._id} by user: ${userId}`);
+      logger.info(`Booking checked out: ${booking._id.toString()} by user: ${userId}`);
 
       res.status(200).json({
         success: true,
-        data: { booking },
+        data: { booking, balanceDue: Math.max(0, folio.balance) },
         message: 'Booking checked out successfully'
       });
 
     } catch (error) {
-      logger.error('Error checking out booking:', error);
-      res.status(500).json({
+      BookingController.handleStatusError(res, error, 'Error checking out booking:', 'BOOKING_CHECKOUT_ERROR');
+    }
+  }
+
+  // Admins may override the cancellation cutoff and check out unpaid folios
+  private static isAdmin(req: Request): boolean {
+    return Boolean(req.user?.roles.some(role => role === Role.ADMIN || role === Role.SUPERADMIN));
+  }
+
+  private static handleStatusError(res: Response, error: unknown, message: string, code: string): void {
+    logger.error(message, error);
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
         success: false,
-        message: 'Internal server error',
-        code: 'BOOKING_CHECKOUT_ERROR'
+        message: error.message,
+        code: error.code,
+        errors: error.errors
       });
+      return;
     }
+
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      code
+    });
   }
 
   /**
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
-import Calendar, { CalendarStatus, CalendarChannel, BlockReason } from '../models/Calendar';
+import { CalendarStatus, CalendarChannel, BlockReason } from '../models/Calendar';
 import Property from '../models/Property';
+import { inventoryRepository, InventoryDateFilter } from '../services/inventoryRepository';
+import { availabilityService } from '../services/availabilityService';
+import { stayRestrictionService } from '../services/stayRestrictionService';
 import { logger } from '../config/logger';
 import { z } from 'zod';
 
@@ -24,6 +27,7 @@ const availabilitySchema = z.object({
   room: z.string().min(1, 'Room ID is required'),
   startDate: z.string().datetime('Invalid start date format'),
   endDate: z.string().datetime('Invalid end date format'),
+  channel: z.nativeEnum(CalendarChannel).default(CalendarChannel.ALL),
   guests: z.object({
     adults: z.number().min(1, 'At least one adult is required').max(20, 'Cannot exceed 20 adults'),
     children: z.number().min(0, 'Children count cannot be negative').max(10, 'Cannot exceed 10 children').default(0),
@@ -44,40 +48,29 @@ export class CalendarController {
       const query = querySchema.parse(req.query);
       const { page, limit, property, room, status, channel, startDate, endDate, sortBy, sortOrder } = query;
 
-      // Build filter object
-      const filter: any = {};
-
-      if (property) filter.property = property;
-      if (room) filter.room = room;
-      if (status) filter.status = status;
-      if (channel) filter.channel = channel;
+      // Read the channel view of the pooled inventory
+      const entries = await inventoryRepository.findCalendarEntries({
+        propertyId: property,
+        roomId: room,
+        date: CalendarController.buildDateFilter(startDate, endDate),
+        channel,
+        status
+      });
 
-      // Date range filter
-      if (startDate || endDate) {
-        filter.date = {};
-        if (startDate) filter.date.$gte = new Date(startDate);
-        if (endDate) filter.date.$lte = new Date(endDate);
-      }
+      // Sort and paginate the derived entries
+      const direction = sortOrder === 'asc' ? 1 : -1;
+      entries.sort((a, b) => {
+        const left = a[sortBy] ?? 0;
+        const right = b[sortBy] ?? 0;
+        return (left < right ? -1 : left > right ? 1 : 0) * direction;
+      });
 
-      // Calculate pagination
       const skip = (page - 1) * limit;
-
-      // Build sort object
-      const sort: any = {};
-      sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
-
-      // Execute query
-      const [calendarEntries, total] = await Promise.all([
-        Calendar.find(filter)
-          .populate('property', 'name address.city address.country')
-          .populate('room', 'name type baseRate')
-          .populate('booking', 'guestInfo checkIn checkOut status')
-          .populate('lastUpdatedBy', 'email profile.firstName profile.lastName')
-          .sort(sort)
-          .skip(skip)
-          .limit(limit)
-          .lean(),
-        Calendar.countDocuments(filter)
+      const total = entries.length;
+      const calendarEntries = await inventoryRepository.populateCalendarEntries(entries.slice(skip, skip + limit), [
+        { path: 'property', select: 'name address.city address.country' },
+        { path: 'booking', select: 'guestInfo checkIn checkOut status' },
+        { path: 'lastUpdatedBy', select: 'email profile.firstName profile.lastName' }
       ]);
 
       // Calculate pagination info
@@ -130,7 +123,7 @@ export class CalendarController {
   static async checkAvailability(req: Request, res: Response): Promise<void> {
     try {
       const query = availabilitySchema.parse(req.query);
-      const { property, room, startDate, endDate, guests } = query;
+      const { property, room, startDate, endDate, channel, guests } = query;
 
       // Validate property and room exist
       const propertyDoc = await Property.findById(property);
@@ -173,14 +166,18 @@ export class CalendarController {
       const end = new Date(endDate);
       const nights = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
 
-      const availabilityCheck = await Calendar.find({
-        property,
-        room,
+      const entries = await inventoryRepository.findCalendarEntries({
+        propertyId: property,
+        roomId: room,
         date: { $gte: start, $lt: end },
-        status: { $in: [CalendarStatus.BOOKED, CalendarStatus.BLOCKED, CalendarStatus.MAINTENANCE] }
-      }).sort({ date: 1 });
+        channel
+      });
 
-      const isAvailable = availabilityCheck.length === 0;
+      // Stay restrictions (CTA/CTD, min/max stay, advance booking window)
+      const restrictionViolations = await stayRestrictionService.checkStay(property, room, start, end, channel);
+
+      const availabilityCheck = entries.filter(entry => entry.status !== CalendarStatus.AVAILABLE);
+      const isAvailable = availabilityCheck.length === 0 && restrictionViolations.length === 0;
       const blockedDates = availabilityCheck.map(entry => ({
         date: entry.date,
         status: entry.status,
@@ -189,20 +186,15 @@ export class CalendarController {
       }));
 
       // Get rates for available dates
-      const rateEntries = await Calendar.find({
-        property,
-        room,
-        date: { $gte: start, $lt: end },
-        status: CalendarStatus.AVAILABLE
-      }).sort({ date: 1 });
-
-      const rates = rateEntries.map(entry => ({
-        date: entry.date,
-        rate: entry.getEffectiveRate(),
-        currency: entry.currency || 'USD',
-        minStay: entry.minStay,
-        maxStay: entry.maxStay
-      }));
+      const rates = entries
+        .filter(entry => entry.status === CalendarStatus.AVAILABLE)
+        .map(entry => ({
+          date: entry.date,
+          rate: entry.getEffectiveRate(),
+          currency: entry.currency || 'USD',
+          minStay: entry.minStay,
+          maxStay: entry.maxStay
+        }));
 
       const totalRate = rates.reduce((sum, rate) => sum + rate.rate, 0);
 
@@ -214,6 +206,7 @@ export class CalendarController {
           totalRate,
           rates,
           blockedDates,
+          restrictionViolations,
           room: {
             id: roomDoc._id,
             name: roomDoc.name,
@@ -227,6 +220,7 @@ export class CalendarController {
             room,
             startDate,
             endDate,
+            channel,
             guests
           }
         },
@@ -299,37 +293,26 @@ export class CalendarController {
       }
 
       // Perform bulk update
-      const CalendarModel = require('../models/Calendar').default;
-      const result = await CalendarModel.bulkUpdateAvailability(
+      const result = await availabilityService.bulkUpdateAvailability({
         propertyId,
         roomId,
-        dateObjects,
+        dates: dateObjects,
         status,
+        rate,
+        currency,
+        minStay,
+        maxStay,
+        channel: channel || CalendarChannel.ALL,
         userId
-      );
-
-      // Update additional fields if provided
-      if (rate !== undefined || currency || minStay !== undefined || maxStay !== undefined || channel) {
-        const updateFields: any = {};
-        if (rate !== undefined) updateFields.rate = rate;
-        if (currency) updateFields.currency = currency;
-        if (minStay !== undefined) updateFields.minStay = minStay;
-        if (maxStay !== undefined) updateFields.maxStay = maxStay;
-        if (channel) updateFields.channel = channel;
-
-        await Calendar.updateMany(
-          { property: propertyId, room: roomId, date: { $in: dateObjects } },
-          { ...updateFields, lastUpdatedBy: userId }
-        );
-      }
+      });
 
       logger.info(`Calendar availability updated: ${dates.length} dates for property ${propertyId}, room ${roomId} by user: ${userId}`);
 
       res.status(200).json({
         success: true,
         data: {
-          updatedCount: result.modifiedCount,
-          upsertedCount: result.upsertedCount,
+          updatedCount: result.updated,
+          upsertedCount: result.created,
           dates: dateObjects,
           status
         },
@@ -399,31 +382,23 @@ export class CalendarController {
       }
 
       // Perform bulk block
-      const CalendarModel = require('../models/Calendar').default;
-      const result = await CalendarModel.bulkBlockDates(
+      const result = await availabilityService.blockDates(
         propertyId,
         roomId,
         dateObjects,
         reason,
         description,
+        channel || CalendarChannel.ALL,
         userId
       );
 
-      // Update channel if provided
-      if (channel) {
-        await Calendar.updateMany(
-          { property: propertyId, room: roomId, date: { $in: dateObjects } },
-          { channel, lastUpdatedBy: userId }
-        );
-      }
-
       logger.info(`Dates blocked: ${dates.length} dates for property ${propertyId}, room ${roomId} by user: ${userId}`);
 
       res.status(200).json({
         success: true,
         data: {
-          updatedCount: result.modifiedCount,
-          upsertedCount: result.upsertedCount,
+          updatedCount: result.blocked,
+          upsertedCount: 0,
           dates: dateObjects,
           reason,
           description
@@ -449,20 +424,15 @@ export class CalendarController {
       const { propertyId } = req.params;
       const { startDate, endDate, room } = req.query;
 
-      const filter: any = { property: propertyId };
-      
-      if (room) filter.room = room;
-      if (startDate || endDate) {
-        filter.date = {};
-        if (startDate) filter.date.$gte = new Date(startDate as string);
-        if (endDate) filter.date.$lte = new Date(endDate as string);
-      }
+      const entries = await inventoryRepository.findCalendarEntries({
+        propertyId,
+        roomId: room as string | undefined,
+        date: CalendarController.buildDateFilter(startDate as string, endDate as string)
+      });
 
-      const calendarEntries = await Calendar.find(filter)
-        .populate('room', 'name type baseRate')
-        .populate('booking', 'guestInfo checkIn checkOut status')
-        .sort({ date: 1, room: 1 })
-        .lean();
+      const calendarEntries = await inventoryRepository.populateCalendarEntries(entries, [
+        { path: 'booking', select: 'guestInfo checkIn checkOut status' }
+      ]);
 
       res.status(200).json({
         success: true,
@@ -488,19 +458,15 @@ export class CalendarController {
       const { roomId } = req.params;
       const { startDate, endDate } = req.query;
 
-      const filter: any = { room: roomId };
-      
-      if (startDate || endDate) {
-        filter.date = {};
-        if (startDate) filter.date.$gte = new Date(startDate as string);
-        if (endDate) filter.date.$lte = new Date(endDate as string);
-      }
+      const entries = await inventoryRepository.findCalendarEntries({
+        roomId,
+        date: CalendarController.buildDateFilter(startDate as string, endDate as string)
+      });
 
-      const calendarEntries = await Calendar.find(filter)
-        .populate('property', 'name address.city address.country')
-        .populate('booking', 'guestInfo checkIn checkOut status')
-        .sort({ date: 1 })
-        .lean();
+      const calendarEntries = await inventoryRepository.populateCalendarEntries(entries, [
+        { path: 'property', select: 'name address.city address.country' },
+        { path: 'booking', select: 'guestInfo checkIn checkOut status' }
+      ]);
 
       res.status(200).json({
         success: true,
@@ -529,20 +495,12 @@ export class CalendarController {
       // This would typically integrate with external channel APIs
       // For now, we'll simulate the sync process
 
-      const filter: any = { property: propertyId };
-      if (roomId) filter.room = roomId;
-      if (channel) filter.channel = channel;
-      if (startDate || endDate) {
-        filter.date = {};
-        if (startDate) filter.date.$gte = new Date(startDate);
-        if (endDate) filter.date.$lte = new Date(endDate);
-      }
-
-      const calendarEntries = await Calendar.find(filter)
-        .populate('property', 'name')
-        .populate('room', 'name type')
-        .sort({ date: 1 })
-        .lean();
+      const calendarEntries = await inventoryRepository.findCalendarEntries({
+        propertyId,
+        roomId,
+        date: CalendarController.buildDateFilter(startDate, endDate),
+        channel
+      });
 
       // Simulate sync process
       const syncResults = {
@@ -578,24 +536,10 @@ export class CalendarController {
     try {
       const { propertyId, startDate, endDate } = req.query;
 
-      const filter: any = {};
-      if (propertyId) filter.property = propertyId;
-      if (startDate || endDate) {
-        filter.date = {};
-        if (startDate) filter.date.$gte = new Date(startDate as string);
-        if (endDate) filter.date.$lte = new Date(endDate as string);
-      }
-
-      const stats = await Calendar.aggregate([
-        { $match: filter },
-        {
-          $group: {
-            _id: '$status',
-            count: { $sum: 1 },
-            totalRate: { $sum: '$rate' }
-          }
-        }
-      ]);
+      const nights = await inventoryRepository.findNights({
+        propertyId: propertyId as string | undefined,
+        date: CalendarController.buildDateFilter(startDate as string, endDate as string)
+      });
 
       const statusCounts = {
         available: 0,
@@ -607,11 +551,10 @@ export class CalendarController {
 
       let totalRevenue = 0;
 
-      stats.forEach(stat => {
-        statusCounts[stat._id as keyof typeof statusCounts] = stat.count;
-        if (stat._id === 'booked') {
-          totalRevenue += stat.totalRate || 0;
-        }
+      nights.forEach(night => {
+        const entry = inventoryRepository.toCalendarEntry(night);
+        statusCounts[entry.status]++;
+        totalRevenue += night.bookedRooms.length * entry.getEffectiveRate();
       });
 
       const totalDays = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
@@ -637,6 +580,20 @@ export class CalendarController {
       });
     }
   }
+
+  /**
+   * Build an inclusive date range filter from optional query dates
+   */
+  private static buildDateFilter(startDate?: string, endDate?: string): InventoryDateFilter | undefined {
+    if (!startDate && !endDate) {
+      return undefined;
+    }
+
+    return {
+      ...(startDate ? { $gte: new Date(startDate) } : {}),
+      ...(endDate ? { $lte: new Date(endDate) } : {})
+    };
+  }
 }
 
 export default CalendarController;
@@ -1,7 +1,14 @@
 import { Request, Response } from 'express';
-import Channel, { ChannelType, ChannelStatus, SyncStatus } from '../models/Channel';
+import Channel, { ChannelType, ChannelStatus } from '../models/Channel';
 import Property from '../models/Property';
 import { logger } from '../config/logger';
+import { auditLoggers } from '../middleware/audit';
+import { webhookSignatureService } from '../services/webhookSignatureService';
+import { channelMappingService } from '../services/channelMappingService';
+import { channelSyncService, ChannelSyncType } from '../services/channelSyncService';
+import { ariPushQueueService } from '../services/ariPushQueueService';
+import { BaseError, ChannelMappingError } from '../utils/errors';
+import mongoose from 'mongoose';
 import { z } from 'zod';
 
 // Query validation schema
@@ -15,6 +22,17 @@ const querySchema = z.object({
   sortOrder: z.enum(['asc', 'desc']).default('desc')
 });
 
+// Sync request schema
+const syncSchema = z.object({
+  syncType: z.union([z.nativeEnum(ChannelSyncType), z.literal('all')]).default('all')
+});
+
+// Secret rotation schema; the old secret keeps verifying webhooks for the overlap
+const rotateSecretSchema = z.object({
+  apiSecret: z.string().trim().min(16, 'API secret must be at least 16 characters'),
+  overlapHours: z.number().int().min(0).max(720).optional()
+});
+
 /**
  * Channel Controller
  * Handles all channel-related operations
@@ -158,6 +176,12 @@ export class ChannelController {
         }
       }
 
+      // A channel only goes live once every active room type is mapped
+      if (channelData.status === ChannelStatus.ACTIVE &&
+        !(await ChannelController.ensureMapped(res, channelData.type, channelData.properties ?? []))) {
+        return;
+      }
+
       // Add created by user
       channelData.createdBy = userId;
 
@@ -224,6 +248,17 @@ export class ChannelController {
         }
       }
 
+      if (updateData.status === ChannelStatus.ACTIVE) {
+        const current = await Channel.findById(id);
+        if (current && !(await ChannelController.ensureMapped(
+          res,
+          updateData.type ?? current.type,
+          updateData.properties ?? current.properties
+        ))) {
+          return;
+        }
+      }
+
       // Add last modified by user
       updateData.lastModifiedBy = userId;
 
@@ -332,6 +367,13 @@ export class ChannelController {
         return;
       }
 
+      if (status === ChannelStatus.ACTIVE) {
+        const current = await Channel.findById(id);
+        if (current && !(await ChannelController.ensureMapped(res, current.type, current.properties))) {
+          return;
+        }
+      }
+
       const channel = await Channel.findByIdAndUpdate(
         id,
         { status, lastModifiedBy: userId },
@@ -368,6 +410,69 @@ export class ChannelController {
     }
   }
 
+  /**
+   * Rotate the channel's API secret, keeping the old one valid for webhooks
+   * during the overlap
+   */
+  static async rotateChannelSecret(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { apiSecret, overlapHours } = rotateSecretSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      const channel = await webhookSignatureService.rotateSecret(id, apiSecret, overlapHours);
+      const retired = channel.apiCredentials.retiredSecrets ?? [];
+      const previousSecretValidUntil = overlapHours === 0 ? null : retired[retired.length - 1]?.expiresAt ?? null;
+
+      try {
+        await auditLoggers.channelSecretRotated(req, String(channel._id), previousSecretValidUntil);
+      } catch (error) {
+        logger.error('Channel secret rotation audit entry failed:', error);
+      }
+
+      logger.info(`Channel secret rotated: ${channel._id} by user: ${userId}`);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          channel,
+          previousSecretValidUntil
+        },
+        message: 'Channel secret rotated successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error rotating channel secret:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code
+        });
+        return;
+      }
+
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'CHANNEL_SECRET_ROTATION_ERROR'
+      });
+    }
+  }
+
   /**
    * Test channel connection
    */
@@ -386,22 +491,19 @@ export class ChannelController {
         return;
       }
 
-      // Simulate connection test
-      // In a real implementation, this would make actual API calls to the channel
+      // Calls the OTA through the channel's adapter and records the outcome
+      const result = await channelSyncService.testConnection(channel);
       const connectionTest = {
         channelId: channel._id,
         channelName: channel.name,
         channelType: channel.type,
-        isConnected: true,
-        responseTime: Math.floor(Math.random() * 1000) + 100, // Simulate response time
+        isConnected: result.connected,
+        responseTime: result.responseTime,
         lastTested: new Date(),
-        status: 'success',
-        message: 'Connection test successful'
+        status: result.connected ? 'success' : 'failed',
+        message: result.message
       };
 
-      // Update channel sync status
-      await channel.updateSyncStatus(SyncStatus.SUCCESS, 'Connection test successful');
-
       logger.info(`Channel connection tested: ${channel._id} by user: ${userId}`);
 
       res.status(200).json({
@@ -412,6 +514,16 @@ export class ChannelController {
 
     } catch (error) {
       logger.error('Error testing channel connection:', error);
+
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Internal server error',
@@ -426,7 +538,7 @@ export class ChannelController {
   static async syncChannelData(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { syncType } = req.body; // 'bookings', 'rates', 'availability', 'propertyInfo', 'all'
+      const { syncType } = syncSchema.parse(req.body);
       const userId = req.user?.id;
 
       const channel = await Channel.findById(id);
@@ -439,7 +551,7 @@ export class ChannelController {
         return;
       }
 
-      if (!channel.isConnected()) {
+      if (channel.status !== ChannelStatus.ACTIVE || !channel.isActive) {
         res.status(400).json({
           success: false,
           message: 'Channel is not connected',
@@ -448,37 +560,43 @@ export class ChannelController {
         return;
       }
 
-      // Simulate sync process
-      // In a real implementation, this would sync with the actual channel API
-      const syncResults = {
-        channelId: channel._id,
-        channelName: channel.name,
-        syncType: syncType || 'all',
-        startTime: new Date(),
-        endTime: new Date(),
-        status: 'success',
-        results: {
-          bookings: { synced: 5, failed: 0 },
-          rates: { synced: 12, failed: 0 },
-          availability: { synced: 30, failed: 0 },
-          propertyInfo: { synced: 1, failed: 0 }
-        },
-        message: 'Channel sync completed successfully'
-      };
-
-      // Update channel sync status
-      await channel.updateSyncStatus(SyncStatus.SUCCESS, 'Sync completed successfully');
+      // Pulls reservations and pushes availability and rates through the channel's adapter
+      const syncResults = await channelSyncService.sync(channel, syncType);
 
       logger.info(`Channel data synced: ${channel._id} (${syncType}) by user: ${userId}`);
 
       res.status(200).json({
         success: true,
         data: { syncResults },
-        message: 'Channel data sync completed successfully'
+        message: syncResults.status === 'success'
+          ? 'Channel data sync completed successfully'
+          : `Channel data sync ${syncResults.status === 'partial' ? 'partially failed' : 'failed'}`
       });
 
     } catch (error) {
       logger.error('Error syncing channel data:', error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid request data',
+          errors: error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        });
+        return;
+      }
+
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          code: error.code
+        });
+        return;
+      }
+
       res.status(500).json({
         success: false,
         message: 'Internal server error',
@@ -635,6 +753,41 @@ export class ChannelController {
     }
   }
 
+  /**
+   * Get pending and failed outbound availability and rate updates and the
+   * push lag of one channel, or of every channel
+   */
+  static async getAriQueueStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (id && !(await Channel.exists({ _id: id }))) {
+        res.status(404).json({
+          success: false,
+          message: 'Channel not found',
+          code: 'CHANNEL_NOT_FOUND'
+        });
+        return;
+      }
+
+      const channels = await ariPushQueueService.getChannelStats(id);
+
+      res.status(200).json({
+        success: true,
+        data: { channels },
+        message: 'ARI push queue status retrieved successfully'
+      });
+
+    } catch (error) {
+      logger.error('Error getting ARI push queue status:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+        code: 'CHANNEL_ARI_QUEUE_ERROR'
+      });
+    }
+  }
+
   /**
    * Get channels by property
    */
@@ -672,6 +825,33 @@ export class ChannelController {
       });
     }
   }
+
+  /**
+   * Check every active room type of the channel's properties is mapped on
+   * the channel's OTA; responds with the unmapped ones otherwise
+   */
+  private static async ensureMapped(
+    res: Response,
+    type: ChannelType,
+    properties: Array<string | mongoose.Types.ObjectId>
+  ): Promise<boolean> {
+    try {
+      await channelMappingService.assertChannelMapped(type, properties);
+      return true;
+    } catch (error) {
+      if (!(error instanceof ChannelMappingError)) {
+        throw error;
+      }
+
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return false;
+    }
+  }
 }
 
 export default ChannelController;
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import Channel, { ChannelType } from '../models/Channel';
+import { channelMappingService } from '../services/channelMappingService';
+import { webhookInboxService } from '../services/webhookInboxService';
+import { BaseError, createError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const externalIdSchema = z.string().trim().min(1, 'External ID is required').max(100);
+
+// Room type mapping schema
+const roomMappingSchema = z.object({
+  roomId: objectIdSchema,
+  externalRoomId: externalIdSchema,
+  ratePlans: z.array(z.object({
+    ratePlanId: objectIdSchema,
+    externalRatePlanId: externalIdSchema
+  })).optional()
+});
+
+// Mapping creation schema
+const createMappingSchema = z.object({
+  channelType: z.nativeEnum(ChannelType).refine(type => type !== ChannelType.DIRECT, 'Direct bookings have no external IDs'),
+  propertyId: objectIdSchema,
+  externalPropertyId: externalIdSchema,
+  rooms: z.array(roomMappingSchema).default([])
+});
+
+// Mapping update schema
+const updateMappingSchema = z.object({
+  externalPropertyId: externalIdSchema.optional(),
+  rooms: z.array(roomMappingSchema).optional()
+}).refine(data => data.externalPropertyId !== undefined || data.rooms !== undefined, {
+  message: 'Provide an external property ID or room mappings'
+});
+
+// Mapping listing schema
+const listSchema = z.object({
+  channelType: z.nativeEnum(ChannelType).optional(),
+  propertyId: objectIdSchema.optional()
+});
+
+/**
+ * Channel Mapping Controller
+ *
+ * Manages the registry of external property, room and rate plan IDs per
+ * OTA. Adding or changing a mapping requeues the OTA's reservations that
+ * were parked because their listing was not mapped yet.
+ */
+export class ChannelMappingController {
+  /**
+   * List mappings
+   */
+  static async getMappings(req: Request, res: Response): Promise<void> {
+    try {
+      const mappings = await channelMappingService.list(listSchema.parse(req.query));
+
+      res.status(200).json({
+        success: true,
+        data: mappings
+      });
+    } catch (error) {
+      ChannelMappingController.handleError(res, error, 'Error retrieving channel mappings');
+    }
+  }
+
+  /**
+   * Get a mapping
+   */
+  static async getMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const mapping = await channelMappingService.get(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: mapping
+      });
+    } catch (error) {
+      ChannelMappingController.handleError(res, error, 'Error retrieving channel mapping');
+    }
+  }
+
+  /**
+   * Map a property to its OTA listing
+   */
+  static async createMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const request = createMappingSchema.parse(req.body);
+      const mapping = await channelMappingService.create(request, req.user?.id as string | undefined);
+      const requeued = await webhookInboxService.requeueNeedsAttention(mapping.channelType);
+
+      res.status(201).json({
+        success: true,
+        message: 'Channel mapping created successfully',
+        data: { mapping, requeuedWebhooks: requeued }
+      });
+    } catch (error) {
+      ChannelMappingController.handleError(res, error, 'Error creating channel mapping');
+    }
+  }
+
+  /**
+   * Update a mapping
+   */
+  static async updateMapping(req: Request, res: Response): Promise<void> {
+    try {
+      const request = updateMappingSchema.parse(req.body);
+      const mapping = await channelMappingService.update(
+        objectIdSchema.parse(req.params['id']),
+        request,
+        req.user?.id as string | undefined
+      );
+      const requeued = await webhookInboxService.requeueNeedsAttention(mapping.channelType);
+
+      res.status(200).json({
+        success: true,
+        message: 'Channel mapping updated successfully',
+        data: { mapping, requeuedWebhooks: requeued }
+      });
+    } catch (error) {
+      ChannelMappingController.handleError(res, error, 'Error updating channel mapping');
+    }
+  }
+
+  /**
+   * Delete a mapping
+   */
+  static async deleteMapping(req: Request, res: Response): Promise<void> {
+    try {
+      await channelMappingService.delete(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        message: 'Channel mapping deleted successfully'
+      });
+    } catch (error) {
+      ChannelMappingController.handleError(res, error, 'Error deleting channel mapping');
+    }
+  }
+
+  /**
+   * List the active room types of a channel's properties that still need a mapping
+   */
+  static async getChannelCoverage(req: Request, res: Response): Promise<void> {
+    try {
+      const channel = await Channel.findById(objectIdSchema.parse(req.params['channelId']));
+      if (!channel) {
+        throw createError.notFound('Channel not found');
+      }
+
+      const unmapped = await channelMappingService.getUnmappedRooms(channel.type, channel.properties);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          channelType: channel.type,
+          complete: unmapped.length === 0,
+          unmapped
+        }
+      });
+    } catch (error) {
+      ChannelMappingController.handleError(res, error, 'Error checking channel mapping coverage');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default ChannelMappingController;
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import Booking, { BookingStatus } from '../models/Booking';
+import { IReservationGroup } from '../models/ReservationGroup';
 import { logger } from '../config/logger';
 import mongoose from 'mongoose';
 
@@ -123,6 +124,7 @@ export const listReservations = async (req: Request, res: Response): Promise<voi
       status,
       from,
       to,
+      group,
       page = '1',
       size = '10'
     } = req.query;
@@ -146,6 +148,10 @@ export const listReservations = async (req: Request, res: Response): Promise<voi
       query.checkOut = { $lte: new Date(to as string) };
     }
 
+    if (group && mongoose.Types.ObjectId.isValid(group as string)) {
+      query.group = new mongoose.Types.ObjectId(group as string);
+    }
+
     if (q) {
       // Search in property name or booking ID
       query.$or = [
@@ -162,6 +168,7 @@ export const listReservations = async (req: Request, res: Response): Promise<voi
         .limit(sizeNum)
         .populate('property', 'name')
         .populate('room', 'name')
+        .populate('group', 'name confirmationCode status')
         .lean(),
       Booking.countDocuments(query)
     ]);
@@ -177,7 +184,8 @@ export const listReservations = async (req: Request, res: Response): Promise<voi
         channel: booking.channel,
         currency: booking.pricing.currency,
         total: booking.pricing.total,
-        guests: booking.guests.adults + booking.guests.children
+        guests: booking.guests.adults + booking.guests.children,
+        group: formatGroupSummary(booking.group)
       };
     });
 
@@ -222,6 +230,7 @@ export const getReservation = async (req: Request, res: Response): Promise<void>
     })
       .populate('property', 'name address')
       .populate('room', 'name')
+      .populate('group', 'name confirmationCode status folio')
       .lean();
 
     if (!booking) {
@@ -232,6 +241,14 @@ export const getReservation = async (req: Request, res: Response): Promise<void>
       return;
     }
 
+    // Other rooms booked under the same group reservation
+    const groupRooms = booking.group
+      ? await Booking.find({ group: (booking.group as unknown as IReservationGroup)._id, _id: { $ne: booking._id } })
+        .select('room checkIn checkOut status guests')
+        .sort({ checkIn: 1 })
+        .lean()
+      : [];
+
     // Calculate nights
     const checkIn = new Date(booking.checkIn);
     const checkOut = new Date(booking.checkOut);
@@ -253,7 +270,19 @@ export const getReservation = async (req: Request, res: Response): Promise<void>
         taxes: booking.pricing.total * 0.1,
         total: booking.pricing.total
       },
-      notes: booking.specialRequests?.join(', ')
+      notes: booking.specialRequests?.join(', '),
+      group: booking.group ? {
+        ...formatGroupSummary(booking.group),
+        total: (booking.group as unknown as IReservationGroup).folio?.total,
+        currency: (booking.group as unknown as IReservationGroup).folio?.currency,
+        otherRooms: groupRooms.map(room => ({
+          id: room._id.toString(),
+          checkIn: room.checkIn,
+          checkOut: room.checkOut,
+          status: room.status,
+          guests: room.guests.adults + room.guests.children
+        }))
+      } : null
     };
 
     res.json({
@@ -268,3 +297,20 @@ export const getReservation = async (req: Request, res: Response): Promise<void>
     });
   }
 };
+
+/**
+ * Summarize the reservation group a booking belongs to
+ */
+const formatGroupSummary = (group: unknown): { id: string; name?: string; confirmationCode: string; status: string } | null => {
+  if (!group) {
+    return null;
+  }
+
+  const populated = group as IReservationGroup;
+  return {
+    id: populated._id.toString(),
+    name: populated.name,
+    confirmationCode: populated.confirmationCode,
+    status: populated.status
+  };
+};
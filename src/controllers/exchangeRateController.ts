@@ -0,0 +1,158 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { ExchangeRateSource } from '../models/ExchangeRate';
+import { exchangeRateService } from '../services/exchangeRateService';
+import { BaseError, createError } from '../utils/errors';
+
+const currencySchema = z.string().trim().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code').toUpperCase();
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+  .transform(val => new Date(val));
+
+// Rate table schema
+const rateTableSchema = z.object({
+  date: dateSchema,
+  base: currencySchema,
+  rates: z.record(currencySchema, z.number().finite().positive('Rates must be positive'))
+    .refine(rates => Object.keys(rates).length > 0, 'At least one rate is required')
+});
+
+// CSV body schema, when the CSV is posted as text instead of a file
+const csvBodySchema = z.object({
+  csv: z.string().min(1, 'CSV is required').max(2 * 1024 * 1024)
+});
+
+// Rate list query schema
+const rateQuerySchema = z.object({
+  base: currencySchema.optional(),
+  quote: currencySchema.optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional()
+});
+
+// Conversion query schema
+const convertQuerySchema = z.object({
+  amount: z.string().transform(val => parseFloat(val)).pipe(z.number().finite()),
+  from: currencySchema,
+  to: currencySchema,
+  date: dateSchema.optional()
+});
+
+/**
+ * Exchange Rate Controller
+ *
+ * Loads dated exchange-rate tables (as JSON or a CSV upload), lists them and
+ * converts amounts with them.
+ */
+export class ExchangeRateController {
+  /**
+   * List loaded rates
+   */
+  static async getRates(req: Request, res: Response): Promise<void> {
+    try {
+      const rates = await exchangeRateService.listRates(rateQuerySchema.parse(req.query));
+
+      res.status(200).json({
+        success: true,
+        data: rates
+      });
+    } catch (error) {
+      ExchangeRateController.handleError(res, error, 'Error retrieving exchange rates');
+    }
+  }
+
+  /**
+   * Load a day's rates of a base currency
+   */
+  static async importTable(req: Request, res: Response): Promise<void> {
+    try {
+      const table = rateTableSchema.parse(req.body);
+      const result = await exchangeRateService.importTable(table, ExchangeRateSource.API, req.user?.id as string | undefined);
+
+      res.status(201).json({
+        success: result.errors.length === 0,
+        message: `${result.imported + result.updated} exchange rates loaded`,
+        data: result
+      });
+    } catch (error) {
+      ExchangeRateController.handleError(res, error, 'Error loading exchange rates');
+    }
+  }
+
+  /**
+   * Load rates from an uploaded CSV file (date,base,quote,rate)
+   */
+  static async importCsv(req: Request, res: Response): Promise<void> {
+    try {
+      const csv = req.file ? req.file.buffer.toString('utf8') : csvBodySchema.parse(req.body).csv;
+      if (!csv.trim()) {
+        throw createError.fileUpload('CSV file is empty');
+      }
+
+      const result = await exchangeRateService.importCsv(csv, req.user?.id as string | undefined);
+
+      res.status(201).json({
+        success: result.errors.length === 0,
+        message: `${result.imported + result.updated} exchange rates loaded, ${result.skipped} rows skipped`,
+        data: result
+      });
+    } catch (error) {
+      ExchangeRateController.handleError(res, error, 'Error importing exchange rates');
+    }
+  }
+
+  /**
+   * Convert an amount at the rate of a date (default today)
+   */
+  static async convert(req: Request, res: Response): Promise<void> {
+    try {
+      const { amount, from, to, date } = convertQuerySchema.parse(req.query);
+      const rate = await exchangeRateService.getRate(from, to, date ?? new Date());
+
+      res.status(200).json({
+        success: true,
+        data: {
+          amount,
+          converted: Math.round(amount * rate.rate * 100) / 100,
+          ...rate
+        }
+      });
+    } catch (error) {
+      ExchangeRateController.handleError(res, error, 'Error converting amount');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default ExchangeRateController;
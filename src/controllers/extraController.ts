@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { ExtraCategory, ExtraChargeType } from '../models/Extra';
+import { extraService } from '../services/extraService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+// Extra fields
+const extraFields = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  category: z.nativeEnum(ExtraCategory).optional(),
+  chargeType: z.nativeEnum(ExtraChargeType),
+  price: z.number().finite().min(0, 'Price cannot be negative'),
+  currency: z.string().length(3, 'Currency must be 3 characters').toUpperCase(),
+  dailyInventory: z.number().int().min(0).optional(),
+  maxQuantity: z.number().int().positive().optional(),
+  active: z.boolean().optional()
+});
+
+// Extra creation schema
+const createExtraSchema = extraFields;
+
+// Extra update schema; a null limit removes it
+const updateExtraSchema = extraFields.partial().extend({
+  dailyInventory: z.number().int().min(0).nullable().optional(),
+  maxQuantity: z.number().int().positive().nullable().optional()
+});
+
+// Extras list query schema
+const listQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().transform(val => val === 'true')
+});
+
+// Extras added to a booking
+const bookingExtrasSchema = z.object({
+  extras: z.array(z.object({
+    extraId: objectIdSchema,
+    quantity: z.number().int().positive().optional()
+  })).min(1, 'At least one extra is required')
+});
+
+/**
+ * Extra Controller
+ *
+ * Manages a property's catalogue of extras (/properties/:id/extras) and the
+ * extras staff add to or remove from a booking (/bookings/:id/extras).
+ */
+export class ExtraController {
+  /**
+   * List a property's extras
+   */
+  static async getExtras(req: Request, res: Response): Promise<void> {
+    try {
+      const { includeInactive } = listQuerySchema.parse(req.query);
+      const extras = await extraService.listExtras(objectIdSchema.parse(req.params['id']), includeInactive);
+
+      res.status(200).json({
+        success: true,
+        data: extras
+      });
+    } catch (error) {
+      ExtraController.handleError(res, error, 'Error retrieving extras');
+    }
+  }
+
+  /**
+   * Add an extra to a property's catalogue
+   */
+  static async createExtra(req: Request, res: Response): Promise<void> {
+    try {
+      const extra = await extraService.createExtra(
+        objectIdSchema.parse(req.params['id']),
+        createExtraSchema.parse(req.body),
+        req.user?.id as string | undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Extra created successfully',
+        data: extra
+      });
+    } catch (error) {
+      ExtraController.handleError(res, error, 'Error creating extra');
+    }
+  }
+
+  /**
+   * Update an extra
+   */
+  static async updateExtra(req: Request, res: Response): Promise<void> {
+    try {
+      const extra = await extraService.updateExtra(
+        objectIdSchema.parse(req.params['extraId']),
+        updateExtraSchema.parse(req.body),
+        objectIdSchema.parse(req.params['id'])
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Extra updated successfully',
+        data: extra
+      });
+    } catch (error) {
+      ExtraController.handleError(res, error, 'Error updating extra');
+    }
+  }
+
+  /**
+   * Delete an extra that was never booked
+   */
+  static async deleteExtra(req: Request, res: Response): Promise<void> {
+    try {
+      await extraService.deleteExtra(objectIdSchema.parse(req.params['extraId']), objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        message: 'Extra deleted successfully'
+      });
+    } catch (error) {
+      ExtraController.handleError(res, error, 'Error deleting extra');
+    }
+  }
+
+  /**
+   * Add extras to a booking
+   */
+  static async addBookingExtras(req: Request, res: Response): Promise<void> {
+    try {
+      const { extras } = bookingExtrasSchema.parse(req.body);
+      const booking = await extraService.addToBooking(
+        objectIdSchema.parse(req.params['id']),
+        extras,
+        req.user?.id as string | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Extras added successfully',
+        data: booking
+      });
+    } catch (error) {
+      ExtraController.handleError(res, error, 'Error adding extras to booking');
+    }
+  }
+
+  /**
+   * Remove an extra from a booking
+   */
+  static async removeBookingExtra(req: Request, res: Response): Promise<void> {
+    try {
+      const booking = await extraService.removeFromBooking(
+        objectIdSchema.parse(req.params['id']),
+        objectIdSchema.parse(req.params['lineId']),
+        req.user?.id as string | undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Extra removed successfully',
+        data: booking
+      });
+    } catch (error) {
+      ExtraController.handleError(res, error, 'Error removing extra from booking');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default ExtraController;
@@ -0,0 +1,257 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { IFolio, IFolioTransaction, FolioTransactionType, ChargeCategory, PaymentMethod } from '../models/Folio';
+import { auditLoggers } from '../middleware/audit';
+import { folioService, IFolioPostingResult } from '../services/folioService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const amountSchema = z.number().finite();
+
+// Charge schema
+const chargeSchema = z.object({
+  amount: amountSchema.refine(value => value > 0, { message: 'Amount must be positive' }),
+  category: z.nativeEnum(ChargeCategory).refine(category => category !== ChargeCategory.DISCOUNT, {
+    message: 'Discounts are posted as adjustments'
+  }).default(ChargeCategory.INCIDENTAL),
+  description: z.string().min(1, 'Description is required').max(200).trim(),
+  reference: z.string().max(100).trim().optional()
+});
+
+// Adjustment schema; negative amounts credit the guest
+const adjustmentSchema = z.object({
+  amount: amountSchema.refine(value => value !== 0, { message: 'Amount cannot be zero' }),
+  category: z.nativeEnum(ChargeCategory),
+  description: z.string().min(1, 'Reason is required').max(200).trim(),
+  reference: z.string().max(100).trim().optional()
+});
+
+// Payment and refund schema
+const paymentSchema = z.object({
+  amount: amountSchema.refine(value => value > 0, { message: 'Amount must be positive' }),
+  method: z.nativeEnum(PaymentMethod),
+  description: z.string().max(200).trim().optional(),
+  reference: z.string().max(100).trim().optional()
+});
+
+// Void schema
+const voidSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(180).trim()
+});
+
+// Audit action of each kind of posting
+const AUDIT_ACTIONS: Record<FolioTransactionType, string> = {
+  [FolioTransactionType.CHARGE]: 'FOLIO_CHARGE_POSTED',
+  [FolioTransactionType.PAYMENT]: 'FOLIO_PAYMENT_RECORDED',
+  [FolioTransactionType.REFUND]: 'FOLIO_REFUND_ISSUED',
+  [FolioTransactionType.ADJUSTMENT]: 'FOLIO_ADJUSTMENT_POSTED',
+  [FolioTransactionType.REVERSAL]: 'FOLIO_TRANSACTION_VOIDED'
+};
+
+/**
+ * Folio Controller
+ *
+ * Staff endpoints for a booking's folio: the ledger and balance, charges,
+ * payments, refunds, adjustments, voids and closing a settled folio. Every
+ * posting is written to the audit log.
+ */
+export class FolioController {
+  /**
+   * Get a booking's folio with its summary
+   */
+  static async getFolio(req: Request, res: Response): Promise<void> {
+    try {
+      const folio = await folioService.getFolio(objectIdSchema.parse(req.params['id']), req.user?.id as string | undefined);
+
+      res.status(200).json({
+        success: true,
+        data: FolioController.formatFolio(folio)
+      });
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error retrieving folio');
+    }
+  }
+
+  /**
+   * Post a charge to the guest
+   */
+  static async postCharge(req: Request, res: Response): Promise<void> {
+    try {
+      const request = chargeSchema.parse(req.body);
+      const result = await folioService.postCharge(objectIdSchema.parse(req.params['id']), request, req.user?.id as string | undefined);
+
+      await FolioController.respondWithPosting(req, res, result, 'Charge posted successfully');
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error posting folio charge');
+    }
+  }
+
+  /**
+   * Record a payment from the guest
+   */
+  static async recordPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const request = paymentSchema.parse(req.body);
+      const result = await folioService.recordPayment(objectIdSchema.parse(req.params['id']), request, req.user?.id as string | undefined);
+
+      await FolioController.respondWithPosting(req, res, result, 'Payment recorded successfully');
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error recording folio payment');
+    }
+  }
+
+  /**
+   * Refund money to the guest
+   */
+  static async refund(req: Request, res: Response): Promise<void> {
+    try {
+      const request = paymentSchema.parse(req.body);
+      const result = await folioService.refund(objectIdSchema.parse(req.params['id']), request, req.user?.id as string | undefined);
+
+      await FolioController.respondWithPosting(req, res, result, 'Refund issued successfully');
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error issuing folio refund');
+    }
+  }
+
+  /**
+   * Adjust what the guest is charged
+   */
+  static async adjust(req: Request, res: Response): Promise<void> {
+    try {
+      const request = adjustmentSchema.parse(req.body);
+      const result = await folioService.adjust(objectIdSchema.parse(req.params['id']), request, req.user?.id as string | undefined);
+
+      await FolioController.respondWithPosting(req, res, result, 'Adjustment posted successfully');
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error posting folio adjustment');
+    }
+  }
+
+  /**
+   * Void a transaction by posting its reversal
+   */
+  static async voidTransaction(req: Request, res: Response): Promise<void> {
+    try {
+      const { reason } = voidSchema.parse(req.body);
+      const result = await folioService.voidTransaction(
+        objectIdSchema.parse(req.params['id']),
+        objectIdSchema.parse(req.params['transactionId']),
+        reason,
+        req.user?.id as string | undefined
+      );
+
+      await FolioController.respondWithPosting(req, res, result, 'Transaction voided successfully');
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error voiding folio transaction');
+    }
+  }
+
+  /**
+   * Close a settled folio
+   */
+  static async closeFolio(req: Request, res: Response): Promise<void> {
+    try {
+      const folio = await folioService.closeFolio(objectIdSchema.parse(req.params['id']));
+      await FolioController.audit(
+        auditLoggers.folioClosed(req, folio._id.toString(), folio.booking.toString(), folio.property.toString())
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Folio closed successfully',
+        data: FolioController.formatFolio(folio)
+      });
+    } catch (error) {
+      FolioController.handleError(res, error, 'Error closing folio');
+    }
+  }
+
+  private static async respondWithPosting(req: Request, res: Response, result: IFolioPostingResult, message: string): Promise<void> {
+    const { folio, transaction } = result;
+
+    await FolioController.audit(auditLoggers.folioTransactionPosted(
+      req,
+      AUDIT_ACTIONS[transaction.type],
+      folio._id.toString(),
+      folio.booking.toString(),
+      folio.property.toString(),
+      FolioController.auditTransaction(transaction)
+    ));
+
+    res.status(201).json({
+      success: true,
+      message,
+      data: {
+        transaction,
+        folio: FolioController.formatFolio(folio)
+      }
+    });
+  }
+
+  /**
+   * The posting is already saved, so a failed audit entry must not turn into
+   * an error response that invites the client to post it again
+   */
+  private static async audit(entry: Promise<void>): Promise<void> {
+    try {
+      await entry;
+    } catch (error) {
+      logger.error('Folio audit entry failed:', error);
+    }
+  }
+
+  private static auditTransaction(transaction: IFolioTransaction): Record<string, unknown> {
+    return {
+      id: transaction._id.toString(),
+      type: transaction.type,
+      amount: transaction.amount,
+      category: transaction.category,
+      paymentMethod: transaction.paymentMethod,
+      reference: transaction.reference,
+      reverses: transaction.reverses?.toString()
+    };
+  }
+
+  private static formatFolio(folio: IFolio): Record<string, unknown> {
+    return {
+      ...folio.toJSON(),
+      summary: folio.getSummary()
+    };
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default FolioController;
@@ -1,10 +1,36 @@
 import { Request, Response } from 'express';
 import mongoose from 'mongoose';
-import Booking, { BookingStatus, BookingChannel, DocumentType } from '../models/Booking';
-import RoomAvailability from '../models/RoomAvailability';
+import Booking, { IBooking, IGuestCount, IPricing, BookingStatus, BookingChannel, DocumentType } from '../models/Booking';
+import { IReservationGroup } from '../models/ReservationGroup';
 import Property from '../models/Property';
 import { logger } from '../config/logger';
 import { websocketService } from '../services/websocketService';
+import { inventoryReservationService } from '../services/inventoryReservationService';
+import { inventoryHoldService } from '../services/inventoryHoldService';
+import { inventoryRepository } from '../services/inventoryRepository';
+import { stayRestrictionService } from '../services/stayRestrictionService';
+import { taxRuleService } from '../services/taxRuleService';
+import { exchangeRateService, IConvertedPricing } from '../services/exchangeRateService';
+import { promotionService, IAppliedPromotion } from '../services/promotionService';
+import { extraService, IExtraSelection } from '../services/extraService';
+import { unitAssignmentService } from '../services/unitAssignmentService';
+import { guestProfileService } from '../services/guestProfileService';
+import { reservationGroupService, IGroupRoomRequest } from '../services/reservationGroupService';
+import { BaseError } from '../utils/errors';
+
+// Room of a guest multi-room request, dates default to the request's
+interface IGuestGroupRoomBody {
+  roomId?: string;
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+}
+
+interface IGuestGroupRequestBody {
+  rooms?: unknown;
+  checkIn?: string;
+  checkOut?: string;
+}
 
 /**
  * Guest Booking Controller
@@ -16,7 +42,8 @@ export class GuestBookingController {
    */
   static async checkAvailability(req: Request, res: Response): Promise<void> {
     try {
-      const { propertyId, roomId, checkIn, checkOut } = req.body;
+      const { propertyId, roomId, checkIn, checkOut, channel, guests, children, currency, guestEmail, promoCode, promoCodes, extras } = req.body;
+      const salesChannel = ((channel as string) || 'direct').toLowerCase();
 
       // Validate required fields
       if (!propertyId || !roomId || !checkIn || !checkOut) {
@@ -75,38 +102,97 @@ export class GuestBookingController {
       let minAvailableRooms = Infinity;
 
       for (const date of dates) {
-        const availability = await RoomAvailability.findOne({
-          property: new mongoose.Types.ObjectId(propertyId),
-          room: new mongoose.Types.ObjectId(roomId),
-          date: date
-        });
+        const availability = await inventoryRepository.findNight(propertyId, roomId, date);
+
+        // Respect stop-sell, closed channels and the channel's allotment
+        const availableForChannel = availability ? availability.getAvailableForChannel(salesChannel) : 0;
 
-        if (!availability || availability.availableRooms <= 0) {
+        if (availableForChannel <= 0) {
           isAvailable = false;
           minAvailableRooms = 0;
         } else {
-          minAvailableRooms = Math.min(minAvailableRooms, availability.availableRooms);
+          minAvailableRooms = Math.min(minAvailableRooms, availableForChannel);
         }
 
         availabilityByDate.push({
           date: date.toISOString().split('T')[0],
-          available: availability?.availableRooms || 0,
-          totalRooms: availability?.totalRooms || 0
+          available: availableForChannel,
+          totalRooms: availability?.totalRooms || 0,
+          booked: availability?.bookedRooms.length || 0,
+          held: availability?.heldRooms.length || 0
         });
       }
 
-      // Calculate pricing
+      // Stay restrictions (CTA/CTD, min/max stay, advance booking window)
+      const restrictionViolations = await stayRestrictionService.checkStay(
+        propertyId,
+        roomId,
+        checkInDate,
+        checkOutDate,
+        salesChannel
+      );
+
+      if (restrictionViolations.length > 0) {
+        isAvailable = false;
+      }
+
+      // Calculate pricing, levying the property's taxes and fees
       const nights = dates.length;
       const pricePerNight = room.baseRate || 0;
-      const totalPrice = pricePerNight * nights;
+      const { pricing: levied } = await taxRuleService.calculate({
+        propertyId,
+        checkIn: checkInDate,
+        checkOut: checkOutDate,
+        guests: GuestBookingController.getGuestCount(guests, children),
+        roomTotal: pricePerNight * nights,
+        currency: room.currency || 'USD'
+      });
+
+      // Take the guest's promotion codes off the room rate
+      const promotions = await promotionService.evaluate(GuestBookingController.getPromoCodes(promoCode, promoCodes), {
+        propertyId,
+        roomId,
+        checkIn: checkInDate,
+        checkOut: checkOutDate,
+        pricing: levied,
+        guestEmail: typeof guestEmail === 'string' ? guestEmail : undefined
+      });
+
+      // Price the extras the guest chose on top of the stay
+      const extraQuote = await extraService.quote(GuestBookingController.getExtraSelections(extras), {
+        propertyId,
+        checkIn: checkInDate,
+        checkOut: checkOutDate,
+        guests: GuestBookingController.getGuestCount(guests, children),
+        currency: levied.currency
+      });
+      const pricing = extraService.addToPricing(promotions.pricing, extraQuote);
+      const totalPrice = pricing.total;
+
+      // The property's currency is the one charged; the guest's is for display
+      const converted = currency ? await GuestBookingController.convertQuote(pricing, currency) : undefined;
 
       res.json({
         success: true,
         available: isAvailable,
+        reason: restrictionViolations[0]?.message,
+        restrictionViolations,
         totalRooms: availabilityByDate[0]?.totalRooms || 0,
         availableRooms: minAvailableRooms === Infinity ? 0 : minAvailableRooms,
         pricePerNight,
         totalPrice,
+        pricing,
+        converted,
+        promotions: {
+          applied: promotions.applied,
+          rejected: promotions.rejected,
+          discount: promotions.discount
+        },
+        extras: {
+          lines: extraQuote.lines,
+          unavailable: extraQuote.unavailable,
+          total: extraQuote.total
+        },
         nights,
         dates: availabilityByDate,
         room: {
@@ -141,8 +227,14 @@ export class GuestBookingController {
         guestEmail,
         guestPhone,
         guests,
+        children,
         specialRequests,
-        channel
+        channel,
+        holdToken,
+        currency,
+        promoCode,
+        promoCodes,
+        extras
       } = req.body;
 
       // Validate required fields
@@ -196,23 +288,6 @@ export class GuestBookingController {
       // Get all dates in range
       const dates = GuestBookingController.getDatesBetween(checkInDate, checkOutDate);
 
-      // Check availability for ALL dates
-      for (const date of dates) {
-        const availability = await RoomAvailability.findOne({
-          property: new mongoose.Types.ObjectId(propertyId),
-          room: new mongoose.Types.ObjectId(roomId),
-          date: date
-        });
-
-        if (!availability || availability.availableRooms <= 0) {
-          res.status(400).json({
-            success: false,
-            message: `No availability on ${date.toISOString().split('T')[0]}`
-          });
-          return;
-        }
-      }
-
       // Calculate pricing
       const nights = dates.length;
       const pricePerNight = room.baseRate || 0;
@@ -226,8 +301,8 @@ export class GuestBookingController {
       // Generate confirmation code
       const confirmationCode = GuestBookingController.generateConfirmationCode();
 
-      // Create booking
-      const booking = await Booking.create({
+      // Build booking so its id can be attached to the inventory claim
+      const booking = new Booking({
         property: new mongoose.Types.ObjectId(propertyId),
         room: new mongoose.Types.ObjectId(roomId),
         checkIn: checkInDate,
@@ -241,11 +316,7 @@ export class GuestBookingController {
           documentType: DocumentType.PASSPORT,
           documentNumber: 'N/A'
         },
-        guests: {
-          adults: typeof guests === 'number' ? guests : 1,
-          children: 0,
-          infants: 0
-        },
+        guests: GuestBookingController.getGuestCount(guests, children),
         status: BookingStatus.CONFIRMED,
         channel: (channel as BookingChannel) || BookingChannel.DIRECT,
         channelConfirmationCode: confirmationCode,
@@ -260,31 +331,107 @@ export class GuestBookingController {
         specialRequests: specialRequests ? [specialRequests] : []
       });
 
-      // Update inventory for each date
-      for (const date of dates) {
-        const availability = await RoomAvailability.findOne({
-          property: new mongoose.Types.ObjectId(propertyId),
-          room: new mongoose.Types.ObjectId(roomId),
-          date: date
-        });
+      await booking.validate();
 
-        if (availability) {
-          await availability.addBooking(
-            (channel as string) || 'direct',
-            booking._id as mongoose.Types.ObjectId,
-            guestName
+      // Levy the property's tax and fee rules on the room rate
+      await taxRuleService.applyToBooking(booking);
+
+      // Claim inventory for every night atomically before persisting the booking,
+      // converting the guest's hold when checkout started with one
+      let reservedNights;
+      let promotions: IAppliedPromotion[];
+      try {
+        // Take the guest's promotion codes off the room rate; every code must apply
+        promotions = await promotionService.applyToBooking(
+          booking,
+          GuestBookingController.getPromoCodes(promoCode, promoCodes)
+        );
+
+        // Add the extras the guest chose; every extra must be available
+        await extraService.applyToBooking(booking, GuestBookingController.getExtraSelections(extras));
+
+        // A hold already passed the restrictions when it was placed
+        if (!holdToken) {
+          await stayRestrictionService.assertStayAllowed(
+            propertyId,
+            roomId,
+            checkInDate,
+            checkOutDate,
+            (channel as string) || 'direct'
           );
+        }
+
+        reservedNights = holdToken
+          ? await inventoryHoldService.convertHold(holdToken, {
+            bookingId: booking._id as mongoose.Types.ObjectId,
+            propertyId,
+            roomId,
+            checkIn: checkInDate,
+            checkOut: checkOutDate,
+            guestName
+          })
+          : await inventoryReservationService.reserve({
+            propertyId,
+            roomId,
+            checkIn: checkInDate,
+            checkOut: checkOutDate,
+            bookingId: booking._id as mongoose.Types.ObjectId,
+            channel: (channel as string) || 'direct',
+            guestName
+          });
+      } catch (error) {
+        if (error instanceof BaseError && error.statusCode < 500) {
+          res.status(error.statusCode).json({
+            success: false,
+            message: error.message,
+            errors: error.errors
+          });
+          return;
+        }
+        throw error;
+      }
 
-          // Emit WebSocket event for inventory update
-          websocketService.emitInventoryUpdated({
-            propertyId: propertyId,
-            roomId: roomId,
-            date: date.toISOString().split('T')[0],
-            totalRooms: availability.totalRooms,
-            availableRooms: availability.availableRooms - 1,
-            bookedRooms: availability.bookedRooms.length + 1
+      // Count the codes against their limits and take the extras' daily
+      // inventory, either of which may have run out meanwhile
+      try {
+        await promotionService.redeem(booking, promotions);
+        await extraService.reserve(booking);
+        await booking.save();
+      } catch (error) {
+        await inventoryReservationService.release({
+          propertyId,
+          roomId,
+          checkIn: checkInDate,
+          checkOut: checkOutDate,
+          bookingId: booking._id as mongoose.Types.ObjectId
+        });
+        await promotionService.tryReleaseBooking(booking._id);
+        await extraService.tryReleaseBooking(booking._id);
+
+        if (error instanceof BaseError && error.statusCode < 500) {
+          res.status(error.statusCode).json({
+            success: false,
+            message: error.message,
+            errors: error.errors
           });
+          return;
         }
+        throw error;
+      }
+
+      await unitAssignmentService.tryAssignBooking(booking);
+      await guestProfileService.tryAttachBooking(booking);
+
+      // Emit WebSocket event for inventory update
+      for (const night of reservedNights) {
+        websocketService.emitInventoryUpdated({
+          propertyId: propertyId,
+          roomId: roomId,
+          date: night.date.toISOString().split('T')[0],
+          totalRooms: night.totalRooms,
+          availableRooms: night.availableRooms,
+          bookedRooms: night.bookedRooms
+        });
       }
 
       // Emit WebSocket event for booking created
@@ -313,8 +460,12 @@ export class GuestBookingController {
           checkOut: booking.checkOut,
           guestName,
           guestEmail,
-          totalAmount: totalPrice,
-          currency: room.currency || 'USD',
+          totalAmount: booking.pricing.total,
+          currency: booking.pricing.currency,
+          pricing: booking.pricing,
+          promotions,
+          extras: booking.extras,
+          converted: currency ? await GuestBookingController.convertQuote(booking.pricing, currency) : undefined,
           status: booking.status,
           property: {
             id: property._id,
@@ -339,6 +490,327 @@ export class GuestBookingController {
     }
   }
 
+  /**
+   * Check that every room of a multi-room booking is available at once
+   */
+  static async checkGroupAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { propertyId, channel } = req.body;
+      const rooms = GuestBookingController.parseGroupRooms(req.body);
+
+      if (!propertyId || !rooms) {
+        res.status(400).json({
+          success: false,
+          message: 'Property ID and rooms with check-in and check-out dates are required'
+        });
+        return;
+      }
+
+      const availability = await reservationGroupService.checkAvailability(
+        propertyId,
+        rooms,
+        (channel as string) || 'direct'
+      );
+
+      res.json({
+        success: true,
+        ...availability
+      });
+
+    } catch (error) {
+      logger.error('Error checking group availability:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error checking availability',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Create a guest booking for several rooms under one confirmation code
+   */
+  static async createGroupBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const { propertyId, groupName, guestName, guestEmail, guestPhone, specialRequests, channel } = req.body;
+      const rooms = GuestBookingController.parseGroupRooms(req.body);
+
+      // Validate required fields
+      if (!propertyId || !rooms || !guestName || !guestEmail) {
+        res.status(400).json({
+          success: false,
+          message: 'Missing required fields'
+        });
+        return;
+      }
+
+      // Split guest name into first and last name
+      const nameParts = guestName.trim().split(' ');
+      const firstName = nameParts[0] || guestName;
+      const lastName = nameParts.slice(1).join(' ') || firstName;
+
+      const { group, bookings } = await reservationGroupService.createGroup({
+        propertyId,
+        name: groupName,
+        leadGuest: {
+          firstName,
+          lastName,
+          email: guestEmail,
+          phone: guestPhone || '+000000000',
+          nationality: 'Unknown',
+          documentType: DocumentType.PASSPORT,
+          documentNumber: 'N/A'
+        },
+        channel: (channel as BookingChannel) || BookingChannel.DIRECT,
+        status: BookingStatus.CONFIRMED,
+        rooms: rooms.map(room => ({
+          ...room,
+          specialRequests: specialRequests ? [specialRequests] : []
+        }))
+      }, { enforceRestrictions: true });
+
+      for (const booking of bookings) {
+        websocketService.emitBookingCreated({
+          propertyId: propertyId,
+          roomId: booking.room.toString(),
+          dates: GuestBookingController.getDatesBetween(booking.checkIn, booking.checkOut).map(d => d.toISOString().split('T')[0]),
+          channel: (channel as string) || 'direct',
+          guestName: guestName
+        });
+      }
+
+      logger.info(`Guest group booking created: ${group.confirmationCode}`, {
+        rooms: bookings.length,
+        guest: guestName,
+        channel: channel || 'direct'
+      });
+
+      res.status(201).json({
+        success: true,
+        group: GuestBookingController.formatGroup(group, bookings),
+        message: 'Booking confirmed! Availability updated across all channels.'
+      });
+
+    } catch (error) {
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          errors: error.errors
+        });
+        return;
+      }
+
+      logger.error('Error creating guest group booking:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error creating booking',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Get a multi-room booking by its group confirmation code
+   */
+  static async getGroupBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const { group, bookings } = await reservationGroupService.getGroupByConfirmationCode(req.params.confirmationCode);
+
+      res.json({
+        success: true,
+        group: GuestBookingController.formatGroup(group, bookings)
+      });
+
+    } catch (error) {
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      logger.error('Error fetching group booking:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching booking',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Hold a room while the guest completes checkout
+   */
+  static async createHold(req: Request, res: Response): Promise<void> {
+    try {
+      const { propertyId, roomId, checkIn, checkOut, guestEmail, channel } = req.body;
+
+      // Validate required fields
+      if (!propertyId || !roomId || !checkIn || !checkOut) {
+        res.status(400).json({
+          success: false,
+          message: 'Property ID, room ID, check-in and check-out dates are required'
+        });
+        return;
+      }
+
+      const checkInDate = new Date(checkIn);
+      const checkOutDate = new Date(checkOut);
+
+      // Validate dates
+      if (checkInDate >= checkOutDate) {
+        res.status(400).json({
+          success: false,
+          message: 'Check-out date must be after check-in date'
+        });
+        return;
+      }
+
+      if (checkInDate < new Date()) {
+        res.status(400).json({
+          success: false,
+          message: 'Check-in date cannot be in the past'
+        });
+        return;
+      }
+
+      const property = await Property.findById(propertyId);
+      if (!property || !property.rooms.some(r => r._id.toString() === roomId.toString())) {
+        res.status(404).json({
+          success: false,
+          message: 'Property or room not found'
+        });
+        return;
+      }
+
+      await stayRestrictionService.assertStayAllowed(
+        propertyId,
+        roomId,
+        checkInDate,
+        checkOutDate,
+        (channel as string) || 'direct'
+      );
+
+      const { hold, nights } = await inventoryHoldService.createHold({
+        propertyId,
+        roomId,
+        checkIn: checkInDate,
+        checkOut: checkOutDate,
+        channel: (channel as string) || 'direct',
+        guestEmail
+      });
+
+      for (const night of nights) {
+        websocketService.emitInventoryUpdated({
+          propertyId: propertyId,
+          roomId: roomId,
+          date: night.date.toISOString().split('T')[0],
+          totalRooms: night.totalRooms,
+          availableRooms: night.availableRooms,
+          bookedRooms: night.bookedRooms
+        });
+      }
+
+      res.status(201).json({
+        success: true,
+        hold: {
+          token: hold.token,
+          expiresAt: hold.expiresAt,
+          checkIn: hold.checkIn,
+          checkOut: hold.checkOut,
+          nights: nights.length
+        },
+        message: 'Room held. Complete your booking before the hold expires.'
+      });
+
+    } catch (error) {
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          errors: error.errors
+        });
+        return;
+      }
+
+      logger.error('Error creating inventory hold:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error creating hold',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Get hold status by token
+   */
+  static async getHold(req: Request, res: Response): Promise<void> {
+    try {
+      const hold = await inventoryHoldService.getHold(req.params.token);
+
+      res.json({
+        success: true,
+        hold: {
+          token: hold.token,
+          status: hold.status,
+          expiresAt: hold.expiresAt,
+          expired: hold.isExpired(),
+          checkIn: hold.checkIn,
+          checkOut: hold.checkOut
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      logger.error('Error fetching inventory hold:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching hold',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Release a hold the guest no longer needs
+   */
+  static async releaseHold(req: Request, res: Response): Promise<void> {
+    try {
+      await inventoryHoldService.releaseHold(req.params.token);
+
+      res.json({
+        success: true,
+        message: 'Hold released'
+      });
+
+    } catch (error) {
+      if (error instanceof BaseError && error.statusCode < 500) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      logger.error('Error releasing inventory hold:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error releasing hold',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
   /**
    * Get booking by confirmation code
    */
@@ -375,6 +847,7 @@ export class GuestBookingController {
           guests: booking.guests.adults + booking.guests.children,
           totalAmount: booking.pricing.total,
           currency: booking.pricing.currency,
+          extras: booking.extras,
           status: booking.status,
           property: {
             id: property._id,
@@ -399,6 +872,151 @@ export class GuestBookingController {
     }
   }
 
+  /**
+   * List the extras a property sells with its stays
+   */
+  static async getExtras(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || !mongoose.isValidObjectId(id)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid property ID'
+        });
+        return;
+      }
+
+      const extras = await extraService.listExtras(id);
+
+      res.json({
+        success: true,
+        extras: extras.map(extra => ({
+          id: extra._id,
+          name: extra.name,
+          description: extra.description,
+          category: extra.category,
+          chargeType: extra.chargeType,
+          price: extra.price,
+          currency: extra.currency,
+          maxQuantity: extra.maxQuantity
+        }))
+      });
+
+    } catch (error) {
+      logger.error('Error fetching extras:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Error fetching extras',
+        error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Helper: Read the rooms of a group request; each room may override the
+   * group's check-in and check-out dates
+   */
+  private static parseGroupRooms(body: IGuestGroupRequestBody): IGroupRoomRequest[] | null {
+    if (!Array.isArray(body.rooms) || body.rooms.length === 0) {
+      return null;
+    }
+
+    const rooms: IGroupRoomRequest[] = [];
+    for (const room of body.rooms as IGuestGroupRoomBody[]) {
+      const checkIn = room.checkIn || body.checkIn;
+      const checkOut = room.checkOut || body.checkOut;
+
+      if (!room.roomId || !checkIn || !checkOut) {
+        return null;
+      }
+
+      rooms.push({
+        roomId: room.roomId,
+        checkIn: new Date(checkIn),
+        checkOut: new Date(checkOut),
+        guests: GuestBookingController.getGuestCount(room.guests)
+      });
+    }
+
+    return rooms;
+  }
+
+  /**
+   * Helper: Shape a group and its rooms for the guest
+   */
+  private static formatGroup(group: IReservationGroup, bookings: IBooking[]) {
+    return {
+      id: group._id,
+      confirmationCode: group.confirmationCode,
+      name: group.name,
+      status: group.status,
+      guestName: `${group.leadGuest.firstName} ${group.leadGuest.lastName}`,
+      guestEmail: group.leadGuest.email,
+      totalAmount: group.folio.total,
+      currency: group.folio.currency,
+      rooms: bookings.map(booking => ({
+        id: booking._id,
+        confirmationCode: booking.channelConfirmationCode,
+        roomId: booking.room,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        guests: booking.guests.adults + booking.guests.children,
+        totalAmount: booking.pricing.total,
+        status: booking.status
+      }))
+    };
+  }
+
+  /**
+   * Helper: Pricing in the guest's currency at today's rate, null when no
+   * rate is loaded (the quote then stands in the property's currency only)
+   */
+  private static async convertQuote(pricing: IPricing, currency: unknown): Promise<IConvertedPricing | null> {
+    try {
+      return await exchangeRateService.convertPricing(pricing, String(currency));
+    } catch (error) {
+      logger.warn(`Quote could not be converted to ${String(currency)}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Helper: Promotion codes of a request, given as one code or a list
+   */
+  private static getPromoCodes(promoCode: unknown, promoCodes: unknown): string[] {
+    const codes = Array.isArray(promoCodes) ? promoCodes : [promoCode];
+    return codes.filter((code): code is string => typeof code === 'string');
+  }
+
+  /**
+   * Helper: Extras chosen in a request, given as a list of ids and quantities
+   */
+  private static getExtraSelections(extras: unknown): IExtraSelection[] {
+    if (!Array.isArray(extras)) {
+      return [];
+    }
+
+    return extras
+      .filter((extra): extra is { extraId: string; quantity?: unknown } =>
+        typeof extra === 'object' && extra !== null && typeof (extra as { extraId?: unknown }).extraId === 'string')
+      .map(extra => ({
+        extraId: extra.extraId,
+        quantity: typeof extra.quantity === 'number' ? extra.quantity : undefined
+      }));
+  }
+
+  /**
+   * Helper: Guest count from the adult and child numbers of a request
+   */
+  private static getGuestCount(adults: unknown, children?: unknown): IGuestCount {
+    return {
+      adults: typeof adults === 'number' ? adults : 1,
+      children: typeof children === 'number' ? children : 0,
+      infants: 0
+    };
+  }
+
   /**
    * Helper: Get all dates between check-in and check-out (excluding check-out)
    */
@@ -0,0 +1,330 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { FilterQuery } from 'mongoose';
+import { logger } from '../config/logger';
+import Guest, { IGuest } from '../models/Guest';
+import Property from '../models/Property';
+import { Role } from '../models/User';
+import { auditLoggers } from '../middleware/audit';
+import { guestProfileService, IGuestMatch } from '../services/guestProfileService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const tagSchema = z.string().min(1).max(50).trim();
+
+// Guest search schema
+const searchSchema = z.object({
+  search: z.string().max(100).trim().optional(),
+  tag: tagSchema.optional(),
+  property: objectIdSchema.optional(),
+  page: z.string().transform(Number).pipe(z.number().min(1)).default('1'),
+  limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).default('20')
+});
+
+// Stay history schema
+const historySchema = searchSchema.pick({ page: true, limit: true });
+
+// Profile update schema
+const updateSchema = z.object({
+  firstName: z.string().min(1).max(50).trim().optional(),
+  lastName: z.string().min(1).max(50).trim().optional(),
+  email: z.string().email('Invalid email format').optional(),
+  phone: z.string().regex(/^\+?[1-9]\d{1,14}$/, 'Invalid phone number format').optional(),
+  nationality: z.string().min(2).max(50).trim().optional(),
+  dateOfBirth: z.string().datetime('Invalid date format').transform(value => new Date(value)).optional(),
+  gender: z.enum(['male', 'female', 'other']).optional(),
+  preferences: z.array(z.string().min(1).max(200).trim()).max(50).optional()
+}).refine(data => Object.keys(data).length > 0, { message: 'Nothing to update' });
+
+// Tag update schema
+const tagsSchema = z.object({
+  add: z.array(tagSchema).max(20).default([]),
+  remove: z.array(tagSchema).max(20).default([])
+});
+
+// Note schema
+const noteSchema = z.object({
+  text: z.string().min(1, 'Note text is required').max(1000).trim()
+});
+
+// Merge schema; the guests in `sources` are folded into the guest in the URL
+const mergeSchema = z.object({
+  sources: z.array(objectIdSchema).min(1, 'At least one guest to merge is required').max(20)
+});
+
+/**
+ * Guest Controller
+ *
+ * Staff endpoints for guest profiles: search, profile details with stay
+ * history and lifetime value, tags, notes, and reviewing and merging
+ * duplicate profiles.
+ */
+export class GuestController {
+  /**
+   * Search the guest profiles the user may see
+   */
+  static async searchGuests(req: Request, res: Response): Promise<void> {
+    try {
+      const { search, tag, property, page, limit } = searchSchema.parse(req.query);
+      const { guests, total } = await guestProfileService.searchGuests({
+        search,
+        tag,
+        property,
+        page,
+        limit,
+        scope: await GuestController.getScope(req)
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          guests,
+          pagination: GuestController.pagination(page, limit, total)
+        }
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error searching guests');
+    }
+  }
+
+  /**
+   * Get a guest profile
+   */
+  static async getGuest(req: Request, res: Response): Promise<void> {
+    try {
+      const guest = await guestProfileService.getGuest(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: guest
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error retrieving guest');
+    }
+  }
+
+  /**
+   * Edit a guest profile
+   */
+  static async updateGuest(req: Request, res: Response): Promise<void> {
+    try {
+      const updates = updateSchema.parse(req.body);
+      const guest = await guestProfileService.updateProfile(objectIdSchema.parse(req.params['id']), updates);
+
+      res.status(200).json({
+        success: true,
+        message: 'Guest updated successfully',
+        data: guest
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error updating guest');
+    }
+  }
+
+  /**
+   * Bookings of a guest, latest stay first
+   */
+  static async getStayHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { page, limit } = historySchema.parse(req.query);
+      const { guest, bookings, total } = await guestProfileService.getStayHistory(
+        objectIdSchema.parse(req.params['id']),
+        page,
+        limit
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          stats: guest.stats,
+          bookings,
+          pagination: GuestController.pagination(page, limit, total)
+        }
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error retrieving guest stay history');
+    }
+  }
+
+  /**
+   * Profiles that share an identifier with a guest
+   */
+  static async getDuplicates(req: Request, res: Response): Promise<void> {
+    try {
+      const matches = await guestProfileService.findDuplicates(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: matches.map(GuestController.formatMatch)
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error finding duplicate guests');
+    }
+  }
+
+  /**
+   * Merge duplicate profiles into a guest
+   */
+  static async mergeGuests(req: Request, res: Response): Promise<void> {
+    try {
+      const { sources } = mergeSchema.parse(req.body);
+      const targetId = objectIdSchema.parse(req.params['id']);
+
+      // Every duplicate must be one the user could open on its own
+      const scope = await GuestController.getScope(req);
+      if (scope && await Guest.countDocuments({ _id: { $in: sources }, ...scope }) !== new Set(sources).size) {
+        res.status(403).json({
+          success: false,
+          message: 'You can only merge guests of properties you own or manage.',
+          code: 'GUEST_OWNERSHIP_REQUIRED'
+        });
+        return;
+      }
+
+      const guest = await guestProfileService.mergeGuests(targetId, sources);
+      await auditLoggers.guestsMerged(req, guest._id.toString(), sources);
+
+      res.status(200).json({
+        success: true,
+        message: 'Guests merged successfully',
+        data: guest
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error merging guests');
+    }
+  }
+
+  /**
+   * Add and remove tags
+   */
+  static async updateTags(req: Request, res: Response): Promise<void> {
+    try {
+      const { add, remove } = tagsSchema.parse(req.body);
+      const guest = await guestProfileService.updateTags(objectIdSchema.parse(req.params['id']), add, remove);
+
+      res.status(200).json({
+        success: true,
+        message: 'Guest tags updated successfully',
+        data: guest
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error updating guest tags');
+    }
+  }
+
+  /**
+   * Add a staff note
+   */
+  static async addNote(req: Request, res: Response): Promise<void> {
+    try {
+      const { text } = noteSchema.parse(req.body);
+      const guest = await guestProfileService.addNote(
+        objectIdSchema.parse(req.params['id']),
+        text,
+        req.user?.id as string | undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Note added successfully',
+        data: guest
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error adding guest note');
+    }
+  }
+
+  /**
+   * Remove a staff note
+   */
+  static async removeNote(req: Request, res: Response): Promise<void> {
+    try {
+      const guest = await guestProfileService.removeNote(
+        objectIdSchema.parse(req.params['id']),
+        objectIdSchema.parse(req.params['noteId'])
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Note removed successfully',
+        data: guest
+      });
+    } catch (error) {
+      GuestController.handleError(res, error, 'Error removing guest note');
+    }
+  }
+
+  /**
+   * Guests of the properties the user owns or manages; none for superadmins,
+   * who see every guest
+   */
+  private static async getScope(req: Request): Promise<FilterQuery<IGuest> | undefined> {
+    if (!req.user || req.user.roles.includes(Role.SUPERADMIN)) {
+      return undefined;
+    }
+
+    const managed = await Property.find({ manager: req.user._id }).distinct('_id');
+    return {
+      $or: [
+        { owner: req.user._id },
+        { properties: { $in: managed } }
+      ]
+    };
+  }
+
+  private static formatMatch(match: IGuestMatch): Record<string, unknown> {
+    return {
+      guest: match.guest,
+      reasons: match.reasons,
+      nameSimilarity: Math.round(match.nameSimilarity * 100) / 100,
+      confident: match.confident
+    };
+  }
+
+  private static pagination(page: number, limit: number, total: number): Record<string, unknown> {
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      currentPage: page,
+      totalPages,
+      totalItems: total,
+      itemsPerPage: limit,
+      hasNextPage: page < totalPages,
+      hasPrevPage: page > 1
+    };
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default GuestController;
@@ -0,0 +1,265 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { auditLoggers } from '../middleware/audit';
+import { IBooking } from '../models/Booking';
+import { guestAccessService, IGuestAccess } from '../services/guestAccessService';
+import { BaseError } from '../utils/errors';
+
+// Booking link request schema
+const linkRequestSchema = z.object({
+  email: z.string().trim().email('Invalid email address')
+});
+
+// Guest cancellation schema
+const cancelSchema = z.object({
+  reason: z.string().trim().max(500).optional()
+});
+
+// Guest stay change schema; omitted fields keep their current value
+const stayChangeSchema = z.object({
+  checkIn: z.coerce.date().optional(),
+  checkOut: z.coerce.date().optional(),
+  guests: z.object({
+    adults: z.number().int().min(1).optional(),
+    children: z.number().int().min(0).optional(),
+    infants: z.number().int().min(0).optional()
+  }).optional()
+}).refine(data => data.checkIn !== undefined || data.checkOut !== undefined || data.guests !== undefined, {
+  message: 'Provide new dates or a new guest count'
+});
+
+// Guest details schema; a null arrival time clears it
+const detailsSchema = z.object({
+  arrivalTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Arrival time must be in HH:mm format').nullable().optional(),
+  specialRequests: z.array(z.string().trim().min(1).max(200)).max(10).optional()
+}).refine(data => data.arrivalTime !== undefined || data.specialRequests !== undefined, {
+  message: 'Provide an arrival time or special requests'
+});
+
+/**
+ * Guest Self-Service Controller
+ *
+ * Lets a guest view, cancel and change their own booking
+ * (/guest/bookings/:confirmationCode/...). The authenticateGuest middleware
+ * puts the booking the guest proved they own on req.guestAccess; every
+ * change is written to the audit log with the guest as actor.
+ */
+export class GuestSelfServiceController {
+  /**
+   * Email the guest a link to manage their booking
+   */
+  static async requestLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = linkRequestSchema.parse(req.body);
+      const booking = await guestAccessService.sendLink(req.params['confirmationCode'] ?? '', email);
+
+      if (booking) {
+        await GuestSelfServiceController.audit(auditLoggers.guestBookingLinkSent(
+          req,
+          booking._id.toString(),
+          booking.property.toString(),
+          booking.guestInfo.email
+        ));
+      }
+
+      // The same answer whether or not the code and email match
+      res.status(200).json({
+        success: true,
+        message: 'If the details match a booking, a link to manage it has been emailed'
+      });
+    } catch (error) {
+      GuestSelfServiceController.handleError(res, error, 'Error sending booking link');
+    }
+  }
+
+  /**
+   * Get the booking with what the guest may still change and what
+   * cancelling would cost
+   */
+  static async getBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const overview = await guestAccessService.getOverview(GuestSelfServiceController.getAccess(req));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          booking: GuestSelfServiceController.formatBooking(overview.booking),
+          canModify: overview.canModify,
+          canCancel: overview.canCancel,
+          cancellation: overview.cancellation
+        }
+      });
+    } catch (error) {
+      GuestSelfServiceController.handleError(res, error, 'Error retrieving booking');
+    }
+  }
+
+  /**
+   * Cancel the booking within its cancellation policy
+   */
+  static async cancelBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const access = GuestSelfServiceController.getAccess(req);
+      const { reason } = cancelSchema.parse(req.body);
+      const booking = await guestAccessService.cancel(access, reason);
+
+      await GuestSelfServiceController.audit(auditLoggers.guestBookingCancelled(
+        req,
+        booking._id.toString(),
+        booking.property.toString(),
+        access.email,
+        { method: access.method, reason, cancellation: booking.cancellationCharge }
+      ));
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking cancelled successfully',
+        data: {
+          booking: GuestSelfServiceController.formatBooking(booking),
+          cancellation: booking.cancellationCharge
+        }
+      });
+    } catch (error) {
+      GuestSelfServiceController.handleError(res, error, 'Error cancelling booking');
+    }
+  }
+
+  /**
+   * Change the dates or guest count of the stay
+   */
+  static async changeStay(req: Request, res: Response): Promise<void> {
+    try {
+      const access = GuestSelfServiceController.getAccess(req);
+      const { booking, modification } = await guestAccessService.changeStay(access, stayChangeSchema.parse(req.body));
+
+      await GuestSelfServiceController.audit(auditLoggers.guestBookingUpdated(
+        req,
+        booking._id.toString(),
+        booking.property.toString(),
+        access.email,
+        {
+          method: access.method,
+          before: modification.before,
+          after: modification.after,
+          priceDifference: modification.priceDifference
+        }
+      ));
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking changed successfully',
+        data: {
+          booking: GuestSelfServiceController.formatBooking(booking),
+          priceDifference: modification.priceDifference
+        }
+      });
+    } catch (error) {
+      GuestSelfServiceController.handleError(res, error, 'Error changing booking');
+    }
+  }
+
+  /**
+   * Update the expected arrival time and special requests
+   */
+  static async updateDetails(req: Request, res: Response): Promise<void> {
+    try {
+      const access = GuestSelfServiceController.getAccess(req);
+      const changes = detailsSchema.parse(req.body);
+      const booking = await guestAccessService.updateDetails(access, changes);
+
+      await GuestSelfServiceController.audit(auditLoggers.guestBookingUpdated(
+        req,
+        booking._id.toString(),
+        booking.property.toString(),
+        access.email,
+        { method: access.method, changes }
+      ));
+
+      res.status(200).json({
+        success: true,
+        message: 'Booking details updated successfully',
+        data: GuestSelfServiceController.formatBooking(booking)
+      });
+    } catch (error) {
+      GuestSelfServiceController.handleError(res, error, 'Error updating booking details');
+    }
+  }
+
+  private static getAccess(req: Request): IGuestAccess {
+    if (!req.guestAccess) {
+      throw new Error('Guest access middleware did not run');
+    }
+    return req.guestAccess;
+  }
+
+  /**
+   * What a guest may see of their booking; staff notes and history stay out
+   */
+  private static formatBooking(booking: IBooking) {
+    return {
+      id: booking._id,
+      confirmationCode: booking.channelConfirmationCode,
+      status: booking.status,
+      property: booking.property,
+      room: booking.room,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      guests: booking.guests,
+      guestInfo: {
+        firstName: booking.guestInfo.firstName,
+        lastName: booking.guestInfo.lastName,
+        email: booking.guestInfo.email
+      },
+      pricing: booking.pricing,
+      extras: booking.extras,
+      arrivalTime: booking.arrivalTime,
+      specialRequests: booking.specialRequests
+    };
+  }
+
+  /**
+   * Changes are saved before they are audited; a failed entry is only logged
+   */
+  private static async audit(entry: Promise<void>): Promise<void> {
+    try {
+      await entry;
+    } catch (error) {
+      logger.error('Guest self-service audit entry failed:', error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default GuestSelfServiceController;
@@ -1,9 +1,12 @@
 import { Request, Response } from 'express';
-import RoomAvailability, { AvailabilityStatus } from '../models/RoomAvailability';
+import { CalendarStatus } from '../models/Calendar';
 import Property from '../models/Property';
 import { logger } from '../config/logger';
 import { z } from 'zod';
 import mongoose from 'mongoose';
+import { inventoryReservationService, InventoryReservationService } from '../services/inventoryReservationService';
+import { inventoryRepository } from '../services/inventoryRepository';
+import { ConflictError } from '../utils/errors';
 
 /**
  * Inventory Controller V2
@@ -30,7 +33,25 @@ const bulkUpdateSchema = z.object({
     minStay: z.number().min(1).optional(),
     maxStay: z.number().min(1).optional(),
     stopSell: z.boolean().optional(),
-    channel: z.string().optional()
+    channel: z.string().optional(),
+    allotments: z.array(z.object({
+      channel: z.string().min(1, 'Channel is required'),
+      limit: z.number().int().min(0).nullable()
+    })).optional(),
+    overbookingLimit: z.number().int().min(0).optional(),
+    // Stay restrictions for the channel ('all' sets the date defaults); null clears
+    restrictions: z.object({
+      closedToArrival: z.boolean().nullable().optional(),
+      closedToDeparture: z.boolean().nullable().optional(),
+      minStayArrival: z.number().int().min(1).nullable().optional(),
+      minStayThrough: z.number().int().min(1).nullable().optional(),
+      maxStay: z.number().int().min(1).nullable().optional(),
+      minAdvanceDays: z.number().int().min(0).nullable().optional(),
+      maxAdvanceDays: z.number().int().min(0).nullable().optional()
+    }).refine(
+      r => r.minAdvanceDays == null || r.maxAdvanceDays == null || r.minAdvanceDays <= r.maxAdvanceDays,
+      { message: 'Minimum advance days cannot exceed maximum advance days', path: ['maxAdvanceDays'] }
+    ).optional()
   })
 });
 
@@ -76,11 +97,11 @@ export class InventoryControllerV2 {
       const roomIds = property.rooms.map(room => room._id);
 
       // Fetch availability records
-      const availabilityRecords = await RoomAvailability.find({
-        property: new mongoose.Types.ObjectId(propertyId),
-        room: { $in: roomIds },
+      const availabilityRecords = await inventoryRepository.findNights({
+        propertyId,
+        roomId: roomIds,
         date: { $gte: startDate, $lte: endDate }
-      }).sort({ room: 1, date: 1 });
+      });
 
       // Group by room
       const roomMap = new Map<string, any>();
@@ -139,13 +160,18 @@ export class InventoryControllerV2 {
           // CRITICAL: These numbers are the same regardless of channel view
           allotment: record.totalRooms,        // Always the same (e.g., 4)
           booked: record.bookedRooms.length,   // Total booked across ALL channels
+          held: record.heldRooms.length,       // Held for guests in checkout (not yet booked)
           blocked: record.blockedRooms,
-          available: record.availableRooms,    // Total - booked - blocked
+          available: record.availableRooms,    // Total - booked - held - blocked
           
           rate: Math.round(displayRate * 100) / 100,
           minStay: record.minStay,
           maxStay: record.maxStay,
           stopSell: record.status !== 'open',
+
+          // Stay restrictions in force for the viewed channel, plus per-channel overrides
+          restrictions: record.getRestrictionsForChannel(channel && channel !== 'total' ? channel : 'all'),
+          channelRestrictions: record.channelRestrictions,
           
           // Additional info for channel-specific views
           channels: record.bookedRooms.map(b => ({
@@ -158,6 +184,15 @@ export class InventoryControllerV2 {
           // For channel-specific view: how many booked on THIS channel
           channelBooked: channel && channel !== 'total' ? channelBookedCount : undefined,
           
+          // Per-channel caps inside the shared pool
+          overbookingLimit: record.overbookingLimit,
+          allotments: record.allotments.map(a => ({
+            channel: a.channel,
+            allotted: a.limit,
+            sold: record.getSoldForChannel(a.channel),
+            available: record.getAvailableForChannel(a.channel)
+          })),
+
           // Channel-specific rates
           channelRates: record.rates.map(r => ({
             channel: r.channel,
@@ -230,45 +265,29 @@ export class InventoryControllerV2 {
         const date = new Date(dateStr);
 
         // Find the availability record
-        const availability = await RoomAvailability.findOne({
-          room: new mongoose.Types.ObjectId(roomId),
-          date: date
+        const [availability] = await inventoryRepository.findNights({
+          roomId: new mongoose.Types.ObjectId(roomId),
+          date
         });
 
         if (!availability) {
           return { success: false, cellId };
         }
 
-        // Update rate for specific channel or all channels
-        if (updates.rate !== undefined) {
-          if (updates.channel) {
-            // Update specific channel rate
-            const rateIndex = availability.rates.findIndex(r => r.channel === updates.channel);
-            if (rateIndex !== -1) {
-              availability.rates[rateIndex].rate = updates.rate;
-            } else {
-              availability.rates.push({
-                channel: updates.channel,
-                rate: updates.rate,
-                currency: 'USD'
-              });
-            }
-          } else {
-            // Update all channel rates
-            availability.rates.forEach(r => r.rate = updates.rate!);
-          }
-        }
-
-        if (updates.minStay !== undefined) availability.minStay = updates.minStay;
-        if (updates.maxStay !== undefined) availability.maxStay = updates.maxStay;
-        
-        if (updates.stopSell !== undefined) {
-          availability.status = updates.stopSell ? AvailabilityStatus.CLOSED : AvailabilityStatus.OPEN;
-        }
+        await inventoryRepository.updateNights(availability.property, availability.room, [availability.date], {
+          channel: updates.channel,
+          rate: updates.rate,
+          minStay: updates.minStay,
+          maxStay: updates.maxStay,
+          status: updates.stopSell === undefined
+            ? undefined
+            : updates.stopSell ? CalendarStatus.BLOCKED : CalendarStatus.AVAILABLE,
+          allotments: updates.allotments,
+          overbookingLimit: updates.overbookingLimit,
+          restrictions: updates.restrictions,
+          userId
+        });
 
-        availability.lastUpdatedBy = userId ? new mongoose.Types.ObjectId(userId) : undefined;
-        
-        await availability.save();
         return { success: true, cellId };
       });
 
@@ -321,48 +340,31 @@ export class InventoryControllerV2 {
 
       const startDate = new Date(checkIn);
       const endDate = new Date(checkOut);
-
-      // Calculate dates between check-in and check-out
-      const dates: Date[] = [];
-      const currentDate = new Date(startDate);
-      while (currentDate < endDate) {
-        dates.push(new Date(currentDate));
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
+      const dates = InventoryReservationService.getStayDates(startDate, endDate);
 
       if (status === 'confirmed' || status === 'booked') {
-        // Add booking to availability records
-        for (const date of dates) {
-          const availability = await RoomAvailability.findOne({
-            property: new mongoose.Types.ObjectId(propertyId),
-            room: new mongoose.Types.ObjectId(roomId),
-            date: date
-          });
-
-          if (availability) {
-            await availability.addBooking(
-              channel,
-              new mongoose.Types.ObjectId(bookingId),
-              guestName
-            );
-          }
-        }
+        // Claim every night atomically; nothing is reserved if any night is sold out
+        await inventoryReservationService.reserve({
+          propertyId,
+          roomId,
+          checkIn: startDate,
+          checkOut: endDate,
+          bookingId: new mongoose.Types.ObjectId(bookingId),
+          channel,
+          guestName
+        });
 
         logger.info(`Added booking to ${dates.length} dates. Availability reduced on ALL channels.`);
         
       } else if (status === 'cancelled') {
         // Remove booking from availability records
-        for (const date of dates) {
-          const availability = await RoomAvailability.findOne({
-            property: new mongoose.Types.ObjectId(propertyId),
-            room: new mongoose.Types.ObjectId(roomId),
-            date: date
-          });
-
-          if (availability) {
-            await availability.removeBooking(new mongoose.Types.ObjectId(bookingId));
-          }
-        }
+        await inventoryReservationService.release({
+          propertyId,
+          roomId,
+          checkIn: startDate,
+          checkOut: endDate,
+          bookingId: new mongoose.Types.ObjectId(bookingId)
+        });
 
         logger.info(`Removed booking from ${dates.length} dates. Availability restored on ALL channels.`);
       }
@@ -376,6 +378,15 @@ export class InventoryControllerV2 {
 
     } catch (error) {
       logger.error('Error handling booking update:', error);
+
+      if (error instanceof ConflictError) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+          errors: error.errors
+        });
+        return;
+      }
       
       res.status(500).json({
         success: false,
@@ -0,0 +1,135 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+import { inventoryReconciliationService } from '../services/inventoryReconciliationService';
+import { BaseError } from '../utils/errors';
+
+// Run request schema
+const runSchema = z.object({
+  propertyId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid property ID').optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)').optional(),
+  apply: z.boolean().default(false)
+});
+
+// Run listing schema
+const listSchema = z.object({
+  propertyId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid property ID').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * Inventory Reconciliation Controller
+ *
+ * Admin endpoints to run the inventory drift check on demand and to review
+ * the stored drift reports of manual and scheduled runs.
+ */
+export class InventoryReconciliationController {
+  /**
+   * Run a reconciliation (dry-run unless apply is set)
+   */
+  static async runReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const { propertyId, startDate, endDate, apply } = runSchema.parse(req.body);
+
+      const report = await inventoryReconciliationService.run({
+        propertyId,
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+        apply,
+        userId: req.user?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: apply ? 'Inventory drift repaired' : 'Inventory drift report generated',
+        data: report
+      });
+    } catch (error) {
+      InventoryReconciliationController.handleError(res, error, 'Error running inventory reconciliation');
+    }
+  }
+
+  /**
+   * List stored reconciliation runs
+   */
+  static async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const options = listSchema.parse(req.query);
+      const { runs, total, page, limit } = await inventoryReconciliationService.getRuns(options);
+
+      res.status(200).json({
+        success: true,
+        data: runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      InventoryReconciliationController.handleError(res, error, 'Error retrieving reconciliation runs');
+    }
+  }
+
+  /**
+   * Get a single reconciliation run with its drift issues
+   */
+  static async getRun(req: Request, res: Response): Promise<void> {
+    try {
+      const runId = req.params['id'];
+
+      if (!mongoose.Types.ObjectId.isValid(runId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid reconciliation run ID'
+        });
+        return;
+      }
+
+      const run = await inventoryReconciliationService.getRun(runId);
+
+      res.status(200).json({
+        success: true,
+        data: run
+      });
+    } catch (error) {
+      InventoryReconciliationController.handleError(res, error, 'Error retrieving reconciliation run');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default InventoryReconciliationController;
@@ -0,0 +1,261 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { IInvoice, InvoiceType } from '../models/Invoice';
+import { auditLoggers } from '../middleware/audit';
+import { invoiceService } from '../services/invoiceService';
+import { invoiceDocumentService } from '../services/invoiceDocumentService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+// Printed address schema
+const addressSchema = z.object({
+  street: z.string().max(200).trim().optional(),
+  city: z.string().max(100).trim().optional(),
+  state: z.string().max(100).trim().optional(),
+  country: z.string().max(100).trim().optional(),
+  postalCode: z.string().max(20).trim().optional()
+});
+
+// Recipient schema; anything left out is taken from the booking's guest
+const recipientSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200).trim().optional(),
+  email: z.string().email('Invalid email address').optional(),
+  phone: z.string().max(30).trim().optional(),
+  company: z.string().max(200).trim().optional(),
+  taxId: z.string().max(50).trim().optional(),
+  address: addressSchema.optional()
+});
+
+// Invoice schema
+const invoiceSchema = z.object({
+  recipient: recipientSchema.optional(),
+  notes: z.string().max(1000).trim().optional(),
+  send: z.boolean().default(false)
+});
+
+// Credit note schema; without an amount the rest of the invoice is credited
+const creditNoteSchema = z.object({
+  amount: z.number().finite().positive('Amount must be positive').optional(),
+  reason: z.string().min(1, 'Reason is required').max(500).trim(),
+  send: z.boolean().default(false)
+});
+
+// Delivery schema
+const sendSchema = z.object({
+  to: z.string().email('Invalid email address').optional()
+});
+
+// Download schema
+const downloadSchema = z.object({
+  format: z.enum(['pdf', 'html']).default('pdf')
+});
+
+/**
+ * Invoice Controller
+ *
+ * Staff endpoints to invoice a booking, credit an invoice, download the
+ * rendered documents and email them to the guest. Issuing and sending are
+ * written to the audit log.
+ */
+export class InvoiceController {
+  /**
+   * Issue an invoice for a booking
+   */
+  static async issueInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const { send, ...request } = invoiceSchema.parse(req.body);
+      const invoice = await invoiceService.issueInvoice(objectIdSchema.parse(req.params['id']), request, req.user?.id as string | undefined);
+
+      await InvoiceController.respondWithIssued(req, res, invoice, send);
+    } catch (error) {
+      InvoiceController.handleError(res, error, 'Error issuing invoice');
+    }
+  }
+
+  /**
+   * List a booking's invoices and credit notes
+   */
+  static async getBookingInvoices(req: Request, res: Response): Promise<void> {
+    try {
+      const invoices = await invoiceService.getBookingInvoices(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: invoices
+      });
+    } catch (error) {
+      InvoiceController.handleError(res, error, 'Error retrieving invoices');
+    }
+  }
+
+  /**
+   * Get an invoice or credit note
+   */
+  static async getInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const invoice = await invoiceService.getInvoice(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: invoice
+      });
+    } catch (error) {
+      InvoiceController.handleError(res, error, 'Error retrieving invoice');
+    }
+  }
+
+  /**
+   * Download the rendered PDF or HTML document
+   */
+  static async downloadInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const { format } = downloadSchema.parse(req.query);
+      const invoice = await invoiceService.getInvoice(objectIdSchema.parse(req.params['id']));
+      const document = await invoiceDocumentService.getDocument(invoice, format);
+
+      res.status(200);
+      res.type(document.mimetype);
+      res.setHeader(
+        'Content-Disposition',
+        `${format === 'pdf' ? 'attachment' : 'inline'}; filename="${document.filename}"`
+      );
+      res.send(document.content);
+    } catch (error) {
+      InvoiceController.handleError(res, error, 'Error downloading invoice');
+    }
+  }
+
+  /**
+   * Issue a credit note against an invoice
+   */
+  static async issueCreditNote(req: Request, res: Response): Promise<void> {
+    try {
+      const { send, ...request } = creditNoteSchema.parse(req.body);
+      const creditNote = await invoiceService.issueCreditNote(
+        objectIdSchema.parse(req.params['id']),
+        request,
+        req.user?.id as string | undefined
+      );
+
+      await InvoiceController.respondWithIssued(req, res, creditNote, send);
+    } catch (error) {
+      InvoiceController.handleError(res, error, 'Error issuing credit note');
+    }
+  }
+
+  /**
+   * Email an invoice or credit note
+   */
+  static async sendInvoice(req: Request, res: Response): Promise<void> {
+    try {
+      const request = sendSchema.parse(req.body);
+      const invoice = await invoiceService.sendInvoice(objectIdSchema.parse(req.params['id']), request, req.user?.id as string | undefined);
+      await InvoiceController.auditSent(req, invoice);
+
+      res.status(200).json({
+        success: true,
+        message: `${invoiceDocumentService.label(invoice)} sent successfully`,
+        data: invoice
+      });
+    } catch (error) {
+      InvoiceController.handleError(res, error, 'Error sending invoice');
+    }
+  }
+
+  /**
+   * The document is already issued, so neither a failed audit entry nor a
+   * failed email may turn into an error response that invites issuing it again
+   */
+  private static async respondWithIssued(req: Request, res: Response, invoice: IInvoice, send: boolean): Promise<void> {
+    const label = invoiceDocumentService.label(invoice);
+
+    await InvoiceController.audit(auditLoggers.invoiceIssued(
+      req,
+      invoice.type === InvoiceType.CREDIT_NOTE ? 'CREDIT_NOTE_ISSUED' : 'INVOICE_ISSUED',
+      invoice._id.toString(),
+      invoice.booking.toString(),
+      invoice.property.toString(),
+      {
+        number: invoice.number,
+        type: invoice.type,
+        total: invoice.total,
+        currency: invoice.currency,
+        originalNumber: invoice.originalNumber
+      }
+    ));
+
+    let message = `${label} ${invoice.number} issued successfully`;
+    if (send) {
+      try {
+        await invoiceService.sendInvoice(invoice, {}, req.user?.id as string | undefined);
+        await InvoiceController.auditSent(req, invoice);
+        message = `${label} ${invoice.number} issued and sent successfully`;
+      } catch (error) {
+        logger.error(`${label} ${invoice.number} could not be emailed:`, error);
+        message = `${label} ${invoice.number} issued, but could not be emailed: ${(error as Error).message}`;
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      message,
+      data: invoice
+    });
+  }
+
+  private static async auditSent(req: Request, invoice: IInvoice): Promise<void> {
+    const delivery = invoice.deliveries[invoice.deliveries.length - 1];
+
+    await InvoiceController.audit(auditLoggers.invoiceSent(
+      req,
+      invoice._id.toString(),
+      invoice.booking.toString(),
+      invoice.property.toString(),
+      delivery?.to ?? ''
+    ));
+  }
+
+  private static async audit(entry: Promise<void>): Promise<void> {
+    try {
+      await entry;
+    } catch (error) {
+      logger.error('Invoice audit entry failed:', error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default InvoiceController;
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+import { nightAuditService } from '../services/nightAuditService';
+import { BaseError } from '../utils/errors';
+
+// Run request schema
+const runSchema = z.object({
+  propertyId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid property ID').optional(),
+  dryRun: z.boolean().default(false),
+  noShowCutoffHours: z.number().min(0).max(72).optional(),
+  overdueCutoffHours: z.number().min(0).max(72).optional()
+});
+
+// Run listing schema
+const listSchema = z.object({
+  propertyId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid property ID').optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+/**
+ * Night Audit Controller
+ *
+ * Admin endpoints to run the night audit on demand (or preview it as a dry
+ * run) and to review the reports of manual and scheduled runs.
+ */
+export class NightAuditController {
+  /**
+   * Run the night audit now
+   */
+  static async runAudit(req: Request, res: Response): Promise<void> {
+    try {
+      const options = runSchema.parse(req.body);
+
+      const report = await nightAuditService.run({
+        ...options,
+        userId: req.user?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: options.dryRun ? 'Night audit preview generated' : 'Night audit completed',
+        data: report
+      });
+    } catch (error) {
+      NightAuditController.handleError(res, error, 'Error running night audit');
+    }
+  }
+
+  /**
+   * List stored night audit runs
+   */
+  static async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const options = listSchema.parse(req.query);
+      const { runs, total, page, limit } = await nightAuditService.getRuns(options);
+
+      res.status(200).json({
+        success: true,
+        data: runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      NightAuditController.handleError(res, error, 'Error retrieving night audit runs');
+    }
+  }
+
+  /**
+   * Get a single night audit run with its entries
+   */
+  static async getRun(req: Request, res: Response): Promise<void> {
+    try {
+      const runId = req.params['id'];
+
+      if (!mongoose.Types.ObjectId.isValid(runId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid night audit run ID'
+        });
+        return;
+      }
+
+      const run = await nightAuditService.getRun(runId);
+
+      res.status(200).json({
+        success: true,
+        data: run
+      });
+    } catch (error) {
+      NightAuditController.handleError(res, error, 'Error retrieving night audit run');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default NightAuditController;
@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import Property, { RoomType } from '../models/Property';
+import { Role } from '../models/User';
+import { PromotionDiscountType, PromotionType } from '../models/Promotion';
+import { promotionService } from '../services/promotionService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+  .transform(val => new Date(val));
+
+// Promotion fields
+const promotionFields = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,32}$/, 'Code must be 3 to 32 letters, digits, dashes or underscores')
+    .toUpperCase(),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().trim().max(500).optional(),
+  type: z.nativeEnum(PromotionType).optional(),
+  discountType: z.nativeEnum(PromotionDiscountType),
+  amount: z.number().finite().positive('Amount must be positive'),
+  currency: z.string().length(3, 'Currency must be 3 characters').toUpperCase().optional(),
+  properties: z.array(objectIdSchema).min(1, 'At least one property is required'),
+  roomTypes: z.array(z.nativeEnum(RoomType)).optional(),
+  validFrom: dateSchema.optional(),
+  validTo: dateSchema.optional(),
+  stayFrom: dateSchema.optional(),
+  stayTo: dateSchema.optional(),
+  minDaysInAdvance: z.number().int().min(0).optional(),
+  maxDaysInAdvance: z.number().int().min(0).optional(),
+  minNights: z.number().int().positive().optional(),
+  maxUses: z.number().int().positive().optional(),
+  maxUsesPerGuest: z.number().int().positive().optional(),
+  stackable: z.boolean().optional(),
+  active: z.boolean().optional()
+});
+
+type PromotionFields = Partial<z.infer<typeof promotionFields>>;
+
+const refinePromotion = (promotion: PromotionFields, ctx: z.RefinementCtx): void => {
+  if (promotion.discountType === PromotionDiscountType.PERCENTAGE && promotion.amount !== undefined && promotion.amount > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Percentage cannot exceed 100', path: ['amount'] });
+  }
+  if (promotion.validFrom && promotion.validTo && promotion.validTo < promotion.validFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Valid to date must be after valid from date', path: ['validTo'] });
+  }
+  if (promotion.stayFrom && promotion.stayTo && promotion.stayTo < promotion.stayFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Stay to date must be after stay from date', path: ['stayTo'] });
+  }
+};
+
+// Promotion creation schema
+const createPromotionSchema = promotionFields.superRefine((promotion, ctx) => {
+  refinePromotion(promotion, ctx);
+  if (promotion.discountType === PromotionDiscountType.FIXED && !promotion.currency) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Currency is required for a fixed discount', path: ['currency'] });
+  }
+});
+
+// Promotion update schema
+const updatePromotionSchema = promotionFields.partial().superRefine(refinePromotion);
+
+/**
+ * Promotion Controller
+ *
+ * Manages the promotion codes and vouchers guests redeem on direct bookings.
+ * Admins see and change the promotions of the properties they own or manage.
+ */
+export class PromotionController {
+  /**
+   * List promotions
+   */
+  static async getPromotions(req: Request, res: Response): Promise<void> {
+    try {
+      const promotions = await promotionService.listPromotions(await PromotionController.getScope(req));
+
+      res.status(200).json({
+        success: true,
+        data: promotions
+      });
+    } catch (error) {
+      PromotionController.handleError(res, error, 'Error retrieving promotions');
+    }
+  }
+
+  /**
+   * Get a promotion
+   */
+  static async getPromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const promotion = await promotionService.getPromotion(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: promotion
+      });
+    } catch (error) {
+      PromotionController.handleError(res, error, 'Error retrieving promotion');
+    }
+  }
+
+  /**
+   * Create a promotion code or voucher
+   */
+  static async createPromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const promotion = await promotionService.createPromotion(
+        createPromotionSchema.parse(req.body),
+        req.user?.id as string | undefined
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Promotion created successfully',
+        data: promotion
+      });
+    } catch (error) {
+      PromotionController.handleError(res, error, 'Error creating promotion');
+    }
+  }
+
+  /**
+   * Update a promotion
+   */
+  static async updatePromotion(req: Request, res: Response): Promise<void> {
+    try {
+      const promotion = await promotionService.updatePromotion(
+        objectIdSchema.parse(req.params['id']),
+        updatePromotionSchema.parse(req.body)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Promotion updated successfully',
+        data: promotion
+      });
+    } catch (error) {
+      PromotionController.handleError(res, error, 'Error updating promotion');
+    }
+  }
+
+  /**
+   * Delete a promotion that was never redeemed
+   */
+  static async deletePromotion(req: Request, res: Response): Promise<void> {
+    try {
+      await promotionService.deletePromotion(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        message: 'Promotion deleted successfully'
+      });
+    } catch (error) {
+      PromotionController.handleError(res, error, 'Error deleting promotion');
+    }
+  }
+
+  /**
+   * List the redemptions of a promotion
+   */
+  static async getRedemptions(req: Request, res: Response): Promise<void> {
+    try {
+      const redemptions = await promotionService.listRedemptions(objectIdSchema.parse(req.params['id']));
+
+      res.status(200).json({
+        success: true,
+        data: redemptions
+      });
+    } catch (error) {
+      PromotionController.handleError(res, error, 'Error retrieving promotion redemptions');
+    }
+  }
+
+  /**
+   * Properties the user owns or manages; none for superadmins, who see every promotion
+   */
+  private static async getScope(req: Request): Promise<mongoose.Types.ObjectId[] | undefined> {
+    if (!req.user || req.user.roles.includes(Role.SUPERADMIN)) {
+      return undefined;
+    }
+
+    return Property.find({
+      $or: [
+        { owner: req.user._id },
+        { manager: req.user._id }
+      ]
+    }).distinct('_id');
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default PromotionController;
@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
-import RatePlan, { RatePlanType, RatePlanStatus } from '../models/RatePlan';
+import mongoose from 'mongoose';
+import RatePlan, { IRatePlan, RatePlanType, RatePlanStatus } from '../models/RatePlan';
 import Property from '../models/Property';
 import { logger } from '../config/logger';
+import { InventoryReservationService } from '../services/inventoryReservationService';
+import { inventoryEventService } from '../services/inventoryEventService';
+import { ARI_SYNC_DAYS } from '../services/channelSyncService';
+import { taxRuleService } from '../services/taxRuleService';
 import { z } from 'zod';
 
 // Query validation schema
@@ -206,6 +211,7 @@ export class RatePlanController {
 
       const ratePlan = new RatePlan(ratePlanData);
       await ratePlan.save();
+      RatePlanController.publishRateChange(ratePlan);
 
       // Populate the created rate plan
       await ratePlan.populate([
@@ -258,6 +264,9 @@ export class RatePlanController {
       // Add last modified by user
       updateData.lastModifiedBy = userId;
 
+      // Nights the plan no longer covers must be closed on the channels too
+      const previous = await RatePlan.findById(id).select('property room validFrom validTo');
+
       const ratePlan = await RatePlan.findByIdAndUpdate(
         id,
         updateData,
@@ -278,6 +287,11 @@ export class RatePlanController {
         return;
       }
 
+      if (previous) {
+        RatePlanController.publishRateChange(previous);
+      }
+      RatePlanController.publishRateChange(ratePlan);
+
       logger.info(`Rate plan updated: ${ratePlan._id} by user: ${userId}`);
 
       res.status(200).json({
@@ -329,6 +343,8 @@ export class RatePlanController {
         return;
       }
 
+      RatePlanController.publishRateChange(ratePlan);
+
       logger.info(`Rate plan deleted: ${ratePlan._id} by user: ${userId}`);
 
       res.status(200).json({
@@ -383,6 +399,8 @@ export class RatePlanController {
         return;
       }
 
+      RatePlanController.publishRateChange(ratePlan);
+
       logger.info(`Rate plan status updated: ${ratePlan._id} to ${status} by user: ${userId}`);
 
       res.status(200).json({
@@ -448,14 +466,24 @@ export class RatePlanController {
         return;
       }
 
-      // Calculate rates for each applicable rate plan
-      const rateCalculations = ratePlans.map(ratePlan => {
+      // Calculate rates for each applicable rate plan, with the property's taxes and fees
+      const nights = InventoryReservationService.getStayDates(new Date(checkIn), new Date(checkOut)).length;
+      const rateCalculations = await Promise.all(ratePlans.map(async ratePlan => {
         const rate = ratePlan.calculateRate(
           new Date(checkIn),
           new Date(checkOut),
           guests?.adults || 1,
           advanceBookingDays
         );
+        const { lines, pricing } = await taxRuleService.calculate({
+          propertyId: property,
+          checkIn: new Date(checkIn),
+          checkOut: new Date(checkOut),
+          guests: guests ?? { adults: 1 },
+          roomTotal: Math.round(rate * nights * 100) / 100,
+          currency: ratePlan.currency,
+          ratePlan
+        });
 
         return {
           ratePlanId: ratePlan._id,
@@ -472,9 +500,12 @@ export class RatePlanController {
           includesTaxes: ratePlan.includesTaxes,
           includesFees: ratePlan.includesFees,
           priority: ratePlan.priority,
-          isValid: ratePlan.isValidForDates(new Date(checkIn), new Date(checkOut))
+          isValid: ratePlan.isValidForDates(new Date(checkIn), new Date(checkOut)),
+          nights,
+          pricing,
+          taxes: lines
         };
-      });
+      }));
 
       // Sort by priority and rate
       rateCalculations.sort((a, b) => {
@@ -604,6 +635,30 @@ export class RatePlanController {
       });
     }
   }
+
+  /**
+   * Queue the rate plan's nights within the channel sync window for the
+   * channels that sell its room
+   */
+  private static publishRateChange(ratePlan: IRatePlan): void {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const horizon = new Date(today);
+    horizon.setDate(horizon.getDate() + ARI_SYNC_DAYS);
+    const lastNight = new Date(ratePlan.validTo);
+    lastNight.setDate(lastNight.getDate() + 1);
+
+    inventoryEventService.emitChanged({
+      propertyId: (ratePlan.populated('property') ?? ratePlan.property) as mongoose.Types.ObjectId,
+      roomId: (ratePlan.populated('room') ?? ratePlan.room) as mongoose.Types.ObjectId,
+      dates: InventoryReservationService.getStayDates(
+        ratePlan.validFrom > today ? ratePlan.validFrom : today,
+        lastNight < horizon ? lastNight : horizon
+      ),
+      availability: false,
+      rates: true
+    });
+  }
 }
 
 export default RatePlanController;
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { BookingStatus, BookingChannel, IGuestInfo } from '../models/Booking';
+import { Role } from '../models/User';
+import { ValidationMiddleware } from '../middleware/validation';
+import { reservationGroupService } from '../services/reservationGroupService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const guestInfoSchema = ValidationMiddleware.bookingSchemas.create.shape.guestInfo;
+
+// One room stay of a group
+const groupRoomSchema = z.object({
+  room: objectIdSchema,
+  checkIn: z.string().datetime('Invalid check-in date format'),
+  checkOut: z.string().datetime('Invalid check-out date format'),
+  guests: z.object({
+    adults: z.number().min(1, 'At least one adult is required').max(20, 'Cannot exceed 20 adults'),
+    children: z.number().min(0).max(10).default(0),
+    infants: z.number().min(0).max(5).default(0)
+  }),
+  guestInfo: guestInfoSchema.optional(),
+  ratePlan: objectIdSchema.optional(),
+  specialRequests: z.array(z.string().max(200).trim()).default([])
+}).refine(data => new Date(data.checkOut) > new Date(data.checkIn), {
+  message: 'Check-out date must be after check-in date',
+  path: ['checkOut']
+});
+
+// Group creation schema
+const createGroupSchema = z.object({
+  property: objectIdSchema,
+  name: z.string().max(100).trim().optional(),
+  leadGuest: guestInfoSchema,
+  channel: z.nativeEnum(BookingChannel).default(BookingChannel.DIRECT),
+  status: z.enum([BookingStatus.PENDING, BookingStatus.CONFIRMED]).default(BookingStatus.CONFIRMED),
+  rooms: z.array(groupRoomSchema).min(1, 'At least one room is required').max(50, 'Cannot exceed 50 rooms'),
+  notes: z.string().max(1000).trim().optional()
+});
+
+// Group availability schema
+const groupAvailabilitySchema = z.object({
+  property: objectIdSchema,
+  channel: z.nativeEnum(BookingChannel).default(BookingChannel.DIRECT),
+  rooms: z.array(z.object({
+    room: objectIdSchema,
+    checkIn: z.string().datetime('Invalid check-in date format'),
+    checkOut: z.string().datetime('Invalid check-out date format')
+  })).min(1, 'At least one room is required').max(50, 'Cannot exceed 50 rooms')
+});
+
+// Partial cancellation schema; no bookings cancels every room
+const cancelGroupSchema = z.object({
+  bookings: z.array(objectIdSchema).optional(),
+  reason: z.string().max(500).trim().optional(),
+  override: z.boolean().default(false),
+  waivePenalty: z.boolean().default(false)
+});
+
+/**
+ * Reservation Group Controller
+ *
+ * Staff endpoints for multi-room reservations: all-or-nothing availability
+ * and booking of several rooms under one lead guest, and cancellation of
+ * single rooms or the whole group.
+ */
+export class ReservationGroupController {
+  /**
+   * Check that every room of a group is available at once
+   */
+  static async checkAvailability(req: Request, res: Response): Promise<void> {
+    try {
+      const { property, channel, rooms } = groupAvailabilitySchema.parse(req.body);
+      const availability = await reservationGroupService.checkAvailability(
+        property,
+        rooms.map(room => ({ roomId: room.room, checkIn: new Date(room.checkIn), checkOut: new Date(room.checkOut) })),
+        channel
+      );
+
+      res.status(200).json({
+        success: true,
+        data: availability
+      });
+    } catch (error) {
+      ReservationGroupController.handleError(res, error, 'Error checking group availability');
+    }
+  }
+
+  /**
+   * Book several rooms as one reservation
+   */
+  static async createGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const data = createGroupSchema.parse(req.body);
+      const userId = req.user?.id as string | undefined;
+
+      const { group, bookings } = await reservationGroupService.createGroup({
+        propertyId: data.property,
+        name: data.name,
+        leadGuest: data.leadGuest as IGuestInfo,
+        channel: data.channel,
+        status: data.status,
+        rooms: data.rooms.map(room => ({
+          roomId: room.room,
+          checkIn: new Date(room.checkIn),
+          checkOut: new Date(room.checkOut),
+          guests: room.guests,
+          guestInfo: room.guestInfo as IGuestInfo | undefined,
+          ratePlanId: room.ratePlan,
+          specialRequests: room.specialRequests
+        })),
+        notes: data.notes
+      }, { userId });
+
+      res.status(201).json({
+        success: true,
+        message: 'Group reservation created successfully',
+        data: { group, bookings }
+      });
+    } catch (error) {
+      ReservationGroupController.handleError(res, error, 'Error creating group reservation');
+    }
+  }
+
+  /**
+   * Get a group with its room bookings
+   */
+  static async getGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await reservationGroupService.getGroup(objectIdSchema.parse(req.params['groupId']));
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      ReservationGroupController.handleError(res, error, 'Error retrieving group reservation');
+    }
+  }
+
+  /**
+   * Cancel some or all rooms of a group
+   */
+  static async cancelGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { bookings, reason, override, waivePenalty } = cancelGroupSchema.parse(req.body);
+      const userId = req.user?.id as string | undefined;
+      const isAdmin = Boolean(req.user?.roles.some(role => role === Role.ADMIN || role === Role.SUPERADMIN));
+
+      const result = await reservationGroupService.cancelRooms(
+        objectIdSchema.parse(req.params['groupId']),
+        bookings,
+        { userId, reason, override: override && isAdmin, waivePenalty: waivePenalty && isAdmin }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Group reservation cancelled successfully',
+        data: result
+      });
+    } catch (error) {
+      ReservationGroupController.handleError(res, error, 'Error cancelling group reservation');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default ReservationGroupController;
@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+import { UnitStatus } from '../models/RoomUnit';
+import { BlockReason } from '../models/Calendar';
+import { roomUnitService } from '../services/roomUnitService';
+import { unitAssignmentService } from '../services/unitAssignmentService';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)');
+
+// Unit creation schema
+const createUnitSchema = z.object({
+  roomId: objectIdSchema,
+  number: z.string().trim().min(1).max(20),
+  floor: z.number().int().optional(),
+  notes: z.string().max(500).optional()
+});
+
+// Unit update schema
+const updateUnitSchema = z.object({
+  number: z.string().trim().min(1).max(20).optional(),
+  floor: z.number().int().optional(),
+  notes: z.string().max(500).optional(),
+  status: z.nativeEnum(UnitStatus).optional()
+});
+
+// Out-of-service schema (end date exclusive)
+const outOfServiceSchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+  reason: z.nativeEnum(BlockReason).optional(),
+  description: z.string().max(500).optional()
+}).refine(data => new Date(data.endDate) > new Date(data.startDate), {
+  message: 'End date must be after start date',
+  path: ['endDate']
+});
+
+// Room rack query schema
+const assignmentQuerySchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+  roomId: objectIdSchema.optional()
+});
+
+// Auto-assignment schema
+const autoAssignSchema = z.object({
+  startDate: dateSchema,
+  endDate: dateSchema,
+  roomId: objectIdSchema.optional(),
+  reoptimize: z.boolean().default(false)
+});
+
+// Manual assignment schema
+const assignUnitSchema = z.object({
+  unitId: objectIdSchema,
+  locked: z.boolean().default(true),
+  reason: z.string().max(500).optional()
+});
+
+// Room move schema
+const roomMoveSchema = z.object({
+  unitId: objectIdSchema,
+  effectiveDate: dateSchema.optional(),
+  reason: z.string().max(500).optional()
+});
+
+/**
+ * Room Unit Controller
+ *
+ * Manages the physical units of a property's room types, their
+ * out-of-service periods, and the placement of bookings in units.
+ */
+export class RoomUnitController {
+  /**
+   * List the units of a property
+   */
+  static async getUnits(req: Request, res: Response): Promise<void> {
+    try {
+      const roomId = req.query['roomId'] as string | undefined;
+      const units = await roomUnitService.listUnits(req.params['id'], roomId ? objectIdSchema.parse(roomId) : undefined);
+
+      res.status(200).json({
+        success: true,
+        data: units
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error retrieving units');
+    }
+  }
+
+  /**
+   * Add a unit to a room type
+   */
+  static async createUnit(req: Request, res: Response): Promise<void> {
+    try {
+      const { roomId, ...unit } = createUnitSchema.parse(req.body);
+      const created = await roomUnitService.createUnit(req.params['id'], roomId, unit);
+
+      res.status(201).json({
+        success: true,
+        message: 'Unit created successfully',
+        data: created
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error creating unit');
+    }
+  }
+
+  /**
+   * Update a unit
+   */
+  static async updateUnit(req: Request, res: Response): Promise<void> {
+    try {
+      const updates = updateUnitSchema.parse(req.body);
+      const unit = await roomUnitService.updateUnit(req.params['id'], objectIdSchema.parse(req.params['unitId']), updates);
+
+      res.status(200).json({
+        success: true,
+        message: 'Unit updated successfully',
+        data: unit
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error updating unit');
+    }
+  }
+
+  /**
+   * Take a unit out of service
+   */
+  static async addOutOfService(req: Request, res: Response): Promise<void> {
+    try {
+      const period = outOfServiceSchema.parse(req.body);
+      const { unit, oversoldNights } = await roomUnitService.addOutOfService(
+        req.params['id'],
+        objectIdSchema.parse(req.params['unitId']),
+        {
+          ...period,
+          startDate: new Date(period.startDate),
+          endDate: new Date(period.endDate),
+          userId: req.user?.id
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Unit taken out of service',
+        data: unit,
+        warnings: oversoldNights.length > 0
+          ? { message: 'Room type is oversold on some nights', oversoldNights }
+          : undefined
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error taking unit out of service');
+    }
+  }
+
+  /**
+   * Return a unit to service
+   */
+  static async removeOutOfService(req: Request, res: Response): Promise<void> {
+    try {
+      const unit = await roomUnitService.removeOutOfService(
+        req.params['id'],
+        objectIdSchema.parse(req.params['unitId']),
+        objectIdSchema.parse(req.params['periodId'])
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Unit returned to service',
+        data: unit
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error returning unit to service');
+    }
+  }
+
+  /**
+   * Unit assignments in a date range (room rack)
+   */
+  static async getAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      const query = assignmentQuerySchema.parse(req.query);
+      const assignments = await unitAssignmentService.getAssignments(req.params['id'], {
+        startDate: new Date(query.startDate),
+        endDate: new Date(query.endDate),
+        roomId: query.roomId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: assignments
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error retrieving unit assignments');
+    }
+  }
+
+  /**
+   * Auto-assign units to the bookings in a date range
+   */
+  static async autoAssign(req: Request, res: Response): Promise<void> {
+    try {
+      const options = autoAssignSchema.parse(req.body);
+      const result = await unitAssignmentService.autoAssign(req.params['id'], {
+        startDate: new Date(options.startDate),
+        endDate: new Date(options.endDate),
+        roomId: options.roomId,
+        reoptimize: options.reoptimize,
+        userId: req.user?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `Assigned ${result.assigned.length} bookings`,
+        data: result
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error auto-assigning units');
+    }
+  }
+
+  /**
+   * Unit assignments of a booking
+   */
+  static async getBookingAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      const bookingId = req.params['id'];
+
+      if (!mongoose.Types.ObjectId.isValid(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid booking ID'
+        });
+        return;
+      }
+
+      const assignments = await unitAssignmentService.getBookingAssignments(bookingId);
+
+      res.status(200).json({
+        success: true,
+        data: assignments
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error retrieving booking unit assignments');
+    }
+  }
+
+  /**
+   * Manually assign a unit to a booking
+   */
+  static async assignUnit(req: Request, res: Response): Promise<void> {
+    try {
+      const { unitId, locked, reason } = assignUnitSchema.parse(req.body);
+      const assignment = await unitAssignmentService.assignUnit(req.params['id'], unitId, {
+        locked,
+        reason,
+        userId: req.user?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Unit assigned successfully',
+        data: assignment
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error assigning unit');
+    }
+  }
+
+  /**
+   * Move a booking to another unit
+   */
+  static async moveBooking(req: Request, res: Response): Promise<void> {
+    try {
+      const { unitId, effectiveDate, reason } = roomMoveSchema.parse(req.body);
+      const assignments = await unitAssignmentService.moveBooking(req.params['id'], unitId, {
+        effectiveDate: effectiveDate ? new Date(effectiveDate) : undefined,
+        reason,
+        userId: req.user?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Room move completed',
+        data: assignments
+      });
+    } catch (error) {
+      RoomUnitController.handleError(res, error, 'Error moving booking');
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default RoomUnitController;
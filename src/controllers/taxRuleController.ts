@@ -0,0 +1,204 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../config/logger';
+import { TaxRuleCalculation, TaxRuleCategory, TaxRuleKind } from '../models/TaxRule';
+import { taxRuleService } from '../services/taxRuleService';
+import { InventoryRepository } from '../services/inventoryRepository';
+import { BaseError } from '../utils/errors';
+
+const objectIdSchema = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format (YYYY-MM-DD)')
+  .transform(val => new Date(val));
+
+// Region schema
+const regionSchema = z.object({
+  country: z.string().trim().min(1, 'Country is required').max(100),
+  state: z.string().trim().min(1).max(100).optional(),
+  city: z.string().trim().min(1).max(100).optional()
+});
+
+// Tax rule fields
+const taxRuleFields = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  region: regionSchema.optional(),
+  kind: z.nativeEnum(TaxRuleKind).optional(),
+  category: z.nativeEnum(TaxRuleCategory),
+  calculation: z.nativeEnum(TaxRuleCalculation),
+  amount: z.number().finite().min(0, 'Amount cannot be negative'),
+  currency: z.string().length(3, 'Currency must be 3 characters').toUpperCase().optional(),
+  inclusive: z.boolean().optional(),
+  maxNights: z.number().int().positive().optional(),
+  exemptChildren: z.boolean().optional(),
+  exemptFromNights: z.number().int().positive().optional(),
+  validFrom: dateSchema.optional(),
+  validTo: dateSchema.optional(),
+  active: z.boolean().optional()
+});
+
+type TaxRuleFields = Partial<z.infer<typeof taxRuleFields>>;
+
+const refineTaxRule = (rule: TaxRuleFields, ctx: z.RefinementCtx): void => {
+  if (rule.calculation === TaxRuleCalculation.PERCENTAGE && rule.amount !== undefined && rule.amount > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Percentage cannot exceed 100', path: ['amount'] });
+  }
+  if (rule.validFrom && rule.validTo && rule.validTo < rule.validFrom) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Valid to date must be after valid from date', path: ['validTo'] });
+  }
+};
+
+// Tax rule creation schema
+const createTaxRuleSchema = taxRuleFields.superRefine((rule, ctx) => {
+  refineTaxRule(rule, ctx);
+  if (rule.category === TaxRuleCategory.OTHER && !rule.kind) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Other taxes and fees need a kind', path: ['kind'] });
+  }
+});
+
+// Tax rule update schema
+const updateTaxRuleSchema = taxRuleFields.partial().superRefine(refineTaxRule);
+
+// Applicable rules query schema
+const applicableQuerySchema = z.object({
+  date: dateSchema.optional()
+});
+
+/**
+ * Tax Rule Controller
+ *
+ * Manages the tax and fee rules levied on stays. The same handlers serve a
+ * property's own rules (/properties/:id/tax-rules) and the region rules
+ * (/tax-rules), told apart by the property id in the path.
+ */
+export class TaxRuleController {
+  /**
+   * List the rules of a property, or the region rules
+   */
+  static async getRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await taxRuleService.listRules(TaxRuleController.getPropertyId(req));
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      TaxRuleController.handleError(res, error, 'Error retrieving tax rules');
+    }
+  }
+
+  /**
+   * List the rules in force at a property on a check-in date (default today),
+   * region rules included
+   */
+  static async getApplicableRules(req: Request, res: Response): Promise<void> {
+    try {
+      const { date } = applicableQuerySchema.parse(req.query);
+      const rules = await taxRuleService.getApplicableRules(
+        objectIdSchema.parse(req.params['id']),
+        InventoryRepository.normalizeDate(date ?? new Date())
+      );
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      TaxRuleController.handleError(res, error, 'Error retrieving applicable tax rules');
+    }
+  }
+
+  /**
+   * Add a rule
+   */
+  static async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const request = createTaxRuleSchema.parse(req.body);
+      const rule = await taxRuleService.createRule(request, TaxRuleController.getPropertyId(req), req.user?.id as string | undefined);
+
+      res.status(201).json({
+        success: true,
+        message: 'Tax rule created successfully',
+        data: rule
+      });
+    } catch (error) {
+      TaxRuleController.handleError(res, error, 'Error creating tax rule');
+    }
+  }
+
+  /**
+   * Update a rule
+   */
+  static async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const request = updateTaxRuleSchema.parse(req.body);
+      const rule = await taxRuleService.updateRule(
+        objectIdSchema.parse(req.params['ruleId']),
+        request,
+        TaxRuleController.getPropertyId(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Tax rule updated successfully',
+        data: rule
+      });
+    } catch (error) {
+      TaxRuleController.handleError(res, error, 'Error updating tax rule');
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  static async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      await taxRuleService.deleteRule(objectIdSchema.parse(req.params['ruleId']), TaxRuleController.getPropertyId(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Tax rule deleted successfully'
+      });
+    } catch (error) {
+      TaxRuleController.handleError(res, error, 'Error deleting tax rule');
+    }
+  }
+
+  private static getPropertyId(req: Request): string | undefined {
+    const propertyId = req.params['id'];
+    return propertyId ? objectIdSchema.parse(propertyId) : undefined;
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        errors: error.errors
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default TaxRuleController;
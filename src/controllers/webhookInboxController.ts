@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+import { auditLoggers } from '../middleware/audit';
+import { WebhookInboxStatus } from '../models/WebhookInboxEvent';
+import { webhookInboxService } from '../services/webhookInboxService';
+import { BaseError } from '../utils/errors';
+
+// Inbox listing schema
+const listSchema = z.object({
+  status: z.nativeEnum(WebhookInboxStatus).optional(),
+  provider: z.string().trim().min(1).optional(),
+  event: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+// Discard request schema
+const discardSchema = z.object({
+  reason: z.string().trim().max(500).optional()
+});
+
+/**
+ * Webhook Inbox Controller
+ *
+ * Admin endpoints over the stored OTA webhooks: list and inspect them,
+ * replay an event that was dead-lettered (or already processed) and
+ * discard one that should never be applied.
+ */
+export class WebhookInboxController {
+  /**
+   * List stored webhook events
+   */
+  static async getEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const options = listSchema.parse(req.query);
+      const { events, total, page, limit } = await webhookInboxService.list(options);
+
+      res.status(200).json({
+        success: true,
+        data: events,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      });
+    } catch (error) {
+      WebhookInboxController.handleError(res, error, 'Error retrieving webhook events');
+    }
+  }
+
+  /**
+   * Get a stored webhook event with its payload and failed attempts
+   */
+  static async getEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const eventId = WebhookInboxController.getEventId(req, res);
+      if (!eventId) {
+        return;
+      }
+
+      const event = await webhookInboxService.get(eventId);
+
+      res.status(200).json({
+        success: true,
+        data: event
+      });
+    } catch (error) {
+      WebhookInboxController.handleError(res, error, 'Error retrieving webhook event');
+    }
+  }
+
+  /**
+   * Queue a webhook event to be processed again
+   */
+  static async replayEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const eventId = WebhookInboxController.getEventId(req, res);
+      if (!eventId) {
+        return;
+      }
+
+      const event = await webhookInboxService.replay(eventId, req.user?.id);
+
+      await WebhookInboxController.audit(auditLoggers.webhookReplayed(req, eventId, event.provider, event.event));
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook event queued for replay',
+        data: event
+      });
+    } catch (error) {
+      WebhookInboxController.handleError(res, error, 'Error replaying webhook event');
+    }
+  }
+
+  /**
+   * Stop a webhook event from being processed
+   */
+  static async discardEvent(req: Request, res: Response): Promise<void> {
+    try {
+      const eventId = WebhookInboxController.getEventId(req, res);
+      if (!eventId) {
+        return;
+      }
+
+      const { reason } = discardSchema.parse(req.body ?? {});
+      const event = await webhookInboxService.discard(eventId, req.user?.id, reason);
+
+      await WebhookInboxController.audit(auditLoggers.webhookDiscarded(req, eventId, event.provider, event.event, reason));
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook event discarded',
+        data: event
+      });
+    } catch (error) {
+      WebhookInboxController.handleError(res, error, 'Error discarding webhook event');
+    }
+  }
+
+  private static getEventId(req: Request, res: Response): string | null {
+    const eventId = req.params['id'];
+
+    if (!eventId || !mongoose.Types.ObjectId.isValid(eventId)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid webhook event ID'
+      });
+      return null;
+    }
+
+    return eventId;
+  }
+
+  /**
+   * The inbox is updated before the change is audited; a failed entry is only logged
+   */
+  private static async audit(entry: Promise<void>): Promise<void> {
+    try {
+      await entry;
+    } catch (error) {
+      logger.error('Webhook inbox audit entry failed:', error);
+    }
+  }
+
+  private static handleError(res: Response, error: unknown, message: string): void {
+    logger.error(`${message}:`, error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid request data',
+        errors: error.errors.map(err => ({
+          field: err.path.join('.'),
+          message: err.message
+        }))
+      });
+      return;
+    }
+
+    if (error instanceof BaseError && error.statusCode < 500) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code
+      });
+      return;
+    }
+
+    res.status(500).json({
+      success: false,
+      message,
+      error: process.env['NODE_ENV'] === 'development' ? (error as Error).message : undefined
+    });
+  }
+}
+
+export default WebhookInboxController;
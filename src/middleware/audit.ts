@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import auditService from '../services/auditService';
+import auditService, { AuditActorType } from '../services/auditService';
 import { AuditLogError } from '../utils/errors';
 import { logger } from '../config/logger';
 
@@ -20,8 +20,9 @@ export const auditMiddleware = (req: Request, res: Response, next: NextFunction)
           resource: getResourceFromRequest(req),
           resourceId: getResourceIdFromRequest(req),
           userId: (req as any).user?.id,
-          userEmail: (req as any).user?.email,
+          userEmail: (req as any).user?.email ?? req.guestAccess?.email,
           userRoles: (req as any).user?.roles,
+          actorType: getActorType(req),
           ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
           userAgent: req.get('User-Agent') || 'unknown',
           method: req.method,
@@ -70,17 +71,28 @@ function getActionFromRequest(req: Request): string {
 
   // CRUD operations
   if (method === 'POST') {
+    if (url.includes('/folio')) return 'FOLIO_UPDATED';
+    if (url.includes('/invoices')) {
+      if (url.includes('/credit-notes')) return 'CREDIT_NOTE_ISSUED';
+      if (url.includes('/send')) return 'INVOICE_SENT';
+      return 'INVOICE_ISSUED';
+    }
+    if (url.includes('/guests')) return 'GUEST_UPDATED';
     if (url.includes('/users')) return 'USER_CREATED';
     if (url.includes('/properties')) return 'PROPERTY_CREATED';
+    if (url.includes('/guest/bookings') && url.includes('/link')) return 'API_ACCESS';
+    if (url.includes('/webhooks/events')) return 'API_ACCESS';
     if (url.includes('/bookings')) return 'BOOKING_CREATED';
     if (url.includes('/rate-plans')) return 'RATE_PLAN_CREATED';
     if (url.includes('/calendar')) return 'CALENDAR_UPDATED';
+    if (url.includes('/channel-mappings')) return 'CHANNEL_SETTINGS_UPDATED';
     if (url.includes('/channels')) return 'CHANNEL_CONNECTED';
     if (url.includes('/upload')) return 'FILE_UPLOADED';
     return 'RESOURCE_CREATED';
   }
 
   if (method === 'PUT' || method === 'PATCH') {
+    if (url.includes('/guests')) return 'GUEST_UPDATED';
     if (url.includes('/users')) return 'USER_UPDATED';
     if (url.includes('/properties')) return 'PROPERTY_UPDATED';
     if (url.includes('/bookings')) {
@@ -95,16 +107,18 @@ function getActionFromRequest(req: Request): string {
       if (url.includes('/unblock')) return 'CALENDAR_UNBLOCKED';
       return 'CALENDAR_UPDATED';
     }
-    if (url.includes('/channels')) return 'CHANNEL_SETTINGS_UPDATED';
+    if (url.includes('/channels') || url.includes('/channel-mappings')) return 'CHANNEL_SETTINGS_UPDATED';
     return 'RESOURCE_UPDATED';
   }
 
   if (method === 'DELETE') {
+    if (url.includes('/guests')) return 'GUEST_UPDATED';
     if (url.includes('/users')) return 'USER_DELETED';
     if (url.includes('/properties')) return 'PROPERTY_DELETED';
     if (url.includes('/bookings')) return 'BOOKING_DELETED';
     if (url.includes('/rate-plans')) return 'RATE_PLAN_DELETED';
     if (url.includes('/calendar')) return 'CALENDAR_DELETED';
+    if (url.includes('/channel-mappings')) return 'CHANNEL_SETTINGS_UPDATED';
     if (url.includes('/channels')) return 'CHANNEL_DISCONNECTED';
     if (url.includes('/upload')) return 'FILE_DELETED';
     return 'RESOURCE_DELETED';
@@ -119,6 +133,13 @@ function getActionFromRequest(req: Request): string {
   return 'API_ACCESS';
 }
 
+// Helper function to determine who made the request
+function getActorType(req: Request): AuditActorType | undefined {
+  if (req.user) return 'user';
+  if (req.guestAccess) return 'guest';
+  return undefined;
+}
+
 // Helper function to determine resource type from request
 function getResourceFromRequest(req: Request): string {
   const url = req.originalUrl.toLowerCase();
@@ -126,10 +147,13 @@ function getResourceFromRequest(req: Request): string {
   if (url.includes('/auth')) return 'AUTHENTICATION';
   if (url.includes('/users')) return 'USER';
   if (url.includes('/properties')) return 'PROPERTY';
+  if (url.includes('/folio')) return 'FOLIO';
+  if (url.includes('/invoices')) return 'INVOICE';
+  if (url.includes('/guests')) return 'GUEST';
   if (url.includes('/bookings')) return 'BOOKING';
   if (url.includes('/rate-plans')) return 'RATE_PLAN';
   if (url.includes('/calendar')) return 'CALENDAR';
-  if (url.includes('/channels')) return 'CHANNEL';
+  if (url.includes('/channels') || url.includes('/channel-mappings')) return 'CHANNEL';
   if (url.includes('/upload') || url.includes('/files')) return 'FILE';
   if (url.includes('/health') || url.includes('/system')) return 'SYSTEM';
   if (url.includes('/email')) return 'EMAIL';
@@ -198,7 +222,7 @@ function extractResourceIds(req: Request): {
 // Helper function to sanitize headers (remove sensitive information)
 function sanitizeHeaders(headers: any): any {
   const sanitized = { ...headers };
-  const sensitiveHeaders = ['authorization', 'cookie', 'x-api-key', 'x-auth-token'];
+  const sensitiveHeaders = ['authorization', 'cookie', 'x-api-key', 'x-auth-token', 'x-guest-token'];
 
   for (const header of sensitiveHeaders) {
     if (sanitized[header]) {
@@ -223,6 +247,8 @@ export const logAuditEvent = async (
     ratePlanId?: string;
     calendarId?: string;
     channelId?: string;
+    actorType?: AuditActorType;
+    userEmail?: string; // Actor without an account, e.g. a guest
   } = {}
 ): Promise<void> => {
   try {
@@ -231,8 +257,9 @@ export const logAuditEvent = async (
       resource,
       resourceId,
       userId: (req as any).user?.id,
-      userEmail: (req as any).user?.email,
+      userEmail: additionalData.userEmail ?? (req as any).user?.email,
       userRoles: (req as any).user?.roles,
+      actorType: additionalData.actorType ?? getActorType(req),
       ipAddress: req.ip || req.connection.remoteAddress || 'unknown',
       userAgent: req.get('User-Agent') || 'unknown',
       method: req.method,
@@ -312,6 +339,73 @@ export const auditLoggers = {
   bookingCheckedOut: (req: Request, bookingId: string, propertyId: string) =>
     logAuditEvent('BOOKING_CHECKED_OUT', 'BOOKING', bookingId, req, { bookingId, propertyId }),
 
+  bookingCheckedOutWithBalance: (req: Request, bookingId: string, propertyId: string, balance: number) =>
+    logAuditEvent('BOOKING_CHECKED_OUT_WITH_BALANCE', 'BOOKING', bookingId, req, { 
+      bookingId, 
+      propertyId, 
+      metadata: { balance } 
+    }),
+
+  // Guest self-service events
+  guestBookingCancelled: (req: Request, bookingId: string, propertyId: string, guestEmail: string, metadata: Record<string, unknown>) =>
+    logAuditEvent('BOOKING_CANCELLED', 'BOOKING', bookingId, req, { 
+      bookingId, 
+      propertyId, 
+      actorType: 'guest',
+      userEmail: guestEmail,
+      metadata 
+    }),
+
+  guestBookingUpdated: (req: Request, bookingId: string, propertyId: string, guestEmail: string, metadata: Record<string, unknown>) =>
+    logAuditEvent('BOOKING_UPDATED', 'BOOKING', bookingId, req, { 
+      bookingId, 
+      propertyId, 
+      actorType: 'guest',
+      userEmail: guestEmail,
+      metadata 
+    }),
+
+  guestBookingLinkSent: (req: Request, bookingId: string, propertyId: string, guestEmail: string) =>
+    logAuditEvent('EMAIL_SENT', 'EMAIL', bookingId, req, { 
+      bookingId, 
+      propertyId, 
+      actorType: 'guest',
+      userEmail: guestEmail,
+      metadata: { type: 'guest_booking_link' } 
+    }),
+
+  // Folio events
+  folioTransactionPosted: (req: Request, action: string, folioId: string, bookingId: string, propertyId: string, transaction: Record<string, unknown>) =>
+    logAuditEvent(action, 'FOLIO', folioId, req, { 
+      bookingId, 
+      propertyId, 
+      metadata: { transaction } 
+    }),
+
+  folioClosed: (req: Request, folioId: string, bookingId: string, propertyId: string) =>
+    logAuditEvent('FOLIO_CLOSED', 'FOLIO', folioId, req, { bookingId, propertyId }),
+
+  // Invoice events
+  invoiceIssued: (req: Request, action: string, invoiceId: string, bookingId: string, propertyId: string, invoice: Record<string, unknown>) =>
+    logAuditEvent(action, 'INVOICE', invoiceId, req, { 
+      bookingId, 
+      propertyId, 
+      metadata: { invoice } 
+    }),
+
+  invoiceSent: (req: Request, invoiceId: string, bookingId: string, propertyId: string, to: string) =>
+    logAuditEvent('INVOICE_SENT', 'INVOICE', invoiceId, req, { 
+      bookingId, 
+      propertyId, 
+      metadata: { to } 
+    }),
+
+  // Guest profile events
+  guestsMerged: (req: Request, guestId: string, mergedGuestIds: string[]) =>
+    logAuditEvent('GUEST_MERGED', 'GUEST', guestId, req, { 
+      metadata: { mergedGuestIds } 
+    }),
+
   // Rate plan events
   ratePlanCreated: (req: Request, ratePlanId: string, propertyId: string, planName: string) =>
     logAuditEvent('RATE_PLAN_CREATED', 'RATE_PLAN', ratePlanId, req, { 
@@ -353,6 +447,28 @@ export const auditLoggers = {
   channelDisconnected: (req: Request, channelId: string, propertyId: string) =>
     logAuditEvent('CHANNEL_DISCONNECTED', 'CHANNEL', channelId, req, { channelId, propertyId }),
 
+  channelSecretRotated: (req: Request, channelId: string, previousSecretValidUntil: Date | null) =>
+    logAuditEvent('CHANNEL_SECRET_ROTATED', 'CHANNEL', channelId, req, { 
+      channelId, 
+      metadata: { previousSecretValidUntil } 
+    }),
+
+  webhookRejected: (req: Request, provider: string, reason: string) =>
+    logAuditEvent('WEBHOOK_REJECTED', 'CHANNEL', provider, req, { 
+      errorMessage: reason, 
+      metadata: { provider } 
+    }),
+
+  webhookReplayed: (req: Request, eventId: string, provider: string, event: string) =>
+    logAuditEvent('WEBHOOK_REPLAYED', 'CHANNEL', eventId, req, { 
+      metadata: { provider, event } 
+    }),
+
+  webhookDiscarded: (req: Request, eventId: string, provider: string, event: string, reason?: string) =>
+    logAuditEvent('WEBHOOK_DISCARDED', 'CHANNEL', eventId, req, { 
+      metadata: { provider, event, reason } 
+    }),
+
   channelError: (req: Request, channelId: string, propertyId: string, error: string) =>
     logAuditEvent('CHANNEL_ERROR', 'CHANNEL', channelId, req, { 
       channelId, 
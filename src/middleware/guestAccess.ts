@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../config/logger';
+import { guestAccessService, IGuestAccess } from '../services/guestAccessService';
+import { AuthenticationError } from '../utils/errors';
+
+// Extend Request interface to include the guest managing a booking
+declare global {
+  namespace Express {
+    interface Request {
+      guestAccess?: IGuestAccess;
+    }
+  }
+}
+
+/**
+ * Guest booking authentication middleware
+ * Accepts the booking's confirmation code (route parameter) together with
+ * either the guest's email (X-Guest-Email header, body or query) or a
+ * signed booking link (X-Guest-Token header or token query parameter)
+ */
+export const authenticateGuest = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const confirmationCode = req.params['confirmationCode'] ?? '';
+    const token = req.get('X-Guest-Token') ?? readString(req.query['token']);
+    const email = req.get('X-Guest-Email') ?? readString((req.body as { email?: unknown } | undefined)?.email) ?? readString(req.query['email']);
+
+    if (!token && !email) {
+      res.status(401).json({
+        success: false,
+        message: 'Access denied. Provide the booking email or a booking link.',
+        code: 'GUEST_CREDENTIALS_REQUIRED'
+      });
+      return;
+    }
+
+    req.guestAccess = await guestAccessService.authenticate(confirmationCode, { email, token });
+
+    logger.debug(`Guest authenticated for booking ${req.guestAccess.booking._id.toString()} by ${req.guestAccess.method}`);
+    next();
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      res.status(401).json({
+        success: false,
+        message: error.message,
+        code: 'GUEST_ACCESS_DENIED'
+      });
+      return;
+    }
+
+    logger.error('Guest authentication middleware error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during authentication.',
+      code: 'AUTH_INTERNAL_ERROR'
+    });
+  }
+};
+
+function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
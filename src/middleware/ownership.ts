@@ -1,8 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { logger } from '../config/logger';
 import Property from '../models/Property';
 import Booking from '../models/Booking';
 import RatePlan from '../models/RatePlan';
+import ReservationGroup from '../models/ReservationGroup';
+import Guest from '../models/Guest';
+import Invoice from '../models/Invoice';
+import Promotion from '../models/Promotion';
 import { Role } from '../models/User';
 
 /**
@@ -173,6 +178,255 @@ export const checkBookingOwnership = async (
   }
 };
 
+/**
+ * Check if user owns or manages a reservation group's property
+ */
+export const checkReservationGroupOwnership = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED'
+      });
+      return;
+    }
+
+    const groupId = req.params['groupId'];
+    const userId = req.user._id.toString();
+    const userRoles = req.user.roles;
+
+    // Superadmins can access all reservation groups
+    if (userRoles.includes(Role.SUPERADMIN)) {
+      logger.debug(`Superadmin ${req.user.email} bypassing ownership check for reservation group ${groupId}`);
+      next();
+      return;
+    }
+
+    const group = await ReservationGroup.findById(groupId);
+
+    if (!group) {
+      res.status(404).json({
+        success: false,
+        message: 'Reservation group not found',
+        code: 'RESERVATION_GROUP_NOT_FOUND'
+      });
+      return;
+    }
+
+    const property = await Property.findById(group.property);
+
+    if (!property) {
+      res.status(500).json({
+        success: false,
+        message: 'Reservation group property not found',
+        code: 'RESERVATION_GROUP_PROPERTY_NOT_FOUND'
+      });
+      return;
+    }
+
+    // Check if user owns or manages the property associated with this group
+    const isOwner = property.owner.toString() === userId;
+    const isManager = property.manager?.toString() === userId;
+
+    if (!isOwner && !isManager) {
+      logger.warn(`Access denied: User ${req.user.email} attempted to access reservation group ${groupId} for property they don't own/manage`, {
+        userId,
+        userEmail: req.user.email,
+        groupId,
+        propertyId: property._id,
+        propertyOwner: property.owner.toString(),
+        propertyManager: property.manager?.toString(),
+        action: req.method,
+        path: req.path
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this reservation group. You can only access groups for properties you own or manage.',
+        code: 'RESERVATION_GROUP_OWNERSHIP_REQUIRED'
+      });
+      return;
+    }
+
+    logger.debug(`Ownership check passed: ${req.user.email} accessing reservation group ${groupId}`);
+    next();
+  } catch (error) {
+    logger.error('Reservation group ownership check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during ownership validation',
+      code: 'OWNERSHIP_CHECK_ERROR'
+    });
+  }
+};
+
+/**
+ * Check if user owns the properties a guest profile belongs to, or manages
+ * one the guest booked at
+ */
+export const checkGuestOwnership = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED'
+      });
+      return;
+    }
+
+    const guestId = req.params['id'] || req.params['guestId'];
+    const userId = req.user._id.toString();
+    const userRoles = req.user.roles;
+
+    // Superadmins can access all guest profiles
+    if (userRoles.includes(Role.SUPERADMIN)) {
+      logger.debug(`Superadmin ${req.user.email} bypassing ownership check for guest ${guestId}`);
+      next();
+      return;
+    }
+
+    const guest = await Guest.findById(guestId);
+
+    if (!guest) {
+      res.status(404).json({
+        success: false,
+        message: 'Guest not found',
+        code: 'GUEST_NOT_FOUND'
+      });
+      return;
+    }
+
+    // Check if user owns the profile or manages a property the guest booked at
+    const isOwner = guest.owner.toString() === userId;
+    const isManager = !isOwner && await Property.exists({ _id: { $in: guest.properties }, manager: req.user._id });
+
+    if (!isOwner && !isManager) {
+      logger.warn(`Access denied: User ${req.user.email} attempted to access guest ${guestId} of properties they don't own/manage`, {
+        userId,
+        userEmail: req.user.email,
+        guestId,
+        guestOwner: guest.owner.toString(),
+        action: req.method,
+        path: req.path
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this guest. You can only access guests of properties you own or manage.',
+        code: 'GUEST_OWNERSHIP_REQUIRED'
+      });
+      return;
+    }
+
+    logger.debug(`Ownership check passed: ${req.user.email} accessing guest ${guestId}`);
+    next();
+  } catch (error) {
+    logger.error('Guest ownership check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during ownership validation',
+      code: 'OWNERSHIP_CHECK_ERROR'
+    });
+  }
+};
+
+/**
+ * Check if user owns or manages the property an invoice was issued for
+ */
+export const checkInvoiceOwnership = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED'
+      });
+      return;
+    }
+
+    const invoiceId = req.params['id'] || req.params['invoiceId'];
+    const userId = req.user._id.toString();
+    const userRoles = req.user.roles;
+
+    // Superadmins can access all invoices
+    if (userRoles.includes(Role.SUPERADMIN)) {
+      logger.debug(`Superadmin ${req.user.email} bypassing ownership check for invoice ${invoiceId}`);
+      next();
+      return;
+    }
+
+    const invoice = await Invoice.findById(invoiceId).select('property');
+
+    if (!invoice) {
+      res.status(404).json({
+        success: false,
+        message: 'Invoice not found',
+        code: 'INVOICE_NOT_FOUND'
+      });
+      return;
+    }
+
+    const property = await Property.findById(invoice.property);
+
+    if (!property) {
+      res.status(500).json({
+        success: false,
+        message: 'Invoice property not found',
+        code: 'INVOICE_PROPERTY_NOT_FOUND'
+      });
+      return;
+    }
+
+    // Check if user owns or manages the property the invoice was issued for
+    const isOwner = property.owner.toString() === userId;
+    const isManager = property.manager?.toString() === userId;
+
+    if (!isOwner && !isManager) {
+      logger.warn(`Access denied: User ${req.user.email} attempted to access invoice ${invoiceId} for property they don't own/manage`, {
+        userId,
+        userEmail: req.user.email,
+        invoiceId,
+        propertyId: property._id,
+        propertyOwner: property.owner.toString(),
+        propertyManager: property.manager?.toString(),
+        action: req.method,
+        path: req.path
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this invoice. You can only access invoices for properties you own or manage.',
+        code: 'INVOICE_OWNERSHIP_REQUIRED'
+      });
+      return;
+    }
+
+    logger.debug(`Ownership check passed: ${req.user.email} accessing invoice ${invoiceId}`);
+    next();
+  } catch (error) {
+    logger.error('Invoice ownership check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during ownership validation',
+      code: 'OWNERSHIP_CHECK_ERROR'
+    });
+  }
+};
+
 /**
  * Check if user owns or manages a rate plan's property
  */
@@ -260,6 +514,97 @@ export const checkRatePlanOwnership = async (
   }
 };
 
+/**
+ * Check if user owns or manages every property a promotion is (or is to be)
+ * redeemable at
+ */
+export const checkPromotionOwnership = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+        code: 'AUTHENTICATION_REQUIRED'
+      });
+      return;
+    }
+
+    const promotionId = req.params['id'] || req.params['promotionId'];
+    const userId = req.user._id.toString();
+    const userRoles = req.user.roles;
+
+    // Superadmins can access all promotions
+    if (userRoles.includes(Role.SUPERADMIN)) {
+      logger.debug(`Superadmin ${req.user.email} bypassing ownership check for promotion ${promotionId ?? 'new'}`);
+      next();
+      return;
+    }
+
+    const propertyIds: string[] = [];
+
+    if (promotionId) {
+      const promotion = await Promotion.findById(promotionId).select('properties');
+
+      if (!promotion) {
+        res.status(404).json({
+          success: false,
+          message: 'Promotion not found',
+          code: 'PROMOTION_NOT_FOUND'
+        });
+        return;
+      }
+
+      propertyIds.push(...promotion.properties.map(id => id.toString()));
+    }
+
+    // Properties the promotion is being extended to; malformed ids fail validation later
+    const requested = (req.body as { properties?: unknown } | undefined)?.properties;
+    if (Array.isArray(requested)) {
+      propertyIds.push(...requested.filter((id): id is string => typeof id === 'string' && mongoose.isValidObjectId(id)));
+    }
+
+    const unique = [...new Set(propertyIds)];
+    const properties = await Property.find({ _id: { $in: unique } }).select('owner manager');
+
+    // Check if user owns or manages every property of the promotion
+    const denied = properties.filter(property =>
+      property.owner.toString() !== userId && property.manager?.toString() !== userId
+    );
+
+    if (denied.length > 0) {
+      logger.warn(`Access denied: User ${req.user.email} attempted to access promotion ${promotionId ?? 'new'} for properties they don't own/manage`, {
+        userId,
+        userEmail: req.user.email,
+        promotionId,
+        propertyIds: denied.map(property => property._id.toString()),
+        action: req.method,
+        path: req.path
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to access this promotion. You can only access promotions for properties you own or manage.',
+        code: 'PROMOTION_OWNERSHIP_REQUIRED'
+      });
+      return;
+    }
+
+    logger.debug(`Ownership check passed: ${req.user.email} accessing promotion ${promotionId ?? 'new'}`);
+    next();
+  } catch (error) {
+    logger.error('Promotion ownership check error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Internal server error during ownership validation',
+      code: 'OWNERSHIP_CHECK_ERROR'
+    });
+  }
+};
+
 /**
  * Helper function to check if user can create resources for a property
  * Used when creating new bookings, rate plans, etc.
@@ -137,6 +137,13 @@ export const registrationRateLimit = createCustomRateLimit(
   'Too many registration attempts, please try again later.'
 );
 
+// Rate limiting for guests managing a booking (guessing codes and emails)
+export const guestAccessRateLimit = createCustomRateLimit(
+  parseInt(process.env['GUEST_ACCESS_RATE_LIMIT_WINDOW_MS'] || '900000'), // 15 minutes
+  parseInt(process.env['GUEST_ACCESS_RATE_LIMIT_MAX_REQUESTS'] || '30'), // 30 requests per 15 minutes
+  'Too many booking access attempts, please try again later.'
+);
+
 // Middleware to skip rate limiting for certain conditions
 export const skipRateLimit = (req: Request, _res: Response, next: NextFunction) => {
   // Skip rate limiting for health checks
@@ -182,6 +189,7 @@ const rateLimitingMiddleware: any = {
   uploadRateLimit,
   passwordResetRateLimit,
   registrationRateLimit,
+  guestAccessRateLimit,
   skipRateLimit,
   createCustomRateLimit,
   createTrustedIPRateLimit
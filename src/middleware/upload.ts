@@ -14,6 +14,7 @@ const createUploadDirectories = () => {
     'uploads/properties/documents',
     'uploads/users',
     'uploads/users/avatars',
+    'uploads/invoices',
     'uploads/temp'
   ];
 
@@ -32,6 +33,7 @@ createUploadDirectories();
 // File type validation
 const allowedImageTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif'];
 const allowedDocumentTypes = ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+const allowedCsvTypes = ['text/csv', 'text/plain', 'application/vnd.ms-excel'];
 
 const fileFilter = (allowedTypes: string[], maxSize: number) => {
   return (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
@@ -170,6 +172,16 @@ export const tempUpload = multer({
   }
 });
 
+// CSV data files, read from memory and never stored
+export const csvUpload = multer({
+  storage: memoryStorage,
+  fileFilter: fileFilter(allowedCsvTypes, 2 * 1024 * 1024), // 2MB limit
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2MB
+    files: 1 // Only one file
+  }
+});
+
 // Error handling middleware for multer
 export const handleUploadError = (error: any, req: Request, res: any, next: any) => {
   if (error instanceof multer.MulterError) {
@@ -294,6 +306,47 @@ export const moveFile = (sourcePath: string, destinationPath: string): Promise<v
   });
 };
 
+export const saveFile = (filePath: string, content: Buffer | string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const fullPath = path.join(process.cwd(), filePath);
+
+    // Ensure destination directory exists
+    const destDir = path.dirname(fullPath);
+    if (!fs.existsSync(destDir)) {
+      fs.mkdirSync(destDir, { recursive: true });
+    }
+
+    fs.writeFile(fullPath, content, (error) => {
+      if (error) {
+        logger.error(`Failed to save file: ${filePath}`, error);
+        reject(error);
+      } else {
+        logger.info(`File saved successfully: ${filePath}`);
+        resolve();
+      }
+    });
+  });
+};
+
+export const readFile = (filePath: string): Promise<Buffer | null> => {
+  return new Promise((resolve, reject) => {
+    const fullPath = path.join(process.cwd(), filePath);
+
+    fs.readFile(fullPath, (error, content) => {
+      if (error) {
+        if (error.code === 'ENOENT') {
+          resolve(null);
+        } else {
+          logger.error(`Failed to read file: ${filePath}`, error);
+          reject(error);
+        }
+      } else {
+        resolve(content);
+      }
+    });
+  });
+};
+
 export const getFileInfo = (filePath: string): Promise<fs.Stats | null> => {
   return new Promise((resolve) => {
     const fullPath = path.join(process.cwd(), filePath);
@@ -345,9 +398,12 @@ export default {
   userAvatarUpload,
   documentUpload,
   tempUpload,
+  csvUpload,
   handleUploadError,
   deleteFile,
   moveFile,
+  saveFile,
+  readFile,
   getFileInfo,
   cleanupTempFiles
 };
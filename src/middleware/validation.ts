@@ -2,6 +2,24 @@ import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { logger } from '../config/logger';
 
+// Rate plan cancellation terms
+const cancellationPenaltySchema = z.object({
+  penaltyType: z.enum(['nights', 'percentage', 'fixed']),
+  penaltyValue: z.number().min(0, 'Penalty value cannot be negative')
+}).refine(data => data.penaltyType !== 'percentage' || data.penaltyValue <= 100, {
+  message: 'Percentage penalty cannot exceed 100',
+  path: ['penaltyValue']
+});
+
+const cancellationRuleSchema = z.object({
+  hoursBeforeCheckIn: z.number().min(0, 'Hours before check-in cannot be negative').max(8760, 'Hours before check-in cannot exceed a year'),
+  penaltyType: z.enum(['nights', 'percentage', 'fixed']),
+  penaltyValue: z.number().min(0, 'Penalty value cannot be negative')
+}).refine(data => data.penaltyType !== 'percentage' || data.penaltyValue <= 100, {
+  message: 'Percentage penalty cannot exceed 100',
+  path: ['penaltyValue']
+});
+
 /**
  * Validation middleware for all models
  */
@@ -87,7 +105,8 @@ export class ValidationMiddleware {
         view: z.string().trim().optional(),
         bedType: z.string().trim().optional(),
         smokingAllowed: z.boolean().default(false),
-        petFriendly: z.boolean().default(false)
+        petFriendly: z.boolean().default(false),
+        totalUnits: z.number().int().min(1, 'Total units must be at least 1').optional()
       })).min(1, 'At least one room is required'),
       amenities: z.array(z.string().trim()),
       photos: z.array(z.string().trim()),
@@ -278,6 +297,29 @@ export class ValidationMiddleware {
       }).optional(),
       notes: z.string().max(1000, 'Notes cannot exceed 1000 characters').trim().optional(),
       specialRequests: z.array(z.string().max(200, 'Special request cannot exceed 200 characters').trim()).optional()
+    }),
+
+    modify: z.object({
+      checkIn: z.string().datetime('Invalid check-in date format').optional(),
+      checkOut: z.string().datetime('Invalid check-out date format').optional(),
+      room: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid room ID').optional(),
+      guests: z.object({
+        adults: z.number().min(1, 'At least one adult is required').max(20, 'Cannot exceed 20 adults').optional(),
+        children: z.number().min(0, 'Children count cannot be negative').max(10, 'Cannot exceed 10 children').optional(),
+        infants: z.number().min(0, 'Infants count cannot be negative').max(5, 'Cannot exceed 5 infants').optional()
+      }).optional(),
+      ratePlan: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid rate plan ID').optional(),
+      reprice: z.boolean().default(true),
+      reason: z.string().max(500, 'Reason cannot exceed 500 characters').trim().optional()
+    }).refine(data => data.checkIn || data.checkOut || data.room || data.guests || data.ratePlan, {
+      message: 'At least one of checkIn, checkOut, room, guests or ratePlan is required'
+    }),
+
+    status: z.object({
+      status: z.enum(['pending', 'confirmed', 'checked-in', 'checked-out', 'cancelled', 'no-show', 'modified']),
+      reason: z.string().max(500, 'Reason cannot exceed 500 characters').trim().optional(),
+      override: z.boolean().default(false),
+      waivePenalty: z.boolean().default(false)
     })
   };
 
@@ -302,6 +344,8 @@ export class ValidationMiddleware {
       isRefundable: z.boolean().default(true),
       cancellationPolicy: z.enum(['free_cancellation', 'non_refundable', 'partial_refund', 'custom']).default('free_cancellation'),
       customCancellationPolicy: z.string().max(1000, 'Custom cancellation policy cannot exceed 1000 characters').trim().optional(),
+      cancellationRules: z.array(cancellationRuleSchema).max(10, 'Cannot exceed 10 cancellation rules').optional(),
+      noShowPenalty: cancellationPenaltySchema.optional(),
       minStay: z.number().min(1, 'Minimum stay must be at least 1 night').default(1),
       maxStay: z.number().min(1, 'Maximum stay must be at least 1 night').optional(),
       includesBreakfast: z.boolean().default(false),
@@ -321,6 +365,8 @@ export class ValidationMiddleware {
       isRefundable: z.boolean().optional(),
       cancellationPolicy: z.enum(['free_cancellation', 'non_refundable', 'partial_refund', 'custom']).optional(),
       customCancellationPolicy: z.string().max(1000, 'Custom cancellation policy cannot exceed 1000 characters').trim().optional(),
+      cancellationRules: z.array(cancellationRuleSchema).max(10, 'Cannot exceed 10 cancellation rules').optional(),
+      noShowPenalty: cancellationPenaltySchema.optional(),
       minStay: z.number().min(1, 'Minimum stay must be at least 1 night').optional(),
       maxStay: z.number().min(1, 'Maximum stay must be at least 1 night').optional(),
       includesBreakfast: z.boolean().optional(),
@@ -491,7 +537,9 @@ export class ValidationMiddleware {
    */
   static validateBooking = {
     create: ValidationMiddleware.validate(ValidationMiddleware.bookingSchemas.create),
-    update: ValidationMiddleware.validate(ValidationMiddleware.bookingSchemas.update)
+    update: ValidationMiddleware.validate(ValidationMiddleware.bookingSchemas.update),
+    modify: ValidationMiddleware.validate(ValidationMiddleware.bookingSchemas.modify),
+    status: ValidationMiddleware.validate(ValidationMiddleware.bookingSchemas.status)
   };
 
   /**
@@ -0,0 +1,76 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+import { auditLoggers } from './audit';
+import { OTAProvider } from '../services/OTAService';
+import { webhookSignatureService } from '../services/webhookSignatureService';
+
+// Extend Request interface with the raw webhook body and the verified channel
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+      webhookChannelId?: mongoose.Types.ObjectId; // Stored with the inbox event to scope its processing
+    }
+  }
+}
+
+/**
+ * Body parser hook keeping the exact bytes of webhook requests, which is
+ * what OTAs sign; re-serialized JSON would not match
+ */
+export const captureRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer): void => {
+  if (req.url?.startsWith('/api/v1/webhooks')) {
+    (req as Request).rawBody = buf;
+  }
+};
+
+/**
+ * Webhook signature middleware
+ * Rejects webhooks not signed with the secret of an active channel of the
+ * provider, or signed too long ago, and records the attempt in the audit log.
+ * The signing channel is kept on the request, so the webhook is only applied
+ * to properties connected to that channel.
+ */
+export const verifyWebhookSignature = (provider: OTAProvider) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const verification = await webhookSignatureService.verify(provider, {
+        headers: req.headers,
+        rawBody: req.rawBody,
+        payloadTimestamp: (req.body as { timestamp?: unknown } | undefined)?.timestamp
+      });
+
+      if (!verification.valid) {
+        const reason = verification.reason ?? 'Invalid signature';
+        logger.warn(`[Webhook-${provider}] Rejected webhook: ${reason}`, { ip: req.ip });
+
+        try {
+          await auditLoggers.webhookRejected(req, provider, reason);
+        } catch (error) {
+          logger.error('Webhook rejection audit entry failed:', error);
+        }
+
+        res.status(401).json({
+          success: false,
+          error: 'Invalid webhook signature'
+        });
+        return;
+      }
+
+      if (verification.retiredSecret) {
+        logger.warn(`[Webhook-${provider}] Webhook signed with a rotated-out secret of channel ${String(verification.channelId)}`);
+      }
+
+      req.webhookChannelId = verification.channelId;
+      next();
+    } catch (error) {
+      logger.error(`[Webhook-${provider}] Signature verification error:`, error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to verify webhook'
+      });
+    }
+  };
+};
@@ -0,0 +1,128 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * AriPushTask Model
+ *
+ * Outbound availability, rates and restrictions waiting to be pushed to one
+ * channel for one room type. Changes to the same channel, property and room
+ * are coalesced into the single pending task: its nights are merged and
+ * pushed together as the fewest date ranges once the coalescing delay has
+ * passed. A push that fails is retried with backoff; a task that runs out
+ * of attempts or is refused by the OTA stays failed until the nights change
+ * again or the channel is fully synced.
+ */
+
+// Push task status enum
+export enum AriPushStatus {
+  PENDING = 'pending',       // Waiting for its (next) push
+  PROCESSING = 'processing', // Claimed by a worker
+  FAILED = 'failed'          // Out of attempts or refused by the OTA
+}
+
+// AriPushTask interface extending Document
+export interface IAriPushTask extends Document {
+  _id: mongoose.Types.ObjectId;
+  channel: mongoose.Types.ObjectId; // Channel reference
+  property: mongoose.Types.ObjectId; // Property reference
+  room: mongoose.Types.ObjectId; // Property.rooms reference
+  dates: Date[]; // Changed stay nights
+  availability: boolean; // Push units and closures
+  rates: boolean; // Push rates, stay limits and rate plan restrictions
+  status: AriPushStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // Push lease; an expired lease is claimed again
+  lastError?: string;
+  firstQueuedAt: Date; // Oldest change not yet on the channel
+  lastQueuedAt: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// AriPushTask schema definition
+const ariPushTaskSchema = new Schema<IAriPushTask>({
+  channel: {
+    type: Schema.Types.ObjectId,
+    ref: 'Channel',
+    required: [true, 'Channel is required']
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property is required']
+  },
+  room: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Room is required']
+  },
+  dates: {
+    type: [Date],
+    default: []
+  },
+  availability: {
+    type: Boolean,
+    default: false
+  },
+  rates: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: Object.values(AriPushStatus),
+    default: AriPushStatus.PENDING
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  firstQueuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastQueuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  failedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// One pending task per channel and room type, which changes coalesce into
+ariPushTaskSchema.index(
+  { channel: 1, property: 1, room: 1 },
+  { unique: true, partialFilterExpression: { status: AriPushStatus.PENDING } }
+);
+
+// Worker lookups
+ariPushTaskSchema.index({ status: 1, nextAttemptAt: 1 });
+ariPushTaskSchema.index({ status: 1, lockedUntil: 1 });
+
+// Per-channel lag
+ariPushTaskSchema.index({ channel: 1, status: 1, firstQueuedAt: 1 });
+
+// Create and export the model
+const AriPushTask: Model<IAriPushTask> = mongoose.model<IAriPushTask>('AriPushTask', ariPushTaskSchema);
+
+export default AriPushTask;
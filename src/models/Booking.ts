@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { createError } from '../utils/errors';
+import { ExtraCategory, ExtraChargeType } from './Extra';
 
 // Booking status enum
 export enum BookingStatus {
@@ -11,6 +13,17 @@ export enum BookingStatus {
   MODIFIED = 'modified'
 }
 
+// Allowed status changes; terminal statuses have none
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  [BookingStatus.PENDING]: [BookingStatus.CONFIRMED, BookingStatus.MODIFIED, BookingStatus.CANCELLED],
+  [BookingStatus.CONFIRMED]: [BookingStatus.MODIFIED, BookingStatus.CHECKED_IN, BookingStatus.CANCELLED, BookingStatus.NO_SHOW],
+  [BookingStatus.MODIFIED]: [BookingStatus.CONFIRMED, BookingStatus.CHECKED_IN, BookingStatus.CANCELLED, BookingStatus.NO_SHOW],
+  [BookingStatus.CHECKED_IN]: [BookingStatus.CHECKED_OUT],
+  [BookingStatus.CHECKED_OUT]: [],
+  [BookingStatus.CANCELLED]: [],
+  [BookingStatus.NO_SHOW]: []
+};
+
 // Channel enum
 export enum BookingChannel {
   AIRBNB = 'airbnb',
@@ -63,6 +76,7 @@ export interface IPricing {
   taxes: number;
   fees: number;
   discounts: number;
+  extras?: number; // Extras booked on top of the stay
   total: number;
   currency: string;
   breakdown?: {
@@ -75,13 +89,93 @@ export interface IPricing {
       name: string;
       amount: number;
     }>;
+    extras?: Array<{
+      name: string;
+      amount: number;
+    }>;
   };
 }
 
+// Extra booked with a stay, priced in the booking's currency
+export interface IBookingExtra {
+  _id: mongoose.Types.ObjectId;
+  extra: mongoose.Types.ObjectId; // Extra reference
+  name: string;
+  category: ExtraCategory;
+  chargeType: ExtraChargeType;
+  quantity: number;
+  unitPrice: number; // Per unit, night and guest as the charge type says
+  amount: number;
+  addedAt: Date;
+  addedBy?: mongoose.Types.ObjectId; // User reference; unset when the guest booked it
+}
+
+// Stay details captured before and after a modification
+export interface IBookingSnapshot {
+  room: mongoose.Types.ObjectId;
+  checkIn: Date;
+  checkOut: Date;
+  guests: IGuestCount;
+  ratePlan?: mongoose.Types.ObjectId;
+  pricing: IPricing;
+}
+
+// Modification history entry
+export interface IBookingModification {
+  modifiedAt: Date;
+  modifiedBy?: mongoose.Types.ObjectId; // User reference
+  previousStatus: BookingStatus;
+  reason?: string;
+  before: IBookingSnapshot;
+  after: IBookingSnapshot;
+  priceDifference: number;
+}
+
+// Where a status change came from
+export enum StatusChangeSource {
+  STAFF = 'staff',
+  GUEST = 'guest',
+  OTA = 'ota',
+  SYSTEM = 'system'
+}
+
+// Status history entry
+export interface IStatusChange {
+  from?: BookingStatus; // Unset for the initial status
+  to: BookingStatus;
+  changedAt: Date;
+  changedBy?: mongoose.Types.ObjectId; // User reference
+  source: StatusChangeSource;
+  reason?: string;
+}
+
+// Penalty and refund settled when a booking is cancelled or marked a no-show
+export interface ICancellationCharge {
+  policy: string; // Cancellation policy of the rate plan
+  noShow: boolean;
+  penalty: number;
+  amountPaid: number;
+  refund: number;     // Paid beyond the penalty, owed back to the guest
+  balanceDue: number; // Penalty beyond what was paid
+  waived: boolean;
+  calculatedAt: Date;
+}
+
+// Who is changing a status and why
+export interface IStatusChangeOptions {
+  userId?: string;
+  source?: StatusChangeSource;
+  reason?: string;
+}
+
 // Booking interface extending Document
 export interface IBooking extends Document {
+  _id: mongoose.Types.ObjectId;
   property: mongoose.Types.ObjectId; // Property reference
   room: mongoose.Types.ObjectId; // Room reference
+  unit?: mongoose.Types.ObjectId; // RoomUnit reference (current unit assignment)
+  group?: mongoose.Types.ObjectId; // ReservationGroup reference (multi-room reservations)
+  guest?: mongoose.Types.ObjectId; // Guest profile reference
   guestInfo: IGuestInfo;
   checkIn: Date;
   checkOut: Date;
@@ -91,13 +185,20 @@ export interface IBooking extends Document {
   channelBookingId?: string;
   channelConfirmationCode?: string;
   pricing: IPricing;
+  extras: IBookingExtra[];
+  ratePlan?: mongoose.Types.ObjectId; // RatePlan reference
+  modifications: IBookingModification[];
+  statusHistory: IStatusChange[];
   notes?: string;
   specialRequests: string[];
+  arrivalTime?: string; // Expected arrival, HH:mm in the property's local time
   cancellationReason?: string;
+  cancellationCharge?: ICancellationCharge;
   cancelledAt?: Date;
   cancelledBy?: mongoose.Types.ObjectId; // User reference
   checkedInAt?: Date;
   checkedOutAt?: Date;
+  overdueDepartureAt?: Date; // When the night audit found the guest still in house past check-out
   createdBy?: mongoose.Types.ObjectId; // User reference
   lastModifiedBy?: mongoose.Types.ObjectId; // User reference
   createdAt: Date;
@@ -105,7 +206,9 @@ export interface IBooking extends Document {
   
   // Methods
   calculateTotal(): number;
-  updateStatus(newStatus: BookingStatus, userId?: string): Promise<void>;
+  canTransitionTo(newStatus: BookingStatus): boolean;
+  applyStatus(newStatus: BookingStatus, options?: IStatusChangeOptions): void;
+  updateStatus(newStatus: BookingStatus, userId?: string, reason?: string): Promise<void>;
   canBeCancelled(): boolean;
   getNights(): number;
   toJSON(): any;
@@ -235,6 +338,11 @@ const pricingSchema = new Schema<IPricing>({
     default: 0,
     min: [0, 'Discounts cannot be negative']
   },
+  extras: {
+    type: Number,
+    default: 0,
+    min: [0, 'Extras cannot be negative']
+  },
   total: {
     type: Number,
     required: [true, 'Total amount is required'],
@@ -279,10 +387,201 @@ const pricingSchema = new Schema<IPricing>({
         required: true,
         min: [0, 'Fee amount cannot be negative']
       }
+    }],
+    extras: [{
+      name: {
+        type: String,
+        required: true,
+        trim: true
+      },
+      amount: {
+        type: Number,
+        required: true,
+        min: [0, 'Extra amount cannot be negative']
+      }
     }]
   }
 }, { _id: false });
 
+// Booked extra schema
+const bookingExtraSchema = new Schema<IBookingExtra>({
+  extra: {
+    type: Schema.Types.ObjectId,
+    ref: 'Extra',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  category: {
+    type: String,
+    enum: Object.values(ExtraCategory),
+    required: true
+  },
+  chargeType: {
+    type: String,
+    enum: Object.values(ExtraChargeType),
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  },
+  unitPrice: {
+    type: Number,
+    required: true,
+    min: [0, 'Unit price cannot be negative']
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, 'Amount cannot be negative']
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  },
+  addedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+});
+
+// Stay snapshot schema
+const bookingSnapshotSchema = new Schema<IBookingSnapshot>({
+  room: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  checkIn: {
+    type: Date,
+    required: true
+  },
+  checkOut: {
+    type: Date,
+    required: true
+  },
+  guests: {
+    type: guestCountSchema,
+    required: true
+  },
+  ratePlan: {
+    type: Schema.Types.ObjectId,
+    ref: 'RatePlan'
+  },
+  pricing: {
+    type: pricingSchema,
+    required: true
+  }
+}, { _id: false });
+
+// Modification history schema
+const bookingModificationSchema = new Schema<IBookingModification>({
+  modifiedAt: {
+    type: Date,
+    default: Date.now
+  },
+  modifiedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  previousStatus: {
+    type: String,
+    enum: Object.values(BookingStatus),
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Modification reason cannot exceed 500 characters']
+  },
+  before: {
+    type: bookingSnapshotSchema,
+    required: true
+  },
+  after: {
+    type: bookingSnapshotSchema,
+    required: true
+  },
+  priceDifference: {
+    type: Number,
+    default: 0
+  }
+}, { _id: true });
+
+// Status history schema
+const statusChangeSchema = new Schema<IStatusChange>({
+  from: {
+    type: String,
+    enum: Object.values(BookingStatus)
+  },
+  to: {
+    type: String,
+    enum: Object.values(BookingStatus),
+    required: true
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  source: {
+    type: String,
+    enum: Object.values(StatusChangeSource),
+    default: StatusChangeSource.STAFF
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Status change reason cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+// Cancellation charge schema
+const cancellationChargeSchema = new Schema<ICancellationCharge>({
+  policy: {
+    type: String,
+    required: true
+  },
+  noShow: {
+    type: Boolean,
+    default: false
+  },
+  penalty: {
+    type: Number,
+    required: true,
+    min: [0, 'Penalty cannot be negative']
+  },
+  amountPaid: {
+    type: Number,
+    default: 0
+  },
+  refund: {
+    type: Number,
+    default: 0,
+    min: [0, 'Refund cannot be negative']
+  },
+  balanceDue: {
+    type: Number,
+    default: 0,
+    min: [0, 'Balance due cannot be negative']
+  },
+  waived: {
+    type: Boolean,
+    default: false
+  },
+  calculatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 // Booking schema definition
 const bookingSchema = new Schema<IBooking>({
   property: {
@@ -296,6 +595,20 @@ const bookingSchema = new Schema<IBooking>({
     required: [true, 'Room reference is required'],
     index: true
   },
+  unit: {
+    type: Schema.Types.ObjectId,
+    ref: 'RoomUnit'
+  },
+  group: {
+    type: Schema.Types.ObjectId,
+    ref: 'ReservationGroup',
+    index: true
+  },
+  guest: {
+    type: Schema.Types.ObjectId,
+    ref: 'Guest',
+    index: true
+  },
   guestInfo: {
     type: guestInfoSchema,
     required: [true, 'Guest information is required']
@@ -345,6 +658,22 @@ const bookingSchema = new Schema<IBooking>({
     type: pricingSchema,
     required: [true, 'Pricing information is required']
   },
+  extras: {
+    type: [bookingExtraSchema],
+    default: []
+  },
+  ratePlan: {
+    type: Schema.Types.ObjectId,
+    ref: 'RatePlan'
+  },
+  modifications: {
+    type: [bookingModificationSchema],
+    default: []
+  },
+  statusHistory: {
+    type: [statusChangeSchema],
+    default: []
+  },
   notes: {
     type: String,
     trim: true,
@@ -355,11 +684,16 @@ const bookingSchema = new Schema<IBooking>({
     trim: true,
     maxlength: [200, 'Special request cannot exceed 200 characters']
   }],
+  arrivalTime: {
+    type: String,
+    match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Arrival time must be in HH:mm format']
+  },
   cancellationReason: {
     type: String,
     trim: true,
     maxlength: [500, 'Cancellation reason cannot exceed 500 characters']
   },
+  cancellationCharge: cancellationChargeSchema,
   cancelledAt: {
     type: Date
   },
@@ -373,6 +707,9 @@ const bookingSchema = new Schema<IBooking>({
   checkedOutAt: {
     type: Date
   },
+  overdueDepartureAt: {
+    type: Date
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
@@ -415,40 +752,65 @@ bookingSchema.virtual('totalGuests').get(function() {
 
 // Virtual for is active
 bookingSchema.virtual('isActive').get(function() {
-  return [BookingStatus.CONFIRMED, BookingStatus.CHECKED_IN].includes(this.status);
+  return [BookingStatus.CONFIRMED, BookingStatus.MODIFIED, BookingStatus.CHECKED_IN].includes(this.status);
 });
 
 // Virtual for can be modified
 bookingSchema.virtual('canBeModified').get(function() {
-  return [BookingStatus.PENDING, BookingStatus.CONFIRMED].includes(this.status);
+  return [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.MODIFIED].includes(this.status);
 });
 
 // Instance method to calculate total
 bookingSchema.methods.calculateTotal = function(): number {
-  const total = this.pricing.baseRate + this.pricing.taxes + this.pricing.fees - this.pricing.discounts;
+  const total = this.pricing.baseRate + this.pricing.taxes + this.pricing.fees + (this.pricing.extras ?? 0) - this.pricing.discounts;
   this.pricing.total = Math.max(0, total);
   return this.pricing.total;
 };
 
-// Instance method to update status
-bookingSchema.methods.updateStatus = async function(newStatus: BookingStatus, userId?: string): Promise<void> {
+// Instance method to check a status change against the transition table
+bookingSchema.methods.canTransitionTo = function(newStatus: BookingStatus): boolean {
+  return BOOKING_STATUS_TRANSITIONS[this.status as BookingStatus].includes(newStatus);
+};
+
+// Instance method to change status in memory, recording it in the history
+bookingSchema.methods.applyStatus = function(newStatus: BookingStatus, options: IStatusChangeOptions = {}): void {
+  if (!this.canTransitionTo(newStatus)) {
+    throw createError.statusTransition(`Cannot change booking status from ${this.status} to ${newStatus}`);
+  }
+
+  const now = new Date();
+  const userId = options.userId ? new mongoose.Types.ObjectId(options.userId) : undefined;
+
+  this.statusHistory.push({
+    from: this.status,
+    to: newStatus,
+    changedAt: now,
+    changedBy: userId,
+    source: options.source ?? StatusChangeSource.STAFF,
+    reason: options.reason
+  });
+
   this.status = newStatus;
   this.lastModifiedBy = userId;
 
   // Set timestamps based on status
   switch (newStatus) {
     case BookingStatus.CANCELLED:
-      this.cancelledAt = new Date();
+      this.cancelledAt = now;
       this.cancelledBy = userId;
       break;
     case BookingStatus.CHECKED_IN:
-      this.checkedInAt = new Date();
+      this.checkedInAt = now;
       break;
     case BookingStatus.CHECKED_OUT:
-      this.checkedOutAt = new Date();
+      this.checkedOutAt = now;
       break;
   }
+};
 
+// Instance method to update status
+bookingSchema.methods.updateStatus = async function(newStatus: BookingStatus, userId?: string, reason?: string): Promise<void> {
+  this.applyStatus(newStatus, { userId, reason });
   await this.save();
 };
 
@@ -458,7 +820,7 @@ bookingSchema.methods.canBeCancelled = function(): boolean {
   const checkInDate = new Date(this.checkIn);
   const hoursUntilCheckIn = (checkInDate.getTime() - now.getTime()) / (1000 * 60 * 60);
   
-  return [BookingStatus.PENDING, BookingStatus.CONFIRMED].includes(this.status) && hoursUntilCheckIn > 24;
+  return [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.MODIFIED].includes(this.status) && hoursUntilCheckIn > 24;
 };
 
 // Instance method to get number of nights
@@ -495,6 +857,18 @@ bookingSchema.statics.findByChannel = function(channel: BookingChannel) {
 
 // Pre-save middleware to calculate total
 bookingSchema.pre('save', function(next) {
+  // Every booking starts its history with the status it was created in
+  if (this.isNew && this.statusHistory.length === 0) {
+    this.statusHistory.push({
+      to: this.status,
+      changedAt: new Date(),
+      changedBy: this.createdBy,
+      source: [BookingChannel.DIRECT, BookingChannel.OTHER].includes(this.channel)
+        ? StatusChangeSource.STAFF
+        : StatusChangeSource.OTA
+    });
+  }
+
   if (this.isModified('pricing')) {
     this.calculateTotal();
   }
@@ -1,5 +1,14 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
 
+/**
+ * Calendar Model (legacy)
+ *
+ * Per-channel inventory documents from before the pooled RoomAvailability
+ * store. Only seed data and the inventory migration still use this
+ * collection; the Calendar enums remain the vocabulary of the calendar APIs,
+ * which are served from inventoryRepository.
+ */
+
 // Calendar status enum
 export enum CalendarStatus {
   AVAILABLE = 'available',
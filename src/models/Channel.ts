@@ -28,10 +28,17 @@ export enum SyncStatus {
   PENDING = 'pending'
 }
 
+// Secret replaced by a rotation, still accepted for webhooks until it expires
+export interface IRetiredSecret {
+  secret: string;
+  expiresAt: Date;
+}
+
 // API credentials interface
 export interface IApiCredentials {
   apiKey: string;
   apiSecret: string;
+  retiredSecrets?: IRetiredSecret[];
   webhookUrl?: string;
   accessToken?: string;
   refreshToken?: string;
@@ -126,6 +133,18 @@ export interface IChannel extends Document {
   toJSON(): any;
 }
 
+// Retired secret schema
+const retiredSecretSchema = new Schema<IRetiredSecret>({
+  secret: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
 // API credentials schema
 const apiCredentialsSchema = new Schema<IApiCredentials>({
   apiKey: {
@@ -138,6 +157,10 @@ const apiCredentialsSchema = new Schema<IApiCredentials>({
     required: [true, 'API secret is required'],
     trim: true
   },
+  retiredSecrets: {
+    type: [retiredSecretSchema],
+    default: undefined
+  },
   webhookUrl: {
     type: String,
     trim: true,
@@ -439,6 +462,7 @@ const channelSchema = new Schema<IChannel>({
       // Don't expose sensitive API credentials
       if (ret.apiCredentials) {
         delete ret.apiCredentials.apiSecret;
+        delete ret.apiCredentials.retiredSecrets;
         delete ret.apiCredentials.accessToken;
         delete ret.apiCredentials.refreshToken;
       }
@@ -0,0 +1,117 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ChannelType } from './Channel';
+
+/**
+ * ChannelMapping Model
+ *
+ * Links a property to its listing on one OTA: the OTA's property ID, and
+ * for each of our room types the OTA's room ID and the OTA rate plans that
+ * stand for our rate plans. Inbound reservations are filed through this
+ * mapping only; nothing is guessed.
+ */
+
+// Rate plan mapping
+export interface IRatePlanMapping {
+  ratePlan: mongoose.Types.ObjectId; // RatePlan reference
+  externalRatePlanId: string;
+}
+
+// Room type mapping
+export interface IRoomMapping {
+  room: mongoose.Types.ObjectId; // Property.rooms reference
+  externalRoomId: string;
+  ratePlans: IRatePlanMapping[];
+}
+
+// ChannelMapping interface extending Document
+export interface IChannelMapping extends Document {
+  _id: mongoose.Types.ObjectId;
+  channelType: ChannelType;
+  property: mongoose.Types.ObjectId; // Property reference
+  externalPropertyId: string;
+  rooms: IRoomMapping[];
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  lastModifiedBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Rate plan mapping schema
+const ratePlanMappingSchema = new Schema<IRatePlanMapping>({
+  ratePlan: {
+    type: Schema.Types.ObjectId,
+    ref: 'RatePlan',
+    required: [true, 'Rate plan is required']
+  },
+  externalRatePlanId: {
+    type: String,
+    required: [true, 'External rate plan ID is required'],
+    trim: true
+  }
+}, { _id: false });
+
+// Room mapping schema
+const roomMappingSchema = new Schema<IRoomMapping>({
+  room: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Room is required']
+  },
+  externalRoomId: {
+    type: String,
+    required: [true, 'External room ID is required'],
+    trim: true
+  },
+  ratePlans: {
+    type: [ratePlanMappingSchema],
+    default: []
+  }
+}, { _id: false });
+
+// ChannelMapping schema definition
+const channelMappingSchema = new Schema<IChannelMapping>({
+  channelType: {
+    type: String,
+    enum: Object.values(ChannelType),
+    required: [true, 'Channel type is required']
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property is required'],
+    index: true
+  },
+  externalPropertyId: {
+    type: String,
+    required: [true, 'External property ID is required'],
+    trim: true
+  },
+  rooms: {
+    type: [roomMappingSchema],
+    default: []
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  lastModifiedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// One listing per property and OTA, and an OTA listing maps to one property
+channelMappingSchema.index({ channelType: 1, property: 1 }, { unique: true });
+channelMappingSchema.index({ channelType: 1, externalPropertyId: 1 }, { unique: true });
+
+// Create and export the model
+const ChannelMapping: Model<IChannelMapping> = mongoose.model<IChannelMapping>('ChannelMapping', channelMappingSchema);
+
+export default ChannelMapping;
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * ExchangeRate Model
+ *
+ * One rate of a dated exchange-rate table: how many units of the quote
+ * currency one unit of the base currency bought on that date. Tables are
+ * loaded through the API or a CSV upload; a conversion uses the latest table
+ * dated on or before the moment it converts for, so reports keep the rates
+ * of the day a stay took place.
+ */
+
+// Where a rate was loaded from
+export enum ExchangeRateSource {
+  API = 'api',
+  CSV = 'csv'
+}
+
+// ExchangeRate interface extending Document
+export interface IExchangeRate extends Document {
+  _id: mongoose.Types.ObjectId;
+  base: string;
+  quote: string;
+  rate: number; // Units of quote per unit of base
+  date: Date; // Day of the table (UTC midnight)
+  source: ExchangeRateSource;
+  importedBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ExchangeRate schema definition
+const exchangeRateSchema = new Schema<IExchangeRate>({
+  base: {
+    type: String,
+    required: [true, 'Base currency is required'],
+    uppercase: true,
+    length: [3, 'Currency must be 3 characters']
+  },
+  quote: {
+    type: String,
+    required: [true, 'Quote currency is required'],
+    uppercase: true,
+    length: [3, 'Currency must be 3 characters']
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Rate is required'],
+    min: [0.000001, 'Rate must be positive']
+  },
+  date: {
+    type: Date,
+    required: [true, 'Date is required']
+  },
+  source: {
+    type: String,
+    enum: Object.values(ExchangeRateSource),
+    required: [true, 'Source is required']
+  },
+  importedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// One rate per currency pair and day; lookups read the latest on or before a date
+exchangeRateSchema.index({ base: 1, quote: 1, date: -1 }, { unique: true });
+exchangeRateSchema.index({ date: -1 });
+
+// Create and export the model
+const ExchangeRate: Model<IExchangeRate> = mongoose.model<IExchangeRate>('ExchangeRate', exchangeRateSchema);
+
+export default ExchangeRate;
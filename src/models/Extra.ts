@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Extra Model
+ *
+ * Something a property sells on top of the room: breakfast, parking, an
+ * airport transfer, late checkout. An extra is priced per stay, per night,
+ * per guest or per guest and night, and may have a limited number of units
+ * per day (e.g. parking spaces), counted in ExtraInventory.
+ */
+
+// Kind of extra
+export enum ExtraCategory {
+  BREAKFAST = 'breakfast',
+  PARKING = 'parking',
+  AIRPORT_TRANSFER = 'airport_transfer',
+  LATE_CHECKOUT = 'late_checkout',
+  OTHER = 'other'
+}
+
+// How the price of an extra adds up over a stay
+export enum ExtraChargeType {
+  PER_STAY = 'per_stay',                       // Once for the stay
+  PER_NIGHT = 'per_night',                     // Every night of the stay
+  PER_GUEST = 'per_guest',                     // Once for each guest
+  PER_GUEST_PER_NIGHT = 'per_guest_per_night'  // Every guest, every night
+}
+
+// Charge types priced and counted for every night of the stay
+export const NIGHTLY_CHARGE_TYPES = [ExtraChargeType.PER_NIGHT, ExtraChargeType.PER_GUEST_PER_NIGHT];
+
+// Charge types priced for every guest
+export const PER_GUEST_CHARGE_TYPES = [ExtraChargeType.PER_GUEST, ExtraChargeType.PER_GUEST_PER_NIGHT];
+
+// Extra interface extending Document
+export interface IExtra extends Document {
+  _id: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId; // Property reference
+  name: string;
+  description?: string;
+  category: ExtraCategory;
+  chargeType: ExtraChargeType;
+  price: number; // Per unit, before multiplying by nights and guests
+  currency: string;
+  dailyInventory?: number; // Units that can be sold per day; unlimited when unset
+  maxQuantity?: number; // Units one booking may take
+  active: boolean;
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Extra schema definition
+const extraSchema = new Schema<IExtra>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Extra name is required'],
+    trim: true,
+    maxlength: [100, 'Extra name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  category: {
+    type: String,
+    enum: Object.values(ExtraCategory),
+    default: ExtraCategory.OTHER
+  },
+  chargeType: {
+    type: String,
+    enum: Object.values(ExtraChargeType),
+    required: [true, 'Charge type is required']
+  },
+  price: {
+    type: Number,
+    required: [true, 'Price is required'],
+    min: [0, 'Price cannot be negative']
+  },
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true,
+    length: [3, 'Currency must be 3 characters']
+  },
+  dailyInventory: {
+    type: Number,
+    min: [0, 'Daily inventory cannot be negative']
+  },
+  maxQuantity: {
+    type: Number,
+    min: [1, 'Maximum quantity must be at least 1']
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+extraSchema.index({ property: 1, active: 1, category: 1 });
+
+// Create and export the model
+const Extra: Model<IExtra> = mongoose.model<IExtra>('Extra', extraSchema);
+
+export default Extra;
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Extra Inventory Model
+ *
+ * Units of an extra with a daily limit sold on one day. Each booking line
+ * holding units has a claim, so a line's units can be given back exactly
+ * once however often its release is retried.
+ */
+
+// Units held by one booking line
+export interface IExtraClaim {
+  line: mongoose.Types.ObjectId; // Booking extra line
+  booking: mongoose.Types.ObjectId; // Booking reference
+  quantity: number;
+}
+
+// Extra inventory interface extending Document
+export interface IExtraInventory extends Document {
+  _id: mongoose.Types.ObjectId;
+  extra: mongoose.Types.ObjectId; // Extra reference
+  property: mongoose.Types.ObjectId; // Property reference
+  date: Date; // Normalized to midnight UTC
+  sold: number;
+  claims: IExtraClaim[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Claim schema
+const extraClaimSchema = new Schema<IExtraClaim>({
+  line: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  }
+}, { _id: false });
+
+// Extra inventory schema definition
+const extraInventorySchema = new Schema<IExtraInventory>({
+  extra: {
+    type: Schema.Types.ObjectId,
+    ref: 'Extra',
+    required: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  date: {
+    type: Date,
+    required: true
+  },
+  sold: {
+    type: Number,
+    default: 0,
+    min: [0, 'Sold units cannot be negative']
+  },
+  claims: {
+    type: [extraClaimSchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+extraInventorySchema.index({ extra: 1, date: 1 }, { unique: true });
+extraInventorySchema.index({ 'claims.booking': 1 });
+
+// Create and export the model
+const ExtraInventory: Model<IExtraInventory> = mongoose.model<IExtraInventory>('ExtraInventory', extraInventorySchema);
+
+export default ExtraInventory;
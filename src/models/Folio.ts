@@ -0,0 +1,357 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { createError } from '../utils/errors';
+
+/**
+ * Folio Model
+ *
+ * The guest's running bill for one booking, kept as a double-entry ledger.
+ * Every transaction (charge, payment, refund, adjustment) posts balanced
+ * debit and credit lines against ledger accounts, and the guest's balance is
+ * the net of the guest receivable account. Transactions are never edited or
+ * deleted: a mistake is undone by posting a reversal that voids the original.
+ */
+
+// Folio status enum
+export enum FolioStatus {
+  OPEN = 'open',     // Accepting postings
+  CLOSED = 'closed'  // Settled after check-out or cancellation
+}
+
+// Ledger accounts a transaction posts to
+export enum LedgerAccount {
+  GUEST_RECEIVABLE = 'guest_receivable',         // What the guest owes (debit) or has in credit
+  ROOM_REVENUE = 'room_revenue',
+  TAX_PAYABLE = 'tax_payable',
+  FEE_REVENUE = 'fee_revenue',
+  INCIDENTAL_REVENUE = 'incidental_revenue',     // Minibar, restaurant, parking...
+  EXTRAS_REVENUE = 'extras_revenue',             // Extras booked with the stay
+  CANCELLATION_REVENUE = 'cancellation_revenue', // Cancellation and no-show penalties
+  DISCOUNTS = 'discounts',                       // Contra revenue
+  PAYMENTS_CLEARING = 'payments_clearing'        // Money taken in or paid back
+}
+
+// Folio transaction type enum
+export enum FolioTransactionType {
+  CHARGE = 'charge',
+  PAYMENT = 'payment',
+  REFUND = 'refund',
+  ADJUSTMENT = 'adjustment',
+  REVERSAL = 'reversal' // Voids an earlier transaction
+}
+
+// What a charge or adjustment is for, deciding its revenue account
+export enum ChargeCategory {
+  ROOM = 'room',
+  TAX = 'tax',
+  FEE = 'fee',
+  EXTRA = 'extra',
+  INCIDENTAL = 'incidental',
+  DISCOUNT = 'discount',
+  CANCELLATION = 'cancellation'
+}
+
+// Payment method enum
+export enum PaymentMethod {
+  CASH = 'cash',
+  CARD = 'card',
+  BANK_TRANSFER = 'bank_transfer',
+  OTA_COLLECT = 'ota_collect', // Collected by the channel and paid out to the property
+  VOUCHER = 'voucher',
+  OTHER = 'other'
+}
+
+// Revenue (or contra revenue) account of each charge category
+export const CATEGORY_ACCOUNTS: Record<ChargeCategory, LedgerAccount> = {
+  [ChargeCategory.ROOM]: LedgerAccount.ROOM_REVENUE,
+  [ChargeCategory.TAX]: LedgerAccount.TAX_PAYABLE,
+  [ChargeCategory.FEE]: LedgerAccount.FEE_REVENUE,
+  [ChargeCategory.EXTRA]: LedgerAccount.EXTRAS_REVENUE,
+  [ChargeCategory.INCIDENTAL]: LedgerAccount.INCIDENTAL_REVENUE,
+  [ChargeCategory.DISCOUNT]: LedgerAccount.DISCOUNTS,
+  [ChargeCategory.CANCELLATION]: LedgerAccount.CANCELLATION_REVENUE
+};
+
+// One side of a posting
+export interface ILedgerLine {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+// Folio transaction
+export interface IFolioTransaction {
+  _id: mongoose.Types.ObjectId;
+  type: FolioTransactionType;
+  description: string;
+  amount: number; // Signed effect on the guest balance
+  category?: ChargeCategory;
+  paymentMethod?: PaymentMethod;
+  reference?: string; // Card authorisation, receipt or OTA payout reference
+  lines: ILedgerLine[];
+  stayPricing?: boolean; // Posted from the booking's price snapshot, kept in step with it
+  reverses?: mongoose.Types.ObjectId; // Transaction this reversal voids
+  voidedBy?: mongoose.Types.ObjectId; // Reversal that voided this transaction
+  postedAt: Date;
+  postedBy?: mongoose.Types.ObjectId; // User reference
+}
+
+// Transaction data before it is posted
+export type IFolioPosting = Omit<IFolioTransaction, '_id' | 'postedAt' | 'voidedBy'>;
+
+// Check-out taken while money was still owed
+export interface IBalanceDueFlag {
+  amount: number;
+  flaggedAt: Date;
+  flaggedBy?: mongoose.Types.ObjectId; // User reference
+}
+
+// Folio totals by transaction type
+export interface IFolioSummary {
+  charges: number;
+  payments: number;
+  refunds: number;
+  adjustments: number;
+  balance: number;
+}
+
+// Folio interface extending Document
+export interface IFolio extends Document {
+  _id: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId; // Property reference
+  booking: mongoose.Types.ObjectId;  // Booking reference
+  group?: mongoose.Types.ObjectId;   // ReservationGroup reference
+  currency: string;
+  status: FolioStatus;
+  transactions: IFolioTransaction[];
+  balance: number; // Positive when the guest owes money
+  balanceDueAtCheckout?: IBalanceDueFlag;
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  post(posting: IFolioPosting): IFolioTransaction;
+  accountBalance(account: LedgerAccount): number;
+  getSummary(): IFolioSummary;
+}
+
+/**
+ * Round a money amount to cents
+ */
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const ledgerLineSchema = new Schema<ILedgerLine>({
+  account: {
+    type: String,
+    enum: Object.values(LedgerAccount),
+    required: [true, 'Ledger account is required']
+  },
+  debit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Debit cannot be negative']
+  },
+  credit: {
+    type: Number,
+    default: 0,
+    min: [0, 'Credit cannot be negative']
+  }
+}, { _id: false });
+
+const folioTransactionSchema = new Schema<IFolioTransaction>({
+  type: {
+    type: String,
+    enum: Object.values(FolioTransactionType),
+    required: [true, 'Transaction type is required']
+  },
+  description: {
+    type: String,
+    required: [true, 'Transaction description is required'],
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Transaction amount is required']
+  },
+  category: {
+    type: String,
+    enum: Object.values(ChargeCategory)
+  },
+  paymentMethod: {
+    type: String,
+    enum: Object.values(PaymentMethod)
+  },
+  reference: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Reference cannot exceed 100 characters']
+  },
+  lines: {
+    type: [ledgerLineSchema],
+    validate: {
+      validator: (lines: ILedgerLine[]): boolean => lines.length >= 2,
+      message: 'A transaction needs at least two ledger lines'
+    }
+  },
+  stayPricing: {
+    type: Boolean,
+    default: false
+  },
+  reverses: {
+    type: Schema.Types.ObjectId
+  },
+  voidedBy: {
+    type: Schema.Types.ObjectId
+  },
+  postedAt: {
+    type: Date,
+    default: Date.now
+  },
+  postedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+});
+
+const balanceDueFlagSchema = new Schema<IBalanceDueFlag>({
+  amount: {
+    type: Number,
+    required: true
+  },
+  flaggedAt: {
+    type: Date,
+    default: Date.now
+  },
+  flaggedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
+
+// Folio schema definition
+const folioSchema = new Schema<IFolio>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property reference is required'],
+    index: true
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking reference is required'],
+    unique: true
+  },
+  group: {
+    type: Schema.Types.ObjectId,
+    ref: 'ReservationGroup',
+    index: true
+  },
+  currency: {
+    type: String,
+    default: 'USD',
+    uppercase: true
+  },
+  status: {
+    type: String,
+    enum: Object.values(FolioStatus),
+    default: FolioStatus.OPEN,
+    index: true
+  },
+  transactions: [folioTransactionSchema],
+  balance: {
+    type: Number,
+    default: 0
+  },
+  balanceDueAtCheckout: balanceDueFlagSchema,
+  closedAt: Date
+}, {
+  timestamps: true,
+  optimisticConcurrency: true, // Concurrent postings must not overwrite each other
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+folioSchema.index({ property: 1, balance: 1 }); // Outstanding balances per property
+
+// Instance method to post a balanced transaction and update the balance
+folioSchema.methods.post = function(this: IFolio, posting: IFolioPosting): IFolioTransaction {
+  if (this.status === FolioStatus.CLOSED) {
+    throw createError.conflict('Folio is closed');
+  }
+
+  const lines = posting.lines.map(line => ({
+    account: line.account,
+    debit: roundAmount(line.debit),
+    credit: roundAmount(line.credit)
+  }));
+  const debits = roundAmount(lines.reduce((sum, line) => sum + line.debit, 0));
+  const credits = roundAmount(lines.reduce((sum, line) => sum + line.credit, 0));
+
+  if (debits <= 0 || debits !== credits) {
+    throw createError.validation(`Unbalanced folio transaction: debits ${debits}, credits ${credits}`);
+  }
+
+  this.transactions.push({ ...posting, _id: new mongoose.Types.ObjectId(), amount: roundAmount(posting.amount), lines, postedAt: new Date() });
+  this.balance = this.accountBalance(LedgerAccount.GUEST_RECEIVABLE);
+
+  return this.transactions[this.transactions.length - 1];
+};
+
+// Instance method to net the debits and credits of one account
+folioSchema.methods.accountBalance = function(this: IFolio, account: LedgerAccount): number {
+  let total = 0;
+  for (const transaction of this.transactions) {
+    for (const line of transaction.lines) {
+      if (line.account === account) {
+        total += line.debit - line.credit;
+      }
+    }
+  }
+  return roundAmount(total);
+};
+
+// Instance method to total the live (not voided) transactions by type
+folioSchema.methods.getSummary = function(this: IFolio): IFolioSummary {
+  const summary: IFolioSummary = { charges: 0, payments: 0, refunds: 0, adjustments: 0, balance: this.balance };
+
+  for (const transaction of this.transactions) {
+    if (transaction.type === FolioTransactionType.REVERSAL || transaction.voidedBy) {
+      continue;
+    }
+
+    switch (transaction.type) {
+      case FolioTransactionType.CHARGE:
+        summary.charges += transaction.amount;
+        break;
+      case FolioTransactionType.PAYMENT:
+        summary.payments -= transaction.amount;
+        break;
+      case FolioTransactionType.REFUND:
+        summary.refunds += transaction.amount;
+        break;
+      case FolioTransactionType.ADJUSTMENT:
+        summary.adjustments += transaction.amount;
+        break;
+    }
+  }
+
+  return {
+    charges: roundAmount(summary.charges),
+    payments: roundAmount(summary.payments),
+    refunds: roundAmount(summary.refunds),
+    adjustments: roundAmount(summary.adjustments),
+    balance: summary.balance
+  };
+};
+
+// Create and export the model
+const Folio: Model<IFolio> = mongoose.model<IFolio>('Folio', folioSchema);
+
+export default Folio;
@@ -0,0 +1,253 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { DocumentType } from './Booking';
+
+/**
+ * Guest Model
+ *
+ * One profile per person across all of their bookings. Bookings keep their
+ * own guestInfo snapshot and link here through `Booking.guest`; the profile
+ * collects every email, phone and travel document the guest has used so new
+ * bookings can be matched to it. Profiles belong to the owner of the
+ * properties the guest stayed at and are never shared between owners.
+ * Duplicates merged into another profile are kept with `mergedInto` set.
+ */
+
+// Guest status enum
+export enum GuestStatus {
+  ACTIVE = 'active',
+  MERGED = 'merged' // Merged into another profile, kept for reference
+}
+
+// Travel document of the guest
+export interface IGuestDocument {
+  documentType: DocumentType;
+  documentNumber: string; // Normalized: upper case letters and digits only
+}
+
+// Staff note on the guest
+export interface IGuestNote {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+}
+
+// Revenue from the guest in one currency
+export interface ILifetimeValue {
+  currency: string;
+  amount: number;
+}
+
+// Stay statistics, recomputed from the linked bookings
+export interface IGuestStats {
+  totalBookings: number;
+  completedStays: number; // Checked in or checked out
+  totalNights: number;
+  cancellations: number;
+  noShows: number;
+  lifetimeValue: ILifetimeValue[]; // Stays plus cancellation penalties, per currency
+  firstStayAt?: Date;
+  lastStayAt?: Date;
+  nextStayAt?: Date; // Check-in of the next upcoming booking
+  calculatedAt?: Date;
+}
+
+// Guest interface extending Document
+export interface IGuest extends Document {
+  _id: mongoose.Types.ObjectId;
+  owner: mongoose.Types.ObjectId; // User reference, owner of the properties
+  properties: mongoose.Types.ObjectId[]; // Property references the guest booked at
+  firstName: string;
+  lastName: string;
+  email?: string; // Primary contact email
+  phone?: string; // Primary contact phone, as entered
+  nationality?: string;
+  dateOfBirth?: Date;
+  gender?: 'male' | 'female' | 'other';
+  emails: string[]; // Every email seen, lower case
+  phones: string[]; // Every phone seen, digits only
+  documents: IGuestDocument[];
+  preferences: string[];
+  tags: string[];
+  notes: IGuestNote[];
+  stats: IGuestStats;
+  status: GuestStatus;
+  mergedInto?: mongoose.Types.ObjectId; // Guest reference
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  getFullName(): string;
+}
+
+const guestDocumentSchema = new Schema<IGuestDocument>({
+  documentType: {
+    type: String,
+    enum: Object.values(DocumentType),
+    required: [true, 'Document type is required']
+  },
+  documentNumber: {
+    type: String,
+    required: [true, 'Document number is required'],
+    trim: true,
+    uppercase: true
+  }
+}, { _id: false });
+
+const guestNoteSchema = new Schema<IGuestNote>({
+  text: {
+    type: String,
+    required: [true, 'Note text is required'],
+    trim: true,
+    maxlength: [1000, 'Note cannot exceed 1000 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const lifetimeValueSchema = new Schema<ILifetimeValue>({
+  currency: {
+    type: String,
+    required: true,
+    uppercase: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    default: 0
+  }
+}, { _id: false });
+
+const guestStatsSchema = new Schema<IGuestStats>({
+  totalBookings: { type: Number, default: 0 },
+  completedStays: { type: Number, default: 0 },
+  totalNights: { type: Number, default: 0 },
+  cancellations: { type: Number, default: 0 },
+  noShows: { type: Number, default: 0 },
+  lifetimeValue: {
+    type: [lifetimeValueSchema],
+    default: []
+  },
+  firstStayAt: Date,
+  lastStayAt: Date,
+  nextStayAt: Date,
+  calculatedAt: Date
+}, { _id: false });
+
+// Guest schema definition
+const guestSchema = new Schema<IGuest>({
+  owner: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Owner reference is required'],
+    index: true
+  },
+  properties: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Property'
+  }],
+  firstName: {
+    type: String,
+    required: [true, 'First name is required'],
+    trim: true,
+    maxlength: [50, 'First name cannot exceed 50 characters']
+  },
+  lastName: {
+    type: String,
+    required: [true, 'Last name is required'],
+    trim: true,
+    maxlength: [50, 'Last name cannot exceed 50 characters']
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  },
+  nationality: {
+    type: String,
+    trim: true
+  },
+  dateOfBirth: Date,
+  gender: {
+    type: String,
+    enum: ['male', 'female', 'other']
+  },
+  emails: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  phones: [{
+    type: String,
+    trim: true
+  }],
+  documents: {
+    type: [guestDocumentSchema],
+    default: []
+  },
+  preferences: [{
+    type: String,
+    trim: true,
+    maxlength: [200, 'Preference cannot exceed 200 characters']
+  }],
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Tag cannot exceed 50 characters']
+  }],
+  notes: {
+    type: [guestNoteSchema],
+    default: []
+  },
+  stats: {
+    type: guestStatsSchema,
+    default: (): Partial<IGuestStats> => ({})
+  },
+  status: {
+    type: String,
+    enum: Object.values(GuestStatus),
+    default: GuestStatus.ACTIVE,
+    index: true
+  },
+  mergedInto: {
+    type: Schema.Types.ObjectId,
+    ref: 'Guest'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+guestSchema.index({ owner: 1, emails: 1 }); // Email matching
+guestSchema.index({ owner: 1, phones: 1 }); // Phone matching
+guestSchema.index({ owner: 1, 'documents.documentNumber': 1 }); // Document matching
+guestSchema.index({ owner: 1, status: 1, lastName: 1 }); // Guest search
+guestSchema.index({ properties: 1, status: 1 }); // Guests of a property
+guestSchema.index({ tags: 1 }); // Tag filter
+
+// Instance method to get the display name
+guestSchema.methods.getFullName = function(): string {
+  return `${this.firstName} ${this.lastName}`;
+};
+
+// Create and export the model
+const Guest: Model<IGuest> = mongoose.model<IGuest>('Guest', guestSchema);
+
+export default Guest;
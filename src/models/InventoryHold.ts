@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * InventoryHold Model
+ *
+ * A short-lived claim on RoomAvailability units while a guest completes
+ * checkout. The held units are parked in RoomAvailability.heldRooms and are
+ * either converted into a booking or given back when the hold expires.
+ */
+
+// Hold status enum
+export enum HoldStatus {
+  ACTIVE = 'active',
+  CONVERTED = 'converted',
+  EXPIRED = 'expired',
+  RELEASED = 'released'
+}
+
+// InventoryHold interface extending Document
+export interface IInventoryHold extends Document {
+  _id: mongoose.Types.ObjectId;
+  token: string;
+  property: mongoose.Types.ObjectId; // Property reference
+  room: mongoose.Types.ObjectId; // Room type reference
+  checkIn: Date;
+  checkOut: Date;
+  channel: string;
+  guestEmail?: string;
+  status: HoldStatus;
+  expiresAt: Date;
+  booking?: mongoose.Types.ObjectId; // Booking created from this hold
+  convertedAt?: Date;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isExpired(): boolean;
+  matchesStay(propertyId: string, roomId: string, checkIn: Date, checkOut: Date): boolean;
+}
+
+// InventoryHold schema definition
+const inventoryHoldSchema = new Schema<IInventoryHold>({
+  token: {
+    type: String,
+    required: [true, 'Hold token is required'],
+    unique: true,
+    index: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property reference is required'],
+    index: true
+  },
+  room: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Room reference is required']
+  },
+  checkIn: {
+    type: Date,
+    required: [true, 'Check-in date is required']
+  },
+  checkOut: {
+    type: Date,
+    required: [true, 'Check-out date is required']
+  },
+  channel: {
+    type: String,
+    required: [true, 'Channel is required'],
+    lowercase: true,
+    default: 'direct'
+  },
+  guestEmail: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  status: {
+    type: String,
+    enum: Object.values(HoldStatus),
+    default: HoldStatus.ACTIVE,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required']
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  convertedAt: {
+    type: Date
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Sweeper lookup
+inventoryHoldSchema.index({ status: 1, expiresAt: 1 });
+
+// Instance method to check expiry
+inventoryHoldSchema.methods.isExpired = function(this: IInventoryHold): boolean {
+  return this.expiresAt.getTime() <= Date.now();
+};
+
+// Instance method to check a booking request against the held stay
+inventoryHoldSchema.methods.matchesStay = function(
+  this: IInventoryHold,
+  propertyId: string,
+  roomId: string,
+  checkIn: Date,
+  checkOut: Date
+): boolean {
+  const sameDay = (a: Date, b: Date): boolean => a.toISOString().split('T')[0] === b.toISOString().split('T')[0];
+
+  return this.property.toString() === propertyId.toString() &&
+    this.room.toString() === roomId.toString() &&
+    sameDay(this.checkIn, checkIn) &&
+    sameDay(this.checkOut, checkOut);
+};
+
+// Create and export the model
+const InventoryHold: Model<IInventoryHold> = mongoose.model<IInventoryHold>('InventoryHold', inventoryHoldSchema);
+
+export default InventoryHold;
@@ -0,0 +1,207 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * InventoryReconciliation Model
+ *
+ * One run of the inventory drift check. Stores the drift report so scheduled
+ * runs can be reviewed later through the admin API.
+ */
+
+// Drift type enum
+export enum DriftType {
+  MISSING_BOOKING_CLAIM = 'missing_booking_claim',
+  ORPHANED_BOOKING_CLAIM = 'orphaned_booking_claim',
+  DUPLICATE_BOOKING_CLAIM = 'duplicate_booking_claim',
+  AVAILABLE_COUNT_MISMATCH = 'available_count_mismatch',
+  TOTAL_ROOMS_MISMATCH = 'total_rooms_mismatch',
+  BLOCKED_ROOMS_MISMATCH = 'blocked_rooms_mismatch',
+  UNKNOWN_ROOM = 'unknown_room',
+  UNMIGRATED_CALENDAR_ENTRY = 'unmigrated_calendar_entry'
+}
+
+// Reconciliation mode enum
+export enum ReconciliationMode {
+  DRY_RUN = 'dry-run',
+  APPLY = 'apply'
+}
+
+// Reconciliation trigger enum
+export enum ReconciliationTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual'
+}
+
+// Reconciliation status enum
+export enum ReconciliationStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+// Single drift finding
+export interface IDriftIssue {
+  type: DriftType;
+  property: mongoose.Types.ObjectId;
+  room: mongoose.Types.ObjectId;
+  date?: Date;
+  booking?: mongoose.Types.ObjectId;
+  expected?: number | string;
+  actual?: number | string;
+  message: string;
+  repaired: boolean;
+}
+
+// Run statistics
+export interface IReconciliationStats {
+  properties: number;
+  nightsChecked: number;
+  bookingsChecked: number;
+  calendarEntriesChecked: number;
+  issuesFound: number;
+  issuesRepaired: number;
+  oversoldNights: number; // Nights with more units sold than in service; not drift
+}
+
+// InventoryReconciliation interface extending Document
+export interface IInventoryReconciliation extends Document {
+  _id: mongoose.Types.ObjectId;
+  mode: ReconciliationMode;
+  trigger: ReconciliationTrigger;
+  status: ReconciliationStatus;
+  property?: mongoose.Types.ObjectId; // Property reference, unset for all properties
+  startDate: Date;
+  endDate: Date;
+  stats: IReconciliationStats;
+  summary: Record<string, number>;
+  issues: IDriftIssue[];
+  issuesTruncated: boolean;
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+  requestedBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Drift issue schema
+const driftIssueSchema = new Schema<IDriftIssue>({
+  type: {
+    type: String,
+    enum: Object.values(DriftType),
+    required: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  room: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  date: {
+    type: Date
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  expected: {
+    type: Schema.Types.Mixed
+  },
+  actual: {
+    type: Schema.Types.Mixed
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  repaired: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+// InventoryReconciliation schema definition
+const inventoryReconciliationSchema = new Schema<IInventoryReconciliation>({
+  mode: {
+    type: String,
+    enum: Object.values(ReconciliationMode),
+    required: [true, 'Mode is required']
+  },
+  trigger: {
+    type: String,
+    enum: Object.values(ReconciliationTrigger),
+    default: ReconciliationTrigger.MANUAL
+  },
+  status: {
+    type: String,
+    enum: Object.values(ReconciliationStatus),
+    default: ReconciliationStatus.RUNNING,
+    index: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    index: true
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  stats: {
+    properties: { type: Number, default: 0 },
+    nightsChecked: { type: Number, default: 0 },
+    bookingsChecked: { type: Number, default: 0 },
+    calendarEntriesChecked: { type: Number, default: 0 },
+    issuesFound: { type: Number, default: 0 },
+    issuesRepaired: { type: Number, default: 0 },
+    oversoldNights: { type: Number, default: 0 }
+  },
+  summary: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  issues: [driftIssueSchema],
+  issuesTruncated: {
+    type: Boolean,
+    default: false
+  },
+  error: {
+    type: String
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  completedAt: {
+    type: Date
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Latest runs first
+inventoryReconciliationSchema.index({ startedAt: -1 });
+
+// Create and export the model
+const InventoryReconciliation: Model<IInventoryReconciliation> = mongoose.model<IInventoryReconciliation>(
+  'InventoryReconciliation',
+  inventoryReconciliationSchema
+);
+
+export default InventoryReconciliation;
@@ -0,0 +1,381 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { ChargeCategory } from './Folio';
+
+/**
+ * Invoice Model
+ *
+ * A legal invoice or credit note issued for a booking. The document is a
+ * snapshot: issuer, recipient and lines are copied at issue time so later
+ * changes to the organization, the guest or the folio never alter what was
+ * issued. Numbers come from gap-free sequences (see InvoiceSequence) and
+ * issued documents are never edited or deleted; a mistake is corrected by
+ * issuing a credit note against the invoice.
+ */
+
+// Invoice type enum
+export enum InvoiceType {
+  INVOICE = 'invoice',
+  CREDIT_NOTE = 'credit_note'
+}
+
+// Invoice status enum
+export enum InvoiceStatus {
+  ISSUED = 'issued',
+  PARTIALLY_CREDITED = 'partially_credited',
+  CREDITED = 'credited' // Fully cancelled by credit notes
+}
+
+// Postal address printed on the document
+export interface IInvoiceAddress {
+  street?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  postalCode?: string;
+}
+
+// Legal entity issuing the document
+export interface IInvoiceIssuer {
+  name: string;
+  legalName?: string;
+  taxId?: string;
+  registrationNumber?: string;
+  address?: IInvoiceAddress;
+  email?: string;
+  phone?: string;
+  propertyName: string;
+}
+
+// Customer the document is addressed to
+export interface IInvoiceRecipient {
+  name: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  taxId?: string;
+  address?: IInvoiceAddress;
+}
+
+// Invoice line
+export interface IInvoiceLine {
+  description: string;
+  category?: ChargeCategory;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Stored rendering of the document
+export interface IInvoiceFile {
+  filename: string;
+  path: string;
+  url: string;
+  mimetype: string;
+  size: number;
+  generatedAt: Date;
+}
+
+// Email delivery of the document
+export interface IInvoiceDelivery {
+  to: string;
+  sentAt: Date;
+  sentBy?: mongoose.Types.ObjectId; // User reference
+}
+
+// Invoice interface extending Document
+export interface IInvoice extends Document {
+  _id: mongoose.Types.ObjectId;
+  type: InvoiceType;
+  number: string; // Printed number, e.g. INV-2026-000042
+  sequenceKey: string; // InvoiceSequence the number was taken from
+  sequenceNumber: number;
+  status: InvoiceStatus;
+  property: mongoose.Types.ObjectId;      // Property reference
+  organization?: mongoose.Types.ObjectId; // Organization reference
+  booking: mongoose.Types.ObjectId;       // Booking reference
+  folio?: mongoose.Types.ObjectId;        // Folio reference
+  originalInvoice?: mongoose.Types.ObjectId; // Invoice a credit note corrects
+  originalNumber?: string;
+  issuer: IInvoiceIssuer;
+  recipient: IInvoiceRecipient;
+  currency: string;
+  lines: IInvoiceLine[];
+  subtotal: number; // Total before taxes
+  taxTotal: number;
+  total: number;
+  amountPaid: number;
+  balanceDue: number;
+  creditedAmount: number; // Credit notes issued against an invoice
+  stayFrom: Date;
+  stayTo: Date;
+  reason?: string; // Why a credit note was issued
+  notes?: string;
+  files: {
+    html?: IInvoiceFile;
+    pdf?: IInvoiceFile;
+  };
+  deliveries: IInvoiceDelivery[];
+  issuedAt: Date;
+  issuedBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const addressSchema = new Schema<IInvoiceAddress>({
+  street: String,
+  city: String,
+  state: String,
+  country: String,
+  postalCode: String
+}, { _id: false });
+
+const issuerSchema = new Schema<IInvoiceIssuer>({
+  name: {
+    type: String,
+    required: [true, 'Issuer name is required']
+  },
+  legalName: String,
+  taxId: String,
+  registrationNumber: String,
+  address: addressSchema,
+  email: String,
+  phone: String,
+  propertyName: {
+    type: String,
+    required: [true, 'Property name is required']
+  }
+}, { _id: false });
+
+const recipientSchema = new Schema<IInvoiceRecipient>({
+  name: {
+    type: String,
+    required: [true, 'Recipient name is required'],
+    trim: true,
+    maxlength: [200, 'Recipient name cannot exceed 200 characters']
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  phone: String,
+  company: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Company name cannot exceed 200 characters']
+  },
+  taxId: {
+    type: String,
+    trim: true,
+    maxlength: [50, 'Tax ID cannot exceed 50 characters']
+  },
+  address: addressSchema
+}, { _id: false });
+
+const lineSchema = new Schema<IInvoiceLine>({
+  description: {
+    type: String,
+    required: [true, 'Line description is required'],
+    maxlength: [200, 'Line description cannot exceed 200 characters']
+  },
+  category: {
+    type: String,
+    enum: Object.values(ChargeCategory)
+  },
+  quantity: {
+    type: Number,
+    default: 1,
+    min: [0, 'Quantity cannot be negative']
+  },
+  unitPrice: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const fileSchema = new Schema<IInvoiceFile>({
+  filename: { type: String, required: true },
+  path: { type: String, required: true },
+  url: { type: String, required: true },
+  mimetype: { type: String, required: true },
+  size: { type: Number, required: true },
+  generatedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const deliverySchema = new Schema<IInvoiceDelivery>({
+  to: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  },
+  sentBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, { _id: false });
+
+// Invoice schema definition
+const invoiceSchema = new Schema<IInvoice>({
+  type: {
+    type: String,
+    enum: Object.values(InvoiceType),
+    required: [true, 'Invoice type is required']
+  },
+  number: {
+    type: String,
+    required: [true, 'Invoice number is required'],
+    trim: true
+  },
+  sequenceKey: {
+    type: String,
+    required: [true, 'Invoice sequence is required']
+  },
+  sequenceNumber: {
+    type: Number,
+    required: [true, 'Invoice sequence number is required'],
+    min: [1, 'Invoice sequence number must be positive']
+  },
+  status: {
+    type: String,
+    enum: Object.values(InvoiceStatus),
+    default: InvoiceStatus.ISSUED
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property reference is required'],
+    index: true
+  },
+  organization: {
+    type: Schema.Types.ObjectId,
+    ref: 'Organization'
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking reference is required'],
+    index: true
+  },
+  folio: {
+    type: Schema.Types.ObjectId,
+    ref: 'Folio'
+  },
+  originalInvoice: {
+    type: Schema.Types.ObjectId,
+    ref: 'Invoice',
+    index: true
+  },
+  originalNumber: String,
+  issuer: {
+    type: issuerSchema,
+    required: true
+  },
+  recipient: {
+    type: recipientSchema,
+    required: true
+  },
+  currency: {
+    type: String,
+    default: 'USD',
+    uppercase: true
+  },
+  lines: {
+    type: [lineSchema],
+    validate: {
+      validator: (lines: IInvoiceLine[]): boolean => lines.length > 0,
+      message: 'An invoice needs at least one line'
+    }
+  },
+  subtotal: {
+    type: Number,
+    required: true
+  },
+  taxTotal: {
+    type: Number,
+    default: 0
+  },
+  total: {
+    type: Number,
+    required: true
+  },
+  amountPaid: {
+    type: Number,
+    default: 0
+  },
+  balanceDue: {
+    type: Number,
+    default: 0
+  },
+  creditedAmount: {
+    type: Number,
+    default: 0
+  },
+  stayFrom: {
+    type: Date,
+    required: true
+  },
+  stayTo: {
+    type: Date,
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  files: {
+    html: fileSchema,
+    pdf: fileSchema
+  },
+  deliveries: [deliverySchema],
+  issuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  issuedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+invoiceSchema.index({ sequenceKey: 1, sequenceNumber: 1 }, { unique: true }); // One document per number
+invoiceSchema.index({ property: 1, issuedAt: -1 }); // Property invoice register
+// One live invoice per booking; a fully credited one makes way for a new one
+invoiceSchema.index(
+  { booking: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      type: InvoiceType.INVOICE,
+      status: { $in: [InvoiceStatus.ISSUED, InvoiceStatus.PARTIALLY_CREDITED] }
+    }
+  }
+);
+
+// Create and export the model
+const Invoice: Model<IInvoice> = mongoose.model<IInvoice>('Invoice', invoiceSchema);
+
+export default Invoice;
@@ -0,0 +1,84 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { InvoiceType } from './Invoice';
+
+/**
+ * InvoiceSequence Model
+ *
+ * The numbering series of one legal entity (an organization, or a property
+ * without one) for one document type and year. `lastNumber` is the highest
+ * number issued so far. It is advanced only after the invoice holding the
+ * number has been saved, so a failed issue never burns a number; the unique
+ * (sequenceKey, sequenceNumber) index on invoices stops two documents from
+ * taking the same one.
+ */
+
+// Who a numbering series belongs to
+export enum InvoiceSequenceScope {
+  ORGANIZATION = 'organization',
+  PROPERTY = 'property'
+}
+
+// InvoiceSequence interface extending Document
+export interface IInvoiceSequence extends Document {
+  _id: mongoose.Types.ObjectId;
+  key: string; // e.g. organization:<id>:invoice:2026
+  scope: InvoiceSequenceScope;
+  owner: mongoose.Types.ObjectId; // Organization or Property reference
+  type: InvoiceType;
+  year: number;
+  prefix: string;
+  lastNumber: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// InvoiceSequence schema definition
+const invoiceSequenceSchema = new Schema<IInvoiceSequence>({
+  key: {
+    type: String,
+    required: [true, 'Sequence key is required'],
+    unique: true
+  },
+  scope: {
+    type: String,
+    enum: Object.values(InvoiceSequenceScope),
+    required: [true, 'Sequence scope is required']
+  },
+  owner: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Sequence owner is required']
+  },
+  type: {
+    type: String,
+    enum: Object.values(InvoiceType),
+    required: [true, 'Sequence document type is required']
+  },
+  year: {
+    type: Number,
+    required: [true, 'Sequence year is required']
+  },
+  prefix: {
+    type: String,
+    required: [true, 'Sequence prefix is required'],
+    trim: true,
+    uppercase: true
+  },
+  lastNumber: {
+    type: Number,
+    default: 0,
+    min: [0, 'Last number cannot be negative']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Create and export the model
+const InvoiceSequence: Model<IInvoiceSequence> = mongoose.model<IInvoiceSequence>('InvoiceSequence', invoiceSequenceSchema);
+
+export default InvoiceSequence;
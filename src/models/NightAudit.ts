@@ -0,0 +1,190 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * NightAudit Model
+ *
+ * One run of the night audit: confirmed bookings not checked in by the
+ * no-show cutoff are marked no-show, and guests still checked in past their
+ * departure are flagged. Each run stores what it found and did per booking.
+ */
+
+// Night audit trigger enum
+export enum NightAuditTrigger {
+  SCHEDULED = 'scheduled',
+  MANUAL = 'manual'
+}
+
+// Night audit status enum
+export enum NightAuditStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+// Night audit finding enum
+export enum NightAuditAction {
+  NO_SHOW = 'no_show',                     // Marked no-show (or would be, on a dry run)
+  OVERDUE_DEPARTURE = 'overdue_departure', // Still checked in past check-out
+  FAILED = 'failed'                        // Could not be processed, see message
+}
+
+// Single booking the audit acted on
+export interface INightAuditEntry {
+  action: NightAuditAction;
+  property: mongoose.Types.ObjectId;
+  booking: mongoose.Types.ObjectId;
+  guestName: string;
+  checkIn: Date;
+  checkOut: Date;
+  timezone: string;
+  penalty?: number; // No-show charge
+  currency?: string;
+  message?: string;
+}
+
+// Run statistics
+export interface INightAuditStats {
+  properties: number;
+  bookingsChecked: number;
+  noShows: number;
+  overdueDepartures: number;
+  failures: number;
+}
+
+// NightAudit interface extending Document
+export interface INightAudit extends Document {
+  _id: mongoose.Types.ObjectId;
+  trigger: NightAuditTrigger;
+  status: NightAuditStatus;
+  dryRun: boolean;
+  property?: mongoose.Types.ObjectId; // Property reference, unset for all properties
+  auditedAt: Date; // Moment the cutoffs were evaluated against
+  noShowCutoffHours: number;
+  overdueCutoffHours: number;
+  stats: INightAuditStats;
+  entries: INightAuditEntry[];
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+  requestedBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Night audit entry schema
+const nightAuditEntrySchema = new Schema<INightAuditEntry>({
+  action: {
+    type: String,
+    enum: Object.values(NightAuditAction),
+    required: true
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: true
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  guestName: {
+    type: String,
+    required: true
+  },
+  checkIn: {
+    type: Date,
+    required: true
+  },
+  checkOut: {
+    type: Date,
+    required: true
+  },
+  timezone: {
+    type: String,
+    required: true
+  },
+  penalty: {
+    type: Number
+  },
+  currency: {
+    type: String
+  },
+  message: {
+    type: String
+  }
+}, { _id: false });
+
+// NightAudit schema definition
+const nightAuditSchema = new Schema<INightAudit>({
+  trigger: {
+    type: String,
+    enum: Object.values(NightAuditTrigger),
+    default: NightAuditTrigger.MANUAL
+  },
+  status: {
+    type: String,
+    enum: Object.values(NightAuditStatus),
+    default: NightAuditStatus.RUNNING,
+    index: true
+  },
+  dryRun: {
+    type: Boolean,
+    default: false
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    index: true
+  },
+  auditedAt: {
+    type: Date,
+    required: [true, 'Audit time is required']
+  },
+  noShowCutoffHours: {
+    type: Number,
+    required: true
+  },
+  overdueCutoffHours: {
+    type: Number,
+    required: true
+  },
+  stats: {
+    properties: { type: Number, default: 0 },
+    bookingsChecked: { type: Number, default: 0 },
+    noShows: { type: Number, default: 0 },
+    overdueDepartures: { type: Number, default: 0 },
+    failures: { type: Number, default: 0 }
+  },
+  entries: [nightAuditEntrySchema],
+  error: {
+    type: String
+  },
+  startedAt: {
+    type: Date,
+    required: true
+  },
+  completedAt: {
+    type: Date
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Latest runs first
+nightAuditSchema.index({ startedAt: -1 });
+
+// Create and export the model
+const NightAudit: Model<INightAudit> = mongoose.model<INightAudit>('NightAudit', nightAuditSchema);
+
+export default NightAudit;
@@ -0,0 +1,212 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { RoomType } from './Property';
+
+/**
+ * Promotion Model
+ *
+ * A code guests enter when booking direct to take a percentage or a fixed
+ * amount off the room rate. A promotion is redeemable at the properties it
+ * lists, optionally only for some room types, and only within its validity
+ * window, stay dates, advance booking window and minimum stay. Vouchers are
+ * codes meant to be redeemed once. Codes combine on one booking only when
+ * every one of them is stackable.
+ */
+
+// Kind of code
+export enum PromotionType {
+  PROMO_CODE = 'promo_code', // Shared code, e.g. a marketing campaign
+  VOUCHER = 'voucher'        // Code issued to one guest, single use by default
+}
+
+// How the discount is calculated
+export enum PromotionDiscountType {
+  PERCENTAGE = 'percentage', // Percent of the room rate
+  FIXED = 'fixed'            // Money amount off the stay
+}
+
+// Promotion interface extending Document
+export interface IPromotion extends Document {
+  _id: mongoose.Types.ObjectId;
+  code: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  discountType: PromotionDiscountType;
+  amount: number; // Percent for percentage discounts, otherwise a money amount
+  currency?: string; // Currency of a fixed amount
+  properties: mongoose.Types.ObjectId[]; // Property references
+  roomTypes: RoomType[]; // Empty for every room type
+  validFrom?: Date; // Redeemable from (booking date)
+  validTo?: Date; // Redeemable until (booking date)
+  stayFrom?: Date; // First night the discount covers
+  stayTo?: Date; // Last night the discount covers
+  minDaysInAdvance?: number; // Booked at least this many days before check-in
+  maxDaysInAdvance?: number; // Booked at most this many days before check-in
+  minNights?: number;
+  maxUses?: number; // Redemptions of the code in total
+  maxUsesPerGuest?: number; // Redemptions per guest email
+  usageCount: number;
+  stackable: boolean; // May be combined with other stackable codes
+  active: boolean;
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isRedeemableOn(date: Date): boolean;
+}
+
+// Promotion schema definition
+const promotionSchema = new Schema<IPromotion>({
+  code: {
+    type: String,
+    required: [true, 'Code is required'],
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z0-9_-]{3,32}$/, 'Code must be 3 to 32 letters, digits, dashes or underscores']
+  },
+  name: {
+    type: String,
+    required: [true, 'Promotion name is required'],
+    trim: true,
+    maxlength: [100, 'Promotion name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  type: {
+    type: String,
+    enum: Object.values(PromotionType),
+    default: PromotionType.PROMO_CODE
+  },
+  discountType: {
+    type: String,
+    enum: Object.values(PromotionDiscountType),
+    required: [true, 'Discount type is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0, 'Amount cannot be negative']
+  },
+  currency: {
+    type: String,
+    uppercase: true,
+    length: [3, 'Currency must be 3 characters']
+  },
+  properties: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Property' }],
+    validate: {
+      validator: (properties: mongoose.Types.ObjectId[]): boolean => properties.length > 0,
+      message: 'At least one property is required'
+    }
+  },
+  roomTypes: [{
+    type: String,
+    enum: Object.values(RoomType)
+  }],
+  validFrom: {
+    type: Date
+  },
+  validTo: {
+    type: Date
+  },
+  stayFrom: {
+    type: Date
+  },
+  stayTo: {
+    type: Date
+  },
+  minDaysInAdvance: {
+    type: Number,
+    min: [0, 'Minimum days in advance cannot be negative']
+  },
+  maxDaysInAdvance: {
+    type: Number,
+    min: [0, 'Maximum days in advance cannot be negative']
+  },
+  minNights: {
+    type: Number,
+    min: [1, 'Minimum nights must be at least 1']
+  },
+  maxUses: {
+    type: Number,
+    min: [1, 'Maximum uses must be at least 1']
+  },
+  maxUsesPerGuest: {
+    type: Number,
+    min: [1, 'Maximum uses per guest must be at least 1']
+  },
+  usageCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Usage count cannot be negative']
+  },
+  stackable: {
+    type: Boolean,
+    default: false
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+promotionSchema.index({ code: 1 }, { unique: true });
+promotionSchema.index({ properties: 1, active: 1 });
+
+// Fixed amounts need a currency, vouchers are single use unless told otherwise
+promotionSchema.pre('validate', function(next) {
+  if (this.discountType === PromotionDiscountType.PERCENTAGE && this.amount > 100) {
+    this.invalidate('amount', 'Percentage cannot exceed 100');
+  }
+
+  if (this.discountType === PromotionDiscountType.FIXED && !this.currency) {
+    this.invalidate('currency', 'Currency is required for a fixed discount');
+  }
+
+  if (this.type === PromotionType.VOUCHER && this.maxUses === undefined) {
+    this.maxUses = 1;
+  }
+
+  if (this.validFrom && this.validTo && this.validTo < this.validFrom) {
+    this.invalidate('validTo', 'Valid to date must be after valid from date');
+  }
+
+  if (this.stayFrom && this.stayTo && this.stayTo < this.stayFrom) {
+    this.invalidate('stayTo', 'Stay to date must be after stay from date');
+  }
+
+  if (this.minDaysInAdvance !== undefined && this.maxDaysInAdvance !== undefined &&
+    this.maxDaysInAdvance < this.minDaysInAdvance) {
+    this.invalidate('maxDaysInAdvance', 'Maximum days in advance must not be below the minimum');
+  }
+
+  next();
+});
+
+// Instance method to check the code can be redeemed on a booking date
+promotionSchema.methods.isRedeemableOn = function(this: IPromotion, date: Date): boolean {
+  return this.active &&
+    (!this.validFrom || this.validFrom <= date) &&
+    (!this.validTo || this.validTo >= date);
+};
+
+// Create and export the model
+const Promotion: Model<IPromotion> = mongoose.model<IPromotion>('Promotion', promotionSchema);
+
+export default Promotion;
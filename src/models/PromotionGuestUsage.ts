@@ -0,0 +1,59 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * PromotionGuestUsage Model
+ *
+ * How many uses of a promotion code one guest holds. Redemption takes a use
+ * with a conditional increment, so concurrent bookings by the same guest
+ * cannot both get past the code's per-guest limit; releasing a redemption
+ * gives the use back.
+ */
+
+// PromotionGuestUsage interface extending Document
+export interface IPromotionGuestUsage extends Document {
+  _id: mongoose.Types.ObjectId;
+  promotion: mongoose.Types.ObjectId; // Promotion reference
+  guestEmail: string;
+  usageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// PromotionGuestUsage schema definition
+const promotionGuestUsageSchema = new Schema<IPromotionGuestUsage>({
+  promotion: {
+    type: Schema.Types.ObjectId,
+    ref: 'Promotion',
+    required: [true, 'Promotion is required']
+  },
+  guestEmail: {
+    type: String,
+    required: [true, 'Guest email is required'],
+    lowercase: true,
+    trim: true
+  },
+  usageCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Usage count cannot be negative']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// One counter per code and guest
+promotionGuestUsageSchema.index({ promotion: 1, guestEmail: 1 }, { unique: true });
+
+// Create and export the model
+const PromotionGuestUsage: Model<IPromotionGuestUsage> = mongoose.model<IPromotionGuestUsage>(
+  'PromotionGuestUsage',
+  promotionGuestUsageSchema
+);
+
+export default PromotionGuestUsage;
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * PromotionRedemption Model
+ *
+ * One use of a promotion code on a booking, with the discount it gave. A
+ * cancelled booking releases its redemptions, which gives the use back to
+ * the code's and the guest's limits.
+ */
+
+// Redemption status enum
+export enum RedemptionStatus {
+  REDEEMED = 'redeemed',
+  RELEASED = 'released'
+}
+
+// PromotionRedemption interface extending Document
+export interface IPromotionRedemption extends Document {
+  _id: mongoose.Types.ObjectId;
+  promotion: mongoose.Types.ObjectId; // Promotion reference
+  code: string;
+  booking: mongoose.Types.ObjectId; // Booking reference
+  property: mongoose.Types.ObjectId; // Property reference
+  guestEmail: string;
+  discount: number;
+  currency: string;
+  status: RedemptionStatus;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// PromotionRedemption schema definition
+const promotionRedemptionSchema = new Schema<IPromotionRedemption>({
+  promotion: {
+    type: Schema.Types.ObjectId,
+    ref: 'Promotion',
+    required: [true, 'Promotion is required']
+  },
+  code: {
+    type: String,
+    required: [true, 'Code is required'],
+    uppercase: true
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking is required']
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property is required']
+  },
+  guestEmail: {
+    type: String,
+    required: [true, 'Guest email is required'],
+    lowercase: true,
+    trim: true
+  },
+  discount: {
+    type: Number,
+    required: [true, 'Discount is required'],
+    min: [0, 'Discount cannot be negative']
+  },
+  currency: {
+    type: String,
+    required: [true, 'Currency is required'],
+    uppercase: true,
+    length: [3, 'Currency must be 3 characters']
+  },
+  status: {
+    type: String,
+    enum: Object.values(RedemptionStatus),
+    default: RedemptionStatus.REDEEMED
+  },
+  releasedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+promotionRedemptionSchema.index({ promotion: 1, guestEmail: 1, status: 1 });
+promotionRedemptionSchema.index({ booking: 1 });
+promotionRedemptionSchema.index({ property: 1, createdAt: -1 });
+
+// Create and export the model
+const PromotionRedemption: Model<IPromotionRedemption> = mongoose.model<IPromotionRedemption>(
+  'PromotionRedemption',
+  promotionRedemptionSchema
+);
+
+export default PromotionRedemption;
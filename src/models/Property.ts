@@ -54,6 +54,7 @@ export interface IRoom {
   bedType?: string;
   smokingAllowed?: boolean;
   petFriendly?: boolean;
+  totalUnits?: number; // sellable units of this room type
 }
 
 // Address interface
@@ -74,6 +75,7 @@ export interface IAddress {
 
 // Property interface extending Document
 export interface IProperty extends Document {
+  _id: mongoose.Types.ObjectId;
   name: string;
   description: string;
   propertyType: PropertyType;
@@ -200,6 +202,10 @@ const roomSchema = new Schema<IRoom>({
   petFriendly: {
     type: Boolean,
     default: false
+  },
+  totalUnits: {
+    type: Number,
+    min: [1, 'Total units must be at least 1']
   }
 }, { _id: true });
 
@@ -61,6 +61,17 @@ export interface IAdvanceBookingDiscount {
   discountValue: number;
 }
 
+// Cancellation penalty: a number of nights, a percentage of the stay or a fixed amount
+export interface ICancellationPenalty {
+  penaltyType: 'nights' | 'percentage' | 'fixed';
+  penaltyValue: number;
+}
+
+// Cancellation rule: the penalty for cancelling within a number of hours of check-in
+export interface ICancellationRule extends ICancellationPenalty {
+  hoursBeforeCheckIn: number;
+}
+
 // Rate plan interface extending Document
 export interface IRatePlan extends Document {
   property: mongoose.Types.ObjectId; // Property reference
@@ -73,6 +84,8 @@ export interface IRatePlan extends Document {
   isRefundable: boolean;
   cancellationPolicy: CancellationPolicy;
   customCancellationPolicy?: string;
+  cancellationRules?: ICancellationRule[]; // Structured terms of a custom policy
+  noShowPenalty?: ICancellationPenalty;
   minStay: number;
   maxStay?: number;
   includesBreakfast: boolean;
@@ -204,6 +217,39 @@ const advanceBookingDiscountSchema = new Schema<IAdvanceBookingDiscount>({
   }
 }, { _id: false });
 
+// Cancellation rule schema
+const cancellationRuleSchema = new Schema<ICancellationRule>({
+  hoursBeforeCheckIn: {
+    type: Number,
+    required: true,
+    min: [0, 'Hours before check-in cannot be negative']
+  },
+  penaltyType: {
+    type: String,
+    enum: ['nights', 'percentage', 'fixed'],
+    required: true
+  },
+  penaltyValue: {
+    type: Number,
+    required: true,
+    min: [0, 'Penalty value cannot be negative']
+  }
+}, { _id: false });
+
+// No-show penalty schema
+const cancellationPenaltySchema = new Schema<ICancellationPenalty>({
+  penaltyType: {
+    type: String,
+    enum: ['nights', 'percentage', 'fixed'],
+    required: true
+  },
+  penaltyValue: {
+    type: Number,
+    required: true,
+    min: [0, 'Penalty value cannot be negative']
+  }
+}, { _id: false });
+
 // Rate plan schema definition
 const ratePlanSchema = new Schema<IRatePlan>({
   property: {
@@ -264,6 +310,8 @@ const ratePlanSchema = new Schema<IRatePlan>({
     trim: true,
     maxlength: [1000, 'Custom cancellation policy cannot exceed 1000 characters']
   },
+  cancellationRules: [cancellationRuleSchema],
+  noShowPenalty: cancellationPenaltySchema,
   minStay: {
     type: Number,
     required: [true, 'Minimum stay is required'],
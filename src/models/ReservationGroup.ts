@@ -0,0 +1,158 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { BookingChannel } from './Booking';
+
+/**
+ * ReservationGroup Model
+ *
+ * Ties several room stays (one Booking each) together under one lead guest,
+ * confirmation code and folio, e.g. a family taking two room types or a
+ * wedding block. Each room keeps its own booking, inventory claim and status,
+ * so single rooms can be cancelled or modified without touching the rest.
+ */
+
+// Group status enum, derived from the status of its bookings
+export enum ReservationGroupStatus {
+  ACTIVE = 'active',                           // No room cancelled
+  PARTIALLY_CANCELLED = 'partially_cancelled', // Some rooms cancelled
+  CANCELLED = 'cancelled'                      // Every room cancelled
+}
+
+// Lead guest, the contact for the whole group
+export interface ILeadGuest {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string;
+}
+
+// Group folio: one bill for every room of the group
+export interface IGroupFolio {
+  currency: string;
+  total: number; // Totals of the rooms that are not cancelled plus penalties of those that are
+}
+
+// ReservationGroup interface extending Document
+export interface IReservationGroup extends Document {
+  _id: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId; // Property reference
+  name?: string;
+  confirmationCode: string;
+  leadGuest: ILeadGuest;
+  channel: BookingChannel;
+  status: ReservationGroupStatus;
+  bookings: mongoose.Types.ObjectId[]; // Booking references, one per room
+  folio: IGroupFolio;
+  notes?: string;
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const leadGuestSchema = new Schema<ILeadGuest>({
+  firstName: {
+    type: String,
+    required: [true, 'Lead guest first name is required'],
+    trim: true,
+    maxlength: [50, 'First name cannot exceed 50 characters']
+  },
+  lastName: {
+    type: String,
+    required: [true, 'Lead guest last name is required'],
+    trim: true,
+    maxlength: [50, 'Last name cannot exceed 50 characters']
+  },
+  email: {
+    type: String,
+    required: [true, 'Lead guest email is required'],
+    trim: true,
+    lowercase: true
+  },
+  phone: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+const groupFolioSchema = new Schema<IGroupFolio>({
+  currency: {
+    type: String,
+    default: 'USD',
+    uppercase: true
+  },
+  total: {
+    type: Number,
+    default: 0,
+    min: [0, 'Folio total cannot be negative']
+  }
+}, { _id: false });
+
+// ReservationGroup schema definition
+const reservationGroupSchema = new Schema<IReservationGroup>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property reference is required'],
+    index: true
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Group name cannot exceed 100 characters']
+  },
+  confirmationCode: {
+    type: String,
+    required: [true, 'Confirmation code is required'],
+    unique: true,
+    trim: true
+  },
+  leadGuest: {
+    type: leadGuestSchema,
+    required: [true, 'Lead guest is required']
+  },
+  channel: {
+    type: String,
+    enum: Object.values(BookingChannel),
+    default: BookingChannel.DIRECT
+  },
+  status: {
+    type: String,
+    enum: Object.values(ReservationGroupStatus),
+    default: ReservationGroupStatus.ACTIVE,
+    index: true
+  },
+  bookings: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  }],
+  folio: {
+    type: groupFolioSchema,
+    default: (): Partial<IGroupFolio> => ({})
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    index: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+reservationGroupSchema.index({ property: 1, createdAt: -1 }); // Property groups
+reservationGroupSchema.index({ 'leadGuest.email': 1 }); // Guest search
+
+// Create and export the model
+const ReservationGroup: Model<IReservationGroup> = mongoose.model<IReservationGroup>('ReservationGroup', reservationGroupSchema);
+
+export default ReservationGroup;
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { BlockReason } from './Calendar';
 
 /**
  * RoomAvailability Model
@@ -11,6 +12,18 @@ import mongoose, { Document, Schema } from 'mongoose';
  * - These same 4 rooms are listed on Airbnb, Booking.com, Expedia, etc.
  * - When 1 room is booked on Airbnb, availability drops to 3 on ALL channels
  * - This prevents overbooking (the core purpose of a Channel Manager)
+ * 
+ * Allotments & overbooking:
+ * - A channel with an allotment may sell at most `limit` units of the shared pool
+ *   (e.g. Booking.com gets 2 of the 4 suites, direct sells the rest)
+ * - `overbookingLimit` lets the pool deliberately sell past totalRooms
+ *
+ * Stay restrictions:
+ * - `minStay` is the min-stay-through (every night of a stay), `minStayArrival`
+ *   only applies to stays arriving on the date
+ * - CTA/CTD close the date to arrivals/departures, min/max advance limit how far
+ *   ahead an arrival on the date may be booked
+ * - `channelRestrictions` override any of these for a single channel
  */
 
 export enum AvailabilityStatus {
@@ -19,6 +32,9 @@ export enum AvailabilityStatus {
   MAINTENANCE = 'maintenance'  // Under maintenance
 }
 
+// Rate entry applied to channels without their own rate
+export const ALL_CHANNELS_RATE = 'all';
+
 export interface IChannelBooking {
   channel: string;         // 'airbnb', 'booking', 'expedia', etc.
   bookingId: mongoose.Types.ObjectId;
@@ -26,6 +42,31 @@ export interface IChannelBooking {
   bookedAt: Date;
 }
 
+export interface IRoomHold {
+  holdId: mongoose.Types.ObjectId;  // InventoryHold reference
+  channel: string;
+  expiresAt: Date;
+}
+
+export interface IChannelAllotment {
+  channel: string;
+  limit: number;           // Max units this channel may sell on the date
+}
+
+export interface IStayRestrictions {
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+  minStayArrival?: number;  // Min nights for stays arriving on the date
+  minStayThrough?: number;  // Min nights for stays that include the date
+  maxStay?: number;
+  minAdvanceDays?: number;  // Arrival must be booked at least this many days ahead
+  maxAdvanceDays?: number;  // Arrival may be booked at most this many days ahead
+}
+
+export interface IChannelRestriction extends IStayRestrictions {
+  channel: string;
+}
+
 export interface IChannelRate {
   channel: string;
   rate: number;
@@ -33,6 +74,7 @@ export interface IChannelRate {
 }
 
 export interface IRoomAvailability extends Document {
+  _id: mongoose.Types.ObjectId;
   property: mongoose.Types.ObjectId;
   room: mongoose.Types.ObjectId;      // Room type reference
   date: Date;
@@ -40,18 +82,31 @@ export interface IRoomAvailability extends Document {
   // Shared inventory across all channels
   totalRooms: number;                 // Total physical rooms (e.g., 4)
   bookedRooms: IChannelBooking[];     // Array of bookings from any channel
+  heldRooms: IRoomHold[];             // Units held for guests in checkout
   blockedRooms: number;               // Rooms blocked for maintenance, etc.
+  overbookingLimit: number;           // Extra units that may be sold beyond totalRooms
   
   // Calculated availability
-  availableRooms: number;             // totalRooms - bookedRooms.length - blockedRooms
+  availableRooms: number;             // totalRooms + overbookingLimit - bookedRooms.length - heldRooms.length - blockedRooms
+  
+  // Per-channel allotments (channels without an entry sell from the shared pool)
+  allotments: IChannelAllotment[];
   
   // Channel-specific rates (same inventory, different prices)
   rates: IChannelRate[];
   
   // Restrictions
-  minStay: number;
+  minStay: number;                    // Min-stay-through
   maxStay: number;
+  minStayArrival?: number;
+  closedToArrival: boolean;
+  closedToDeparture: boolean;
+  minAdvanceDays?: number;
+  maxAdvanceDays?: number;
+  channelRestrictions: IChannelRestriction[];
   status: AvailabilityStatus;
+  blockReason?: BlockReason;
+  blockDescription?: string;
   
   // Close-out settings
   closedChannels: string[];           // Channels where booking is closed
@@ -87,6 +142,51 @@ const channelBookingSchema = new Schema<IChannelBooking>({
   }
 }, { _id: false });
 
+const roomHoldSchema = new Schema<IRoomHold>({
+  holdId: {
+    type: Schema.Types.ObjectId,
+    ref: 'InventoryHold',
+    required: true
+  },
+  channel: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
+const channelAllotmentSchema = new Schema<IChannelAllotment>({
+  channel: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  limit: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const channelRestrictionSchema = new Schema<IChannelRestriction>({
+  channel: {
+    type: String,
+    required: true,
+    lowercase: true
+  },
+  closedToArrival: Boolean,
+  closedToDeparture: Boolean,
+  minStayArrival: { type: Number, min: 1 },
+  minStayThrough: { type: Number, min: 1 },
+  maxStay: { type: Number, min: 1 },
+  minAdvanceDays: { type: Number, min: 0 },
+  maxAdvanceDays: { type: Number, min: 0 }
+}, { _id: false });
+
 const channelRateSchema = new Schema<IChannelRate>({
   channel: {
     type: String,
@@ -134,18 +234,31 @@ const roomAvailabilitySchema = new Schema<IRoomAvailability>({
     type: [channelBookingSchema],
     default: []
   },
+  heldRooms: {
+    type: [roomHoldSchema],
+    default: []
+  },
   blockedRooms: {
     type: Number,
     default: 0,
     min: 0
   },
+  overbookingLimit: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   availableRooms: {
     type: Number,
     required: true,
     default: function(this: any) {
-      return this.totalRooms - (this.bookedRooms?.length || 0) - (this.blockedRooms || 0);
+      return this.totalRooms + (this.overbookingLimit || 0) - (this.bookedRooms?.length || 0) - (this.heldRooms?.length || 0) - (this.blockedRooms || 0);
     }
   },
+  allotments: {
+    type: [channelAllotmentSchema],
+    default: []
+  },
   rates: {
     type: [channelRateSchema],
     default: []
@@ -160,11 +273,44 @@ const roomAvailabilitySchema = new Schema<IRoomAvailability>({
     default: 30,
     min: 1
   },
+  minStayArrival: {
+    type: Number,
+    min: 1
+  },
+  closedToArrival: {
+    type: Boolean,
+    default: false
+  },
+  closedToDeparture: {
+    type: Boolean,
+    default: false
+  },
+  minAdvanceDays: {
+    type: Number,
+    min: 0
+  },
+  maxAdvanceDays: {
+    type: Number,
+    min: 0
+  },
+  channelRestrictions: {
+    type: [channelRestrictionSchema],
+    default: []
+  },
   status: {
     type: String,
     enum: Object.values(AvailabilityStatus),
     default: AvailabilityStatus.OPEN
   },
+  blockReason: {
+    type: String,
+    enum: Object.values(BlockReason)
+  },
+  blockDescription: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Block description cannot exceed 500 characters']
+  },
   closedChannels: {
     type: [String],
     default: []
@@ -188,6 +334,7 @@ roomAvailabilitySchema.index(
 // Index for efficient queries
 roomAvailabilitySchema.index({ property: 1, date: 1 });
 roomAvailabilitySchema.index({ date: 1, status: 1 });
+roomAvailabilitySchema.index({ 'heldRooms.holdId': 1 });
 
 // Virtual for id
 roomAvailabilitySchema.virtual('id').get(function(this: IRoomAvailability) {
@@ -196,7 +343,7 @@ roomAvailabilitySchema.virtual('id').get(function(this: IRoomAvailability) {
 
 // Pre-save middleware to calculate availableRooms
 roomAvailabilitySchema.pre('save', function(next) {
-  this.availableRooms = this.totalRooms - this.bookedRooms.length - this.blockedRooms;
+  this.availableRooms = this.totalRooms + this.overbookingLimit - this.bookedRooms.length - this.heldRooms.length - this.blockedRooms;
   
   // Ensure availableRooms doesn't go negative
   if (this.availableRooms < 0) {
@@ -214,6 +361,9 @@ declare module './RoomAvailability' {
     addBooking(channel: string, bookingId: mongoose.Types.ObjectId, guestName?: string): Promise<void>;
     removeBooking(bookingId: mongoose.Types.ObjectId): Promise<void>;
     getBookingsByChannel(channel: string): IChannelBooking[];
+    getSoldForChannel(channel: string): number;
+    getAvailableForChannel(channel: string): number;
+    getRestrictionsForChannel(channel: string): IStayRestrictions;
   }
 }
 
@@ -223,7 +373,9 @@ roomAvailabilitySchema.methods.isAvailable = function(this: IRoomAvailability):
 };
 
 roomAvailabilitySchema.methods.getRateForChannel = function(this: IRoomAvailability, channel: string): number | undefined {
-  const channelRate = this.rates.find(r => r.channel === channel);
+  // Fall back to the base rate shared by every channel
+  const channelRate = this.rates.find(r => r.channel === channel) ??
+    this.rates.find(r => r.channel === ALL_CHANNELS_RATE);
   return channelRate?.rate;
 };
 
@@ -238,9 +390,9 @@ roomAvailabilitySchema.methods.addBooking = async function(
     throw new Error('No availability for this date');
   }
   
-  // Check if channel is closed
-  if (this.closedChannels.includes(channel)) {
-    throw new Error(`Booking is closed on ${channel}`);
+  // Check if channel is closed or has used up its allotment
+  if (this.getAvailableForChannel(channel) <= 0) {
+    throw new Error(`No availability on ${channel} for this date`);
   }
   
   // Add booking
@@ -273,6 +425,45 @@ roomAvailabilitySchema.methods.getBookingsByChannel = function(this: IRoomAvaila
   return this.bookedRooms.filter(b => b.channel === channel);
 };
 
+// Units sold or held on a channel (counts against its allotment)
+roomAvailabilitySchema.methods.getSoldForChannel = function(this: IRoomAvailability, channel: string): number {
+  return this.bookedRooms.filter(b => b.channel === channel).length +
+    this.heldRooms.filter(h => h.channel === channel).length;
+};
+
+// Units a channel can still sell: shared pool capped by the channel's allotment
+roomAvailabilitySchema.methods.getAvailableForChannel = function(this: IRoomAvailability, channel: string): number {
+  if (this.status !== AvailabilityStatus.OPEN || this.closedChannels.includes(channel)) {
+    return 0;
+  }
+
+  const pool = Math.max(0, this.availableRooms);
+  const allotment = this.allotments.find(a => a.channel === channel);
+  if (!allotment) {
+    return pool;
+  }
+
+  return Math.max(0, Math.min(pool, allotment.limit - this.getSoldForChannel(channel)));
+};
+
+// Restrictions in force for a channel: its own overrides, then the date's defaults
+roomAvailabilitySchema.methods.getRestrictionsForChannel = function(
+  this: IRoomAvailability,
+  channel: string
+): IStayRestrictions {
+  const override = this.channelRestrictions?.find(r => r.channel === channel);
+
+  return {
+    closedToArrival: override?.closedToArrival ?? this.closedToArrival ?? false,
+    closedToDeparture: override?.closedToDeparture ?? this.closedToDeparture ?? false,
+    minStayArrival: override?.minStayArrival ?? this.minStayArrival,
+    minStayThrough: override?.minStayThrough ?? this.minStay,
+    maxStay: override?.maxStay ?? this.maxStay,
+    minAdvanceDays: override?.minAdvanceDays ?? this.minAdvanceDays,
+    maxAdvanceDays: override?.maxAdvanceDays ?? this.maxAdvanceDays
+  };
+};
+
 // Static methods
 roomAvailabilitySchema.statics.getAvailabilityForDateRange = async function(
   propertyId: string,
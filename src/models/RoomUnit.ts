@@ -0,0 +1,138 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { BlockReason } from './Calendar';
+
+/**
+ * RoomUnit Model
+ *
+ * A physical, numbered unit (e.g. room 101) of a room type on a property.
+ * Active units make up the room type's totalRooms; units taken out of service
+ * for a period are what RoomAvailability.blockedRooms counts on those nights.
+ */
+
+// Unit status enum
+export enum UnitStatus {
+  ACTIVE = 'active',         // Part of the sellable inventory
+  INACTIVE = 'inactive'      // Decommissioned, no longer counted
+}
+
+// Period a unit cannot be sold (end date exclusive)
+export interface IOutOfServicePeriod {
+  _id: mongoose.Types.ObjectId;
+  startDate: Date;
+  endDate: Date;
+  reason: BlockReason;
+  description?: string;
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+}
+
+// RoomUnit interface extending Document
+export interface IRoomUnit extends Document {
+  _id: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId; // Property reference
+  room: mongoose.Types.ObjectId; // Room type reference
+  number: string;
+  floor?: number;
+  status: UnitStatus;
+  outOfService: IOutOfServicePeriod[];
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isOutOfService(date: Date): boolean;
+  overlapsOutOfService(startDate: Date, endDate: Date): boolean;
+}
+
+const outOfServicePeriodSchema = new Schema<IOutOfServicePeriod>({
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  reason: {
+    type: String,
+    enum: Object.values(BlockReason),
+    default: BlockReason.MAINTENANCE
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: true });
+
+// RoomUnit schema definition
+const roomUnitSchema = new Schema<IRoomUnit>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property reference is required'],
+    index: true
+  },
+  room: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Room type reference is required']
+  },
+  number: {
+    type: String,
+    required: [true, 'Unit number is required'],
+    trim: true,
+    maxlength: [20, 'Unit number cannot exceed 20 characters']
+  },
+  floor: {
+    type: Number
+  },
+  status: {
+    type: String,
+    enum: Object.values(UnitStatus),
+    default: UnitStatus.ACTIVE
+  },
+  outOfService: {
+    type: [outOfServicePeriodSchema],
+    default: []
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Unit numbers are unique within a property
+roomUnitSchema.index({ property: 1, number: 1 }, { unique: true });
+roomUnitSchema.index({ property: 1, room: 1, status: 1 });
+
+// Instance method to check a single night
+roomUnitSchema.methods.isOutOfService = function(this: IRoomUnit, date: Date): boolean {
+  return this.outOfService.some(period => period.startDate <= date && period.endDate > date);
+};
+
+// Instance method to check a stay (end date exclusive)
+roomUnitSchema.methods.overlapsOutOfService = function(this: IRoomUnit, startDate: Date, endDate: Date): boolean {
+  return this.outOfService.some(period => period.startDate < endDate && period.endDate > startDate);
+};
+
+// Create and export the model
+const RoomUnit: Model<IRoomUnit> = mongoose.model<IRoomUnit>('RoomUnit', roomUnitSchema);
+
+export default RoomUnit;
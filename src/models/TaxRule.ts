@@ -0,0 +1,210 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * TaxRule Model
+ *
+ * A tax or fee levied on stays, attached either to one property or to a
+ * region (country, optionally narrowed to a state and city) that applies to
+ * every property whose address lies in it. Each rule feeds one field of the
+ * booking's pricing breakdown (city tax, tourism tax, cleaning fee, service
+ * fee, or a named other fee).
+ */
+
+// What the rule adds to the pricing
+export enum TaxRuleKind {
+  TAX = 'tax',
+  FEE = 'fee'
+}
+
+// Breakdown field the rule is itemised under
+export enum TaxRuleCategory {
+  CITY_TAX = 'city_tax',
+  TOURISM_TAX = 'tourism_tax',
+  CLEANING_FEE = 'cleaning_fee',
+  SERVICE_FEE = 'service_fee',
+  OTHER = 'other'           // Listed by name in breakdown.otherFees
+}
+
+// How the amount is calculated
+export enum TaxRuleCalculation {
+  PERCENTAGE = 'percentage',                       // Percent of the room rate
+  PER_PERSON_PER_NIGHT = 'per_person_per_night',
+  PER_NIGHT = 'per_night',
+  PER_STAY = 'per_stay'
+}
+
+// Kind implied by the named categories
+export const CATEGORY_KINDS: Record<Exclude<TaxRuleCategory, TaxRuleCategory.OTHER>, TaxRuleKind> = {
+  [TaxRuleCategory.CITY_TAX]: TaxRuleKind.TAX,
+  [TaxRuleCategory.TOURISM_TAX]: TaxRuleKind.TAX,
+  [TaxRuleCategory.CLEANING_FEE]: TaxRuleKind.FEE,
+  [TaxRuleCategory.SERVICE_FEE]: TaxRuleKind.FEE
+};
+
+// Region a rule applies to; an omitted state or city covers all of them
+export interface ITaxRegion {
+  country: string;
+  state?: string;
+  city?: string;
+}
+
+// TaxRule interface extending Document
+export interface ITaxRule extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  property?: mongoose.Types.ObjectId; // Property reference
+  region?: ITaxRegion;
+  kind: TaxRuleKind;
+  category: TaxRuleCategory;
+  calculation: TaxRuleCalculation;
+  amount: number; // Percent for percentage rules, otherwise a money amount
+  currency?: string; // Currency of a money amount
+  inclusive: boolean; // Already contained in the room rate
+  maxNights?: number; // Nights charged at most
+  exemptChildren: boolean; // Children and infants are not counted as persons
+  exemptFromNights?: number; // Stays of at least this many nights are exempt
+  validFrom?: Date;
+  validTo?: Date;
+  active: boolean;
+  createdBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  isValidOn(date: Date): boolean;
+}
+
+const regionSchema = new Schema<ITaxRegion>({
+  country: {
+    type: String,
+    required: [true, 'Country is required'],
+    trim: true,
+    maxlength: [100, 'Country cannot exceed 100 characters']
+  },
+  state: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'State cannot exceed 100 characters']
+  },
+  city: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'City cannot exceed 100 characters']
+  }
+}, { _id: false });
+
+// TaxRule schema definition
+const taxRuleSchema = new Schema<ITaxRule>({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property'
+  },
+  region: {
+    type: regionSchema
+  },
+  kind: {
+    type: String,
+    enum: Object.values(TaxRuleKind),
+    required: [true, 'Rule kind is required']
+  },
+  category: {
+    type: String,
+    enum: Object.values(TaxRuleCategory),
+    required: [true, 'Rule category is required']
+  },
+  calculation: {
+    type: String,
+    enum: Object.values(TaxRuleCalculation),
+    required: [true, 'Calculation is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    min: [0, 'Amount cannot be negative']
+  },
+  currency: {
+    type: String,
+    uppercase: true,
+    length: [3, 'Currency must be 3 characters']
+  },
+  inclusive: {
+    type: Boolean,
+    default: false
+  },
+  maxNights: {
+    type: Number,
+    min: [1, 'Maximum nights must be at least 1']
+  },
+  exemptChildren: {
+    type: Boolean,
+    default: false
+  },
+  exemptFromNights: {
+    type: Number,
+    min: [1, 'Exemption must start at 1 night or more']
+  },
+  validFrom: {
+    type: Date
+  },
+  validTo: {
+    type: Date
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+taxRuleSchema.index({ property: 1, active: 1 });
+taxRuleSchema.index({ 'region.country': 1, active: 1 });
+
+// A rule belongs to exactly one property or region; named categories fix the kind
+taxRuleSchema.pre('validate', function(next) {
+  if (Boolean(this.property) === Boolean(this.region)) {
+    this.invalidate('property', 'A rule applies to either a property or a region');
+  }
+
+  if (this.category !== TaxRuleCategory.OTHER) {
+    this.kind = CATEGORY_KINDS[this.category];
+  }
+
+  if (this.calculation === TaxRuleCalculation.PERCENTAGE && this.amount > 100) {
+    this.invalidate('amount', 'Percentage cannot exceed 100');
+  }
+
+  if (this.validFrom && this.validTo && this.validTo < this.validFrom) {
+    this.invalidate('validTo', 'Valid to date must be after valid from date');
+  }
+
+  next();
+});
+
+// Instance method to check the rule is in force for a check-in date
+taxRuleSchema.methods.isValidOn = function(this: ITaxRule, date: Date): boolean {
+  return this.active &&
+    (!this.validFrom || this.validFrom <= date) &&
+    (!this.validTo || this.validTo >= date);
+};
+
+// Create and export the model
+const TaxRule: Model<ITaxRule> = mongoose.model<ITaxRule>('TaxRule', taxRuleSchema);
+
+export default TaxRule;
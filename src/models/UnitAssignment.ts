@@ -0,0 +1,105 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * UnitAssignment Model
+ *
+ * Places a booking in a physical unit for part or all of its stay (end date
+ * exclusive). A stay normally has one assignment; a room move ends the
+ * current assignment and starts a new one in the target unit.
+ */
+
+// Assignment method enum
+export enum AssignmentMethod {
+  AUTO = 'auto',
+  MANUAL = 'manual',
+  MOVE = 'move'
+}
+
+// UnitAssignment interface extending Document
+export interface IUnitAssignment extends Document {
+  _id: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId; // Property reference
+  room: mongoose.Types.ObjectId; // Room type reference
+  unit: mongoose.Types.ObjectId; // RoomUnit reference
+  booking: mongoose.Types.ObjectId; // Booking reference
+  startDate: Date;
+  endDate: Date;
+  method: AssignmentMethod;
+  locked: boolean; // Auto-assignment never moves locked assignments
+  movedFrom?: mongoose.Types.ObjectId; // RoomUnit reference
+  reason?: string;
+  assignedBy?: mongoose.Types.ObjectId; // User reference
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// UnitAssignment schema definition
+const unitAssignmentSchema = new Schema<IUnitAssignment>({
+  property: {
+    type: Schema.Types.ObjectId,
+    ref: 'Property',
+    required: [true, 'Property reference is required']
+  },
+  room: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'Room type reference is required']
+  },
+  unit: {
+    type: Schema.Types.ObjectId,
+    ref: 'RoomUnit',
+    required: [true, 'Unit reference is required']
+  },
+  booking: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: [true, 'Booking reference is required'],
+    index: true
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  method: {
+    type: String,
+    enum: Object.values(AssignmentMethod),
+    default: AssignmentMethod.AUTO
+  },
+  locked: {
+    type: Boolean,
+    default: false
+  },
+  movedFrom: {
+    type: Schema.Types.ObjectId,
+    ref: 'RoomUnit'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  assignedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Overlap lookups per unit and per room type
+unitAssignmentSchema.index({ unit: 1, startDate: 1, endDate: 1 });
+unitAssignmentSchema.index({ property: 1, room: 1, startDate: 1 });
+
+// Create and export the model
+const UnitAssignment: Model<IUnitAssignment> = mongoose.model<IUnitAssignment>('UnitAssignment', unitAssignmentSchema);
+
+export default UnitAssignment;
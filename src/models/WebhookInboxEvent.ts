@@ -0,0 +1,185 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * WebhookInboxEvent Model
+ *
+ * An inbound OTA webhook, stored as soon as its signature is verified and
+ * before anything is done with it. The inbox worker processes it with
+ * retries and backoff; an event that keeps failing is dead-lettered until
+ * an admin replays or discards it. A reservation for a listing that is not
+ * in the channel mapping registry, or for a property the signing channel is
+ * not connected to, is parked instead of retried.
+ */
+
+// Inbox event status enum
+export enum WebhookInboxStatus {
+  PENDING = 'pending',                 // Waiting for its (next) attempt
+  PROCESSING = 'processing',           // Claimed by a worker
+  PROCESSED = 'processed',
+  NEEDS_ATTENTION = 'needs_attention', // Parked until its listing is mapped
+  DEAD_LETTER = 'dead_letter',         // Out of attempts
+  DISCARDED = 'discarded'              // Dropped by an admin
+}
+
+// Failed processing attempt
+export interface IWebhookAttemptError {
+  attempt: number;
+  message: string;
+  failedAt: Date;
+}
+
+// WebhookInboxEvent interface extending Document
+export interface IWebhookInboxEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  provider: string; // OTA provider the webhook was posted for
+  event: string; // Event type from the payload, e.g. booking.created
+  channel?: mongoose.Types.ObjectId; // Channel whose secret signed it
+  payload: Record<string, unknown>;
+  payloadHash: string; // SHA-256 of the raw body; OTA redeliveries are stored once
+  status: WebhookInboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lockedUntil?: Date; // Processing lease; an expired lease is claimed again
+  lastError?: string;
+  attemptErrors: IWebhookAttemptError[];
+  receivedAt: Date;
+  processedAt?: Date;
+  deadLetteredAt?: Date;
+  discardedAt?: Date;
+  discardedBy?: mongoose.Types.ObjectId;
+  discardReason?: string;
+  replayCount: number;
+  lastReplayedAt?: Date;
+  lastReplayedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Failed attempt schema
+const attemptErrorSchema = new Schema<IWebhookAttemptError>({
+  attempt: {
+    type: Number,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  failedAt: {
+    type: Date,
+    required: true
+  }
+}, { _id: false });
+
+// WebhookInboxEvent schema definition
+const webhookInboxEventSchema = new Schema<IWebhookInboxEvent>({
+  provider: {
+    type: String,
+    required: [true, 'Provider is required'],
+    lowercase: true,
+    index: true
+  },
+  event: {
+    type: String,
+    required: [true, 'Event type is required'],
+    default: 'unknown'
+  },
+  channel: {
+    type: Schema.Types.ObjectId,
+    ref: 'Channel'
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Payload is required']
+  },
+  payloadHash: {
+    type: String,
+    required: [true, 'Payload hash is required']
+  },
+  status: {
+    type: String,
+    enum: Object.values(WebhookInboxStatus),
+    default: WebhookInboxStatus.PENDING,
+    index: true
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: [true, 'Maximum attempts is required'],
+    min: 1
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedUntil: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  attemptErrors: {
+    type: [attemptErrorSchema],
+    default: []
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  },
+  processedAt: {
+    type: Date
+  },
+  deadLetteredAt: {
+    type: Date
+  },
+  discardedAt: {
+    type: Date
+  },
+  discardedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  discardReason: {
+    type: String,
+    trim: true
+  },
+  replayCount: {
+    type: Number,
+    default: 0
+  },
+  lastReplayedAt: {
+    type: Date
+  },
+  lastReplayedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(_doc, ret) {
+      delete ret['__v'];
+      return ret;
+    }
+  }
+});
+
+// Redelivery lookup
+webhookInboxEventSchema.index({ provider: 1, payloadHash: 1 }, { unique: true });
+
+// Worker lookups
+webhookInboxEventSchema.index({ status: 1, nextAttemptAt: 1 });
+webhookInboxEventSchema.index({ status: 1, lockedUntil: 1 });
+
+// Admin listing
+webhookInboxEventSchema.index({ receivedAt: -1 });
+
+// Create and export the model
+const WebhookInboxEvent: Model<IWebhookInboxEvent> = mongoose.model<IWebhookInboxEvent>('WebhookInboxEvent', webhookInboxEventSchema);
+
+export default WebhookInboxEvent;
@@ -301,6 +301,64 @@ router.get('/trends/occupancy', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/v1/analytics/promotions
+ * Get promotion code redemptions, discounts given and the revenue of the bookings that used them
+ *
+ * Query params:
+ * - range: TimeRange
+ * - propertyId: Optional property filter
+ * - startDate: Required if range=custom
+ * - endDate: Required if range=custom
+ */
+router.get('/promotions', async (req: Request, res: Response) => {
+  try {
+    const { range = TimeRange.LAST_30_DAYS, propertyId, startDate, endDate } = req.query;
+
+    // Validate time range
+    if (!Object.values(TimeRange).includes(range as TimeRange)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid time range. Must be one of: ${Object.values(TimeRange).join(', ')}`
+      });
+    }
+
+    // Validate custom range
+    if (range === TimeRange.CUSTOM && (!startDate || !endDate)) {
+      return res.status(400).json({
+        success: false,
+        error: 'startDate and endDate are required for custom time range'
+      });
+    }
+
+    logger.info(`[Analytics] Getting promotion performance for range: ${range}, propertyId: ${propertyId || 'all'}`);
+
+    const promotionPerformance = await analyticsService.getPromotionPerformance(
+      range as TimeRange,
+      propertyId as string | undefined,
+      startDate ? new Date(startDate as string) : undefined,
+      endDate ? new Date(endDate as string) : undefined
+    );
+
+    return res.json({
+      success: true,
+      data: promotionPerformance,
+      metadata: {
+        range,
+        propertyId: propertyId || null,
+        generatedAt: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    logger.error('[Analytics] Error getting promotion performance:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve promotion performance',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * GET /api/v1/analytics/dashboard
  * Get comprehensive dashboard summary with all key metrics
@@ -1,8 +1,13 @@
 import { Router } from 'express';
 import BookingController from '../controllers/bookingController';
+import RoomUnitController from '../controllers/roomUnitController';
+import ReservationGroupController from '../controllers/reservationGroupController';
+import FolioController from '../controllers/folioController';
+import InvoiceController from '../controllers/invoiceController';
+import ExtraController from '../controllers/extraController';
 import { authenticate, authorize } from '../middleware/auth';
 import { ValidationMiddleware } from '../middleware/validation';
-import { checkBookingOwnership, checkPropertyAccess } from '../middleware/ownership';
+import { checkBookingOwnership, checkPropertyAccess, checkReservationGroupOwnership } from '../middleware/ownership';
 import { Role } from '../models/User';
 
 const router = Router();
@@ -12,6 +17,39 @@ const router = Router();
  * All routes require authentication
  */
 
+// Group (multi-room) reservation routes
+router.post(
+  '/groups/availability',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyAccess,  // ✅ SECURITY: Verify user can book for this property
+  ReservationGroupController.checkAvailability
+);
+
+router.post(
+  '/groups',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyAccess,  // ✅ SECURITY: Verify user can create bookings for this property
+  ReservationGroupController.createGroup
+);
+
+router.get(
+  '/groups/:groupId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkReservationGroupOwnership,  // ✅ SECURITY: Verify user owns/manages the group's property
+  ReservationGroupController.getGroup
+);
+
+router.post(
+  '/groups/:groupId/cancel',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkReservationGroupOwnership,  // ✅ SECURITY: Verify user owns/manages the group's property
+  ReservationGroupController.cancelGroup
+);
+
 // Public routes (authenticated users only)
 router.get('/stats', authenticate, BookingController.getBookingStats);
 router.get('/date-range', authenticate, BookingController.getBookingsByDateRange);
@@ -39,7 +77,33 @@ router.put(
   BookingController.updateBooking
 );
 
+router.post(
+  '/:id/modify',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  ValidationMiddleware.validateBooking.modify,
+  BookingController.modifyBooking
+);
+
 // Booking status management routes
+router.patch(
+  '/:id/status',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  ValidationMiddleware.validateBooking.status,
+  BookingController.updateBookingStatus
+);
+
+router.get(
+  '/:id/cancellation-quote',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  BookingController.getCancellationQuote
+);
+
 router.patch(
   '/:id/cancel',
   authenticate,
@@ -64,6 +128,122 @@ router.patch(
   BookingController.checkOutBooking
 );
 
+// Unit assignment routes
+router.get(
+  '/:id/units',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  RoomUnitController.getBookingAssignments
+);
+
+router.patch(
+  '/:id/unit',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  RoomUnitController.assignUnit
+);
+
+router.post(
+  '/:id/room-move',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  RoomUnitController.moveBooking
+);
+
+// Folio (guest bill) routes; adjustments, voids and closing are admin only
+router.get(
+  '/:id/folio',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.getFolio
+);
+
+router.post(
+  '/:id/folio/charges',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.postCharge
+);
+
+router.post(
+  '/:id/folio/payments',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.recordPayment
+);
+
+router.post(
+  '/:id/folio/refunds',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.refund
+);
+
+router.post(
+  '/:id/folio/adjustments',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.adjust
+);
+
+router.post(
+  '/:id/folio/transactions/:transactionId/void',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.voidTransaction
+);
+
+router.post(
+  '/:id/folio/close',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  FolioController.closeFolio
+);
+
+// Extras added to or removed from a booking after it was made
+router.post(
+  '/:id/extras',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  ExtraController.addBookingExtras
+);
+
+router.delete(
+  '/:id/extras/:lineId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  ExtraController.removeBookingExtra
+);
+
+// Invoice routes; credit notes and downloads live under /invoices
+router.get(
+  '/:id/invoices',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  InvoiceController.getBookingInvoices
+);
+
+router.post(
+  '/:id/invoices',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkBookingOwnership,  // ✅ SECURITY: Verify user owns/manages the booking's property
+  InvoiceController.issueInvoice
+);
+
 export default router;
 
 
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import ChannelMappingController from '../controllers/channelMappingController';
+import { authenticate, authorize } from '../middleware/auth';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Channel Mapping Routes
+ * External property, room type and rate plan IDs per OTA. All routes
+ * require authentication and an admin role
+ */
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelMappingController.getMappings
+);
+
+// Room types of a channel's properties that still need a mapping
+router.get(
+  '/coverage/:channelId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelMappingController.getChannelCoverage
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelMappingController.getMapping
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelMappingController.createMapping
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelMappingController.updateMapping
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelMappingController.deleteMapping
+);
+
+export default router;
@@ -11,6 +11,21 @@ const router = Router();
  * All routes require authentication
  */
 
+// Outbound availability and rate push queue (declared before '/:id')
+router.get(
+  '/ari-queue',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  ChannelController.getAriQueueStatus
+);
+
+router.get(
+  '/:id/ari-queue',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  ChannelController.getAriQueueStatus
+);
+
 // Public routes (authenticated users only)
 router.get('/property/:propertyId', authenticate, ChannelController.getChannelsByProperty);
 router.get('/:id/performance', authenticate, ChannelController.getChannelPerformance);
@@ -50,6 +65,13 @@ router.delete(
   ChannelController.deleteChannel
 );
 
+router.post(
+  '/:id/rotate-secret',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  ChannelController.rotateChannelSecret
+);
+
 // Channel operations routes
 router.post(
   '/:id/test-connection',
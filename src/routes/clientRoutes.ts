@@ -29,6 +29,7 @@ router.get('/overview', clientController.getOverview);
  * @query   status - Filter by status (confirmed, pending, cancelled)
  * @query   from - Filter by check-in date (ISO date)
  * @query   to - Filter by check-out date (ISO date)
+ * @query   group - Filter by reservation group ID
  * @query   page - Page number (default: 1)
  * @query   size - Page size (default: 10)
  */
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import ExchangeRateController from '../controllers/exchangeRateController';
+import { authenticate, authorize } from '../middleware/auth';
+import { csvUpload, handleUploadError } from '../middleware/upload';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Exchange Rate Routes
+ * Dated exchange-rate tables shared by all properties. All routes require
+ * authentication, loading rates is superadmin only
+ */
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  ExchangeRateController.getRates
+);
+
+router.get(
+  '/convert',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  ExchangeRateController.convert
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.SUPERADMIN]),
+  ExchangeRateController.importTable
+);
+
+router.post(
+  '/import',
+  authenticate,
+  authorize([Role.SUPERADMIN]),
+  csvUpload.single('file'),
+  handleUploadError,
+  ExchangeRateController.importCsv
+);
+
+export default router;
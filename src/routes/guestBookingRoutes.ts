@@ -1,12 +1,17 @@
 import express from 'express';
 import { GuestBookingController } from '../controllers/guestBookingController';
 import PropertyController from '../controllers/propertyController';
+import { GuestSelfServiceController } from '../controllers/guestSelfServiceController';
+import { authenticateGuest } from '../middleware/guestAccess';
+import { guestAccessRateLimit } from '../middleware/rateLimiting';
 
 const router = express.Router();
 
 /**
  * Guest Booking Routes
- * No authentication required - public endpoints for guest bookings
+ * No authentication required - public endpoints for guest bookings.
+ * Managing a booking needs its confirmation code plus the guest's email
+ * or a signed booking link.
  */
 
 // Get all active properties (public access for guest booking)
@@ -15,14 +20,69 @@ router.get('/properties', PropertyController.getAllProperties);
 // Get property by ID (public access for guest booking)
 router.get('/properties/:id', PropertyController.getPropertyById);
 
+// Get the extras a property sells (breakfast, parking, transfers...)
+router.get('/properties/:id/extras', GuestBookingController.getExtras);
+
 // Check availability for a property and room
 router.post('/check-availability', GuestBookingController.checkAvailability);
 
-// Create a guest booking
+// Check availability for several rooms at once
+router.post('/groups/check-availability', GuestBookingController.checkGroupAvailability);
+
+// Hold a room while the guest completes checkout
+router.post('/holds', GuestBookingController.createHold);
+
+// Get hold status
+router.get('/holds/:token', GuestBookingController.getHold);
+
+// Release a hold
+router.delete('/holds/:token', GuestBookingController.releaseHold);
+
+// Create a guest booking (pass holdToken to convert an active hold)
 router.post('/bookings', GuestBookingController.createBooking);
 
+// Create a guest booking for several rooms
+router.post('/groups', GuestBookingController.createGroupBooking);
+
+// Get a multi-room booking by group confirmation code
+router.get('/groups/:confirmationCode', GuestBookingController.getGroupBooking);
+
 // Get booking by confirmation code
 router.get('/bookings/:confirmationCode', GuestBookingController.getBooking);
 
-export default router;
+// Email the guest a signed link to manage the booking
+router.post('/bookings/:confirmationCode/link', guestAccessRateLimit, GuestSelfServiceController.requestLink);
+
+// View the booking, what can still change and what cancelling costs
+router.get(
+  '/bookings/:confirmationCode/manage',
+  guestAccessRateLimit,
+  authenticateGuest,  // ✅ SECURITY: Verify guest owns the booking (email or signed link)
+  GuestSelfServiceController.getBooking
+);
+
+// Cancel the booking within its cancellation policy
+router.patch(
+  '/bookings/:confirmationCode/cancel',
+  guestAccessRateLimit,
+  authenticateGuest,  // ✅ SECURITY: Verify guest owns the booking (email or signed link)
+  GuestSelfServiceController.cancelBooking
+);
 
+// Change dates or guest count, subject to availability and repricing
+router.patch(
+  '/bookings/:confirmationCode/stay',
+  guestAccessRateLimit,
+  authenticateGuest,  // ✅ SECURITY: Verify guest owns the booking (email or signed link)
+  GuestSelfServiceController.changeStay
+);
+
+// Update arrival time and special requests
+router.patch(
+  '/bookings/:confirmationCode/details',
+  guestAccessRateLimit,
+  authenticateGuest,  // ✅ SECURITY: Verify guest owns the booking (email or signed link)
+  GuestSelfServiceController.updateDetails
+);
+
+export default router;
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import GuestController from '../controllers/guestController';
+import { authenticate, authorize } from '../middleware/auth';
+import { checkGuestOwnership } from '../middleware/ownership';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Guest Profile Routes
+ * All routes require authentication and a staff role
+ */
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  GuestController.searchGuests
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.getGuest
+);
+
+router.patch(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.updateGuest
+);
+
+router.get(
+  '/:id/stays',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.getStayHistory
+);
+
+router.get(
+  '/:id/duplicates',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.getDuplicates
+);
+
+router.post(
+  '/:id/merge',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.mergeGuests
+);
+
+router.patch(
+  '/:id/tags',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.updateTags
+);
+
+router.post(
+  '/:id/notes',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.addNote
+);
+
+router.delete(
+  '/:id/notes/:noteId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkGuestOwnership,  // ✅ SECURITY: Verify user owns/manages a property of the guest
+  GuestController.removeNote
+);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import InventoryControllerV2 from '../controllers/inventoryControllerV2';
+import InventoryReconciliationController from '../controllers/inventoryReconciliationController';
 import { authenticate, authorize } from '../middleware/auth';
 import { Role } from '../models/User';
 
@@ -30,6 +31,29 @@ router.patch(
   InventoryControllerV2.bulkUpdate
 );
 
+// Inventory drift reports
+router.get(
+  '/reconciliation',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  InventoryReconciliationController.getRuns
+);
+
+router.get(
+  '/reconciliation/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  InventoryReconciliationController.getRun
+);
+
+// Run the drift check now (dry-run unless apply is set)
+router.post(
+  '/reconciliation',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  InventoryReconciliationController.runReconciliation
+);
+
 // Webhook endpoint for booking updates
 router.post(
   '/booking-update',
@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import InvoiceController from '../controllers/invoiceController';
+import { authenticate, authorize } from '../middleware/auth';
+import { checkInvoiceOwnership } from '../middleware/ownership';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Invoice Routes
+ * Invoices are issued from a booking (POST /bookings/:id/invoices);
+ * all routes require authentication, credit notes are admin only
+ */
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkInvoiceOwnership,  // ✅ SECURITY: Verify user owns/manages the invoice's property
+  InvoiceController.getInvoice
+);
+
+// Rendered document (?format=pdf|html)
+router.get(
+  '/:id/download',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkInvoiceOwnership,  // ✅ SECURITY: Verify user owns/manages the invoice's property
+  InvoiceController.downloadInvoice
+);
+
+router.post(
+  '/:id/send',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkInvoiceOwnership,  // ✅ SECURITY: Verify user owns/manages the invoice's property
+  InvoiceController.sendInvoice
+);
+
+router.post(
+  '/:id/credit-notes',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkInvoiceOwnership,  // ✅ SECURITY: Verify user owns/manages the invoice's property
+  InvoiceController.issueCreditNote
+);
+
+export default router;
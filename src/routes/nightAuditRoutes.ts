@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import NightAuditController from '../controllers/nightAuditController';
+import { authenticate, authorize } from '../middleware/auth';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Night Audit Routes
+ * All routes require authentication and an admin role
+ */
+
+// Night audit reports
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  NightAuditController.getRuns
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  NightAuditController.getRun
+);
+
+// Run the night audit now (or preview it with dryRun)
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  NightAuditController.runAudit
+);
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import PromotionController from '../controllers/promotionController';
+import { authenticate, authorize } from '../middleware/auth';
+import { checkPromotionOwnership } from '../middleware/ownership';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Promotion Routes
+ * Promotion codes and vouchers for direct bookings. All routes require
+ * authentication; admins manage the promotions of their own properties
+ */
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  PromotionController.getPromotions
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPromotionOwnership,  // ✅ SECURITY: Verify user owns/manages the promotion's properties
+  PromotionController.createPromotion
+);
+
+router.get(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPromotionOwnership,  // ✅ SECURITY: Verify user owns/manages the promotion's properties
+  PromotionController.getPromotion
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPromotionOwnership,  // ✅ SECURITY: Verify user owns/manages the promotion's properties
+  PromotionController.updatePromotion
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPromotionOwnership,  // ✅ SECURITY: Verify user owns/manages the promotion's properties
+  PromotionController.deletePromotion
+);
+
+router.get(
+  '/:id/redemptions',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPromotionOwnership,  // ✅ SECURITY: Verify user owns/manages the promotion's properties
+  PromotionController.getRedemptions
+);
+
+export default router;
@@ -1,5 +1,8 @@
 import { Router } from 'express';
 import PropertyController from '../controllers/propertyController';
+import RoomUnitController from '../controllers/roomUnitController';
+import TaxRuleController from '../controllers/taxRuleController';
+import ExtraController from '../controllers/extraController';
 import { authenticate, authorize } from '../middleware/auth';
 import { ValidationMiddleware } from '../middleware/validation';
 import { checkPropertyOwnership } from '../middleware/ownership';
@@ -55,6 +58,138 @@ router.delete(
   PropertyController.deleteProperty
 );
 
+// Physical unit routes (Admin, Superadmin, and Supervisor)
+router.get(
+  '/:id/units',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.getUnits
+);
+
+router.get(
+  '/:id/units/assignments',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.getAssignments
+);
+
+router.post(
+  '/:id/units/auto-assign',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.autoAssign
+);
+
+router.post(
+  '/:id/units',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.createUnit
+);
+
+router.put(
+  '/:id/units/:unitId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.updateUnit
+);
+
+router.post(
+  '/:id/units/:unitId/out-of-service',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.addOutOfService
+);
+
+router.delete(
+  '/:id/units/:unitId/out-of-service/:periodId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  RoomUnitController.removeOutOfService
+);
+
+// Tax and fee rules of the property
+router.get(
+  '/:id/tax-rules',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  TaxRuleController.getRules
+);
+
+// Rules in force on a check-in date (?date=YYYY-MM-DD), region rules included
+router.get(
+  '/:id/tax-rules/applicable',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  TaxRuleController.getApplicableRules
+);
+
+router.post(
+  '/:id/tax-rules',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  TaxRuleController.createRule
+);
+
+router.put(
+  '/:id/tax-rules/:ruleId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  TaxRuleController.updateRule
+);
+
+router.delete(
+  '/:id/tax-rules/:ruleId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  TaxRuleController.deleteRule
+);
+
+// Extras sold with the property's stays (?includeInactive=true lists those off sale too)
+router.get(
+  '/:id/extras',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN, Role.SUPERVISOR]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  ExtraController.getExtras
+);
+
+router.post(
+  '/:id/extras',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  ExtraController.createExtra
+);
+
+router.put(
+  '/:id/extras/:extraId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  ExtraController.updateExtra
+);
+
+router.delete(
+  '/:id/extras/:extraId',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  checkPropertyOwnership,  // ✅ SECURITY: Verify user owns/manages this property
+  ExtraController.deleteExtra
+);
+
 export default router;
 
 
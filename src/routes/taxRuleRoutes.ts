@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import TaxRuleController from '../controllers/taxRuleController';
+import { authenticate, authorize } from '../middleware/auth';
+import { Role } from '../models/User';
+
+const router = Router();
+
+/**
+ * Tax Rule Routes
+ * Region-wide tax and fee rules; a property's own rules are managed under
+ * /properties/:id/tax-rules. All routes require authentication, changes are
+ * superadmin only since a region spans properties of different owners
+ */
+
+router.get(
+  '/',
+  authenticate,
+  authorize([Role.ADMIN, Role.SUPERADMIN]),
+  TaxRuleController.getRules
+);
+
+router.post(
+  '/',
+  authenticate,
+  authorize([Role.SUPERADMIN]),
+  TaxRuleController.createRule
+);
+
+router.put(
+  '/:ruleId',
+  authenticate,
+  authorize([Role.SUPERADMIN]),
+  TaxRuleController.updateRule
+);
+
+router.delete(
+  '/:ruleId',
+  authenticate,
+  authorize([Role.SUPERADMIN]),
+  TaxRuleController.deleteRule
+);
+
+export default router;
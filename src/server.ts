@@ -1,6 +1,15 @@
 import http from 'http';
 import app from './app';
 import { websocketService } from './services/websocketService';
+import { inventoryHoldService } from './services/inventoryHoldService';
+import { inventoryReconciliationService } from './services/inventoryReconciliationService';
+import { nightAuditService } from './services/nightAuditService';
+import guestCommunicationService from './services/GuestCommunicationService';
+import { reservationGroupService } from './services/reservationGroupService';
+import { folioService } from './services/folioService';
+import { guestProfileService } from './services/guestProfileService';
+import { webhookInboxService } from './services/webhookInboxService';
+import { ariPushQueueService } from './services/ariPushQueueService';
 import { logger } from './config/logger';
 
 const PORT = process.env['PORT'] || 3000;
@@ -20,6 +29,34 @@ if (NODE_ENV !== 'test') {
     logger.info(`🏥 Health Check: http://localhost:${PORT}/health`);
     logger.info(`🔌 WebSocket enabled for real-time updates`);
   });
+
+  // Give back inventory held by abandoned guest checkouts
+  inventoryHoldService.startSweeper();
+
+  // Detect (and optionally repair) drift between bookings and inventory
+  inventoryReconciliationService.startScheduler();
+
+  // Mark no-shows and flag overdue departures on each property's clock
+  nightAuditService.startScheduler();
+
+  // Process stored OTA webhooks, retrying failures until they are dead-lettered
+  webhookInboxService.startWorker();
+
+  // Queue inventory and rate changes for every connected channel and push them
+  ariPushQueueService.subscribeToInventoryEvents();
+  ariPushQueueService.startWorker();
+
+  // Email guests when their bookings change
+  guestCommunicationService.subscribeToBookingEvents();
+
+  // Keep group status and folio in step with single-room changes
+  reservationGroupService.subscribeToBookingEvents();
+
+  // Post repricing of modified bookings to their folios
+  folioService.subscribeToBookingEvents();
+
+  // Keep guest stay history and lifetime value current
+  guestProfileService.subscribeToBookingEvents();
 }
 
 export default httpServer;
@@ -1,8 +1,11 @@
-import Booking, { BookingStatus, BookingChannel } from '../models/Booking';
+import Booking, { IBooking, BookingStatus, BookingChannel } from '../models/Booking';
 import Property, { PropertyStatus } from '../models/Property';
-import Calendar, { CalendarStatus } from '../models/Calendar';
+import PromotionRedemption, { IPromotionRedemption, RedemptionStatus } from '../models/PromotionRedemption';
+import { ExtraCategory } from '../models/Extra';
+import { inventoryRepository } from './inventoryRepository';
+import { exchangeRateService, ICurrencyConverter } from './exchangeRateService';
 import { logger } from '../config/logger';
-import mongoose from 'mongoose';
+import mongoose, { FilterQuery } from 'mongoose';
 
 /**
  * Analytics time range options
@@ -23,6 +26,8 @@ export enum TimeRange {
  */
 export interface RevenueBreakdown {
   total: number;
+  extras: number; // Extras booked with the stays, part of the total
+  byExtraCategory: Record<ExtraCategory, number>;
   byChannel: Record<BookingChannel, number>;
   byStatus: Record<BookingStatus, number>;
   byProperty: Array<{ propertyId: string; propertyName: string; revenue: number }>;
@@ -61,6 +66,23 @@ export interface BookingStatistics {
   currency: string;
 }
 
+/**
+ * Promotion performance interface
+ */
+export interface PromotionPerformance {
+  redemptions: number;
+  totalDiscount: number;
+  bookingRevenue: number; // Revenue of the bookings that redeemed a code
+  byPromotion: Array<{
+    promotionId: string;
+    code: string;
+    redemptions: number;
+    discount: number;
+    bookingRevenue: number;
+  }>;
+  currency: string;
+}
+
 /**
  * Trend data point interface
  */
@@ -73,6 +95,9 @@ export interface TrendDataPoint {
 /**
  * Analytics Service
  * Provides comprehensive analytics and reporting functionality
+ *
+ * Money is reported in one currency (the organization's by default), each
+ * booking converted at the exchange rate of its check-in date.
  */
 class AnalyticsService {
   /**
@@ -143,7 +168,8 @@ class AnalyticsService {
     range: TimeRange = TimeRange.LAST_30_DAYS,
     propertyId?: string,
     customStart?: Date,
-    customEnd?: Date
+    customEnd?: Date,
+    currency?: string
   ): Promise<RevenueBreakdown> {
     try {
       const { startDate, endDate } = this.getDateRange(range, customStart, customEnd);
@@ -163,23 +189,42 @@ class AnalyticsService {
       // Get all bookings in range
       const bookings = await Booking.find(query).populate('property', 'name');
 
+      // Booking totals in the reporting currency
+      const converter = await this.getConverter(propertyId, currency);
+      const revenueOf = await this.convertTotals(bookings, converter);
+
       // Calculate total revenue
-      const total = bookings.reduce((sum, booking) => sum + booking.pricing.total, 0);
+      const total = this.round(bookings.reduce((sum, booking) => sum + revenueOf(booking), 0));
+
+      // Extras revenue, a separate line within the total
+      const byExtraCategory: Record<ExtraCategory, number> = {} as Record<ExtraCategory, number>;
+      Object.values(ExtraCategory).forEach(category => {
+        byExtraCategory[category] = 0;
+      });
+      for (const booking of bookings) {
+        for (const line of booking.extras) {
+          byExtraCategory[line.category] += await converter.convert(line.amount, booking.pricing.currency, booking.checkIn);
+        }
+      }
+      Object.values(ExtraCategory).forEach(category => {
+        byExtraCategory[category] = this.round(byExtraCategory[category]);
+      });
+      const extras = this.round(Object.values(byExtraCategory).reduce((sum, revenue) => sum + revenue, 0));
 
       // Revenue by channel
       const byChannel: Record<BookingChannel, number> = {} as Record<BookingChannel, number>;
       Object.values(BookingChannel).forEach(channel => {
-        byChannel[channel] = bookings
+        byChannel[channel] = this.round(bookings
           .filter(b => b.channel === channel)
-          .reduce((sum, b) => sum + b.pricing.total, 0);
+          .reduce((sum, b) => sum + revenueOf(b), 0));
       });
 
       // Revenue by status
       const byStatus: Record<BookingStatus, number> = {} as Record<BookingStatus, number>;
       Object.values(BookingStatus).forEach(status => {
-        byStatus[status] = bookings
+        byStatus[status] = this.round(bookings
           .filter(b => b.status === status)
-          .reduce((sum, b) => sum + b.pricing.total, 0);
+          .reduce((sum, b) => sum + revenueOf(b), 0));
       });
 
       // Revenue by property
@@ -194,9 +239,9 @@ class AnalyticsService {
         const propName = (booking.property as any).name || 'Unknown Property';
 
         if (propertyRevenue.has(propId)) {
-          propertyRevenue.get(propId)!.revenue += booking.pricing.total;
+          propertyRevenue.get(propId)!.revenue += revenueOf(booking);
         } else {
-          propertyRevenue.set(propId, { name: propName, revenue: booking.pricing.total });
+          propertyRevenue.set(propId, { name: propName, revenue: revenueOf(booking) });
         }
       });
 
@@ -204,19 +249,18 @@ class AnalyticsService {
         .map(([propertyId, data]) => ({
           propertyId,
           propertyName: data.name,
-          revenue: data.revenue
+          revenue: this.round(data.revenue)
         }))
         .sort((a, b) => b.revenue - a.revenue);
 
-      // Determine currency (use most common or default to USD)
-      const currency = bookings.length > 0 ? bookings[0].pricing.currency : 'USD';
-
       return {
         total,
+        extras,
+        byExtraCategory,
         byChannel,
         byStatus,
         byProperty,
-        currency
+        currency: converter.currency
       };
     } catch (error) {
       logger.error('[Analytics] Error calculating revenue breakdown:', error);
@@ -238,43 +282,36 @@ class AnalyticsService {
 
       logger.info(`[Analytics] Calculating occupancy metrics from ${startDate.toISOString()} to ${endDate.toISOString()}`);
 
-      // Build query
-      const query: any = {
+      // Get all inventory nights in range (occupancy is measured in room-nights)
+      const nights = await inventoryRepository.findNights({
+        propertyId,
         date: { $gte: startDate, $lte: endDate }
-      };
-
-      if (propertyId) {
-        query.property = new mongoose.Types.ObjectId(propertyId);
-      }
-
-      // Get all calendar entries in range
-      const calendarEntries = await Calendar.find(query).populate('property', 'name');
+      });
 
-      const totalNights = calendarEntries.length;
-      const bookedNights = calendarEntries.filter(entry => entry.status === CalendarStatus.BOOKED).length;
+      const totalNights = nights.reduce((sum, night) => sum + night.totalRooms, 0);
+      const bookedNights = nights.reduce((sum, night) => sum + night.bookedRooms.length, 0);
       const availableNights = totalNights - bookedNights;
       const occupancyRate = totalNights > 0 ? (bookedNights / totalNights) * 100 : 0;
 
       // Occupancy by property
+      const properties = await Property.find({ _id: { $in: [...new Set(nights.map(n => n.property.toString()))] } }).select('name');
+      const propertyNames = new Map(properties.map(p => [p._id.toString(), p.name]));
       const propertyOccupancy = new Map<string, { name: string; booked: number; total: number }>();
 
-      calendarEntries.forEach(entry => {
-        const propId = entry.property.toString();
-        const propName = (entry.property as any).name || 'Unknown Property';
+      nights.forEach(night => {
+        const propId = night.property.toString();
 
-        if (propertyOccupancy.has(propId)) {
-          const data = propertyOccupancy.get(propId)!;
-          data.total++;
-          if (entry.status === CalendarStatus.BOOKED) {
-            data.booked++;
-          }
-        } else {
+        if (!propertyOccupancy.has(propId)) {
           propertyOccupancy.set(propId, {
-            name: propName,
-            booked: entry.status === CalendarStatus.BOOKED ? 1 : 0,
-            total: 1
+            name: propertyNames.get(propId) || 'Unknown Property',
+            booked: 0,
+            total: 0
           });
         }
+
+        const data = propertyOccupancy.get(propId)!;
+        data.total += night.totalRooms;
+        data.booked += night.bookedRooms.length;
       });
 
       const byProperty = Array.from(propertyOccupancy.entries())
@@ -307,7 +344,8 @@ class AnalyticsService {
     range: TimeRange = TimeRange.LAST_30_DAYS,
     propertyId?: string,
     customStart?: Date,
-    customEnd?: Date
+    customEnd?: Date,
+    currency?: string
   ): Promise<BookingStatistics> {
     try {
       const { startDate, endDate } = this.getDateRange(range, customStart, customEnd);
@@ -337,7 +375,9 @@ class AnalyticsService {
       const revenueBookings = bookings.filter(b =>
         [BookingStatus.CONFIRMED, BookingStatus.CHECKED_IN, BookingStatus.CHECKED_OUT].includes(b.status)
       );
-      const totalRevenue = revenueBookings.reduce((sum, b) => sum + b.pricing.total, 0);
+      const converter = await this.getConverter(propertyId, currency);
+      const revenueOf = await this.convertTotals(revenueBookings, converter);
+      const totalRevenue = revenueBookings.reduce((sum, b) => sum + revenueOf(b), 0);
       const averageBookingValue = revenueBookings.length > 0 ? totalRevenue / revenueBookings.length : 0;
 
       // Average stay duration
@@ -353,8 +393,6 @@ class AnalyticsService {
         byChannel[channel] = bookings.filter(b => b.channel === channel).length;
       });
 
-      const currency = bookings.length > 0 ? bookings[0].pricing.currency : 'USD';
-
       return {
         totalBookings,
         confirmedBookings,
@@ -364,7 +402,7 @@ class AnalyticsService {
         averageBookingValue: parseFloat(averageBookingValue.toFixed(2)),
         averageStayDuration: parseFloat(averageStayDuration.toFixed(2)),
         byChannel,
-        currency
+        currency: converter.currency
       };
     } catch (error) {
       logger.error('[Analytics] Error calculating booking statistics:', error);
@@ -379,7 +417,8 @@ class AnalyticsService {
     range: TimeRange = TimeRange.LAST_30_DAYS,
     propertyId?: string,
     customStart?: Date,
-    customEnd?: Date
+    customEnd?: Date,
+    currency?: string
   ): Promise<TrendDataPoint[]> {
     try {
       const { startDate, endDate } = this.getDateRange(range, customStart, customEnd);
@@ -396,15 +435,19 @@ class AnalyticsService {
         matchQuery.property = new mongoose.Types.ObjectId(propertyId);
       }
 
-      // Aggregate by day using checkIn date
-      const dailyRevenue = await Booking.aggregate([
+      // Aggregate by day and currency using checkIn date
+      const dailyRevenueByCurrency = await Booking.aggregate<{
+        _id: { year: number; month: number; day: number; currency: string };
+        revenue: number;
+      }>([
         { $match: matchQuery },
         {
           $group: {
             _id: {
               year: { $year: '$checkIn' },
               month: { $month: '$checkIn' },
-              day: { $dayOfMonth: '$checkIn' }
+              day: { $dayOfMonth: '$checkIn' },
+              currency: '$pricing.currency'
             },
             revenue: { $sum: '$pricing.total' }
           }
@@ -412,10 +455,23 @@ class AnalyticsService {
         { $sort: { '_id.year': 1, '_id.month': 1, '_id.day': 1 } }
       ]);
 
-      return dailyRevenue.map(item => ({
-        date: `${item._id.year}-${String(item._id.month).padStart(2, '0')}-${String(item._id.day).padStart(2, '0')}`,
-        value: parseFloat(item.revenue.toFixed(2)),
-        label: `${item._id.month}/${item._id.day}`
+      // Convert each day's revenue at that day's rates
+      const converter = await this.getConverter(propertyId, currency);
+      const days = new Map<string, { date: { year: number; month: number; day: number }; revenue: number }>();
+      for (const item of dailyRevenueByCurrency) {
+        const { year, month, day, currency: bookingCurrency } = item._id;
+        const revenue = await converter.convert(item.revenue, bookingCurrency, new Date(Date.UTC(year, month - 1, day)));
+        const key = `${year}-${month}-${day}`;
+        const entry = days.get(key) ?? { date: { year, month, day }, revenue: 0 };
+        entry.revenue += revenue;
+        days.set(key, entry);
+      }
+      const dailyRevenue = Array.from(days.values());
+
+      return dailyRevenue.map(({ date, revenue }) => ({
+        date: `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`,
+        value: parseFloat(revenue.toFixed(2)),
+        label: `${date.month}/${date.day}`
       }));
     } catch (error) {
       logger.error('[Analytics] Error calculating revenue trend:', error);
@@ -437,47 +493,28 @@ class AnalyticsService {
 
       logger.info(`[Analytics] Calculating occupancy trend from ${startDate.toISOString()} to ${endDate.toISOString()}`);
 
-      // Build query
-      const matchQuery: any = {
+      const nights = await inventoryRepository.findNights({
+        propertyId,
         date: { $gte: startDate, $lte: endDate }
-      };
+      });
 
-      if (propertyId) {
-        matchQuery.property = new mongoose.Types.ObjectId(propertyId);
+      // Aggregate room-nights by day
+      const days = new Map<string, { year: number; month: number; day: number; total: number; booked: number }>();
+      for (const night of nights) {
+        const key = night.date.toISOString().split('T')[0];
+        const [year, month, day] = key.split('-').map(Number);
+        const entry = days.get(key) ?? { year, month, day, total: 0, booked: 0 };
+        entry.total += night.totalRooms;
+        entry.booked += night.bookedRooms.length;
+        days.set(key, entry);
       }
 
-      // Aggregate by day
-      const dailyOccupancy = await Calendar.aggregate([
-        { $match: matchQuery },
-        {
-          $group: {
-            _id: {
-              year: { $year: '$date' },
-              month: { $month: '$date' },
-              day: { $dayOfMonth: '$date' }
-            },
-            total: { $sum: 1 },
-            booked: {
-              $sum: {
-                $cond: [{ $eq: ['$status', CalendarStatus.BOOKED] }, 1, 0]
-              }
-            }
-          }
-        },
-        {
-          $project: {
-            _id: 1,
-            occupancyRate: {
-              $cond: [
-                { $gt: ['$total', 0] },
-                { $multiply: [{ $divide: ['$booked', '$total'] }, 100] },
-                0
-              ]
-            }
-          }
-        },
-        { $sort: { '_id.year': 1, '_id.month': 1, '_id.day': 1 } }
-      ]);
+      const dailyOccupancy = Array.from(days.values())
+        .sort((a, b) => a.year - b.year || a.month - b.month || a.day - b.day)
+        .map(({ total, booked, ...date }) => ({
+          _id: date,
+          occupancyRate: total > 0 ? (booked / total) * 100 : 0
+        }));
 
       return dailyOccupancy.map(item => ({
         date: `${item._id.year}-${String(item._id.month).padStart(2, '0')}-${String(item._id.day).padStart(2, '0')}`,
@@ -490,6 +527,75 @@ class AnalyticsService {
     }
   }
 
+  /**
+   * Get promotion code redemptions and the discounts they gave, by redemption date
+   */
+  async getPromotionPerformance(
+    range: TimeRange = TimeRange.LAST_30_DAYS,
+    propertyId?: string,
+    customStart?: Date,
+    customEnd?: Date,
+    currency?: string
+  ): Promise<PromotionPerformance> {
+    try {
+      const { startDate, endDate } = this.getDateRange(range, customStart, customEnd);
+
+      logger.info(`[Analytics] Calculating promotion performance from ${startDate.toISOString()} to ${endDate.toISOString()}`);
+
+      const query: FilterQuery<IPromotionRedemption> = {
+        createdAt: { $gte: startDate, $lte: endDate },
+        status: RedemptionStatus.REDEEMED
+      };
+
+      if (propertyId) {
+        query.property = new mongoose.Types.ObjectId(propertyId);
+      }
+
+      const redemptions = await PromotionRedemption.find(query);
+      const bookings = await Booking.find({ _id: { $in: redemptions.map(r => r.booking) } });
+
+      // Discounts at the rate of the redemption date, revenue at check-in as elsewhere
+      const converter = await this.getConverter(propertyId, currency);
+      const revenueOf = await this.convertTotals(bookings, converter);
+      const bookingsById = new Map(bookings.map(booking => [booking._id.toString(), booking]));
+
+      const promotions = new Map<string, { code: string; redemptions: number; discount: number; bookings: Set<string> }>();
+      for (const redemption of redemptions) {
+        const key = redemption.promotion.toString();
+        const entry = promotions.get(key) ?? { code: redemption.code, redemptions: 0, discount: 0, bookings: new Set<string>() };
+        entry.redemptions++;
+        entry.discount += await converter.convert(redemption.discount, redemption.currency, redemption.createdAt);
+        entry.bookings.add(redemption.booking.toString());
+        promotions.set(key, entry);
+      }
+
+      const revenueOfBookings = (ids: Iterable<string>): number => Array.from(ids)
+        .map(id => bookingsById.get(id))
+        .reduce((sum, booking) => sum + (booking ? revenueOf(booking) : 0), 0);
+
+      const byPromotion = Array.from(promotions.entries())
+        .map(([promotionId, data]) => ({
+          promotionId,
+          code: data.code,
+          redemptions: data.redemptions,
+          discount: this.round(data.discount),
+          bookingRevenue: this.round(revenueOfBookings(data.bookings))
+        }))
+        .sort((a, b) => b.redemptions - a.redemptions);
+
+      return {
+        redemptions: redemptions.length,
+        totalDiscount: this.round(Array.from(promotions.values()).reduce((sum, data) => sum + data.discount, 0)),
+        bookingRevenue: this.round(revenueOfBookings(bookingsById.keys())),
+        byPromotion,
+        currency: converter.currency
+      };
+    } catch (error) {
+      logger.error('[Analytics] Error calculating promotion performance:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get dashboard summary (overview metrics)
    */
@@ -497,18 +603,21 @@ class AnalyticsService {
     try {
       logger.info(`[Analytics] Generating dashboard summary`);
 
+      const currency = await exchangeRateService.getReportingCurrency(propertyId);
       const [
         revenueToday,
         revenueThisMonth,
         occupancyLast30Days,
         bookingStatsLast30Days,
+        promotionsLast30Days,
         activeProperties,
         upcomingBookings
       ] = await Promise.all([
-        this.getRevenueBreakdown(TimeRange.TODAY, propertyId),
-        this.getRevenueBreakdown(TimeRange.THIS_MONTH, propertyId),
+        this.getRevenueBreakdown(TimeRange.TODAY, propertyId, undefined, undefined, currency),
+        this.getRevenueBreakdown(TimeRange.THIS_MONTH, propertyId, undefined, undefined, currency),
         this.getOccupancyMetrics(TimeRange.LAST_30_DAYS, propertyId),
-        this.getBookingStatistics(TimeRange.LAST_30_DAYS, propertyId),
+        this.getBookingStatistics(TimeRange.LAST_30_DAYS, propertyId, undefined, undefined, currency),
+        this.getPromotionPerformance(TimeRange.LAST_30_DAYS, propertyId, undefined, undefined, currency),
         Property.countDocuments(propertyId ? { _id: propertyId, status: PropertyStatus.ACTIVE } : { status: PropertyStatus.ACTIVE }),
         Booking.countDocuments({
           checkIn: { $gte: new Date() },
@@ -521,6 +630,7 @@ class AnalyticsService {
         revenue: {
           today: revenueToday.total,
           thisMonth: revenueThisMonth.total,
+          extrasThisMonth: revenueThisMonth.extras,
           currency: revenueToday.currency
         },
         occupancy: {
@@ -535,6 +645,10 @@ class AnalyticsService {
           cancellationRate: bookingStatsLast30Days.cancellationRate,
           averageValue: bookingStatsLast30Days.averageBookingValue
         },
+        promotions: {
+          redemptions: promotionsLast30Days.redemptions,
+          totalDiscount: promotionsLast30Days.totalDiscount
+        },
         properties: {
           active: activeProperties,
           total: await Property.countDocuments(propertyId ? { _id: propertyId } : {})
@@ -546,6 +660,29 @@ class AnalyticsService {
       throw error;
     }
   }
+
+  /**
+   * Converter into the requested currency, or the property's reporting currency
+   */
+  private async getConverter(propertyId?: string, currency?: string): Promise<ICurrencyConverter> {
+    return exchangeRateService.createConverter(currency ?? await exchangeRateService.getReportingCurrency(propertyId));
+  }
+
+  /**
+   * Booking totals converted at the rate of each check-in date
+   */
+  private async convertTotals(bookings: IBooking[], converter: ICurrencyConverter): Promise<(booking: IBooking) => number> {
+    const totals = await Promise.all(
+      bookings.map(booking => converter.convert(booking.pricing.total, booking.pricing.currency, booking.checkIn))
+    );
+    const byBooking = new Map(bookings.map((booking, index) => [booking._id.toString(), totals[index] ?? 0]));
+
+    return (booking: IBooking): number => byBooking.get(booking._id.toString()) ?? 0;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
 }
 
 export default new AnalyticsService();
@@ -2,6 +2,8 @@ import mongoose from 'mongoose';
 import EmailTemplate, { EmailTemplateType, IEmailTemplate } from '../models/EmailTemplate';
 import Booking, { IBooking, BookingStatus } from '../models/Booking';
 import Property from '../models/Property';
+import { bookingEventService, IBookingModifiedEvent } from './bookingEventService';
+import { folioService } from './folioService';
 import { logger } from '../config/logger';
 
 /**
@@ -45,6 +47,8 @@ export interface EmailVariables {
   numberOfGuests?: number;
   numberOfNights?: number;
   totalAmount?: number;
+  extras?: string; // Booked extras, e.g. "Breakfast x2, Parking"
+  extrasTotal?: number;
   bookingReference: string;
   confirmationCode?: string;
   specialRequests?: string;
@@ -256,6 +260,8 @@ class GuestCommunicationService {
       numberOfGuests: totalGuests,
       numberOfNights,
       totalAmount: booking.pricing.total,
+      extras: booking.extras.map(line => (line.quantity > 1 ? `${line.name} x${line.quantity}` : line.name)).join(', '),
+      extrasTotal: booking.pricing.extras ?? 0,
       bookingReference: booking._id.toString().slice(-8).toUpperCase(),
       confirmationCode: booking.channelConfirmationCode,
       specialRequests: booking.specialRequests.join(', '),
@@ -473,10 +479,56 @@ class GuestCommunicationService {
   }
 
   /**
-   * Send payment reminder email
+   * Send payment reminder email, only when the folio shows a balance due
    */
   async sendPaymentReminder(bookingId: mongoose.Types.ObjectId): Promise<EmailResult> {
-    return this.sendTemplateEmail(EmailTemplateType.PAYMENT_REMINDER, bookingId);
+    try {
+      const folio = await folioService.getFolio(bookingId);
+      if (folio.balance <= 0) {
+        logger.info(`[GuestCommunication] No balance due for booking ${bookingId.toString()}, payment reminder skipped`);
+        return { success: false, error: 'No balance due' };
+      }
+
+      const { payments, refunds } = folio.getSummary();
+      return this.sendTemplateEmail(EmailTemplateType.PAYMENT_REMINDER, bookingId, 'en', {
+        balanceDue: folio.balance,
+        paymentStatus: payments - refunds > 0 ? 'partially_paid' : 'unpaid'
+      });
+    } catch (error) {
+      logger.error('[GuestCommunication] Error sending payment reminder:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Send booking modification email with the old and new stay
+   */
+  async sendBookingModification(event: IBookingModifiedEvent): Promise<EmailResult> {
+    const { before, priceDifference } = event.modification;
+
+    return this.sendTemplateEmail(EmailTemplateType.BOOKING_MODIFICATION, event.bookingId, 'en', {
+      previousCheckInDate: new Date(before.checkIn).toLocaleDateString(),
+      previousCheckOutDate: new Date(before.checkOut).toLocaleDateString(),
+      previousTotalAmount: before.pricing.total,
+      priceDifference,
+      modificationReason: event.modification.reason
+    });
+  }
+
+  /**
+   * Send guest emails for booking events (called once at startup)
+   */
+  subscribeToBookingEvents(): void {
+    bookingEventService.onModified(async event => {
+      const result = await this.sendBookingModification(event);
+      if (!result.success) {
+        logger.warn(`[GuestCommunication] Modification email not sent for booking ${event.bookingId.toString()}: ${result.error}`);
+      }
+    });
+    logger.info('[GuestCommunication] Subscribed to booking events');
   }
 
   /**
@@ -1,11 +1,14 @@
 import mongoose from 'mongoose';
 import Property from '../models/Property';
 import Organization from '../models/Organization';
+import PropertyGroup from '../models/PropertyGroup';
 import Booking, { BookingStatus } from '../models/Booking';
-import Calendar, { CalendarStatus } from '../models/Calendar';
+import { CalendarStatus } from '../models/Calendar';
 import { logger } from '../config/logger';
 import analyticsService from './AnalyticsService';
 import { TimeRange } from './AnalyticsService';
+import { inventoryRepository } from './inventoryRepository';
+import { exchangeRateService } from './exchangeRateService';
 
 /**
  * Bulk Operation Result
@@ -25,6 +28,7 @@ export interface CrossPropertyAnalytics {
   totalRooms: number;
   totalRevenue: number;
   averageOccupancy: number;
+  currency: string; // Of every revenue figure
   properties: Array<{
     propertyId: string;
     propertyName: string;
@@ -63,12 +67,16 @@ class MultiPropertyService {
       // Get all properties
       const properties = await Property.find(propertyQuery);
 
+      // Revenue is summed in the organization's currency
+      const currency = await this.getReportingCurrency(organizationId, propertyGroupId);
+
       if (properties.length === 0) {
         return {
           totalProperties: 0,
           totalRooms: 0,
           totalRevenue: 0,
           averageOccupancy: 0,
+          currency,
           properties: []
         };
       }
@@ -82,7 +90,8 @@ class MultiPropertyService {
               range,
               property._id.toString(),
               customStart,
-              customEnd
+              customEnd,
+              currency
             );
 
             // Get occupancy for this property
@@ -123,7 +132,7 @@ class MultiPropertyService {
 
       // Calculate totals
       const totalRooms = properties.reduce((sum, p) => sum + p.rooms.length, 0);
-      const totalRevenue = propertyAnalytics.reduce((sum, p) => sum + p.revenue, 0);
+      const totalRevenue = Math.round(propertyAnalytics.reduce((sum, p) => sum + p.revenue, 0) * 100) / 100;
       const averageOccupancy = propertyAnalytics.length > 0
         ? propertyAnalytics.reduce((sum, p) => sum + p.occupancy, 0) / propertyAnalytics.length
         : 0;
@@ -133,6 +142,7 @@ class MultiPropertyService {
         totalRooms,
         totalRevenue,
         averageOccupancy: parseFloat(averageOccupancy.toFixed(2)),
+        currency,
         properties: propertyAnalytics.sort((a, b) => b.revenue - a.revenue)
       };
     } catch (error) {
@@ -259,29 +269,12 @@ class MultiPropertyService {
           currentDate.setDate(currentDate.getDate() + 1);
         }
 
-        // Update calendar for all rooms in this property
-        const bulkOps = [];
+        // Update inventory for all rooms in this property
         for (const room of property.rooms) {
-          for (const date of dates) {
-            bulkOps.push({
-              updateOne: {
-                filter: {
-                  property: propertyId,
-                  room: room._id,
-                  date
-                },
-                update: {
-                  status,
-                  updatedAt: new Date()
-                },
-                upsert: true
-              }
-            });
-          }
+          await inventoryRepository.updateNights(propertyId, room._id, dates, { status });
         }
 
-        if (bulkOps.length > 0) {
-          await Calendar.bulkWrite(bulkOps);
+        if (property.rooms.length > 0 && dates.length > 0) {
           result.success++;
           logger.info(`[MultiProperty] Updated availability for property ${propertyId}`);
         }
@@ -364,13 +357,15 @@ class MultiPropertyService {
   }
 
   /**
-   * Compare properties within a group or organization
+   * Compare properties within a group or organization; money is compared in
+   * one currency, by default the first property's reporting currency
    */
   async compareProperties(
     propertyIds: mongoose.Types.ObjectId[],
     range: TimeRange = TimeRange.LAST_30_DAYS,
     customStart?: Date,
-    customEnd?: Date
+    customEnd?: Date,
+    currency?: string
   ): Promise<Array<{
     propertyId: string;
     propertyName: string;
@@ -380,10 +375,13 @@ class MultiPropertyService {
       averageBookingValue: number;
       totalBookings: number;
       cancellationRate: number;
+      currency: string;
     };
   }>> {
     logger.info(`[MultiProperty] Comparing ${propertyIds.length} properties`);
 
+    const reportingCurrency = currency ?? await exchangeRateService.getReportingCurrency(propertyIds[0]);
+
     const comparisons = await Promise.all(
       propertyIds.map(async (propertyId) => {
         try {
@@ -397,7 +395,8 @@ class MultiPropertyService {
             range,
             propertyId.toString(),
             customStart,
-            customEnd
+            customEnd,
+            reportingCurrency
           );
 
           const occupancyData = await analyticsService.getOccupancyMetrics(
@@ -411,7 +410,8 @@ class MultiPropertyService {
             range,
             propertyId.toString(),
             customStart,
-            customEnd
+            customEnd,
+            reportingCurrency
           );
 
           return {
@@ -422,7 +422,8 @@ class MultiPropertyService {
               occupancy: occupancyData.occupancyRate,
               averageBookingValue: bookingStats.averageBookingValue,
               totalBookings: bookingStats.totalBookings,
-              cancellationRate: bookingStats.cancellationRate
+              cancellationRate: bookingStats.cancellationRate,
+              currency: reportingCurrency
             }
           };
         } catch (error) {
@@ -435,7 +436,8 @@ class MultiPropertyService {
               occupancy: 0,
               averageBookingValue: 0,
               totalBookings: 0,
-              cancellationRate: 0
+              cancellationRate: 0,
+              currency: reportingCurrency
             }
           };
         }
@@ -445,6 +447,27 @@ class MultiPropertyService {
     return comparisons.sort((a, b) => b.metrics.revenue - a.metrics.revenue);
   }
 
+  /**
+   * Currency of an organization's reports; a group reports in its organization's
+   */
+  private async getReportingCurrency(
+    organizationId?: mongoose.Types.ObjectId,
+    propertyGroupId?: mongoose.Types.ObjectId
+  ): Promise<string> {
+    if (organizationId) {
+      return exchangeRateService.getOrganizationCurrency(organizationId);
+    }
+
+    if (propertyGroupId) {
+      const group = await PropertyGroup.findById(propertyGroupId).select('organization');
+      if (group?.organization) {
+        return exchangeRateService.getOrganizationCurrency(group.organization);
+      }
+    }
+
+    return exchangeRateService.getReportingCurrency();
+  }
+
   /**
    * Get organization summary statistics
    */
@@ -487,6 +510,7 @@ class MultiPropertyService {
         },
         analytics: {
           totalRevenue: analytics.totalRevenue,
+          currency: analytics.currency,
           averageOccupancy: analytics.averageOccupancy,
           totalRooms: analytics.totalRooms
         },
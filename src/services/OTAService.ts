@@ -17,7 +17,13 @@ interface OTAConfig {
   retryDelay?: number;
 }
 
-interface OTAResponse<T = any> {
+// Per-channel endpoint and key overriding the environment defaults
+export interface OTAConnection {
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export interface OTAResponse<T = any> {
   success: boolean;
   data?: T;
   error?: {
@@ -70,13 +76,15 @@ interface BookingData {
   };
 }
 
-interface CalendarUpdate {
+export interface CalendarUpdate {
   propertyId: string;
   roomId?: string;
+  ratePlanId?: string;
   startDate: string;
   endDate: string;
   updates: {
     available?: boolean;
+    availableUnits?: number;
     rate?: number;
     minStay?: number;
     maxStay?: number;
@@ -96,6 +104,7 @@ interface RateUpdate {
 class OTAService {
   private clients: Map<OTAProvider, AxiosInstance> = new Map();
   private config: Map<OTAProvider, OTAConfig> = new Map();
+  private connectionClients: Map<string, AxiosInstance> = new Map();
 
   constructor() {
     this.initializeClients();
@@ -122,49 +131,55 @@ class OTAService {
       };
 
       this.config.set(provider, config);
+      this.clients.set(provider, this.createClient(provider, baseURL, apiKey, timeout));
+    });
 
-      const client = axios.create({
-        baseURL,
-        timeout,
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey
-        }
-      });
-
-      // Request interceptor for logging
-      client.interceptors.request.use(
-        config => {
-          logger.debug(`[OTA-${provider}] Request: ${config.method?.toUpperCase()} ${config.url}`);
-          return config;
-        },
-        error => {
-          logger.error(`[OTA-${provider}] Request Error:`, error);
-          return Promise.reject(error);
-        }
-      );
-
-      // Response interceptor for logging
-      client.interceptors.response.use(
-        response => {
-          logger.debug(`[OTA-${provider}] Response: ${response.status} ${response.config.url}`);
-          return response;
-        },
-        async error => {
-          return this.handleResponseError(provider, error);
-        }
-      );
+    logger.info(`OTA Service initialized with ${providers.length} providers`);
+  }
 
-      this.clients.set(provider, client);
+  /**
+   * Create an HTTP client with request logging and retries
+   */
+  private createClient(provider: OTAProvider, baseURL: string, apiKey: string, timeout: number): AxiosInstance {
+    const client = axios.create({
+      baseURL,
+      timeout,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey
+      }
     });
 
-    logger.info(`OTA Service initialized with ${providers.length} providers`);
+    // Request interceptor for logging
+    client.interceptors.request.use(
+      config => {
+        logger.debug(`[OTA-${provider}] Request: ${config.method?.toUpperCase()} ${config.url}`);
+        return config;
+      },
+      error => {
+        logger.error(`[OTA-${provider}] Request Error: ${(error as Error).message}`);
+        return Promise.reject(error);
+      }
+    );
+
+    // Response interceptor for logging
+    client.interceptors.response.use(
+      response => {
+        logger.debug(`[OTA-${provider}] Response: ${response.status} ${response.config.url}`);
+        return response;
+      },
+      async error => {
+        return this.handleResponseError(provider, client, error);
+      }
+    );
+
+    return client;
   }
 
   /**
    * Handle response errors with retry logic
    */
-  private async handleResponseError(provider: OTAProvider, error: AxiosError): Promise<any> {
+  private async handleResponseError(provider: OTAProvider, client: AxiosInstance, error: AxiosError): Promise<any> {
     const config = this.config.get(provider);
 
     if (!config) {
@@ -196,8 +211,7 @@ class OTAService {
         await new Promise(resolve => setTimeout(resolve, delay));
 
         error.config.headers['x-retry-count'] = retryCount + 1;
-        const client = this.clients.get(provider);
-        return client!(error.config);
+        return client(error.config);
       }
     }
 
@@ -207,12 +221,28 @@ class OTAService {
   /**
    * Get HTTP client for a specific provider
    */
-  private getClient(provider: OTAProvider): AxiosInstance {
+  private getClient(provider: OTAProvider, connection?: OTAConnection): AxiosInstance {
     const client = this.clients.get(provider);
-    if (!client) {
+    const config = this.config.get(provider);
+    if (!client || !config) {
       throw new Error(`OTA client not found for provider: ${provider}`);
     }
-    return client;
+
+    if (!connection?.baseURL && !connection?.apiKey) {
+      return client;
+    }
+
+    // Channels with their own endpoint or key get a client of their own
+    const baseURL = connection.baseURL ?? config.baseURL;
+    const apiKey = connection.apiKey ?? config.apiKey;
+    const key = `${provider}|${baseURL}|${apiKey}`;
+
+    let connectionClient = this.connectionClients.get(key);
+    if (!connectionClient) {
+      connectionClient = this.createClient(provider, baseURL, apiKey, config.timeout ?? 30000);
+      this.connectionClients.set(key, connectionClient);
+    }
+    return connectionClient;
   }
 
   // ==================== PROPERTY OPERATIONS ====================
@@ -227,7 +257,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Property created successfully`, { propertyId: response.data.data?.id });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to create property:`, error);
+      logger.error(`[OTA-${provider}] Failed to create property: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -242,7 +272,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Property updated successfully`, { propertyId });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to update property:`, error);
+      logger.error(`[OTA-${provider}] Failed to update property: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -256,7 +286,7 @@ class OTAService {
       const response = await client.get(`/api/${provider}/properties/${propertyId}`);
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to get property:`, error);
+      logger.error(`[OTA-${provider}] Failed to get property: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -264,13 +294,17 @@ class OTAService {
   /**
    * List properties from OTA
    */
-  async listProperties(provider: OTAProvider, params?: { page?: number; pageSize?: number; search?: string }): Promise<OTAResponse> {
+  async listProperties(
+    provider: OTAProvider,
+    params?: { page?: number; pageSize?: number; search?: string },
+    connection?: OTAConnection
+  ): Promise<OTAResponse> {
     try {
-      const client = this.getClient(provider);
+      const client = this.getClient(provider, connection);
       const response = await client.get(`/api/${provider}/properties`, { params });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to list properties:`, error);
+      logger.error(`[OTA-${provider}] Failed to list properties: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -285,7 +319,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Property deleted successfully`, { propertyId });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to delete property:`, error);
+      logger.error(`[OTA-${provider}] Failed to delete property: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -303,7 +337,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Booking created successfully`, { bookingId: response.data.data?.id });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to create booking:`, error);
+      logger.error(`[OTA-${provider}] Failed to create booking: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -319,7 +353,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Booking updated successfully`, { bookingId });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to update booking:`, error);
+      logger.error(`[OTA-${provider}] Failed to update booking: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -334,7 +368,7 @@ class OTAService {
       const response = await client.get(`/api/${provider}/${endpoint}/${bookingId}`);
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to get booking:`, error);
+      logger.error(`[OTA-${provider}] Failed to get booking: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -342,14 +376,34 @@ class OTAService {
   /**
    * List bookings from OTA
    */
-  async listBookings(provider: OTAProvider, params?: { page?: number; pageSize?: number; status?: string }): Promise<OTAResponse> {
+  async listBookings(
+    provider: OTAProvider,
+    params?: { page?: number; pageSize?: number; status?: string; since?: string },
+    connection?: OTAConnection
+  ): Promise<OTAResponse> {
     try {
-      const client = this.getClient(provider);
+      const client = this.getClient(provider, connection);
       const endpoint = provider === OTAProvider.BOOKING ? 'reservations' : 'bookings';
       const response = await client.get(`/api/${provider}/${endpoint}`, { params });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to list bookings:`, error);
+      logger.error(`[OTA-${provider}] Failed to list bookings: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm receipt of a booking so the OTA stops delivering it
+   */
+  async acknowledgeBooking(provider: OTAProvider, bookingId: string, connection?: OTAConnection): Promise<OTAResponse> {
+    try {
+      const client = this.getClient(provider, connection);
+      const endpoint = provider === OTAProvider.BOOKING ? 'reservations' : 'bookings';
+      const response = await client.post(`/api/${provider}/${endpoint}/${bookingId}/acknowledge`);
+      logger.info(`[OTA-${provider}] Booking acknowledged`, { bookingId });
+      return response.data;
+    } catch (error) {
+      logger.error(`[OTA-${provider}] Failed to acknowledge booking: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -365,7 +419,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Booking cancelled successfully`, { bookingId });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to cancel booking:`, error);
+      logger.error(`[OTA-${provider}] Failed to cancel booking: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -375,15 +429,15 @@ class OTAService {
   /**
    * Update calendar on OTA
    */
-  async updateCalendar(provider: OTAProvider, updates: CalendarUpdate): Promise<OTAResponse> {
+  async updateCalendar(provider: OTAProvider, updates: CalendarUpdate, connection?: OTAConnection): Promise<OTAResponse> {
     try {
-      const client = this.getClient(provider);
+      const client = this.getClient(provider, connection);
       const endpoint = provider === OTAProvider.BOOKING ? 'availability' : 'calendar';
       const response = await client.post(`/api/${provider}/${endpoint}`, updates);
       logger.info(`[OTA-${provider}] Calendar updated successfully`, { propertyId: updates.propertyId });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to update calendar:`, error);
+      logger.error(`[OTA-${provider}] Failed to update calendar: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -398,7 +452,7 @@ class OTAService {
       const response = await client.get(`/api/${provider}/${endpoint}`, { params });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to get calendar:`, error);
+      logger.error(`[OTA-${provider}] Failed to get calendar: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -415,7 +469,7 @@ class OTAService {
       logger.info(`[OTA-${provider}] Rate updated successfully`, { propertyId: rateData.propertyId });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to update rate:`, error);
+      logger.error(`[OTA-${provider}] Failed to update rate: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -429,7 +483,7 @@ class OTAService {
       const response = await client.get(`/api/${provider}/rates`, { params });
       return response.data;
     } catch (error) {
-      logger.error(`[OTA-${provider}] Failed to get rates:`, error);
+      logger.error(`[OTA-${provider}] Failed to get rates: ${(error as Error).message}`);
       throw error;
     }
   }
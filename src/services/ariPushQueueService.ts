@@ -0,0 +1,424 @@
+import mongoose from 'mongoose';
+import AriPushTask, { IAriPushTask, AriPushStatus } from '../models/AriPushTask';
+import Channel, { IChannel, ChannelStatus } from '../models/Channel';
+import ChannelMapping from '../models/ChannelMapping';
+import { channelAdapterService } from './channelAdapterService';
+import { channelSyncService, ARI_SYNC_DAYS } from './channelSyncService';
+import { inventoryEventService, IInventoryChangedEvent } from './inventoryEventService';
+import { InventoryRepository } from './inventoryRepository';
+import { logger } from '../config/logger';
+import { createError, BaseError, ChannelAdapterError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Attempts before a push task is marked failed
+const MAX_ATTEMPTS = parseInt(process.env['ARI_PUSH_MAX_ATTEMPTS'] ?? '8', 10);
+// Delay before the first retry; doubles with every failed attempt up to the maximum
+const RETRY_BASE_DELAY_MS = parseInt(process.env['ARI_PUSH_RETRY_BASE_DELAY_MS'] ?? '30000', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env['ARI_PUSH_RETRY_MAX_DELAY_MS'] ?? '1800000', 10);
+// How long changes to a room type are gathered before they are pushed together
+const COALESCE_DELAY_MS = parseInt(process.env['ARI_PUSH_COALESCE_MS'] ?? '5000', 10);
+// How long a claimed task is left to its worker before another may take it over
+const PROCESSING_LEASE_MS = parseInt(process.env['ARI_PUSH_LEASE_MS'] ?? '300000', 10);
+const DEFAULT_WORKER_INTERVAL_MS = parseInt(process.env['ARI_PUSH_WORKER_INTERVAL_MS'] ?? '5000', 10);
+const WORKER_BATCH_SIZE = 25;
+
+// Outbound queue state of one channel
+export interface IAriQueueChannelStats {
+  channelId: mongoose.Types.ObjectId;
+  channelName: string;
+  channelType: string;
+  pendingUpdates: number; // Room types waiting for a push, including ones being pushed
+  pendingNights: number;
+  failedUpdates: number;
+  oldestQueuedAt: Date | null;
+  lagSeconds: number; // Age of the oldest change not yet on the channel
+  lastError: string | null;
+}
+
+// Queue aggregate per channel and status
+interface IAriQueueGroup {
+  _id: { channel: mongoose.Types.ObjectId; status: AriPushStatus };
+  tasks: number;
+  nights: number;
+  oldestQueuedAt: Date;
+  lastError: string | null;
+}
+
+/**
+ * ARI Push Queue Service
+ *
+ * Durable outbound queue of availability, rates and restrictions. Every
+ * inventory change is queued for each active channel that sells the room
+ * type and takes outbound updates; changes to the same channel and room
+ * type coalesce into one pending task. The worker claims due tasks one at
+ * a time, builds their nights in OTA IDs (merged into date ranges where
+ * the adapter takes them) and pushes them in the adapter's batch size.
+ * Outages are retried with exponential backoff; refused updates and tasks
+ * out of attempts are marked failed and folded into the next change to the
+ * same room type.
+ */
+class AriPushQueueService {
+  private workerTimer: NodeJS.Timeout | null = null;
+  private draining = false;
+
+  /**
+   * Queue an inventory change for every channel it has to reach; returns
+   * how many channels it was queued for
+   */
+  public async enqueue(change: IInventoryChangedEvent): Promise<number> {
+    const dates = this.getPushableDates(change.dates);
+    if (dates.length === 0 || (!change.availability && !change.rates)) {
+      return 0;
+    }
+
+    const channels = await Channel.find({
+      properties: change.propertyId,
+      status: ChannelStatus.ACTIVE,
+      isActive: true,
+      'syncSettings.syncDirection': { $ne: 'inbound' },
+      ...(change.channel ? { type: change.channel } : {})
+    });
+
+    let queued = 0;
+    for (const channel of channels) {
+      const availability = change.availability && channel.syncSettings.syncTypes.availability;
+      const rates = change.rates && channel.syncSettings.syncTypes.rates;
+
+      if ((!availability && !rates) || !channelAdapterService.has(channel.type)) {
+        continue;
+      }
+
+      const mapped = await ChannelMapping.exists({
+        channelType: channel.type,
+        property: change.propertyId,
+        'rooms.room': change.roomId
+      });
+      if (!mapped) {
+        continue;
+      }
+
+      await this.queue(channel._id as mongoose.Types.ObjectId, change.propertyId, change.roomId, dates, { availability, rates });
+      queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Push the tasks that are due, oldest first; returns how many were attempted
+   */
+  public async processDue(limit: number = WORKER_BATCH_SIZE): Promise<number> {
+    let attempted = 0;
+
+    while (attempted < limit) {
+      const task = await this.claimNext();
+      if (!task) {
+        break;
+      }
+
+      await this.attempt(task);
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Pending and failed updates and push lag of every active channel and
+   * of any other channel with queued updates
+   */
+  public async getChannelStats(channelId?: ObjectIdLike): Promise<IAriQueueChannelStats[]> {
+    const channelFilter = channelId ? { channel: new mongoose.Types.ObjectId(String(channelId)) } : {};
+    const groups = await AriPushTask.aggregate<IAriQueueGroup>([
+      { $match: channelFilter },
+      { $sort: { updatedAt: 1 } },
+      {
+        $group: {
+          _id: { channel: '$channel', status: '$status' },
+          tasks: { $sum: 1 },
+          nights: { $sum: { $size: '$dates' } },
+          oldestQueuedAt: { $min: '$firstQueuedAt' },
+          lastError: { $last: '$lastError' }
+        }
+      }
+    ]);
+
+    const queuedChannelIds = groups.map(group => group._id.channel);
+    const channels = await Channel.find(channelId
+      ? { _id: channelId }
+      : { $or: [{ _id: { $in: queuedChannelIds } }, { status: ChannelStatus.ACTIVE, isActive: true }] }
+    ).select('name type').sort({ name: 1 });
+
+    const now = Date.now();
+    return channels.map(channel => {
+      const id = channel._id as mongoose.Types.ObjectId;
+      const own = groups.filter(group => group._id.channel.equals(id));
+      const queued = own.filter(group => group._id.status !== AriPushStatus.FAILED);
+      const failed = own.find(group => group._id.status === AriPushStatus.FAILED);
+      const oldest = queued.reduce<Date | null>(
+        (min, group) => (min === null || group.oldestQueuedAt < min ? group.oldestQueuedAt : min),
+        null
+      );
+
+      return {
+        channelId: id,
+        channelName: channel.name,
+        channelType: channel.type,
+        pendingUpdates: queued.reduce((sum, group) => sum + group.tasks, 0),
+        pendingNights: queued.reduce((sum, group) => sum + group.nights, 0),
+        failedUpdates: failed?.tasks ?? 0,
+        oldestQueuedAt: oldest,
+        lagSeconds: oldest ? Math.max(0, Math.round((now - oldest.getTime()) / 1000)) : 0,
+        lastError: failed?.lastError ?? queued.find(group => group.lastError)?.lastError ?? null
+      };
+    });
+  }
+
+  /**
+   * Queue every inventory change for the channels it has to reach
+   */
+  public subscribeToInventoryEvents(): void {
+    inventoryEventService.onChanged(async event => {
+      await this.enqueue(event);
+    });
+  }
+
+  /**
+   * Push due tasks periodically
+   */
+  public startWorker(intervalMs: number = DEFAULT_WORKER_INTERVAL_MS): void {
+    if (this.workerTimer) {
+      return;
+    }
+
+    this.workerTimer = setInterval(() => this.drain(), intervalMs);
+    this.workerTimer.unref();
+
+    logger.info(`ARI push worker started (every ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop the periodic push worker
+   */
+  public stopWorker(): void {
+    if (this.workerTimer) {
+      clearInterval(this.workerTimer);
+      this.workerTimer = null;
+    }
+  }
+
+  /**
+   * Nights from today to the end of the channel sync window; earlier nights
+   * can no longer be sold and later ones are sent by full syncs
+   */
+  private getPushableDates(dates: Date[]): Date[] {
+    const from = InventoryRepository.normalizeDate(new Date());
+    const to = new Date(from);
+    to.setDate(to.getDate() + ARI_SYNC_DAYS);
+
+    const times = new Set(dates
+      .map(date => InventoryRepository.normalizeDate(date).getTime())
+      .filter(time => time >= from.getTime() && time < to.getTime()));
+
+    return [...times].sort((a, b) => a - b).map(time => new Date(time));
+  }
+
+  /**
+   * Merge the nights into the room type's pending task, creating it with
+   * the coalescing delay; failed tasks of the room type are folded in
+   */
+  private async queue(
+    channel: mongoose.Types.ObjectId,
+    property: mongoose.Types.ObjectId,
+    room: mongoose.Types.ObjectId,
+    dates: Date[],
+    content: { availability: boolean; rates: boolean }
+  ): Promise<void> {
+    const key = { channel, property, room };
+    const failed = await AriPushTask.find({ ...key, status: AriPushStatus.FAILED });
+    const now = new Date();
+
+    const update = {
+      $addToSet: { dates: { $each: [...dates, ...failed.flatMap(task => task.dates)] } },
+      $set: {
+        lastQueuedAt: now,
+        ...(content.availability || failed.some(task => task.availability) ? { availability: true } : {}),
+        ...(content.rates || failed.some(task => task.rates) ? { rates: true } : {})
+      },
+      $setOnInsert: { firstQueuedAt: now, attempts: 0, nextAttemptAt: new Date(now.getTime() + COALESCE_DELAY_MS) }
+    };
+
+    try {
+      await AriPushTask.updateOne({ ...key, status: AriPushStatus.PENDING }, update, { upsert: true });
+    } catch (error) {
+      // Another change created the pending task first; merge into it
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+      await AriPushTask.updateOne({ ...key, status: AriPushStatus.PENDING }, update);
+    }
+
+    if (failed.length > 0) {
+      await AriPushTask.deleteMany({ _id: { $in: failed.map(task => task._id) }, status: AriPushStatus.FAILED });
+    }
+  }
+
+  /**
+   * Claim the next due task: a pending one whose push time has come, or
+   * one whose worker lost its lease
+   */
+  private async claimNext(): Promise<IAriPushTask | null> {
+    const now = new Date();
+
+    return AriPushTask.findOneAndUpdate(
+      {
+        $or: [
+          { status: AriPushStatus.PENDING, nextAttemptAt: { $lte: now } },
+          { status: AriPushStatus.PROCESSING, lockedUntil: { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          status: AriPushStatus.PROCESSING,
+          lockedUntil: new Date(now.getTime() + PROCESSING_LEASE_MS)
+        },
+        $inc: { attempts: 1 }
+      },
+      { new: true, sort: { nextAttemptAt: 1, firstQueuedAt: 1 } }
+    );
+  }
+
+  /**
+   * Run one push; the outcome is only recorded if this claim still holds
+   */
+  private async attempt(task: IAriPushTask): Promise<void> {
+    const claim = { _id: task._id, status: AriPushStatus.PROCESSING, attempts: task.attempts };
+
+    try {
+      const channel = await Channel.findById(task.channel);
+
+      if (!channel || channel.status !== ChannelStatus.ACTIVE || !channel.isActive || !channelAdapterService.has(channel.type)) {
+        await AriPushTask.deleteOne(claim);
+        logger.info(`[ARI-Push] Dropped task ${task._id.toString()}: channel ${task.channel.toString()} no longer takes updates`);
+        return;
+      }
+
+      const pushed = await this.push(channel, task);
+
+      await AriPushTask.deleteOne(claim);
+      logger.info(`[ARI-Push] Pushed ${pushed} updates for ${task.dates.length} nights of room ${task.room.toString()} to ${channel.name}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Unexpected errors (e.g. the database) are retried; refusals are not
+      const retryable = error instanceof ChannelAdapterError ? error.retryable : !(error instanceof BaseError);
+      const exhausted = !retryable || task.attempts >= MAX_ATTEMPTS;
+
+      if (exhausted) {
+        await AriPushTask.updateOne(claim, {
+          $set: { status: AriPushStatus.FAILED, lastError: message, failedAt: new Date() },
+          $unset: { lockedUntil: 1 }
+        });
+
+        logger.error(`[ARI-Push] Task ${task._id.toString()} for channel ${task.channel.toString()} failed after ${task.attempts} attempts: ${message}`);
+        return;
+      }
+
+      await this.retry(task, claim, message);
+      logger.warn(`[ARI-Push] Attempt ${task.attempts} of task ${task._id.toString()} failed, retrying: ${message}`);
+    }
+  }
+
+  /**
+   * Build the task's nights and push them in the adapter's batch size;
+   * updates the OTA refuses fail the task
+   */
+  private async push(channel: IChannel, task: IAriPushTask): Promise<number> {
+    const adapter = channelAdapterService.get(channel.type);
+    const updates = await channelSyncService.buildAri(channel, {
+      availability: task.availability,
+      rates: task.rates,
+      propertyIds: [task.property],
+      roomIds: [task.room],
+      dates: task.dates
+    });
+
+    const rejected: string[] = [];
+    for (let index = 0; index < updates.length; index += adapter.capabilities.maxAriBatchSize) {
+      const result = await adapter.pushAri(channel, updates.slice(index, index + adapter.capabilities.maxAriBatchSize));
+      rejected.push(...result.rejected.map(entry =>
+        `${entry.update.externalRoomId} ${entry.update.startDate}: ${entry.message}`
+      ));
+    }
+
+    if (rejected.length > 0) {
+      throw createError.channelAdapter(`${rejected.length} of ${updates.length} updates were refused: ${rejected.join('; ')}`);
+    }
+
+    return updates.length;
+  }
+
+  /**
+   * Put the task back with backoff, or merge it into the pending task a
+   * newer change created meanwhile
+   */
+  private async retry(
+    task: IAriPushTask,
+    claim: { _id: mongoose.Types.ObjectId; status: AriPushStatus; attempts: number },
+    message: string
+  ): Promise<void> {
+    const nextAttemptAt = new Date(Date.now() + this.retryDelay(task.attempts));
+
+    try {
+      await AriPushTask.updateOne(claim, {
+        $set: { status: AriPushStatus.PENDING, nextAttemptAt, lastError: message },
+        $unset: { lockedUntil: 1 }
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+
+      await AriPushTask.updateOne(
+        { channel: task.channel, property: task.property, room: task.room, status: AriPushStatus.PENDING },
+        {
+          $addToSet: { dates: { $each: task.dates } },
+          $set: {
+            lastError: message,
+            ...(task.availability ? { availability: true } : {}),
+            ...(task.rates ? { rates: true } : {})
+          },
+          $min: { firstQueuedAt: task.firstQueuedAt },
+          $max: { attempts: task.attempts, nextAttemptAt }
+        }
+      );
+      await AriPushTask.deleteOne(claim);
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  /**
+   * Push due tasks unless a drain is already running
+   */
+  private drain(): void {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    this.processDue()
+      .catch(error => {
+        logger.error('ARI push processing failed:', error);
+      })
+      .finally(() => {
+        this.draining = false;
+      });
+  }
+}
+
+export const ariPushQueueService = new AriPushQueueService();
+export { AriPushQueueService };
+export default ariPushQueueService;
@@ -2,6 +2,10 @@ import mongoose, { Schema, Document, Model } from 'mongoose';
 import { AuditLogError } from '../utils/errors';
 import { logger } from '../config/logger';
 
+// Who performed an audited action: a signed-in user, a guest managing their
+// own booking, or the system itself
+export type AuditActorType = 'user' | 'guest' | 'system';
+
 // Audit log interface
 interface IAuditLog extends Document {
   action: string;
@@ -10,6 +14,7 @@ interface IAuditLog extends Document {
   userId?: string;
   userEmail?: string;
   userRoles?: string[];
+  actorType?: AuditActorType;
   ipAddress: string;
   userAgent: string;
   method: string;
@@ -67,6 +72,25 @@ const auditLogSchema = new Schema<IAuditLog>({
       'BOOKING_CHECKED_IN',
       'BOOKING_CHECKED_OUT',
       'BOOKING_STATUS_CHANGED',
+      'BOOKING_CHECKED_OUT_WITH_BALANCE',
+      
+      // Folio actions
+      'FOLIO_UPDATED',
+      'FOLIO_CHARGE_POSTED',
+      'FOLIO_PAYMENT_RECORDED',
+      'FOLIO_REFUND_ISSUED',
+      'FOLIO_ADJUSTMENT_POSTED',
+      'FOLIO_TRANSACTION_VOIDED',
+      'FOLIO_CLOSED',
+      
+      // Invoice actions
+      'INVOICE_ISSUED',
+      'CREDIT_NOTE_ISSUED',
+      'INVOICE_SENT',
+      
+      // Guest profile actions
+      'GUEST_UPDATED',
+      'GUEST_MERGED',
       
       // Rate plan actions
       'RATE_PLAN_CREATED',
@@ -87,6 +111,10 @@ const auditLogSchema = new Schema<IAuditLog>({
       'CHANNEL_SYNCED',
       'CHANNEL_ERROR',
       'CHANNEL_SETTINGS_UPDATED',
+      'CHANNEL_SECRET_ROTATED',
+      'WEBHOOK_REJECTED',
+      'WEBHOOK_REPLAYED',
+      'WEBHOOK_DISCARDED',
       
       // File actions
       'FILE_UPLOADED',
@@ -122,6 +150,9 @@ const auditLogSchema = new Schema<IAuditLog>({
       'USER',
       'PROPERTY',
       'BOOKING',
+      'FOLIO',
+      'INVOICE',
+      'GUEST',
       'RATE_PLAN',
       'CALENDAR',
       'CHANNEL',
@@ -148,6 +179,11 @@ const auditLogSchema = new Schema<IAuditLog>({
     type: String,
     enum: ['superadmin', 'admin', 'supervisor', 'client']
   }],
+  actorType: {
+    type: String,
+    enum: ['user', 'guest', 'system'],
+    required: false
+  },
   ipAddress: {
     type: String,
     required: true
@@ -245,6 +281,7 @@ class AuditService {
     userId?: string;
     userEmail?: string;
     userRoles?: string[];
+    actorType?: AuditActorType;
     ipAddress: string;
     userAgent: string;
     method: string;
@@ -1,5 +1,8 @@
-import Calendar, { ICalendar, CalendarStatus, CalendarChannel, BlockReason } from '../models/Calendar';
+import { CalendarStatus, CalendarChannel, BlockReason } from '../models/Calendar';
 import Property, { IProperty } from '../models/Property';
+import { inventoryRepository, InventoryRepository, ICalendarEntry, IInventoryUpdate } from './inventoryRepository';
+import { inventoryReservationService } from './inventoryReservationService';
+import { stayRestrictionService, IRestrictionViolation } from './stayRestrictionService';
 import { logger } from '../config/logger';
 import { createError } from '../utils/errors';
 import mongoose from 'mongoose';
@@ -34,6 +37,7 @@ export interface IAvailabilityResult {
     }>;
     totalRate: number;
     nights: number;
+    restrictionViolations: IRestrictionViolation[];
   }>;
   restrictions: {
     minStay: number;
@@ -133,14 +137,15 @@ class AvailabilityService {
     }>;
     totalRate: number;
     nights: number;
+    restrictionViolations: IRestrictionViolation[];
   }> {
-    // Get calendar entries for date range
-    const calendars = await Calendar.find({
-      property: propertyId,
-      room: roomId,
+    // Channel view of the pooled inventory (honours closed channels and allotments)
+    const calendars = await inventoryRepository.findCalendarEntries({
+      propertyId,
+      roomId,
       date: { $gte: startDate, $lt: endDate },
-      ...(channel && channel !== CalendarChannel.ALL ? { channel: { $in: [channel, CalendarChannel.ALL] } } : {})
-    }).sort({ date: 1 });
+      channel
+    });
 
     // Check if all dates are available
     const nightsCount = nights || Math.ceil(
@@ -184,16 +189,6 @@ class AvailabilityService {
         if (!calendar.canBeBooked()) {
           available = false;
         }
-
-        // Check min stay requirement
-        if (calendar.minStay && nightsCount < calendar.minStay) {
-          available = false;
-        }
-
-        // Check max stay requirement
-        if (calendar.maxStay && nightsCount > calendar.maxStay) {
-          available = false;
-        }
       } else {
         // No calendar entry, assume available at base rate
         dates.push({
@@ -206,13 +201,27 @@ class AvailabilityService {
       }
     }
 
+    // Stay restrictions (CTA/CTD, min/max stay, advance booking window)
+    const restrictionViolations = await stayRestrictionService.checkStay(
+      propertyId,
+      roomId,
+      startDate,
+      endDate,
+      channel ?? CalendarChannel.ALL
+    );
+
+    if (restrictionViolations.length > 0) {
+      available = false;
+    }
+
     return {
       roomId,
       roomName: 'Room', // This should be fetched from property.rooms
       available,
       dates,
       totalRate,
-      nights: nightsCount
+      nights: nightsCount,
+      restrictionViolations
     };
   }
 
@@ -265,48 +274,21 @@ class AvailabilityService {
     status: CalendarStatus,
     channel: CalendarChannel,
     userId?: string,
-    additionalData?: Partial<ICalendar>
-  ): Promise<ICalendar> {
+    additionalData?: Omit<IInventoryUpdate, 'status' | 'channel' | 'userId'>
+  ): Promise<ICalendarEntry> {
     try {
-      // Find existing calendar entry
-      let calendar = await Calendar.findOne({
-        property: propertyId,
-        room: roomId,
-        date
+      await inventoryRepository.updateNights(propertyId, roomId, [date], {
+        ...additionalData,
+        status,
+        channel,
+        userId
       });
 
-      if (calendar) {
-        // Update existing
-        calendar.status = status;
-        calendar.channel = channel;
-        if (userId) calendar.lastUpdatedBy = new mongoose.Types.ObjectId(userId);
-
-        // Update additional fields
-        if (additionalData) {
-          if (additionalData.rate !== undefined) calendar.rate = additionalData.rate;
-          if (additionalData.currency !== undefined) calendar.currency = additionalData.currency;
-          if (additionalData.minStay !== undefined) calendar.minStay = additionalData.minStay;
-          if (additionalData.maxStay !== undefined) calendar.maxStay = additionalData.maxStay;
-          if (additionalData.blockReason !== undefined) calendar.blockReason = additionalData.blockReason;
-          if (additionalData.blockDescription !== undefined) calendar.blockDescription = additionalData.blockDescription;
-        }
+      logger.info(`Updated availability for ${date.toISOString()} on channel ${channel}`);
 
-        await calendar.save();
-        logger.info(`Updated availability for ${date} on channel ${channel}`);
-      } else {
-        // Create new
-        calendar = new Calendar({
-          property: propertyId,
-          room: roomId,
-          date,
-          status,
-          channel,
-          lastUpdatedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
-          ...additionalData
-        });
-
-        await calendar.save();
-        logger.info(`Created availability for ${date} on channel ${channel}`);
+      const calendar = await inventoryRepository.findCalendarEntry(propertyId, roomId, date, channel);
+      if (!calendar) {
+        throw createError.notFound('Inventory night not found after update');
       }
 
       return calendar;
@@ -327,48 +309,37 @@ class AvailabilityService {
     try {
       logger.info(`Bulk updating availability for property ${update.propertyId}, room ${update.roomId}`);
 
+      const errors: string[] = [];
+      const dates = update.dates.map(date => InventoryRepository.normalizeDate(date));
+      const existing = await inventoryRepository.findNights({
+        propertyId: update.propertyId,
+        roomId: update.roomId,
+        date: { $gte: dates.reduce((a, b) => (a < b ? a : b)), $lte: dates.reduce((a, b) => (a > b ? a : b)) }
+      });
+      const existingDates = new Set(existing.map(night => night.date.getTime()));
+
       let updated = 0;
       let created = 0;
-      const errors: string[] = [];
 
-      for (const date of update.dates) {
+      for (const date of dates) {
         try {
-          let calendar = await Calendar.findOne({
-            property: update.propertyId,
-            room: update.roomId,
-            date
+          await inventoryRepository.updateNights(update.propertyId, update.roomId, [date], {
+            status: update.status,
+            channel: update.channel,
+            rate: update.rate,
+            currency: update.currency,
+            minStay: update.minStay,
+            maxStay: update.maxStay,
+            userId: update.userId
           });
 
-          if (calendar) {
-            calendar.status = update.status;
-            calendar.channel = update.channel;
-            if (update.rate !== undefined) calendar.rate = update.rate;
-            if (update.currency !== undefined) calendar.currency = update.currency;
-            if (update.minStay !== undefined) calendar.minStay = update.minStay;
-            if (update.maxStay !== undefined) calendar.maxStay = update.maxStay;
-            if (update.userId) calendar.lastUpdatedBy = new mongoose.Types.ObjectId(update.userId);
-
-            await calendar.save();
+          if (existingDates.has(date.getTime())) {
             updated++;
           } else {
-            calendar = new Calendar({
-              property: update.propertyId,
-              room: update.roomId,
-              date,
-              status: update.status,
-              rate: update.rate,
-              currency: update.currency,
-              minStay: update.minStay || 1,
-              maxStay: update.maxStay,
-              channel: update.channel,
-              lastUpdatedBy: update.userId ? new mongoose.Types.ObjectId(update.userId) : undefined
-            });
-
-            await calendar.save();
             created++;
           }
         } catch (error) {
-          errors.push(`Error updating ${date}: ${(error as Error).message}`);
+          errors.push(`Error updating ${date.toISOString()}: ${(error as Error).message}`);
         }
       }
 
@@ -412,7 +383,7 @@ class AvailabilityService {
           );
           blocked++;
         } catch (error) {
-          errors.push(`Error blocking ${date}: ${(error as Error).message}`);
+          errors.push(`Error blocking ${date.toISOString()}: ${(error as Error).message}`);
         }
       }
 
@@ -449,12 +420,11 @@ class AvailabilityService {
             date,
             CalendarStatus.AVAILABLE,
             channel,
-            userId,
-            { blockReason: undefined, blockDescription: undefined }
+            userId
           );
           unblocked++;
         } catch (error) {
-          errors.push(`Error unblocking ${date}: ${(error as Error).message}`);
+          errors.push(`Error unblocking ${date.toISOString()}: ${(error as Error).message}`);
         }
       }
 
@@ -469,45 +439,44 @@ class AvailabilityService {
 
   /**
    * Mark dates as booked
+   *
+   * Claims one pooled unit per date through the reservation service.
    */
   public async markAsBooked(
     propertyId: string,
     roomId: string,
     dates: Date[],
     bookingId: string,
-    channel: CalendarChannel,
-    userId?: string
+    channel: CalendarChannel
   ): Promise<{ booked: number; errors: string[] }> {
-    try {
-      logger.info(`Marking ${dates.length} dates as booked for booking ${bookingId}`);
+    logger.info(`Marking ${dates.length} dates as booked for booking ${bookingId}`);
 
-      let booked = 0;
-      const errors: string[] = [];
+    let booked = 0;
+    const errors: string[] = [];
 
-      for (const date of dates) {
-        try {
-          await this.updateAvailability(
-            propertyId,
-            roomId,
-            date,
-            CalendarStatus.BOOKED,
-            channel,
-            userId,
-            { booking: new mongoose.Types.ObjectId(bookingId) }
-          );
-          booked++;
-        } catch (error) {
-          errors.push(`Error booking ${date}: ${(error as Error).message}`);
-        }
+    for (const date of dates) {
+      const checkIn = InventoryRepository.normalizeDate(date);
+      const checkOut = new Date(checkIn);
+      checkOut.setDate(checkOut.getDate() + 1);
+
+      try {
+        await inventoryReservationService.reserve({
+          propertyId,
+          roomId,
+          checkIn,
+          checkOut,
+          bookingId: new mongoose.Types.ObjectId(bookingId),
+          channel: channel === CalendarChannel.ALL ? CalendarChannel.DIRECT : channel
+        });
+        booked++;
+      } catch (error) {
+        errors.push(`Error booking ${checkIn.toISOString()}: ${(error as Error).message}`);
       }
+    }
 
-      logger.info(`Marked ${booked} dates as booked with ${errors.length} errors`);
+    logger.info(`Marked ${booked} dates as booked with ${errors.length} errors`);
 
-      return { booked, errors };
-    } catch (error) {
-      logger.error('Error marking dates as booked:', error);
-      throw createError.calendar(`Mark as booked failed: ${(error as Error).message}`);
-    }
+    return { booked, errors };
   }
 
   /**
@@ -517,39 +486,34 @@ class AvailabilityService {
     propertyId: string,
     roomId: string,
     dates: Date[],
-    channel: CalendarChannel,
-    userId?: string
+    bookingId: string
   ): Promise<{ released: number; errors: string[] }> {
-    try {
-      logger.info(`Releasing ${dates.length} booked dates`);
+    logger.info(`Releasing ${dates.length} booked dates`);
 
-      let released = 0;
-      const errors: string[] = [];
+    let released = 0;
+    const errors: string[] = [];
 
-      for (const date of dates) {
-        try {
-          await this.updateAvailability(
-            propertyId,
-            roomId,
-            date,
-            CalendarStatus.AVAILABLE,
-            channel,
-            userId,
-            { booking: undefined }
-          );
-          released++;
-        } catch (error) {
-          errors.push(`Error releasing ${date}: ${(error as Error).message}`);
-        }
+    for (const date of dates) {
+      const checkIn = InventoryRepository.normalizeDate(date);
+      const checkOut = new Date(checkIn);
+      checkOut.setDate(checkOut.getDate() + 1);
+
+      try {
+        released += await inventoryReservationService.release({
+          propertyId,
+          roomId,
+          checkIn,
+          checkOut,
+          bookingId: new mongoose.Types.ObjectId(bookingId)
+        });
+      } catch (error) {
+        errors.push(`Error releasing ${checkIn.toISOString()}: ${(error as Error).message}`);
       }
+    }
 
-      logger.info(`Released ${released} dates with ${errors.length} errors`);
+    logger.info(`Released ${released} dates with ${errors.length} errors`);
 
-      return { released, errors };
-    } catch (error) {
-      logger.error('Error releasing booked dates:', error);
-      throw createError.calendar(`Release dates failed: ${(error as Error).message}`);
-    }
+    return { released, errors };
   }
 
   /**
@@ -568,11 +532,12 @@ class AvailabilityService {
     occupancyRate: number;
   }> {
     try {
-      const calendars = await Calendar.find({
-        property: propertyId,
-        room: roomId,
+      const nights = await inventoryRepository.findNights({
+        propertyId,
+        roomId,
         date: { $gte: startDate, $lte: endDate }
       });
+      const calendars = nights.map(night => inventoryRepository.toCalendarEntry(night));
 
       const totalDays = Math.ceil(
         (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
@@ -584,7 +549,10 @@ class AvailabilityService {
         [CalendarStatus.BLOCKED, CalendarStatus.MAINTENANCE, CalendarStatus.OUT_OF_ORDER].includes(c.status)
       ).length;
 
-      const occupancyRate = totalDays > 0 ? (bookedDays / totalDays) * 100 : 0;
+      // Occupancy over room-nights: a 4-unit room type with 2 sold is 50% occupied
+      const soldRoomNights = nights.reduce((sum, night) => sum + night.bookedRooms.length, 0);
+      const totalRoomNights = nights.reduce((sum, night) => sum + night.totalRooms, 0);
+      const occupancyRate = totalRoomNights > 0 ? (soldRoomNights / totalRoomNights) * 100 : 0;
 
       return {
         totalDays,
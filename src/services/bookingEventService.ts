@@ -0,0 +1,87 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { IBookingModification, BookingStatus } from '../models/Booking';
+import { logger } from '../config/logger';
+
+// Booking event names
+export enum BookingEvent {
+  MODIFIED = 'booking.modified',
+  STATUS_CHANGED = 'booking.status_changed'
+}
+
+// Payload of a booking modification
+export interface IBookingModifiedEvent {
+  bookingId: mongoose.Types.ObjectId;
+  propertyId: mongoose.Types.ObjectId;
+  modification: IBookingModification;
+}
+
+// Payload of a booking status change
+export interface IBookingStatusChangedEvent {
+  bookingId: mongoose.Types.ObjectId;
+  propertyId: mongoose.Types.ObjectId;
+  groupId?: mongoose.Types.ObjectId;
+  from: BookingStatus;
+  to: BookingStatus;
+}
+
+type Listener<T> = (event: T) => Promise<void> | void;
+
+/**
+ * Booking Event Service
+ *
+ * In-process publish/subscribe for booking lifecycle events, so side effects
+ * such as guest emails stay out of the code paths that change bookings.
+ * Listener failures are logged and never reach the publisher.
+ */
+class BookingEventService {
+  private emitter = new EventEmitter();
+
+  /**
+   * Publish a booking modification
+   */
+  public emitModified(event: IBookingModifiedEvent): void {
+    this.emitter.emit(BookingEvent.MODIFIED, event);
+  }
+
+  /**
+   * Subscribe to booking modifications
+   */
+  public onModified(listener: Listener<IBookingModifiedEvent>): void {
+    this.subscribe(BookingEvent.MODIFIED, listener);
+  }
+
+  /**
+   * Publish a booking status change
+   */
+  public emitStatusChanged(event: IBookingStatusChangedEvent): void {
+    this.emitter.emit(BookingEvent.STATUS_CHANGED, event);
+  }
+
+  /**
+   * Subscribe to booking status changes
+   */
+  public onStatusChanged(listener: Listener<IBookingStatusChangedEvent>): void {
+    this.subscribe(BookingEvent.STATUS_CHANGED, listener);
+  }
+
+  /**
+   * Drop every listener (tests and shutdown)
+   */
+  public removeAllListeners(): void {
+    this.emitter.removeAllListeners();
+  }
+
+  private subscribe<T>(event: BookingEvent, listener: Listener<T>): void {
+    this.emitter.on(event, (payload: T) => {
+      Promise.resolve()
+        .then(() => listener(payload))
+        .catch(error => logger.error(`Booking event listener for ${event} failed:`, error));
+    });
+  }
+}
+
+// Singleton instance
+export const bookingEventService = new BookingEventService();
+export { BookingEventService };
+export default bookingEventService;
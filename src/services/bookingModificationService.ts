@@ -0,0 +1,294 @@
+import mongoose from 'mongoose';
+import Booking, {
+  IBooking,
+  IBookingModification,
+  IBookingSnapshot,
+  IGuestCount,
+  IPricing,
+  BookingStatus
+} from '../models/Booking';
+import Property from '../models/Property';
+import { InventoryRepository } from './inventoryRepository';
+import { inventoryReservationService } from './inventoryReservationService';
+import { stayRestrictionService } from './stayRestrictionService';
+import { bookingPricingService, IStayPrice } from './bookingPricingService';
+import { unitAssignmentService } from './unitAssignmentService';
+import { bookingEventService } from './bookingEventService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+// Bookings whose stay can still change
+const MODIFIABLE_BOOKING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.CONFIRMED,
+  BookingStatus.MODIFIED,
+  BookingStatus.CHECKED_IN
+];
+
+// Requested changes; omitted fields keep their current value
+export interface IBookingModificationRequest {
+  checkIn?: Date;
+  checkOut?: Date;
+  roomId?: string | mongoose.Types.ObjectId;
+  guests?: Partial<IGuestCount>;
+  ratePlanId?: string | mongoose.Types.ObjectId;
+  reprice?: boolean; // Defaults to true
+  reason?: string;
+}
+
+// Who is modifying and which checks apply
+export interface IBookingModificationOptions {
+  userId?: string;
+  enforceRestrictions?: boolean; // Guest-facing changes obey stay restrictions
+}
+
+// Modification outcome
+export interface IBookingModificationResult {
+  booking: IBooking;
+  modification: IBookingModification;
+}
+
+/**
+ * Booking Modification Service
+ *
+ * Changes the dates, room type or party of an existing booking. The new stay
+ * is claimed before anything is written, through the same all-or-nothing
+ * inventory path as new bookings, and only the nights it drops are released.
+ * The booking is repriced, the before/after state is kept in its modification
+ * history, and a modification event is published for guest communication.
+ */
+class BookingModificationService {
+  /**
+   * Modify a booking's stay and reprice it
+   */
+  public async modifyBooking(
+    bookingId: string | mongoose.Types.ObjectId,
+    request: IBookingModificationRequest,
+    options: IBookingModificationOptions = {}
+  ): Promise<IBookingModificationResult> {
+    const booking = await Booking.findById(bookingId);
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    if (!MODIFIABLE_BOOKING_STATUSES.includes(booking.status)) {
+      throw createError.booking(`Cannot modify a ${booking.status} booking`);
+    }
+
+    const checkIn = request.checkIn ?? booking.checkIn;
+    const checkOut = request.checkOut ?? booking.checkOut;
+    const roomId = request.roomId ? new mongoose.Types.ObjectId(request.roomId.toString()) : booking.room;
+    const guests: IGuestCount = {
+      adults: request.guests?.adults ?? booking.guests.adults,
+      children: request.guests?.children ?? booking.guests.children,
+      infants: request.guests?.infants ?? booking.guests.infants
+    };
+
+    const datesChanged = checkIn.getTime() !== booking.checkIn.getTime() || checkOut.getTime() !== booking.checkOut.getTime();
+    const roomChanged = !roomId.equals(booking.room);
+    const guestsChanged = guests.adults !== booking.guests.adults ||
+      guests.children !== booking.guests.children ||
+      guests.infants !== booking.guests.infants;
+    const stayChanged = datesChanged || roomChanged;
+
+    if (!stayChanged && !guestsChanged && !request.ratePlanId) {
+      throw createError.validation('No changes requested');
+    }
+
+    await this.validateStay(booking, { checkIn, checkOut, roomId, guests, roomChanged });
+
+    if (stayChanged && options.enforceRestrictions) {
+      await stayRestrictionService.assertStayAllowed(booking.property, roomId, checkIn, checkOut, booking.channel);
+    }
+
+    const before = this.snapshot(booking);
+    let pricing: IPricing = before.pricing;
+    let ratePlan = booking.ratePlan;
+
+    if (request.reprice !== false) {
+      const price = await bookingPricingService.priceStay({
+        propertyId: booking.property,
+        roomId,
+        checkIn,
+        checkOut,
+        channel: booking.channel,
+        adults: guests.adults,
+        children: guests.children,
+        infants: guests.infants,
+        ratePlanId: request.ratePlanId,
+        bookedAt: booking.createdAt
+      });
+      pricing = this.reprice(before.pricing, price);
+      ratePlan = price.ratePlan;
+    }
+
+    // Claim the new stay first; a sold-out night leaves the booking untouched
+    const swap = {
+      propertyId: booking.property,
+      bookingId: booking._id,
+      channel: booking.channel,
+      guestName: `${booking.guestInfo.firstName} ${booking.guestInfo.lastName}`,
+      from: { roomId: booking.room, checkIn: booking.checkIn, checkOut: booking.checkOut },
+      to: { roomId, checkIn, checkOut }
+    };
+
+    if (stayChanged) {
+      await inventoryReservationService.swap(swap);
+    }
+
+    const previousStatus = booking.status;
+    booking.checkIn = checkIn;
+    booking.checkOut = checkOut;
+    booking.room = roomId;
+    booking.guests = guests;
+    booking.pricing = pricing;
+    booking.ratePlan = ratePlan;
+    booking.lastModifiedBy = options.userId ? new mongoose.Types.ObjectId(options.userId) : undefined;
+
+    // In-house guests stay checked in; everyone else is marked modified
+    if (booking.status !== BookingStatus.CHECKED_IN && booking.status !== BookingStatus.MODIFIED) {
+      booking.applyStatus(BookingStatus.MODIFIED, { userId: options.userId, reason: request.reason });
+    }
+
+    booking.modifications.push({
+      modifiedAt: new Date(),
+      modifiedBy: booking.lastModifiedBy,
+      previousStatus,
+      reason: request.reason,
+      before,
+      after: this.snapshot(booking),
+      priceDifference: this.round(booking.pricing.total - before.pricing.total)
+    });
+
+    try {
+      await booking.save();
+    } catch (error) {
+      if (stayChanged) {
+        await this.undoSwap(swap);
+      }
+      throw error;
+    }
+
+    if (stayChanged) {
+      await unitAssignmentService.tryReassignBooking(booking);
+    }
+
+    const modification = booking.modifications[booking.modifications.length - 1];
+
+    logger.info(
+      `Booking ${booking._id.toString()} modified by ${options.userId ?? 'guest'} ` +
+      `(price difference ${modification.priceDifference} ${booking.pricing.currency})`
+    );
+
+    bookingEventService.emitModified({
+      bookingId: booking._id,
+      propertyId: booking.property,
+      modification
+    });
+
+    return { booking, modification };
+  }
+
+  private async validateStay(
+    booking: IBooking,
+    stay: { checkIn: Date; checkOut: Date; roomId: mongoose.Types.ObjectId; guests: IGuestCount; roomChanged: boolean }
+  ): Promise<void> {
+    if (stay.checkOut <= stay.checkIn) {
+      throw createError.validation('Check-out date must be after check-in date');
+    }
+
+    if (booking.status === BookingStatus.CHECKED_IN) {
+      if (stay.checkIn.getTime() !== booking.checkIn.getTime()) {
+        throw createError.booking('Cannot change the check-in date of a checked-in booking');
+      }
+      if (stay.roomChanged) {
+        throw createError.booking('Cannot change the room type of a checked-in booking');
+      }
+    } else if (
+      stay.checkIn.getTime() !== booking.checkIn.getTime() &&
+      InventoryRepository.normalizeDate(stay.checkIn) < InventoryRepository.normalizeDate(new Date())
+    ) {
+      throw createError.validation('Check-in date cannot be in the past');
+    }
+
+    const property = await Property.findById(booking.property).select('rooms');
+    const room = property?.rooms.find(r => r._id.equals(stay.roomId));
+
+    if (!room) {
+      throw createError.notFound('Room not found on property');
+    }
+    if (stay.roomChanged && !room.isActive) {
+      throw createError.validation('Room is not available for booking');
+    }
+    if (
+      stay.guests.adults > room.capacity.adults ||
+      stay.guests.children > room.capacity.children ||
+      stay.guests.infants > room.capacity.infants
+    ) {
+      throw createError.validation(`Room ${room.name} cannot accommodate the requested guests`);
+    }
+  }
+
+  /**
+   * Give back the new stay and reclaim the old one after a failed save
+   */
+  private async undoSwap(swap: Parameters<typeof inventoryReservationService.swap>[0]): Promise<void> {
+    try {
+      await inventoryReservationService.swap({ ...swap, from: swap.to, to: swap.from });
+    } catch (error) {
+      logger.error(`Could not restore inventory for booking ${swap.bookingId.toString()} after a failed modification:`, error);
+    }
+  }
+
+  /**
+   * New pricing for the repriced stay. Where tax and fee rules apply they are
+   * levied afresh; otherwise taxes keep their rate and fees are carried over.
+   * Discounts and booked extras are always carried over.
+   */
+  private reprice(previous: IPricing, price: IStayPrice): IPricing {
+    const extras = previous.extras ?? 0;
+
+    if (price.taxes.length > 0) {
+      return {
+        ...price.pricing,
+        discounts: previous.discounts,
+        extras: previous.extras,
+        total: Math.max(0, this.round(price.pricing.total + extras - previous.discounts)),
+        breakdown: price.pricing.breakdown
+          ? { ...price.pricing.breakdown, extras: previous.breakdown?.extras }
+          : undefined
+      };
+    }
+
+    const { roomTotal, currency } = price;
+    const taxRate = previous.baseRate > 0 ? previous.taxes / previous.baseRate : 0;
+    const taxes = this.round(roomTotal * taxRate);
+
+    return {
+      baseRate: roomTotal,
+      taxes,
+      fees: previous.fees,
+      discounts: previous.discounts,
+      extras: previous.extras,
+      total: Math.max(0, this.round(roomTotal + taxes + previous.fees + extras - previous.discounts)),
+      currency,
+      breakdown: previous.breakdown ? { ...previous.breakdown, roomRate: roomTotal } : undefined
+    };
+  }
+
+  // Plain copy of the stay, detached from the live document
+  private snapshot(booking: IBooking): IBookingSnapshot {
+    const { room, checkIn, checkOut, guests, ratePlan, pricing } = booking.toObject<IBooking>();
+
+    return { room, checkIn, checkOut, guests, ratePlan, pricing };
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const bookingModificationService = new BookingModificationService();
+export { BookingModificationService };
+export default bookingModificationService;
@@ -0,0 +1,162 @@
+import mongoose from 'mongoose';
+import Property from '../models/Property';
+import { IPricing } from '../models/Booking';
+import RatePlan, { IRatePlan, RatePlanStatus } from '../models/RatePlan';
+import { InventoryReservationService } from './inventoryReservationService';
+import { InventoryRepository } from './inventoryRepository';
+import { taxRuleService, ITaxLine } from './taxRuleService';
+import { createError } from '../utils/errors';
+
+// Where the nightly rate came from
+export enum PriceSource {
+  RATE_PLAN = 'rate_plan',
+  ROOM_BASE_RATE = 'room_base_rate'
+}
+
+// Stay to price
+export interface IStayPriceRequest {
+  propertyId: string | mongoose.Types.ObjectId;
+  roomId: string | mongoose.Types.ObjectId;
+  checkIn: Date;
+  checkOut: Date;
+  channel: string;
+  adults: number;
+  children?: number;
+  infants?: number;
+  ratePlanId?: string | mongoose.Types.ObjectId; // Force a specific rate plan
+  bookedAt?: Date;
+}
+
+// Priced stay
+export interface IStayPrice {
+  source: PriceSource;
+  ratePlan?: mongoose.Types.ObjectId;
+  ratePlanName?: string;
+  nights: number;
+  nightlyRate: number;
+  roomTotal: number;
+  currency: string;
+  taxes: ITaxLine[];
+  pricing: IPricing; // Room rate with the property's taxes and fees levied
+}
+
+/**
+ * Booking Pricing Service
+ *
+ * Prices a stay the same way the rate calculator does: the highest priority
+ * active rate plan of the room type that is valid for the dates and open to
+ * the channel, falling back to the room type's base rate when no plan applies.
+ * The property's tax and fee rules are then levied on the room total.
+ */
+class BookingPricingService {
+  /**
+   * Price the room for every night of the stay
+   */
+  public async priceStay(request: IStayPriceRequest): Promise<IStayPrice> {
+    const checkIn = InventoryRepository.normalizeDate(request.checkIn);
+    const checkOut = InventoryRepository.normalizeDate(request.checkOut);
+    const nights = InventoryReservationService.getStayDates(checkIn, checkOut).length;
+
+    if (nights === 0) {
+      throw createError.validation('Check-out date must be after check-in date');
+    }
+
+    const property = await Property.findById(request.propertyId).select('rooms');
+    const room = property?.rooms.find(r => r._id.toString() === request.roomId.toString());
+    if (!room) {
+      throw createError.notFound('Room not found');
+    }
+
+    const advanceDays = Math.max(
+      0,
+      Math.round((checkIn.getTime() - InventoryRepository.normalizeDate(request.bookedAt ?? new Date()).getTime()) / 86400000)
+    );
+
+    const ratePlan = await this.findRatePlan(request, checkIn, checkOut);
+    if (ratePlan) {
+      const nightlyRate = this.round(ratePlan.calculateRate(checkIn, checkOut, request.adults, advanceDays));
+      const roomTotal = this.round(nightlyRate * nights);
+
+      return {
+        source: PriceSource.RATE_PLAN,
+        ratePlan: ratePlan._id as mongoose.Types.ObjectId,
+        ratePlanName: ratePlan.name,
+        nights,
+        nightlyRate,
+        roomTotal,
+        currency: ratePlan.currency,
+        ...await this.levy(request, checkIn, checkOut, roomTotal, ratePlan.currency, ratePlan)
+      };
+    }
+
+    const roomTotal = this.round(room.baseRate * nights);
+
+    return {
+      source: PriceSource.ROOM_BASE_RATE,
+      nights,
+      nightlyRate: room.baseRate,
+      roomTotal,
+      currency: room.currency,
+      ...await this.levy(request, checkIn, checkOut, roomTotal, room.currency, null)
+    };
+  }
+
+  private async levy(
+    request: IStayPriceRequest,
+    checkIn: Date,
+    checkOut: Date,
+    roomTotal: number,
+    currency: string,
+    ratePlan: IRatePlan | null
+  ): Promise<Pick<IStayPrice, 'taxes' | 'pricing'>> {
+    const { lines, pricing } = await taxRuleService.calculate({
+      propertyId: request.propertyId,
+      checkIn,
+      checkOut,
+      guests: { adults: request.adults, children: request.children, infants: request.infants },
+      roomTotal,
+      currency,
+      ratePlan
+    });
+
+    return { taxes: lines, pricing };
+  }
+
+  private async findRatePlan(request: IStayPriceRequest, checkIn: Date, checkOut: Date): Promise<IRatePlan | null> {
+    if (request.ratePlanId) {
+      const ratePlan = await RatePlan.findOne({
+        _id: request.ratePlanId,
+        property: request.propertyId,
+        room: request.roomId
+      });
+
+      if (!ratePlan) {
+        throw createError.notFound('Rate plan not found for this room');
+      }
+      if (!ratePlan.isValidForDates(checkIn, checkOut) || !ratePlan.canBeApplied(request.channel)) {
+        throw createError.ratePlan(`Rate plan ${ratePlan.name} cannot be used for this stay`);
+      }
+
+      return ratePlan;
+    }
+
+    const ratePlans = await RatePlan.find({
+      property: request.propertyId,
+      room: request.roomId,
+      status: RatePlanStatus.ACTIVE,
+      validFrom: { $lte: checkIn },
+      validTo: { $gte: checkOut }
+    }).sort({ priority: -1 });
+
+    return ratePlans.find(plan => plan.isValidForDates(checkIn, checkOut) && plan.canBeApplied(request.channel)) ?? null;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const bookingPricingService = new BookingPricingService();
+export { BookingPricingService };
+export default bookingPricingService;
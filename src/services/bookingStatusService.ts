@@ -0,0 +1,212 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking, IStatusChangeOptions, BookingStatus, StatusChangeSource } from '../models/Booking';
+import { InventoryRepository } from './inventoryRepository';
+import { inventoryReservationService } from './inventoryReservationService';
+import { unitAssignmentService } from './unitAssignmentService';
+import { bookingEventService } from './bookingEventService';
+import { folioService } from './folioService';
+import { cancellationPolicyService } from './cancellationPolicyService';
+import { promotionService } from './promotionService';
+import { extraService } from './extraService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+// Status change request
+export interface IStatusTransitionOptions extends IStatusChangeOptions {
+  override?: boolean; // Admins may cancel past the cancellation cutoff
+  allowBalanceDue?: boolean; // Check out with money owed, flagging the folio
+  waivePenalty?: boolean; // Cancel or no-show without the policy's penalty
+}
+
+/**
+ * Booking Status Service
+ *
+ * The single way to move a booking between statuses. The model's transition
+ * table decides which changes are legal at all; this service adds the guards
+ * that depend on dates and policy (no arrival before the check-in date, no
+ * cancellation past the cutoff, no check-out with an unpaid folio) and the
+ * side effects: a cancelled, no-show or early-departed stay always gives its
+ * nights back, a cancelled or no-show stay gives back the daily inventory
+ * of its extras and is charged its policy penalty on the folio instead of
+ * its price, and a cancelled stay gives its promotion codes back.
+ */
+class BookingStatusService {
+  /**
+   * Change a booking's status, recording who did it and why
+   */
+  public async transition(
+    bookingOrId: IBooking | string | mongoose.Types.ObjectId,
+    newStatus: BookingStatus,
+    options: IStatusTransitionOptions = {}
+  ): Promise<IBooking> {
+    const booking = await this.getBooking(bookingOrId);
+    const previousStatus = booking.status;
+
+    if (!booking.canTransitionTo(newStatus)) {
+      throw createError.statusTransition(`Cannot change booking status from ${previousStatus} to ${newStatus}`);
+    }
+
+    this.assertGuards(booking, newStatus, options);
+    const balanceDue = newStatus === BookingStatus.CHECKED_OUT && await this.assertBalanceSettled(booking, options);
+
+    // Walk-in style arrivals may not have been placed yet
+    if (newStatus === BookingStatus.CHECKED_IN && !booking.unit) {
+      await unitAssignmentService.tryAssignBooking(booking);
+    }
+
+    if (newStatus === BookingStatus.CANCELLED || newStatus === BookingStatus.NO_SHOW) {
+      const quote = await cancellationPolicyService.quote(booking, {
+        noShow: newStatus === BookingStatus.NO_SHOW,
+        waive: options.waivePenalty
+      });
+      booking.cancellationCharge = cancellationPolicyService.toCharge(quote);
+    }
+
+    booking.applyStatus(newStatus, options);
+    await booking.save();
+
+    await this.applySideEffects(booking, newStatus, options);
+    if (balanceDue) {
+      await folioService.flagBalanceDue(booking, options.userId);
+    }
+
+    bookingEventService.emitStatusChanged({
+      bookingId: booking._id,
+      propertyId: booking.property,
+      groupId: booking.group,
+      from: previousStatus,
+      to: newStatus
+    });
+
+    logger.info(
+      `Booking ${booking._id.toString()} status changed from ${previousStatus} to ${newStatus} ` +
+      `by ${options.userId ?? options.source ?? StatusChangeSource.STAFF}`
+    );
+
+    return booking;
+  }
+
+  private assertGuards(booking: IBooking, newStatus: BookingStatus, options: IStatusTransitionOptions): void {
+    const today = InventoryRepository.normalizeDate(new Date());
+    const checkIn = InventoryRepository.normalizeDate(booking.checkIn);
+    const checkOut = InventoryRepository.normalizeDate(booking.checkOut);
+
+    switch (newStatus) {
+      case BookingStatus.CHECKED_IN:
+        if (today < checkIn) {
+          throw createError.statusTransition('Booking cannot be checked in before its check-in date');
+        }
+        if (today >= checkOut) {
+          throw createError.statusTransition('Booking cannot be checked in on or after its check-out date');
+        }
+        break;
+      case BookingStatus.NO_SHOW:
+        if (today < checkIn) {
+          throw createError.statusTransition('Booking cannot be marked as a no-show before its check-in date');
+        }
+        break;
+      case BookingStatus.CANCELLED:
+        // OTA and system cancellations follow the channel's own policy
+        if (!options.override && this.isPolicyBound(options.source) && !booking.canBeCancelled()) {
+          throw createError.statusTransition('Booking can no longer be cancelled');
+        }
+        break;
+    }
+  }
+
+  /**
+   * Block check-out while the guest owes money, unless it is allowed (or the
+   * channel or system checks the guest out); returns whether a balance is due
+   */
+  private async assertBalanceSettled(booking: IBooking, options: IStatusTransitionOptions): Promise<boolean> {
+    const balance = await folioService.getBalance(booking);
+    if (balance <= 0) {
+      return false;
+    }
+
+    if (!options.allowBalanceDue && this.isPolicyBound(options.source)) {
+      throw createError.statusTransition(
+        `Booking cannot be checked out with an outstanding balance of ${balance} ${booking.pricing.currency}`,
+        [{ field: 'balance', message: 'Settle the folio before check-out', value: balance }]
+      );
+    }
+
+    return true;
+  }
+
+  private isPolicyBound(source?: StatusChangeSource): boolean {
+    return source === undefined || source === StatusChangeSource.STAFF || source === StatusChangeSource.GUEST;
+  }
+
+  private async applySideEffects(booking: IBooking, newStatus: BookingStatus, options: IStatusTransitionOptions): Promise<void> {
+    switch (newStatus) {
+      case BookingStatus.CANCELLED:
+      case BookingStatus.NO_SHOW:
+        await this.releaseInventory(booking, booking.checkIn);
+        await unitAssignmentService.tryReleaseBooking(booking._id);
+        await extraService.tryReleaseBooking(booking._id);
+        await this.settleFolio(booking, options);
+        // A cancelled stay gives its promotion codes back; a no-show used them
+        if (newStatus === BookingStatus.CANCELLED) {
+          await promotionService.tryReleaseBooking(booking._id);
+        }
+        break;
+      case BookingStatus.CHECKED_OUT: {
+        // Early departures give the nights they no longer use back
+        const today = InventoryRepository.normalizeDate(new Date());
+        if (today < InventoryRepository.normalizeDate(booking.checkOut)) {
+          await this.releaseInventory(booking, today > booking.checkIn ? today : booking.checkIn);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Release the booking's nights from a date to check-out; the status change
+   * already stands, so a failure is left for inventory reconciliation
+   */
+  private async releaseInventory(booking: IBooking, from: Date): Promise<void> {
+    try {
+      await inventoryReservationService.release({
+        propertyId: booking.property,
+        roomId: booking.room,
+        checkIn: from,
+        checkOut: booking.checkOut,
+        bookingId: booking._id
+      });
+    } catch (error) {
+      logger.error(`Inventory release failed for booking ${booking._id.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Swap the stay charges for the penalty; like inventory, a failure is
+   * logged and left to be re-synced rather than undoing the status change
+   */
+  private async settleFolio(booking: IBooking, options: IStatusTransitionOptions): Promise<void> {
+    try {
+      await folioService.syncWithBooking(booking, options.userId);
+    } catch (error) {
+      logger.error(`Folio settlement failed for booking ${booking._id.toString()}:`, error);
+    }
+  }
+
+  private async getBooking(bookingOrId: IBooking | string | mongoose.Types.ObjectId): Promise<IBooking> {
+    if (bookingOrId instanceof Booking) {
+      return bookingOrId;
+    }
+
+    const booking = await Booking.findById(bookingOrId);
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    return booking;
+  }
+}
+
+// Singleton instance
+export const bookingStatusService = new BookingStatusService();
+export { BookingStatusService };
+export default bookingStatusService;
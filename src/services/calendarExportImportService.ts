@@ -1,9 +1,9 @@
-import Calendar, { ICalendar, CalendarStatus, CalendarChannel } from '../models/Calendar';
+import { CalendarStatus, CalendarChannel } from '../models/Calendar';
+import { inventoryRepository, ICalendarEntry } from './inventoryRepository';
 import { logger } from '../config/logger';
 import { createError } from '../utils/errors';
 import { Parser } from 'json2csv';
 import iCal, { ICalEventStatus } from 'ical-generator';
-import mongoose from 'mongoose';
 
 // Export format enum
 export enum ExportFormat {
@@ -37,11 +37,11 @@ class CalendarExportImportService {
       logger.info(`Exporting calendar: property ${propertyId}, room ${roomId}, format ${format}`);
 
       // Get calendar data
-      const calendars = await Calendar.find({
-        property: propertyId,
-        room: roomId,
+      const calendars = await inventoryRepository.findCalendarEntries({
+        propertyId,
+        roomId,
         date: { $gte: startDate, $lte: endDate }
-      }).sort({ date: 1 }).populate('property room booking');
+      });
 
       // Export based on format
       switch (format) {
@@ -63,7 +63,7 @@ class CalendarExportImportService {
   /**
    * Export to JSON
    */
-  private exportToJSON(calendars: ICalendar[]): string {
+  private exportToJSON(calendars: ICalendarEntry[]): string {
     const data = calendars.map(cal => ({
       date: cal.date,
       status: cal.status,
@@ -82,7 +82,7 @@ class CalendarExportImportService {
   /**
    * Export to CSV
    */
-  private exportToCSV(calendars: ICalendar[]): string {
+  private exportToCSV(calendars: ICalendarEntry[]): string {
     const fields = [
       'date',
       'status',
@@ -114,7 +114,7 @@ class CalendarExportImportService {
   /**
    * Export to iCal format
    */
-  private exportToiCal(calendars: ICalendar[]): string {
+  private exportToiCal(calendars: ICalendarEntry[]): string {
     const calendar = iCal({ name: 'Property Calendar', timezone: 'UTC' });
 
     for (const cal of calendars) {
@@ -222,41 +222,21 @@ class CalendarExportImportService {
           throw new Error('Invalid date format');
         }
 
-        // Check if calendar entry exists
-        let calendar = await Calendar.findOne({
-          property: propertyId,
-          room: roomId,
-          date
+        const existing = await inventoryRepository.findNight(propertyId, roomId, date);
+
+        await inventoryRepository.updateNights(propertyId, roomId, [date], {
+          channel,
+          status: (row.status as CalendarStatus) || (existing ? undefined : CalendarStatus.AVAILABLE),
+          rate: row.rate ? Number(row.rate) : undefined,
+          currency: (row.currency as string) || undefined,
+          minStay: row.minStay ? Number(row.minStay) : undefined,
+          maxStay: row.maxStay ? Number(row.maxStay) : undefined,
+          userId
         });
 
-        if (calendar) {
-          // Update existing
-          calendar.status = (row.status as CalendarStatus) || calendar.status;
-          calendar.rate = row.rate ? Number(row.rate) : calendar.rate;
-          calendar.currency = (row.currency as string) || calendar.currency;
-          calendar.minStay = row.minStay ? Number(row.minStay) : calendar.minStay;
-          calendar.maxStay = row.maxStay ? Number(row.maxStay) : calendar.maxStay;
-          calendar.channel = channel;
-          if (userId) calendar.lastUpdatedBy = new mongoose.Types.ObjectId(userId);
-
-          await calendar.save();
+        if (existing) {
           updated++;
         } else {
-          // Create new
-          calendar = new Calendar({
-            property: propertyId,
-            room: roomId,
-            date,
-            status: (row.status as CalendarStatus) || CalendarStatus.AVAILABLE,
-            rate: row.rate ? Number(row.rate) : undefined,
-            currency: (row.currency as string) || 'USD',
-            minStay: row.minStay ? Number(row.minStay) : 1,
-            maxStay: row.maxStay ? Number(row.maxStay) : undefined,
-            channel,
-            lastUpdatedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined
-          });
-
-          await calendar.save();
           imported++;
         }
       } catch (error) {
@@ -1,4 +1,5 @@
-import Calendar, { ICalendar, CalendarStatus, CalendarChannel } from '../models/Calendar';
+import { ICalendar, CalendarStatus, CalendarChannel } from '../models/Calendar';
+import { inventoryRepository, ICalendarEntry, IInventoryUpdate } from './inventoryRepository';
 import { logger } from '../config/logger';
 import { createError } from '../utils/errors';
 import mongoose from 'mongoose';
@@ -101,12 +102,8 @@ class CalendarSyncService {
             continue;
           }
 
-          // Check for existing calendar entry
-          const existing = await Calendar.findOne({
-            property: propertyId,
-            room: roomId,
-            date: data.date
-          });
+          // Check the pooled night shared by every channel
+          const existing = await inventoryRepository.findCalendarEntry(propertyId, roomId, data.date);
 
           if (existing) {
             // Detect conflicts
@@ -125,7 +122,7 @@ class CalendarSyncService {
               }
             } else {
               // No conflict, update
-              await this.updateCalendar(existing, data, channel);
+              await this.updateCalendar(existing.property, existing.room, existing.date, data, channel);
               synced++;
             }
           } else {
@@ -177,12 +174,13 @@ class CalendarSyncService {
     try {
       logger.info(`Syncing calendar to channel ${channel} for property ${propertyId}, room ${roomId}`);
 
-      // Get calendar data for date range
-      const calendars = await Calendar.find({
-        property: propertyId,
-        room: roomId,
-        date: { $gte: startDate, $lte: endDate }
-      }).sort({ date: 1 });
+      // Get the channel's view of the pooled inventory for the date range
+      const calendars = await inventoryRepository.findCalendarEntries({
+        propertyId,
+        roomId,
+        date: { $gte: startDate, $lte: endDate },
+        channel
+      });
 
       // Transform to channel-specific format
       const channelData = calendars.map(cal => this.transformToChannelFormat(cal, channel));
@@ -200,7 +198,7 @@ class CalendarSyncService {
    * Detect conflicts between existing and incoming calendar data
    */
   private detectConflict(
-    existing: ICalendar,
+    existing: ICalendarEntry,
     incoming: Partial<ICalendar>,
     channel: CalendarChannel
   ): ISyncConflict | null {
@@ -316,19 +314,11 @@ class CalendarSyncService {
 
     if (incomingPriority > existingPriority) {
       // Incoming has higher priority, update
-      const calendar = await Calendar.findOne({
-        property: conflict.property,
-        room: conflict.room,
-        date: conflict.date
-      });
-
-      if (calendar) {
-        await this.updateCalendar(calendar, conflict.details.incoming, incomingChannel);
-        conflict.resolved = true;
-        conflict.resolvedAt = new Date();
-        conflict.resolution = ConflictResolutionStrategy.CHANNEL_PRIORITY;
-        return true;
-      }
+      await this.updateCalendar(conflict.property, conflict.room, conflict.date, conflict.details.incoming, incomingChannel);
+      conflict.resolved = true;
+      conflict.resolvedAt = new Date();
+      conflict.resolution = ConflictResolutionStrategy.CHANNEL_PRIORITY;
+      return true;
     }
 
     // Existing has higher or equal priority, keep existing
@@ -343,74 +333,59 @@ class CalendarSyncService {
    */
   private async resolveByLatestUpdate(conflict: ISyncConflict): Promise<boolean> {
     // Always prefer incoming data (latest update)
-    const calendar = await Calendar.findOne({
-      property: conflict.property,
-      room: conflict.room,
-      date: conflict.date
-    });
-
-    if (calendar) {
-      await this.updateCalendar(calendar, conflict.details.incoming, conflict.details.channel);
-      conflict.resolved = true;
-      conflict.resolvedAt = new Date();
-      conflict.resolution = ConflictResolutionStrategy.LATEST_UPDATE;
-      return true;
-    }
-
-    return false;
+    await this.updateCalendar(conflict.property, conflict.room, conflict.date, conflict.details.incoming, conflict.details.channel);
+    conflict.resolved = true;
+    conflict.resolvedAt = new Date();
+    conflict.resolution = ConflictResolutionStrategy.LATEST_UPDATE;
+    return true;
   }
 
   /**
    * Resolve conflict by merging data
    */
   private async resolveByMerge(conflict: ISyncConflict): Promise<boolean> {
-    const calendar = await Calendar.findOne({
-      property: conflict.property,
-      room: conflict.room,
-      date: conflict.date
-    });
-
-    if (calendar) {
-      // Merge logic: take non-null values from incoming, keep existing otherwise
-      const merged = {
-        ...conflict.details.existing,
-        ...Object.fromEntries(
-          Object.entries(conflict.details.incoming).filter(([_, v]) => v != null)
-        )
-      };
-
-      await this.updateCalendar(calendar, merged, conflict.details.channel);
-      conflict.resolved = true;
-      conflict.resolvedAt = new Date();
-      conflict.resolution = ConflictResolutionStrategy.MERGE;
-      return true;
-    }
+    // Merge logic: take non-null values from incoming, keep existing otherwise
+    const merged = {
+      ...conflict.details.existing,
+      ...Object.fromEntries(
+        Object.entries(conflict.details.incoming).filter(([_, v]) => v != null)
+      )
+    };
 
-    return false;
+    await this.updateCalendar(conflict.property, conflict.room, conflict.date, merged, conflict.details.channel);
+    conflict.resolved = true;
+    conflict.resolvedAt = new Date();
+    conflict.resolution = ConflictResolutionStrategy.MERGE;
+    return true;
   }
 
   /**
-   * Update calendar entry
+   * Write channel calendar data to the pooled inventory night
+   *
+   * Blocks close only the syncing channel; BOOKED is derived from the pool's
+   * bookings and is not written here.
    */
   private async updateCalendar(
-    calendar: ICalendar,
+    propertyId: string | mongoose.Types.ObjectId,
+    roomId: string | mongoose.Types.ObjectId,
+    date: Date,
     data: Partial<ICalendar>,
     channel: CalendarChannel
   ): Promise<void> {
-    if (data.status !== undefined) calendar.status = data.status;
-    if (data.rate !== undefined) calendar.rate = data.rate;
-    if (data.currency !== undefined) calendar.currency = data.currency;
-    if (data.minStay !== undefined) calendar.minStay = data.minStay;
-    if (data.maxStay !== undefined) calendar.maxStay = data.maxStay;
-    if (data.blockReason !== undefined) calendar.blockReason = data.blockReason;
-    if (data.blockDescription !== undefined) calendar.blockDescription = data.blockDescription;
-    if (data.rateOverride !== undefined) calendar.rateOverride = data.rateOverride;
-    if (data.booking !== undefined) calendar.booking = data.booking;
-
-    calendar.channel = channel;
-    await calendar.save();
-
-    logger.debug(`Updated calendar for ${calendar.date} on channel ${channel}`);
+    const update: IInventoryUpdate = {
+      channel,
+      status: data.status,
+      rate: data.rateOverride?.rate ?? data.rate,
+      currency: data.rateOverride?.currency ?? data.currency,
+      minStay: data.minStay,
+      maxStay: data.maxStay,
+      blockReason: data.blockReason,
+      blockDescription: data.blockDescription
+    };
+
+    await inventoryRepository.updateNights(propertyId, roomId, [date], update);
+
+    logger.debug(`Updated inventory for ${date.toISOString()} on channel ${channel}`);
   }
 
   /**
@@ -422,29 +397,17 @@ class CalendarSyncService {
     data: Partial<ICalendar>,
     channel: CalendarChannel
   ): Promise<void> {
-    const calendar = new Calendar({
-      property: propertyId,
-      room: roomId,
-      date: data.date,
-      status: data.status || CalendarStatus.AVAILABLE,
-      rate: data.rate,
-      currency: data.currency,
-      minStay: data.minStay || 1,
-      maxStay: data.maxStay,
-      channel,
-      rateOverride: data.rateOverride,
-      booking: data.booking
-    });
-
-    await calendar.save();
-    logger.debug(`Created calendar for ${calendar.date} on channel ${channel}`);
+    await this.updateCalendar(propertyId, roomId, data.date!, {
+      ...data,
+      status: data.status || CalendarStatus.AVAILABLE
+    }, channel);
   }
 
   /**
    * Transform calendar data to channel-specific format
    */
   private transformToChannelFormat(
-    calendar: ICalendar,
+    calendar: ICalendarEntry,
     channel: CalendarChannel
   ): Partial<ICalendar> {
     // Base transformation
@@ -560,24 +523,14 @@ class CalendarSyncService {
     }
 
     try {
-      const calendar = await Calendar.findOne({
-        property: conflict.property,
-        room: conflict.room,
-        date: conflict.date
-      });
-
-      if (calendar) {
-        await this.updateCalendar(calendar, resolution, conflict.details.channel);
-        conflict.resolved = true;
-        conflict.resolvedAt = new Date();
-        conflict.resolvedBy = new mongoose.Types.ObjectId(userId);
-        conflict.resolution = ConflictResolutionStrategy.MANUAL;
-
-        logger.info(`Conflict ${conflictId} manually resolved by user ${userId}`);
-        return true;
-      }
+      await this.updateCalendar(conflict.property, conflict.room, conflict.date, resolution, conflict.details.channel);
+      conflict.resolved = true;
+      conflict.resolvedAt = new Date();
+      conflict.resolvedBy = new mongoose.Types.ObjectId(userId);
+      conflict.resolution = ConflictResolutionStrategy.MANUAL;
 
-      return false;
+      logger.info(`Conflict ${conflictId} manually resolved by user ${userId}`);
+      return true;
     } catch (error) {
       logger.error(`Error manually resolving conflict ${conflictId}:`, error);
       return false;
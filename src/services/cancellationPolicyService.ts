@@ -0,0 +1,222 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking, ICancellationCharge } from '../models/Booking';
+import RatePlan, { IRatePlan, CancellationPolicy, ICancellationPenalty, ICancellationRule } from '../models/RatePlan';
+import { LedgerAccount, roundAmount } from '../models/Folio';
+import { folioService } from './folioService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+// Structured cancellation terms of a policy
+export interface ICancellationTerms {
+  policy: CancellationPolicy;
+  rules: ICancellationRule[]; // Widest window first
+  noShowPenalty: ICancellationPenalty;
+  description?: string; // Free text of a custom policy, for display
+}
+
+// Quote options
+export interface ICancellationQuoteOptions {
+  noShow?: boolean;
+  at?: Date;       // When the cancellation happens, defaults to now
+  waive?: boolean; // Staff waive the penalty
+}
+
+// What cancelling a booking costs
+export interface ICancellationQuote {
+  bookingId: mongoose.Types.ObjectId;
+  policy: CancellationPolicy;
+  currency: string;
+  noShow: boolean;
+  total: number;
+  penalty: number;
+  amountPaid: number;
+  refund: number;
+  balanceDue: number;
+  waived: boolean;
+  appliedRule?: ICancellationRule | ICancellationPenalty;
+  freeCancellationUntil?: Date; // Unset when cancelling is never (or no longer) free
+  description?: string;
+}
+
+// Terms of the built-in policies; hours are counted back from check-in
+export const CANCELLATION_POLICY_PRESETS: Record<CancellationPolicy, Omit<ICancellationTerms, 'policy'>> = {
+  [CancellationPolicy.FREE_CANCELLATION]: {
+    rules: [{ hoursBeforeCheckIn: 24, penaltyType: 'nights', penaltyValue: 1 }],
+    noShowPenalty: { penaltyType: 'nights', penaltyValue: 1 }
+  },
+  [CancellationPolicy.PARTIAL_REFUND]: {
+    rules: [{ hoursBeforeCheckIn: 7 * 24, penaltyType: 'percentage', penaltyValue: 50 }],
+    noShowPenalty: { penaltyType: 'percentage', penaltyValue: 100 }
+  },
+  [CancellationPolicy.NON_REFUNDABLE]: {
+    rules: [{ hoursBeforeCheckIn: Infinity, penaltyType: 'percentage', penaltyValue: 100 }],
+    noShowPenalty: { penaltyType: 'percentage', penaltyValue: 100 }
+  },
+  // Custom policies without structured rules fall back to free cancellation
+  [CancellationPolicy.CUSTOM]: {
+    rules: [{ hoursBeforeCheckIn: 24, penaltyType: 'nights', penaltyValue: 1 }],
+    noShowPenalty: { penaltyType: 'nights', penaltyValue: 1 }
+  }
+};
+
+/**
+ * Cancellation Policy Service
+ *
+ * Turns a rate plan's cancellation policy into structured rules (a deadline
+ * before check-in and a penalty in nights, percent or a fixed amount, plus
+ * the no-show penalty) and prices a cancellation against what the guest has
+ * paid on the folio. Bookings without a rate plan get free cancellation.
+ */
+class CancellationPolicyService {
+  /**
+   * Structured terms of a rate plan's policy
+   */
+  public getTerms(ratePlan?: IRatePlan | null): ICancellationTerms {
+    const policy = ratePlan?.cancellationPolicy ?? CancellationPolicy.FREE_CANCELLATION;
+    const preset = CANCELLATION_POLICY_PRESETS[policy];
+
+    if (policy === CancellationPolicy.CUSTOM && !ratePlan?.cancellationRules?.length) {
+      logger.warn(`Rate plan ${String(ratePlan?._id)} has a custom cancellation policy without rules, using free cancellation`);
+    }
+
+    const rules = policy === CancellationPolicy.CUSTOM && ratePlan?.cancellationRules?.length
+      ? ratePlan.cancellationRules
+      : preset.rules;
+
+    return {
+      policy,
+      rules: [...rules].sort((a, b) => b.hoursBeforeCheckIn - a.hoursBeforeCheckIn),
+      noShowPenalty: ratePlan?.noShowPenalty ?? preset.noShowPenalty,
+      description: ratePlan?.customCancellationPolicy
+    };
+  }
+
+  /**
+   * Terms that apply to a booking
+   */
+  public async getBookingTerms(booking: IBooking): Promise<ICancellationTerms> {
+    const ratePlan = booking.ratePlan ? await RatePlan.findById(booking.ratePlan) : null;
+    return this.getTerms(ratePlan);
+  }
+
+  /**
+   * Price cancelling (or no-showing) a booking without changing anything
+   */
+  public async quote(
+    bookingRef: IBooking | string | mongoose.Types.ObjectId,
+    options: ICancellationQuoteOptions = {}
+  ): Promise<ICancellationQuote> {
+    const booking = await this.getBooking(bookingRef);
+    const terms = await this.getBookingTerms(booking);
+    const at = options.at ?? new Date();
+    const noShow = Boolean(options.noShow);
+
+    const appliedRule = noShow ? terms.noShowPenalty : this.findApplicableRule(terms, booking, at);
+    const waived = Boolean(options.waive);
+    const penalty = appliedRule && !waived ? this.calculatePenalty(booking, appliedRule) : 0;
+
+    const folio = await folioService.getFolio(booking);
+    const amountPaid = folio.accountBalance(LedgerAccount.PAYMENTS_CLEARING);
+
+    return {
+      bookingId: booking._id,
+      policy: terms.policy,
+      currency: booking.pricing.currency,
+      noShow,
+      total: booking.pricing.total,
+      penalty,
+      amountPaid,
+      refund: roundAmount(Math.max(0, amountPaid - penalty)),
+      balanceDue: roundAmount(Math.max(0, penalty - amountPaid)),
+      waived,
+      appliedRule,
+      freeCancellationUntil: noShow ? undefined : this.getFreeCancellationDeadline(terms, booking, at),
+      description: terms.description
+    };
+  }
+
+  /**
+   * The part of a quote kept on the booking
+   */
+  public toCharge(quote: ICancellationQuote): ICancellationCharge {
+    return {
+      policy: quote.policy,
+      noShow: quote.noShow,
+      penalty: quote.penalty,
+      amountPaid: quote.amountPaid,
+      refund: quote.refund,
+      balanceDue: quote.balanceDue,
+      waived: quote.waived,
+      calculatedAt: new Date()
+    };
+  }
+
+  /**
+   * The tightest window the cancellation falls in; none when it is free
+   */
+  private findApplicableRule(terms: ICancellationTerms, booking: IBooking, at: Date): ICancellationRule | undefined {
+    const hoursUntilCheckIn = (booking.checkIn.getTime() - at.getTime()) / (1000 * 60 * 60);
+
+    return terms.rules
+      .filter(rule => hoursUntilCheckIn < rule.hoursBeforeCheckIn)
+      .reduce<ICancellationRule | undefined>(
+        (tightest, rule) => (!tightest || rule.hoursBeforeCheckIn < tightest.hoursBeforeCheckIn ? rule : tightest),
+        undefined
+      );
+  }
+
+  private getFreeCancellationDeadline(terms: ICancellationTerms, booking: IBooking, at: Date): Date | undefined {
+    const widest = terms.rules[0];
+    if (!widest) {
+      return booking.checkIn;
+    }
+    if (!Number.isFinite(widest.hoursBeforeCheckIn)) {
+      return undefined;
+    }
+
+    const deadline = new Date(booking.checkIn.getTime() - widest.hoursBeforeCheckIn * 60 * 60 * 1000);
+    return deadline > at ? deadline : undefined;
+  }
+
+  /**
+   * Penalty of a rule, never more than the stay costs
+   */
+  private calculatePenalty(booking: IBooking, penalty: ICancellationPenalty): number {
+    const total = booking.pricing.total;
+    let amount: number;
+
+    switch (penalty.penaltyType) {
+      case 'nights': {
+        const nights = Math.max(1, booking.getNights());
+        amount = (total / nights) * Math.min(penalty.penaltyValue, nights);
+        break;
+      }
+      case 'percentage':
+        amount = total * (penalty.penaltyValue / 100);
+        break;
+      case 'fixed':
+        amount = penalty.penaltyValue;
+        break;
+    }
+
+    return roundAmount(Math.min(Math.max(0, amount), total));
+  }
+
+  private async getBooking(bookingRef: IBooking | string | mongoose.Types.ObjectId): Promise<IBooking> {
+    if (bookingRef instanceof Booking) {
+      return bookingRef;
+    }
+
+    const booking = await Booking.findById(bookingRef);
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    return booking;
+  }
+}
+
+// Singleton instance
+export const cancellationPolicyService = new CancellationPolicyService();
+export { CancellationPolicyService };
+export default cancellationPolicyService;
@@ -0,0 +1,144 @@
+import { ChannelType, IChannel } from '../models/Channel';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+import { genericRestChannelAdapter } from './genericRestChannelAdapter';
+
+// What an OTA accepts and expects from us
+export interface IChannelAdapterCapabilities {
+  ariGranularity: 'day' | 'range'; // one update per night, or per run of identical nights
+  maxAriBatchSize: number; // updates per push call
+  acknowledgesReservations: boolean; // pulled reservations must be confirmed to stop redelivery
+}
+
+// Availability, rate and restrictions of one OTA room type over a run of nights
+export interface IAriUpdate {
+  externalPropertyId: string;
+  externalRoomId: string;
+  externalRatePlanId?: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  availableUnits?: number;
+  closed?: boolean;
+  rate?: number;
+  currency?: string;
+  minStay?: number;
+  maxStay?: number;
+}
+
+// Outcome of an ARI push; updates the OTA refused are returned with its reason
+export interface IAriPushResult {
+  accepted: number;
+  rejected: Array<{ update: IAriUpdate; message: string }>;
+}
+
+// Reservation as pulled from an OTA, in OTA IDs
+export interface IChannelReservation {
+  externalId: string;
+  status: 'confirmed' | 'modified' | 'cancelled';
+  externalPropertyId: string;
+  externalRoomId?: string;
+  externalRatePlanId?: string;
+  checkIn: string;
+  checkOut: string;
+  guestInfo: {
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+    phone?: string;
+    country?: string;
+  };
+  guests: {
+    adults: number;
+    children: number;
+  };
+  pricing: {
+    nightlyRate?: number;
+    total: number;
+    currency: string;
+  };
+}
+
+// Listing on an OTA with the room types and rate plans that can be mapped
+export interface IChannelListing {
+  externalPropertyId: string;
+  name: string;
+  rooms: Array<{
+    externalRoomId: string;
+    name: string;
+    ratePlans: Array<{ externalRatePlanId: string; name: string }>;
+  }>;
+}
+
+// Connection test outcome
+export interface IConnectionTestResult {
+  connected: boolean;
+  responseTime: number; // milliseconds
+  message: string;
+}
+
+/**
+ * Channel adapter
+ *
+ * Speaks one OTA's API. Failed calls throw a ChannelAdapterError whose
+ * retryable flag tells callers whether the same call may succeed later.
+ */
+export interface IChannelAdapter {
+  readonly name: string;
+  readonly capabilities: IChannelAdapterCapabilities;
+
+  testConnection(channel: IChannel): Promise<IConnectionTestResult>;
+  pushAri(channel: IChannel, updates: IAriUpdate[]): Promise<IAriPushResult>;
+  pullReservations(channel: IChannel, since?: Date): Promise<IChannelReservation[]>;
+  acknowledgeReservation(channel: IChannel, externalId: string): Promise<void>;
+  getListings(channel: IChannel): Promise<IChannelListing[]>;
+}
+
+/**
+ * Channel Adapter Service
+ *
+ * Registry of the adapter used for each channel type. Every OTA starts on
+ * the generic REST adapter; an OTA-specific adapter replaces it by
+ * registering for that channel type.
+ */
+class ChannelAdapterService {
+  private adapters: Map<ChannelType, IChannelAdapter> = new Map();
+
+  constructor() {
+    this.register(genericRestChannelAdapter, [
+      ChannelType.AIRBNB,
+      ChannelType.BOOKING,
+      ChannelType.EXPEDIA,
+      ChannelType.AGODA,
+      ChannelType.VRBO
+    ]);
+  }
+
+  /**
+   * Use an adapter for the channel types, replacing the current one
+   */
+  public register(adapter: IChannelAdapter, channelTypes: ChannelType[]): void {
+    for (const channelType of channelTypes) {
+      this.adapters.set(channelType, adapter);
+    }
+
+    logger.info(`Channel adapter ${adapter.name} registered for ${channelTypes.join(', ')}`);
+  }
+
+  public has(channelType: ChannelType): boolean {
+    return this.adapters.has(channelType);
+  }
+
+  public get(channelType: ChannelType): IChannelAdapter {
+    const adapter = this.adapters.get(channelType);
+
+    if (!adapter) {
+      throw createError.channel(`No channel adapter is available for ${channelType} channels`);
+    }
+
+    return adapter;
+  }
+}
+
+export const channelAdapterService = new ChannelAdapterService();
+export { ChannelAdapterService };
+export default channelAdapterService;
@@ -0,0 +1,322 @@
+import mongoose from 'mongoose';
+import ChannelMapping, { IChannelMapping, IRoomMapping } from '../models/ChannelMapping';
+import { ChannelType } from '../models/Channel';
+import Property, { IProperty, IRoom } from '../models/Property';
+import RatePlan from '../models/RatePlan';
+import { logger } from '../config/logger';
+import { createError, ErrorDetail } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Room type mapping request
+export interface IRoomMappingRequest {
+  roomId: string;
+  externalRoomId: string;
+  ratePlans?: Array<{ ratePlanId: string; externalRatePlanId: string }>;
+}
+
+// Mapping creation request
+export interface IChannelMappingRequest {
+  channelType: ChannelType;
+  propertyId: string;
+  externalPropertyId: string;
+  rooms: IRoomMappingRequest[];
+}
+
+// Mapping update request; rooms replace the current room mappings
+export interface IChannelMappingUpdate {
+  externalPropertyId?: string;
+  rooms?: IRoomMappingRequest[];
+}
+
+// Mapping listing filter
+export interface IChannelMappingFilter {
+  channelType?: ChannelType;
+  propertyId?: string;
+}
+
+// Internal listing an OTA reservation belongs to
+export interface IResolvedListing {
+  property: IProperty;
+  room: IRoom;
+  ratePlanId?: mongoose.Types.ObjectId;
+}
+
+// Active room type without a mapping
+export interface IUnmappedRoom {
+  propertyId: string;
+  propertyName: string;
+  roomId: string;
+  roomName: string;
+  reason: string;
+}
+
+/**
+ * Channel Mapping Service
+ *
+ * Maintains the registry linking our properties, room types and rate plans
+ * to their IDs on each OTA, files inbound reservations through it and
+ * checks that a channel's properties are fully mapped before it goes live.
+ */
+class ChannelMappingService {
+  /**
+   * List mappings, optionally for one OTA or property
+   */
+  public async list(filter: IChannelMappingFilter = {}): Promise<IChannelMapping[]> {
+    const query: mongoose.FilterQuery<IChannelMapping> = {};
+    if (filter.channelType) query.channelType = filter.channelType;
+    if (filter.propertyId) query.property = new mongoose.Types.ObjectId(filter.propertyId);
+
+    return ChannelMapping.find(query).sort({ channelType: 1, createdAt: 1 });
+  }
+
+  public async get(mappingId: ObjectIdLike): Promise<IChannelMapping> {
+    const mapping = await ChannelMapping.findById(mappingId);
+
+    if (!mapping) {
+      throw createError.notFound('Channel mapping not found');
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Map a property to its listing on an OTA
+   */
+  public async create(request: IChannelMappingRequest, userId?: string): Promise<IChannelMapping> {
+    const property = await this.getProperty(request.propertyId);
+    const rooms = await this.buildRoomMappings(property, request.rooms);
+
+    try {
+      const mapping = await ChannelMapping.create({
+        channelType: request.channelType,
+        property: property._id,
+        externalPropertyId: request.externalPropertyId,
+        rooms,
+        ...(userId ? { createdBy: new mongoose.Types.ObjectId(userId) } : {})
+      });
+
+      logger.info(`Channel mapping created: ${property.name} as ${request.channelType} listing ${request.externalPropertyId}`);
+
+      return mapping;
+    } catch (error) {
+      throw this.toDuplicateError(error);
+    }
+  }
+
+  /**
+   * Change the OTA listing ID or replace the room mappings
+   */
+  public async update(mappingId: ObjectIdLike, request: IChannelMappingUpdate, userId?: string): Promise<IChannelMapping> {
+    const mapping = await this.get(mappingId);
+
+    if (request.externalPropertyId !== undefined) {
+      mapping.externalPropertyId = request.externalPropertyId;
+    }
+
+    if (request.rooms !== undefined) {
+      const property = await this.getProperty(mapping.property);
+      mapping.rooms = await this.buildRoomMappings(property, request.rooms);
+    }
+
+    if (userId) {
+      mapping.lastModifiedBy = new mongoose.Types.ObjectId(userId);
+    }
+
+    try {
+      await mapping.save();
+    } catch (error) {
+      throw this.toDuplicateError(error);
+    }
+
+    logger.info(`Channel mapping updated: ${mapping._id.toString()}`);
+
+    return mapping;
+  }
+
+  public async delete(mappingId: ObjectIdLike): Promise<void> {
+    const mapping = await ChannelMapping.findByIdAndDelete(mappingId);
+
+    if (!mapping) {
+      throw createError.notFound('Channel mapping not found');
+    }
+
+    logger.info(`Channel mapping deleted: ${mapping._id.toString()}`);
+  }
+
+  /**
+   * Find the property, room type and rate plan an OTA reservation is for.
+   * Without a room ID the listing must have a single mapped room type; a
+   * rate plan the mapping does not know is left unset rather than refused.
+   */
+  public async resolve(
+    channelType: ChannelType,
+    externalPropertyId: unknown,
+    externalRoomId?: unknown,
+    externalRatePlanId?: unknown
+  ): Promise<IResolvedListing> {
+    if (externalPropertyId === undefined || externalPropertyId === null || externalPropertyId === '') {
+      throw createError.channelMapping(`${channelType} reservation has no property ID`);
+    }
+
+    const mapping = await ChannelMapping.findOne({ channelType, externalPropertyId: String(externalPropertyId) });
+    if (!mapping) {
+      throw createError.channelMapping(`No property is mapped to ${channelType} listing ${String(externalPropertyId)}`);
+    }
+
+    const roomMapping = this.findRoomMapping(mapping, channelType, externalRoomId);
+
+    const property = await Property.findById(mapping.property);
+    const room = property?.rooms.find(entry => entry._id.equals(roomMapping.room));
+    if (!property || !room) {
+      throw createError.channelMapping(`${channelType} listing ${mapping.externalPropertyId} is mapped to a room type that no longer exists`);
+    }
+
+    const ratePlanId = externalRatePlanId !== undefined && externalRatePlanId !== null
+      ? roomMapping.ratePlans.find(entry => entry.externalRatePlanId === String(externalRatePlanId))?.ratePlan
+      : undefined;
+
+    return { property, room, ratePlanId };
+  }
+
+  /**
+   * Active room types of the properties that have no mapping on the OTA
+   */
+  public async getUnmappedRooms(channelType: ChannelType, propertyIds: ObjectIdLike[]): Promise<IUnmappedRoom[]> {
+    if (channelType === ChannelType.DIRECT || propertyIds.length === 0) {
+      return [];
+    }
+
+    const [properties, mappings] = await Promise.all([
+      Property.find({ _id: { $in: propertyIds } }),
+      ChannelMapping.find({ channelType, property: { $in: propertyIds } })
+    ]);
+
+    const unmapped: IUnmappedRoom[] = [];
+    for (const property of properties) {
+      const mapping = mappings.find(entry => entry.property.equals(property._id));
+
+      for (const room of property.rooms.filter(entry => entry.isActive)) {
+        if (!mapping || !mapping.rooms.some(entry => entry.room.equals(room._id))) {
+          unmapped.push({
+            propertyId: property._id.toString(),
+            propertyName: property.name,
+            roomId: room._id.toString(),
+            roomName: room.name,
+            reason: mapping ? 'Room type is not mapped' : `Property has no ${channelType} listing`
+          });
+        }
+      }
+    }
+
+    return unmapped;
+  }
+
+  /**
+   * Refuse to activate a channel while any active room type of its
+   * properties is unmapped
+   */
+  public async assertChannelMapped(channelType: ChannelType, propertyIds: ObjectIdLike[]): Promise<void> {
+    const unmapped = await this.getUnmappedRooms(channelType, propertyIds);
+
+    if (unmapped.length > 0) {
+      throw createError.channelMapping(
+        `Map every active room type to ${channelType} before activating the channel`,
+        unmapped.map(entry => ({
+          field: 'rooms',
+          message: `${entry.propertyName} / ${entry.roomName}: ${entry.reason}`,
+          propertyId: entry.propertyId,
+          roomId: entry.roomId
+        }))
+      );
+    }
+  }
+
+  private findRoomMapping(mapping: IChannelMapping, channelType: ChannelType, externalRoomId: unknown): IRoomMapping {
+    if (externalRoomId === undefined || externalRoomId === null || externalRoomId === '') {
+      if (mapping.rooms.length === 1 && mapping.rooms[0]) {
+        return mapping.rooms[0];
+      }
+      throw createError.channelMapping(`${channelType} reservation for listing ${mapping.externalPropertyId} has no room ID and the listing maps ${mapping.rooms.length} room types`);
+    }
+
+    const roomMapping = mapping.rooms.find(entry => entry.externalRoomId === String(externalRoomId));
+    if (!roomMapping) {
+      throw createError.channelMapping(`No room type is mapped to ${channelType} room ${String(externalRoomId)} of listing ${mapping.externalPropertyId}`);
+    }
+
+    return roomMapping;
+  }
+
+  private async getProperty(propertyId: ObjectIdLike): Promise<IProperty> {
+    const property = await Property.findById(propertyId);
+
+    if (!property) {
+      throw createError.notFound('Property not found');
+    }
+
+    return property;
+  }
+
+  /**
+   * Check each room type belongs to the property and each rate plan to the
+   * room type, and that no OTA ID is used twice within the listing
+   */
+  private async buildRoomMappings(property: IProperty, requests: IRoomMappingRequest[]): Promise<IRoomMapping[]> {
+    const errors: ErrorDetail[] = [];
+    const rooms: IRoomMapping[] = [];
+
+    for (const [index, request] of requests.entries()) {
+      const room = property.rooms.find(entry => entry._id.toString() === request.roomId);
+      if (!room) {
+        errors.push({ field: `rooms.${index}.roomId`, message: 'Room type does not belong to the property' });
+        continue;
+      }
+      if (rooms.some(entry => entry.room.equals(room._id))) {
+        errors.push({ field: `rooms.${index}.roomId`, message: 'Room type is mapped twice' });
+      }
+      if (rooms.some(entry => entry.externalRoomId === request.externalRoomId)) {
+        errors.push({ field: `rooms.${index}.externalRoomId`, message: 'External room ID is used twice' });
+      }
+
+      const ratePlanRequests = request.ratePlans ?? [];
+      const ratePlanIds = ratePlanRequests.map(entry => new mongoose.Types.ObjectId(entry.ratePlanId));
+      const ratePlans = await RatePlan.find({ _id: { $in: ratePlanIds }, property: property._id, room: room._id }).select('_id');
+
+      ratePlanRequests.forEach((entry, planIndex) => {
+        if (!ratePlans.some(plan => String(plan._id) === entry.ratePlanId)) {
+          errors.push({ field: `rooms.${index}.ratePlans.${planIndex}.ratePlanId`, message: 'Rate plan does not belong to the room type' });
+        }
+        if (ratePlanRequests.findIndex(other => other.externalRatePlanId === entry.externalRatePlanId) !== planIndex) {
+          errors.push({ field: `rooms.${index}.ratePlans.${planIndex}.externalRatePlanId`, message: 'External rate plan ID is used twice' });
+        }
+      });
+
+      rooms.push({
+        room: room._id,
+        externalRoomId: request.externalRoomId,
+        ratePlans: ratePlanRequests.map(entry => ({
+          ratePlan: new mongoose.Types.ObjectId(entry.ratePlanId),
+          externalRatePlanId: entry.externalRatePlanId
+        }))
+      });
+    }
+
+    if (errors.length > 0) {
+      throw createError.validation('Invalid room mappings', errors);
+    }
+
+    return rooms;
+  }
+
+  private toDuplicateError(error: unknown): unknown {
+    if ((error as { code?: number }).code === 11000) {
+      return createError.duplicate('The property or the external property ID is already mapped on this channel');
+    }
+    return error;
+  }
+}
+
+export const channelMappingService = new ChannelMappingService();
+export { ChannelMappingService };
+export default channelMappingService;
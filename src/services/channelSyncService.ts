@@ -0,0 +1,417 @@
+import mongoose from 'mongoose';
+import { IChannel, SyncStatus } from '../models/Channel';
+import ChannelMapping, { IRatePlanMapping } from '../models/ChannelMapping';
+import RatePlan, { IRatePlan, RatePlanStatus } from '../models/RatePlan';
+import { CalendarChannel, CalendarStatus } from '../models/Calendar';
+import { channelAdapterService, IAriUpdate, IChannelAdapter, IChannelListing, IConnectionTestResult } from './channelAdapterService';
+import { inventoryRepository, InventoryRepository, ICalendarEntry } from './inventoryRepository';
+import { webhookInboxService } from './webhookInboxService';
+import { WebhookEvent } from './webhookProcessingService';
+import { OTAProvider } from './OTAService';
+import { logger } from '../config/logger';
+
+// Nights ahead covered by a full availability or rate push
+export const ARI_SYNC_DAYS = parseInt(process.env['CHANNEL_SYNC_ARI_DAYS'] ?? '90', 10);
+
+// What a sync can cover
+export enum ChannelSyncType {
+  BOOKINGS = 'bookings',
+  RATES = 'rates',
+  AVAILABILITY = 'availability',
+  PROPERTY_INFO = 'propertyInfo'
+}
+
+// Outcome of one sync type
+export interface ISyncTypeResult {
+  synced: number;
+  failed: number;
+  errors: string[];
+}
+
+// Outcome of a channel sync
+export interface IChannelSyncResult {
+  channelId: mongoose.Types.ObjectId;
+  channelName: string;
+  syncType: ChannelSyncType | 'all';
+  startTime: Date;
+  endTime: Date;
+  status: 'success' | 'partial' | 'failed';
+  results: Partial<Record<ChannelSyncType, ISyncTypeResult>>;
+  unmappedListings?: IChannelListing[];
+  message: string;
+}
+
+// Nights and content of an ARI build
+export interface IAriBuildOptions {
+  from?: Date;
+  days?: number;
+  availability: boolean;
+  rates: boolean;
+  propertyIds?: mongoose.Types.ObjectId[];
+  roomIds?: mongoose.Types.ObjectId[];
+  dates?: Date[]; // Only these nights of the window
+}
+
+/**
+ * Channel Sync Service
+ *
+ * Runs connection tests and syncs through the channel's adapter: pulled
+ * reservations go into the webhook inbox and are acknowledged once
+ * stored, availability and rates are pushed from the pooled inventory in
+ * OTA IDs, and the OTA's listings are checked against the mapping registry.
+ */
+class ChannelSyncService {
+  /**
+   * Test the channel's connection and record the outcome on the channel
+   */
+  public async testConnection(channel: IChannel): Promise<IConnectionTestResult> {
+    const result = await channelAdapterService.get(channel.type).testConnection(channel);
+
+    await channel.updateSyncStatus(result.connected ? SyncStatus.SUCCESS : SyncStatus.FAILED, result.message);
+    logger.info(`Channel connection test for ${channel.name}: ${result.message}`);
+
+    return result;
+  }
+
+  /**
+   * Sync one type, or with 'all' every type the channel's sync settings
+   * enable in its sync direction
+   */
+  public async sync(channel: IChannel, syncType: ChannelSyncType | 'all' = 'all'): Promise<IChannelSyncResult> {
+    const adapter = channelAdapterService.get(channel.type);
+    const types = syncType === 'all' ? this.getEnabledTypes(channel) : [syncType];
+    const since = channel.syncSettings.lastSync;
+    const startTime = new Date();
+
+    const results: Partial<Record<ChannelSyncType, ISyncTypeResult>> = {};
+    let unmappedListings: IChannelListing[] | undefined;
+
+    for (const type of types) {
+      const result: ISyncTypeResult = { synced: 0, failed: 0, errors: [] };
+      results[type] = result;
+
+      try {
+        switch (type) {
+          case ChannelSyncType.BOOKINGS:
+            await this.pullReservations(adapter, channel, since, result);
+            break;
+          case ChannelSyncType.AVAILABILITY:
+          case ChannelSyncType.RATES:
+            await this.pushAri(adapter, channel, result, {
+              availability: type === ChannelSyncType.AVAILABILITY,
+              rates: type === ChannelSyncType.RATES
+            });
+            break;
+          case ChannelSyncType.PROPERTY_INFO:
+            unmappedListings = await this.checkListings(adapter, channel, result);
+            break;
+        }
+      } catch (error) {
+        result.failed++;
+        result.errors.push((error as Error).message);
+      }
+    }
+
+    const outcomes = Object.values(results);
+    const failed = outcomes.filter(result => result.failed > 0).length;
+    const status = failed === 0 ? 'success' : outcomes.some(result => result.synced > 0) ? 'partial' : 'failed';
+    const message = status === 'success'
+      ? 'Channel sync completed successfully'
+      : outcomes.flatMap(result => result.errors).join('; ');
+
+    await channel.updateSyncStatus(status === 'failed' ? SyncStatus.FAILED : SyncStatus.SUCCESS, message);
+    logger.info(`Channel ${channel.name} synced (${types.join(', ')}): ${status}`);
+
+    return {
+      channelId: channel._id as mongoose.Types.ObjectId,
+      channelName: channel.name,
+      syncType,
+      startTime,
+      endTime: new Date(),
+      status,
+      results,
+      unmappedListings,
+      message
+    };
+  }
+
+  /**
+   * Build availability and rate updates in OTA IDs for the channel's
+   * mapped room types, one per night or per run of identical nights
+   * depending on the adapter. With rates, each mapped rate plan gets its
+   * own updates from its base and seasonal rates, closed on the nights it
+   * cannot be sold.
+   */
+  public async buildAri(channel: IChannel, options: IAriBuildOptions): Promise<IAriUpdate[]> {
+    const adapter = channelAdapterService.get(channel.type);
+    const from = InventoryRepository.normalizeDate(options.from ?? new Date());
+    const to = new Date(from);
+    to.setDate(to.getDate() + (options.days ?? ARI_SYNC_DAYS));
+    const only = options.dates?.map(date => InventoryRepository.normalizeDate(date).getTime());
+
+    const mappings = await ChannelMapping.find({
+      channelType: channel.type,
+      property: { $in: options.propertyIds ?? channel.properties }
+    });
+
+    const updates: IAriUpdate[] = [];
+    for (const mapping of mappings) {
+      const rooms = mapping.rooms.filter(entry => !options.roomIds || options.roomIds.some(id => id.equals(entry.room)));
+
+      for (const roomMapping of rooms) {
+        const entries = (await inventoryRepository.findCalendarEntries({
+          propertyId: mapping.property,
+          roomId: roomMapping.room,
+          date: { $gte: from, $lt: to },
+          channel: channel.type as string as CalendarChannel
+        })).filter(entry => !only || only.includes(entry.date.getTime()));
+
+        const nights: IAriUpdate[] = entries.map(entry => {
+          const date = this.formatDate(entry.date);
+          return {
+            externalPropertyId: mapping.externalPropertyId,
+            externalRoomId: roomMapping.externalRoomId,
+            startDate: date,
+            endDate: date,
+            ...(options.availability ? {
+              availableUnits: entry.availableRooms,
+              closed: [CalendarStatus.BLOCKED, CalendarStatus.MAINTENANCE, CalendarStatus.OUT_OF_ORDER].includes(entry.status)
+            } : {}),
+            ...(options.rates ? {
+              rate: entry.rate,
+              currency: entry.currency,
+              minStay: entry.minStay,
+              maxStay: entry.maxStay
+            } : {})
+          };
+        });
+
+        if (options.rates) {
+          nights.push(...await this.buildRatePlanNights(channel, mapping.externalPropertyId, roomMapping.externalRoomId, roomMapping.ratePlans, entries));
+        }
+
+        updates.push(...(adapter.capabilities.ariGranularity === 'range' ? this.mergeRuns(nights) : nights));
+      }
+    }
+
+    return updates;
+  }
+
+  private getEnabledTypes(channel: IChannel): ChannelSyncType[] {
+    const { syncTypes, syncDirection } = channel.syncSettings;
+    const inbound = syncDirection !== 'outbound';
+    const outbound = syncDirection !== 'inbound';
+
+    return [
+      ...(syncTypes.bookings && inbound ? [ChannelSyncType.BOOKINGS] : []),
+      ...(syncTypes.availability && outbound ? [ChannelSyncType.AVAILABILITY] : []),
+      ...(syncTypes.rates && outbound ? [ChannelSyncType.RATES] : []),
+      ...(syncTypes.propertyInfo ? [ChannelSyncType.PROPERTY_INFO] : [])
+    ];
+  }
+
+  /**
+   * Store each pulled reservation in the webhook inbox, which files it
+   * through the mapping registry, then acknowledge it to the OTA
+   */
+  private async pullReservations(
+    adapter: IChannelAdapter,
+    channel: IChannel,
+    since: Date | undefined,
+    result: ISyncTypeResult
+  ): Promise<void> {
+    const reservations = await adapter.pullReservations(channel, since);
+    const provider = channel.type as string as OTAProvider;
+
+    for (const reservation of reservations) {
+      const event = reservation.status === 'cancelled'
+        ? WebhookEvent.BOOKING_CANCELLED
+        : reservation.status === 'modified' ? WebhookEvent.BOOKING_UPDATED : WebhookEvent.BOOKING_CREATED;
+      const data = {
+        id: reservation.externalId,
+        propertyId: reservation.externalPropertyId,
+        roomId: reservation.externalRoomId,
+        ratePlanId: reservation.externalRatePlanId,
+        checkIn: reservation.checkIn,
+        checkOut: reservation.checkOut,
+        guestInfo: reservation.guestInfo,
+        guests: reservation.guests,
+        pricing: reservation.pricing
+      };
+
+      try {
+        // Hashed without a timestamp so pulling the same reservation again is a redelivery
+        await webhookInboxService.receive({
+          provider,
+          payload: { event, channel: provider, timestamp: new Date().toISOString(), data },
+          rawBody: JSON.stringify({ event, data }),
+          channelId: channel._id as mongoose.Types.ObjectId
+        });
+
+        if (adapter.capabilities.acknowledgesReservations) {
+          await adapter.acknowledgeReservation(channel, reservation.externalId);
+        }
+        result.synced++;
+      } catch (error) {
+        result.failed++;
+        result.errors.push(`Reservation ${reservation.externalId}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private async pushAri(
+    adapter: IChannelAdapter,
+    channel: IChannel,
+    result: ISyncTypeResult,
+    options: Pick<IAriBuildOptions, 'availability' | 'rates'>
+  ): Promise<void> {
+    const updates = await this.buildAri(channel, options);
+
+    for (let index = 0; index < updates.length; index += adapter.capabilities.maxAriBatchSize) {
+      const batch = updates.slice(index, index + adapter.capabilities.maxAriBatchSize);
+      const pushed = await adapter.pushAri(channel, batch);
+
+      result.synced += pushed.accepted;
+      result.failed += pushed.rejected.length;
+      result.errors.push(...pushed.rejected.map(entry =>
+        `${entry.update.externalRoomId} ${entry.update.startDate}: ${entry.message}`
+      ));
+    }
+  }
+
+  /**
+   * Count the OTA's listings that are mapped and return the ones that are not
+   */
+  private async checkListings(adapter: IChannelAdapter, channel: IChannel, result: ISyncTypeResult): Promise<IChannelListing[]> {
+    const listings = await adapter.getListings(channel);
+    const mappings = await ChannelMapping.find({
+      channelType: channel.type,
+      externalPropertyId: { $in: listings.map(listing => listing.externalPropertyId) }
+    });
+
+    const unmapped = listings.filter(listing =>
+      !mappings.some(mapping => mapping.externalPropertyId === listing.externalPropertyId)
+    );
+    result.synced = listings.length - unmapped.length;
+
+    return unmapped;
+  }
+
+  /**
+   * Rate updates for each mapped rate plan, one per night, grouped by plan
+   */
+  private async buildRatePlanNights(
+    channel: IChannel,
+    externalPropertyId: string,
+    externalRoomId: string,
+    ratePlanMappings: IRatePlanMapping[],
+    entries: ICalendarEntry[]
+  ): Promise<IAriUpdate[]> {
+    if (ratePlanMappings.length === 0) {
+      return [];
+    }
+
+    const ratePlans = await RatePlan.find({ _id: { $in: ratePlanMappings.map(entry => entry.ratePlan) } });
+    const nights: IAriUpdate[] = [];
+
+    for (const ratePlanMapping of ratePlanMappings) {
+      // A deleted plan is no longer sold
+      const ratePlan = ratePlans.find(plan => ratePlanMapping.ratePlan.equals(plan._id as mongoose.Types.ObjectId)) ?? null;
+
+      for (const entry of entries) {
+        const date = this.formatDate(entry.date);
+        nights.push({
+          externalPropertyId,
+          externalRoomId,
+          externalRatePlanId: ratePlanMapping.externalRatePlanId,
+          startDate: date,
+          endDate: date,
+          ...this.getRatePlanNight(channel, ratePlan, entry)
+        });
+      }
+    }
+
+    return nights;
+  }
+
+  /**
+   * A rate plan's rate and stay limits for one night; the room's stay limits
+   * apply on top of the plan's
+   */
+  private getRatePlanNight(
+    channel: IChannel,
+    ratePlan: IRatePlan | null,
+    entry: ICalendarEntry
+  ): Pick<IAriUpdate, 'rate' | 'currency' | 'minStay' | 'maxStay' | 'closed'> {
+    if (!ratePlan) {
+      return { closed: true };
+    }
+
+    const date = entry.date;
+    const seasonal = ratePlan.seasonalRates?.find(season => date >= season.startDate && date <= season.endDate);
+    const blackedOut = (ratePlan.restrictions.blackoutDates ?? []).some(blackout =>
+      InventoryRepository.normalizeDate(blackout).getTime() === date.getTime()
+    );
+    const maxStay = [ratePlan.maxStay, entry.maxStay].filter((value): value is number => value !== undefined);
+
+    return {
+      rate: seasonal?.rate ?? ratePlan.baseRate,
+      currency: ratePlan.currency,
+      minStay: Math.max(ratePlan.minStay, entry.minStay),
+      maxStay: maxStay.length > 0 ? Math.min(...maxStay) : undefined,
+      closed: ratePlan.status !== RatePlanStatus.ACTIVE ||
+        date < InventoryRepository.normalizeDate(ratePlan.validFrom) ||
+        date > ratePlan.validTo ||
+        blackedOut ||
+        !ratePlan.canBeApplied(channel.type)
+    };
+  }
+
+  /**
+   * Merge consecutive nights with the same content into one update
+   */
+  private mergeRuns(nights: IAriUpdate[]): IAriUpdate[] {
+    const merged: IAriUpdate[] = [];
+
+    for (const night of nights) {
+      const last = merged[merged.length - 1];
+      if (last && this.isNextDay(last.endDate, night.startDate) && this.sameContent(last, night)) {
+        last.endDate = night.endDate;
+      } else {
+        merged.push({ ...night });
+      }
+    }
+
+    return merged;
+  }
+
+  private sameContent(a: IAriUpdate, b: IAriUpdate): boolean {
+    return a.externalRoomId === b.externalRoomId &&
+      a.externalRatePlanId === b.externalRatePlanId &&
+      a.availableUnits === b.availableUnits &&
+      a.closed === b.closed &&
+      a.rate === b.rate &&
+      a.currency === b.currency &&
+      a.minStay === b.minStay &&
+      a.maxStay === b.maxStay;
+  }
+
+  private isNextDay(date: string, next: string): boolean {
+    const following = new Date(`${date}T00:00:00Z`);
+    following.setUTCDate(following.getUTCDate() + 1);
+    return following.toISOString().slice(0, 10) === next;
+  }
+
+  /**
+   * Stay dates are local midnights; format them as local calendar dates
+   */
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
+
+export const channelSyncService = new ChannelSyncService();
+export { ChannelSyncService };
+export default channelSyncService;
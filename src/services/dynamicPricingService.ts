@@ -1,6 +1,6 @@
 import RatePlan, { RatePlanStatus } from '../models/RatePlan';
-import Calendar from '../models/Calendar';
 import Booking from '../models/Booking';
+import { inventoryRepository } from './inventoryRepository';
 import { logger } from '../config/logger';
 import { createError } from '../utils/errors';
 import mongoose from 'mongoose';
@@ -292,15 +292,15 @@ class DynamicPricingService {
       const endDate = new Date(date);
       endDate.setDate(endDate.getDate() + 30);
 
-      const calendars = await Calendar.find({
-        property: propertyId,
-        room: roomId,
+      const nights = await inventoryRepository.findNights({
+        propertyId,
+        roomId,
         date: { $gte: date, $lte: endDate }
       });
 
-      const totalDays = calendars.length;
-      const bookedDays = calendars.filter(c => c.status === 'booked').length;
-      const occupancyRate = totalDays > 0 ? (bookedDays / totalDays) * 100 : 0;
+      const totalRoomNights = nights.reduce((sum, night) => sum + night.totalRooms, 0);
+      const bookedRoomNights = nights.reduce((sum, night) => sum + night.bookedRooms.length, 0);
+      const occupancyRate = totalRoomNights > 0 ? (bookedRoomNights / totalRoomNights) * 100 : 0;
 
       // Apply adjustment based on occupancy
       if (occupancyRate > 80) {
@@ -174,6 +174,22 @@ class EmailService {
     });
   }
 
+  // Send a guest the signed link to manage their booking
+  async sendGuestBookingLinkEmail(
+    guestEmail: string,
+    guestName: string,
+    bookingDetails: any
+  ): Promise<boolean> {
+    const template = this.getGuestBookingLinkEmailTemplate(guestName, bookingDetails);
+
+    return this.sendEmail({
+      to: guestEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text
+    });
+  }
+
   // Send new booking notification to property owner
   async sendNewBookingNotificationEmail(
     ownerEmail: string,
@@ -190,6 +206,24 @@ class EmailService {
     });
   }
 
+  // Send an invoice or credit note with its PDF attached
+  async sendInvoiceEmail(
+    recipientEmail: string,
+    recipientName: string,
+    invoiceDetails: any,
+    attachments: EmailData['attachments']
+  ): Promise<boolean> {
+    const template = this.getInvoiceEmailTemplate(recipientName, invoiceDetails);
+
+    return this.sendEmail({
+      to: recipientEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+      attachments
+    });
+  }
+
   // Send system notification email
   async sendSystemNotificationEmail(
     to: string | string[],
@@ -365,6 +399,14 @@ class EmailService {
 
   private getBookingConfirmationEmailTemplate(guestName: string, bookingDetails: any): EmailTemplate {
     const subject = `Booking Confirmation - ${bookingDetails.propertyName}`;
+    const extras = (bookingDetails.extras ?? []) as Array<{ name: string; amount: number }>;
+    const extrasHtml = extras.map(extra => `
+              <div class="detail-row">
+                <span class="detail-label">${extra.name}:</span>
+                <span>${bookingDetails.currency} ${extra.amount}</span>
+              </div>`).join('');
+    const extrasText = extras.map(extra => `
+      ${extra.name}: ${bookingDetails.currency} ${extra.amount}`).join('');
     
     const html = `
       <!DOCTYPE html>
@@ -408,7 +450,7 @@ class EmailService {
               <div class="detail-row">
                 <span class="detail-label">Check-out:</span>
                 <span>${new Date(bookingDetails.checkOut).toLocaleDateString()}</span>
-              </div>
+              </div>${extrasHtml}
               <div class="detail-row">
                 <span class="detail-label">Total Amount:</span>
                 <span>${bookingDetails.currency} ${bookingDetails.totalAmount}</span>
@@ -440,7 +482,7 @@ class EmailService {
       Property: ${bookingDetails.propertyName}
       Room: ${bookingDetails.roomName}
       Check-in: ${new Date(bookingDetails.checkIn).toLocaleDateString()}
-      Check-out: ${new Date(bookingDetails.checkOut).toLocaleDateString()}
+      Check-out: ${new Date(bookingDetails.checkOut).toLocaleDateString()}${extrasText}
       Total Amount: ${bookingDetails.currency} ${bookingDetails.totalAmount}
       Booking Reference: ${bookingDetails.bookingId}
       
@@ -542,6 +584,93 @@ class EmailService {
     return { subject, html, text };
   }
 
+  private getGuestBookingLinkEmailTemplate(guestName: string, bookingDetails: any): EmailTemplate {
+    const subject = `Manage your booking - ${bookingDetails.propertyName}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Manage Your Booking</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f8fafc; }
+          .footer { padding: 20px; text-align: center; color: #666; }
+          .button { display: inline-block; padding: 12px 24px; background: #2563eb; color: white; text-decoration: none; border-radius: 4px; }
+          .booking-details { background: white; padding: 20px; border-radius: 4px; margin: 15px 0; }
+          .detail-row { display: flex; justify-content: space-between; margin: 10px 0; }
+          .detail-label { font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Manage Your Booking</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${guestName}!</h2>
+            <p>Use the button below to view, change or cancel your booking.</p>
+            <div class="booking-details">
+              <div class="detail-row">
+                <span class="detail-label">Property:</span>
+                <span>${bookingDetails.propertyName}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Check-in:</span>
+                <span>${new Date(bookingDetails.checkIn).toLocaleDateString()}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Check-out:</span>
+                <span>${new Date(bookingDetails.checkOut).toLocaleDateString()}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Confirmation Code:</span>
+                <span>${bookingDetails.confirmationCode}</span>
+              </div>
+            </div>
+            <p style="text-align: center;">
+              <a href="${bookingDetails.manageUrl}" class="button">Manage Booking</a>
+            </p>
+            <p>This link will expire on ${new Date(bookingDetails.expiresAt).toLocaleString()}. If you didn't request it, you can ignore this email.</p>
+            <p>If the button doesn't work, copy and paste this link into your browser:</p>
+            <p style="word-break: break-all; color: #2563eb;">${bookingDetails.manageUrl}</p>
+          </div>
+          <div class="footer">
+            <p>Best regards,<br>The Reservario Team</p>
+            <p><small>This is an automated message. Please do not reply to this email.</small></p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      Manage your booking - ${bookingDetails.propertyName}
+      
+      Hello ${guestName}!
+      
+      Use the following link to view, change or cancel your booking:
+      ${bookingDetails.manageUrl}
+      
+      Property: ${bookingDetails.propertyName}
+      Check-in: ${new Date(bookingDetails.checkIn).toLocaleDateString()}
+      Check-out: ${new Date(bookingDetails.checkOut).toLocaleDateString()}
+      Confirmation Code: ${bookingDetails.confirmationCode}
+      
+      This link will expire on ${new Date(bookingDetails.expiresAt).toLocaleString()}. If you didn't request it, you can ignore this email.
+      
+      Best regards,
+      The Reservario Team
+      
+      This is an automated message. Please do not reply to this email.
+    `;
+
+    return { subject, html, text };
+  }
+
   private getNewBookingNotificationEmailTemplate(ownerName: string, bookingDetails: any): EmailTemplate {
     const subject = `New Booking - ${bookingDetails.propertyName}`;
     
@@ -639,6 +768,86 @@ class EmailService {
     return { subject, html, text };
   }
 
+  private getInvoiceEmailTemplate(recipientName: string, invoiceDetails: any): EmailTemplate {
+    const subject = `${invoiceDetails.documentLabel} ${invoiceDetails.number} - ${invoiceDetails.propertyName}`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>${invoiceDetails.documentLabel} ${invoiceDetails.number}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { padding: 20px; background: #f8fafc; }
+          .footer { padding: 20px; text-align: center; color: #666; }
+          .invoice-details { background: white; padding: 20px; border-radius: 4px; margin: 15px 0; }
+          .detail-row { display: flex; justify-content: space-between; margin: 10px 0; }
+          .detail-label { font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${invoiceDetails.documentLabel} ${invoiceDetails.number}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${recipientName}!</h2>
+            <p>Please find attached ${invoiceDetails.documentLabel.toLowerCase()} ${invoiceDetails.number} for your stay at ${invoiceDetails.propertyName}.</p>
+            <div class="invoice-details">
+              <div class="detail-row">
+                <span class="detail-label">Issued by:</span>
+                <span>${invoiceDetails.issuerName}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Date:</span>
+                <span>${new Date(invoiceDetails.issuedAt).toLocaleDateString()}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Total:</span>
+                <span>${invoiceDetails.currency} ${invoiceDetails.total}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Balance Due:</span>
+                <span>${invoiceDetails.currency} ${invoiceDetails.balanceDue}</span>
+              </div>
+            </div>
+            <p>If you have any questions about this document, please contact the property.</p>
+          </div>
+          <div class="footer">
+            <p>Best regards,<br>${invoiceDetails.propertyName}</p>
+            <p><small>This is an automated message. Please do not reply to this email.</small></p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+      ${invoiceDetails.documentLabel} ${invoiceDetails.number} - ${invoiceDetails.propertyName}
+
+      Hello ${recipientName}!
+
+      Please find attached ${invoiceDetails.documentLabel.toLowerCase()} ${invoiceDetails.number} for your stay at ${invoiceDetails.propertyName}.
+
+      Issued by: ${invoiceDetails.issuerName}
+      Date: ${new Date(invoiceDetails.issuedAt).toLocaleDateString()}
+      Total: ${invoiceDetails.currency} ${invoiceDetails.total}
+      Balance Due: ${invoiceDetails.currency} ${invoiceDetails.balanceDue}
+
+      If you have any questions about this document, please contact the property.
+
+      Best regards,
+      ${invoiceDetails.propertyName}
+
+      This is an automated message. Please do not reply to this email.
+    `;
+
+    return { subject, html, text };
+  }
+
   private getSystemNotificationEmailTemplate(subject: string, message: string, priority: string): EmailTemplate {
     const priorityColors: Record<string, string> = {
       low: '#059669',
@@ -0,0 +1,363 @@
+import mongoose from 'mongoose';
+import ExchangeRate, { IExchangeRate, ExchangeRateSource } from '../models/ExchangeRate';
+import Organization from '../models/Organization';
+import Property from '../models/Property';
+import { IPricing } from '../models/Booking';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Currency conversions without a direct rate are made through this one
+const PIVOT_CURRENCY = (process.env['FX_PIVOT_CURRENCY'] ?? 'USD').toUpperCase();
+// A table older than this is too stale to convert with
+const MAX_RATE_AGE_DAYS = parseInt(process.env['FX_MAX_RATE_AGE_DAYS'] ?? '7', 10);
+// Reporting currency where no organization or property decides it
+const DEFAULT_REPORTING_CURRENCY = (process.env['FX_REPORTING_CURRENCY'] ?? 'USD').toUpperCase();
+
+// Rates of one currency on one day
+export interface IRateTable {
+  date: Date;
+  base: string;
+  rates: Record<string, number>; // Units of each quote currency per unit of base
+}
+
+// Result of loading rates
+export interface IRateImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+  errors: Array<{ row: number; error: string }>;
+}
+
+// Rate filter
+export interface IRateQuery {
+  base?: string;
+  quote?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Rate used for a conversion
+export interface IConversionRate {
+  from: string;
+  to: string;
+  rate: number;
+  date: Date; // Day of the (oldest) table the rate came from
+}
+
+// Pricing restated in another currency
+export interface IConvertedPricing {
+  rate: IConversionRate;
+  pricing: IPricing;
+}
+
+// Converts many amounts into one currency, reading each rate once
+export interface ICurrencyConverter {
+  currency: string;
+  convert(amount: number, from: string, date: Date): Promise<number>;
+}
+
+/**
+ * Exchange Rate Service
+ *
+ * Loads dated exchange-rate tables and converts amounts with them. A pair is
+ * converted with its direct rate, the inverse of the opposite rate, or by
+ * crossing through the pivot currency, whichever the latest table on or
+ * before the conversion date has. Amounts stay settled in the property's
+ * currency; conversions are for showing quotes in the guest's currency and
+ * for reporting across properties.
+ */
+class ExchangeRateService {
+  /**
+   * Store a day's rates of a base currency, replacing rates already loaded
+   */
+  public async importTable(table: IRateTable, source: ExchangeRateSource, userId?: string): Promise<IRateImportResult> {
+    const result: IRateImportResult = { imported: 0, updated: 0, skipped: 0, errors: [] };
+    const base = table.base.toUpperCase();
+    const date = this.toDay(table.date);
+
+    for (const [index, [quote, rate]] of Object.entries(table.rates).entries()) {
+      try {
+        await this.upsertRate(base, quote.toUpperCase(), rate, date, source, userId, result);
+      } catch (error) {
+        result.errors.push({ row: index + 1, error: (error as Error).message });
+        result.skipped++;
+      }
+    }
+
+    logger.info(`Exchange rates of ${base} on ${date.toISOString().split('T')[0]} loaded: ${result.imported} imported, ${result.updated} updated, ${result.skipped} skipped`);
+
+    return result;
+  }
+
+  /**
+   * Store rates from CSV with a date,base,quote,rate header (any column order)
+   */
+  public async importCsv(csv: string, userId?: string): Promise<IRateImportResult> {
+    const lines = csv.split(/\r?\n/).filter(line => line.trim() !== '');
+    const headers = (lines[0] ?? '').split(',').map(header => header.trim().toLowerCase());
+    const missing = ['date', 'base', 'quote', 'rate'].filter(column => !headers.includes(column));
+
+    if (lines.length < 2 || missing.length > 0) {
+      throw createError.validation(
+        missing.length > 0 ? `CSV is missing columns: ${missing.join(', ')}` : 'CSV has no rates'
+      );
+    }
+
+    const result: IRateImportResult = { imported: 0, updated: 0, skipped: 0, errors: [] };
+
+    for (const [index, line] of lines.slice(1).entries()) {
+      const values = line.split(',').map(value => value.trim());
+      const row = Object.fromEntries(headers.map((header, i) => [header, values[i] ?? '']));
+
+      try {
+        const date = new Date(row['date'] ?? '');
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(row['date'] ?? '') || isNaN(date.getTime())) {
+          throw new Error('Invalid date format (YYYY-MM-DD)');
+        }
+
+        await this.upsertRate(
+          (row['base'] ?? '').toUpperCase(),
+          (row['quote'] ?? '').toUpperCase(),
+          Number(row['rate']),
+          date,
+          ExchangeRateSource.CSV,
+          userId,
+          result
+        );
+      } catch (error) {
+        result.errors.push({ row: index + 2, error: (error as Error).message });
+        result.skipped++;
+      }
+    }
+
+    logger.info(`Exchange rates imported from CSV: ${result.imported} imported, ${result.updated} updated, ${result.skipped} skipped`);
+
+    return result;
+  }
+
+  /**
+   * List loaded rates, newest first
+   */
+  public async listRates(query: IRateQuery = {}, limit = 500): Promise<IExchangeRate[]> {
+    const filter: Record<string, unknown> = {};
+    if (query.base) filter['base'] = query.base.toUpperCase();
+    if (query.quote) filter['quote'] = query.quote.toUpperCase();
+    if (query.from !== undefined || query.to !== undefined) {
+      filter['date'] = {
+        ...(query.from && { $gte: this.toDay(query.from) }),
+        ...(query.to && { $lte: this.toDay(query.to) })
+      };
+    }
+
+    return ExchangeRate.find(filter).sort({ date: -1, base: 1, quote: 1 }).limit(limit);
+  }
+
+  /**
+   * Rate from one currency to another at a moment
+   */
+  public async getRate(from: string, to: string, date: Date = new Date()): Promise<IConversionRate> {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    if (source === target) {
+      return { from: source, to: target, rate: 1, date: this.toDay(date) };
+    }
+
+    const rate = await this.findPairRate(source, target, date);
+    if (rate) {
+      return rate;
+    }
+
+    if (source !== PIVOT_CURRENCY && target !== PIVOT_CURRENCY) {
+      const [toPivot, fromPivot] = await Promise.all([
+        this.findPairRate(source, PIVOT_CURRENCY, date),
+        this.findPairRate(PIVOT_CURRENCY, target, date)
+      ]);
+
+      if (toPivot && fromPivot) {
+        return {
+          from: source,
+          to: target,
+          rate: toPivot.rate * fromPivot.rate,
+          date: toPivot.date < fromPivot.date ? toPivot.date : fromPivot.date
+        };
+      }
+    }
+
+    throw createError.notFound(
+      `No exchange rate from ${source} to ${target} on or up to ${MAX_RATE_AGE_DAYS} days before ${this.toDay(date).toISOString().split('T')[0]}`
+    );
+  }
+
+  /**
+   * Convert an amount at the rate of a moment
+   */
+  public async convert(amount: number, from: string, to: string, date: Date = new Date()): Promise<number> {
+    const { rate } = await this.getRate(from, to, date);
+    return this.round(amount * rate);
+  }
+
+  /**
+   * Restate a stay's pricing in another currency, e.g. the guest's
+   */
+  public async convertPricing(pricing: IPricing, to: string, date: Date = new Date()): Promise<IConvertedPricing> {
+    const rate = await this.getRate(pricing.currency, to, date);
+    const convert = (amount: number): number => this.round(amount * rate.rate);
+    const optional = (amount?: number): number | undefined => (amount === undefined ? undefined : convert(amount));
+    const breakdown = pricing.breakdown;
+
+    return {
+      rate,
+      pricing: {
+        baseRate: convert(pricing.baseRate),
+        taxes: convert(pricing.taxes),
+        fees: convert(pricing.fees),
+        discounts: convert(pricing.discounts),
+        extras: optional(pricing.extras),
+        total: convert(pricing.total),
+        currency: rate.to,
+        breakdown: breakdown
+          ? {
+            roomRate: convert(breakdown.roomRate),
+            cleaningFee: optional(breakdown.cleaningFee),
+            serviceFee: optional(breakdown.serviceFee),
+            cityTax: optional(breakdown.cityTax),
+            tourismTax: optional(breakdown.tourismTax),
+            otherFees: breakdown.otherFees?.map(fee => ({ name: fee.name, amount: convert(fee.amount) })),
+            extras: breakdown.extras?.map(extra => ({ name: extra.name, amount: convert(extra.amount) }))
+          }
+          : undefined
+      }
+    };
+  }
+
+  /**
+   * Converter into one currency that reads each currency's rate once per day
+   */
+  public createConverter(currency: string): ICurrencyConverter {
+    const target = currency.toUpperCase();
+    const rates = new Map<string, Promise<IConversionRate>>();
+
+    return {
+      currency: target,
+      convert: async (amount: number, from: string, date: Date): Promise<number> => {
+        const source = (from || target).toUpperCase();
+        if (source === target) {
+          return amount;
+        }
+
+        const key = `${source}:${this.toDay(date).toISOString()}`;
+        let rate = rates.get(key);
+        if (!rate) {
+          rate = this.getRate(source, target, date);
+          rates.set(key, rate);
+        }
+
+        return amount * (await rate).rate;
+      }
+    };
+  }
+
+  /**
+   * Currency an organization reports in
+   */
+  public async getOrganizationCurrency(organizationId: ObjectIdLike): Promise<string> {
+    const organization = await Organization.findById(organizationId).select('settings.currency');
+    return (organization?.settings.currency ?? DEFAULT_REPORTING_CURRENCY).toUpperCase();
+  }
+
+  /**
+   * Currency to report a property in: its organization's, otherwise its own;
+   * reports across all properties use the default reporting currency
+   */
+  public async getReportingCurrency(propertyId?: ObjectIdLike): Promise<string> {
+    if (!propertyId) {
+      return DEFAULT_REPORTING_CURRENCY;
+    }
+
+    const property = await Property.findById(propertyId).select('organization rooms.currency');
+    if (property?.organization) {
+      return this.getOrganizationCurrency(property.organization);
+    }
+
+    return (property?.rooms[0]?.currency ?? DEFAULT_REPORTING_CURRENCY).toUpperCase();
+  }
+
+  // Direct or inverse rate of a pair from the latest fresh table
+  private async findPairRate(from: string, to: string, date: Date): Promise<IConversionRate | null> {
+    const window = {
+      $lte: date,
+      $gte: new Date(this.toDay(date).getTime() - MAX_RATE_AGE_DAYS * 86400000)
+    };
+
+    const [direct, inverse] = await Promise.all([
+      ExchangeRate.findOne({ base: from, quote: to, date: window }).sort({ date: -1 }),
+      ExchangeRate.findOne({ base: to, quote: from, date: window }).sort({ date: -1 })
+    ]);
+
+    // The fresher table wins when both directions were loaded
+    if (direct && (!inverse || direct.date >= inverse.date)) {
+      return { from, to, rate: direct.rate, date: direct.date };
+    }
+    if (inverse) {
+      return { from, to, rate: 1 / inverse.rate, date: inverse.date };
+    }
+
+    return null;
+  }
+
+  private async upsertRate(
+    base: string,
+    quote: string,
+    rate: number,
+    date: Date,
+    source: ExchangeRateSource,
+    userId: string | undefined,
+    result: IRateImportResult
+  ): Promise<void> {
+    if (!/^[A-Z]{3}$/.test(base) || !/^[A-Z]{3}$/.test(quote)) {
+      throw new Error('Currencies must be 3-letter codes');
+    }
+    if (base === quote) {
+      throw new Error('Base and quote currency must differ');
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error('Rate must be a positive number');
+    }
+
+    const day = this.toDay(date);
+    const update = await ExchangeRate.updateOne(
+      { base, quote, date: day },
+      {
+        $set: {
+          rate,
+          source,
+          ...(userId && { importedBy: new mongoose.Types.ObjectId(userId) })
+        }
+      },
+      { upsert: true }
+    );
+
+    if (update.upsertedCount > 0) {
+      result.imported++;
+    } else {
+      result.updated++;
+    }
+  }
+
+  // Tables are dated by calendar day
+  private toDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
+
+// Singleton instance
+export const exchangeRateService = new ExchangeRateService();
+export { ExchangeRateService };
+export default exchangeRateService;
@@ -0,0 +1,562 @@
+import mongoose from 'mongoose';
+import Property from '../models/Property';
+import Booking, { BookingStatus, IBooking, IBookingExtra, IGuestCount, IPricing } from '../models/Booking';
+import Extra, { ExtraCategory, ExtraChargeType, IExtra, NIGHTLY_CHARGE_TYPES, PER_GUEST_CHARGE_TYPES } from '../models/Extra';
+import ExtraInventory from '../models/ExtraInventory';
+import Folio, { FolioStatus } from '../models/Folio';
+import { InventoryRepository } from './inventoryRepository';
+import { InventoryReservationService } from './inventoryReservationService';
+import { exchangeRateService } from './exchangeRateService';
+import { folioService } from './folioService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Bookings extras can still be added to or removed from
+const EXTRA_BOOKING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.CONFIRMED,
+  BookingStatus.MODIFIED,
+  BookingStatus.CHECKED_IN
+];
+
+// New or changed extra
+export interface IExtraRequest {
+  name: string;
+  description?: string;
+  category?: ExtraCategory;
+  chargeType: ExtraChargeType;
+  price: number;
+  currency: string;
+  dailyInventory?: number | null; // null removes the limit
+  maxQuantity?: number | null; // null removes the limit
+  active?: boolean;
+}
+
+// Extra chosen for a stay
+export interface IExtraSelection {
+  extraId: ObjectIdLike;
+  quantity?: number; // Defaults to 1
+}
+
+// Stay to price extras for
+export interface IExtraStay {
+  propertyId: ObjectIdLike;
+  checkIn: Date;
+  checkOut: Date;
+  guests: IGuestCount;
+  currency: string; // Currency the stay is charged in
+  bookingId?: ObjectIdLike; // Units the booking already holds are not counted against it
+}
+
+// Priced extra
+export interface IExtraLine {
+  extra: mongoose.Types.ObjectId;
+  name: string;
+  category: ExtraCategory;
+  chargeType: ExtraChargeType;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+// Extra that cannot be booked with a stay
+export interface IUnavailableExtra {
+  extraId: string;
+  reason: string;
+}
+
+// Price of extras on a stay
+export interface IExtraQuote {
+  lines: IExtraLine[];
+  unavailable: IUnavailableExtra[];
+  total: number;
+  currency: string;
+}
+
+/**
+ * Extra Service
+ *
+ * Manages each property's catalogue of extras and sells them with stays.
+ * Guests choose extras when they book; staff can add or remove them later.
+ * An extra's price is converted into the booking's currency at today's rate
+ * and multiplied out by quantity, nights and guests as its charge type says.
+ * Extras with a daily inventory take units on every night of the stay when
+ * they are charged nightly, otherwise on the day of arrival; units are given
+ * back when the extra is removed or the booking is cancelled. Booked extras
+ * add up to the booking's `pricing.extras`, with one breakdown line each.
+ */
+class ExtraService {
+  /**
+   * List a property's extras, only those on sale unless told otherwise
+   */
+  public async listExtras(propertyId: ObjectIdLike, includeInactive = false): Promise<IExtra[]> {
+    return Extra.find({
+      property: this.toObjectId(propertyId),
+      ...(!includeInactive && { active: true })
+    }).sort({ category: 1, name: 1 });
+  }
+
+  /**
+   * Get an extra of a property
+   */
+  public async getExtra(extraId: ObjectIdLike, propertyId: ObjectIdLike): Promise<IExtra> {
+    const extra = await Extra.findOne({ _id: this.toObjectId(extraId), property: this.toObjectId(propertyId) });
+    if (!extra) {
+      throw createError.notFound('Extra not found');
+    }
+
+    return extra;
+  }
+
+  /**
+   * Add an extra to a property's catalogue
+   */
+  public async createExtra(propertyId: ObjectIdLike, request: IExtraRequest, userId?: string): Promise<IExtra> {
+    if (!await Property.exists({ _id: this.toObjectId(propertyId) })) {
+      throw createError.notFound('Property not found');
+    }
+
+    const extra = await Extra.create({
+      ...request,
+      property: this.toObjectId(propertyId),
+      createdBy: userId ? this.toObjectId(userId) : undefined
+    });
+    logger.info(`Extra ${extra.name} added to property ${propertyId.toString()}`);
+
+    return extra;
+  }
+
+  /**
+   * Change an extra; bookings keep the price they were sold at
+   */
+  public async updateExtra(extraId: ObjectIdLike, request: Partial<IExtraRequest>, propertyId: ObjectIdLike): Promise<IExtra> {
+    const extra = await this.getExtra(extraId, propertyId);
+
+    extra.set(request);
+    for (const limit of ['dailyInventory', 'maxQuantity'] as const) {
+      if (request[limit] === null) {
+        extra.set(limit, undefined);
+      }
+    }
+    await extra.save();
+
+    return extra;
+  }
+
+  /**
+   * Delete an extra that was never booked
+   */
+  public async deleteExtra(extraId: ObjectIdLike, propertyId: ObjectIdLike): Promise<void> {
+    const extra = await this.getExtra(extraId, propertyId);
+
+    if (await Booking.exists({ 'extras.extra': extra._id })) {
+      throw createError.conflict('Extra has been booked; deactivate it instead');
+    }
+
+    await extra.deleteOne();
+    await ExtraInventory.deleteMany({ extra: extra._id });
+  }
+
+  /**
+   * Price extras for a stay without booking them
+   */
+  public async quote(selections: IExtraSelection[], stay: IExtraStay): Promise<IExtraQuote> {
+    const quote: IExtraQuote = { lines: [], unavailable: [], total: 0, currency: stay.currency };
+    if (selections.length === 0) {
+      return quote;
+    }
+
+    const extras = await Extra.find({
+      _id: {
+        $in: selections
+          .filter(selection => mongoose.isValidObjectId(selection.extraId))
+          .map(selection => this.toObjectId(selection.extraId))
+      }
+    });
+    const byId = new Map(extras.map(extra => [extra._id.toString(), extra]));
+    const checkIn = InventoryRepository.normalizeDate(stay.checkIn);
+    const nights = InventoryReservationService.getStayDates(checkIn, InventoryRepository.normalizeDate(stay.checkOut)).length;
+
+    for (const selection of selections) {
+      const extraId = selection.extraId.toString();
+      const quantity = selection.quantity ?? 1;
+      const extra = byId.get(extraId);
+      const reason = extra
+        ? await this.getUnavailability(extra, quantity, stay)
+        : 'Extra not found';
+
+      if (!extra || reason) {
+        quote.unavailable.push({ extraId, reason: reason ?? 'Extra not found' });
+        continue;
+      }
+
+      const unitPrice = await this.convertPrice(extra, stay.currency);
+      if (unitPrice === null) {
+        quote.unavailable.push({ extraId, reason: `Extra cannot be sold in ${stay.currency}` });
+        continue;
+      }
+
+      const amount = this.round(unitPrice * quantity * this.getMultiplier(extra.chargeType, nights, stay.guests));
+      quote.lines.push({
+        extra: extra._id,
+        name: extra.name,
+        category: extra.category,
+        chargeType: extra.chargeType,
+        quantity,
+        unitPrice,
+        amount
+      });
+      quote.total = this.round(quote.total + amount);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Stay pricing with quoted extras on top
+   */
+  public addToPricing(pricing: IPricing, quote: IExtraQuote): IPricing {
+    if (quote.lines.length === 0) {
+      return pricing;
+    }
+
+    return {
+      ...pricing,
+      extras: this.round((pricing.extras ?? 0) + quote.total),
+      total: this.round(pricing.total + quote.total),
+      breakdown: {
+        ...(pricing.breakdown ?? { roomRate: pricing.baseRate }),
+        extras: [...(pricing.breakdown?.extras ?? []), ...quote.lines.map(line => this.toBreakdownLine(line))]
+      }
+    };
+  }
+
+  /**
+   * Add extras to a new booking's pricing; every extra must be available.
+   * Their inventory is taken by reserve() once the stay is secured.
+   */
+  public async applyToBooking(booking: IBooking, selections: IExtraSelection[], userId?: string): Promise<IBookingExtra[]> {
+    const quote = await this.quote(selections, this.getStay(booking));
+    this.assertAvailable(quote);
+
+    const added = this.addLines(booking, quote.lines, userId);
+    this.applyPricing(booking);
+
+    return added;
+  }
+
+  /**
+   * Take the daily inventory of a booking's extras; nothing is held when an
+   * extra sold out in the meantime
+   */
+  public async reserve(booking: IBooking, lines: IBookingExtra[] = booking.extras): Promise<void> {
+    const claimed: IBookingExtra[] = [];
+
+    try {
+      for (const line of lines) {
+        if (await this.claimLine(booking, line)) {
+          claimed.push(line);
+        }
+      }
+    } catch (error) {
+      for (const line of claimed) {
+        await this.releaseLine(line._id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add extras to an existing booking, taking their inventory and charging them to an open folio
+   */
+  public async addToBooking(bookingId: ObjectIdLike, selections: IExtraSelection[], userId?: string): Promise<IBooking> {
+    const booking = await this.getBooking(bookingId);
+
+    const quote = await this.quote(selections, this.getStay(booking));
+    this.assertAvailable(quote);
+
+    const added = this.addLines(booking, quote.lines, userId);
+    this.applyPricing(booking);
+    booking.lastModifiedBy = userId ? this.toObjectId(userId) : undefined;
+
+    await this.reserve(booking, added);
+    try {
+      await booking.save();
+    } catch (error) {
+      for (const line of added) {
+        await this.releaseLine(line._id);
+      }
+      throw error;
+    }
+
+    logger.info(`Extras ${added.map(line => line.name).join(', ')} added to booking ${booking._id.toString()}`);
+    await this.trySyncFolio(booking, userId);
+
+    return booking;
+  }
+
+  /**
+   * Remove an extra from a booking and give its inventory back
+   */
+  public async removeFromBooking(bookingId: ObjectIdLike, lineId: ObjectIdLike, userId?: string): Promise<IBooking> {
+    const booking = await this.getBooking(bookingId);
+
+    const line = booking.extras.find(extra => extra._id.equals(lineId));
+    if (!line) {
+      throw createError.notFound('Extra not found on booking');
+    }
+
+    booking.extras = booking.extras.filter(extra => !extra._id.equals(line._id));
+    this.applyPricing(booking);
+    booking.lastModifiedBy = userId ? this.toObjectId(userId) : undefined;
+
+    await booking.save();
+    await this.releaseLine(line._id);
+
+    logger.info(`Extra ${line.name} removed from booking ${booking._id.toString()}`);
+    await this.trySyncFolio(booking, userId);
+
+    return booking;
+  }
+
+  /**
+   * Give back the inventory held by a booking's extras
+   */
+  public async releaseBooking(bookingId: ObjectIdLike): Promise<void> {
+    const booking = this.toObjectId(bookingId);
+    const days = await ExtraInventory.find({ 'claims.booking': booking });
+
+    for (const day of days) {
+      for (const claim of day.claims.filter(claim => claim.booking.equals(booking))) {
+        await ExtraInventory.updateOne(
+          { _id: day._id, 'claims.line': claim.line },
+          { $pull: { claims: { line: claim.line } }, $inc: { sold: -claim.quantity } }
+        );
+      }
+    }
+  }
+
+  /**
+   * Best-effort release: a cancellation already stands, so a failure only leaves units sold
+   */
+  public async tryReleaseBooking(bookingId: ObjectIdLike): Promise<void> {
+    try {
+      await this.releaseBooking(bookingId);
+    } catch (error) {
+      logger.error(`Extra inventory release failed for booking ${bookingId.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Why an extra cannot be booked with a stay, or null when it can
+   */
+  private async getUnavailability(extra: IExtra, quantity: number, stay: IExtraStay): Promise<string | null> {
+    if (!extra.active) {
+      return 'Extra is not on sale';
+    }
+    if (!extra.property.equals(stay.propertyId)) {
+      return 'Extra is not sold at this property';
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      return 'Quantity must be a whole number of at least 1';
+    }
+    if (extra.maxQuantity !== undefined && quantity > extra.maxQuantity) {
+      return `At most ${extra.maxQuantity} of this extra can be booked`;
+    }
+
+    if (extra.dailyInventory !== undefined) {
+      const dates = this.getInventoryDates(extra, stay.checkIn, stay.checkOut);
+      const days = await ExtraInventory.find({ extra: extra._id, date: { $in: dates } });
+      const bookingId = stay.bookingId?.toString();
+
+      const soldOut = days.some(day => {
+        const held = day.claims
+          .filter(claim => claim.booking.toString() === bookingId)
+          .reduce((sum, claim) => sum + claim.quantity, 0);
+        return day.sold - held + quantity > (extra.dailyInventory ?? 0);
+      });
+      if (soldOut) {
+        return 'Extra is sold out for these dates';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Take one booking line's units on each of its days, all or nothing;
+   * false when the extra has no daily limit
+   */
+  private async claimLine(booking: IBooking, line: IBookingExtra): Promise<boolean> {
+    const extra = await Extra.findById(line.extra).select('dailyInventory chargeType');
+    if (extra?.dailyInventory === undefined) {
+      return false;
+    }
+
+    const limit = extra.dailyInventory;
+    const claim = { line: line._id, booking: booking._id, quantity: line.quantity };
+
+    try {
+      for (const date of this.getInventoryDates(extra, booking.checkIn, booking.checkOut)) {
+        await ExtraInventory.updateOne(
+          { extra: extra._id, date },
+          { $setOnInsert: { property: booking.property, sold: 0, claims: [] } },
+          { upsert: true }
+        );
+
+        const claimed = await ExtraInventory.updateOne(
+          { extra: extra._id, date, 'claims.line': { $ne: line._id }, sold: { $lte: limit - line.quantity } },
+          { $inc: { sold: line.quantity }, $push: { claims: claim } }
+        );
+        if (claimed.matchedCount === 0) {
+          throw createError.conflict(`${line.name} is sold out on ${date.toISOString().split('T')[0]}`);
+        }
+      }
+    } catch (error) {
+      await this.releaseLine(line._id);
+      throw error;
+    }
+
+    return true;
+  }
+
+  /**
+   * Give back one booking line's units; a line already released is left alone
+   */
+  private async releaseLine(lineId: mongoose.Types.ObjectId): Promise<void> {
+    const days = await ExtraInventory.find({ 'claims.line': lineId });
+
+    for (const day of days) {
+      const claim = day.claims.find(c => c.line.equals(lineId));
+      if (!claim) {
+        continue;
+      }
+      await ExtraInventory.updateOne(
+        { _id: day._id, 'claims.line': lineId },
+        { $pull: { claims: { line: lineId } }, $inc: { sold: -claim.quantity } }
+      );
+    }
+  }
+
+  /**
+   * Bring an open folio's extras charge in line with the booking
+   */
+  private async trySyncFolio(booking: IBooking, userId?: string): Promise<void> {
+    try {
+      if (await Folio.exists({ booking: booking._id, status: FolioStatus.OPEN })) {
+        await folioService.syncWithBooking(booking, userId);
+      }
+    } catch (error) {
+      logger.error(`Folio sync failed after changing the extras of booking ${booking._id.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Set the booking's extras total and breakdown lines from its booked extras
+   */
+  private applyPricing(booking: IBooking): void {
+    const pricing: IPricing = booking.pricing;
+    const extras = this.round(booking.extras.reduce((sum, line) => sum + line.amount, 0));
+    const lines = booking.extras.map(line => this.toBreakdownLine(line));
+
+    pricing.total = this.round(pricing.total - (pricing.extras ?? 0) + extras);
+    pricing.extras = extras;
+
+    const breakdown = pricing.breakdown ?? { roomRate: pricing.baseRate };
+    breakdown.extras = lines.length > 0 ? lines : undefined;
+    pricing.breakdown = breakdown;
+  }
+
+  private toBreakdownLine(line: IExtraLine): { name: string; amount: number } {
+    return {
+      name: line.quantity > 1 ? `${line.name} x${line.quantity}` : line.name,
+      amount: line.amount
+    };
+  }
+
+  private addLines(booking: IBooking, lines: IExtraLine[], userId?: string): IBookingExtra[] {
+    const addedAt = new Date();
+    const addedBy = userId ? this.toObjectId(userId) : undefined;
+
+    for (const line of lines) {
+      booking.extras.push({ _id: new mongoose.Types.ObjectId(), ...line, addedAt, addedBy });
+    }
+
+    return booking.extras.slice(booking.extras.length - lines.length);
+  }
+
+  private assertAvailable(quote: IExtraQuote): void {
+    if (quote.unavailable.length > 0) {
+      throw createError.validation(
+        'Extra cannot be booked',
+        quote.unavailable.map(unavailable => ({ field: 'extras', message: unavailable.reason, value: unavailable.extraId }))
+      );
+    }
+  }
+
+  private async getBooking(bookingId: ObjectIdLike): Promise<IBooking> {
+    const booking = await Booking.findById(this.toObjectId(bookingId));
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+    if (!EXTRA_BOOKING_STATUSES.includes(booking.status)) {
+      throw createError.booking(`Cannot change the extras of a ${booking.status} booking`);
+    }
+
+    return booking;
+  }
+
+  private getStay(booking: IBooking): IExtraStay {
+    return {
+      propertyId: booking.property,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      guests: booking.guests,
+      currency: booking.pricing.currency,
+      bookingId: booking._id
+    };
+  }
+
+  /**
+   * Days an extra takes inventory on: every night when charged nightly, otherwise the day of arrival
+   */
+  private getInventoryDates(extra: IExtra, checkIn: Date, checkOut: Date): Date[] {
+    const arrival = InventoryRepository.normalizeDate(checkIn);
+    return NIGHTLY_CHARGE_TYPES.includes(extra.chargeType)
+      ? InventoryReservationService.getStayDates(arrival, InventoryRepository.normalizeDate(checkOut))
+      : [arrival];
+  }
+
+  private getMultiplier(chargeType: ExtraChargeType, nights: number, guests: IGuestCount): number {
+    const perNight = NIGHTLY_CHARGE_TYPES.includes(chargeType) ? nights : 1;
+    const perGuest = PER_GUEST_CHARGE_TYPES.includes(chargeType) ? guests.adults + guests.children : 1;
+    return perNight * perGuest;
+  }
+
+  /**
+   * Unit price in the stay's currency, or null when no rate is loaded
+   */
+  private async convertPrice(extra: IExtra, currency: string): Promise<number | null> {
+    try {
+      return await exchangeRateService.convert(extra.price, extra.currency, currency);
+    } catch (error) {
+      logger.warn(`Extra ${extra.name} could not be converted to ${currency}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private toObjectId(id: ObjectIdLike): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+}
+
+// Singleton instance
+export const extraService = new ExtraService();
+export { ExtraService };
+export default extraService;
@@ -0,0 +1,411 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking, BookingStatus } from '../models/Booking';
+import Folio, {
+  IFolio,
+  IFolioPosting,
+  IFolioTransaction,
+  ILedgerLine,
+  FolioStatus,
+  FolioTransactionType,
+  ChargeCategory,
+  PaymentMethod,
+  LedgerAccount,
+  CATEGORY_ACCOUNTS,
+  roundAmount
+} from '../models/Folio';
+import { bookingEventService } from './bookingEventService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type BookingRef = IBooking | string | mongoose.Types.ObjectId;
+
+// Charge or adjustment request
+export interface IFolioChargeRequest {
+  amount: number; // Positive for charges, signed for adjustments
+  category: ChargeCategory;
+  description: string;
+  reference?: string;
+}
+
+// Payment or refund request
+export interface IFolioPaymentRequest {
+  amount: number;
+  method: PaymentMethod;
+  description?: string;
+  reference?: string;
+}
+
+// Result of a posting
+export interface IFolioPostingResult {
+  folio: IFolio;
+  transaction: IFolioTransaction;
+}
+
+// Stay pricing categories and how much of each the booking asks for; a
+// cancelled or no-show stay is charged its penalty instead of its price
+const STAY_PRICING_TARGETS: [ChargeCategory, (booking: IBooking, released: boolean) => number][] = [
+  [ChargeCategory.ROOM, (booking, released): number => (released ? 0 : booking.pricing.baseRate)],
+  [ChargeCategory.TAX, (booking, released): number => (released ? 0 : booking.pricing.taxes)],
+  [ChargeCategory.FEE, (booking, released): number => (released ? 0 : booking.pricing.fees)],
+  [ChargeCategory.EXTRA, (booking, released): number => (released ? 0 : booking.pricing.extras ?? 0)],
+  [ChargeCategory.DISCOUNT, (booking, released): number => (released ? 0 : -booking.pricing.discounts)],
+  [ChargeCategory.CANCELLATION, (booking, released): number => (released ? booking.cancellationCharge?.penalty ?? 0 : 0)]
+];
+
+// Statuses whose stay is no longer charged
+const RELEASED_STATUSES = [BookingStatus.CANCELLED, BookingStatus.NO_SHOW];
+
+/**
+ * Folio Service
+ *
+ * Posts charges, payments, refunds and adjustments to a booking's folio and
+ * answers what the guest still owes. A folio is opened the first time it is
+ * needed and seeded with the stay charges from the booking's pricing; later
+ * repricing (e.g. a date change) or a cancellation penalty replacing the stay
+ * is posted as the difference, so the ledger keeps the full history of what
+ * the guest was charged and when.
+ */
+class FolioService {
+  /**
+   * Get a booking's folio, opening it if it does not exist yet
+   */
+  public async getFolio(bookingRef: BookingRef, userId?: string): Promise<IFolio> {
+    const booking = await this.getBooking(bookingRef);
+    const existing = await Folio.findOne({ booking: booking._id });
+    if (existing) {
+      return existing;
+    }
+
+    return this.openFolio(booking, userId);
+  }
+
+  /**
+   * What the guest still owes; negative when they are in credit
+   */
+  public async getBalance(bookingRef: BookingRef): Promise<number> {
+    const folio = await this.getFolio(bookingRef);
+    return folio.balance;
+  }
+
+  /**
+   * Post a charge (room extras, incidentals, fees) to the guest
+   */
+  public async postCharge(bookingRef: BookingRef, request: IFolioChargeRequest, userId?: string): Promise<IFolioPostingResult> {
+    if (request.amount <= 0) {
+      throw createError.validation('Charge amount must be positive');
+    }
+    if (request.category === ChargeCategory.DISCOUNT) {
+      throw createError.validation('Discounts are posted as adjustments');
+    }
+
+    return this.postTo(bookingRef, userId, () => ({
+      type: FolioTransactionType.CHARGE,
+      description: request.description,
+      amount: request.amount,
+      category: request.category,
+      reference: request.reference,
+      lines: this.categoryLines(request.category, request.amount)
+    }));
+  }
+
+  /**
+   * Record money taken from the guest
+   */
+  public async recordPayment(bookingRef: BookingRef, request: IFolioPaymentRequest, userId?: string): Promise<IFolioPostingResult> {
+    if (request.amount <= 0) {
+      throw createError.validation('Payment amount must be positive');
+    }
+
+    return this.postTo(bookingRef, userId, () => ({
+      type: FolioTransactionType.PAYMENT,
+      description: request.description ?? `Payment (${request.method})`,
+      amount: -request.amount,
+      paymentMethod: request.method,
+      reference: request.reference,
+      lines: [
+        { account: LedgerAccount.PAYMENTS_CLEARING, debit: request.amount, credit: 0 },
+        { account: LedgerAccount.GUEST_RECEIVABLE, debit: 0, credit: request.amount }
+      ]
+    }));
+  }
+
+  /**
+   * Pay money back to the guest, never more than they have paid
+   */
+  public async refund(bookingRef: BookingRef, request: IFolioPaymentRequest, userId?: string): Promise<IFolioPostingResult> {
+    if (request.amount <= 0) {
+      throw createError.validation('Refund amount must be positive');
+    }
+
+    return this.postTo(bookingRef, userId, folio => {
+      const refundable = folio.accountBalance(LedgerAccount.PAYMENTS_CLEARING);
+      if (roundAmount(request.amount) > refundable) {
+        throw createError.validation(`Refund exceeds the ${refundable} paid on this folio`);
+      }
+
+      return {
+        type: FolioTransactionType.REFUND,
+        description: request.description ?? `Refund (${request.method})`,
+        amount: request.amount,
+        paymentMethod: request.method,
+        reference: request.reference,
+        lines: [
+          { account: LedgerAccount.GUEST_RECEIVABLE, debit: request.amount, credit: 0 },
+          { account: LedgerAccount.PAYMENTS_CLEARING, debit: 0, credit: request.amount }
+        ]
+      };
+    });
+  }
+
+  /**
+   * Correct what the guest is charged; negative amounts are credits
+   * (goodwill, discounts), positive amounts add to the bill
+   */
+  public async adjust(bookingRef: BookingRef, request: IFolioChargeRequest, userId?: string): Promise<IFolioPostingResult> {
+    if (request.amount === 0) {
+      throw createError.validation('Adjustment amount cannot be zero');
+    }
+
+    return this.postTo(bookingRef, userId, () => ({
+      type: FolioTransactionType.ADJUSTMENT,
+      description: request.description,
+      amount: request.amount,
+      category: request.category,
+      reference: request.reference,
+      lines: this.categoryLines(request.category, request.amount)
+    }));
+  }
+
+  /**
+   * Void a transaction by posting its reversal
+   */
+  public async voidTransaction(
+    bookingRef: BookingRef,
+    transactionId: string | mongoose.Types.ObjectId,
+    reason: string,
+    userId?: string
+  ): Promise<IFolioPostingResult> {
+    return this.postTo(bookingRef, userId, folio => {
+      const original = folio.transactions.find(transaction => transaction._id.equals(transactionId));
+      if (!original) {
+        throw createError.notFound('Folio transaction not found');
+      }
+      if (original.type === FolioTransactionType.REVERSAL || original.voidedBy) {
+        throw createError.conflict('Folio transaction is already a reversal or has been voided');
+      }
+
+      return {
+        type: FolioTransactionType.REVERSAL,
+        description: `Void: ${reason}`.slice(0, 200),
+        amount: -original.amount,
+        category: original.category,
+        paymentMethod: original.paymentMethod,
+        reference: original.reference,
+        stayPricing: original.stayPricing,
+        reverses: original._id,
+        lines: original.lines.map(line => ({ account: line.account, debit: line.credit, credit: line.debit }))
+      };
+    }, (folio, reversal) => {
+      const original = folio.transactions.find(transaction => transaction._id.equals(transactionId));
+      if (original) {
+        original.voidedBy = reversal._id;
+      }
+    });
+  }
+
+  /**
+   * Close a settled folio to further postings
+   */
+  public async closeFolio(bookingRef: BookingRef): Promise<IFolio> {
+    const folio = await this.getFolio(bookingRef);
+    if (folio.status === FolioStatus.CLOSED) {
+      return folio;
+    }
+    if (folio.balance !== 0) {
+      throw createError.conflict(`Folio cannot be closed with a balance of ${folio.balance}`);
+    }
+
+    folio.status = FolioStatus.CLOSED;
+    folio.closedAt = new Date();
+    return this.save(folio);
+  }
+
+  /**
+   * Record that the guest checked out while still owing money
+   */
+  public async flagBalanceDue(bookingRef: BookingRef, userId?: string): Promise<IFolio> {
+    const folio = await this.getFolio(bookingRef);
+
+    folio.balanceDueAtCheckout = {
+      amount: folio.balance,
+      flaggedAt: new Date(),
+      flaggedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined
+    };
+    logger.warn(`Booking ${folio.booking.toString()} checked out with a balance of ${folio.balance} ${folio.currency}`);
+
+    return this.save(folio);
+  }
+
+  /**
+   * Bring the folio's stay charges in line with the booking's current pricing
+   */
+  public async syncWithBooking(bookingRef: BookingRef, userId?: string): Promise<IFolio> {
+    const booking = await this.getBooking(bookingRef);
+    const folio = await Folio.findOne({ booking: booking._id });
+    if (!folio) {
+      return this.openFolio(booking, userId);
+    }
+
+    if (this.postStayPricing(folio, booking, userId, 'Stay repriced') === 0) {
+      return folio;
+    }
+    return this.save(folio);
+  }
+
+  /**
+   * Keep open folios in step with booking modifications (called once at startup)
+   */
+  public subscribeToBookingEvents(): void {
+    bookingEventService.onModified(async event => {
+      if (await Folio.exists({ booking: event.bookingId, status: FolioStatus.OPEN })) {
+        await this.syncWithBooking(event.bookingId, event.modification.modifiedBy?.toString());
+      }
+    });
+  }
+
+  private async openFolio(booking: IBooking, userId?: string): Promise<IFolio> {
+    const folio = new Folio({
+      property: booking.property,
+      booking: booking._id,
+      group: booking.group,
+      currency: booking.pricing.currency
+    });
+    this.postStayPricing(folio, booking, userId, 'Stay');
+
+    try {
+      await folio.save();
+      logger.info(`Folio opened for booking ${booking._id.toString()} with a balance of ${folio.balance}`);
+      return folio;
+    } catch (error) {
+      // Opened concurrently by another request
+      if ((error as { code?: number }).code === 11000) {
+        const existing = await Folio.findOne({ booking: booking._id });
+        if (existing) {
+          return existing;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Post the difference between the booking's pricing and the stay charges
+   * already on the folio; returns the number of transactions posted
+   */
+  private postStayPricing(folio: IFolio, booking: IBooking, userId: string | undefined, label: string): number {
+    const postedBy = userId ? new mongoose.Types.ObjectId(userId) : undefined;
+    const released = RELEASED_STATUSES.includes(booking.status);
+    let posted = 0;
+
+    for (const [category, target] of STAY_PRICING_TARGETS) {
+      const charged = folio.transactions
+        .filter(transaction => transaction.stayPricing && transaction.category === category)
+        .reduce((sum, transaction) => sum + transaction.amount, 0);
+      const difference = roundAmount(target(booking, released) - charged);
+      if (difference === 0) {
+        continue;
+      }
+
+      folio.post({
+        type: difference > 0 && category !== ChargeCategory.DISCOUNT
+          ? FolioTransactionType.CHARGE
+          : FolioTransactionType.ADJUSTMENT,
+        description: this.stayPricingDescription(booking, category, released ? 'Stay cancelled' : label),
+        amount: difference,
+        category,
+        stayPricing: true,
+        lines: this.categoryLines(category, difference),
+        postedBy
+      });
+      posted++;
+    }
+
+    return posted;
+  }
+
+  private stayPricingDescription(booking: IBooking, category: ChargeCategory, label: string): string {
+    if (category === ChargeCategory.CANCELLATION) {
+      return booking.status === BookingStatus.NO_SHOW ? 'No-show penalty' : 'Cancellation penalty';
+    }
+    return `${label} ${category}`;
+  }
+
+  /**
+   * Guest receivable against the category's account; positive amounts are
+   * owed by the guest, negative amounts credit them
+   */
+  private categoryLines(category: ChargeCategory, amount: number): ILedgerLine[] {
+    const value = Math.abs(amount);
+    const account = CATEGORY_ACCOUNTS[category];
+
+    return amount > 0
+      ? [
+        { account: LedgerAccount.GUEST_RECEIVABLE, debit: value, credit: 0 },
+        { account, debit: 0, credit: value }
+      ]
+      : [
+        { account, debit: value, credit: 0 },
+        { account: LedgerAccount.GUEST_RECEIVABLE, debit: 0, credit: value }
+      ];
+  }
+
+  private async postTo(
+    bookingRef: BookingRef,
+    userId: string | undefined,
+    build: (folio: IFolio) => IFolioPosting,
+    afterPost?: (folio: IFolio, transaction: IFolioTransaction) => void
+  ): Promise<IFolioPostingResult> {
+    const folio = await this.getFolio(bookingRef, userId);
+    const transaction = folio.post({
+      ...build(folio),
+      postedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined
+    });
+    afterPost?.(folio, transaction);
+
+    await this.save(folio);
+    logger.info(
+      `Folio ${folio._id.toString()}: ${transaction.type} of ${transaction.amount} ${folio.currency} posted, balance ${folio.balance}`
+    );
+
+    return { folio, transaction };
+  }
+
+  private async save(folio: IFolio): Promise<IFolio> {
+    try {
+      return await folio.save();
+    } catch (error) {
+      if (error instanceof mongoose.Error.VersionError) {
+        throw createError.conflict('Folio was changed by another request, please retry');
+      }
+      throw error;
+    }
+  }
+
+  private async getBooking(bookingRef: BookingRef): Promise<IBooking> {
+    if (bookingRef instanceof Booking) {
+      return bookingRef;
+    }
+
+    const booking = await Booking.findById(bookingRef);
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    return booking;
+  }
+}
+
+// Singleton instance
+export const folioService = new FolioService();
+export { FolioService };
+export default folioService;
@@ -0,0 +1,237 @@
+import axios from 'axios';
+import { IChannel } from '../models/Channel';
+import { otaService, OTAProvider, OTAConnection } from './OTAService';
+import { createError, ChannelAdapterError } from '../utils/errors';
+import {
+  IChannelAdapter,
+  IChannelAdapterCapabilities,
+  IAriUpdate,
+  IAriPushResult,
+  IChannelReservation,
+  IChannelListing,
+  IConnectionTestResult
+} from './channelAdapterService';
+
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+// Listing as returned by the generic OTA API
+interface IRestListing {
+  id: string | number;
+  name?: string;
+  rooms?: Array<{
+    id: string | number;
+    name?: string;
+    ratePlans?: Array<{ id: string | number; name?: string }>;
+  }>;
+}
+
+// Booking as returned by the generic OTA API
+interface IRestBooking {
+  id: string | number;
+  status?: string;
+  propertyId: string | number;
+  roomId?: string | number;
+  ratePlanId?: string | number;
+  checkIn: string;
+  checkOut: string;
+  guestInfo?: IChannelReservation['guestInfo'];
+  guests?: Partial<IChannelReservation['guests']>;
+  pricing?: Partial<IChannelReservation['pricing']>;
+}
+
+/**
+ * Generic REST Channel Adapter
+ *
+ * Speaks the generic OTA REST API of OTAService: one calendar call per
+ * date range, reservations listed and acknowledged per booking. The endpoint
+ * defaults to MOCK_OTA_URL and can be set per channel with
+ * apiCredentials.additionalConfig.baseUrl.
+ */
+class GenericRestChannelAdapter implements IChannelAdapter {
+  public readonly name = 'generic-rest';
+
+  public readonly capabilities: IChannelAdapterCapabilities = {
+    ariGranularity: 'range',
+    maxAriBatchSize: 100,
+    acknowledgesReservations: true
+  };
+
+  public async testConnection(channel: IChannel): Promise<IConnectionTestResult> {
+    const startTime = Date.now();
+
+    try {
+      // An authenticated call, so a wrong API key fails the test
+      await otaService.listProperties(this.getProvider(channel), { pageSize: 1 }, this.getConnection(channel));
+
+      return {
+        connected: true,
+        responseTime: Date.now() - startTime,
+        message: 'Connection test successful'
+      };
+    } catch (error) {
+      return {
+        connected: false,
+        responseTime: Date.now() - startTime,
+        message: this.toAdapterError(error, 'Connection test failed').message
+      };
+    }
+  }
+
+  /**
+   * Push each update as a calendar call. Updates the OTA refuses are
+   * reported; outages and rejected credentials fail the whole push.
+   */
+  public async pushAri(channel: IChannel, updates: IAriUpdate[]): Promise<IAriPushResult> {
+    const provider = this.getProvider(channel);
+    const connection = this.getConnection(channel);
+    const result: IAriPushResult = { accepted: 0, rejected: [] };
+
+    for (const update of updates) {
+      try {
+        await otaService.updateCalendar(provider, {
+          propertyId: update.externalPropertyId,
+          roomId: update.externalRoomId,
+          ratePlanId: update.externalRatePlanId,
+          startDate: update.startDate,
+          endDate: update.endDate,
+          updates: {
+            available: update.closed === undefined && update.availableUnits === undefined
+              ? undefined
+              : !update.closed && (update.availableUnits ?? 1) > 0,
+            availableUnits: update.availableUnits,
+            rate: update.rate,
+            minStay: update.minStay,
+            maxStay: update.maxStay
+          }
+        }, connection);
+        result.accepted++;
+      } catch (error) {
+        const adapterError = this.toAdapterError(error, 'ARI update failed');
+        if (adapterError.retryable || this.isAuthError(error)) {
+          throw adapterError;
+        }
+        result.rejected.push({ update, message: adapterError.message });
+      }
+    }
+
+    return result;
+  }
+
+  public async pullReservations(channel: IChannel, since?: Date): Promise<IChannelReservation[]> {
+    try {
+      const response = await otaService.listBookings(
+        this.getProvider(channel),
+        since ? { since: since.toISOString() } : undefined,
+        this.getConnection(channel)
+      );
+
+      const bookings = Array.isArray(response.data) ? response.data as IRestBooking[] : [];
+      return bookings.map(booking => this.toReservation(booking));
+    } catch (error) {
+      throw this.toAdapterError(error, 'Reservation pull failed');
+    }
+  }
+
+  public async acknowledgeReservation(channel: IChannel, externalId: string): Promise<void> {
+    try {
+      await otaService.acknowledgeBooking(this.getProvider(channel), externalId, this.getConnection(channel));
+    } catch (error) {
+      throw this.toAdapterError(error, `Acknowledging reservation ${externalId} failed`);
+    }
+  }
+
+  public async getListings(channel: IChannel): Promise<IChannelListing[]> {
+    try {
+      const response = await otaService.listProperties(this.getProvider(channel), undefined, this.getConnection(channel));
+      const listings = Array.isArray(response.data) ? response.data as IRestListing[] : [];
+
+      return listings.map(listing => ({
+        externalPropertyId: String(listing.id),
+        name: listing.name ?? '',
+        rooms: (listing.rooms ?? []).map(room => ({
+          externalRoomId: String(room.id),
+          name: room.name ?? '',
+          ratePlans: (room.ratePlans ?? []).map(plan => ({
+            externalRatePlanId: String(plan.id),
+            name: plan.name ?? ''
+          }))
+        }))
+      }));
+    } catch (error) {
+      throw this.toAdapterError(error, 'Listing fetch failed');
+    }
+  }
+
+  private getProvider(channel: IChannel): OTAProvider {
+    if (!Object.values<string>(OTAProvider).includes(channel.type)) {
+      throw createError.channel(`${channel.type} channels have no OTA API`);
+    }
+
+    return channel.type as string as OTAProvider;
+  }
+
+  private getConnection(channel: IChannel): OTAConnection {
+    const baseUrl = channel.apiCredentials.additionalConfig?.['baseUrl'] as unknown;
+
+    return {
+      baseURL: typeof baseUrl === 'string' ? baseUrl : undefined,
+      apiKey: channel.apiCredentials.apiKey
+    };
+  }
+
+  private toReservation(booking: IRestBooking): IChannelReservation {
+    return {
+      externalId: String(booking.id),
+      status: booking.status === 'cancelled' || booking.status === 'modified' ? booking.status : 'confirmed',
+      externalPropertyId: String(booking.propertyId),
+      externalRoomId: booking.roomId !== undefined ? String(booking.roomId) : undefined,
+      externalRatePlanId: booking.ratePlanId !== undefined ? String(booking.ratePlanId) : undefined,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      guestInfo: booking.guestInfo ?? {},
+      guests: {
+        adults: booking.guests?.adults ?? 1,
+        children: booking.guests?.children ?? 0
+      },
+      pricing: {
+        nightlyRate: booking.pricing?.nightlyRate,
+        total: booking.pricing?.total ?? 0,
+        currency: booking.pricing?.currency ?? 'USD'
+      }
+    };
+  }
+
+  private isAuthError(error: unknown): boolean {
+    return axios.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403);
+  }
+
+  /**
+   * Outages, rate limits and timeouts are retryable; refused credentials
+   * and rejected requests are not
+   */
+  private toAdapterError(error: unknown, message: string): ChannelAdapterError {
+    if (error instanceof ChannelAdapterError) {
+      return error;
+    }
+
+    if (!axios.isAxiosError(error)) {
+      return createError.channelAdapter(`${message}: ${(error as Error).message}`);
+    }
+
+    if (!error.response) {
+      return createError.channelAdapter(`${message}: ${error.message}`, true);
+    }
+
+    const status = error.response.status;
+    const body = error.response.data as { error?: { message?: string } } | undefined;
+    const reason = this.isAuthError(error)
+      ? 'credentials were rejected'
+      : body?.error?.message ?? `HTTP ${status}`;
+
+    return createError.channelAdapter(`${message}: ${reason}`, RETRYABLE_STATUS_CODES.includes(status));
+  }
+}
+
+export const genericRestChannelAdapter = new GenericRestChannelAdapter();
+export { GenericRestChannelAdapter };
+export default genericRestChannelAdapter;
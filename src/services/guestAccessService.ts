@@ -0,0 +1,290 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Booking, { IBooking, IGuestCount, BookingStatus, StatusChangeSource } from '../models/Booking';
+import Property from '../models/Property';
+import { bookingStatusService } from './bookingStatusService';
+import { bookingModificationService, IBookingModificationResult } from './bookingModificationService';
+import { cancellationPolicyService, ICancellationQuote } from './cancellationPolicyService';
+import emailService from './emailService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+// Magic links are signed with their own secret when one is configured
+const LINK_SECRET = process.env['GUEST_LINK_SECRET'] ?? process.env['JWT_SECRET'] ?? 'your-guest-link-secret-here';
+// How long an emailed link stays valid
+const LINK_TTL_HOURS = parseInt(process.env['GUEST_LINK_TTL_HOURS'] ?? '72', 10);
+// Page of the guest app that opens a link
+const LINK_BASE_URL = `${process.env['FRONTEND_URL'] ?? 'http://localhost:5173'}/bookings/manage`;
+
+const LINK_AUDIENCE = 'reservario-guest';
+const LINK_PURPOSE = 'guest_booking';
+
+// Bookings a guest may still change or cancel themselves
+const GUEST_EDITABLE_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.MODIFIED];
+
+// How a guest proved they own a booking
+export enum GuestAccessMethod {
+  CONFIRMATION_CODE = 'confirmation_code', // Confirmation code plus guest email
+  MAGIC_LINK = 'magic_link'                // Signed link emailed to the guest
+}
+
+// Guest credentials; either the booking email or a link token
+export interface IGuestCredentials {
+  email?: string;
+  token?: string;
+}
+
+// Guest allowed to manage a booking
+export interface IGuestAccess {
+  booking: IBooking;
+  email: string;
+  method: GuestAccessMethod;
+}
+
+// Signed link to manage a booking
+export interface IGuestLink {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+// Stay changes a guest may ask for
+export interface IGuestStayChange {
+  checkIn?: Date;
+  checkOut?: Date;
+  guests?: Partial<IGuestCount>;
+}
+
+// Booking details a guest may update
+export interface IGuestDetailsChange {
+  arrivalTime?: string | null; // null clears it
+  specialRequests?: string[];
+}
+
+// What the guest sees when managing a booking
+export interface IGuestBookingOverview {
+  booking: IBooking;
+  canModify: boolean;
+  canCancel: boolean;
+  cancellation: ICancellationQuote | null;
+}
+
+interface IGuestLinkPayload {
+  bookingId: string;
+  email: string;
+  purpose: string;
+}
+
+/**
+ * Guest Access Service
+ *
+ * Lets guests manage their own booking without an account. A guest proves
+ * ownership with the confirmation code and the email on the booking, or
+ * with a signed link emailed to that address; the link stops working once
+ * the booking's email changes. Every change goes through the same status
+ * and modification services as staff changes, so cancellation policy,
+ * availability, stay restrictions and repricing apply unchanged.
+ */
+class GuestAccessService {
+  /**
+   * Check a guest's credentials for the booking with a confirmation code
+   */
+  public async authenticate(confirmationCode: string, credentials: IGuestCredentials): Promise<IGuestAccess> {
+    if (credentials.token) {
+      const access = await this.verifyLink(credentials.token);
+      if (!access || access.booking.channelConfirmationCode !== confirmationCode) {
+        throw createError.authentication('Invalid or expired booking link');
+      }
+      return access;
+    }
+
+    const booking = credentials.email ? await this.findBooking(confirmationCode, credentials.email) : null;
+    if (!booking) {
+      throw createError.authentication('Invalid confirmation code or email');
+    }
+
+    return { booking, email: booking.guestInfo.email, method: GuestAccessMethod.CONFIRMATION_CODE };
+  }
+
+  /**
+   * Sign a link to manage a booking, bound to the guest's current email
+   */
+  public issueLink(booking: IBooking): IGuestLink {
+    const payload: IGuestLinkPayload = {
+      bookingId: booking._id.toString(),
+      email: this.normalizeEmail(booking.guestInfo.email),
+      purpose: LINK_PURPOSE
+    };
+
+    const token = jwt.sign(payload, LINK_SECRET, {
+      expiresIn: `${LINK_TTL_HOURS}h`,
+      audience: LINK_AUDIENCE
+    } as jwt.SignOptions);
+
+    const params = new URLSearchParams({ code: booking.channelConfirmationCode ?? '', token });
+
+    return {
+      token,
+      url: `${LINK_BASE_URL}?${params.toString()}`,
+      expiresAt: new Date(Date.now() + LINK_TTL_HOURS * 3600000)
+    };
+  }
+
+  /**
+   * Email a manage link to the guest when the code and email match a
+   * booking; returns the booking, or null when nothing was sent
+   */
+  public async sendLink(confirmationCode: string, email: string): Promise<IBooking | null> {
+    const booking = await this.findBooking(confirmationCode, email);
+    if (!booking) {
+      return null;
+    }
+
+    const property = await Property.findById(booking.property).select('name');
+    const link = this.issueLink(booking);
+
+    const sent = await emailService.sendGuestBookingLinkEmail(
+      booking.guestInfo.email,
+      `${booking.guestInfo.firstName} ${booking.guestInfo.lastName}`,
+      {
+        propertyName: property?.name ?? '',
+        confirmationCode: booking.channelConfirmationCode,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        manageUrl: link.url,
+        expiresAt: link.expiresAt
+      }
+    );
+
+    if (!sent) {
+      logger.warn(`Booking link for ${booking._id.toString()} could not be emailed`);
+      return null;
+    }
+
+    return booking;
+  }
+
+  /**
+   * The booking with what the guest may still do and what cancelling costs
+   */
+  public async getOverview(access: IGuestAccess): Promise<IGuestBookingOverview> {
+    const { booking } = access;
+    const canModify = this.isEditable(booking);
+    const canCancel = booking.canBeCancelled();
+
+    return {
+      booking,
+      canModify,
+      canCancel,
+      cancellation: canCancel ? await cancellationPolicyService.quote(booking) : null
+    };
+  }
+
+  /**
+   * Cancel the booking within its cancellation policy
+   */
+  public async cancel(access: IGuestAccess, reason?: string): Promise<IBooking> {
+    const { booking } = access;
+
+    if (reason) {
+      booking.cancellationReason = reason;
+    }
+
+    return bookingStatusService.transition(booking, BookingStatus.CANCELLED, {
+      source: StatusChangeSource.GUEST,
+      reason: reason ?? 'Cancelled by guest'
+    });
+  }
+
+  /**
+   * Change the dates or guest count of the stay, repriced and subject to
+   * availability and stay restrictions
+   */
+  public async changeStay(access: IGuestAccess, change: IGuestStayChange): Promise<IBookingModificationResult> {
+    this.assertEditable(access.booking);
+
+    return bookingModificationService.modifyBooking(
+      access.booking._id,
+      {
+        checkIn: change.checkIn,
+        checkOut: change.checkOut,
+        guests: change.guests,
+        reason: 'Changed by guest'
+      },
+      { enforceRestrictions: true }
+    );
+  }
+
+  /**
+   * Update the expected arrival time and special requests
+   */
+  public async updateDetails(access: IGuestAccess, change: IGuestDetailsChange): Promise<IBooking> {
+    const { booking } = access;
+    this.assertEditable(booking);
+
+    if (change.arrivalTime !== undefined) {
+      booking.arrivalTime = change.arrivalTime ?? undefined;
+    }
+    if (change.specialRequests !== undefined) {
+      booking.specialRequests = change.specialRequests;
+    }
+
+    if (!booking.isModified()) {
+      throw createError.validation('No changes requested');
+    }
+
+    await booking.save();
+    logger.info(`Booking ${booking._id.toString()} details updated by guest`);
+
+    return booking;
+  }
+
+  private async verifyLink(token: string): Promise<IGuestAccess | null> {
+    let payload: IGuestLinkPayload;
+    try {
+      payload = jwt.verify(token, LINK_SECRET, { audience: LINK_AUDIENCE }) as IGuestLinkPayload;
+    } catch (error) {
+      logger.debug('Booking link rejected:', error);
+      return null;
+    }
+
+    if (payload.purpose !== LINK_PURPOSE || !mongoose.isValidObjectId(payload.bookingId)) {
+      return null;
+    }
+
+    const booking = await Booking.findById(payload.bookingId);
+    if (!booking || this.normalizeEmail(booking.guestInfo.email) !== payload.email) {
+      return null;
+    }
+
+    return { booking, email: booking.guestInfo.email, method: GuestAccessMethod.MAGIC_LINK };
+  }
+
+  private async findBooking(confirmationCode: string, email: string): Promise<IBooking | null> {
+    const booking = await Booking.findOne({ channelConfirmationCode: confirmationCode });
+
+    if (!booking || this.normalizeEmail(booking.guestInfo.email) !== this.normalizeEmail(email)) {
+      return null;
+    }
+
+    return booking;
+  }
+
+  private isEditable(booking: IBooking): boolean {
+    return GUEST_EDITABLE_STATUSES.includes(booking.status);
+  }
+
+  private assertEditable(booking: IBooking): void {
+    if (!this.isEditable(booking)) {
+      throw createError.booking(`A ${booking.status} booking can no longer be changed online`);
+    }
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
+
+export const guestAccessService = new GuestAccessService();
+export { GuestAccessService };
+export default guestAccessService;
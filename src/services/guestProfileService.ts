@@ -0,0 +1,618 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import Guest, { IGuest, IGuestDocument, IGuestNote, IGuestStats, GuestStatus } from '../models/Guest';
+import Booking, { IBooking, IGuestInfo, BookingStatus } from '../models/Booking';
+import Property from '../models/Property';
+import { roundAmount } from '../models/Folio';
+import { bookingEventService } from './bookingEventService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// How bookings are matched to profiles
+export interface IGuestMatchConfig {
+  matchOnEmail: boolean;
+  matchOnPhone: boolean;
+  matchOnDocument: boolean;
+  nameSimilarity: number; // 0-1; email and phone matches need names at least this alike, 0 skips the check
+  phoneDigits: number;    // Trailing digits compared, so numbers with and without country code match
+}
+
+// Identifier a profile matched on
+export type GuestMatchReason = 'document' | 'email' | 'phone';
+
+// A profile that may be the same person
+export interface IGuestMatch {
+  guest: IGuest;
+  reasons: GuestMatchReason[];
+  nameSimilarity: number;
+  confident: boolean; // Safe to link without review
+}
+
+// Who a booking says the guest is
+export type GuestIdentity = Pick<IGuestInfo, 'firstName' | 'lastName'> & Partial<IGuestInfo>;
+
+// Profile fields staff can edit
+export interface IGuestProfileUpdate {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  nationality?: string;
+  dateOfBirth?: Date;
+  gender?: 'male' | 'female' | 'other';
+  preferences?: string[];
+}
+
+// Guest search
+export interface IGuestSearchFilter {
+  search?: string;
+  tag?: string;
+  property?: string;
+  scope?: FilterQuery<IGuest>; // Restricts the search to the guests the caller may see
+  page: number;
+  limit: number;
+}
+
+// Normalized identifiers of a guest
+interface IGuestKeys {
+  emails: string[];
+  phones: string[];
+  documents: string[];
+}
+
+// Matching defaults, tunable per deployment
+const DEFAULT_MATCH_CONFIG: IGuestMatchConfig = {
+  matchOnEmail: process.env['GUEST_MATCH_EMAIL'] !== 'false',
+  matchOnPhone: process.env['GUEST_MATCH_PHONE'] !== 'false',
+  matchOnDocument: process.env['GUEST_MATCH_DOCUMENT'] !== 'false',
+  nameSimilarity: parseFloat(process.env['GUEST_MATCH_NAME_SIMILARITY'] ?? '0.8'),
+  phoneDigits: parseInt(process.env['GUEST_MATCH_PHONE_DIGITS'] ?? '9', 10)
+};
+
+// Stand-ins channels send when they withhold the guest's details; never matched on
+const PLACEHOLDER_EMAILS = new Set(['guest@example.com']);
+const PLACEHOLDER_PHONES = new Set(['1234567890']);
+const PLACEHOLDER_DOCUMENT = /^TEMP/;
+const UNKNOWN_NATIONALITY = 'Unknown';
+
+const MIN_PHONE_DIGITS = 6;
+const MAX_CANDIDATES = 20;
+
+const STAY_STATUSES = [BookingStatus.CHECKED_IN, BookingStatus.CHECKED_OUT];
+const UPCOMING_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED];
+
+const normalizeEmail = (email?: string): string | undefined => {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && !PLACEHOLDER_EMAILS.has(normalized) ? normalized : undefined;
+};
+
+const normalizePhone = (phone?: string): string | undefined => {
+  const digits = phone?.replace(/\D/g, '');
+  return digits && digits.length >= MIN_PHONE_DIGITS && !PLACEHOLDER_PHONES.has(digits) ? digits : undefined;
+};
+
+const normalizeDocument = (documentNumber?: string): string | undefined => {
+  const normalized = documentNumber?.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return normalized && !PLACEHOLDER_DOCUMENT.test(normalized) ? normalized : undefined;
+};
+
+const normalizeName = (name: string): string =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Guest Profile Service
+ *
+ * Links bookings to one profile per guest. A booking joins an existing
+ * profile of the same owner when its document number matches, or when its
+ * email or phone matches and the names are alike enough (family members
+ * often share a contact); otherwise a new profile is created. Staff merge the
+ * duplicates matching cannot tell apart. Stay statistics and lifetime value
+ * are recomputed from the linked bookings whenever one changes.
+ */
+class GuestProfileService {
+  /**
+   * Matching settings in effect, with optional overrides
+   */
+  public getMatchConfig(overrides: Partial<IGuestMatchConfig> = {}): IGuestMatchConfig {
+    return { ...DEFAULT_MATCH_CONFIG, ...overrides };
+  }
+
+  /**
+   * Profiles of an owner that may belong to the given guest, best match first
+   */
+  public async findMatches(
+    ownerId: ObjectIdLike,
+    identity: GuestIdentity,
+    overrides: Partial<IGuestMatchConfig> = {}
+  ): Promise<IGuestMatch[]> {
+    return this.match(ownerId, this.identityKeys(identity), identity, this.getMatchConfig(overrides));
+  }
+
+  /**
+   * Other profiles sharing an identifier with a guest, for staff to review
+   */
+  public async findDuplicates(guestRef: IGuest | ObjectIdLike, overrides: Partial<IGuestMatchConfig> = {}): Promise<IGuestMatch[]> {
+    const guest = await this.getGuest(guestRef);
+    const keys: IGuestKeys = {
+      emails: guest.emails,
+      phones: guest.phones,
+      documents: guest.documents.map(document => document.documentNumber)
+    };
+
+    return this.match(guest.owner, keys, guest, this.getMatchConfig(overrides), guest._id);
+  }
+
+  /**
+   * Link a booking to its guest's profile, creating the profile if no
+   * existing one matches confidently
+   */
+  public async attachBooking(
+    bookingRef: IBooking | ObjectIdLike,
+    overrides: Partial<IGuestMatchConfig> = {}
+  ): Promise<IGuest> {
+    const booking = await this.getBooking(bookingRef);
+    if (booking.guest) {
+      return this.refreshStats(booking.guest);
+    }
+
+    const property = await Property.findById(booking.property).select('owner');
+    if (!property) {
+      throw createError.notFound('Property not found');
+    }
+
+    const matches = await this.findMatches(property.owner, booking.guestInfo, overrides);
+    const match = matches.find(candidate => candidate.confident);
+    const guest = match?.guest ?? new Guest({
+      owner: property.owner,
+      firstName: booking.guestInfo.firstName,
+      lastName: booking.guestInfo.lastName
+    });
+
+    this.absorbIdentity(guest, booking.guestInfo);
+    if (!guest.properties.some(propertyId => propertyId.equals(booking.property))) {
+      guest.properties.push(booking.property);
+    }
+    await guest.save();
+
+    await Booking.updateOne({ _id: booking._id }, { guest: guest._id });
+    booking.guest = guest._id;
+
+    if (match) {
+      logger.info(`Booking ${booking._id.toString()} linked to guest ${guest._id.toString()} (matched on ${match.reasons.join(', ')})`);
+    } else {
+      logger.info(`Guest ${guest._id.toString()} created for booking ${booking._id.toString()}`);
+    }
+
+    return this.refreshStats(guest);
+  }
+
+  /**
+   * Best-effort linking used right after a booking is created
+   */
+  public async tryAttachBooking(booking: IBooking): Promise<void> {
+    try {
+      await this.attachBooking(booking);
+    } catch (error) {
+      logger.error(`Guest profile linking failed for booking ${booking._id.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Fold duplicate profiles into one: identifiers, tags, notes and bookings
+   * move to the target and the duplicates are marked as merged
+   */
+  public async mergeGuests(targetRef: IGuest | ObjectIdLike, sourceIds: ObjectIdLike[]): Promise<IGuest> {
+    const target = await this.getGuest(targetRef);
+    if (target.status === GuestStatus.MERGED) {
+      throw createError.conflict(`Guest ${target._id.toString()} has already been merged into another profile`);
+    }
+
+    const ids = [...new Set(sourceIds.map(id => id.toString()))];
+    if (ids.includes(target._id.toString())) {
+      throw createError.validation('A guest cannot be merged into itself');
+    }
+
+    const sources = await Guest.find({ _id: { $in: ids } });
+    if (sources.length !== ids.length) {
+      throw createError.notFound('Guest not found');
+    }
+
+    for (const source of sources) {
+      if (!source.owner.equals(target.owner)) {
+        throw createError.validation('Guests of different owners cannot be merged');
+      }
+      if (source.status === GuestStatus.MERGED) {
+        throw createError.conflict(`Guest ${source._id.toString()} has already been merged into another profile`);
+      }
+    }
+
+    for (const source of sources) {
+      this.absorbProfile(target, source);
+    }
+    await target.save();
+
+    // Retire the duplicates before moving their bookings so new bookings match the target
+    const sourceObjectIds = sources.map(source => source._id);
+    await Guest.updateMany({ _id: { $in: sourceObjectIds } }, { status: GuestStatus.MERGED, mergedInto: target._id });
+    await Guest.updateMany({ mergedInto: { $in: sourceObjectIds } }, { mergedInto: target._id });
+    const relinked = await Booking.updateMany({ guest: { $in: sourceObjectIds } }, { guest: target._id });
+
+    logger.info(`Merged ${sources.length} guest profile(s) into ${target._id.toString()}, ${relinked.modifiedCount} booking(s) relinked`);
+
+    return this.refreshStats(target);
+  }
+
+  /**
+   * Recompute stay statistics and lifetime value from the linked bookings
+   */
+  public async refreshStats(guestRef: IGuest | ObjectIdLike): Promise<IGuest> {
+    const guest = await this.getGuest(guestRef);
+    const bookings = await Booking.find({ guest: guest._id }).select('status checkIn checkOut pricing cancellationCharge');
+
+    const now = new Date();
+    const stays = bookings.filter(booking => STAY_STATUSES.includes(booking.status));
+    const upcoming = bookings.filter(booking => UPCOMING_STATUSES.includes(booking.status) && booking.checkOut >= now);
+    const value = new Map<string, number>();
+    const addValue = (currency: string, amount: number): void => {
+      value.set(currency, roundAmount((value.get(currency) ?? 0) + amount));
+    };
+
+    for (const booking of bookings) {
+      if (STAY_STATUSES.includes(booking.status)) {
+        addValue(booking.pricing.currency, booking.pricing.total);
+      } else if (booking.cancellationCharge?.penalty) {
+        addValue(booking.pricing.currency, booking.cancellationCharge.penalty);
+      }
+    }
+
+    const checkIns = (list: IBooking[]): number[] => list.map(booking => booking.checkIn.getTime());
+    const stats: IGuestStats = {
+      totalBookings: bookings.length,
+      completedStays: stays.length,
+      totalNights: stays.reduce((nights, booking) => nights + booking.getNights(), 0),
+      cancellations: bookings.filter(booking => booking.status === BookingStatus.CANCELLED).length,
+      noShows: bookings.filter(booking => booking.status === BookingStatus.NO_SHOW).length,
+      lifetimeValue: [...value].map(([currency, amount]) => ({ currency, amount })),
+      firstStayAt: stays.length ? new Date(Math.min(...checkIns(stays))) : undefined,
+      lastStayAt: stays.length ? new Date(Math.max(...checkIns(stays))) : undefined,
+      nextStayAt: upcoming.length ? new Date(Math.min(...checkIns(upcoming))) : undefined,
+      calculatedAt: now
+    };
+
+    guest.set('stats', stats);
+    await guest.save();
+    return guest;
+  }
+
+  /**
+   * Bookings of a guest, latest stay first
+   */
+  public async getStayHistory(
+    guestRef: IGuest | ObjectIdLike,
+    page = 1,
+    limit = 20
+  ): Promise<{ guest: IGuest; bookings: IBooking[]; total: number }> {
+    const guest = await this.getGuest(guestRef);
+    const filter = { guest: guest._id };
+
+    const [bookings, total] = await Promise.all([
+      Booking.find(filter)
+        .select('property room unit group checkIn checkOut guests status channel channelConfirmationCode pricing cancellationCharge createdAt')
+        .populate('property', 'name address.city address.country')
+        .sort({ checkIn: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Booking.countDocuments(filter)
+    ]);
+
+    return { guest, bookings, total };
+  }
+
+  /**
+   * Search profiles by name, email, phone or document number
+   */
+  public async searchGuests(filter: IGuestSearchFilter): Promise<{ guests: IGuest[]; total: number }> {
+    const query: FilterQuery<IGuest> = { ...filter.scope, status: GuestStatus.ACTIVE };
+
+    if (filter.tag) query.tags = filter.tag.trim().toLowerCase();
+    if (filter.property) query.properties = filter.property;
+
+    if (filter.search) {
+      const pattern = new RegExp(escapeRegex(filter.search.trim()), 'i');
+      const conditions: FilterQuery<IGuest>[] = [
+        { firstName: pattern },
+        { lastName: pattern },
+        { emails: pattern }
+      ];
+      const phone = filter.search.replace(/\D/g, '');
+      if (phone.length >= MIN_PHONE_DIGITS) {
+        conditions.push({ phones: new RegExp(phone) });
+      }
+      const document = normalizeDocument(filter.search);
+      if (document) {
+        conditions.push({ 'documents.documentNumber': document });
+      }
+      query.$and = [{ $or: conditions }];
+    }
+
+    const [guests, total] = await Promise.all([
+      Guest.find(query)
+        .sort({ 'stats.lastStayAt': -1, lastName: 1 })
+        .skip((filter.page - 1) * filter.limit)
+        .limit(filter.limit),
+      Guest.countDocuments(query)
+    ]);
+
+    return { guests, total };
+  }
+
+  /**
+   * Edit a profile; new emails and phones also become matching identifiers
+   */
+  public async updateProfile(guestRef: IGuest | ObjectIdLike, updates: IGuestProfileUpdate): Promise<IGuest> {
+    const guest = await this.getActiveGuest(guestRef);
+
+    guest.set(updates);
+    this.addIdentifiers(guest, { emails: [normalizeEmail(updates.email)], phones: [normalizePhone(updates.phone)] });
+
+    await guest.save();
+    return guest;
+  }
+
+  /**
+   * Add and remove tags
+   */
+  public async updateTags(guestRef: IGuest | ObjectIdLike, add: string[] = [], remove: string[] = []): Promise<IGuest> {
+    const guest = await this.getActiveGuest(guestRef);
+    const normalize = (tag: string): string => tag.trim().toLowerCase();
+    const removed = new Set(remove.map(normalize));
+
+    guest.tags = [...new Set([...guest.tags, ...add.map(normalize)])].filter(tag => tag && !removed.has(tag));
+
+    await guest.save();
+    return guest;
+  }
+
+  /**
+   * Add a staff note
+   */
+  public async addNote(guestRef: IGuest | ObjectIdLike, text: string, userId?: string): Promise<IGuest> {
+    const guest = await this.getActiveGuest(guestRef);
+
+    guest.notes.push({ text, createdBy: userId ? new mongoose.Types.ObjectId(userId) : undefined, createdAt: new Date() } as IGuestNote);
+
+    await guest.save();
+    return guest;
+  }
+
+  /**
+   * Remove a staff note
+   */
+  public async removeNote(guestRef: IGuest | ObjectIdLike, noteId: ObjectIdLike): Promise<IGuest> {
+    const guest = await this.getActiveGuest(guestRef);
+    const remaining = guest.notes.filter(note => !note._id.equals(noteId));
+
+    if (remaining.length === guest.notes.length) {
+      throw createError.notFound('Note not found');
+    }
+
+    guest.set('notes', remaining);
+    await guest.save();
+    return guest;
+  }
+
+  public async getGuest(guestRef: IGuest | ObjectIdLike): Promise<IGuest> {
+    if (guestRef instanceof Guest) {
+      return guestRef;
+    }
+
+    const guest = await Guest.findById(guestRef);
+    if (!guest) {
+      throw createError.notFound('Guest not found');
+    }
+
+    return guest;
+  }
+
+  /**
+   * Keep stay statistics current as linked bookings change
+   */
+  public subscribeToBookingEvents(): void {
+    bookingEventService.onStatusChanged(async event => {
+      await this.refreshBookingGuest(event.bookingId);
+    });
+    bookingEventService.onModified(async event => {
+      await this.refreshBookingGuest(event.bookingId);
+    });
+  }
+
+  private async refreshBookingGuest(bookingId: mongoose.Types.ObjectId): Promise<void> {
+    const booking = await Booking.findById(bookingId).select('guest');
+    if (booking?.guest) {
+      await this.refreshStats(booking.guest);
+    }
+  }
+
+  private async match(
+    ownerId: ObjectIdLike,
+    keys: IGuestKeys,
+    name: Pick<IGuestInfo, 'firstName' | 'lastName'>,
+    config: IGuestMatchConfig,
+    excludeId?: mongoose.Types.ObjectId
+  ): Promise<IGuestMatch[]> {
+    const phoneTails = keys.phones.map(phone => phone.slice(-config.phoneDigits));
+    const conditions: FilterQuery<IGuest>[] = [];
+
+    if (config.matchOnDocument && keys.documents.length) {
+      conditions.push({ 'documents.documentNumber': { $in: keys.documents } });
+    }
+    if (config.matchOnEmail && keys.emails.length) {
+      conditions.push({ emails: { $in: keys.emails } });
+    }
+    if (config.matchOnPhone && phoneTails.length) {
+      conditions.push({ phones: { $in: phoneTails.map(tail => new RegExp(`${tail}$`)) } });
+    }
+    if (!conditions.length) {
+      return [];
+    }
+
+    const candidates = await Guest.find({
+      owner: ownerId,
+      status: GuestStatus.ACTIVE,
+      ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+      $or: conditions
+    }).limit(MAX_CANDIDATES);
+
+    return candidates
+      .map(guest => {
+        const reasons: GuestMatchReason[] = [];
+        if (config.matchOnDocument && guest.documents.some(document => keys.documents.includes(document.documentNumber))) {
+          reasons.push('document');
+        }
+        if (config.matchOnEmail && guest.emails.some(email => keys.emails.includes(email))) {
+          reasons.push('email');
+        }
+        if (config.matchOnPhone && guest.phones.some(phone => phoneTails.includes(phone.slice(-config.phoneDigits)))) {
+          reasons.push('phone');
+        }
+
+        const nameSimilarity = this.nameSimilarity(name, guest);
+        return {
+          guest,
+          reasons,
+          nameSimilarity,
+          confident: reasons.includes('document') || (reasons.length > 0 && nameSimilarity >= config.nameSimilarity)
+        };
+      })
+      .filter(match => match.reasons.length > 0)
+      .sort((a, b) =>
+        Number(b.confident) - Number(a.confident) ||
+        b.reasons.length - a.reasons.length ||
+        b.nameSimilarity - a.nameSimilarity
+      );
+  }
+
+  /**
+   * Similarity of two full names from 0 to 1, ignoring case, accents and
+   * which name was entered first
+   */
+  private nameSimilarity(a: Pick<IGuestInfo, 'firstName' | 'lastName'>, b: Pick<IGuestInfo, 'firstName' | 'lastName'>): number {
+    const name = normalizeName(`${a.firstName}${a.lastName}`);
+    const candidates = [
+      normalizeName(`${b.firstName}${b.lastName}`),
+      normalizeName(`${b.lastName}${b.firstName}`)
+    ];
+
+    return Math.max(...candidates.map(candidate => {
+      const length = Math.max(name.length, candidate.length);
+      return length ? 1 - levenshtein(name, candidate) / length : 0;
+    }));
+  }
+
+  private identityKeys(identity: GuestIdentity): IGuestKeys {
+    const defined = (values: (string | undefined)[]): string[] => values.filter((value): value is string => Boolean(value));
+
+    return {
+      emails: defined([normalizeEmail(identity.email)]),
+      phones: defined([normalizePhone(identity.phone)]),
+      documents: defined([normalizeDocument(identity.documentNumber)])
+    };
+  }
+
+  /**
+   * Add a booking's identifiers to a profile and fill its missing details
+   */
+  private absorbIdentity(guest: IGuest, info: IGuestInfo): void {
+    const keys = this.identityKeys(info);
+    this.addIdentifiers(guest, keys);
+
+    if (keys.documents[0] && !guest.documents.some(document => document.documentNumber === keys.documents[0])) {
+      guest.documents.push({ documentType: info.documentType, documentNumber: keys.documents[0] });
+    }
+
+    guest.email ??= keys.emails[0];
+    if (!guest.phone && keys.phones.length) guest.phone = info.phone;
+    if (!guest.nationality && info.nationality && info.nationality !== UNKNOWN_NATIONALITY) guest.nationality = info.nationality;
+    guest.dateOfBirth ??= info.dateOfBirth;
+    guest.gender ??= info.gender;
+  }
+
+  /**
+   * Move everything a duplicate profile knows into the target
+   */
+  private absorbProfile(target: IGuest, source: IGuest): void {
+    this.addIdentifiers(target, { emails: source.emails, phones: source.phones });
+
+    const documents = new Set(target.documents.map(document => document.documentNumber));
+    source.documents
+      .filter(document => !documents.has(document.documentNumber))
+      .forEach((document: IGuestDocument) => target.documents.push({ documentType: document.documentType, documentNumber: document.documentNumber }));
+
+    target.properties = [...new Map([...target.properties, ...source.properties].map(id => [id.toString(), id])).values()];
+    target.tags = [...new Set([...target.tags, ...source.tags])];
+    target.preferences = [...new Set([...target.preferences, ...source.preferences])];
+    target.set('notes', [...target.notes, ...source.notes]
+      .map(note => ({ _id: note._id, text: note.text, createdBy: note.createdBy, createdAt: note.createdAt }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+
+    target.email ??= source.email;
+    target.phone ??= source.phone;
+    target.nationality ??= source.nationality;
+    target.dateOfBirth ??= source.dateOfBirth;
+    target.gender ??= source.gender;
+  }
+
+  private addIdentifiers(guest: IGuest, keys: { emails: (string | undefined)[]; phones: (string | undefined)[] }): void {
+    keys.emails.forEach(email => {
+      if (email && !guest.emails.includes(email)) guest.emails.push(email);
+    });
+    keys.phones.forEach(phone => {
+      if (phone && !guest.phones.includes(phone)) guest.phones.push(phone);
+    });
+  }
+
+  private async getActiveGuest(guestRef: IGuest | ObjectIdLike): Promise<IGuest> {
+    const guest = await this.getGuest(guestRef);
+    if (guest.status === GuestStatus.MERGED) {
+      throw createError.conflict(`Guest has been merged into ${String(guest.mergedInto)}`);
+    }
+
+    return guest;
+  }
+
+  private async getBooking(bookingRef: IBooking | ObjectIdLike): Promise<IBooking> {
+    if (bookingRef instanceof Booking) {
+      return bookingRef;
+    }
+
+    const booking = await Booking.findById(bookingRef);
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    return booking;
+  }
+}
+
+// Singleton instance
+export const guestProfileService = new GuestProfileService();
+export { GuestProfileService };
+export default guestProfileService;
@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+
+// Inventory event names
+export enum InventoryEvent {
+  CHANGED = 'inventory.changed'
+}
+
+// Payload of an inventory change
+export interface IInventoryChangedEvent {
+  propertyId: mongoose.Types.ObjectId;
+  roomId: mongoose.Types.ObjectId;
+  dates: Date[]; // Stay nights that changed
+  availability: boolean; // Units, status or allotments changed
+  rates: boolean; // Rates, stay limits or restrictions changed
+  channel?: string; // Only this channel's view changed; every channel when unset
+}
+
+type Listener<T> = (event: T) => Promise<void> | void;
+
+/**
+ * Inventory Event Service
+ *
+ * In-process publish/subscribe for changes to sellable inventory, so the
+ * outbound channel push stays out of the booking, inventory and rate plan
+ * code paths. Listener failures are logged and never reach the publisher.
+ */
+class InventoryEventService {
+  private emitter = new EventEmitter();
+
+  /**
+   * Publish an inventory change; changes without nights are dropped
+   */
+  public emitChanged(event: IInventoryChangedEvent): void {
+    if (event.dates.length > 0) {
+      this.emitter.emit(InventoryEvent.CHANGED, event);
+    }
+  }
+
+  /**
+   * Subscribe to inventory changes
+   */
+  public onChanged(listener: Listener<IInventoryChangedEvent>): void {
+    this.subscribe(InventoryEvent.CHANGED, listener);
+  }
+
+  /**
+   * Drop every listener (tests and shutdown)
+   */
+  public removeAllListeners(): void {
+    this.emitter.removeAllListeners();
+  }
+
+  private subscribe<T>(event: InventoryEvent, listener: Listener<T>): void {
+    this.emitter.on(event, (payload: T) => {
+      Promise.resolve()
+        .then(() => listener(payload))
+        .catch(error => logger.error(`Inventory event listener for ${event} failed:`, error));
+    });
+  }
+}
+
+// Singleton instance
+export const inventoryEventService = new InventoryEventService();
+export { InventoryEventService };
+export default inventoryEventService;
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import InventoryHold, { IInventoryHold, HoldStatus } from '../models/InventoryHold';
+import { inventoryReservationService, IReservedNight } from './inventoryReservationService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+// Hold creation request
+export interface ICreateHoldRequest {
+  propertyId: string;
+  roomId: string;
+  checkIn: Date;
+  checkOut: Date;
+  channel?: string;
+  guestEmail?: string;
+  ttlMinutes?: number;
+}
+
+// Hold creation result
+export interface ICreateHoldResult {
+  hold: IInventoryHold;
+  nights: IReservedNight[];
+}
+
+// Booking details needed to convert a hold
+export interface IConvertHoldRequest {
+  bookingId: mongoose.Types.ObjectId;
+  propertyId: string;
+  roomId: string;
+  checkIn: Date;
+  checkOut: Date;
+  guestName?: string;
+}
+
+const DEFAULT_HOLD_TTL_MINUTES = parseInt(process.env['INVENTORY_HOLD_TTL_MINUTES'] || '15', 10);
+const MAX_HOLD_TTL_MINUTES = 60;
+const DEFAULT_SWEEP_INTERVAL_MS = parseInt(process.env['INVENTORY_HOLD_SWEEP_INTERVAL_MS'] || '60000', 10);
+
+/**
+ * Inventory Hold Service
+ *
+ * Reserves RoomAvailability units for a guest in checkout for a limited time.
+ * A hold moves through ACTIVE -> CONVERTED | EXPIRED | RELEASED exactly once:
+ * every transition is a conditional update on the hold status, so a sweeper
+ * and a booking racing for the same hold cannot both act on its units.
+ */
+class InventoryHoldService {
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Hold one unit for every night of the stay and return a hold token
+   */
+  public async createHold(request: ICreateHoldRequest): Promise<ICreateHoldResult> {
+    const ttlMinutes = Math.min(request.ttlMinutes ?? DEFAULT_HOLD_TTL_MINUTES, MAX_HOLD_TTL_MINUTES);
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+    const hold = await InventoryHold.create({
+      token: this.generateToken(),
+      property: new mongoose.Types.ObjectId(request.propertyId),
+      room: new mongoose.Types.ObjectId(request.roomId),
+      checkIn: request.checkIn,
+      checkOut: request.checkOut,
+      channel: request.channel ?? 'direct',
+      guestEmail: request.guestEmail,
+      expiresAt
+    });
+
+    try {
+      const nights = await inventoryReservationService.hold({
+        propertyId: request.propertyId,
+        roomId: request.roomId,
+        checkIn: request.checkIn,
+        checkOut: request.checkOut,
+        holdId: hold._id,
+        channel: hold.channel,
+        expiresAt
+      });
+
+      logger.info(`Created inventory hold ${hold._id.toString()} expiring at ${expiresAt.toISOString()}`);
+
+      return { hold, nights };
+    } catch (error) {
+      await InventoryHold.deleteOne({ _id: hold._id });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a hold by its token
+   */
+  public async getHold(token: string): Promise<IInventoryHold> {
+    const hold = await InventoryHold.findOne({ token });
+    if (!hold) {
+      throw createError.notFound('Hold not found');
+    }
+    return hold;
+  }
+
+  /**
+   * Convert an active hold into a booking's inventory claim
+   */
+  public async convertHold(token: string, request: IConvertHoldRequest): Promise<IReservedNight[]> {
+    const existing = await this.getHold(token);
+
+    if (!existing.matchesStay(request.propertyId, request.roomId, request.checkIn, request.checkOut)) {
+      throw createError.validation('Hold does not match the requested property, room or dates');
+    }
+
+    // Claim the hold; only one caller can move it out of ACTIVE
+    const hold = await InventoryHold.findOneAndUpdate(
+      { _id: existing._id, status: HoldStatus.ACTIVE, expiresAt: { $gt: new Date() } },
+      { status: HoldStatus.CONVERTED, booking: request.bookingId, convertedAt: new Date() },
+      { new: true }
+    );
+
+    if (!hold) {
+      throw createError.conflict('Hold has expired or was already used');
+    }
+
+    try {
+      return await inventoryReservationService.convertHold(hold._id, {
+        propertyId: request.propertyId,
+        roomId: request.roomId,
+        checkIn: request.checkIn,
+        checkOut: request.checkOut,
+        bookingId: request.bookingId,
+        channel: hold.channel,
+        guestName: request.guestName
+      });
+    } catch (error) {
+      await InventoryHold.updateOne(
+        { _id: hold._id },
+        { status: HoldStatus.RELEASED, releasedAt: new Date(), $unset: { booking: 1, convertedAt: 1 } }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Release an active hold before it expires
+   */
+  public async releaseHold(token: string): Promise<IInventoryHold> {
+    const hold = await InventoryHold.findOneAndUpdate(
+      { token, status: HoldStatus.ACTIVE },
+      { status: HoldStatus.RELEASED, releasedAt: new Date() },
+      { new: true }
+    );
+
+    if (!hold) {
+      throw createError.conflict('Hold is not active');
+    }
+
+    await inventoryReservationService.releaseHold(hold.property, hold.room, hold._id);
+    return hold;
+  }
+
+  /**
+   * Expire every active hold past its TTL and give its units back
+   */
+  public async sweepExpiredHolds(now: Date = new Date()): Promise<number> {
+    const candidates = await InventoryHold.find({
+      status: HoldStatus.ACTIVE,
+      expiresAt: { $lte: now }
+    }).select('_id');
+
+    let expired = 0;
+
+    for (const candidate of candidates) {
+      const hold = await InventoryHold.findOneAndUpdate(
+        { _id: candidate._id, status: HoldStatus.ACTIVE },
+        { status: HoldStatus.EXPIRED, releasedAt: now },
+        { new: true }
+      );
+
+      // Converted or released in the meantime
+      if (!hold) {
+        continue;
+      }
+
+      try {
+        await inventoryReservationService.releaseHold(hold.property, hold.room, hold._id);
+        expired++;
+      } catch (error) {
+        logger.error(`Failed to release expired hold ${hold._id.toString()}:`, error);
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} inventory holds`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Start the periodic sweeper
+   */
+  public startSweeper(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS): void {
+    if (this.sweepTimer) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpiredHolds().catch(error => {
+        logger.error('Inventory hold sweep failed:', error);
+      });
+    }, intervalMs);
+    this.sweepTimer.unref();
+
+    logger.info(`Inventory hold sweeper started (every ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop the periodic sweeper
+   */
+  public stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private generateToken(): string {
+    return `HOLD-${crypto.randomBytes(16).toString('hex')}`;
+  }
+}
+
+// Singleton instance
+export const inventoryHoldService = new InventoryHoldService();
+export default inventoryHoldService;
@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import Calendar, { ICalendar, CalendarStatus, CalendarChannel } from '../models/Calendar';
+import RoomAvailability, {
+  IRoomAvailability,
+  IChannelBooking,
+  AvailabilityStatus,
+  ALL_CHANNELS_RATE
+} from '../models/RoomAvailability';
+import { inventoryRepository, InventoryRepository } from './inventoryRepository';
+import { logger } from '../config/logger';
+
+// Night settings a calendar entry can change; claims are attached separately
+const SETTINGS_PATHS = ['rates', 'minStay', 'maxStay', 'closedChannels', 'status', 'blockReason', 'blockDescription'];
+
+// Migration options
+export interface IInventoryMigrationOptions {
+  dryRun?: boolean;
+  propertyId?: string;
+}
+
+// Migration report
+export interface IInventoryMigrationReport {
+  dryRun: boolean;
+  calendarEntries: number;
+  nightsCreated: number;
+  nightsUpdated: number;
+  ratesMerged: number;
+  bookingsAttached: number;
+  channelsClosed: number;
+  skipped: number;
+  overbookedNights: Array<{ property: string; room: string; date: string }>;
+}
+
+/**
+ * Inventory Migration Service
+ *
+ * Folds legacy per-channel Calendar documents into the pooled RoomAvailability
+ * records. Existing RoomAvailability data wins: calendar rates only fill
+ * channels without a rate, bookings are attached once by booking id and
+ * blocks only ever close inventory, so the migration can be re-run safely.
+ */
+class InventoryMigrationService {
+  /**
+   * Merge every Calendar entry into RoomAvailability
+   */
+  public async migrateLegacyCalendar(options: IInventoryMigrationOptions = {}): Promise<IInventoryMigrationReport> {
+    const report: IInventoryMigrationReport = {
+      dryRun: options.dryRun ?? false,
+      calendarEntries: 0,
+      nightsCreated: 0,
+      nightsUpdated: 0,
+      ratesMerged: 0,
+      bookingsAttached: 0,
+      channelsClosed: 0,
+      skipped: 0,
+      overbookedNights: []
+    };
+
+    const filter = options.propertyId ? { property: new mongoose.Types.ObjectId(options.propertyId) } : {};
+    const entries = await Calendar.find(filter).sort({ property: 1, room: 1, date: 1 });
+    report.calendarEntries = entries.length;
+
+    // Group entries per night; older data may hold several entries per night
+    const groups = new Map<string, ICalendar[]>();
+    for (const entry of entries) {
+      const date = InventoryRepository.normalizeDate(entry.date);
+      const key = `${entry.property.toString()}_${entry.room.toString()}_${date.getTime()}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(entry);
+    }
+
+    for (const group of groups.values()) {
+      await this.mergeNight(group, report);
+    }
+
+    logger.info(
+      `Inventory migration ${report.dryRun ? '(dry run) ' : ''}complete: ` +
+      `${report.nightsCreated} created, ${report.nightsUpdated} updated, ` +
+      `${report.bookingsAttached} bookings attached, ${report.overbookedNights.length} overbooked nights`
+    );
+
+    return report;
+  }
+
+  private async mergeNight(group: ICalendar[], report: IInventoryMigrationReport): Promise<void> {
+    const { property, room } = group[0];
+    const date = InventoryRepository.normalizeDate(group[0].date);
+    const filter = { property, room, date };
+
+    const existing = await RoomAvailability.findOne(filter);
+    const totalRooms = existing?.totalRooms ?? await inventoryRepository.getDefaultTotalRooms(property, room);
+    const night = existing ?? new RoomAvailability({ ...filter, totalRooms, rates: [] });
+
+    const bookings: IChannelBooking[] = [];
+    for (const entry of group) {
+      this.mergeEntry(night, entry, bookings, report);
+    }
+
+    const booked = night.bookedRooms.length + bookings.length + night.heldRooms.length + night.blockedRooms;
+    if (booked > night.totalRooms + night.overbookingLimit) {
+      report.overbookedNights.push({
+        property: property.toString(),
+        room: room.toString(),
+        date: date.toISOString().split('T')[0]
+      });
+    }
+
+    // Settings are written path by path and claims one by one, so nothing a
+    // concurrent reservation wrote to the night is overwritten
+    const settings = SETTINGS_PATHS.filter(path => (existing ? night.isModified(path) : night.get(path) !== undefined));
+    const modified = settings.length > 0 || bookings.length > 0;
+
+    if (!report.dryRun && settings.length > 0) {
+      await RoomAvailability.updateOne(
+        filter,
+        {
+          $set: Object.fromEntries(settings.map(path => [path, night.get(path) as unknown])),
+          $setOnInsert: { totalRooms, availableRooms: totalRooms }
+        },
+        { upsert: true }
+      );
+    }
+
+    if (!report.dryRun) {
+      for (const booking of bookings) {
+        await RoomAvailability.findOneAndUpdate(
+          { ...filter, 'bookedRooms.bookingId': { $ne: booking.bookingId } },
+          { $addToSet: { bookedRooms: booking }, $inc: { availableRooms: -1 } }
+        );
+      }
+    }
+
+    if (!existing) {
+      report.nightsCreated++;
+    } else if (modified) {
+      report.nightsUpdated++;
+    }
+  }
+
+  private mergeEntry(
+    night: IRoomAvailability,
+    entry: ICalendar,
+    bookings: IChannelBooking[],
+    report: IInventoryMigrationReport
+  ): void {
+    const channel: string = entry.channel === CalendarChannel.ALL ? ALL_CHANNELS_RATE : entry.channel;
+
+    // Rates: calendar overrides become the channel rate if none is set yet
+    const rate = entry.getEffectiveRate();
+    if (rate > 0 && !night.rates.some(r => r.channel === channel)) {
+      night.rates.push({
+        channel,
+        rate,
+        currency: entry.rateOverride?.currency ?? entry.currency ?? 'USD'
+      });
+      report.ratesMerged++;
+    }
+
+    // Restrictions: keep the stricter value
+    if (entry.minStay && entry.minStay > night.minStay) {
+      night.minStay = entry.minStay;
+    }
+    if (entry.maxStay && entry.maxStay < night.maxStay) {
+      night.maxStay = entry.maxStay;
+    }
+
+    switch (entry.status) {
+      case CalendarStatus.BOOKED:
+        if (!entry.booking) {
+          report.skipped++;
+          break;
+        }
+        if (![...night.bookedRooms, ...bookings].some(b => b.bookingId.toString() === entry.booking!.toString())) {
+          bookings.push({
+            channel: entry.channel === CalendarChannel.ALL ? CalendarChannel.DIRECT : entry.channel,
+            bookingId: entry.booking,
+            bookedAt: entry.createdAt || new Date()
+          });
+          report.bookingsAttached++;
+        }
+        break;
+
+      case CalendarStatus.BLOCKED:
+      case CalendarStatus.MAINTENANCE:
+      case CalendarStatus.OUT_OF_ORDER:
+        if (entry.channel !== CalendarChannel.ALL) {
+          if (!night.closedChannels.includes(entry.channel)) {
+            night.closedChannels.push(entry.channel);
+            report.channelsClosed++;
+          }
+        } else if (night.status === AvailabilityStatus.OPEN) {
+          night.status = entry.status === CalendarStatus.BLOCKED
+            ? AvailabilityStatus.CLOSED
+            : AvailabilityStatus.MAINTENANCE;
+          night.blockReason = entry.blockReason;
+          night.blockDescription = entry.blockDescription;
+        }
+        break;
+
+      default:
+        break;
+    }
+  }
+}
+
+// Singleton instance
+export const inventoryMigrationService = new InventoryMigrationService();
+export default inventoryMigrationService;
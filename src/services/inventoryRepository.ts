@@ -0,0 +1,505 @@
+import mongoose, { FilterQuery, UpdateQuery } from 'mongoose';
+import RoomAvailability, {
+  IRoomAvailability,
+  IStayRestrictions,
+  AvailabilityStatus,
+  ALL_CHANNELS_RATE
+} from '../models/RoomAvailability';
+import { CalendarStatus, CalendarChannel, BlockReason } from '../models/Calendar';
+import Property from '../models/Property';
+import RoomUnit, { UnitStatus } from '../models/RoomUnit';
+import { inventoryEventService } from './inventoryEventService';
+import { logger } from '../config/logger';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Units of a room type that has no units and no configured unit count
+const SINGLE_UNIT = 1;
+
+// Date filter accepted by repository queries
+export type InventoryDateFilter = Date | {
+  $gte?: Date;
+  $gt?: Date;
+  $lte?: Date;
+  $lt?: Date;
+};
+
+// Inventory query
+export interface IInventoryQuery {
+  propertyId?: ObjectIdLike | ObjectIdLike[];
+  roomId?: ObjectIdLike | ObjectIdLike[];
+  date?: InventoryDateFilter;
+}
+
+// Legacy calendar query (per-channel view of the pooled inventory)
+export interface ICalendarEntryQuery extends IInventoryQuery {
+  channel?: CalendarChannel;
+  status?: CalendarStatus | CalendarStatus[];
+}
+
+/**
+ * Calendar entry
+ *
+ * Read-only, Calendar-shaped view of one RoomAvailability night as seen by a
+ * channel. Legacy APIs and services that still speak the Calendar vocabulary
+ * get these instead of Calendar documents.
+ */
+export interface ICalendarEntry {
+  _id: mongoose.Types.ObjectId;
+  property: mongoose.Types.ObjectId;
+  room: mongoose.Types.ObjectId;
+  date: Date;
+  status: CalendarStatus;
+  rate?: number;
+  currency?: string;
+  minStay: number;
+  maxStay?: number;
+  blockReason?: BlockReason;
+  blockDescription?: string;
+  channel: CalendarChannel;
+  booking?: mongoose.Types.ObjectId;
+  totalRooms: number;
+  availableRooms: number;
+  lastUpdatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Methods
+  canBeBooked(): boolean;
+  getEffectiveRate(): number;
+}
+
+// Stay restriction changes; null clears a restriction
+export type IStayRestrictionUpdate = {
+  [K in keyof IStayRestrictions]?: IStayRestrictions[K] | null;
+};
+
+// Calendar-style update applied to a range of nights
+export interface IInventoryUpdate {
+  channel?: CalendarChannel | string;
+  status?: CalendarStatus;
+  rate?: number;
+  currency?: string;
+  minStay?: number;
+  maxStay?: number;
+  blockReason?: BlockReason;
+  blockDescription?: string;
+  allotments?: Array<{ channel: string; limit: number | null }>; // null clears the allotment
+  overbookingLimit?: number;
+  restrictions?: IStayRestrictionUpdate; // date defaults for 'all', otherwise a channel override
+  userId?: ObjectIdLike;
+}
+
+// Models referenced by calendar entry fields
+const CALENDAR_ENTRY_REFS = {
+  property: 'Property',
+  booking: 'Booking',
+  lastUpdatedBy: 'User'
+} as const;
+
+const BLOCKED_STATUSES = [CalendarStatus.BLOCKED, CalendarStatus.MAINTENANCE, CalendarStatus.OUT_OF_ORDER];
+
+/**
+ * Inventory Repository
+ *
+ * Single read/write path for room inventory. RoomAvailability is the
+ * canonical store: one pooled record per property + room type + night.
+ * Channel-level state (rates, closed channels, allotments) lives on that
+ * record instead of in separate per-channel Calendar documents.
+ *
+ * Booking claims do not go through here - they use the atomic
+ * inventoryReservationService so that availableRooms stays consistent.
+ */
+class InventoryRepository {
+  /**
+   * Find pooled nights, sorted by date
+   */
+  public async findNights(query: IInventoryQuery): Promise<IRoomAvailability[]> {
+    return RoomAvailability.find(this.buildFilter(query)).sort({ date: 1 });
+  }
+
+  /**
+   * Find a single pooled night
+   */
+  public async findNight(propertyId: ObjectIdLike, roomId: ObjectIdLike, date: Date): Promise<IRoomAvailability | null> {
+    return RoomAvailability.findOne({
+      property: this.toObjectId(propertyId),
+      room: this.toObjectId(roomId),
+      date: InventoryRepository.normalizeDate(date)
+    });
+  }
+
+  /**
+   * Find nights as legacy calendar entries for a channel
+   */
+  public async findCalendarEntries(query: ICalendarEntryQuery): Promise<ICalendarEntry[]> {
+    const nights = await this.findNights(query);
+    const channel = query.channel ?? CalendarChannel.ALL;
+    const statuses = query.status === undefined
+      ? undefined
+      : Array.isArray(query.status) ? query.status : [query.status];
+
+    return nights
+      .map(night => this.toCalendarEntry(night, channel))
+      .filter(entry => !statuses || statuses.includes(entry.status));
+  }
+
+  /**
+   * Find a single night as a legacy calendar entry
+   */
+  public async findCalendarEntry(
+    propertyId: ObjectIdLike,
+    roomId: ObjectIdLike,
+    date: Date,
+    channel: CalendarChannel = CalendarChannel.ALL
+  ): Promise<ICalendarEntry | null> {
+    const night = await this.findNight(propertyId, roomId, date);
+    return night ? this.toCalendarEntry(night, channel) : null;
+  }
+
+  /**
+   * Populate references on calendar entries for legacy API responses
+   */
+  public async populateCalendarEntries(
+    entries: ICalendarEntry[],
+    paths: Array<{ path: keyof typeof CALENDAR_ENTRY_REFS; select: string }>
+  ): Promise<ICalendarEntry[]> {
+    const populated: unknown = await RoomAvailability.populate(
+      entries,
+      paths.map(({ path, select }) => ({ path, select, model: CALENDAR_ENTRY_REFS[path] }))
+    );
+    return populated as ICalendarEntry[];
+  }
+
+  /**
+   * Apply a calendar-style update to every night, creating missing nights
+   *
+   * Only inventory settings are written; booked, held and available counts
+   * are left to the reservation service. Returns the number of nights touched.
+   */
+  public async updateNights(
+    propertyId: ObjectIdLike,
+    roomId: ObjectIdLike,
+    dates: Date[],
+    update: IInventoryUpdate
+  ): Promise<number> {
+    const property = this.toObjectId(propertyId);
+    const room = this.toObjectId(roomId);
+    const channel = (update.channel ?? CalendarChannel.ALL).toLowerCase();
+    const totalRooms = await this.getDefaultTotalRooms(property, room);
+
+    let updated = 0;
+
+    for (const rawDate of dates) {
+      const date = InventoryRepository.normalizeDate(rawDate);
+      const filter = { property, room, date };
+
+      await RoomAvailability.updateOne(
+        filter,
+        {
+          ...this.buildSettingsUpdate(channel, update),
+          $setOnInsert: { totalRooms, availableRooms: totalRooms }
+        },
+        { upsert: true }
+      );
+
+      if (update.rate !== undefined) {
+        await this.setRate(filter, channel, update.rate, update.currency);
+      }
+
+      for (const allotment of update.allotments ?? []) {
+        await this.setAllotment(filter, allotment.channel.toLowerCase(), allotment.limit);
+      }
+
+      if (update.overbookingLimit !== undefined) {
+        await this.setOverbookingLimit(filter, update.overbookingLimit);
+      }
+
+      if (update.restrictions) {
+        await this.setRestrictions(filter, channel, update.restrictions);
+      }
+
+      updated++;
+    }
+
+    logger.debug(`Updated ${updated} inventory nights for room ${room.toString()} on channel ${channel}`);
+
+    inventoryEventService.emitChanged({
+      propertyId: property,
+      roomId: room,
+      dates,
+      availability: update.status !== undefined || update.allotments !== undefined || update.overbookingLimit !== undefined,
+      rates: update.rate !== undefined || update.minStay !== undefined || update.maxStay !== undefined || update.restrictions !== undefined,
+      channel: channel === ALL_CHANNELS_RATE ? undefined : channel
+    });
+
+    return updated;
+  }
+
+  /**
+   * New nights inherit the room type's latest unit count; the first night
+   * of a room type takes its active units, else its configured unit count.
+   * A room type with neither is a single sellable unit (e.g. one listing).
+   */
+  public async getDefaultTotalRooms(
+    property: mongoose.Types.ObjectId,
+    room: mongoose.Types.ObjectId
+  ): Promise<number> {
+    const latest = await RoomAvailability.findOne({ property, room })
+      .sort({ date: -1 })
+      .select('totalRooms');
+    if (latest) {
+      return latest.totalRooms;
+    }
+
+    if (await RoomUnit.exists({ property, room })) {
+      return RoomUnit.countDocuments({ property, room, status: UnitStatus.ACTIVE });
+    }
+
+    const owner = await Property.findById(property).select('rooms');
+    const roomType = owner?.rooms.find(entry => entry._id.equals(room));
+
+    return roomType?.totalUnits ?? SINGLE_UNIT;
+  }
+
+  /**
+   * Map a pooled night to the legacy calendar shape for a channel
+   */
+  public toCalendarEntry(night: IRoomAvailability, channel: CalendarChannel = CalendarChannel.ALL): ICalendarEntry {
+    const channelKey: string = channel;
+    const isAllChannels = channelKey === ALL_CHANNELS_RATE;
+    const rateEntry = night.rates.find(r => r.channel === channelKey) ??
+      night.rates.find(r => r.channel === ALL_CHANNELS_RATE) ??
+      (isAllChannels ? night.rates[0] : undefined);
+    const availableRooms = isAllChannels
+      ? (night.status === AvailabilityStatus.OPEN ? Math.max(0, night.availableRooms) : 0)
+      : night.getAvailableForChannel(channel);
+    const booking = isAllChannels
+      ? night.bookedRooms[0]
+      : night.bookedRooms.find(b => b.channel === channelKey);
+    const status = this.toCalendarStatus(night, channel, availableRooms);
+    const rate = rateEntry?.rate;
+
+    return {
+      _id: night._id,
+      property: night.property,
+      room: night.room,
+      date: night.date,
+      status,
+      rate,
+      currency: rateEntry?.currency,
+      minStay: night.minStay,
+      maxStay: night.maxStay,
+      blockReason: night.blockReason,
+      blockDescription: night.blockDescription,
+      channel,
+      booking: booking?.bookingId,
+      totalRooms: night.totalRooms,
+      availableRooms,
+      lastUpdatedBy: night.lastUpdatedBy,
+      createdAt: night.createdAt,
+      updatedAt: night.updatedAt,
+      canBeBooked: () => status === CalendarStatus.AVAILABLE,
+      getEffectiveRate: () => rate ?? 0
+    };
+  }
+
+  /**
+   * Normalize a stay date to local midnight
+   */
+  public static normalizeDate(date: Date): Date {
+    const normalized = new Date(date);
+    normalized.setHours(0, 0, 0, 0);
+    return normalized;
+  }
+
+  private toCalendarStatus(night: IRoomAvailability, channel: string, availableRooms: number): CalendarStatus {
+    if (night.status === AvailabilityStatus.MAINTENANCE) {
+      return CalendarStatus.MAINTENANCE;
+    }
+
+    if (night.status === AvailabilityStatus.CLOSED || night.closedChannels.includes(channel)) {
+      return CalendarStatus.BLOCKED;
+    }
+
+    if (availableRooms > 0) {
+      return CalendarStatus.AVAILABLE;
+    }
+
+    // Sold out: booked if anything is sold, otherwise everything is blocked
+    return night.bookedRooms.length > 0 || night.heldRooms.length > 0
+      ? CalendarStatus.BOOKED
+      : CalendarStatus.BLOCKED;
+  }
+
+  private buildSettingsUpdate(channel: string, update: IInventoryUpdate): UpdateQuery<IRoomAvailability> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+    const result: UpdateQuery<IRoomAvailability> = {};
+
+    if (update.minStay !== undefined) $set['minStay'] = update.minStay;
+    if (update.maxStay !== undefined) $set['maxStay'] = update.maxStay;
+    if (update.userId) $set['lastUpdatedBy'] = this.toObjectId(update.userId);
+
+    if (update.status !== undefined) {
+      const blocked = BLOCKED_STATUSES.includes(update.status);
+
+      if (channel !== ALL_CHANNELS_RATE) {
+        // Channel-level stop-sell on the shared pool
+        if (blocked) {
+          result['$addToSet'] = { closedChannels: channel };
+        } else if (update.status === CalendarStatus.AVAILABLE) {
+          result['$pull'] = { closedChannels: channel };
+        }
+      } else if (blocked) {
+        $set['status'] = update.status === CalendarStatus.BLOCKED
+          ? AvailabilityStatus.CLOSED
+          : AvailabilityStatus.MAINTENANCE;
+        $set['blockReason'] = update.blockReason ?? BlockReason.OTHER;
+        if (update.blockDescription !== undefined) $set['blockDescription'] = update.blockDescription;
+      } else if (update.status === CalendarStatus.AVAILABLE) {
+        $set['status'] = AvailabilityStatus.OPEN;
+        $unset['blockReason'] = 1;
+        $unset['blockDescription'] = 1;
+      }
+      // BOOKED is derived from bookedRooms and never written directly
+    }
+
+    if (Object.keys($set).length > 0) result['$set'] = $set;
+    if (Object.keys($unset).length > 0) result['$unset'] = $unset;
+
+    return result;
+  }
+
+  private async setRate(
+    filter: FilterQuery<IRoomAvailability>,
+    channel: string,
+    rate: number,
+    currency?: string
+  ): Promise<void> {
+    // An all-channel rate replaces every channel's rate
+    if (channel === ALL_CHANNELS_RATE) {
+      await RoomAvailability.updateOne(filter, {
+        $set: {
+          'rates.$[].rate': rate,
+          ...(currency ? { 'rates.$[].currency': currency } : {})
+        }
+      });
+    }
+
+    const result = await RoomAvailability.updateOne(
+      { ...filter, 'rates.channel': channel },
+      {
+        $set: {
+          'rates.$.rate': rate,
+          ...(currency ? { 'rates.$.currency': currency } : {})
+        }
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      await RoomAvailability.updateOne(
+        { ...filter, 'rates.channel': { $ne: channel } },
+        { $push: { rates: { channel: channel, rate, currency: currency ?? 'USD' } } }
+      );
+    }
+  }
+
+  private async setAllotment(filter: FilterQuery<IRoomAvailability>, channel: string, limit: number | null): Promise<void> {
+    await RoomAvailability.updateOne(filter, { $pull: { allotments: { channel } } });
+
+    if (limit !== null) {
+      await RoomAvailability.updateOne(filter, { $push: { allotments: { channel, limit } } });
+    }
+  }
+
+  private async setRestrictions(
+    filter: FilterQuery<IRoomAvailability>,
+    channel: string,
+    restrictions: IStayRestrictionUpdate
+  ): Promise<void> {
+    const $set: Record<string, unknown> = {};
+    const $unset: Record<string, 1> = {};
+
+    if (channel === ALL_CHANNELS_RATE) {
+      // Date defaults; cleared values fall back to the schema defaults
+      const defaults: Record<string, unknown> = { closedToArrival: false, closedToDeparture: false, minStay: 1, maxStay: 30 };
+
+      for (const [key, value] of Object.entries(restrictions)) {
+        const path = key === 'minStayThrough' ? 'minStay' : key;
+        if (value === undefined) continue;
+
+        if (value !== null) {
+          $set[path] = value;
+        } else if (defaults[path] !== undefined) {
+          $set[path] = defaults[path];
+        } else {
+          $unset[path] = 1;
+        }
+      }
+
+      if (Object.keys($set).length > 0 || Object.keys($unset).length > 0) {
+        await RoomAvailability.updateOne(filter, { $set, $unset });
+      }
+      return;
+    }
+
+    // Channel override; cleared values fall back to the date defaults
+    for (const [key, value] of Object.entries(restrictions)) {
+      if (value === undefined) continue;
+
+      if (value === null) {
+        $unset[`channelRestrictions.$.${key}`] = 1;
+      } else {
+        $set[`channelRestrictions.$.${key}`] = value;
+      }
+    }
+
+    if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) {
+      return;
+    }
+
+    await RoomAvailability.updateOne(
+      { ...filter, 'channelRestrictions.channel': { $ne: channel } },
+      { $push: { channelRestrictions: { channel } } }
+    );
+    await RoomAvailability.updateOne({ ...filter, 'channelRestrictions.channel': channel }, { $set, $unset });
+  }
+
+  // Shift availableRooms by the change in allowance without touching concurrent claims
+  private async setOverbookingLimit(filter: FilterQuery<IRoomAvailability>, overbookingLimit: number): Promise<void> {
+    await RoomAvailability.updateOne(filter, [{
+      $set: {
+        availableRooms: {
+          $add: ['$availableRooms', { $subtract: [overbookingLimit, { $ifNull: ['$overbookingLimit', 0] }] }]
+        },
+        overbookingLimit
+      }
+    }]);
+  }
+
+  private buildFilter(query: IInventoryQuery): FilterQuery<IRoomAvailability> {
+    const filter: FilterQuery<IRoomAvailability> = {};
+
+    if (query.propertyId) filter['property'] = this.toIdFilter(query.propertyId);
+    if (query.roomId) filter['room'] = this.toIdFilter(query.roomId);
+    if (query.date) filter['date'] = query.date;
+
+    return filter;
+  }
+
+  private toIdFilter(id: ObjectIdLike | ObjectIdLike[]): mongoose.Types.ObjectId | { $in: mongoose.Types.ObjectId[] } {
+    return Array.isArray(id)
+      ? { $in: id.map(value => this.toObjectId(value)) }
+      : this.toObjectId(id);
+  }
+
+  private toObjectId(id: ObjectIdLike): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+}
+
+// Singleton instance
+export const inventoryRepository = new InventoryRepository();
+export { InventoryRepository };
+export default inventoryRepository;
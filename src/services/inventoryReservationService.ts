@@ -0,0 +1,581 @@
+import mongoose from 'mongoose';
+import RoomAvailability, { IRoomAvailability, AvailabilityStatus } from '../models/RoomAvailability';
+import { inventoryEventService } from './inventoryEventService';
+import { inventoryRepository } from './inventoryRepository';
+import { logger } from '../config/logger';
+import { createError, ErrorDetail } from '../utils/errors';
+
+// Reservation request for a single room type stay
+export interface IInventoryReservation {
+  propertyId: string | mongoose.Types.ObjectId;
+  roomId: string | mongoose.Types.ObjectId;
+  checkIn: Date;
+  checkOut: Date;
+  bookingId: mongoose.Types.ObjectId;
+  channel: string;
+  guestName?: string;
+}
+
+// Release request for a previously reserved stay
+export interface IInventoryRelease {
+  propertyId: string | mongoose.Types.ObjectId;
+  roomId: string | mongoose.Types.ObjectId;
+  checkIn: Date;
+  checkOut: Date;
+  bookingId: mongoose.Types.ObjectId;
+}
+
+// Hold request for a guest still in checkout
+export interface IInventoryHoldClaim {
+  propertyId: string | mongoose.Types.ObjectId;
+  roomId: string | mongoose.Types.ObjectId;
+  checkIn: Date;
+  checkOut: Date;
+  holdId: mongoose.Types.ObjectId;
+  channel: string;
+  expiresAt: Date;
+}
+
+// Move a booking's claims from one stay to another (dates and/or room type)
+export interface IInventorySwap {
+  propertyId: string | mongoose.Types.ObjectId;
+  bookingId: mongoose.Types.ObjectId;
+  channel: string;
+  guestName?: string;
+  from: { roomId: string | mongoose.Types.ObjectId; checkIn: Date; checkOut: Date };
+  to: { roomId: string | mongoose.Types.ObjectId; checkIn: Date; checkOut: Date };
+}
+
+// Nights a swap touched
+export interface ISwapResult {
+  claimed: IReservedNight[];
+  released: number;
+}
+
+// Per-night state after a successful reservation
+export interface IReservedNight {
+  date: Date;
+  totalRooms: number;
+  availableRooms: number;
+  bookedRooms: number;
+  heldRooms: number;
+}
+
+/**
+ * Inventory Reservation Service
+ *
+ * Claims every night of a stay in RoomAvailability as one all-or-nothing
+ * operation. Each night is taken with a conditional update that only matches
+ * while a unit is still free, so two concurrent bookings can never both win
+ * the last unit. The same update enforces closed channels and per-channel
+ * allotments. If any night cannot be claimed, the nights already taken by
+ * this reservation are released again before the error is thrown.
+ *
+ * Holds use the same claim path but park the unit in heldRooms until the
+ * guest completes checkout, when convertHold moves it into bookedRooms.
+ */
+class InventoryReservationService {
+  /**
+   * Reserve one unit of the room type for every night of the stay
+   */
+  public async reserve(reservation: IInventoryReservation): Promise<IReservedNight[]> {
+    const channel = reservation.channel.toLowerCase();
+    const dates = InventoryReservationService.getStayDates(reservation.checkIn, reservation.checkOut);
+
+    if (dates.length === 0) {
+      throw createError.validation('Check-out date must be after check-in date');
+    }
+
+    const nights = await this.claimNights(
+      this.toObjectId(reservation.propertyId),
+      this.toObjectId(reservation.roomId),
+      dates,
+      channel,
+      { 'bookedRooms.bookingId': { $ne: reservation.bookingId } },
+      {
+        bookedRooms: {
+          channel,
+          bookingId: reservation.bookingId,
+          guestName: reservation.guestName,
+          bookedAt: new Date()
+        }
+      },
+      { bookedRooms: { bookingId: reservation.bookingId } }
+    );
+
+    logger.info(`Reserved ${nights.length} nights for booking ${reservation.bookingId.toString()} on ${channel}`);
+
+    return nights;
+  }
+
+  /**
+   * Reserve one unit for every night of a stay a channel has already
+   * confirmed, even where no unit is free. Nights sold past capacity are
+   * left with negative availableRooms, which closes them on every channel
+   * until the overbooking is resolved; returns those nights.
+   */
+  public async forceReserve(reservation: IInventoryReservation): Promise<Date[]> {
+    const propertyId = this.toObjectId(reservation.propertyId);
+    const roomId = this.toObjectId(reservation.roomId);
+    const channel = reservation.channel.toLowerCase();
+    const dates = InventoryReservationService.getStayDates(reservation.checkIn, reservation.checkOut);
+    const entry = {
+      channel,
+      bookingId: reservation.bookingId,
+      guestName: reservation.guestName,
+      bookedAt: new Date()
+    };
+
+    // Nights not loaded yet start from the room type's defaults
+    const existing = await RoomAvailability.find({ property: propertyId, room: roomId, date: { $in: dates } }).select('date');
+    const missing = dates.filter(date => !existing.some(night => night.date.getTime() === date.getTime()));
+    if (missing.length > 0) {
+      await inventoryRepository.updateNights(propertyId, roomId, missing, {});
+    }
+
+    const claimed: Date[] = [];
+    const oversold: Date[] = [];
+
+    for (const date of dates) {
+      const updated = await RoomAvailability.findOneAndUpdate(
+        { property: propertyId, room: roomId, date, 'bookedRooms.bookingId': { $ne: reservation.bookingId } },
+        {
+          $push: { bookedRooms: entry },
+          $inc: { availableRooms: -1 }
+        },
+        { new: true }
+      );
+
+      // Already claimed by this booking
+      if (!updated) {
+        continue;
+      }
+
+      claimed.push(date);
+      if (updated.availableRooms < 0 || updated.status !== AvailabilityStatus.OPEN) {
+        oversold.push(date);
+      }
+    }
+
+    this.publishChange(propertyId, roomId, claimed);
+
+    logger.warn(
+      `Force-reserved ${claimed.length} nights for booking ${reservation.bookingId.toString()} on ${channel}, ${oversold.length} oversold`
+    );
+
+    return oversold;
+  }
+
+  /**
+   * Hold one unit of the room type for every night until the hold expires
+   */
+  public async hold(claim: IInventoryHoldClaim): Promise<IReservedNight[]> {
+    const channel = claim.channel.toLowerCase();
+    const dates = InventoryReservationService.getStayDates(claim.checkIn, claim.checkOut);
+
+    if (dates.length === 0) {
+      throw createError.validation('Check-out date must be after check-in date');
+    }
+
+    const nights = await this.claimNights(
+      this.toObjectId(claim.propertyId),
+      this.toObjectId(claim.roomId),
+      dates,
+      channel,
+      { 'heldRooms.holdId': { $ne: claim.holdId } },
+      { heldRooms: { holdId: claim.holdId, channel, expiresAt: claim.expiresAt } },
+      { heldRooms: { holdId: claim.holdId } }
+    );
+
+    logger.info(`Held ${nights.length} nights for hold ${claim.holdId.toString()} until ${claim.expiresAt.toISOString()}`);
+
+    return nights;
+  }
+
+  /**
+   * Turn a hold into a booking without giving the units back to the pool
+   */
+  public async convertHold(
+    holdId: mongoose.Types.ObjectId,
+    reservation: IInventoryReservation
+  ): Promise<IReservedNight[]> {
+    const propertyId = this.toObjectId(reservation.propertyId);
+    const roomId = this.toObjectId(reservation.roomId);
+    const channel = reservation.channel.toLowerCase();
+    const dates = InventoryReservationService.getStayDates(reservation.checkIn, reservation.checkOut);
+    const entry = {
+      channel,
+      bookingId: reservation.bookingId,
+      guestName: reservation.guestName,
+      bookedAt: new Date()
+    };
+
+    const nights: IReservedNight[] = [];
+    const missing: Date[] = [];
+
+    for (const date of dates) {
+      const updated = await RoomAvailability.findOneAndUpdate(
+        { property: propertyId, room: roomId, date, 'heldRooms.holdId': holdId },
+        {
+          $pull: { heldRooms: { holdId } },
+          $push: { bookedRooms: entry }
+        },
+        { new: true }
+      );
+
+      if (updated) {
+        nights.push(this.toReservedNight(updated));
+      } else {
+        missing.push(date);
+      }
+    }
+
+    // Nights no longer held (e.g. swept early) must be claimed from the open pool
+    if (missing.length > 0) {
+      logger.warn(`Hold ${holdId.toString()} no longer covers ${missing.length} nights, claiming from pool`);
+      try {
+        nights.push(...await this.claimNights(
+          propertyId,
+          roomId,
+          missing,
+          channel,
+          { 'bookedRooms.bookingId': { $ne: reservation.bookingId } },
+          { bookedRooms: entry },
+          { bookedRooms: { bookingId: reservation.bookingId } }
+        ));
+      } catch (error) {
+        await this.release(reservation);
+        throw error;
+      }
+    }
+
+    logger.info(`Converted hold ${holdId.toString()} into booking ${reservation.bookingId.toString()}`);
+
+    return nights.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Give every night of a hold back to the pool
+   */
+  public async releaseHold(
+    propertyId: string | mongoose.Types.ObjectId,
+    roomId: string | mongoose.Types.ObjectId,
+    holdId: mongoose.Types.ObjectId
+  ): Promise<number> {
+    const filter = {
+      property: this.toObjectId(propertyId),
+      room: this.toObjectId(roomId),
+      'heldRooms.holdId': holdId
+    };
+    const held = await RoomAvailability.find(filter).select('date');
+
+    const result = await RoomAvailability.updateMany(filter, {
+      $pull: { heldRooms: { holdId } },
+      $inc: { availableRooms: 1 }
+    });
+
+    logger.info(`Released ${result.modifiedCount} held nights for hold ${holdId.toString()}`);
+
+    if (result.modifiedCount > 0) {
+      this.publishChange(filter.property, filter.room, held.map(night => night.date));
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Release every night held by a booking for the stay
+   */
+  public async release(release: IInventoryRelease): Promise<number> {
+    const dates = InventoryReservationService.getStayDates(release.checkIn, release.checkOut);
+
+    const released = await this.releaseNights(
+      this.toObjectId(release.propertyId),
+      this.toObjectId(release.roomId),
+      dates,
+      release.bookingId
+    );
+
+    logger.info(`Released ${released} nights for booking ${release.bookingId.toString()}`);
+
+    return released;
+  }
+
+  /**
+   * Swap a booking to a new stay. Only nights the new stay adds are claimed
+   * (all-or-nothing, so a sold-out night leaves the old stay untouched); the
+   * nights it drops are released afterwards.
+   */
+  public async swap(swap: IInventorySwap): Promise<ISwapResult> {
+    const channel = swap.channel.toLowerCase();
+    const propertyId = this.toObjectId(swap.propertyId);
+    const fromRoom = this.toObjectId(swap.from.roomId);
+    const toRoom = this.toObjectId(swap.to.roomId);
+    const oldDates = InventoryReservationService.getStayDates(swap.from.checkIn, swap.from.checkOut);
+    const newDates = InventoryReservationService.getStayDates(swap.to.checkIn, swap.to.checkOut);
+
+    if (newDates.length === 0) {
+      throw createError.validation('Check-out date must be after check-in date');
+    }
+
+    const sameRoom = fromRoom.equals(toRoom);
+    const has = (dates: Date[], date: Date): boolean => dates.some(d => d.getTime() === date.getTime());
+    const toClaim = sameRoom ? newDates.filter(date => !has(oldDates, date)) : newDates;
+    const toRelease = sameRoom ? oldDates.filter(date => !has(newDates, date)) : oldDates;
+
+    const claimed = toClaim.length === 0 ? [] : await this.claimNights(
+      propertyId,
+      toRoom,
+      toClaim,
+      channel,
+      { 'bookedRooms.bookingId': { $ne: swap.bookingId } },
+      {
+        bookedRooms: {
+          channel,
+          bookingId: swap.bookingId,
+          guestName: swap.guestName,
+          bookedAt: new Date()
+        }
+      },
+      { bookedRooms: { bookingId: swap.bookingId } }
+    );
+
+    const released = await this.releaseNights(propertyId, fromRoom, toRelease, swap.bookingId);
+
+    logger.info(
+      `Swapped booking ${swap.bookingId.toString()}: claimed ${claimed.length} nights, released ${released}`
+    );
+
+    return { claimed, released };
+  }
+
+  /**
+   * Get all nights between check-in and check-out (excluding check-out)
+   */
+  public static getStayDates(checkIn: Date, checkOut: Date): Date[] {
+    const dates: Date[] = [];
+    const currentDate = new Date(checkIn);
+    currentDate.setHours(0, 0, 0, 0);
+
+    const end = new Date(checkOut);
+    end.setHours(0, 0, 0, 0);
+
+    while (currentDate < end) {
+      dates.push(new Date(currentDate));
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    return dates;
+  }
+
+  /**
+   * Claim one unit per night with conditional updates, undoing on failure
+   */
+  private async claimNights(
+    propertyId: mongoose.Types.ObjectId,
+    roomId: mongoose.Types.ObjectId,
+    dates: Date[],
+    channel: string,
+    guard: Record<string, unknown>,
+    push: Record<string, unknown>,
+    pull: Record<string, unknown>
+  ): Promise<IReservedNight[]> {
+    const claimed: Date[] = [];
+    const nights: IReservedNight[] = [];
+
+    for (const date of dates) {
+      const updated = await RoomAvailability.findOneAndUpdate(
+        {
+          property: propertyId,
+          room: roomId,
+          date,
+          status: AvailabilityStatus.OPEN,
+          closedChannels: { $ne: channel },
+          availableRooms: { $gt: 0 },
+          $or: [
+            { 'allotments.channel': { $ne: channel } },
+            { $expr: { $lt: [this.channelSoldExpr(channel), this.channelLimitExpr(channel)] } }
+          ],
+          ...guard
+        },
+        {
+          $push: push,
+          $inc: { availableRooms: -1 }
+        },
+        { new: true }
+      );
+
+      if (!updated) {
+        await this.rollback(propertyId, roomId, claimed, pull);
+        const reason = await this.describeFailure(propertyId, roomId, date, channel);
+        throw createError.conflict(`No availability on ${InventoryReservationService.formatDate(date)}`, [reason]);
+      }
+
+      claimed.push(date);
+      nights.push(this.toReservedNight(updated));
+    }
+
+    this.publishChange(propertyId, roomId, claimed);
+
+    return nights;
+  }
+
+  /**
+   * Give a booking's claim on the given nights back to the pool
+   */
+  private async releaseNights(
+    propertyId: mongoose.Types.ObjectId,
+    roomId: mongoose.Types.ObjectId,
+    dates: Date[],
+    bookingId: mongoose.Types.ObjectId
+  ): Promise<number> {
+    if (dates.length === 0) {
+      return 0;
+    }
+
+    const result = await RoomAvailability.updateMany(
+      {
+        property: propertyId,
+        room: roomId,
+        date: { $in: dates },
+        'bookedRooms.bookingId': bookingId
+      },
+      {
+        $pull: { bookedRooms: { bookingId } },
+        $inc: { availableRooms: 1 }
+      }
+    );
+
+    if (result.modifiedCount > 0) {
+      this.publishChange(propertyId, roomId, dates);
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Undo nights already claimed by a failed reservation
+   */
+  private async rollback(
+    propertyId: mongoose.Types.ObjectId,
+    roomId: mongoose.Types.ObjectId,
+    dates: Date[],
+    pull: Record<string, unknown>
+  ): Promise<void> {
+    if (dates.length === 0) {
+      return;
+    }
+
+    // Only nights still carrying the claim give a unit back; a concurrent
+    // release may already have returned it
+    const claim = Object.fromEntries(Object.entries(pull).flatMap(([array, match]) =>
+      Object.entries(match as Record<string, unknown>).map(([field, value]) => [`${array}.${field}`, value])
+    ));
+
+    const result = await RoomAvailability.updateMany(
+      {
+        property: propertyId,
+        room: roomId,
+        date: { $in: dates },
+        ...claim
+      },
+      {
+        $pull: pull,
+        $inc: { availableRooms: 1 }
+      }
+    );
+
+    logger.warn(`Rolled back ${result.modifiedCount} of ${dates.length} nights after partial reservation`);
+  }
+
+  /**
+   * Explain why a night could not be claimed
+   */
+  private async describeFailure(
+    propertyId: mongoose.Types.ObjectId,
+    roomId: mongoose.Types.ObjectId,
+    date: Date,
+    channel: string
+  ): Promise<ErrorDetail> {
+    const value = InventoryReservationService.formatDate(date);
+    const availability = await RoomAvailability.findOne({ property: propertyId, room: roomId, date });
+
+    if (!availability) {
+      return { field: 'date', value, message: 'No inventory is loaded for this date' };
+    }
+    if (availability.status !== AvailabilityStatus.OPEN) {
+      return { field: 'date', value, message: `Inventory is ${availability.status} for this date` };
+    }
+    if (availability.closedChannels.includes(channel)) {
+      return { field: 'channel', value: channel, message: `Booking is closed on ${channel}` };
+    }
+    const allotment = availability.allotments.find(a => a.channel === channel);
+    if (allotment && availability.getSoldForChannel(channel) >= allotment.limit) {
+      return { field: 'channel', value: channel, message: `${channel} has used its allotment of ${allotment.limit} for this date` };
+    }
+    if (availability.availableRooms > 0) {
+      return { field: 'date', value, message: 'Date is already claimed by this reservation' };
+    }
+    return { field: 'date', value, message: 'Sold out for this date' };
+  }
+
+  /**
+   * Aggregation expression: units booked or held on a channel
+   */
+  private channelSoldExpr(channel: string): Record<string, unknown> {
+    const countFor = (field: string): Record<string, unknown> => ({
+      $size: {
+        $filter: { input: field, cond: { $eq: ['$$this.channel', channel] } }
+      }
+    });
+
+    return { $add: [countFor('$bookedRooms'), countFor('$heldRooms')] };
+  }
+
+  /**
+   * Aggregation expression: allotment limit configured for a channel
+   */
+  private channelLimitExpr(channel: string): Record<string, unknown> {
+    return {
+      $arrayElemAt: [
+        {
+          $map: {
+            input: { $filter: { input: '$allotments', cond: { $eq: ['$$this.channel', channel] } } },
+            in: '$$this.limit'
+          }
+        },
+        0
+      ]
+    };
+  }
+
+  /**
+   * Tell the channels that the nights' availability changed
+   */
+  private publishChange(propertyId: mongoose.Types.ObjectId, roomId: mongoose.Types.ObjectId, dates: Date[]): void {
+    inventoryEventService.emitChanged({ propertyId, roomId, dates, availability: true, rates: false });
+  }
+
+  private toReservedNight(availability: IRoomAvailability): IReservedNight {
+    return {
+      date: availability.date,
+      totalRooms: availability.totalRooms,
+      availableRooms: availability.availableRooms,
+      bookedRooms: availability.bookedRooms.length,
+      heldRooms: availability.heldRooms.length
+    };
+  }
+
+  private toObjectId(id: string | mongoose.Types.ObjectId): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+
+  private static formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
+
+// Singleton instance
+export const inventoryReservationService = new InventoryReservationService();
+export { InventoryReservationService };
+export default inventoryReservationService;
@@ -0,0 +1,338 @@
+import Invoice, { IInvoice, IInvoiceAddress, IInvoiceFile, InvoiceType } from '../models/Invoice';
+import { saveFile, readFile } from '../middleware/upload';
+import { PdfDocument } from '../utils/pdfDocument';
+import { logger } from '../config/logger';
+
+// Where rendered invoices are kept, relative to the upload root
+const STORAGE_DIR = 'uploads/invoices';
+
+// Rendered document formats
+export type InvoiceFormat = 'html' | 'pdf';
+
+// A rendered document ready to be downloaded or attached
+export interface IInvoiceDocument {
+  filename: string;
+  mimetype: string;
+  content: Buffer;
+}
+
+const MIME_TYPES: Record<InvoiceFormat, string> = {
+  html: 'text/html',
+  pdf: 'application/pdf'
+};
+
+// PDF table columns: right edges of quantity, unit price and amount
+const PDF_QUANTITY_X = 330;
+const PDF_UNIT_PRICE_X = 415;
+const PDF_DESCRIPTION_WIDTH = 270;
+
+/**
+ * Invoice Document Service
+ *
+ * Renders issued invoices and credit notes to HTML and PDF and keeps the
+ * renderings in the upload storage next to other property documents. The
+ * invoice record is the source of truth: a rendering that is missing (or
+ * was never stored because storage failed at issue time) is rendered again
+ * from it on demand.
+ */
+class InvoiceDocumentService {
+  /**
+   * Printed name of the document type
+   */
+  public label(invoice: IInvoice): string {
+    return invoice.type === InvoiceType.CREDIT_NOTE ? 'Credit note' : 'Invoice';
+  }
+
+  /**
+   * Render an invoice as a standalone HTML page
+   */
+  public renderHtml(invoice: IInvoice): string {
+    const money = (amount: number): string => this.formatMoney(amount, invoice.currency);
+    const lines = (values: (string | undefined)[]): string =>
+      values.filter(Boolean).map(value => `<div>${this.escape(value as string)}</div>`).join('\n');
+    const isInvoice = invoice.type === InvoiceType.INVOICE;
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${this.escape(`${this.label(invoice)} ${invoice.number}`)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.5; color: #333; }
+    .container { max-width: 800px; margin: 0 auto; padding: 32px; }
+    .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+    .label { font-weight: bold; }
+    table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+    .amount { text-align: right; }
+    .totals td { border: none; }
+    .total td { font-weight: bold; }
+    .footer { margin-top: 32px; color: #666; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h1>${this.escape(this.label(invoice))} ${this.escape(invoice.number)}</h1>
+    <div class="parties">
+      <div class="issuer">
+        <div class="label">${this.escape(invoice.issuer.legalName ?? invoice.issuer.name)}</div>
+        ${lines(this.formatAddress(invoice.issuer.address))}
+        ${lines([
+          invoice.issuer.taxId ? `Tax ID: ${invoice.issuer.taxId}` : undefined,
+          invoice.issuer.registrationNumber ? `Registration No.: ${invoice.issuer.registrationNumber}` : undefined,
+          invoice.issuer.email,
+          invoice.issuer.phone
+        ])}
+      </div>
+      <div class="recipient">
+        <div class="label">Bill to</div>
+        ${lines([invoice.recipient.name, invoice.recipient.company])}
+        ${lines(this.formatAddress(invoice.recipient.address))}
+        ${lines([invoice.recipient.taxId ? `Tax ID: ${invoice.recipient.taxId}` : undefined, invoice.recipient.email])}
+      </div>
+    </div>
+    <div class="details">
+      ${lines(this.details(invoice))}
+    </div>
+    <table>
+      <thead>
+        <tr><th>Description</th><th class="amount">Qty</th><th class="amount">Unit price</th><th class="amount">Amount</th></tr>
+      </thead>
+      <tbody>
+        ${invoice.lines.map(line => `<tr><td>${this.escape(line.description)}</td><td class="amount">${line.quantity}</td>` +
+          `<td class="amount">${money(line.unitPrice)}</td><td class="amount">${money(line.amount)}</td></tr>`).join('\n        ')}
+      </tbody>
+      <tfoot class="totals">
+        <tr><td colspan="3" class="amount">Subtotal</td><td class="amount">${money(invoice.subtotal)}</td></tr>
+        <tr><td colspan="3" class="amount">Taxes</td><td class="amount">${money(invoice.taxTotal)}</td></tr>
+        <tr class="total"><td colspan="3" class="amount">Total</td><td class="amount">${money(invoice.total)}</td></tr>
+        ${isInvoice ? `<tr><td colspan="3" class="amount">Paid</td><td class="amount">${money(invoice.amountPaid)}</td></tr>
+        <tr class="total"><td colspan="3" class="amount">Balance due</td><td class="amount">${money(invoice.balanceDue)}</td></tr>` : ''}
+      </tfoot>
+    </table>
+    ${invoice.reason ? `<p><span class="label">Reason:</span> ${this.escape(invoice.reason)}</p>` : ''}
+    ${invoice.notes ? `<p>${this.escape(invoice.notes)}</p>` : ''}
+    <div class="footer">${this.escape(invoice.issuer.propertyName)}</div>
+  </div>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Render an invoice as a PDF
+   */
+  public renderPdf(invoice: IInvoice): Buffer {
+    const pdf = new PdfDocument(`${this.label(invoice)} ${invoice.number}`);
+    const right = pdf.contentWidth;
+    const money = (amount: number): string => this.formatMoney(amount, invoice.currency);
+
+    pdf.text(`${this.label(invoice).toUpperCase()} ${invoice.number}`, { size: 16, bold: true }).space(12);
+
+    pdf.text(invoice.issuer.legalName ?? invoice.issuer.name, { bold: true });
+    for (const line of [
+      ...this.formatAddress(invoice.issuer.address),
+      invoice.issuer.taxId ? `Tax ID: ${invoice.issuer.taxId}` : undefined,
+      invoice.issuer.registrationNumber ? `Registration No.: ${invoice.issuer.registrationNumber}` : undefined,
+      invoice.issuer.email,
+      invoice.issuer.phone
+    ]) {
+      if (line) {
+        pdf.text(line);
+      }
+    }
+    pdf.space(12);
+
+    pdf.text('Bill to', { bold: true });
+    for (const line of [
+      invoice.recipient.name,
+      invoice.recipient.company,
+      ...this.formatAddress(invoice.recipient.address),
+      invoice.recipient.taxId ? `Tax ID: ${invoice.recipient.taxId}` : undefined,
+      invoice.recipient.email
+    ]) {
+      if (line) {
+        pdf.text(line);
+      }
+    }
+    pdf.space(12);
+
+    for (const line of this.details(invoice)) {
+      pdf.text(line);
+    }
+    pdf.space(12);
+
+    pdf.row([
+      { text: 'Description', x: 0 },
+      { text: 'Qty', x: PDF_QUANTITY_X, align: 'right' },
+      { text: 'Unit price', x: PDF_UNIT_PRICE_X, align: 'right' },
+      { text: 'Amount', x: right, align: 'right' }
+    ], { bold: true });
+    pdf.rule();
+
+    for (const line of invoice.lines) {
+      const [first = '', ...rest] = PdfDocument.wrap(line.description, PdfDocument.charsFitting(PDF_DESCRIPTION_WIDTH, 10));
+      pdf.row([
+        { text: first, x: 0 },
+        { text: String(line.quantity), x: PDF_QUANTITY_X, align: 'right' },
+        { text: money(line.unitPrice), x: PDF_UNIT_PRICE_X, align: 'right' },
+        { text: money(line.amount), x: right, align: 'right' }
+      ]);
+      for (const continuation of rest) {
+        pdf.row([{ text: continuation, x: 0 }]);
+      }
+    }
+    pdf.rule();
+
+    const totals: [string, number, boolean][] = [
+      ['Subtotal', invoice.subtotal, false],
+      ['Taxes', invoice.taxTotal, false],
+      ['Total', invoice.total, true]
+    ];
+    if (invoice.type === InvoiceType.INVOICE) {
+      totals.push(['Paid', invoice.amountPaid, false], ['Balance due', invoice.balanceDue, true]);
+    }
+    for (const [label, amount, bold] of totals) {
+      pdf.row([
+        { text: label, x: PDF_UNIT_PRICE_X, align: 'right' },
+        { text: money(amount), x: right, align: 'right' }
+      ], { bold });
+    }
+
+    if (invoice.reason) {
+      pdf.space(12).text(`Reason: ${invoice.reason}`);
+    }
+    if (invoice.notes) {
+      pdf.space(12).text(invoice.notes);
+    }
+    pdf.space(24).text(invoice.issuer.propertyName, { size: 8 });
+
+    return pdf.toBuffer();
+  }
+
+  /**
+   * Render an invoice in every format and store the renderings
+   */
+  public async store(invoice: IInvoice): Promise<IInvoice> {
+    const files: IInvoice['files'] = {};
+
+    for (const format of Object.keys(MIME_TYPES) as InvoiceFormat[]) {
+      const content = this.render(invoice, format);
+      const file = this.fileFor(invoice, format, content.length);
+
+      await saveFile(file.path, content);
+      files[format] = file;
+    }
+
+    await Invoice.updateOne({ _id: invoice._id }, { $set: { files } });
+    invoice.files = files;
+
+    logger.info(`Stored renderings of ${this.label(invoice).toLowerCase()} ${invoice.number}`);
+    return invoice;
+  }
+
+  /**
+   * Store the renderings without failing the caller; they are rendered again
+   * on first download if this does not succeed
+   */
+  public async tryStore(invoice: IInvoice): Promise<IInvoice> {
+    try {
+      return await this.store(invoice);
+    } catch (error) {
+      logger.error(`Failed to store renderings of invoice ${invoice.number}:`, error);
+      return invoice;
+    }
+  }
+
+  /**
+   * Get a rendering of an invoice, from storage when it is there
+   */
+  public async getDocument(invoice: IInvoice, format: InvoiceFormat): Promise<IInvoiceDocument> {
+    const stored = invoice.files?.[format];
+    let content = stored ? await readFile(stored.path) : null;
+
+    if (!content) {
+      await this.tryStore(invoice);
+      content = this.render(invoice, format);
+    }
+
+    return {
+      filename: this.filename(invoice, format),
+      mimetype: MIME_TYPES[format],
+      content
+    };
+  }
+
+  private render(invoice: IInvoice, format: InvoiceFormat): Buffer {
+    return format === 'pdf' ? this.renderPdf(invoice) : Buffer.from(this.renderHtml(invoice), 'utf8');
+  }
+
+  private fileFor(invoice: IInvoice, format: InvoiceFormat, size: number): IInvoiceFile {
+    const filename = this.filename(invoice, format);
+    const directory = `${STORAGE_DIR}/${invoice.property.toString()}`;
+
+    return {
+      filename,
+      path: `${directory}/${filename}`,
+      url: `/${directory}/${filename}`,
+      mimetype: MIME_TYPES[format],
+      size,
+      generatedAt: new Date()
+    };
+  }
+
+  private filename(invoice: IInvoice, format: InvoiceFormat): string {
+    return `${invoice.number.replace(/[^a-zA-Z0-9_-]/g, '_')}.${format}`;
+  }
+
+  /**
+   * Date, booking and stay lines printed under the parties
+   */
+  private details(invoice: IInvoice): string[] {
+    return [
+      `Date of issue: ${this.formatDate(invoice.issuedAt)}`,
+      `Booking: ${invoice.booking.toString()}`,
+      `Stay: ${this.formatDate(invoice.stayFrom)} - ${this.formatDate(invoice.stayTo)}`,
+      ...(invoice.originalNumber ? [`Corrects invoice: ${invoice.originalNumber}`] : [])
+    ];
+  }
+
+  private formatAddress(address?: IInvoiceAddress): string[] {
+    if (!address) {
+      return [];
+    }
+
+    return [
+      address.street,
+      [address.postalCode, address.city].filter(Boolean).join(' '),
+      address.state,
+      address.country
+    ].filter((line): line is string => Boolean(line));
+  }
+
+  private formatMoney(amount: number, currency: string): string {
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+
+  /**
+   * Calendar date of a stored date; booking dates are server midnight
+   */
+  private formatDate(date: Date): string {
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+// Singleton instance
+export const invoiceDocumentService = new InvoiceDocumentService();
+export { InvoiceDocumentService };
+export default invoiceDocumentService;
@@ -0,0 +1,543 @@
+import mongoose from 'mongoose';
+import Invoice, {
+  IInvoice,
+  IInvoiceIssuer,
+  IInvoiceLine,
+  IInvoiceRecipient,
+  InvoiceStatus,
+  InvoiceType
+} from '../models/Invoice';
+import InvoiceSequence, { InvoiceSequenceScope } from '../models/InvoiceSequence';
+import Booking, { IBooking, BookingStatus } from '../models/Booking';
+import Property, { IProperty } from '../models/Property';
+import Organization from '../models/Organization';
+import { IFolio, ChargeCategory, FolioTransactionType, roundAmount } from '../models/Folio';
+import { folioService } from './folioService';
+import { invoiceDocumentService } from './invoiceDocumentService';
+import emailService from './emailService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type BookingRef = IBooking | string | mongoose.Types.ObjectId;
+type InvoiceRef = IInvoice | string | mongoose.Types.ObjectId;
+
+// Invoice request; the recipient defaults to the booking's guest
+export interface IIssueInvoiceRequest {
+  recipient?: Partial<IInvoiceRecipient>;
+  notes?: string;
+}
+
+// Credit note request; the amount defaults to everything not yet credited
+export interface ICreditNoteRequest {
+  amount?: number;
+  reason: string;
+}
+
+// Invoice delivery request; the address defaults to the recipient's
+export interface ISendInvoiceRequest {
+  to?: string;
+}
+
+// Numbering series of one legal entity
+interface ISequenceOwner {
+  scope: InvoiceSequenceScope;
+  owner: mongoose.Types.ObjectId;
+}
+
+// Whole organizations number together unless numbering is per property
+const NUMBERING_SCOPE = process.env['INVOICE_NUMBERING_SCOPE'] === InvoiceSequenceScope.PROPERTY
+  ? InvoiceSequenceScope.PROPERTY
+  : InvoiceSequenceScope.ORGANIZATION;
+
+const NUMBER_PREFIXES: Record<InvoiceType, string> = {
+  [InvoiceType.INVOICE]: process.env['INVOICE_NUMBER_PREFIX'] ?? 'INV',
+  [InvoiceType.CREDIT_NOTE]: process.env['CREDIT_NOTE_NUMBER_PREFIX'] ?? 'CN'
+};
+
+const NUMBER_DIGITS = 6;
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// Order and wording of the lines posted from the booking's price
+const STAY_LINE_CATEGORIES: ChargeCategory[] = [
+  ChargeCategory.ROOM,
+  ChargeCategory.EXTRA,
+  ChargeCategory.FEE,
+  ChargeCategory.DISCOUNT,
+  ChargeCategory.TAX,
+  ChargeCategory.CANCELLATION
+];
+
+const STAY_LINE_DESCRIPTIONS: Partial<Record<ChargeCategory, string>> = {
+  [ChargeCategory.EXTRA]: 'Extras',
+  [ChargeCategory.FEE]: 'Fees',
+  [ChargeCategory.DISCOUNT]: 'Discounts',
+  [ChargeCategory.TAX]: 'Taxes'
+};
+
+/**
+ * Invoice Service
+ *
+ * Issues invoices for a booking from the charges on its folio (the stay
+ * priced from the booking plus anything posted since) and credit notes
+ * against them. Each legal entity numbers its documents in gap-free yearly
+ * series: a number is only taken by saving the document that carries it, so
+ * a failed issue leaves no hole, and issued documents are never deleted. A
+ * booking has one live invoice at a time; to change it, credit it and issue
+ * a new one. Credit notes correct the invoice only; money owed back to the
+ * guest is still refunded or adjusted on the folio.
+ */
+class InvoiceService {
+  /**
+   * Issue an invoice for everything charged on the booking's folio
+   */
+  public async issueInvoice(bookingRef: BookingRef, request: IIssueInvoiceRequest = {}, userId?: string): Promise<IInvoice> {
+    const booking = await this.getBooking(bookingRef);
+    if (booking.status === BookingStatus.PENDING) {
+      throw createError.conflict('A booking must be confirmed before it is invoiced');
+    }
+
+    await this.assertNotInvoiced(booking._id);
+
+    const property = await Property.findById(booking.property);
+    if (!property) {
+      throw createError.notFound('Property not found');
+    }
+
+    const folio = await folioService.getFolio(booking, userId);
+    const lines = this.buildLines(booking, property, folio);
+    if (lines.length === 0) {
+      throw createError.validation('Nothing has been charged on this booking');
+    }
+
+    const summary = folio.getSummary();
+    const totals = this.totals(lines);
+    const amountPaid = roundAmount(summary.payments - summary.refunds);
+
+    let invoice: IInvoice;
+    try {
+      invoice = await this.createNumbered(InvoiceType.INVOICE, this.getSequenceOwner(property), {
+        property: property._id,
+        organization: property.organization,
+        booking: booking._id,
+        folio: folio._id,
+        issuer: await this.getIssuer(property),
+        recipient: this.getRecipient(booking, request.recipient),
+        currency: folio.currency,
+        lines,
+        ...totals,
+        amountPaid,
+        balanceDue: roundAmount(totals.total - amountPaid),
+        stayFrom: booking.checkIn,
+        stayTo: booking.checkOut,
+        notes: request.notes,
+        issuedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined
+      });
+    } catch (error) {
+      // Invoiced concurrently; the live invoice index let only one issue through
+      if ((error as { code?: number }).code === 11000) {
+        await this.assertNotInvoiced(booking._id);
+      }
+      throw error;
+    }
+
+    logger.info(`Invoice ${invoice.number} issued for booking ${booking._id.toString()}: ${invoice.total} ${invoice.currency}`);
+    return invoiceDocumentService.tryStore(invoice);
+  }
+
+  /**
+   * Issue a credit note against an invoice, in full or in part; a partial
+   * credit reduces every line in proportion so taxes are credited alike
+   */
+  public async issueCreditNote(invoiceRef: InvoiceRef, request: ICreditNoteRequest, userId?: string): Promise<IInvoice> {
+    const original = await this.getInvoice(invoiceRef);
+    if (original.type !== InvoiceType.INVOICE) {
+      throw createError.validation('Credit notes can only be issued against invoices');
+    }
+
+    const remaining = roundAmount(original.total - original.creditedAmount);
+    const amount = roundAmount(request.amount ?? remaining);
+    if (amount <= 0) {
+      throw createError.validation('Credit note amount must be positive');
+    }
+    if (amount > remaining) {
+      throw createError.conflict(`Only ${remaining} ${original.currency} of invoice ${original.number} is left to credit`);
+    }
+
+    // Claim the amount first so concurrent credit notes cannot exceed the invoice
+    const credited = roundAmount(original.creditedAmount + amount);
+    const claimed = await Invoice.updateOne(
+      { _id: original._id, creditedAmount: original.creditedAmount },
+      {
+        creditedAmount: credited,
+        status: credited >= original.total ? InvoiceStatus.CREDITED : InvoiceStatus.PARTIALLY_CREDITED
+      }
+    );
+    if (claimed.modifiedCount === 0) {
+      throw createError.conflict('Invoice was credited by another request, please retry');
+    }
+
+    try {
+      const lines = this.creditLines(original.lines, amount, original.total);
+      const [scope, owner] = original.sequenceKey.split(':');
+
+      const creditNote = await this.createNumbered(InvoiceType.CREDIT_NOTE, {
+        scope: scope as InvoiceSequenceScope,
+        owner: new mongoose.Types.ObjectId(owner)
+      }, {
+        property: original.property,
+        organization: original.organization,
+        booking: original.booking,
+        folio: original.folio,
+        originalInvoice: original._id,
+        originalNumber: original.number,
+        issuer: original.issuer,
+        recipient: original.recipient,
+        currency: original.currency,
+        lines,
+        ...this.totals(lines),
+        stayFrom: original.stayFrom,
+        stayTo: original.stayTo,
+        reason: request.reason,
+        issuedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined
+      });
+
+      logger.info(`Credit note ${creditNote.number} issued against invoice ${original.number}: ${creditNote.total} ${creditNote.currency}`);
+      return await invoiceDocumentService.tryStore(creditNote);
+    } catch (error) {
+      await Invoice.updateOne(
+        { _id: original._id },
+        { creditedAmount: original.creditedAmount, status: original.status }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Email an invoice or credit note with its PDF attached
+   */
+  public async sendInvoice(invoiceRef: InvoiceRef, request: ISendInvoiceRequest = {}, userId?: string): Promise<IInvoice> {
+    const invoice = await this.getInvoice(invoiceRef);
+    const to = request.to ?? invoice.recipient.email;
+    if (!to) {
+      throw createError.validation('The recipient has no email address');
+    }
+    if (!emailService.isEmailConfigured()) {
+      throw createError.externalService('Email service is not configured');
+    }
+
+    const pdf = await invoiceDocumentService.getDocument(invoice, 'pdf');
+    await emailService.sendInvoiceEmail(to, invoice.recipient.name, {
+      documentLabel: invoiceDocumentService.label(invoice),
+      number: invoice.number,
+      propertyName: invoice.issuer.propertyName,
+      issuerName: invoice.issuer.legalName ?? invoice.issuer.name,
+      issuedAt: invoice.issuedAt,
+      currency: invoice.currency,
+      total: invoice.total.toFixed(2),
+      balanceDue: invoice.balanceDue.toFixed(2)
+    }, [{ filename: pdf.filename, content: pdf.content, contentType: pdf.mimetype }]);
+
+    const delivery = {
+      to: to.toLowerCase(),
+      sentAt: new Date(),
+      sentBy: userId ? new mongoose.Types.ObjectId(userId) : undefined
+    };
+    await Invoice.updateOne({ _id: invoice._id }, { $push: { deliveries: delivery } });
+    invoice.deliveries.push(delivery);
+
+    logger.info(`Invoice ${invoice.number} emailed to ${delivery.to}`);
+    return invoice;
+  }
+
+  /**
+   * Invoices and credit notes of a booking, oldest first
+   */
+  public async getBookingInvoices(bookingId: string | mongoose.Types.ObjectId): Promise<IInvoice[]> {
+    return Invoice.find({ booking: bookingId }).sort({ issuedAt: 1, sequenceNumber: 1 });
+  }
+
+  /**
+   * Get an invoice or credit note
+   */
+  public async getInvoice(invoiceRef: InvoiceRef): Promise<IInvoice> {
+    if (invoiceRef instanceof Invoice) {
+      return invoiceRef;
+    }
+
+    const invoice = await Invoice.findById(invoiceRef);
+    if (!invoice) {
+      throw createError.notFound('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Save a document under the next number of its series, retrying when
+   * another document took that number first
+   */
+  private async createNumbered(
+    type: InvoiceType,
+    sequenceOwner: ISequenceOwner,
+    data: Partial<IInvoice>
+  ): Promise<IInvoice> {
+    const issuedAt = new Date();
+    const year = issuedAt.getFullYear();
+    const prefix = NUMBER_PREFIXES[type];
+    const key = `${sequenceOwner.scope}:${sequenceOwner.owner.toString()}:${type}:${year}`;
+
+    for (let attempt = 1; attempt <= MAX_NUMBERING_ATTEMPTS; attempt++) {
+      const sequence = await InvoiceSequence.findOneAndUpdate(
+        { key },
+        { $setOnInsert: { key, ...sequenceOwner, type, year, prefix, lastNumber: 0 } },
+        { upsert: true, new: true }
+      );
+      const sequenceNumber = sequence.lastNumber + 1;
+
+      try {
+        const invoice = await Invoice.create({
+          ...data,
+          type,
+          number: `${sequence.prefix}-${year}-${String(sequenceNumber).padStart(NUMBER_DIGITS, '0')}`,
+          sequenceKey: key,
+          sequenceNumber,
+          issuedAt
+        });
+
+        await this.advanceSequence(key, sequenceNumber);
+        return invoice;
+      } catch (error) {
+        // Only a taken number is retried, not a second live invoice of a booking
+        const duplicate = error as { code?: number; keyPattern?: Record<string, unknown> };
+        if (duplicate.code !== 11000 || !duplicate.keyPattern?.['sequenceNumber']) {
+          throw error;
+        }
+
+        // Taken concurrently, or the series was left behind by an interrupted
+        // issue: catch up with the highest number actually issued
+        const latest = await Invoice.findOne({ sequenceKey: key }).sort({ sequenceNumber: -1 }).select('sequenceNumber');
+        await this.advanceSequence(key, latest?.sequenceNumber ?? sequenceNumber);
+      }
+    }
+
+    throw createError.conflict('Could not allocate an invoice number, please retry');
+  }
+
+  private async assertNotInvoiced(bookingId: mongoose.Types.ObjectId): Promise<void> {
+    const live = await Invoice.findOne({
+      booking: bookingId,
+      type: InvoiceType.INVOICE,
+      status: { $ne: InvoiceStatus.CREDITED }
+    });
+    if (live) {
+      throw createError.conflict(`Booking is already invoiced on ${live.number}; credit it before issuing a new invoice`);
+    }
+  }
+
+  private async advanceSequence(key: string, sequenceNumber: number): Promise<void> {
+    await InvoiceSequence.updateOne({ key, lastNumber: { $lt: sequenceNumber } }, { lastNumber: sequenceNumber });
+  }
+
+  /**
+   * Organizations number all their properties' documents together
+   */
+  private getSequenceOwner(property: IProperty): ISequenceOwner {
+    if (NUMBERING_SCOPE === InvoiceSequenceScope.ORGANIZATION && property.organization) {
+      return { scope: InvoiceSequenceScope.ORGANIZATION, owner: property.organization };
+    }
+
+    return { scope: InvoiceSequenceScope.PROPERTY, owner: property._id };
+  }
+
+  /**
+   * The organization's legal details, or the property's own without one
+   */
+  private async getIssuer(property: IProperty): Promise<IInvoiceIssuer> {
+    const organization = property.organization ? await Organization.findById(property.organization) : null;
+    const propertyAddress = {
+      street: property.address?.street,
+      city: property.address?.city,
+      state: property.address?.state,
+      country: property.address?.country,
+      postalCode: property.address?.postalCode
+    };
+
+    if (!organization) {
+      return {
+        name: property.name,
+        address: propertyAddress,
+        email: property.contactInfo?.email,
+        phone: property.contactInfo?.phone,
+        propertyName: property.name
+      };
+    }
+
+    return {
+      name: organization.name,
+      legalName: organization.legalName,
+      taxId: organization.businessInfo?.taxId,
+      registrationNumber: organization.businessInfo?.registrationNumber,
+      address: organization.contactInfo?.address ?? propertyAddress,
+      email: organization.contactInfo?.email,
+      phone: organization.contactInfo?.phone,
+      propertyName: property.name
+    };
+  }
+
+  private getRecipient(booking: IBooking, override: Partial<IInvoiceRecipient> = {}): IInvoiceRecipient {
+    const guest = booking.guestInfo;
+
+    return {
+      name: override.name ?? `${guest.firstName} ${guest.lastName}`,
+      email: override.email ?? guest.email,
+      phone: override.phone ?? guest.phone,
+      company: override.company,
+      taxId: override.taxId,
+      address: override.address ?? (guest.address
+        ? {
+          street: guest.address.street,
+          city: guest.address.city,
+          state: guest.address.state,
+          country: guest.address.country,
+          postalCode: guest.address.postalCode
+        }
+        : undefined)
+    };
+  }
+
+  /**
+   * Live charges and adjustments on the folio; the stay's own postings are
+   * netted into one line per category, everything else is listed as posted
+   */
+  private buildLines(booking: IBooking, property: IProperty, folio: IFolio): IInvoiceLine[] {
+    const stayTotals = new Map<ChargeCategory, number>();
+    const extras: IInvoiceLine[] = [];
+
+    for (const transaction of folio.transactions) {
+      if (
+        (transaction.type !== FolioTransactionType.CHARGE && transaction.type !== FolioTransactionType.ADJUSTMENT) ||
+        transaction.voidedBy
+      ) {
+        continue;
+      }
+
+      if (transaction.stayPricing && transaction.category) {
+        stayTotals.set(transaction.category, (stayTotals.get(transaction.category) ?? 0) + transaction.amount);
+        continue;
+      }
+
+      extras.push({
+        description: transaction.description,
+        category: transaction.category,
+        quantity: 1,
+        unitPrice: transaction.amount,
+        amount: transaction.amount
+      });
+    }
+
+    const stayLines = STAY_LINE_CATEGORIES
+      .map(category => this.stayLine(booking, property, category, roundAmount(stayTotals.get(category) ?? 0)))
+      .filter(line => line.amount !== 0);
+
+    return [...stayLines, ...extras.filter(line => line.amount !== 0)];
+  }
+
+  private stayLine(booking: IBooking, property: IProperty, category: ChargeCategory, amount: number): IInvoiceLine {
+    switch (category) {
+      case ChargeCategory.ROOM: {
+        const room = property.rooms.find(r => r._id.equals(booking.room));
+        const nights = booking.getNights();
+        const unitPrice = nights > 0 ? roundAmount(amount / nights) : amount;
+        const perNight = nights > 0 && roundAmount(unitPrice * nights) === amount;
+
+        return {
+          description: `Accommodation${room ? ` - ${room.name}` : ''}, ${nights} night${nights === 1 ? '' : 's'}`,
+          category,
+          quantity: perNight ? nights : 1,
+          unitPrice: perNight ? unitPrice : amount,
+          amount
+        };
+      }
+      case ChargeCategory.CANCELLATION:
+        return {
+          description: booking.status === BookingStatus.NO_SHOW ? 'No-show penalty' : 'Cancellation penalty',
+          category,
+          quantity: 1,
+          unitPrice: amount,
+          amount
+        };
+      default:
+        return {
+          description: STAY_LINE_DESCRIPTIONS[category] ?? category,
+          category,
+          quantity: 1,
+          unitPrice: amount,
+          amount
+        };
+    }
+  }
+
+  /**
+   * Negated invoice lines scaled to the credited share; rounding differences
+   * go to the largest line so the lines add up to the credited amount
+   */
+  private creditLines(lines: IInvoiceLine[], amount: number, invoiceTotal: number): IInvoiceLine[] {
+    if (amount === invoiceTotal) {
+      return lines.map(line => ({
+        description: line.description,
+        category: line.category,
+        quantity: line.quantity,
+        unitPrice: -line.unitPrice,
+        amount: -line.amount
+      }));
+    }
+
+    const share = amount / invoiceTotal;
+    const credited = lines.map(line => {
+      const lineAmount = -roundAmount(line.amount * share);
+      return {
+        description: line.description,
+        category: line.category,
+        quantity: 1,
+        unitPrice: lineAmount,
+        amount: lineAmount
+      };
+    });
+
+    const difference = roundAmount(-amount - credited.reduce((sum, line) => sum + line.amount, 0));
+    if (difference !== 0) {
+      const largest = credited.reduce((max, line) => (Math.abs(line.amount) > Math.abs(max.amount) ? line : max));
+      largest.amount = roundAmount(largest.amount + difference);
+      largest.unitPrice = largest.amount;
+    }
+
+    return credited.filter(line => line.amount !== 0);
+  }
+
+  private totals(lines: IInvoiceLine[]): Pick<IInvoice, 'subtotal' | 'taxTotal' | 'total'> {
+    const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+    const taxTotal = roundAmount(lines
+      .filter(line => line.category === ChargeCategory.TAX)
+      .reduce((sum, line) => sum + line.amount, 0));
+
+    return { subtotal: roundAmount(total - taxTotal), taxTotal, total };
+  }
+
+  private async getBooking(bookingRef: BookingRef): Promise<IBooking> {
+    if (bookingRef instanceof Booking) {
+      return bookingRef;
+    }
+
+    const booking = await Booking.findById(bookingRef);
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    return booking;
+  }
+}
+
+// Singleton instance
+export const invoiceService = new InvoiceService();
+export { InvoiceService };
+export default invoiceService;
@@ -0,0 +1,365 @@
+import mongoose from 'mongoose';
+import Property, { IProperty } from '../models/Property';
+import Booking, { IBooking, BookingStatus, StatusChangeSource } from '../models/Booking';
+import NightAudit, {
+  INightAudit,
+  INightAuditEntry,
+  INightAuditStats,
+  NightAuditAction,
+  NightAuditStatus,
+  NightAuditTrigger
+} from '../models/NightAudit';
+import { bookingStatusService } from './bookingStatusService';
+import { cancellationPolicyService } from './cancellationPolicyService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+// Bookings still expected to arrive
+const ARRIVAL_STATUSES = [BookingStatus.CONFIRMED, BookingStatus.MODIFIED];
+
+const DEFAULT_INTERVAL_MS = parseInt(process.env['NIGHT_AUDIT_INTERVAL_MS'] ?? '3600000', 10);
+// Hours from local midnight of the check-in date until an arrival is a no-show (28 = 04:00 the next morning)
+const DEFAULT_NO_SHOW_CUTOFF_HOURS = parseFloat(process.env['NIGHT_AUDIT_NO_SHOW_CUTOFF_HOURS'] ?? '28');
+// Hours from local midnight of the check-out date until a guest still in house is overdue (12 = noon)
+const DEFAULT_OVERDUE_CUTOFF_HOURS = parseFloat(process.env['NIGHT_AUDIT_OVERDUE_CUTOFF_HOURS'] ?? '12');
+const DEFAULT_TIMEZONE = 'UTC';
+const MAX_STORED_ENTRIES = 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Night audit run options
+export interface INightAuditOptions {
+  propertyId?: string;
+  at?: Date; // Moment to audit, defaults to now
+  dryRun?: boolean;
+  noShowCutoffHours?: number;
+  overdueCutoffHours?: number;
+  trigger?: NightAuditTrigger;
+  userId?: string;
+}
+
+// Run listing filters
+export interface INightAuditListOptions {
+  propertyId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Working state for a single run
+interface IAuditContext {
+  at: Date;
+  dryRun: boolean;
+  noShowCutoffHours: number;
+  overdueCutoffHours: number;
+  stats: INightAuditStats;
+  entries: INightAuditEntry[];
+}
+
+/**
+ * Night Audit Service
+ *
+ * Closes the day of every property on its own clock. Bookings still waiting
+ * to arrive once the no-show cutoff has passed in the property's timezone are
+ * marked no-show through the booking status service, which charges the rate
+ * plan's no-show penalty and gives the nights back. Guests still checked in
+ * past the overdue cutoff of their check-out date are flagged on the booking
+ * for the front desk. Runs hourly, so each property is audited soon after its
+ * local cutoff; every run stores a report.
+ */
+class NightAuditService {
+  private running = false;
+  private scheduleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Run the night audit and store its report
+   */
+  public async run(options: INightAuditOptions = {}): Promise<INightAudit> {
+    if (this.running) {
+      throw createError.conflict('A night audit is already running');
+    }
+
+    const noShowCutoffHours = options.noShowCutoffHours ?? DEFAULT_NO_SHOW_CUTOFF_HOURS;
+    const overdueCutoffHours = options.overdueCutoffHours ?? DEFAULT_OVERDUE_CUTOFF_HOURS;
+    if (noShowCutoffHours < 0 || overdueCutoffHours < 0) {
+      throw createError.validation('Night audit cutoffs cannot be negative');
+    }
+
+    const report = await NightAudit.create({
+      trigger: options.trigger ?? NightAuditTrigger.MANUAL,
+      status: NightAuditStatus.RUNNING,
+      dryRun: options.dryRun ?? false,
+      property: options.propertyId ? new mongoose.Types.ObjectId(options.propertyId) : undefined,
+      auditedAt: options.at ?? new Date(),
+      noShowCutoffHours,
+      overdueCutoffHours,
+      startedAt: new Date(),
+      requestedBy: options.userId ? new mongoose.Types.ObjectId(options.userId) : undefined
+    });
+
+    const context: IAuditContext = {
+      at: report.auditedAt,
+      dryRun: report.dryRun,
+      noShowCutoffHours,
+      overdueCutoffHours,
+      stats: {
+        properties: 0,
+        bookingsChecked: 0,
+        noShows: 0,
+        overdueDepartures: 0,
+        failures: 0
+      },
+      entries: []
+    };
+
+    this.running = true;
+
+    try {
+      const properties = await Property.find(options.propertyId ? { _id: options.propertyId } : {})
+        .select('name address.timezone settings.timezone');
+
+      if (options.propertyId && properties.length === 0) {
+        throw createError.notFound('Property not found');
+      }
+
+      for (const property of properties) {
+        await this.auditProperty(property, context);
+        context.stats.properties++;
+      }
+
+      report.status = NightAuditStatus.COMPLETED;
+      report.stats = context.stats;
+      report.entries = context.entries.slice(0, MAX_STORED_ENTRIES);
+      report.completedAt = new Date();
+      await report.save();
+
+      logger.info(
+        `Night audit${report.dryRun ? ' (dry run)' : ''} complete: ${context.stats.noShows} no-shows, ` +
+        `${context.stats.overdueDepartures} overdue departures, ${context.stats.failures} failures`
+      );
+
+      return report;
+    } catch (error) {
+      report.status = NightAuditStatus.FAILED;
+      report.error = (error as Error).message;
+      report.completedAt = new Date();
+      await report.save();
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * List stored night audit runs, newest first
+   */
+  public async getRuns(options: INightAuditListOptions = {}): Promise<{
+    runs: INightAudit[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+    const filter = options.propertyId ? { property: new mongoose.Types.ObjectId(options.propertyId) } : {};
+
+    const [runs, total] = await Promise.all([
+      NightAudit.find(filter)
+        .select('-entries')
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      NightAudit.countDocuments(filter)
+    ]);
+
+    return { runs, total, page, limit };
+  }
+
+  /**
+   * Get a stored night audit run with its entries
+   */
+  public async getRun(runId: string): Promise<INightAudit> {
+    const run = await NightAudit.findById(runId);
+
+    if (!run) {
+      throw createError.notFound('Night audit run not found');
+    }
+
+    return run;
+  }
+
+  /**
+   * Start the periodic night audit
+   */
+  public startScheduler(intervalMs: number = DEFAULT_INTERVAL_MS): void {
+    if (this.scheduleTimer) {
+      return;
+    }
+
+    this.scheduleTimer = setInterval(() => {
+      if (this.running) {
+        return;
+      }
+
+      this.run({ trigger: NightAuditTrigger.SCHEDULED }).catch(error => {
+        logger.error('Scheduled night audit failed:', error);
+      });
+    }, intervalMs);
+    this.scheduleTimer.unref();
+
+    logger.info(`Night audit scheduled every ${intervalMs}ms`);
+  }
+
+  /**
+   * Stop the periodic night audit
+   */
+  public stopScheduler(): void {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+  }
+
+  private async auditProperty(property: IProperty, context: IAuditContext): Promise<void> {
+    const timezone = this.getTimezone(property);
+    const localNow = this.wallClock(context.at, timezone);
+
+    // A day ahead covers properties whose local date is already past the server's
+    const horizon = new Date(context.at.getTime() + 24 * HOUR_MS);
+    const [arrivals, departures] = await Promise.all([
+      Booking.find({ property: property._id, status: { $in: ARRIVAL_STATUSES }, checkIn: { $lt: horizon } }),
+      Booking.find({ property: property._id, status: BookingStatus.CHECKED_IN, checkOut: { $lt: horizon } })
+    ]);
+    context.stats.bookingsChecked += arrivals.length + departures.length;
+
+    for (const booking of arrivals) {
+      if (this.hoursPast(booking.checkIn, localNow) >= context.noShowCutoffHours) {
+        await this.markNoShow(booking, timezone, context);
+      }
+    }
+
+    for (const booking of departures) {
+      const hoursPast = this.hoursPast(booking.checkOut, localNow);
+      if (hoursPast >= context.overdueCutoffHours) {
+        await this.flagOverdueDeparture(booking, timezone, hoursPast, context);
+      }
+    }
+  }
+
+  private async markNoShow(booking: IBooking, timezone: string, context: IAuditContext): Promise<void> {
+    try {
+      let penalty: number;
+
+      if (context.dryRun) {
+        penalty = (await cancellationPolicyService.quote(booking, { noShow: true, at: context.at })).penalty;
+      } else {
+        await bookingStatusService.transition(booking, BookingStatus.NO_SHOW, {
+          source: StatusChangeSource.SYSTEM,
+          reason: 'Not checked in by the night audit cutoff'
+        });
+        penalty = booking.cancellationCharge?.penalty ?? 0;
+      }
+
+      context.stats.noShows++;
+      this.addEntry(context, booking, NightAuditAction.NO_SHOW, timezone, {
+        penalty,
+        currency: booking.pricing.currency
+      });
+    } catch (error) {
+      logger.error(`Night audit could not mark booking ${booking._id.toString()} as a no-show:`, error);
+      context.stats.failures++;
+      this.addEntry(context, booking, NightAuditAction.FAILED, timezone, {
+        message: `No-show failed: ${(error as Error).message}`
+      });
+    }
+  }
+
+  private async flagOverdueDeparture(booking: IBooking, timezone: string, hoursPast: number, context: IAuditContext): Promise<void> {
+    try {
+      if (!context.dryRun && !booking.overdueDepartureAt) {
+        await Booking.updateOne({ _id: booking._id }, { overdueDepartureAt: context.at });
+        booking.overdueDepartureAt = context.at;
+      }
+
+      context.stats.overdueDepartures++;
+      this.addEntry(context, booking, NightAuditAction.OVERDUE_DEPARTURE, timezone, {
+        message: `Still checked in ${Math.floor(hoursPast)} hours into the check-out date`
+      });
+    } catch (error) {
+      logger.error(`Night audit could not flag booking ${booking._id.toString()} as overdue:`, error);
+      context.stats.failures++;
+      this.addEntry(context, booking, NightAuditAction.FAILED, timezone, {
+        message: `Overdue flag failed: ${(error as Error).message}`
+      });
+    }
+  }
+
+  private addEntry(
+    context: IAuditContext,
+    booking: IBooking,
+    action: NightAuditAction,
+    timezone: string,
+    details: Pick<INightAuditEntry, 'penalty' | 'currency' | 'message'>
+  ): void {
+    context.entries.push({
+      action,
+      property: booking.property,
+      booking: booking._id,
+      guestName: `${booking.guestInfo.firstName} ${booking.guestInfo.lastName}`,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      timezone,
+      ...details
+    });
+  }
+
+  /**
+   * The property's location timezone, then its settings, then UTC
+   */
+  private getTimezone(property: IProperty): string {
+    for (const timezone of [property.address?.timezone, property.settings?.timezone]) {
+      if (!timezone) {
+        continue;
+      }
+
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return timezone;
+      } catch {
+        logger.warn(`Property ${property._id.toString()} has an invalid timezone ${timezone}`);
+      }
+    }
+
+    return DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Local date and time in a timezone, as milliseconds on a UTC scale so it
+   * compares directly with calendar dates
+   */
+  private wallClock(at: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).formatToParts(at);
+    const part = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find(p => p.type === type)?.value);
+
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+  }
+
+  /**
+   * Hours from the local midnight starting a booking date to a local time;
+   * booking dates are stored as server midnight of the calendar date
+   */
+  private hoursPast(date: Date, localNow: number): number {
+    return (localNow - Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())) / HOUR_MS;
+  }
+}
+
+// Singleton instance
+export const nightAuditService = new NightAuditService();
+export { NightAuditService };
+export default nightAuditService;
@@ -0,0 +1,487 @@
+import mongoose from 'mongoose';
+import Property, { RoomType } from '../models/Property';
+import { IBooking, IPricing } from '../models/Booking';
+import Promotion, { IPromotion, PromotionDiscountType, PromotionType } from '../models/Promotion';
+import PromotionRedemption, { IPromotionRedemption, RedemptionStatus } from '../models/PromotionRedemption';
+import PromotionGuestUsage from '../models/PromotionGuestUsage';
+import { InventoryRepository } from './inventoryRepository';
+import { InventoryReservationService } from './inventoryReservationService';
+import { exchangeRateService } from './exchangeRateService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// New or changed promotion
+export interface IPromotionRequest {
+  code: string;
+  name: string;
+  description?: string;
+  type?: PromotionType;
+  discountType: PromotionDiscountType;
+  amount: number;
+  currency?: string;
+  properties: string[];
+  roomTypes?: RoomType[];
+  validFrom?: Date;
+  validTo?: Date;
+  stayFrom?: Date;
+  stayTo?: Date;
+  minDaysInAdvance?: number;
+  maxDaysInAdvance?: number;
+  minNights?: number;
+  maxUses?: number;
+  maxUsesPerGuest?: number;
+  stackable?: boolean;
+  active?: boolean;
+}
+
+// Stay to discount
+export interface IPromotionStay {
+  propertyId: ObjectIdLike;
+  roomId: ObjectIdLike;
+  checkIn: Date;
+  checkOut: Date;
+  pricing: IPricing;
+  guestEmail?: string; // Needed to enforce per-guest limits
+  bookedAt?: Date;
+}
+
+// Code taken off a stay
+export interface IAppliedPromotion {
+  promotion: mongoose.Types.ObjectId;
+  code: string;
+  name: string;
+  discount: number;
+}
+
+// Code that cannot be used on a stay
+export interface IRejectedPromotion {
+  code: string;
+  reason: string;
+}
+
+// Discounted price of a stay
+export interface IPromotionQuote {
+  applied: IAppliedPromotion[];
+  rejected: IRejectedPromotion[];
+  discount: number;
+  pricing: IPricing;
+}
+
+/**
+ * Promotion Service
+ *
+ * Manages promotion codes and vouchers and takes them off direct bookings.
+ * Discounts come off the room rate after taxes and fees are levied on it:
+ * percentages of what is left of the room rate first, then fixed amounts,
+ * never below zero. A fixed amount in another currency is converted at
+ * today's rate. Uses are counted when a booking redeems a code and given
+ * back when the booking is cancelled.
+ */
+class PromotionService {
+  /**
+   * List promotions, only those of some properties when given
+   */
+  public async listPromotions(propertyIds?: ObjectIdLike[]): Promise<IPromotion[]> {
+    const filter = propertyIds
+      ? { properties: { $in: propertyIds.map(id => this.toObjectId(id)) } }
+      : {};
+
+    return Promotion.find(filter).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Get a promotion
+   */
+  public async getPromotion(promotionId: ObjectIdLike): Promise<IPromotion> {
+    const promotion = await Promotion.findById(this.toObjectId(promotionId));
+    if (!promotion) {
+      throw createError.notFound('Promotion not found');
+    }
+
+    return promotion;
+  }
+
+  /**
+   * Create a promotion code or voucher
+   */
+  public async createPromotion(request: IPromotionRequest, userId?: string): Promise<IPromotion> {
+    await this.assertPropertiesExist(request.properties);
+
+    const promotion = new Promotion({
+      ...request,
+      properties: request.properties.map(id => this.toObjectId(id)),
+      createdBy: userId ? this.toObjectId(userId) : undefined
+    });
+
+    await this.savePromotion(promotion);
+    logger.info(`Promotion ${promotion.code} created for ${promotion.properties.length} properties`);
+
+    return promotion;
+  }
+
+  /**
+   * Change a promotion; its uses so far are kept
+   */
+  public async updatePromotion(promotionId: ObjectIdLike, request: Partial<IPromotionRequest>): Promise<IPromotion> {
+    const promotion = await this.getPromotion(promotionId);
+    const { properties, ...changes } = request;
+
+    promotion.set(changes);
+    if (properties) {
+      await this.assertPropertiesExist(properties);
+      promotion.properties = properties.map(id => this.toObjectId(id));
+    }
+
+    await this.savePromotion(promotion);
+
+    return promotion;
+  }
+
+  /**
+   * Delete a promotion that was never redeemed
+   */
+  public async deletePromotion(promotionId: ObjectIdLike): Promise<void> {
+    const promotion = await this.getPromotion(promotionId);
+
+    if (await PromotionRedemption.exists({ promotion: promotion._id })) {
+      throw createError.conflict('Promotion has been redeemed; deactivate it instead');
+    }
+
+    await promotion.deleteOne();
+  }
+
+  /**
+   * Redemptions of a promotion, newest first
+   */
+  public async listRedemptions(promotionId: ObjectIdLike): Promise<IPromotionRedemption[]> {
+    const promotion = await this.getPromotion(promotionId);
+    return PromotionRedemption.find({ promotion: promotion._id }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Work out the discount of codes on a stay without redeeming them
+   */
+  public async evaluate(codes: string[], stay: IPromotionStay): Promise<IPromotionQuote> {
+    const requested = this.normalizeCodes(codes);
+    const quote: IPromotionQuote = { applied: [], rejected: [], discount: 0, pricing: stay.pricing };
+    if (requested.length === 0) {
+      return quote;
+    }
+
+    const [promotions, roomType] = await Promise.all([
+      Promotion.find({ code: { $in: requested } }),
+      this.getRoomType(stay.propertyId, stay.roomId)
+    ]);
+    const byCode = new Map(promotions.map(promotion => [promotion.code, promotion]));
+
+    const eligible: IPromotion[] = [];
+    for (const code of requested) {
+      const promotion = byCode.get(code);
+      const reason = promotion
+        ? await this.getIneligibility(promotion, stay, roomType)
+        : 'Code not found';
+
+      if (promotion && !reason) {
+        // A code that may not be combined only ever stands alone
+        if (eligible.length > 0 && (!promotion.stackable || eligible.some(other => !other.stackable))) {
+          quote.rejected.push({ code, reason: 'Code cannot be combined with other codes' });
+        } else {
+          eligible.push(promotion);
+        }
+      } else {
+        quote.rejected.push({ code, reason: reason ?? 'Code not found' });
+      }
+    }
+
+    // Percentages before fixed amounts, each on what is left of the room rate
+    const ordered = [
+      ...eligible.filter(promotion => promotion.discountType === PromotionDiscountType.PERCENTAGE),
+      ...eligible.filter(promotion => promotion.discountType === PromotionDiscountType.FIXED)
+    ];
+    let remaining = Math.max(0, stay.pricing.baseRate - stay.pricing.discounts);
+
+    for (const promotion of ordered) {
+      let discount: number;
+      if (promotion.discountType === PromotionDiscountType.PERCENTAGE) {
+        discount = this.round(remaining * promotion.amount / 100);
+      } else {
+        const amount = await this.convertFixedAmount(promotion, stay.pricing.currency);
+        if (amount === null) {
+          quote.rejected.push({ code: promotion.code, reason: `Code is not valid for bookings in ${stay.pricing.currency}` });
+          continue;
+        }
+        discount = Math.min(amount, remaining);
+      }
+
+      remaining = this.round(remaining - discount);
+      quote.discount = this.round(quote.discount + discount);
+      quote.applied.push({ promotion: promotion._id, code: promotion.code, name: promotion.name, discount });
+    }
+
+    quote.pricing = {
+      ...stay.pricing,
+      discounts: this.round(stay.pricing.discounts + quote.discount),
+      total: this.round(stay.pricing.total - quote.discount)
+    };
+
+    return quote;
+  }
+
+  /**
+   * Take codes off a new booking's pricing; every code must apply
+   */
+  public async applyToBooking(booking: IBooking, codes: string[]): Promise<IAppliedPromotion[]> {
+    const quote = await this.evaluate(codes, {
+      propertyId: booking.property,
+      roomId: booking.room,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      pricing: booking.pricing,
+      guestEmail: booking.guestInfo.email
+    });
+
+    if (quote.rejected.length > 0) {
+      throw createError.validation(
+        'Promotion code cannot be applied',
+        quote.rejected.map(rejected => ({ field: 'promoCode', message: rejected.reason, value: rejected.code }))
+      );
+    }
+
+    booking.pricing.discounts = quote.pricing.discounts;
+    booking.pricing.total = quote.pricing.total;
+
+    return quote.applied;
+  }
+
+  /**
+   * Count the codes applied to a booking against their limits and record the
+   * redemptions; nothing is counted when a limit was reached in the meantime
+   */
+  public async redeem(booking: IBooking, applied: IAppliedPromotion[]): Promise<IPromotionRedemption[]> {
+    if (applied.length === 0) {
+      return [];
+    }
+
+    const guestEmail = booking.guestInfo.email.toLowerCase();
+    const claimed: mongoose.Types.ObjectId[] = [];
+    const guestClaimed: mongoose.Types.ObjectId[] = [];
+
+    try {
+      for (const promotion of applied) {
+        const updated = await Promotion.findOneAndUpdate(
+          {
+            _id: promotion.promotion,
+            active: true,
+            $or: [
+              { maxUses: { $exists: false } },
+              { maxUses: null },
+              { $expr: { $lt: ['$usageCount', '$maxUses'] } }
+            ]
+          },
+          { $inc: { usageCount: 1 } },
+          { new: true }
+        );
+        if (!updated) {
+          throw createError.conflict(`Promotion code ${promotion.code} is no longer available`);
+        }
+        claimed.push(updated._id);
+
+        if (updated.maxUsesPerGuest) {
+          if (!(await this.claimGuestUse(updated._id, guestEmail, updated.maxUsesPerGuest))) {
+            throw createError.conflict(`Promotion code ${promotion.code} has already been used by this guest`);
+          }
+          guestClaimed.push(updated._id);
+        }
+      }
+
+      const redemptions = await PromotionRedemption.insertMany(applied.map(promotion => ({
+        promotion: promotion.promotion,
+        code: promotion.code,
+        booking: booking._id,
+        property: booking.property,
+        guestEmail,
+        discount: promotion.discount,
+        currency: booking.pricing.currency
+      })));
+
+      logger.info(`Booking ${booking._id.toString()} redeemed promotion codes ${applied.map(promotion => promotion.code).join(', ')}`);
+
+      return redemptions;
+    } catch (error) {
+      await Promotion.updateMany({ _id: { $in: claimed } }, { $inc: { usageCount: -1 } });
+      await PromotionGuestUsage.updateMany(
+        { promotion: { $in: guestClaimed }, guestEmail, usageCount: { $gt: 0 } },
+        { $inc: { usageCount: -1 } }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Give the uses of a booking's codes back
+   */
+  public async releaseBooking(bookingId: ObjectIdLike): Promise<void> {
+    const redemptions = await PromotionRedemption.find({
+      booking: this.toObjectId(bookingId),
+      status: RedemptionStatus.REDEEMED
+    });
+
+    for (const redemption of redemptions) {
+      const released = await PromotionRedemption.updateOne(
+        { _id: redemption._id, status: RedemptionStatus.REDEEMED },
+        { $set: { status: RedemptionStatus.RELEASED, releasedAt: new Date() } }
+      );
+
+      // Released concurrently by another request
+      if (released.modifiedCount > 0) {
+        await Promotion.updateOne(
+          { _id: redemption.promotion, usageCount: { $gt: 0 } },
+          { $inc: { usageCount: -1 } }
+        );
+        await PromotionGuestUsage.updateOne(
+          { promotion: redemption.promotion, guestEmail: redemption.guestEmail, usageCount: { $gt: 0 } },
+          { $inc: { usageCount: -1 } }
+        );
+      }
+    }
+  }
+
+  /**
+   * Best-effort release: a cancellation already stands, so a failure only leaves a use counted
+   */
+  public async tryReleaseBooking(bookingId: ObjectIdLike): Promise<void> {
+    try {
+      await this.releaseBooking(bookingId);
+    } catch (error) {
+      logger.error(`Promotion release failed for booking ${bookingId.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Take one of the guest's uses of a code while under the limit
+   */
+  private async claimGuestUse(promotion: mongoose.Types.ObjectId, guestEmail: string, limit: number): Promise<boolean> {
+    const filter = { promotion, guestEmail, usageCount: { $lt: limit } };
+    const claim = { $inc: { usageCount: 1 } };
+
+    try {
+      const created = await PromotionGuestUsage.updateOne(filter, claim, { upsert: true });
+      return created.modifiedCount + created.upsertedCount > 0;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    // The counter exists: at the limit, or just created by another booking of the guest
+    const updated = await PromotionGuestUsage.updateOne(filter, claim);
+    return updated.modifiedCount > 0;
+  }
+
+  /**
+   * Why a code cannot be used on a stay, or null when it can
+   */
+  private async getIneligibility(promotion: IPromotion, stay: IPromotionStay, roomType: string | null): Promise<string | null> {
+    const bookedAt = stay.bookedAt ?? new Date();
+    const today = InventoryRepository.normalizeDate(bookedAt);
+    const checkIn = InventoryRepository.normalizeDate(stay.checkIn);
+    const nights = InventoryReservationService.getStayDates(checkIn, InventoryRepository.normalizeDate(stay.checkOut));
+    const lastNight = nights[nights.length - 1] ?? checkIn;
+    const daysInAdvance = Math.round((checkIn.getTime() - today.getTime()) / 86400000);
+
+    if (!promotion.isRedeemableOn(bookedAt)) {
+      return 'Code is not valid at this time';
+    }
+    if (!promotion.properties.some(property => property.toString() === stay.propertyId.toString())) {
+      return 'Code is not valid at this property';
+    }
+    if (promotion.roomTypes.length > 0 && !promotion.roomTypes.some(type => type === roomType)) {
+      return 'Code is not valid for this room type';
+    }
+    const startsEarly = promotion.stayFrom !== undefined && checkIn < InventoryRepository.normalizeDate(promotion.stayFrom);
+    const endsLate = promotion.stayTo !== undefined && lastNight > InventoryRepository.normalizeDate(promotion.stayTo);
+    if (startsEarly || endsLate) {
+      return 'Code is not valid for these stay dates';
+    }
+    if (promotion.minDaysInAdvance !== undefined && daysInAdvance < promotion.minDaysInAdvance) {
+      return `Code requires booking at least ${promotion.minDaysInAdvance} days before check-in`;
+    }
+    if (promotion.maxDaysInAdvance !== undefined && daysInAdvance > promotion.maxDaysInAdvance) {
+      return `Code requires booking at most ${promotion.maxDaysInAdvance} days before check-in`;
+    }
+    if (promotion.minNights && nights.length < promotion.minNights) {
+      return `Code requires a stay of at least ${promotion.minNights} nights`;
+    }
+    if (promotion.maxUses !== undefined && promotion.usageCount >= promotion.maxUses) {
+      return 'Code has been fully redeemed';
+    }
+    if (promotion.maxUsesPerGuest && stay.guestEmail) {
+      const used = await PromotionRedemption.countDocuments({
+        promotion: promotion._id,
+        guestEmail: stay.guestEmail.toLowerCase(),
+        status: RedemptionStatus.REDEEMED
+      });
+      if (used >= promotion.maxUsesPerGuest) {
+        return 'Code has already been used by this guest';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fixed amount in the stay's currency, or null when no rate is loaded
+   */
+  private async convertFixedAmount(promotion: IPromotion, currency: string): Promise<number | null> {
+    try {
+      return await exchangeRateService.convert(promotion.amount, promotion.currency ?? currency, currency);
+    } catch (error) {
+      logger.warn(`Promotion ${promotion.code} could not be converted to ${currency}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private async getRoomType(propertyId: ObjectIdLike, roomId: ObjectIdLike): Promise<string | null> {
+    const property = await Property.findById(propertyId).select('rooms._id rooms.type');
+    const room = property?.rooms.find(r => r._id.toString() === roomId.toString());
+    return room?.type ?? null;
+  }
+
+  private async assertPropertiesExist(propertyIds: string[]): Promise<void> {
+    const unique = [...new Set(propertyIds)];
+    const found = await Property.countDocuments({ _id: { $in: unique.map(id => this.toObjectId(id)) } });
+    if (found !== unique.length) {
+      throw createError.notFound('Property not found');
+    }
+  }
+
+  private async savePromotion(promotion: IPromotion): Promise<void> {
+    try {
+      await promotion.save();
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw createError.duplicate(`Promotion code ${promotion.code} already exists`);
+      }
+      throw error;
+    }
+  }
+
+  private normalizeCodes(codes: string[]): string[] {
+    return [...new Set(codes.map(code => code.trim().toUpperCase()).filter(code => code !== ''))];
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private toObjectId(id: ObjectIdLike): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+}
+
+// Singleton instance
+export const promotionService = new PromotionService();
+export { PromotionService };
+export default promotionService;
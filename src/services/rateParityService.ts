@@ -1,4 +1,6 @@
-import Calendar, { ICalendar, CalendarChannel } from '../models/Calendar';
+import { CalendarChannel } from '../models/Calendar';
+import { ALL_CHANNELS_RATE } from '../models/RoomAvailability';
+import { inventoryRepository } from './inventoryRepository';
 import { logger } from '../config/logger';
 import { createError } from '../utils/errors';
 import mongoose from 'mongoose';
@@ -70,35 +72,22 @@ class RateParityService {
         return [];
       }
 
-      // Get all calendar entries for date range
-      const calendars = await Calendar.find({
-        property: propertyId,
-        room: roomId,
+      // Channel rates live on the pooled inventory night
+      const nights = await inventoryRepository.findNights({
+        propertyId,
+        roomId,
         date: { $gte: startDate, $lte: endDate }
       });
 
-      // Group by date
-      const dateMap = new Map<string, ICalendar[]>();
-
-      for (const calendar of calendars) {
-        const dateKey = calendar.date.toISOString().split('T')[0];
-
-        if (!dateMap.has(dateKey)) {
-          dateMap.set(dateKey, []);
-        }
-
-        dateMap.get(dateKey)!.push(calendar);
-      }
-
       // Check each date
-      for (const [dateKey, dateCalendars] of dateMap) {
-        const baseCalendar = dateCalendars.find(c => c.channel === rule.baseChannel);
+      for (const night of nights) {
+        const dateKey = night.date.toISOString().split('T')[0];
+        const baseRate = night.getRateForChannel(rule.baseChannel);
 
-        if (!baseCalendar || !baseCalendar.rate) {
+        if (!baseRate) {
           continue;
         }
 
-        const baseRate = baseCalendar.getEffectiveRate();
         const channelViolations: Array<{
           channel: CalendarChannel;
           rate: number;
@@ -107,19 +96,20 @@ class RateParityService {
         }> = [];
 
         // Check other channels
-        for (const calendar of dateCalendars) {
-          if (calendar.channel === rule.baseChannel) {
+        for (const channelRateEntry of night.rates) {
+          if (channelRateEntry.channel === rule.baseChannel || channelRateEntry.channel === ALL_CHANNELS_RATE) {
             continue;
           }
 
-          const channelRate = calendar.getEffectiveRate();
+          const channel = channelRateEntry.channel as CalendarChannel;
+          const channelRate = channelRateEntry.rate;
           const difference = Math.abs(channelRate - baseRate);
           const percentageDifference = (difference / baseRate) * 100;
 
           // Check if violates tolerance
           if (percentageDifference > rule.tolerance) {
             channelViolations.push({
-              channel: calendar.channel,
+              channel,
               rate: channelRate,
               difference,
               percentageDifference
@@ -129,7 +119,7 @@ class RateParityService {
           // Check enforce higher rule
           if (rule.enforceHigher && channelRate > baseRate) {
             channelViolations.push({
-              channel: calendar.channel,
+              channel,
               rate: channelRate,
               difference: channelRate - baseRate,
               percentageDifference: ((channelRate - baseRate) / baseRate) * 100
@@ -139,7 +129,7 @@ class RateParityService {
           // Check enforce lower rule
           if (rule.enforceLower && channelRate < baseRate) {
             channelViolations.push({
-              channel: calendar.channel,
+              channel,
               rate: channelRate,
               difference: baseRate - channelRate,
               percentageDifference: ((baseRate - channelRate) / baseRate) * 100
@@ -192,18 +182,18 @@ class RateParityService {
       const errors: Array<{ channel: CalendarChannel; error: string }> = [];
 
       // Get base channel rates
-      const baseRates = await Calendar.find({
-        property: propertyId,
-        room: roomId,
-        channel: baseChannel,
-        date: { $gte: startDate, $lte: endDate }
+      const baseRates = await inventoryRepository.findCalendarEntries({
+        propertyId,
+        roomId,
+        date: { $gte: startDate, $lte: endDate },
+        channel: baseChannel
       });
 
-      if (baseRates.length === 0) {
+      if (!baseRates.some(entry => entry.rate !== undefined)) {
         throw createError.notFound('No base channel rates found');
       }
 
-      // Sync rates to other channels
+      // Sync rates to other channels (stay restrictions are shared by the pool)
       const channels = [
         CalendarChannel.AIRBNB,
         CalendarChannel.BOOKING,
@@ -213,43 +203,23 @@ class RateParityService {
       ].filter(c => c !== baseChannel);
 
       for (const baseRate of baseRates) {
+        if (baseRate.rate === undefined) {
+          continue;
+        }
+
         for (const channel of channels) {
           try {
-            let calendar = await Calendar.findOne({
-              property: propertyId,
-              room: roomId,
+            await inventoryRepository.updateNights(propertyId, roomId, [baseRate.date], {
               channel,
-              date: baseRate.date
+              rate: baseRate.rate,
+              currency: baseRate.currency
             });
 
-            if (calendar) {
-              // Update existing
-              calendar.rate = baseRate.rate;
-              calendar.currency = baseRate.currency;
-              calendar.minStay = baseRate.minStay;
-              calendar.maxStay = baseRate.maxStay;
-              await calendar.save();
-            } else {
-              // Create new
-              calendar = new Calendar({
-                property: propertyId,
-                room: roomId,
-                date: baseRate.date,
-                status: baseRate.status,
-                rate: baseRate.rate,
-                currency: baseRate.currency,
-                minStay: baseRate.minStay,
-                maxStay: baseRate.maxStay,
-                channel
-              });
-              await calendar.save();
-            }
-
             synced++;
           } catch (error) {
             errors.push({
               channel,
-              error: `Failed to sync rate for ${baseRate.date}: ${(error as Error).message}`
+              error: `Failed to sync rate for ${baseRate.date.toISOString()}: ${(error as Error).message}`
             });
           }
         }
@@ -282,45 +252,18 @@ class RateParityService {
     baseChannel: CalendarChannel
   ): Promise<boolean> {
     try {
-      const baseCalendar = await Calendar.findOne({
-        property: propertyId,
-        room: roomId,
-        channel: baseChannel,
-        date
-      });
+      const baseCalendar = await inventoryRepository.findCalendarEntry(propertyId, roomId, date, baseChannel);
 
-      if (!baseCalendar) {
-        throw createError.notFound('Base channel calendar not found');
+      if (!baseCalendar || baseCalendar.rate === undefined) {
+        throw createError.notFound('Base channel rate not found');
       }
 
-      let targetCalendar = await Calendar.findOne({
-        property: propertyId,
-        room: roomId,
+      await inventoryRepository.updateNights(propertyId, roomId, [date], {
         channel: targetChannel,
-        date
+        rate: baseCalendar.rate,
+        currency: baseCalendar.currency
       });
 
-      if (targetCalendar) {
-        targetCalendar.rate = baseCalendar.rate;
-        targetCalendar.currency = baseCalendar.currency;
-        targetCalendar.minStay = baseCalendar.minStay;
-        targetCalendar.maxStay = baseCalendar.maxStay;
-        await targetCalendar.save();
-      } else {
-        targetCalendar = new Calendar({
-          property: propertyId,
-          room: roomId,
-          date,
-          status: baseCalendar.status,
-          rate: baseCalendar.rate,
-          currency: baseCalendar.currency,
-          minStay: baseCalendar.minStay,
-          maxStay: baseCalendar.maxStay,
-          channel: targetChannel
-        });
-        await targetCalendar.save();
-      }
-
       logger.info(`Synced ${targetChannel} to ${baseChannel} for ${date}`);
       return true;
     } catch (error) {
@@ -0,0 +1,460 @@
+import mongoose from 'mongoose';
+import Booking, {
+  IBooking,
+  IGuestInfo,
+  IGuestCount,
+  BookingStatus,
+  BookingChannel,
+  StatusChangeSource
+} from '../models/Booking';
+import Property from '../models/Property';
+import ReservationGroup, { IReservationGroup, ReservationGroupStatus } from '../models/ReservationGroup';
+import { InventoryRepository, inventoryRepository } from './inventoryRepository';
+import { InventoryReservationService, inventoryReservationService } from './inventoryReservationService';
+import { stayRestrictionService } from './stayRestrictionService';
+import { bookingPricingService } from './bookingPricingService';
+import { bookingStatusService } from './bookingStatusService';
+import { unitAssignmentService } from './unitAssignmentService';
+import { guestProfileService } from './guestProfileService';
+import { bookingEventService } from './bookingEventService';
+import { logger } from '../config/logger';
+import { createError, ErrorDetail } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// One room stay of a group
+export interface IGroupRoomRequest {
+  roomId: ObjectIdLike;
+  checkIn: Date;
+  checkOut: Date;
+  guests: IGuestCount;
+  guestInfo?: IGuestInfo; // Occupant of the room, defaults to the lead guest
+  ratePlanId?: ObjectIdLike;
+  specialRequests?: string[];
+}
+
+// Group reservation request
+export interface IGroupReservationRequest {
+  propertyId: ObjectIdLike;
+  name?: string;
+  leadGuest: IGuestInfo;
+  channel: BookingChannel;
+  status?: BookingStatus.PENDING | BookingStatus.CONFIRMED;
+  rooms: IGroupRoomRequest[];
+  notes?: string;
+}
+
+// Who is booking and which checks apply
+export interface IGroupReservationOptions {
+  userId?: string;
+  enforceRestrictions?: boolean; // Guest-facing bookings obey stay restrictions
+}
+
+// Room stays to check, without guest details
+export type IGroupAvailabilityRequest = Pick<IGroupRoomRequest, 'roomId' | 'checkIn' | 'checkOut'>[];
+
+// A night where the group needs more units than are free
+export interface IGroupShortfall {
+  roomId: string;
+  date: string;
+  requested: number;
+  available: number;
+}
+
+// All-or-nothing availability of a group
+export interface IGroupAvailability {
+  available: boolean;
+  shortfalls: IGroupShortfall[];
+}
+
+// Group with its room bookings
+export interface IGroupReservationResult {
+  group: IReservationGroup;
+  bookings: IBooking[];
+}
+
+// Partial cancellation options
+export interface IGroupCancellationOptions {
+  userId?: string;
+  reason?: string;
+  override?: boolean;
+  waivePenalty?: boolean;
+  source?: StatusChangeSource;
+}
+
+/**
+ * Reservation Group Service
+ *
+ * Books several room stays as one reservation. Every room becomes its own
+ * booking with its own inventory claim, but the group is created all or
+ * nothing: if any room cannot be claimed, the rooms already claimed are
+ * released and nothing is saved. Rooms can later be cancelled one by one;
+ * the group's status and folio total follow its bookings.
+ */
+class ReservationGroupService {
+  /**
+   * Check that every room of the group can be booked at once, counting rooms
+   * of the same type on the same night together
+   */
+  public async checkAvailability(
+    propertyId: ObjectIdLike,
+    rooms: IGroupAvailabilityRequest,
+    channel: string
+  ): Promise<IGroupAvailability> {
+    const demand = new Map<string, { roomId: string; date: Date; requested: number }>();
+
+    for (const room of rooms) {
+      for (const date of InventoryReservationService.getStayDates(room.checkIn, room.checkOut)) {
+        const key = `${room.roomId.toString()}|${date.getTime()}`;
+        const entry = demand.get(key) ?? { roomId: room.roomId.toString(), date, requested: 0 };
+        entry.requested++;
+        demand.set(key, entry);
+      }
+    }
+
+    const shortfalls: IGroupShortfall[] = [];
+
+    for (const { roomId, date, requested } of demand.values()) {
+      const night = await inventoryRepository.findNight(propertyId, roomId, date);
+      const available = night ? night.getAvailableForChannel(channel.toLowerCase()) : 0;
+
+      if (available < requested) {
+        shortfalls.push({ roomId, date: date.toISOString().split('T')[0], requested, available });
+      }
+    }
+
+    return { available: shortfalls.length === 0, shortfalls };
+  }
+
+  /**
+   * Book every room of a group, or none of them
+   */
+  public async createGroup(
+    request: IGroupReservationRequest,
+    options: IGroupReservationOptions = {}
+  ): Promise<IGroupReservationResult> {
+    if (request.rooms.length === 0) {
+      throw createError.validation('A group reservation needs at least one room');
+    }
+
+    await this.validateRooms(request);
+
+    if (options.enforceRestrictions) {
+      for (const room of request.rooms) {
+        await stayRestrictionService.assertStayAllowed(
+          request.propertyId,
+          room.roomId,
+          room.checkIn,
+          room.checkOut,
+          request.channel
+        );
+      }
+    }
+
+    const availability = await this.checkAvailability(request.propertyId, request.rooms, request.channel);
+    if (!availability.available) {
+      throw createError.conflict('Not every room of the group is available', this.toErrorDetails(availability.shortfalls));
+    }
+
+    const groupId = new mongoose.Types.ObjectId();
+    const confirmationCode = this.generateConfirmationCode();
+    const createdBy = options.userId ? new mongoose.Types.ObjectId(options.userId) : undefined;
+    const bookings: IBooking[] = [];
+
+    for (const [index, room] of request.rooms.entries()) {
+      const price = await bookingPricingService.priceStay({
+        propertyId: request.propertyId,
+        roomId: room.roomId,
+        checkIn: room.checkIn,
+        checkOut: room.checkOut,
+        channel: request.channel,
+        adults: room.guests.adults,
+        children: room.guests.children,
+        infants: room.guests.infants,
+        ratePlanId: room.ratePlanId
+      });
+
+      const booking = new Booking({
+        property: request.propertyId,
+        room: room.roomId,
+        group: groupId,
+        guestInfo: room.guestInfo ?? request.leadGuest,
+        checkIn: room.checkIn,
+        checkOut: room.checkOut,
+        guests: room.guests,
+        status: request.status ?? BookingStatus.CONFIRMED,
+        channel: request.channel,
+        channelConfirmationCode: `${confirmationCode}-${index + 1}`,
+        ratePlan: price.ratePlan,
+        pricing: price.pricing,
+        specialRequests: room.specialRequests ?? [],
+        createdBy
+      });
+
+      await booking.validate();
+      bookings.push(booking);
+    }
+
+    // The pre-check can race with other bookings; the claims themselves decide
+    const reserved: IBooking[] = [];
+    try {
+      for (const booking of bookings) {
+        await inventoryReservationService.reserve({
+          propertyId: booking.property,
+          roomId: booking.room,
+          checkIn: booking.checkIn,
+          checkOut: booking.checkOut,
+          bookingId: booking._id,
+          channel: booking.channel,
+          guestName: `${booking.guestInfo.firstName} ${booking.guestInfo.lastName}`
+        });
+        reserved.push(booking);
+      }
+    } catch (error) {
+      await this.releaseBookings(reserved);
+      throw error;
+    }
+
+    const group = new ReservationGroup({
+      _id: groupId,
+      property: request.propertyId,
+      name: request.name,
+      confirmationCode,
+      leadGuest: {
+        firstName: request.leadGuest.firstName,
+        lastName: request.leadGuest.lastName,
+        email: request.leadGuest.email,
+        phone: request.leadGuest.phone
+      },
+      channel: request.channel,
+      bookings: bookings.map(booking => booking._id),
+      folio: this.buildFolio(bookings),
+      notes: request.notes,
+      createdBy
+    });
+
+    try {
+      for (const booking of bookings) {
+        await booking.save();
+      }
+      await group.save();
+    } catch (error) {
+      await this.releaseBookings(bookings);
+      await Booking.deleteMany({ _id: { $in: bookings.map(booking => booking._id) } });
+      throw error;
+    }
+
+    for (const booking of bookings) {
+      await unitAssignmentService.tryAssignBooking(booking);
+      await guestProfileService.tryAttachBooking(booking);
+    }
+
+    logger.info(`Reservation group ${confirmationCode} created with ${bookings.length} rooms by ${options.userId ?? 'guest'}`);
+
+    return { group, bookings };
+  }
+
+  /**
+   * Get a group with its room bookings
+   */
+  public async getGroup(groupId: ObjectIdLike): Promise<IGroupReservationResult> {
+    const group = await ReservationGroup.findById(groupId);
+    if (!group) {
+      throw createError.notFound('Reservation group not found');
+    }
+
+    return { group, bookings: await this.getBookings(group) };
+  }
+
+  /**
+   * Get a group by its confirmation code
+   */
+  public async getGroupByConfirmationCode(confirmationCode: string): Promise<IGroupReservationResult> {
+    const group = await ReservationGroup.findOne({ confirmationCode });
+    if (!group) {
+      throw createError.notFound('Reservation group not found');
+    }
+
+    return { group, bookings: await this.getBookings(group) };
+  }
+
+  /**
+   * Cancel some rooms of a group, or every room still active when none are given
+   */
+  public async cancelRooms(
+    groupId: ObjectIdLike,
+    bookingIds: ObjectIdLike[] | undefined,
+    options: IGroupCancellationOptions = {}
+  ): Promise<IGroupReservationResult> {
+    const { group, bookings } = await this.getGroup(groupId);
+
+    const toCancel = bookingIds?.length
+      ? bookingIds.map(id => {
+        const booking = bookings.find(b => b._id.equals(id.toString()));
+        if (!booking) {
+          throw createError.validation(`Booking ${id.toString()} is not part of this group`);
+        }
+        return booking;
+      })
+      : bookings.filter(booking => booking.canTransitionTo(BookingStatus.CANCELLED));
+
+    if (toCancel.length === 0) {
+      throw createError.statusTransition('No room of the group can be cancelled');
+    }
+
+    // Refuse the whole request if any room is already past cancelling
+    const blocked = toCancel.filter(booking => !booking.canTransitionTo(BookingStatus.CANCELLED));
+    if (blocked.length > 0) {
+      throw createError.statusTransition(
+        'Some rooms cannot be cancelled',
+        blocked.map(booking => ({ field: 'bookings', message: `Booking is ${booking.status}`, value: booking._id.toString() }))
+      );
+    }
+
+    for (const booking of toCancel) {
+      booking.cancellationReason = options.reason;
+      await bookingStatusService.transition(booking, BookingStatus.CANCELLED, {
+        userId: options.userId,
+        reason: options.reason,
+        override: options.override,
+        waivePenalty: options.waivePenalty,
+        source: options.source
+      });
+    }
+
+    await this.refreshGroup(group, bookings);
+
+    logger.info(`Cancelled ${toCancel.length} rooms of reservation group ${group.confirmationCode}`);
+
+    return { group, bookings };
+  }
+
+  /**
+   * Recalculate a group's status and folio from its bookings
+   */
+  public async refreshGroup(groupOrId: IReservationGroup | ObjectIdLike, bookings?: IBooking[]): Promise<IReservationGroup | null> {
+    const group = groupOrId instanceof ReservationGroup ? groupOrId : await ReservationGroup.findById(groupOrId);
+    if (!group) {
+      return null;
+    }
+
+    const current = bookings ?? await this.getBookings(group);
+    const cancelled = current.filter(booking => booking.status === BookingStatus.CANCELLED).length;
+
+    group.status = cancelled === 0
+      ? ReservationGroupStatus.ACTIVE
+      : cancelled === current.length ? ReservationGroupStatus.CANCELLED : ReservationGroupStatus.PARTIALLY_CANCELLED;
+    group.folio = this.buildFolio(current);
+    await group.save();
+
+    return group;
+  }
+
+  /**
+   * Keep group status and folio in step with changes made to single rooms
+   * through the booking endpoints
+   */
+  public subscribeToBookingEvents(): void {
+    bookingEventService.onStatusChanged(async event => {
+      if (event.groupId) {
+        await this.refreshGroup(event.groupId);
+      }
+    });
+
+    bookingEventService.onModified(async event => {
+      const booking = await Booking.findById(event.bookingId).select('group');
+      if (booking?.group) {
+        await this.refreshGroup(booking.group);
+      }
+    });
+  }
+
+  private async validateRooms(request: IGroupReservationRequest): Promise<void> {
+    const property = await Property.findById(request.propertyId).select('rooms');
+    if (!property) {
+      throw createError.notFound('Property not found');
+    }
+
+    const today = InventoryRepository.normalizeDate(new Date());
+    const errors: ErrorDetail[] = [];
+
+    request.rooms.forEach((stay, index) => {
+      const room = property.rooms.find(r => r._id.toString() === stay.roomId.toString());
+      const field = `rooms.${index}`;
+
+      if (!room || !room.isActive) {
+        errors.push({ field, message: 'Room is not available for booking', value: stay.roomId.toString() });
+        return;
+      }
+      if (stay.checkOut <= stay.checkIn) {
+        errors.push({ field, message: 'Check-out date must be after check-in date' });
+      }
+      if (InventoryRepository.normalizeDate(stay.checkIn) < today) {
+        errors.push({ field, message: 'Check-in date cannot be in the past' });
+      }
+      if (
+        stay.guests.adults > room.capacity.adults ||
+        stay.guests.children > room.capacity.children ||
+        stay.guests.infants > room.capacity.infants
+      ) {
+        errors.push({ field, message: `Room ${room.name} cannot accommodate the requested guests` });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw createError.validation(errors[0].message, errors);
+    }
+  }
+
+  private async getBookings(group: IReservationGroup): Promise<IBooking[]> {
+    return Booking.find({ group: group._id }).sort({ checkIn: 1, createdAt: 1 });
+  }
+
+  private async releaseBookings(bookings: IBooking[]): Promise<void> {
+    for (const booking of bookings) {
+      try {
+        await inventoryReservationService.release({
+          propertyId: booking.property,
+          roomId: booking.room,
+          checkIn: booking.checkIn,
+          checkOut: booking.checkOut,
+          bookingId: booking._id
+        });
+      } catch (error) {
+        logger.error(`Could not release inventory for group booking ${booking._id.toString()}:`, error);
+      }
+    }
+  }
+
+  // Cancelled rooms drop out of the bill
+  private buildFolio(bookings: IBooking[]): { currency: string; total: number } {
+    // Cancelled rooms still bill their cancellation penalty
+    const total = bookings.reduce((sum, booking) => sum + (booking.status === BookingStatus.CANCELLED
+      ? booking.cancellationCharge?.penalty ?? 0
+      : booking.pricing.total), 0);
+
+    return {
+      currency: bookings[0]?.pricing.currency ?? 'USD',
+      total: Math.round(total * 100) / 100
+    };
+  }
+
+  private toErrorDetails(shortfalls: IGroupShortfall[]): ErrorDetail[] {
+    return shortfalls.map(shortfall => ({
+      field: 'rooms',
+      message: `Only ${shortfall.available} of ${shortfall.requested} rooms available on ${shortfall.date}`,
+      ...shortfall
+    }));
+  }
+
+  private generateConfirmationCode(): string {
+    const timestamp = Date.now().toString().slice(-7);
+    const random = Math.random().toString(36).substring(2, 5).toUpperCase();
+    return `GRP-${timestamp}${random}`;
+  }
+}
+
+// Singleton instance
+export const reservationGroupService = new ReservationGroupService();
+export { ReservationGroupService };
+export default reservationGroupService;
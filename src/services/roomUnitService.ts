@@ -0,0 +1,323 @@
+import mongoose from 'mongoose';
+import Property from '../models/Property';
+import RoomAvailability from '../models/RoomAvailability';
+import RoomUnit, { IRoomUnit, UnitStatus } from '../models/RoomUnit';
+import UnitAssignment from '../models/UnitAssignment';
+import { BlockReason } from '../models/Calendar';
+import { InventoryRepository } from './inventoryRepository';
+import { InventoryReservationService } from './inventoryReservationService';
+import { inventoryEventService } from './inventoryEventService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// New unit
+export interface ICreateUnitRequest {
+  number: string;
+  floor?: number;
+  notes?: string;
+}
+
+// Unit changes
+export interface IUpdateUnitRequest {
+  number?: string;
+  floor?: number;
+  notes?: string;
+  status?: UnitStatus;
+}
+
+// Out-of-service request (end date exclusive)
+export interface IOutOfServiceRequest {
+  startDate: Date;
+  endDate: Date;
+  reason?: BlockReason;
+  description?: string;
+  userId?: string;
+}
+
+// Nights left with more sold units than in-service units
+export interface IOversoldNight {
+  date: Date;
+  totalRooms: number;
+  blockedRooms: number;
+  bookedRooms: number;
+}
+
+/**
+ * Room Unit Service
+ *
+ * Manages the physical units of each room type and keeps the pooled
+ * RoomAvailability counts derived from them:
+ * - totalRooms is the number of active units (from today on)
+ * - blockedRooms is the number of active units out of service that night
+ *
+ * Both counts are changed with pipeline updates that shift availableRooms by
+ * the same delta, so concurrent reservations are never overwritten. Room
+ * types without units keep their manually managed totalRooms.
+ */
+class RoomUnitService {
+  /**
+   * List units of a property, optionally for one room type
+   */
+  public async listUnits(propertyId: ObjectIdLike, roomId?: ObjectIdLike): Promise<IRoomUnit[]> {
+    const filter: Record<string, unknown> = { property: this.toObjectId(propertyId) };
+    if (roomId) filter['room'] = this.toObjectId(roomId);
+
+    return RoomUnit.find(filter).sort({ floor: 1, number: 1 });
+  }
+
+  /**
+   * Get a unit of a property
+   */
+  public async getUnit(propertyId: ObjectIdLike, unitId: ObjectIdLike): Promise<IRoomUnit> {
+    const unit = await RoomUnit.findOne({ _id: this.toObjectId(unitId), property: this.toObjectId(propertyId) });
+
+    if (!unit) {
+      throw createError.notFound('Unit not found');
+    }
+
+    return unit;
+  }
+
+  /**
+   * Add a unit to a room type
+   */
+  public async createUnit(propertyId: ObjectIdLike, roomId: ObjectIdLike, request: ICreateUnitRequest): Promise<IRoomUnit> {
+    const property = await Property.findById(propertyId).select('rooms');
+    if (!property?.rooms.some(room => room._id.toString() === roomId.toString())) {
+      throw createError.notFound('Room type not found on property');
+    }
+
+    const existing = await RoomUnit.exists({ property: property._id, number: request.number });
+    if (existing) {
+      throw createError.duplicate(`Unit ${request.number} already exists on this property`);
+    }
+
+    const unit = await RoomUnit.create({
+      property: property._id,
+      room: this.toObjectId(roomId),
+      number: request.number,
+      floor: request.floor,
+      notes: request.notes
+    });
+
+    await this.syncTotalRooms(unit.property, unit.room);
+
+    logger.info(`Unit ${unit.number} added to room type ${unit.room.toString()}`);
+
+    return unit;
+  }
+
+  /**
+   * Update a unit; deactivating it requires it to have no upcoming assignments
+   */
+  public async updateUnit(propertyId: ObjectIdLike, unitId: ObjectIdLike, request: IUpdateUnitRequest): Promise<IRoomUnit> {
+    const unit = await this.getUnit(propertyId, unitId);
+    const statusChanged = request.status !== undefined && request.status !== unit.status;
+
+    if (request.number && request.number !== unit.number) {
+      const existing = await RoomUnit.exists({ property: unit.property, number: request.number, _id: { $ne: unit._id } });
+      if (existing) {
+        throw createError.duplicate(`Unit ${request.number} already exists on this property`);
+      }
+      unit.number = request.number;
+    }
+
+    if (statusChanged && request.status === UnitStatus.INACTIVE) {
+      const today = InventoryRepository.normalizeDate(new Date());
+      const upcoming = await UnitAssignment.countDocuments({ unit: unit._id, endDate: { $gt: today } });
+      if (upcoming > 0) {
+        throw createError.conflict(`Unit ${unit.number} has ${upcoming} upcoming assignments - move them first`);
+      }
+    }
+
+    if (request.floor !== undefined) unit.floor = request.floor;
+    if (request.notes !== undefined) unit.notes = request.notes;
+    if (request.status !== undefined) unit.status = request.status;
+
+    await unit.save();
+
+    if (statusChanged) {
+      await this.syncTotalRooms(unit.property, unit.room);
+      for (const period of unit.outOfService) {
+        await this.syncBlockedRooms(unit.property, unit.room, period.startDate, period.endDate);
+      }
+    }
+
+    return unit;
+  }
+
+  /**
+   * Take a unit out of service; bookings assigned to it in the period must be moved first
+   */
+  public async addOutOfService(
+    propertyId: ObjectIdLike,
+    unitId: ObjectIdLike,
+    request: IOutOfServiceRequest
+  ): Promise<{ unit: IRoomUnit; oversoldNights: IOversoldNight[] }> {
+    const startDate = InventoryRepository.normalizeDate(request.startDate);
+    const endDate = InventoryRepository.normalizeDate(request.endDate);
+
+    if (endDate <= startDate) {
+      throw createError.validation('End date must be after start date');
+    }
+
+    const unit = await this.getUnit(propertyId, unitId);
+
+    if (unit.overlapsOutOfService(startDate, endDate)) {
+      throw createError.conflict(`Unit ${unit.number} is already out of service in this period`);
+    }
+
+    const assignments = await UnitAssignment.find({
+      unit: unit._id,
+      startDate: { $lt: endDate },
+      endDate: { $gt: startDate }
+    }).select('booking');
+
+    if (assignments.length > 0) {
+      throw createError.conflict(
+        `Unit ${unit.number} is assigned to bookings in this period - move them first`,
+        assignments.map(assignment => ({
+          field: 'booking',
+          message: 'Booking assigned to this unit',
+          value: assignment.booking.toString()
+        }))
+      );
+    }
+
+    unit.outOfService.push({
+      startDate,
+      endDate,
+      reason: request.reason ?? BlockReason.MAINTENANCE,
+      description: request.description,
+      createdBy: request.userId ? this.toObjectId(request.userId) : undefined
+    } as never);
+    await unit.save();
+
+    const oversoldNights = await this.syncBlockedRooms(unit.property, unit.room, startDate, endDate);
+
+    if (oversoldNights.length > 0) {
+      logger.warn(`Taking unit ${unit.number} out of service oversells ${oversoldNights.length} nights`);
+    }
+
+    return { unit, oversoldNights };
+  }
+
+  /**
+   * Return a unit to service for a previously recorded period
+   */
+  public async removeOutOfService(propertyId: ObjectIdLike, unitId: ObjectIdLike, periodId: ObjectIdLike): Promise<IRoomUnit> {
+    const unit = await this.getUnit(propertyId, unitId);
+    const period = unit.outOfService.find(p => p._id.toString() === periodId.toString());
+
+    if (!period) {
+      throw createError.notFound('Out-of-service period not found');
+    }
+
+    unit.outOfService = unit.outOfService.filter(p => p._id.toString() !== periodId.toString());
+    await unit.save();
+
+    await this.syncBlockedRooms(unit.property, unit.room, period.startDate, period.endDate);
+
+    return unit;
+  }
+
+  /**
+   * Set totalRooms on upcoming nights to the number of active units
+   */
+  public async syncTotalRooms(propertyId: ObjectIdLike, roomId: ObjectIdLike): Promise<void> {
+    const property = this.toObjectId(propertyId);
+    const room = this.toObjectId(roomId);
+
+    const units = await RoomUnit.countDocuments({ property, room });
+    if (units === 0) {
+      return;
+    }
+
+    const activeUnits = await RoomUnit.countDocuments({ property, room, status: UnitStatus.ACTIVE });
+    const today = InventoryRepository.normalizeDate(new Date());
+    const filter = { property, room, date: { $gte: today }, totalRooms: { $ne: activeUnits } };
+    const dates = await RoomAvailability.find(filter).distinct<Date>('date');
+
+    await RoomAvailability.updateMany(
+      filter,
+      [{
+        $set: {
+          availableRooms: { $add: ['$availableRooms', { $subtract: [activeUnits, '$totalRooms'] }] },
+          totalRooms: activeUnits
+        }
+      }]
+    );
+
+    this.publishChange(property, room, dates);
+  }
+
+  /**
+   * Derive blockedRooms from out-of-service units for every night in the range
+   */
+  public async syncBlockedRooms(
+    propertyId: ObjectIdLike,
+    roomId: ObjectIdLike,
+    startDate: Date,
+    endDate: Date
+  ): Promise<IOversoldNight[]> {
+    const property = this.toObjectId(propertyId);
+    const room = this.toObjectId(roomId);
+    const units = await RoomUnit.find({ property, room, status: UnitStatus.ACTIVE });
+    const oversoldNights: IOversoldNight[] = [];
+    const dates = InventoryReservationService.getStayDates(startDate, endDate);
+
+    for (const date of dates) {
+      const blockedRooms = units.filter(unit => unit.isOutOfService(date)).length;
+      const filter = { property, room, date };
+
+      // Nights not loaded yet start from the unit count
+      await RoomAvailability.updateOne(
+        filter,
+        { $setOnInsert: { totalRooms: units.length, availableRooms: units.length } },
+        { upsert: true }
+      );
+
+      const night = await RoomAvailability.findOneAndUpdate(
+        filter,
+        [{
+          $set: {
+            availableRooms: {
+              $add: ['$availableRooms', { $subtract: [{ $ifNull: ['$blockedRooms', 0] }, blockedRooms] }]
+            },
+            blockedRooms
+          }
+        }],
+        { new: true }
+      );
+
+      if (night && night.availableRooms < 0) {
+        oversoldNights.push({
+          date,
+          totalRooms: night.totalRooms,
+          blockedRooms: night.blockedRooms,
+          bookedRooms: night.bookedRooms.length
+        });
+      }
+    }
+
+    this.publishChange(property, room, dates);
+
+    return oversoldNights;
+  }
+
+  // Unit changes move availability on every channel
+  private publishChange(propertyId: mongoose.Types.ObjectId, roomId: mongoose.Types.ObjectId, dates: Date[]): void {
+    inventoryEventService.emitChanged({ propertyId, roomId, dates, availability: true, rates: false });
+  }
+
+  private toObjectId(id: ObjectIdLike): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+}
+
+// Singleton instance
+export const roomUnitService = new RoomUnitService();
+export { RoomUnitService };
+export default roomUnitService;
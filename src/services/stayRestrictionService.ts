@@ -0,0 +1,204 @@
+import mongoose from 'mongoose';
+import { IRoomAvailability } from '../models/RoomAvailability';
+import { inventoryRepository, InventoryRepository } from './inventoryRepository';
+import { InventoryReservationService } from './inventoryReservationService';
+import { createError } from '../utils/errors';
+
+// Restriction rejection codes
+export enum RestrictionCode {
+  CLOSED_TO_ARRIVAL = 'CLOSED_TO_ARRIVAL',
+  CLOSED_TO_DEPARTURE = 'CLOSED_TO_DEPARTURE',
+  MIN_STAY_ARRIVAL = 'MIN_STAY_ARRIVAL',
+  MIN_STAY_THROUGH = 'MIN_STAY_THROUGH',
+  MAX_STAY = 'MAX_STAY',
+  MIN_ADVANCE = 'MIN_ADVANCE',
+  MAX_ADVANCE = 'MAX_ADVANCE'
+}
+
+// A restriction the stay breaks
+export interface IRestrictionViolation {
+  code: RestrictionCode;
+  date: string;
+  message: string;
+  required?: number;
+  actual?: number;
+}
+
+// Stay to evaluate against loaded nights
+export interface IStayRestrictionCheck {
+  checkIn: Date;
+  checkOut: Date;
+  channel: string;
+  nights: IRoomAvailability[]; // Stay nights, plus the departure date when loaded
+  bookedAt?: Date;
+}
+
+/**
+ * Stay Restriction Service
+ *
+ * Evaluates CTA/CTD, min-stay-arrival, min-stay-through, max stay and
+ * min/max advance restrictions for a stay on a channel. Every availability
+ * check uses this service so they reject the same stays for the same reasons.
+ */
+class StayRestrictionService {
+  /**
+   * Load the stay's nights and return every restriction it breaks
+   */
+  public async checkStay(
+    propertyId: string | mongoose.Types.ObjectId,
+    roomId: string | mongoose.Types.ObjectId,
+    checkIn: Date,
+    checkOut: Date,
+    channel: string
+  ): Promise<IRestrictionViolation[]> {
+    const nights = await inventoryRepository.findNights({
+      propertyId,
+      roomId,
+      date: {
+        $gte: InventoryRepository.normalizeDate(checkIn),
+        $lte: InventoryRepository.normalizeDate(checkOut)
+      }
+    });
+
+    return this.evaluate({ checkIn, checkOut, channel, nights });
+  }
+
+  /**
+   * Reject the stay with every broken restriction as error details
+   */
+  public async assertStayAllowed(
+    propertyId: string | mongoose.Types.ObjectId,
+    roomId: string | mongoose.Types.ObjectId,
+    checkIn: Date,
+    checkOut: Date,
+    channel: string
+  ): Promise<void> {
+    const violations = await this.checkStay(propertyId, roomId, checkIn, checkOut, channel);
+
+    if (violations.length > 0) {
+      throw createError.booking(
+        violations[0].message,
+        violations.map(violation => ({ ...violation }))
+      );
+    }
+  }
+
+  /**
+   * Evaluate restrictions against already loaded nights
+   */
+  public evaluate(check: IStayRestrictionCheck): IRestrictionViolation[] {
+    const channel = check.channel.toLowerCase();
+    const stayDates = InventoryReservationService.getStayDates(check.checkIn, check.checkOut);
+    const lengthOfStay = stayDates.length;
+    const arrival = InventoryRepository.normalizeDate(check.checkIn);
+    const departure = InventoryRepository.normalizeDate(check.checkOut);
+    const findNight = (date: Date): IRoomAvailability | undefined =>
+      check.nights.find(night => night.date.getTime() === date.getTime());
+
+    const violations: IRestrictionViolation[] = [];
+
+    // Arrival date restrictions
+    const arrivalNight = findNight(arrival);
+    if (arrivalNight) {
+      const restrictions = arrivalNight.getRestrictionsForChannel(channel);
+      const arrivalDate = this.formatDate(arrival);
+
+      if (restrictions.closedToArrival) {
+        violations.push({
+          code: RestrictionCode.CLOSED_TO_ARRIVAL,
+          date: arrivalDate,
+          message: `Arrivals are not allowed on ${arrivalDate}`
+        });
+      }
+
+      if (restrictions.minStayArrival && lengthOfStay < restrictions.minStayArrival) {
+        violations.push({
+          code: RestrictionCode.MIN_STAY_ARRIVAL,
+          date: arrivalDate,
+          message: `Stays arriving on ${arrivalDate} require at least ${restrictions.minStayArrival} nights`,
+          required: restrictions.minStayArrival,
+          actual: lengthOfStay
+        });
+      }
+
+      const daysInAdvance = Math.round(
+        (arrival.getTime() - InventoryRepository.normalizeDate(check.bookedAt ?? new Date()).getTime()) / 86400000
+      );
+
+      if (restrictions.minAdvanceDays !== undefined && daysInAdvance < restrictions.minAdvanceDays) {
+        violations.push({
+          code: RestrictionCode.MIN_ADVANCE,
+          date: arrivalDate,
+          message: `Arrivals on ${arrivalDate} must be booked at least ${restrictions.minAdvanceDays} days in advance`,
+          required: restrictions.minAdvanceDays,
+          actual: daysInAdvance
+        });
+      }
+
+      if (restrictions.maxAdvanceDays !== undefined && daysInAdvance > restrictions.maxAdvanceDays) {
+        violations.push({
+          code: RestrictionCode.MAX_ADVANCE,
+          date: arrivalDate,
+          message: `Arrivals on ${arrivalDate} cannot be booked more than ${restrictions.maxAdvanceDays} days in advance`,
+          required: restrictions.maxAdvanceDays,
+          actual: daysInAdvance
+        });
+      }
+    }
+
+    // Restrictions on every night of the stay
+    for (const date of stayDates) {
+      const night = findNight(date);
+      if (!night) {
+        continue;
+      }
+
+      const restrictions = night.getRestrictionsForChannel(channel);
+      const nightDate = this.formatDate(date);
+
+      if (restrictions.minStayThrough && lengthOfStay < restrictions.minStayThrough) {
+        violations.push({
+          code: RestrictionCode.MIN_STAY_THROUGH,
+          date: nightDate,
+          message: `Stays including ${nightDate} require at least ${restrictions.minStayThrough} nights`,
+          required: restrictions.minStayThrough,
+          actual: lengthOfStay
+        });
+      }
+
+      if (restrictions.maxStay && lengthOfStay > restrictions.maxStay) {
+        violations.push({
+          code: RestrictionCode.MAX_STAY,
+          date: nightDate,
+          message: `Stays including ${nightDate} allow at most ${restrictions.maxStay} nights`,
+          required: restrictions.maxStay,
+          actual: lengthOfStay
+        });
+      }
+    }
+
+    // Departure date restrictions (the departure date is not a stay night)
+    const departureNight = findNight(departure);
+    if (departureNight?.getRestrictionsForChannel(channel).closedToDeparture) {
+      const departureDate = this.formatDate(departure);
+      violations.push({
+        code: RestrictionCode.CLOSED_TO_DEPARTURE,
+        date: departureDate,
+        message: `Departures are not allowed on ${departureDate}`
+      });
+    }
+
+    return violations;
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
+
+// Singleton instance
+export const stayRestrictionService = new StayRestrictionService();
+export { StayRestrictionService };
+export default stayRestrictionService;
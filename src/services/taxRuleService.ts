@@ -0,0 +1,392 @@
+import mongoose from 'mongoose';
+import Property from '../models/Property';
+import { IBooking, IGuestCount, IPricing } from '../models/Booking';
+import RatePlan, { IRatePlan } from '../models/RatePlan';
+import TaxRule, {
+  ITaxRule,
+  ITaxRegion,
+  TaxRuleCalculation,
+  TaxRuleCategory,
+  TaxRuleKind
+} from '../models/TaxRule';
+import { InventoryRepository } from './inventoryRepository';
+import { InventoryReservationService } from './inventoryReservationService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// New or changed rule
+export interface ITaxRuleRequest {
+  name: string;
+  region?: ITaxRegion;
+  kind?: TaxRuleKind;
+  category: TaxRuleCategory;
+  calculation: TaxRuleCalculation;
+  amount: number;
+  currency?: string;
+  inclusive?: boolean;
+  maxNights?: number;
+  exemptChildren?: boolean;
+  exemptFromNights?: number;
+  validFrom?: Date;
+  validTo?: Date;
+  active?: boolean;
+}
+
+// Stay to levy taxes and fees on
+export interface ITaxStay {
+  propertyId: ObjectIdLike;
+  checkIn: Date;
+  checkOut: Date;
+  guests: Pick<IGuestCount, 'adults'> & Partial<IGuestCount>;
+  roomTotal: number; // Room rate for the whole stay, as sold
+  currency: string;
+  discounts?: number;
+  ratePlan?: Pick<IRatePlan, 'includesTaxes' | 'includesFees'> | null;
+}
+
+// One rule's share of the price
+export interface ITaxLine {
+  rule: mongoose.Types.ObjectId;
+  name: string;
+  kind: TaxRuleKind;
+  category: TaxRuleCategory;
+  calculation: TaxRuleCalculation;
+  inclusive: boolean;
+  amount: number;
+}
+
+// Itemised price of a stay
+export interface ITaxCalculation {
+  lines: ITaxLine[];
+  pricing: IPricing;
+}
+
+// More specific rules replace broader ones of the same category
+const SPECIFICITY = {
+  property: 3,
+  city: 2,
+  state: 1,
+  country: 0
+};
+
+/**
+ * Tax Rule Service
+ *
+ * Manages the tax and fee rules of properties and regions and levies them on
+ * stays. The rules applying to a property are its own and those of the
+ * regions its address lies in; for each category (or named other fee) only
+ * the most specific level counts, so a property's own city tax replaces the
+ * city's, which replaces the country's.
+ *
+ * Percentages are taken of the room rate net of every inclusive amount.
+ * Inclusive amounts (rules marked inclusive, or every tax or fee of a rate
+ * plan that includes them) are carved out of the room rate instead of being
+ * added, so the total of an all-inclusive rate is the rate itself.
+ */
+class TaxRuleService {
+  /**
+   * List the rules of a property, or the region rules when no property is given
+   */
+  public async listRules(propertyId?: ObjectIdLike): Promise<ITaxRule[]> {
+    const filter = propertyId
+      ? { property: this.toObjectId(propertyId) }
+      : { property: { $exists: false } };
+
+    return TaxRule.find(filter).sort({ 'region.country': 1, 'region.state': 1, 'region.city': 1, name: 1 });
+  }
+
+  /**
+   * Get a rule of a property, or a region rule when no property is given
+   */
+  public async getRule(ruleId: ObjectIdLike, propertyId?: ObjectIdLike): Promise<ITaxRule> {
+    const rule = await TaxRule.findOne({
+      _id: this.toObjectId(ruleId),
+      property: propertyId ? this.toObjectId(propertyId) : { $exists: false }
+    });
+
+    if (!rule) {
+      throw createError.notFound('Tax rule not found');
+    }
+
+    return rule;
+  }
+
+  /**
+   * Add a rule to a property, or a region rule when no property is given
+   */
+  public async createRule(request: ITaxRuleRequest, propertyId?: ObjectIdLike, userId?: string): Promise<ITaxRule> {
+    if (propertyId) {
+      const exists = await Property.exists({ _id: this.toObjectId(propertyId) });
+      if (!exists) {
+        throw createError.notFound('Property not found');
+      }
+    }
+
+    const rule = new TaxRule({
+      ...request,
+      property: propertyId ? this.toObjectId(propertyId) : undefined,
+      region: propertyId ? undefined : request.region,
+      createdBy: userId ? this.toObjectId(userId) : undefined
+    });
+
+    this.assertCompleteRule(rule);
+    await rule.save();
+
+    logger.info(`Tax rule ${rule.name} added to ${propertyId ? `property ${propertyId.toString()}` : this.describeRegion(rule.region)}`);
+
+    return rule;
+  }
+
+  /**
+   * Change a rule; its property or region stays the same
+   */
+  public async updateRule(ruleId: ObjectIdLike, request: Partial<ITaxRuleRequest>, propertyId?: ObjectIdLike): Promise<ITaxRule> {
+    const rule = await this.getRule(ruleId, propertyId);
+    const { region, ...changes } = request;
+
+    rule.set(changes);
+    if (!propertyId && region) {
+      rule.region = region;
+    }
+
+    this.assertCompleteRule(rule);
+    await rule.save();
+
+    return rule;
+  }
+
+  /**
+   * Delete a rule; bookings keep the amounts already levied
+   */
+  public async deleteRule(ruleId: ObjectIdLike, propertyId?: ObjectIdLike): Promise<void> {
+    const rule = await this.getRule(ruleId, propertyId);
+    await rule.deleteOne();
+  }
+
+  /**
+   * Rules in force at a property for a check-in date, most specific level per category
+   */
+  public async getApplicableRules(propertyId: ObjectIdLike, date: Date): Promise<ITaxRule[]> {
+    const property = await Property.findById(propertyId).select('address');
+    if (!property) {
+      throw createError.notFound('Property not found');
+    }
+
+    const { country, state, city } = property.address;
+    const candidates = await TaxRule.find({
+      active: true,
+      $or: [
+        { property: property._id },
+        { 'region.country': this.matchName(country) }
+      ]
+    }).sort({ createdAt: 1, _id: 1 });
+
+    const levels = new Map<string, number>();
+    const applicable: Array<{ rule: ITaxRule; key: string; level: number }> = [];
+
+    for (const rule of candidates) {
+      const level = this.getSpecificity(rule, { country, state, city });
+      if (level === null || !rule.isValidOn(date)) {
+        continue;
+      }
+
+      const key = rule.category === TaxRuleCategory.OTHER ? `${rule.category}:${rule.name.toLowerCase()}` : rule.category;
+      levels.set(key, Math.max(levels.get(key) ?? level, level));
+      applicable.push({ rule, key, level });
+    }
+
+    return applicable.filter(entry => entry.level === levels.get(entry.key)).map(entry => entry.rule);
+  }
+
+  /**
+   * Levy the applicable taxes and fees on a stay
+   */
+  public async calculate(stay: ITaxStay): Promise<ITaxCalculation> {
+    const checkIn = InventoryRepository.normalizeDate(stay.checkIn);
+    const nights = InventoryReservationService.getStayDates(checkIn, InventoryRepository.normalizeDate(stay.checkOut)).length;
+    const rules = await this.getApplicableRules(stay.propertyId, checkIn);
+
+    const levied = rules
+      .filter(rule => !rule.exemptFromNights || nights < rule.exemptFromNights)
+      .filter(rule => {
+        const matches = rule.calculation === TaxRuleCalculation.PERCENTAGE || !rule.currency || rule.currency === stay.currency;
+        if (!matches) {
+          logger.warn(`Tax rule ${rule.name} is in ${rule.currency ?? ''} and was not applied to a stay priced in ${stay.currency}`);
+        }
+        return matches;
+      })
+      .map(rule => ({ rule, inclusive: this.isInclusive(rule, stay.ratePlan) }));
+
+    // Inclusive amounts come out of the room rate before percentages are taken of it
+    const inclusive = levied.filter(entry => entry.inclusive);
+    const inclusiveFixed = inclusive
+      .filter(entry => entry.rule.calculation !== TaxRuleCalculation.PERCENTAGE)
+      .reduce((sum, entry) => sum + this.fixedAmount(entry.rule, nights, stay.guests), 0);
+    const inclusivePercent = inclusive
+      .filter(entry => entry.rule.calculation === TaxRuleCalculation.PERCENTAGE)
+      .reduce((sum, entry) => sum + this.percentOfStay(entry.rule, nights), 0);
+    const netRate = Math.max(0, stay.roomTotal - inclusiveFixed) / (1 + inclusivePercent);
+
+    const lines: ITaxLine[] = levied.map(({ rule, inclusive }) => ({
+      rule: rule._id,
+      name: rule.name,
+      kind: rule.kind,
+      category: rule.category,
+      calculation: rule.calculation,
+      inclusive,
+      amount: this.round(
+        rule.calculation === TaxRuleCalculation.PERCENTAGE
+          ? netRate * this.percentOfStay(rule, nights)
+          : this.fixedAmount(rule, nights, stay.guests)
+      )
+    })).filter(line => line.amount > 0);
+
+    return { lines, pricing: this.toPricing(stay, lines) };
+  }
+
+  /**
+   * Replace a new booking's taxes and fees with the levied rules, taking its
+   * base rate as the room rate sold; without applicable rules the pricing is
+   * left as entered
+   */
+  public async applyToBooking(booking: IBooking): Promise<ITaxLine[]> {
+    const ratePlan = booking.ratePlan
+      ? await RatePlan.findById(booking.ratePlan).select('includesTaxes includesFees')
+      : null;
+
+    const { lines, pricing } = await this.calculate({
+      propertyId: booking.property,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      guests: booking.guests,
+      roomTotal: booking.pricing.baseRate,
+      currency: booking.pricing.currency,
+      discounts: booking.pricing.discounts,
+      ratePlan
+    });
+
+    if (lines.length > 0) {
+      booking.pricing = pricing;
+    }
+
+    return lines;
+  }
+
+  private toPricing(stay: ITaxStay, lines: ITaxLine[]): IPricing {
+    const sum = (items: ITaxLine[]): number => this.round(items.reduce((total, line) => total + line.amount, 0));
+    const ofCategory = (category: TaxRuleCategory): number | undefined => {
+      const items = lines.filter(line => line.category === category);
+      return items.length > 0 ? sum(items) : undefined;
+    };
+
+    const roomRate = this.round(Math.max(0, stay.roomTotal - sum(lines.filter(line => line.inclusive))));
+    const taxes = sum(lines.filter(line => line.kind === TaxRuleKind.TAX));
+    const fees = sum(lines.filter(line => line.kind === TaxRuleKind.FEE));
+    const discounts = stay.discounts ?? 0;
+    const otherFees = lines
+      .filter(line => line.category === TaxRuleCategory.OTHER)
+      .map(line => ({ name: line.name, amount: line.amount }));
+
+    return {
+      baseRate: roomRate,
+      taxes,
+      fees,
+      discounts,
+      total: Math.max(0, this.round(roomRate + taxes + fees - discounts)),
+      currency: stay.currency,
+      breakdown: {
+        roomRate,
+        cityTax: ofCategory(TaxRuleCategory.CITY_TAX),
+        tourismTax: ofCategory(TaxRuleCategory.TOURISM_TAX),
+        cleaningFee: ofCategory(TaxRuleCategory.CLEANING_FEE),
+        serviceFee: ofCategory(TaxRuleCategory.SERVICE_FEE),
+        otherFees: otherFees.length > 0 ? otherFees : undefined
+      }
+    };
+  }
+
+  private isInclusive(rule: ITaxRule, ratePlan?: ITaxStay['ratePlan']): boolean {
+    if (rule.inclusive) {
+      return true;
+    }
+    return rule.kind === TaxRuleKind.TAX ? Boolean(ratePlan?.includesTaxes) : Boolean(ratePlan?.includesFees);
+  }
+
+  // Fraction of the stay's room rate a percentage rule takes, capped nights only
+  private percentOfStay(rule: ITaxRule, nights: number): number {
+    const charged = rule.maxNights ? Math.min(nights, rule.maxNights) : nights;
+    return (rule.amount / 100) * (nights > 0 ? charged / nights : 0);
+  }
+
+  private fixedAmount(rule: ITaxRule, nights: number, guests: ITaxStay['guests']): number {
+    const charged = rule.maxNights ? Math.min(nights, rule.maxNights) : nights;
+    const persons = guests.adults + (rule.exemptChildren ? 0 : (guests.children ?? 0) + (guests.infants ?? 0));
+
+    switch (rule.calculation) {
+      case TaxRuleCalculation.PER_PERSON_PER_NIGHT:
+        return rule.amount * persons * charged;
+      case TaxRuleCalculation.PER_NIGHT:
+        return rule.amount * charged;
+      default:
+        return rule.amount;
+    }
+  }
+
+  // Level of a rule at an address, null when it does not apply there
+  private getSpecificity(rule: ITaxRule, address: { country: string; state: string; city: string }): number | null {
+    if (rule.property) {
+      return SPECIFICITY.property;
+    }
+
+    const region = rule.region;
+    if (!region || !this.sameName(region.country, address.country)) {
+      return null;
+    }
+    if (region.state && !this.sameName(region.state, address.state)) {
+      return null;
+    }
+    if (region.city && !this.sameName(region.city, address.city)) {
+      return null;
+    }
+
+    if (region.city) return SPECIFICITY.city;
+    if (region.state) return SPECIFICITY.state;
+    return SPECIFICITY.country;
+  }
+
+  private assertCompleteRule(rule: ITaxRule): void {
+    if (rule.category === TaxRuleCategory.OTHER && !rule.kind) {
+      throw createError.validation('Other taxes and fees need a kind (tax or fee)');
+    }
+    if (!rule.property && !rule.region) {
+      throw createError.validation('Region rules need a region');
+    }
+  }
+
+  private describeRegion(region?: ITaxRegion): string {
+    return region ? [region.city, region.state, region.country].filter(Boolean).join(', ') : 'no region';
+  }
+
+  private matchName(name: string): RegExp {
+    return new RegExp(`^${name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+  }
+
+  private sameName(a: string | undefined, b: string | undefined): boolean {
+    return (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private toObjectId(id: ObjectIdLike): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+}
+
+// Singleton instance
+export const taxRuleService = new TaxRuleService();
+export { TaxRuleService };
+export default taxRuleService;
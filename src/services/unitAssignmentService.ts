@@ -0,0 +1,601 @@
+import mongoose from 'mongoose';
+import Booking, { IBooking, BookingStatus } from '../models/Booking';
+import RoomUnit, { IRoomUnit, UnitStatus } from '../models/RoomUnit';
+import UnitAssignment, { IUnitAssignment, AssignmentMethod } from '../models/UnitAssignment';
+import { InventoryRepository } from './inventoryRepository';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Bookings that need a unit
+const ASSIGNABLE_BOOKING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.CONFIRMED,
+  BookingStatus.CHECKED_IN,
+  BookingStatus.MODIFIED
+];
+
+// Assignment query
+export interface IAssignmentQuery {
+  startDate: Date;
+  endDate: Date;
+  roomId?: ObjectIdLike;
+}
+
+// Auto-assignment options
+export interface IAutoAssignOptions extends IAssignmentQuery {
+  reoptimize?: boolean; // Also re-place unlocked bookings that already have units
+  userId?: string;
+}
+
+// Planned stay segment in one unit (end date exclusive)
+export interface IPlannedSegment {
+  unit: mongoose.Types.ObjectId;
+  unitNumber: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+// Auto-assignment outcome
+export interface IAutoAssignResult {
+  assigned: Array<{ booking: mongoose.Types.ObjectId; segments: IPlannedSegment[] }>;
+  unchanged: number;
+  moves: number; // Extra unit changes inside stays caused by splitting
+  unassigned: Array<{ booking: mongoose.Types.ObjectId; reason: string }>;
+}
+
+// Manual assignment and room move options
+export interface IUnitChangeOptions {
+  userId?: string;
+  reason?: string;
+  locked?: boolean;
+  effectiveDate?: Date; // Room moves only, defaults to today
+}
+
+interface IOccupiedInterval {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Unit Assignment Service
+ *
+ * Places bookings in physical units. Auto-assignment processes stays in
+ * arrival order and keeps locked, checked-in and (unless re-optimising)
+ * already assigned stays where they are. Each stay goes to its current unit
+ * when still free, otherwise the best-fitting free unit (smallest gap to its
+ * neighbours, so later stays still fit whole); only when no unit is free for
+ * the whole stay is it split across units, taking the longest free run at
+ * each step to keep the number of moves down.
+ */
+class UnitAssignmentService {
+  /**
+   * Assignments overlapping a date range, for the room rack
+   */
+  public async getAssignments(propertyId: ObjectIdLike, query: IAssignmentQuery): Promise<IUnitAssignment[]> {
+    const filter: Record<string, unknown> = {
+      property: this.toObjectId(propertyId),
+      startDate: { $lt: InventoryRepository.normalizeDate(query.endDate) },
+      endDate: { $gt: InventoryRepository.normalizeDate(query.startDate) }
+    };
+    if (query.roomId) filter['room'] = this.toObjectId(query.roomId);
+
+    return UnitAssignment.find(filter)
+      .populate('unit', 'number floor')
+      .populate('booking', 'confirmationCode guestInfo.firstName guestInfo.lastName status checkIn checkOut')
+      .sort({ unit: 1, startDate: 1 });
+  }
+
+  /**
+   * Assignments of one booking in stay order
+   */
+  public async getBookingAssignments(bookingId: ObjectIdLike): Promise<IUnitAssignment[]> {
+    return UnitAssignment.find({ booking: this.toObjectId(bookingId) })
+      .populate('unit', 'number floor')
+      .sort({ startDate: 1 });
+  }
+
+  /**
+   * Manually assign a unit for the whole stay, replacing any earlier assignment
+   */
+  public async assignUnit(bookingId: ObjectIdLike, unitId: ObjectIdLike, options: IUnitChangeOptions = {}): Promise<IUnitAssignment> {
+    const booking = await this.getAssignableBooking(bookingId);
+
+    if (booking.status === BookingStatus.CHECKED_IN) {
+      throw createError.booking('Guest is already checked in - use a room move instead');
+    }
+
+    const startDate = InventoryRepository.normalizeDate(booking.checkIn);
+    const endDate = InventoryRepository.normalizeDate(booking.checkOut);
+    const unit = await this.getTargetUnit(booking, unitId);
+
+    await this.assertUnitFree(unit, startDate, endDate, booking._id);
+
+    await UnitAssignment.deleteMany({ booking: booking._id });
+    const assignment = await UnitAssignment.create({
+      property: booking.property,
+      room: booking.room,
+      unit: unit._id,
+      booking: booking._id,
+      startDate,
+      endDate,
+      method: AssignmentMethod.MANUAL,
+      locked: options.locked ?? true,
+      reason: options.reason,
+      assignedBy: options.userId ? this.toObjectId(options.userId) : undefined
+    });
+
+    await this.updateCurrentUnit(booking._id);
+
+    logger.info(`Booking ${booking._id.toString()} assigned to unit ${unit.number}`);
+
+    return assignment;
+  }
+
+  /**
+   * Move a stay to another unit from the effective date on
+   */
+  public async moveBooking(bookingId: ObjectIdLike, unitId: ObjectIdLike, options: IUnitChangeOptions = {}): Promise<IUnitAssignment[]> {
+    const booking = await this.getAssignableBooking(bookingId);
+    const checkIn = InventoryRepository.normalizeDate(booking.checkIn);
+    const endDate = InventoryRepository.normalizeDate(booking.checkOut);
+    const requested = InventoryRepository.normalizeDate(options.effectiveDate ?? new Date());
+    const startDate = requested > checkIn ? requested : checkIn;
+
+    if (startDate >= endDate) {
+      throw createError.validation('Effective date must be before check-out');
+    }
+
+    const unit = await this.getTargetUnit(booking, unitId);
+    await this.assertUnitFree(unit, startDate, endDate, booking._id);
+
+    const existing = await UnitAssignment.find({ booking: booking._id }).sort({ startDate: 1 });
+    const current = existing.find(assignment => assignment.startDate <= startDate && assignment.endDate > startDate);
+
+    if (current?.unit.equals(unit._id)) {
+      throw createError.validation(`Booking is already in unit ${unit.number} on that date`);
+    }
+
+    // Keep what was already stayed, drop the rest of the old placement
+    for (const assignment of existing) {
+      if (assignment.startDate >= startDate) {
+        await assignment.deleteOne();
+      } else if (assignment.endDate > startDate) {
+        assignment.endDate = startDate;
+        await assignment.save();
+      }
+    }
+
+    await UnitAssignment.create({
+      property: booking.property,
+      room: booking.room,
+      unit: unit._id,
+      booking: booking._id,
+      startDate,
+      endDate,
+      method: AssignmentMethod.MOVE,
+      locked: options.locked ?? true,
+      movedFrom: current?.unit,
+      reason: options.reason,
+      assignedBy: options.userId ? this.toObjectId(options.userId) : undefined
+    });
+
+    await this.updateCurrentUnit(booking._id);
+
+    logger.info(`Booking ${booking._id.toString()} moved to unit ${unit.number} from ${startDate.toISOString()}`);
+
+    return UnitAssignment.find({ booking: booking._id }).sort({ startDate: 1 });
+  }
+
+  /**
+   * Drop every assignment of a booking (cancellation, no-show)
+   */
+  public async releaseBooking(bookingId: ObjectIdLike): Promise<number> {
+    const id = this.toObjectId(bookingId);
+    const result = await UnitAssignment.deleteMany({ booking: id });
+    await Booking.updateOne({ _id: id }, { $unset: { unit: 1 } });
+
+    return result.deletedCount;
+  }
+
+  /**
+   * Place a single new booking, leaving every other stay where it is
+   */
+  public async assignBooking(booking: IBooking): Promise<IPlannedSegment[] | null> {
+    const startDate = InventoryRepository.normalizeDate(booking.checkIn);
+    const endDate = InventoryRepository.normalizeDate(booking.checkOut);
+    const result = await this.autoAssign(booking.property, {
+      roomId: booking.room,
+      startDate,
+      endDate,
+      bookingIds: [booking._id]
+    });
+
+    // Keep the caller's document in step with the stored current unit
+    const stored = await Booking.findById(booking._id).select('unit');
+    booking.unit = stored?.unit;
+
+    return result.assigned[0]?.segments ?? null;
+  }
+
+  /**
+   * Re-place a booking whose stay changed, keeping its current unit when it is
+   * still free for the new dates
+   */
+  public async reassignBooking(booking: IBooking): Promise<IPlannedSegment[] | null> {
+    await UnitAssignment.deleteMany({ booking: booking._id });
+    const segments = await this.assignBooking(booking);
+
+    if (!segments) {
+      await Booking.updateOne({ _id: booking._id }, { $unset: { unit: 1 } });
+      booking.unit = undefined;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Best-effort assignment used right after a booking is created; a booking
+   * without a unit can still be placed later from the room rack
+   */
+  public async tryAssignBooking(booking: IBooking): Promise<void> {
+    try {
+      await this.assignBooking(booking);
+    } catch (error) {
+      logger.error(`Unit assignment failed for booking ${booking._id.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Best-effort re-placement used after a booking's stay changed
+   */
+  public async tryReassignBooking(booking: IBooking): Promise<void> {
+    try {
+      await this.reassignBooking(booking);
+    } catch (error) {
+      logger.error(`Unit reassignment failed for booking ${booking._id.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Best-effort release used when a booking gives its nights back
+   */
+  public async tryReleaseBooking(bookingId: ObjectIdLike): Promise<void> {
+    try {
+      await this.releaseBooking(bookingId);
+    } catch (error) {
+      logger.error(`Unit release failed for booking ${bookingId.toString()}:`, error);
+    }
+  }
+
+  /**
+   * Assign units to the bookings of a property in a date range
+   */
+  public async autoAssign(
+    propertyId: ObjectIdLike,
+    options: IAutoAssignOptions & { bookingIds?: mongoose.Types.ObjectId[] }
+  ): Promise<IAutoAssignResult> {
+    const property = this.toObjectId(propertyId);
+    const startDate = InventoryRepository.normalizeDate(options.startDate);
+    const endDate = InventoryRepository.normalizeDate(options.endDate);
+    const today = InventoryRepository.normalizeDate(new Date());
+
+    if (endDate <= startDate) {
+      throw createError.validation('End date must be after start date');
+    }
+
+    const unitFilter: Record<string, unknown> = { property, status: UnitStatus.ACTIVE };
+    if (options.roomId) unitFilter['room'] = this.toObjectId(options.roomId);
+    const units = await RoomUnit.find(unitFilter).sort({ number: 1 });
+
+    const result: IAutoAssignResult = { assigned: [], unchanged: 0, moves: 0, unassigned: [] };
+    const roomIds = [...new Set(units.map(unit => unit.room.toString()))];
+
+    for (const roomId of roomIds) {
+      const roomUnits = units.filter(unit => unit.room.toString() === roomId);
+      await this.assignRoomType(property, new mongoose.Types.ObjectId(roomId), roomUnits, {
+        startDate,
+        endDate,
+        today,
+        reoptimize: options.reoptimize ?? false,
+        bookingIds: options.bookingIds,
+        userId: options.userId
+      }, result);
+    }
+
+    logger.info(
+      `Auto-assigned ${result.assigned.length} bookings for property ${property.toString()} ` +
+      `(${result.moves} moves, ${result.unassigned.length} unassigned)`
+    );
+
+    return result;
+  }
+
+  private async assignRoomType(
+    property: mongoose.Types.ObjectId,
+    room: mongoose.Types.ObjectId,
+    units: IRoomUnit[],
+    options: {
+      startDate: Date;
+      endDate: Date;
+      today: Date;
+      reoptimize: boolean;
+      bookingIds?: mongoose.Types.ObjectId[];
+      userId?: string;
+    },
+    result: IAutoAssignResult
+  ): Promise<void> {
+    const bookingFilter: Record<string, unknown> = {
+      property,
+      room,
+      status: { $in: ASSIGNABLE_BOOKING_STATUSES },
+      checkIn: { $lt: options.endDate },
+      checkOut: { $gt: options.startDate }
+    };
+    if (options.bookingIds) bookingFilter['_id'] = { $in: options.bookingIds };
+
+    const bookings = await Booking.find(bookingFilter).sort({ checkIn: 1, checkOut: -1 });
+    if (bookings.length === 0) {
+      return;
+    }
+
+    // Earliest and latest night any candidate stay touches
+    const windowStart = new Date(Math.min(...bookings.map(b => InventoryRepository.normalizeDate(b.checkIn).getTime())));
+    const windowEnd = new Date(Math.max(...bookings.map(b => InventoryRepository.normalizeDate(b.checkOut).getTime())));
+
+    const assignments = await UnitAssignment.find({
+      unit: { $in: units.map(unit => unit._id) },
+      startDate: { $lt: windowEnd },
+      endDate: { $gt: windowStart }
+    });
+
+    const candidateIds = new Set(bookings.map(booking => booking._id.toString()));
+    const assignmentsByBooking = new Map<string, IUnitAssignment[]>();
+    for (const assignment of assignments) {
+      const key = assignment.booking.toString();
+      assignmentsByBooking.set(key, [...(assignmentsByBooking.get(key) ?? []), assignment]);
+    }
+
+    // Stays that must not move: other bookings, locked, in-house or already placed
+    const isFixed = (booking: IBooking, existing: IUnitAssignment[]): boolean =>
+      existing.length > 0 && (
+        !options.reoptimize ||
+        booking.status === BookingStatus.CHECKED_IN ||
+        existing.some(assignment => assignment.locked)
+      );
+
+    const occupied = new Map<string, IOccupiedInterval[]>(
+      units.map(unit => [unit._id.toString(), unit.outOfService.map(p => ({ startDate: p.startDate, endDate: p.endDate }))])
+    );
+
+    for (const assignment of assignments) {
+      const booking = bookings.find(b => b._id.equals(assignment.booking));
+      if (!candidateIds.has(assignment.booking.toString()) || (booking && isFixed(booking, assignmentsByBooking.get(booking._id.toString()) ?? []))) {
+        occupied.get(assignment.unit.toString())?.push({ startDate: assignment.startDate, endDate: assignment.endDate });
+      }
+    }
+
+    for (const booking of bookings) {
+      const existing = (assignmentsByBooking.get(booking._id.toString()) ?? []).sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+      if (isFixed(booking, existing)) {
+        result.unchanged++;
+        continue;
+      }
+
+      const stayStart = InventoryRepository.normalizeDate(booking.checkIn);
+      const stayEnd = InventoryRepository.normalizeDate(booking.checkOut);
+      const preferred = existing[0]?.unit ?? booking.unit;
+      const segments = this.planStay(units, occupied, stayStart, stayEnd, preferred);
+
+      if (!segments) {
+        result.unassigned.push({ booking: booking._id, reason: 'No unit is free for every night of the stay' });
+        // Keep the old placement visible to the rest of the plan
+        for (const assignment of existing) {
+          occupied.get(assignment.unit.toString())?.push({ startDate: assignment.startDate, endDate: assignment.endDate });
+        }
+        continue;
+      }
+
+      for (const segment of segments) {
+        occupied.get(segment.unit.toString())?.push({ startDate: segment.startDate, endDate: segment.endDate });
+      }
+
+      const samePlacement = existing.length === segments.length && existing.every((assignment, index) =>
+        assignment.unit.equals(segments[index].unit) &&
+        assignment.startDate.getTime() === segments[index].startDate.getTime() &&
+        assignment.endDate.getTime() === segments[index].endDate.getTime()
+      );
+
+      if (samePlacement) {
+        result.unchanged++;
+        continue;
+      }
+
+      await UnitAssignment.deleteMany({ booking: booking._id });
+      await UnitAssignment.insertMany(segments.map((segment, index) => ({
+        property,
+        room,
+        unit: segment.unit,
+        booking: booking._id,
+        startDate: segment.startDate,
+        endDate: segment.endDate,
+        method: AssignmentMethod.AUTO,
+        locked: false,
+        movedFrom: index > 0 ? segments[index - 1].unit : undefined,
+        assignedBy: options.userId ? this.toObjectId(options.userId) : undefined
+      })));
+      await this.updateCurrentUnit(booking._id);
+
+      result.assigned.push({ booking: booking._id, segments });
+      result.moves += segments.length - 1;
+    }
+  }
+
+  /**
+   * Choose units for one stay against the occupancy built so far
+   */
+  private planStay(
+    units: IRoomUnit[],
+    occupied: Map<string, IOccupiedInterval[]>,
+    startDate: Date,
+    endDate: Date,
+    preferred?: mongoose.Types.ObjectId
+  ): IPlannedSegment[] | null {
+    const segment = (unit: IRoomUnit, from: Date, to: Date): IPlannedSegment =>
+      ({ unit: unit._id, unitNumber: unit.number, startDate: from, endDate: to });
+    const intervalsOf = (unit: IRoomUnit): IOccupiedInterval[] => occupied.get(unit._id.toString()) ?? [];
+    const isFree = (unit: IRoomUnit, from: Date, to: Date): boolean =>
+      !intervalsOf(unit).some(interval => interval.startDate < to && interval.endDate > from);
+
+    // Current unit first, so re-running never moves a stay for nothing
+    const current = preferred && units.find(unit => unit._id.equals(preferred));
+    if (current && isFree(current, startDate, endDate)) {
+      return [segment(current, startDate, endDate)];
+    }
+
+    // Best fit: the free unit whose neighbouring stays leave the smallest gaps
+    let best: { unit: IRoomUnit; gap: number } | null = null;
+    for (const unit of units) {
+      if (!isFree(unit, startDate, endDate)) continue;
+
+      const intervals = intervalsOf(unit);
+      const before = Math.max(0, ...intervals.filter(i => i.endDate <= startDate).map(i => i.endDate.getTime()));
+      const afterTimes = intervals.filter(i => i.startDate >= endDate).map(i => i.startDate.getTime());
+      const gap = (before ? startDate.getTime() - before : Number.MAX_SAFE_INTEGER / 4) +
+        (afterTimes.length > 0 ? Math.min(...afterTimes) - endDate.getTime() : Number.MAX_SAFE_INTEGER / 4);
+
+      if (!best || gap < best.gap) {
+        best = { unit, gap };
+      }
+    }
+
+    if (best) {
+      return [segment(best.unit, startDate, endDate)];
+    }
+
+    // Split: from each night, take the unit free for the longest run
+    const segments: IPlannedSegment[] = [];
+    let cursor = startDate;
+    while (cursor < endDate) {
+      let longest: { unit: IRoomUnit; until: Date } | null = null;
+
+      for (const unit of units) {
+        if (!isFree(unit, cursor, this.addDays(cursor, 1))) continue;
+
+        const nextBusy = intervalsOf(unit)
+          .filter(interval => interval.startDate > cursor)
+          .reduce((min, interval) => (interval.startDate < min ? interval.startDate : min), endDate);
+        const until = nextBusy < endDate ? nextBusy : endDate;
+        const previousUnit = segments[segments.length - 1]?.unit;
+
+        if (!longest || until > longest.until || (until.getTime() === longest.until.getTime() && previousUnit?.equals(unit._id))) {
+          longest = { unit, until };
+        }
+      }
+
+      if (!longest) {
+        return null;
+      }
+
+      segments.push(segment(longest.unit, cursor, longest.until));
+      cursor = longest.until;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Point Booking.unit at the unit the guest is (or will first be) in
+   */
+  private async updateCurrentUnit(bookingId: mongoose.Types.ObjectId): Promise<void> {
+    const today = InventoryRepository.normalizeDate(new Date());
+    const assignments = await UnitAssignment.find({ booking: bookingId }).sort({ startDate: 1 });
+    const current = assignments.find(a => a.startDate <= today && a.endDate > today) ??
+      assignments.find(a => a.startDate > today) ??
+      assignments[assignments.length - 1];
+
+    await Booking.updateOne(
+      { _id: bookingId },
+      current ? { $set: { unit: current.unit } } : { $unset: { unit: 1 } }
+    );
+  }
+
+  private async getAssignableBooking(bookingId: ObjectIdLike): Promise<IBooking> {
+    const booking = await Booking.findById(bookingId);
+
+    if (!booking) {
+      throw createError.notFound('Booking not found');
+    }
+
+    if (!ASSIGNABLE_BOOKING_STATUSES.includes(booking.status)) {
+      throw createError.booking(`Cannot assign a unit to a ${booking.status} booking`);
+    }
+
+    return booking;
+  }
+
+  private async getTargetUnit(booking: IBooking, unitId: ObjectIdLike): Promise<IRoomUnit> {
+    const unit = await RoomUnit.findOne({ _id: this.toObjectId(unitId), property: booking.property });
+
+    if (!unit) {
+      throw createError.notFound('Unit not found');
+    }
+
+    if (unit.status !== UnitStatus.ACTIVE) {
+      throw createError.validation(`Unit ${unit.number} is not active`);
+    }
+
+    if (!unit.room.equals(booking.room)) {
+      throw createError.validation(`Unit ${unit.number} belongs to a different room type than the booking`);
+    }
+
+    return unit;
+  }
+
+  private async assertUnitFree(
+    unit: IRoomUnit,
+    startDate: Date,
+    endDate: Date,
+    bookingId: mongoose.Types.ObjectId
+  ): Promise<void> {
+    if (unit.overlapsOutOfService(startDate, endDate)) {
+      throw createError.conflict(`Unit ${unit.number} is out of service during the stay`);
+    }
+
+    const conflicts = await UnitAssignment.find({
+      unit: unit._id,
+      booking: { $ne: bookingId },
+      startDate: { $lt: endDate },
+      endDate: { $gt: startDate }
+    }).select('booking startDate endDate');
+
+    if (conflicts.length > 0) {
+      throw createError.conflict(
+        `Unit ${unit.number} is already assigned during the stay`,
+        conflicts.map(conflict => ({
+          field: 'booking',
+          message: 'Overlapping assignment',
+          value: conflict.booking.toString(),
+          startDate: conflict.startDate,
+          endDate: conflict.endDate
+        }))
+      );
+    }
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  private toObjectId(id: ObjectIdLike): mongoose.Types.ObjectId {
+    return typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+  }
+}
+
+// Singleton instance
+export const unitAssignmentService = new UnitAssignmentService();
+export { UnitAssignmentService };
+export default unitAssignmentService;
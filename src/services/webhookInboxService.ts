@@ -0,0 +1,447 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import WebhookInboxEvent, { IWebhookInboxEvent, WebhookInboxStatus } from '../models/WebhookInboxEvent';
+import { OTAProvider } from './OTAService';
+import { webhookProcessingService, WebhookPayload } from './webhookProcessingService';
+import { logger } from '../config/logger';
+import { createError, ChannelMappingError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+
+// Attempts before an event is dead-lettered
+const MAX_ATTEMPTS = parseInt(process.env['WEBHOOK_MAX_ATTEMPTS'] ?? '5', 10);
+// Delay before the first retry; doubles with every failed attempt up to the maximum
+const RETRY_BASE_DELAY_MS = parseInt(process.env['WEBHOOK_RETRY_BASE_DELAY_MS'] ?? '30000', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env['WEBHOOK_RETRY_MAX_DELAY_MS'] ?? '3600000', 10);
+// How long a claimed event is left to its worker before another may take it over
+const PROCESSING_LEASE_MS = parseInt(process.env['WEBHOOK_PROCESSING_LEASE_MS'] ?? '300000', 10);
+const DEFAULT_WORKER_INTERVAL_MS = parseInt(process.env['WEBHOOK_WORKER_INTERVAL_MS'] ?? '5000', 10);
+const WORKER_BATCH_SIZE = 25;
+
+// Verified webhook to store
+export interface IReceiveWebhookRequest {
+  provider: OTAProvider;
+  payload: Record<string, unknown>;
+  rawBody: Buffer | string;
+  channelId?: mongoose.Types.ObjectId;
+}
+
+// Store result
+export interface IReceiveWebhookResult {
+  event: IWebhookInboxEvent;
+  duplicate: boolean; // Redelivery of an event already in the inbox
+}
+
+// Inbox listing options
+export interface IWebhookInboxListOptions {
+  status?: WebhookInboxStatus;
+  provider?: string;
+  event?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Persisted webhook statistics
+export interface IWebhookStats {
+  totalReceived: number;
+  totalProcessed: number;
+  totalFailed: number; // Failed attempts, retried or not
+  pending: number;
+  needsAttention: number;
+  deadLetter: number;
+  lastReceived: Date | null;
+  lastProcessed: Date | null;
+  byStatus: Record<string, number>;
+  byChannel: Record<string, number>;
+  byEvent: Record<string, number>;
+}
+
+/**
+ * Webhook Inbox Service
+ *
+ * Durable intake for OTA webhooks. receive() only stores the event, so the
+ * OTA gets its acknowledgement right away; the worker then claims due events
+ * one at a time (a conditional update, so two workers never run the same
+ * event), processes them and schedules a retry with exponential backoff on
+ * failure. After the last attempt the event is dead-lettered. Retrying does
+ * not help a reservation for an unmapped listing, so that one is parked as
+ * needing attention until its mapping is added.
+ */
+class WebhookInboxService {
+  private workerTimer: NodeJS.Timeout | null = null;
+  private draining = false;
+
+  /**
+   * Store a verified webhook for processing
+   */
+  public async receive(request: IReceiveWebhookRequest): Promise<IReceiveWebhookResult> {
+    const payloadHash = crypto.createHash('sha256').update(request.rawBody).digest('hex');
+    const event = typeof request.payload['event'] === 'string' ? request.payload['event'] : 'unknown';
+
+    let stored: IWebhookInboxEvent;
+    try {
+      stored = await WebhookInboxEvent.create({
+        provider: request.provider,
+        event,
+        channel: request.channelId,
+        payload: request.payload,
+        payloadHash,
+        maxAttempts: MAX_ATTEMPTS
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+
+      const existing = await WebhookInboxEvent.findOne({ provider: request.provider, payloadHash });
+      if (!existing) {
+        throw error;
+      }
+
+      logger.info(`[Webhook-Inbox] Redelivered ${event} from ${request.provider} matches event ${existing._id.toString()}`);
+      return { event: existing, duplicate: true };
+    }
+
+    logger.info(`[Webhook-Inbox] Stored ${event} from ${request.provider} as event ${stored._id.toString()}`);
+    this.kick();
+
+    return { event: stored, duplicate: false };
+  }
+
+  /**
+   * Process the events that are due, oldest first; returns how many were attempted
+   */
+  public async processDue(limit: number = WORKER_BATCH_SIZE): Promise<number> {
+    let attempted = 0;
+
+    while (attempted < limit) {
+      const event = await this.claimNext();
+      if (!event) {
+        break;
+      }
+
+      await this.attempt(event);
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  /**
+   * List inbox events without their payloads
+   */
+  public async list(options: IWebhookInboxListOptions = {}): Promise<{
+    events: IWebhookInboxEvent[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const page = options.page ?? 1;
+    const limit = options.limit ?? 20;
+
+    const filter: mongoose.FilterQuery<IWebhookInboxEvent> = {};
+    if (options.status) filter.status = options.status;
+    if (options.provider) filter.provider = options.provider.toLowerCase();
+    if (options.event) filter.event = options.event;
+
+    const [events, total] = await Promise.all([
+      WebhookInboxEvent.find(filter)
+        .select('-payload -attemptErrors')
+        .sort({ receivedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      WebhookInboxEvent.countDocuments(filter)
+    ]);
+
+    return { events, total, page, limit };
+  }
+
+  /**
+   * Get an inbox event with its payload and failed attempts
+   */
+  public async get(eventId: ObjectIdLike): Promise<IWebhookInboxEvent> {
+    const event = await WebhookInboxEvent.findById(eventId);
+
+    if (!event) {
+      throw createError.notFound('Webhook event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Queue a finished event to be processed again with a fresh set of attempts
+   */
+  public async replay(eventId: ObjectIdLike, userId?: string): Promise<IWebhookInboxEvent> {
+    const event = await WebhookInboxEvent.findOneAndUpdate(
+      {
+        _id: eventId,
+        status: {
+          $in: [
+            WebhookInboxStatus.NEEDS_ATTENTION,
+            WebhookInboxStatus.DEAD_LETTER,
+            WebhookInboxStatus.DISCARDED,
+            WebhookInboxStatus.PROCESSED
+          ]
+        }
+      },
+      {
+        $set: {
+          status: WebhookInboxStatus.PENDING,
+          attempts: 0,
+          maxAttempts: MAX_ATTEMPTS,
+          nextAttemptAt: new Date(),
+          lastReplayedAt: new Date(),
+          ...(userId ? { lastReplayedBy: new mongoose.Types.ObjectId(userId) } : {})
+        },
+        $unset: { processedAt: 1, deadLetteredAt: 1, discardedAt: 1, discardedBy: 1, discardReason: 1 },
+        $inc: { replayCount: 1 }
+      },
+      { new: true }
+    );
+
+    if (!event) {
+      const current = await this.get(eventId);
+      throw createError.conflict(`Cannot replay a webhook event that is ${current.status}`);
+    }
+
+    logger.info(`[Webhook-Inbox] Event ${event._id.toString()} queued for replay`);
+    this.kick();
+
+    return event;
+  }
+
+  /**
+   * Stop an unprocessed event from being retried; it stays in the inbox
+   */
+  public async discard(eventId: ObjectIdLike, userId?: string, reason?: string): Promise<IWebhookInboxEvent> {
+    const event = await WebhookInboxEvent.findOneAndUpdate(
+      {
+        _id: eventId,
+        status: { $in: [WebhookInboxStatus.PENDING, WebhookInboxStatus.NEEDS_ATTENTION, WebhookInboxStatus.DEAD_LETTER] }
+      },
+      {
+        $set: {
+          status: WebhookInboxStatus.DISCARDED,
+          discardedAt: new Date(),
+          ...(userId ? { discardedBy: new mongoose.Types.ObjectId(userId) } : {}),
+          ...(reason ? { discardReason: reason } : {})
+        }
+      },
+      { new: true }
+    );
+
+    if (!event) {
+      const current = await this.get(eventId);
+      throw createError.conflict(`Cannot discard a webhook event that is ${current.status}`);
+    }
+
+    logger.info(`[Webhook-Inbox] Event ${event._id.toString()} discarded`);
+
+    return event;
+  }
+
+  /**
+   * Retry the events of a provider that were parked for an unmapped
+   * listing; ones that are still unmapped are parked again
+   */
+  public async requeueNeedsAttention(provider: string): Promise<number> {
+    const result = await WebhookInboxEvent.updateMany(
+      { provider: provider.toLowerCase(), status: WebhookInboxStatus.NEEDS_ATTENTION },
+      { $set: { status: WebhookInboxStatus.PENDING, nextAttemptAt: new Date() } }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.info(`[Webhook-Inbox] Requeued ${result.modifiedCount} ${provider} events that needed attention`);
+      this.kick();
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Webhook statistics from the stored events, so they survive restarts
+   */
+  public async getStats(): Promise<IWebhookStats> {
+    const [stats] = await WebhookInboxEvent.aggregate<{
+      byStatus: Array<{ _id: string; count: number }>;
+      byChannel: Array<{ _id: string; count: number }>;
+      byEvent: Array<{ _id: string; count: number }>;
+      totals: Array<{ failedAttempts: number; lastReceived: Date | null; lastProcessed: Date | null }>;
+    }>([
+      {
+        $facet: {
+          byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+          byChannel: [{ $group: { _id: '$provider', count: { $sum: 1 } } }],
+          byEvent: [{ $group: { _id: '$event', count: { $sum: 1 } } }],
+          totals: [{
+            $group: {
+              _id: null,
+              failedAttempts: { $sum: { $size: '$attemptErrors' } },
+              lastReceived: { $max: '$receivedAt' },
+              lastProcessed: { $max: '$processedAt' }
+            }
+          }]
+        }
+      }
+    ]);
+
+    const toRecord = (groups: Array<{ _id: string; count: number }> = []): Record<string, number> =>
+      Object.fromEntries(groups.map(group => [group._id, group.count]));
+
+    const byStatus = toRecord(stats?.byStatus);
+    const byChannel = toRecord(stats?.byChannel);
+    const totals = stats?.totals[0];
+
+    return {
+      totalReceived: Object.values(byChannel).reduce((sum, count) => sum + count, 0),
+      totalProcessed: byStatus[WebhookInboxStatus.PROCESSED] ?? 0,
+      totalFailed: totals?.failedAttempts ?? 0,
+      pending: (byStatus[WebhookInboxStatus.PENDING] ?? 0) + (byStatus[WebhookInboxStatus.PROCESSING] ?? 0),
+      needsAttention: byStatus[WebhookInboxStatus.NEEDS_ATTENTION] ?? 0,
+      deadLetter: byStatus[WebhookInboxStatus.DEAD_LETTER] ?? 0,
+      lastReceived: totals?.lastReceived ?? null,
+      lastProcessed: totals?.lastProcessed ?? null,
+      byStatus,
+      byChannel,
+      byEvent: toRecord(stats?.byEvent)
+    };
+  }
+
+  /**
+   * Start the periodic inbox worker
+   */
+  public startWorker(intervalMs: number = DEFAULT_WORKER_INTERVAL_MS): void {
+    if (this.workerTimer) {
+      return;
+    }
+
+    this.workerTimer = setInterval(() => this.drain(), intervalMs);
+    this.workerTimer.unref();
+
+    logger.info(`Webhook inbox worker started (every ${intervalMs}ms)`);
+  }
+
+  /**
+   * Stop the periodic inbox worker
+   */
+  public stopWorker(): void {
+    if (this.workerTimer) {
+      clearInterval(this.workerTimer);
+      this.workerTimer = null;
+    }
+  }
+
+  /**
+   * Claim the next due event: a pending one whose retry time has come, or
+   * one whose worker lost its lease
+   */
+  private async claimNext(): Promise<IWebhookInboxEvent | null> {
+    const now = new Date();
+
+    return WebhookInboxEvent.findOneAndUpdate(
+      {
+        $or: [
+          { status: WebhookInboxStatus.PENDING, nextAttemptAt: { $lte: now } },
+          { status: WebhookInboxStatus.PROCESSING, lockedUntil: { $lte: now } }
+        ]
+      },
+      {
+        $set: {
+          status: WebhookInboxStatus.PROCESSING,
+          lockedUntil: new Date(now.getTime() + PROCESSING_LEASE_MS)
+        },
+        $inc: { attempts: 1 }
+      },
+      { new: true, sort: { nextAttemptAt: 1, receivedAt: 1 } }
+    );
+  }
+
+  /**
+   * Run one attempt; the outcome is only recorded if this claim still holds
+   */
+  private async attempt(event: IWebhookInboxEvent): Promise<void> {
+    const claim = { _id: event._id, status: WebhookInboxStatus.PROCESSING, attempts: event.attempts };
+
+    try {
+      await webhookProcessingService.process(
+        event.provider as OTAProvider,
+        event.payload as unknown as WebhookPayload,
+        event.channel
+      );
+
+      await WebhookInboxEvent.updateOne(claim, {
+        $set: { status: WebhookInboxStatus.PROCESSED, processedAt: new Date() },
+        $unset: { lockedUntil: 1 }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const now = new Date();
+
+      if (error instanceof ChannelMappingError) {
+        await WebhookInboxEvent.updateOne(claim, {
+          $set: { status: WebhookInboxStatus.NEEDS_ATTENTION, lastError: message },
+          $unset: { lockedUntil: 1 },
+          $push: { attemptErrors: { attempt: event.attempts, message, failedAt: now } }
+        });
+
+        logger.warn(`[Webhook-Inbox] Event ${event._id.toString()} needs attention: ${message}`);
+        return;
+      }
+
+      const exhausted = event.attempts >= event.maxAttempts;
+
+      await WebhookInboxEvent.updateOne(claim, {
+        $set: {
+          status: exhausted ? WebhookInboxStatus.DEAD_LETTER : WebhookInboxStatus.PENDING,
+          nextAttemptAt: new Date(now.getTime() + this.retryDelay(event.attempts)),
+          lastError: message,
+          ...(exhausted ? { deadLetteredAt: now } : {})
+        },
+        $unset: { lockedUntil: 1 },
+        $push: { attemptErrors: { attempt: event.attempts, message, failedAt: now } }
+      });
+
+      if (exhausted) {
+        logger.error(`[Webhook-Inbox] Event ${event._id.toString()} (${event.event} from ${event.provider}) dead-lettered after ${event.attempts} attempts: ${message}`);
+      } else {
+        logger.warn(`[Webhook-Inbox] Attempt ${event.attempts} of event ${event._id.toString()} failed, retrying: ${message}`);
+      }
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  /**
+   * Process due events unless a drain is already running
+   */
+  private drain(): void {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    this.processDue()
+      .catch(error => {
+        logger.error('Webhook inbox processing failed:', error);
+      })
+      .finally(() => {
+        this.draining = false;
+      });
+  }
+
+  /**
+   * Start on a new event straight away when the worker is running
+   */
+  private kick(): void {
+    if (this.workerTimer) {
+      setImmediate(() => this.drain());
+    }
+  }
+}
+
+export const webhookInboxService = new WebhookInboxService();
+export { WebhookInboxService };
+export default webhookInboxService;
@@ -0,0 +1,596 @@
+import mongoose from 'mongoose';
+import { logger } from '../config/logger';
+import { OTAProvider } from './OTAService';
+import Booking, { IBooking, BookingStatus, BookingChannel, StatusChangeSource } from '../models/Booking';
+import Channel, { IChannel, ChannelType } from '../models/Channel';
+import { inventoryReservationService } from './inventoryReservationService';
+import { unitAssignmentService } from './unitAssignmentService';
+import { guestProfileService } from './guestProfileService';
+import { bookingStatusService } from './bookingStatusService';
+import { channelMappingService } from './channelMappingService';
+import { ChannelMappingError, ConflictError, StatusTransitionError } from '../utils/errors';
+
+// Bookings that hold their stay's inventory
+const INVENTORY_HOLDING_STATUSES = [
+  BookingStatus.PENDING,
+  BookingStatus.CONFIRMED,
+  BookingStatus.CHECKED_IN,
+  BookingStatus.MODIFIED
+];
+
+/**
+ * Webhook event types
+ */
+export enum WebhookEvent {
+  BOOKING_CREATED = 'booking.created',
+  BOOKING_UPDATED = 'booking.updated',
+  BOOKING_CANCELLED = 'booking.cancelled',
+  PROPERTY_CREATED = 'property.created',
+  PROPERTY_UPDATED = 'property.updated',
+  CALENDAR_UPDATED = 'calendar.updated',
+  RATE_UPDATED = 'rate.updated'
+}
+
+/**
+ * Webhook payload interface
+ */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  channel: OTAProvider;
+  timestamp: string;
+  data: any;
+  signature?: string;
+}
+
+/**
+ * Webhook Processing Service
+ *
+ * Applies a verified OTA webhook to our bookings and inventory. Called by
+ * the webhook inbox worker, which owns retries; an error thrown here fails
+ * the attempt.
+ */
+class WebhookProcessingService {
+  /**
+   * Process webhook based on event type. Bookings are only filed or changed
+   * at properties connected to the channel whose secret signed the webhook.
+   */
+  public async process(channel: OTAProvider, payload: WebhookPayload, channelId?: mongoose.Types.ObjectId): Promise<void> {
+    logger.debug(`[Webhook] Processing ${payload.event} from ${channel}`);
+
+    const signer = channelId ? await loadSigningChannel(channelId) : null;
+
+    // Process based on event type
+    switch (payload.event) {
+      case WebhookEvent.BOOKING_CREATED:
+        await handleBookingCreated(channel, payload.data, signer);
+        break;
+
+      case WebhookEvent.BOOKING_UPDATED:
+        await handleBookingUpdated(channel, payload.data, signer);
+        break;
+
+      case WebhookEvent.BOOKING_CANCELLED:
+        await handleBookingCancelled(channel, payload.data, signer);
+        break;
+
+      case WebhookEvent.PROPERTY_CREATED:
+        await handlePropertyCreated(channel, payload.data);
+        break;
+
+      case WebhookEvent.PROPERTY_UPDATED:
+        await handlePropertyUpdated(channel, payload.data);
+        break;
+
+      case WebhookEvent.CALENDAR_UPDATED:
+        await handleCalendarUpdated(channel, payload.data);
+        break;
+
+      case WebhookEvent.RATE_UPDATED:
+        await handleRateUpdated(channel, payload.data);
+        break;
+
+      default:
+        logger.warn(`[Webhook] Unknown event type: ${payload.event}`);
+    }
+
+    logger.info(`[Webhook] Successfully processed ${payload.event} from ${channel}`);
+  }
+}
+
+// ==================== EVENT HANDLERS ====================
+
+/**
+ * Handle booking created event
+ */
+async function handleBookingCreated(channel: OTAProvider, data: any, signer: IChannel | null): Promise<void> {
+  logger.info(`[Webhook] Booking created on ${channel}`, {
+    bookingId: data.id,
+    propertyId: data.propertyId,
+    checkIn: data.checkIn,
+    checkOut: data.checkOut
+  });
+
+  try {
+    // Check if booking already exists (idempotency check)
+    const existingBooking = await Booking.findOne({
+      channelBookingId: data.id,
+      channel: mapOTAProviderToBookingChannel(channel)
+    });
+
+    if (existingBooking) {
+      logger.warn(`[Webhook] Booking ${data.id} already exists, skipping creation`);
+      return;
+    }
+
+    // File the reservation through the channel mapping; an unmapped listing
+    // fails with a ChannelMappingError and the inbox parks the webhook
+    const { property, room, ratePlanId } = await channelMappingService.resolve(
+      mapOTAProviderToChannelType(channel),
+      data.propertyId,
+      data.roomId,
+      data.ratePlanId
+    );
+    assertChannelProperty(signer, property._id);
+
+    // Create booking record
+    const booking = new Booking({
+      property: property._id,
+      room: room._id,
+      guestInfo: {
+        firstName: data.guestInfo?.firstName || 'Guest',
+        lastName: data.guestInfo?.lastName || 'User',
+        email: data.guestInfo?.email || 'guest@example.com',
+        phone: data.guestInfo?.phone || '+1234567890',
+        nationality: data.guestInfo?.country || 'Unknown',
+        documentType: 'passport',
+        documentNumber: 'TEMP-' + data.id
+      },
+      checkIn: new Date(data.checkIn),
+      checkOut: new Date(data.checkOut),
+      guests: {
+        adults: data.guests?.adults || 1,
+        children: data.guests?.children || 0,
+        infants: data.guests?.infants || 0
+      },
+      status: BookingStatus.CONFIRMED,
+      channel: mapOTAProviderToBookingChannel(channel),
+      channelBookingId: data.id,
+      channelConfirmationCode: data.confirmationCode,
+      ratePlan: ratePlanId,
+      pricing: {
+        baseRate: data.pricing?.baseRate || data.pricing?.nightlyRate || 0,
+        taxes: data.pricing?.taxes || 0,
+        fees: data.pricing?.serviceFee || 0,
+        discounts: 0,
+        total: data.pricing?.total || 0,
+        currency: data.pricing?.currency || 'USD',
+        breakdown: {
+          roomRate: data.pricing?.nightlyRate || 0,
+          cleaningFee: data.pricing?.cleaningFee,
+          serviceFee: data.pricing?.serviceFee,
+          cityTax: 0,
+          tourismTax: 0
+        }
+      },
+      specialRequests: data.specialRequests || [],
+      notes: data.notes
+    });
+
+    logger.info(`[Webhook] About to save booking, validating first...`);
+    const validationError = booking.validateSync();
+    if (validationError) {
+      logger.error(`[Webhook] Booking validation failed:`, validationError);
+      throw validationError;
+    }
+
+    // Claim shared inventory for every night. The OTA has already accepted this
+    // stay, so on a conflict the nights are claimed anyway and left oversold.
+    await reserveInventoryForBooking(booking);
+
+    logger.info(`[Webhook] Validation passed, saving to database...`);
+    logger.debug(`[Webhook] Booking data:`, {
+      _id: booking._id,
+      property: booking.property,
+      room: booking.room,
+      channel: booking.channel,
+      channelBookingId: booking.channelBookingId,
+      status: booking.status,
+      guestEmail: booking.guestInfo.email
+    });
+
+    let savedBooking;
+    try {
+      savedBooking = await booking.save();
+    } catch (error) {
+      await inventoryReservationService.release({
+        propertyId: booking.property,
+        roomId: booking.room,
+        checkIn: booking.checkIn,
+        checkOut: booking.checkOut,
+        bookingId: booking._id as mongoose.Types.ObjectId
+      });
+      throw error;
+    }
+    logger.info(`[Webhook] Booking ${savedBooking._id} SAVED to database successfully`);
+    logger.info(`[Webhook] Saved booking isNew: ${savedBooking.isNew}, _id: ${savedBooking._id}`);
+
+    // Verify it was actually saved by querying it back
+    const verification = await Booking.findById(savedBooking._id);
+    if (verification) {
+      logger.info(`[Webhook] ✅ VERIFIED: Booking exists in database`);
+    } else {
+      logger.error(`[Webhook] ❌ VERIFICATION FAILED: Booking not found in database after save!`);
+    }
+
+    await unitAssignmentService.tryAssignBooking(savedBooking);
+    await guestProfileService.tryAttachBooking(savedBooking);
+
+    // TODO: Send notification to property owner
+    // The inventory claim queued the new availability for every channel
+  } catch (error) {
+    logger.error(`[Webhook] Error handling booking created:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Handle booking updated event
+ */
+async function handleBookingUpdated(channel: OTAProvider, data: any, signer: IChannel | null): Promise<void> {
+  logger.info(`[Webhook] Booking updated on ${channel}`, {
+    bookingId: data.id,
+    status: data.status
+  });
+
+  try {
+    // Find existing booking
+    const booking = await Booking.findOne({
+      channelBookingId: data.id,
+      channel: mapOTAProviderToBookingChannel(channel)
+    });
+
+    if (!booking) {
+      logger.warn(`[Webhook] Booking ${data.id} not found, cannot update`);
+      return;
+    }
+    assertChannelProperty(signer, booking.property);
+
+    // Track if dates changed
+    const datesChanged =
+      (data.checkIn && new Date(data.checkIn).getTime() !== booking.checkIn.getTime()) ||
+      (data.checkOut && new Date(data.checkOut).getTime() !== booking.checkOut.getTime());
+
+    const oldCheckIn = booking.checkIn;
+    const oldCheckOut = booking.checkOut;
+
+    // Update booking details
+    if (data.guestInfo) {
+      booking.guestInfo.firstName = data.guestInfo.firstName || booking.guestInfo.firstName;
+      booking.guestInfo.lastName = data.guestInfo.lastName || booking.guestInfo.lastName;
+      booking.guestInfo.email = data.guestInfo.email || booking.guestInfo.email;
+      booking.guestInfo.phone = data.guestInfo.phone || booking.guestInfo.phone;
+      booking.guestInfo.nationality = data.guestInfo.country || booking.guestInfo.nationality;
+    }
+
+    if (data.checkIn) {
+      booking.checkIn = new Date(data.checkIn);
+    }
+
+    if (data.checkOut) {
+      booking.checkOut = new Date(data.checkOut);
+    }
+
+    if (data.guests) {
+      booking.guests.adults = data.guests.adults || booking.guests.adults;
+      booking.guests.children = data.guests.children || booking.guests.children;
+      booking.guests.infants = data.guests.infants || booking.guests.infants;
+    }
+
+    if (data.pricing) {
+      booking.pricing.baseRate = data.pricing.baseRate || data.pricing.nightlyRate || booking.pricing.baseRate;
+      booking.pricing.taxes = data.pricing.taxes || booking.pricing.taxes;
+      booking.pricing.fees = data.pricing.serviceFee || booking.pricing.fees;
+      booking.pricing.total = data.pricing.total || booking.pricing.total;
+      booking.pricing.currency = data.pricing.currency || booking.pricing.currency;
+    }
+
+    if (data.specialRequests) {
+      booking.specialRequests = data.specialRequests;
+    }
+
+    if (data.notes) {
+      booking.notes = data.notes;
+    }
+
+    // Move the inventory before saving the new dates, so a failed claim leaves
+    // the booking on the nights it holds. Cancelled and finished bookings hold
+    // nothing, and claiming for them would sell units nobody will use.
+    const movesStay = datesChanged && INVENTORY_HOLDING_STATUSES.includes(booking.status);
+    if (movesStay) {
+      await moveStayInventory(booking, oldCheckIn, oldCheckOut);
+    }
+
+    await booking.save();
+    logger.info(`[Webhook] Booking ${booking._id} updated successfully`);
+
+    if (movesStay) {
+      // The old unit placement no longer covers the new dates
+      await unitAssignmentService.tryReassignBooking(booking);
+
+      logger.info(`[Webhook] Inventory updated for booking ${booking._id} date change`);
+    }
+
+    // Status last, so a cancellation releases the stay as it now stands
+    if (data.status) {
+      const newStatus = mapOTAStatusToBookingStatus(data.status);
+      if (newStatus !== booking.status) {
+        await transitionOTABooking(booking, newStatus, `Status changed on ${channel}`);
+      }
+    }
+
+    // TODO: Send notification if status or dates changed
+  } catch (error) {
+    logger.error(`[Webhook] Error handling booking updated:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Handle booking cancelled event
+ */
+async function handleBookingCancelled(channel: OTAProvider, data: any, signer: IChannel | null): Promise<void> {
+  logger.info(`[Webhook] Booking cancelled on ${channel}`, {
+    bookingId: data.id,
+    cancellationReason: data.cancellationReason
+  });
+
+  try {
+    // Find existing booking
+    const booking = await Booking.findOne({
+      channelBookingId: data.id,
+      channel: mapOTAProviderToBookingChannel(channel)
+    });
+
+    if (!booking) {
+      logger.warn(`[Webhook] Booking ${data.id} not found, cannot cancel`);
+      return;
+    }
+    assertChannelProperty(signer, booking.property);
+
+    if (booking.status === BookingStatus.CANCELLED) {
+      logger.info(`[Webhook] Booking ${booking._id} already cancelled`);
+      return;
+    }
+
+    // Cancelling releases the booking's inventory and unit
+    const reason: string = data.cancellationReason || 'Cancelled via OTA';
+    booking.cancellationReason = reason;
+    await transitionOTABooking(booking, BookingStatus.CANCELLED, reason);
+
+    // TODO: Process refund if applicable
+    // TODO: Send cancellation notification to property owner
+  } catch (error) {
+    logger.error(`[Webhook] Error handling booking cancelled:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Handle property created event
+ */
+async function handlePropertyCreated(channel: OTAProvider, data: any): Promise<void> {
+  logger.info(`[Webhook] Property created on ${channel}`, {
+    propertyId: data.id,
+    name: data.name
+  });
+
+  // TODO: Create or link property in main database
+  // - Check if property already exists (by external ID)
+  // - Create new property record or update mapping
+  // - Store OTA-specific property ID
+}
+
+/**
+ * Handle property updated event
+ */
+async function handlePropertyUpdated(channel: OTAProvider, data: any): Promise<void> {
+  logger.info(`[Webhook] Property updated on ${channel}`, {
+    propertyId: data.id
+  });
+
+  // TODO: Update property in main database
+  // - Find property by OTA ID
+  // - Update property details
+  // - Sync changes to other OTAs if needed
+}
+
+/**
+ * Handle calendar updated event
+ */
+async function handleCalendarUpdated(channel: OTAProvider, data: any): Promise<void> {
+  logger.info(`[Webhook] Calendar updated on ${channel}`, {
+    propertyId: data.propertyId,
+    startDate: data.startDate,
+    endDate: data.endDate
+  });
+
+  // TODO: Update calendar in main database
+  // - Update availability for date range
+  // - Sync to other OTAs if needed
+  // - Check for conflicts
+}
+
+/**
+ * Handle rate updated event
+ */
+async function handleRateUpdated(channel: OTAProvider, data: any): Promise<void> {
+  logger.info(`[Webhook] Rate updated on ${channel}`, {
+    propertyId: data.propertyId,
+    date: data.date,
+    rate: data.rate
+  });
+
+  // TODO: Update rates in main database
+  // - Update rate for specific date
+  // - Sync to other OTAs if needed
+  // - Apply rate parity rules
+}
+
+// ==================== HELPER FUNCTIONS ====================
+
+/**
+ * Load the channel whose secret signed a webhook
+ */
+async function loadSigningChannel(channelId: mongoose.Types.ObjectId): Promise<IChannel> {
+  const channel = await Channel.findById(channelId);
+  if (!channel) {
+    throw new ChannelMappingError(`Signing channel ${channelId.toString()} no longer exists`);
+  }
+  return channel;
+}
+
+/**
+ * Reject a webhook about a property its signing channel is not connected to,
+ * so one channel's secret cannot file or change another's reservations
+ */
+function assertChannelProperty(signer: IChannel | null, propertyId: mongoose.Types.ObjectId): void {
+  if (signer && !signer.properties.some(id => id.equals(propertyId))) {
+    throw new ChannelMappingError(`Channel ${signer.name} is not connected to property ${propertyId.toString()}`);
+  }
+}
+
+/**
+ * Map OTA provider to booking channel
+ */
+function mapOTAProviderToBookingChannel(provider: OTAProvider): BookingChannel {
+  switch (provider) {
+    case OTAProvider.AIRBNB:
+      return BookingChannel.AIRBNB;
+    case OTAProvider.BOOKING:
+      return BookingChannel.BOOKING;
+    case OTAProvider.EXPEDIA:
+      return BookingChannel.EXPEDIA;
+    case OTAProvider.AGODA:
+      return BookingChannel.AGODA;
+    case OTAProvider.VRBO:
+      return BookingChannel.VRBO;
+    default:
+      return BookingChannel.OTHER;
+  }
+}
+
+/**
+ * Map OTA provider to the channel type its mappings are kept under
+ */
+function mapOTAProviderToChannelType(provider: OTAProvider): ChannelType {
+  switch (provider) {
+    case OTAProvider.AIRBNB:
+      return ChannelType.AIRBNB;
+    case OTAProvider.BOOKING:
+      return ChannelType.BOOKING;
+    case OTAProvider.EXPEDIA:
+      return ChannelType.EXPEDIA;
+    case OTAProvider.AGODA:
+      return ChannelType.AGODA;
+    case OTAProvider.VRBO:
+      return ChannelType.VRBO;
+    default:
+      return ChannelType.OTHER;
+  }
+}
+
+/**
+ * Map OTA booking status to internal booking status
+ */
+function mapOTAStatusToBookingStatus(otaStatus: string): BookingStatus {
+  const statusMap: Record<string, BookingStatus> = {
+    'pending': BookingStatus.PENDING,
+    'confirmed': BookingStatus.CONFIRMED,
+    'checked-in': BookingStatus.CHECKED_IN,
+    'checked_in': BookingStatus.CHECKED_IN,
+    'checked-out': BookingStatus.CHECKED_OUT,
+    'checked_out': BookingStatus.CHECKED_OUT,
+    'cancelled': BookingStatus.CANCELLED,
+    'canceled': BookingStatus.CANCELLED,
+    'no-show': BookingStatus.NO_SHOW,
+    'no_show': BookingStatus.NO_SHOW,
+    'modified': BookingStatus.MODIFIED
+  };
+
+  return statusMap[otaStatus.toLowerCase()] || BookingStatus.PENDING;
+}
+
+/**
+ * Apply an OTA status change; the OTA is the source of truth for its own
+ * bookings, so changes our transition table rejects are logged, not retried
+ */
+async function transitionOTABooking(booking: IBooking, newStatus: BookingStatus, reason: string): Promise<void> {
+  try {
+    await bookingStatusService.transition(booking, newStatus, { source: StatusChangeSource.OTA, reason });
+  } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      logger.warn(`[Webhook] Ignored status change for booking ${booking._id}: ${error.message}`);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move a booking's claims from its old stay to the dates now on it; when the
+ * new stay cannot be claimed the old nights are claimed back
+ */
+async function moveStayInventory(booking: IBooking, oldCheckIn: Date, oldCheckOut: Date): Promise<void> {
+  await inventoryReservationService.release({
+    propertyId: booking.property,
+    roomId: booking.room,
+    checkIn: oldCheckIn,
+    checkOut: oldCheckOut,
+    bookingId: booking._id as mongoose.Types.ObjectId
+  });
+
+  try {
+    await reserveInventoryForBooking(booking);
+  } catch (error) {
+    booking.checkIn = oldCheckIn;
+    booking.checkOut = oldCheckOut;
+    await reserveInventoryForBooking(booking);
+    throw error;
+  }
+}
+
+/**
+ * Reserve shared inventory for an OTA booking. A stay the pool cannot fit
+ * is claimed anyway: its nights go negative, so they stay closed on every
+ * channel and show up as oversold until the overbooking is resolved.
+ */
+async function reserveInventoryForBooking(booking: IBooking): Promise<void> {
+  const reservation = {
+    propertyId: booking.property,
+    roomId: booking.room,
+    checkIn: booking.checkIn,
+    checkOut: booking.checkOut,
+    bookingId: booking._id as mongoose.Types.ObjectId,
+    channel: booking.channel,
+    guestName: `${booking.guestInfo.firstName} ${booking.guestInfo.lastName}`
+  };
+
+  try {
+    await inventoryReservationService.reserve(reservation);
+  } catch (error) {
+    if (!(error instanceof ConflictError)) {
+      throw error;
+    }
+
+    const oversold = await inventoryReservationService.forceReserve(reservation);
+    logger.error(`[Webhook] Overbooking: ${booking.channel} booking ${booking.channelBookingId} oversells ${oversold.length} nights`, {
+      bookingId: booking._id,
+      nights: oversold.map(date => date.toISOString()),
+      errors: error.errors
+    });
+  }
+}
+
+export const webhookProcessingService = new WebhookProcessingService();
+export { WebhookProcessingService };
+export default webhookProcessingService;
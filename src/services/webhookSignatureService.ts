@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Channel, { IChannel } from '../models/Channel';
+import { OTAProvider } from './OTAService';
+import { logger } from '../config/logger';
+import { createError } from '../utils/errors';
+
+type ObjectIdLike = string | mongoose.Types.ObjectId;
+type HeaderValue = string | string[] | undefined;
+
+// How far a webhook's timestamp may be from our clock before it counts as a replay
+const TIMESTAMP_TOLERANCE_SECONDS = parseInt(process.env['WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS'] ?? '300', 10);
+// How long a rotated-out secret keeps verifying webhooks
+const DEFAULT_ROTATION_OVERLAP_HOURS = parseInt(process.env['WEBHOOK_SECRET_OVERLAP_HOURS'] ?? '24', 10);
+
+// How a provider signs its webhooks
+export interface IWebhookSignatureScheme {
+  signatureHeader: string;              // Lower-case header name
+  timestampHeader?: string;             // Unset: the payload's own (signed) timestamp is used
+  algorithm: 'sha1' | 'sha256' | 'sha512';
+  encoding: 'hex' | 'base64';
+  prefix?: string;                      // Stripped from each signature, e.g. 'sha256='
+  // Bytes that are signed; defaults to `${timestamp}.${body}` with a
+  // timestamp header and to the body alone without one
+  signedContent?: (rawBody: string, timestamp?: string) => string;
+}
+
+// Request to verify
+export interface IWebhookRequest {
+  headers: Record<string, HeaderValue>;
+  rawBody?: Buffer | string;
+  payloadTimestamp?: unknown;
+}
+
+// Verification outcome
+export interface IWebhookVerification {
+  valid: boolean;
+  channelId?: mongoose.Types.ObjectId; // Channel whose secret matched
+  retiredSecret?: boolean;             // Matched a secret that was rotated out
+  reason?: string;                     // Why the webhook was rejected
+}
+
+/**
+ * Webhook Signature Service
+ *
+ * Checks that an OTA webhook was signed with the API secret of one of our
+ * active channels of that provider. Each provider's header, algorithm and
+ * encoding is a scheme that can be replaced with registerScheme. The
+ * timestamp must be within the tolerance to stop replays, and a rotated
+ * secret keeps verifying for an overlap period so the OTA can switch over.
+ */
+class WebhookSignatureService {
+  private schemes = new Map<OTAProvider, IWebhookSignatureScheme>([
+    [OTAProvider.AIRBNB, {
+      signatureHeader: 'x-airbnb-signature',
+      timestampHeader: 'x-airbnb-timestamp',
+      algorithm: 'sha256',
+      encoding: 'hex'
+    }],
+    [OTAProvider.BOOKING, {
+      signatureHeader: 'x-booking-signature',
+      timestampHeader: 'x-booking-timestamp',
+      algorithm: 'sha256',
+      encoding: 'base64'
+    }],
+    [OTAProvider.EXPEDIA, {
+      signatureHeader: 'x-expedia-signature',
+      algorithm: 'sha256',
+      encoding: 'hex',
+      prefix: 'sha256='
+    }],
+    [OTAProvider.AGODA, {
+      signatureHeader: 'x-agoda-signature',
+      timestampHeader: 'x-agoda-timestamp',
+      algorithm: 'sha512',
+      encoding: 'hex'
+    }],
+    [OTAProvider.VRBO, {
+      signatureHeader: 'x-vrbo-signature',
+      timestampHeader: 'x-vrbo-timestamp',
+      algorithm: 'sha256',
+      encoding: 'base64'
+    }]
+  ]);
+
+  /**
+   * Use another signature scheme for a provider
+   */
+  public registerScheme(provider: OTAProvider, scheme: IWebhookSignatureScheme): void {
+    this.schemes.set(provider, { ...scheme, signatureHeader: scheme.signatureHeader.toLowerCase() });
+  }
+
+  public getScheme(provider: OTAProvider): IWebhookSignatureScheme | undefined {
+    return this.schemes.get(provider);
+  }
+
+  /**
+   * Verify a webhook against the secrets of the provider's active channels
+   */
+  public async verify(provider: OTAProvider, request: IWebhookRequest): Promise<IWebhookVerification> {
+    const scheme = this.schemes.get(provider);
+    if (!scheme) {
+      return { valid: false, reason: `No signature scheme for ${provider}` };
+    }
+
+    if (request.rawBody === undefined || request.rawBody.length === 0) {
+      return { valid: false, reason: 'Missing request body' };
+    }
+
+    const signatures = this.readSignatures(scheme, request.headers);
+    if (signatures.length === 0) {
+      return { valid: false, reason: 'Missing webhook signature' };
+    }
+
+    const timestamp = scheme.timestampHeader
+      ? this.readHeader(request.headers, scheme.timestampHeader)
+      : request.payloadTimestamp;
+    const signedAt = this.parseTimestamp(timestamp);
+    if (!signedAt) {
+      return { valid: false, reason: 'Missing or invalid webhook timestamp' };
+    }
+    if (Math.abs(Date.now() - signedAt.getTime()) > TIMESTAMP_TOLERANCE_SECONDS * 1000) {
+      return { valid: false, reason: 'Webhook timestamp is outside the allowed tolerance' };
+    }
+
+    const rawBody = request.rawBody.toString();
+    const content = scheme.signedContent
+      ? scheme.signedContent(rawBody, scheme.timestampHeader ? String(timestamp) : undefined)
+      : scheme.timestampHeader ? `${String(timestamp)}.${rawBody}` : rawBody;
+
+    const channels = await Channel.find({ type: provider, isActive: true });
+    const now = new Date();
+
+    for (const channel of channels) {
+      for (const candidate of this.candidateSecrets(channel, now)) {
+        const expected = crypto.createHmac(scheme.algorithm, candidate.secret).update(content).digest(scheme.encoding);
+        if (signatures.some(signature => this.safeEqual(signature, expected))) {
+          return { valid: true, channelId: channel._id as mongoose.Types.ObjectId, retiredSecret: candidate.retired };
+        }
+      }
+    }
+
+    return { valid: false, reason: 'Signature does not match any channel secret' };
+  }
+
+  /**
+   * Sign a payload the way a provider would; used by tests and mock OTAs
+   */
+  public sign(provider: OTAProvider, secret: string, rawBody: string, timestamp?: string): string {
+    const scheme = this.schemes.get(provider);
+    if (!scheme) {
+      throw createError.validation(`No signature scheme for ${provider}`);
+    }
+
+    const content = scheme.signedContent
+      ? scheme.signedContent(rawBody, timestamp)
+      : timestamp !== undefined ? `${timestamp}.${rawBody}` : rawBody;
+
+    return `${scheme.prefix ?? ''}${crypto.createHmac(scheme.algorithm, secret).update(content).digest(scheme.encoding)}`;
+  }
+
+  /**
+   * Replace a channel's API secret; the old one keeps verifying webhooks
+   * for the overlap period
+   */
+  public async rotateSecret(
+    channelId: ObjectIdLike,
+    newSecret: string,
+    overlapHours: number = DEFAULT_ROTATION_OVERLAP_HOURS
+  ): Promise<IChannel> {
+    const channel = await Channel.findById(channelId);
+    if (!channel) {
+      throw createError.notFound('Channel not found');
+    }
+
+    const current = channel.apiCredentials.apiSecret;
+    if (newSecret === current) {
+      throw createError.validation('New secret must differ from the current secret');
+    }
+
+    const now = new Date();
+    const retired = (channel.apiCredentials.retiredSecrets ?? []).filter(entry => entry.expiresAt > now);
+    if (overlapHours > 0) {
+      retired.push({ secret: current, expiresAt: new Date(now.getTime() + overlapHours * 3600000) });
+    }
+
+    channel.apiCredentials.apiSecret = newSecret;
+    channel.apiCredentials.retiredSecrets = retired;
+    channel.markModified('apiCredentials');
+    await channel.save();
+
+    logger.info(`API secret rotated for channel ${String(channel._id)} (${overlapHours}h overlap)`);
+
+    return channel;
+  }
+
+  private candidateSecrets(channel: IChannel, now: Date): Array<{ secret: string; retired: boolean }> {
+    const candidates = [{ secret: channel.apiCredentials.apiSecret, retired: false }];
+
+    for (const entry of channel.apiCredentials.retiredSecrets ?? []) {
+      if (entry.expiresAt > now) {
+        candidates.push({ secret: entry.secret, retired: true });
+      }
+    }
+
+    return candidates.filter(candidate => candidate.secret);
+  }
+
+  /**
+   * Signatures in the header; several may be sent, comma separated, while
+   * the provider itself rotates
+   */
+  private readSignatures(scheme: IWebhookSignatureScheme, headers: Record<string, HeaderValue>): string[] {
+    const value = this.readHeader(headers, scheme.signatureHeader);
+    if (!value) {
+      return [];
+    }
+
+    return value
+      .split(',')
+      .map(signature => signature.trim())
+      .map(signature => scheme.prefix && signature.startsWith(scheme.prefix) ? signature.slice(scheme.prefix.length) : signature)
+      .filter(signature => signature.length > 0);
+  }
+
+  private readHeader(headers: Record<string, HeaderValue>, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value.join(',') : value;
+  }
+
+  /**
+   * Unix seconds, Unix milliseconds or an ISO date
+   */
+  private parseTimestamp(value: unknown): Date | null {
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value.trim()))) {
+      const number = Number(value);
+      const date = new Date(number < 1e12 ? number * 1000 : number);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    if (typeof value === 'string' && value.trim().length > 0) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date;
+    }
+
+    return null;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && crypto.timingSafeEqual(left, right);
+  }
+}
+
+export const webhookSignatureService = new WebhookSignatureService();
+export { WebhookSignatureService };
+export default webhookSignatureService;
@@ -98,6 +98,12 @@ export class BookingError extends BaseError {
   }
 }
 
+export class StatusTransitionError extends BaseError {
+  constructor(message: string = 'Invalid status transition', errors?: ErrorDetail[]) {
+    super(message, 409, 'INVALID_STATUS_TRANSITION', true, errors);
+  }
+}
+
 export class CalendarError extends BaseError {
   constructor(message: string = 'Calendar operation failed', errors?: ErrorDetail[]) {
     super(message, 400, 'CALENDAR_ERROR', true, errors);
@@ -116,6 +122,12 @@ export class ChannelError extends BaseError {
   }
 }
 
+export class ChannelMappingError extends BaseError {
+  constructor(message: string = 'Channel mapping is incomplete', errors?: ErrorDetail[]) {
+    super(message, 422, 'CHANNEL_MAPPING_ERROR', true, errors);
+  }
+}
+
 // External Service Errors
 export class ExternalServiceError extends BaseError {
   constructor(message: string = 'External service error', errors?: ErrorDetail[]) {
@@ -129,6 +141,17 @@ export class OTAServiceError extends BaseError {
   }
 }
 
+// Failed call to an OTA through its channel adapter; retryable when the
+// OTA may accept the same call later (rate limits, outages, timeouts)
+export class ChannelAdapterError extends BaseError {
+  public readonly retryable: boolean;
+
+  constructor(message: string = 'Channel adapter error', retryable: boolean = false, errors?: ErrorDetail[]) {
+    super(message, 502, 'CHANNEL_ADAPTER_ERROR', true, errors);
+    this.retryable = retryable;
+  }
+}
+
 // File Upload Errors
 export class FileUploadError extends BaseError {
   constructor(message: string = 'File upload failed', errors?: ErrorDetail[]) {
@@ -318,15 +341,18 @@ export const createError = {
   conflict: (message?: string, errors?: ErrorDetail[]) => new ConflictError(message, errors),
   duplicate: (message?: string, errors?: ErrorDetail[]) => new DuplicateError(message, errors),
   booking: (message?: string, errors?: ErrorDetail[]) => new BookingError(message, errors),
+  statusTransition: (message?: string, errors?: ErrorDetail[]) => new StatusTransitionError(message, errors),
   calendar: (message?: string, errors?: ErrorDetail[]) => new CalendarError(message, errors),
   ratePlan: (message?: string, errors?: ErrorDetail[]) => new RatePlanError(message, errors),
   channel: (message?: string, errors?: ErrorDetail[]) => new ChannelError(message, errors),
+  channelMapping: (message?: string, errors?: ErrorDetail[]) => new ChannelMappingError(message, errors),
   fileUpload: (message?: string, errors?: ErrorDetail[]) => new FileUploadError(message, errors),
   fileSize: (message?: string, errors?: ErrorDetail[]) => new FileSizeError(message, errors),
   fileType: (message?: string, errors?: ErrorDetail[]) => new FileTypeError(message, errors),
   database: (message?: string, errors?: ErrorDetail[]) => new DatabaseError(message, errors),
   externalService: (message?: string, errors?: ErrorDetail[]) => new ExternalServiceError(message, errors),
   otaService: (message?: string, errors?: ErrorDetail[]) => new OTAServiceError(message, errors),
+  channelAdapter: (message?: string, retryable?: boolean, errors?: ErrorDetail[]) => new ChannelAdapterError(message, retryable, errors),
   emailService: (message?: string, errors?: ErrorDetail[]) => new EmailServiceError(message, errors),
   rateLimit: (message?: string, errors?: ErrorDetail[]) => new RateLimitError(message, errors),
   auditLog: (message?: string, errors?: ErrorDetail[]) => new AuditLogError(message, errors)
@@ -340,13 +366,16 @@ export default {
   NotFoundError,
   ConflictError,
   BookingError,
+  StatusTransitionError,
   CalendarError,
   RatePlanError,
   ChannelError,
+  ChannelMappingError,
   FileUploadError,
   DatabaseError,
   ExternalServiceError,
   OTAServiceError,
+  ChannelAdapterError,
   EmailServiceError,
   RateLimitError,
   AuditLogError,
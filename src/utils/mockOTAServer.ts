@@ -0,0 +1,230 @@
+import express, { Request, Response, NextFunction } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OTAProvider, CalendarUpdate } from '../services/OTAService';
+import { logger } from '../config/logger';
+
+// Listing served by the mock OTA
+export interface IMockOTAListing {
+  id: string;
+  name: string;
+  rooms: Array<{
+    id: string;
+    name: string;
+    ratePlans?: Array<{ id: string; name: string }>;
+  }>;
+}
+
+// Reservation served by the mock OTA
+export interface IMockOTAReservation {
+  id: string;
+  status?: 'confirmed' | 'modified' | 'cancelled';
+  propertyId: string;
+  roomId?: string;
+  ratePlanId?: string;
+  checkIn: string;
+  checkOut: string;
+  guestInfo?: Record<string, string>;
+  guests?: { adults: number; children: number };
+  pricing: { nightlyRate?: number; total: number; currency: string };
+}
+
+// Mock OTA options
+export interface IMockOTAOptions {
+  apiKey?: string; // only this key is accepted; any key when unset
+}
+
+interface IStoredReservation {
+  reservation: IMockOTAReservation;
+  acknowledged: boolean;
+  updatedAt: Date;
+}
+
+interface IInjectedFailure {
+  status: number;
+  message: string;
+  remaining: number;
+}
+
+/**
+ * Mock OTA Server
+ *
+ * In-process stand-in for the generic OTA REST API spoken by OTAService,
+ * so connection tests, reservation pulls and ARI pushes can run without a
+ * network. Listings and reservations are seeded per provider; received
+ * calendar updates and acknowledgements are kept for inspection.
+ *
+ * Reservations are listed until acknowledged, and again when changed.
+ */
+export class MockOTAServer {
+  private server?: http.Server;
+  private listings: Map<string, IMockOTAListing[]> = new Map();
+  private reservations: Map<string, Map<string, IStoredReservation>> = new Map();
+  private calendarUpdates: Map<string, CalendarUpdate[]> = new Map();
+  private failure?: IInjectedFailure;
+
+  constructor(private readonly options: IMockOTAOptions = {}) {}
+
+  /**
+   * Listen on the port (a free one by default); resolves with the base URL
+   */
+  public async start(port: number = 0): Promise<string> {
+    const app = this.createApp();
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = app.listen(port, '127.0.0.1', () => resolve());
+      this.server.once('error', reject);
+    });
+
+    const url = this.getUrl();
+    logger.info(`Mock OTA listening on ${url}`);
+    return url;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  public getUrl(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+
+    if (!address) {
+      throw new Error('Mock OTA is not running');
+    }
+
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Forget every listing, reservation, update and injected failure
+   */
+  public reset(): void {
+    this.listings.clear();
+    this.reservations.clear();
+    this.calendarUpdates.clear();
+    this.failure = undefined;
+  }
+
+  public addListing(provider: OTAProvider, listing: IMockOTAListing): void {
+    this.listings.set(provider, [...(this.listings.get(provider) ?? []), listing]);
+  }
+
+  /**
+   * Add a reservation, or replace one with the same ID as a modification
+   */
+  public addReservation(provider: OTAProvider, reservation: IMockOTAReservation): void {
+    const reservations = this.reservations.get(provider) ?? new Map<string, IStoredReservation>();
+    reservations.set(reservation.id, { reservation, acknowledged: false, updatedAt: new Date() });
+    this.reservations.set(provider, reservations);
+  }
+
+  public isAcknowledged(provider: OTAProvider, reservationId: string): boolean {
+    return this.reservations.get(provider)?.get(reservationId)?.acknowledged ?? false;
+  }
+
+  public getCalendarUpdates(provider: OTAProvider): CalendarUpdate[] {
+    return this.calendarUpdates.get(provider) ?? [];
+  }
+
+  /**
+   * Answer the next API calls with an error status
+   */
+  public failNext(status: number, times: number = 1, message: string = 'Injected failure'): void {
+    this.failure = { status, message, remaining: times };
+  }
+
+  private createApp(): express.Application {
+    const app = express();
+    app.use(express.json());
+
+    app.get('/health', (_req: Request, res: Response) => {
+      res.status(200).json({ status: 'ok' });
+    });
+
+    app.use('/api/:provider', (req: Request, res: Response, next: NextFunction) => this.checkRequest(req, res, next));
+
+    app.get('/api/:provider/properties', (req: Request, res: Response) => {
+      const listings = this.listings.get(req.params['provider']) ?? [];
+      const pageSize = req.query['pageSize'] ? parseInt(req.query['pageSize'] as string, 10) : listings.length;
+
+      res.status(200).json({
+        success: true,
+        data: listings.slice(0, pageSize),
+        meta: { total: listings.length, page: 1, pageSize }
+      });
+    });
+
+    app.get(['/api/:provider/bookings', '/api/:provider/reservations'], (req: Request, res: Response) => {
+      const since = req.query['since'] ? new Date(req.query['since'] as string) : undefined;
+      const stored = [...(this.reservations.get(req.params['provider'])?.values() ?? [])];
+      const listed = stored.filter(entry => !entry.acknowledged || (since !== undefined && entry.updatedAt >= since));
+
+      res.status(200).json({
+        success: true,
+        data: listed.map(entry => entry.reservation),
+        meta: { total: listed.length }
+      });
+    });
+
+    app.post(['/api/:provider/bookings/:id/acknowledge', '/api/:provider/reservations/:id/acknowledge'], (req: Request, res: Response) => {
+      const entry = this.reservations.get(req.params['provider'])?.get(req.params['id']);
+
+      if (!entry) {
+        res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Reservation not found' } });
+        return;
+      }
+
+      entry.acknowledged = true;
+      res.status(200).json({ success: true, data: { id: entry.reservation.id, acknowledged: true } });
+    });
+
+    app.post(['/api/:provider/calendar', '/api/:provider/availability'], (req: Request, res: Response) => {
+      const provider = req.params['provider'];
+      const update = req.body as CalendarUpdate;
+      const listing = (this.listings.get(provider) ?? []).find(entry => entry.id === update.propertyId);
+
+      if (!listing || (update.roomId !== undefined && !listing.rooms.some(room => room.id === update.roomId))) {
+        res.status(400).json({ success: false, error: { code: 'UNKNOWN_LISTING', message: `Unknown listing ${update.propertyId}/${update.roomId}` } });
+        return;
+      }
+
+      this.calendarUpdates.set(provider, [...(this.calendarUpdates.get(provider) ?? []), update]);
+      res.status(200).json({ success: true });
+    });
+
+    return app;
+  }
+
+  /**
+   * Reject unknown providers, missing or wrong API keys and injected failures
+   */
+  private checkRequest(req: Request, res: Response, next: NextFunction): void {
+    const provider = req.params['provider'];
+    const apiKey = req.header('x-api-key');
+
+    if (!Object.values(OTAProvider).includes(provider as OTAProvider)) {
+      res.status(404).json({ success: false, error: { code: 'UNKNOWN_PROVIDER', message: `Unknown provider ${provider}` } });
+      return;
+    }
+
+    if (!apiKey || (this.options.apiKey !== undefined && apiKey !== this.options.apiKey)) {
+      res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Invalid API key' } });
+      return;
+    }
+
+    if (this.failure && this.failure.remaining > 0) {
+      this.failure.remaining--;
+      res.status(this.failure.status).json({ success: false, error: { code: 'INJECTED_FAILURE', message: this.failure.message } });
+      return;
+    }
+
+    next();
+  }
+}
+
+export default MockOTAServer;
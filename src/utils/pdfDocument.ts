@@ -0,0 +1,218 @@
+/**
+ * Minimal PDF writer
+ *
+ * Lays out plain text on A4 pages using the standard Courier fonts, which
+ * every PDF reader ships, so no font data is embedded. Courier is monospaced
+ * (each glyph is 0.6 of the font size wide), which is what lets columns be
+ * right-aligned without font metrics. Text is written in WinAnsi encoding;
+ * characters outside it are printed as '?'.
+ */
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const GLYPH_WIDTH = 0.6; // Courier advance width per point of font size
+const LINE_SPACING = 1.4;
+
+// WinAnsi code points that differ from Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+  'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+  '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+  '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Text placed on a page
+interface IPdfText {
+  text: string;
+  x: number;
+  y: number;
+  size: number;
+  bold: boolean;
+}
+
+// A column of a table row
+export interface IPdfColumn {
+  text: string;
+  x: number; // Left edge, or right edge when right-aligned
+  align?: 'left' | 'right';
+}
+
+// Text styling
+export interface IPdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  indent?: number;
+}
+
+export class PdfDocument {
+  private pages: IPdfText[][] = [[]];
+  private cursorY = PAGE_HEIGHT - MARGIN;
+
+  constructor(private readonly title: string) {}
+
+  /**
+   * Width of the writable area in points
+   */
+  public get contentWidth(): number {
+    return PAGE_WIDTH - MARGIN * 2;
+  }
+
+  /**
+   * Characters of a font size that fit in a width
+   */
+  public static charsFitting(width: number, size: number): number {
+    return Math.floor(width / (size * GLYPH_WIDTH));
+  }
+
+  /**
+   * Break text into lines of at most `width` characters at word boundaries
+   */
+  public static wrap(text: string, width: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        if (line && line.length + 1 + word.length > width) {
+          lines.push(line);
+          line = '';
+        }
+        line = line ? `${line} ${word}` : word;
+        while (line.length > width) {
+          lines.push(line.slice(0, width));
+          line = line.slice(width);
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Write a line of text, wrapping it to the page width
+   */
+  public text(text: string, options: IPdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+
+    for (const line of PdfDocument.wrap(text, PdfDocument.charsFitting(this.contentWidth - indent, size))) {
+      this.place([{ text: line, x: indent }], size, options.bold ?? false);
+    }
+    return this;
+  }
+
+  /**
+   * Write one row of columns at the same height
+   */
+  public row(columns: IPdfColumn[], options: IPdfTextOptions = {}): this {
+    this.place(columns, options.size ?? 10, options.bold ?? false);
+    return this;
+  }
+
+  /**
+   * Leave vertical space
+   */
+  public space(points = 8): this {
+    this.cursorY -= points;
+    return this;
+  }
+
+  /**
+   * Draw a horizontal rule as a row of dashes
+   */
+  public rule(size = 10): this {
+    return this.text('-'.repeat(PdfDocument.charsFitting(this.contentWidth, size)), { size });
+  }
+
+  /**
+   * Serialize the document
+   */
+  public toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontIds = { regular: 3, bold: 4 };
+    const pageIds: number[] = [];
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[fontIds.regular] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+    objects[fontIds.bold] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${this.encode(this.title)}) >>`;
+
+    for (const page of this.pages) {
+      const content = page
+        .map(item => `BT /F${item.bold ? 2 : 1} ${item.size} Tf ${item.x.toFixed(2)} ${item.y.toFixed(2)} Td (${this.encode(item.text)}) Tj ET`)
+        .join('\n');
+      const pageId = objects.length;
+      const contentId = pageId + 1;
+
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+      pageIds.push(pageId);
+    }
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    // Every character is a single byte, so string lengths are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private place(columns: IPdfColumn[], size: number, bold: boolean): void {
+    const lineHeight = size * LINE_SPACING;
+    if (this.cursorY - lineHeight < MARGIN) {
+      this.pages.push([]);
+      this.cursorY = PAGE_HEIGHT - MARGIN;
+    }
+    this.cursorY -= lineHeight;
+
+    const page = this.pages[this.pages.length - 1];
+    for (const column of columns) {
+      const width = Array.from(column.text).length * size * GLYPH_WIDTH;
+      page?.push({
+        text: column.text,
+        x: MARGIN + (column.align === 'right' ? column.x - width : column.x),
+        y: this.cursorY,
+        size,
+        bold
+      });
+    }
+  }
+
+  /**
+   * WinAnsi bytes of a string, escaped for a PDF literal string
+   */
+  private encode(text: string): string {
+    let encoded = '';
+
+    for (const char of text) {
+      const code = char.codePointAt(0) ?? 0x3f;
+      let byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x80 || code >= 0xa0) ? code : 0x3f);
+      if (code === 0x09) {
+        byte = 0x20;
+      }
+
+      const value = String.fromCharCode(byte);
+      encoded += value === '(' || value === ')' || value === '\\' ? `\\${value}` : value;
+    }
+
+    return encoded;
+  }
+}
+
+export default PdfDocument;
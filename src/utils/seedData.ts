@@ -5,6 +5,8 @@ import Booking, { BookingStatus, BookingChannel } from '../models/Booking';
 import RatePlan, { RatePlanType, RatePlanStatus, CancellationPolicy } from '../models/RatePlan';
 import Calendar, { CalendarStatus, CalendarChannel } from '../models/Calendar';
 import Channel, { ChannelType, ChannelStatus } from '../models/Channel';
+import RoomAvailability from '../models/RoomAvailability';
+import { inventoryMigrationService } from '../services/inventoryMigrationService';
 import { logger } from '../config/logger';
 
 /**
@@ -783,6 +785,9 @@ export class SeedData {
       const createdCalendar = await Calendar.insertMany(calendarEntries);
       logger.info(`Created ${createdCalendar.length} seed calendar entries`);
 
+      // Fold the per-channel entries into the pooled inventory
+      await inventoryMigrationService.migrateLegacyCalendar();
+
     } catch (error) {
       logger.error('Error creating seed calendar:', error);
       throw error;
@@ -797,6 +802,7 @@ export class SeedData {
       logger.warn('Clearing all seed data...');
 
       await Calendar.deleteMany({});
+      await RoomAvailability.deleteMany({});
       await Booking.deleteMany({});
       await RatePlan.deleteMany({});
       await Channel.deleteMany({});
@@ -0,0 +1,243 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../src/app';
+import Property from '../src/models/Property';
+import Channel, { IChannel, ChannelType, ChannelStatus } from '../src/models/Channel';
+import ChannelMapping from '../src/models/ChannelMapping';
+import AriPushTask, { AriPushStatus } from '../src/models/AriPushTask';
+import { OTAProvider } from '../src/services/OTAService';
+import { MockOTAServer } from '../src/utils/mockOTAServer';
+import { ariPushQueueService } from '../src/services/ariPushQueueService';
+import { inventoryEventService, IInventoryChangedEvent } from '../src/services/inventoryEventService';
+import { inventoryRepository } from '../src/services/inventoryRepository';
+import { inventoryReservationService } from '../src/services/inventoryReservationService';
+import { roomUnitService } from '../src/services/roomUnitService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty
+} from './utils/testHelpers';
+
+describe('ARI Push Queue', () => {
+  const API_KEY = 'booking-api-key-1';
+  const mockOTA = new MockOTAServer({ apiKey: API_KEY });
+
+  let baseUrl: string;
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+  let channel: IChannel;
+
+  // Stay nights starting the given number of days from today
+  const nights = (offset: number, count: number): Date[] => Array.from({ length: count }, (_, index) => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + offset + index);
+    return date;
+  });
+
+  // Skip the coalescing delay and retry backoff
+  const makeDue = async (): Promise<void> => {
+    await AriPushTask.updateMany({ status: AriPushStatus.PENDING }, { nextAttemptAt: new Date(Date.now() - 1000) });
+  };
+
+  const change = (dates: Date[], content: Partial<IInventoryChangedEvent> = {}): IInventoryChangedEvent => ({
+    propertyId,
+    roomId,
+    dates,
+    availability: true,
+    rates: true,
+    ...content
+  });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+    baseUrl = await mockOTA.start();
+  });
+
+  afterAll(async () => {
+    await mockOTA.stop();
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+    await AriPushTask.syncIndexes();
+    mockOTA.reset();
+    mockOTA.addListing(OTAProvider.BOOKING, {
+      id: 'BDC-1',
+      name: 'Test Hotel',
+      rooms: [{ id: 'BDC-1-DLX', name: 'Deluxe' }]
+    });
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]!._id;
+    await ChannelMapping.create({
+      channelType: ChannelType.BOOKING,
+      property: propertyId,
+      externalPropertyId: 'BDC-1',
+      rooms: [{ room: roomId, externalRoomId: 'BDC-1-DLX' }]
+    });
+
+    channel = await Channel.create({
+      name: 'Booking.com',
+      type: ChannelType.BOOKING,
+      displayName: 'Booking.com',
+      status: ChannelStatus.ACTIVE,
+      apiCredentials: { apiKey: API_KEY, apiSecret: 'booking-webhook-secret', additionalConfig: { baseUrl } },
+      syncSettings: {
+        autoSync: true,
+        syncInterval: 60,
+        syncDirection: 'bidirectional',
+        syncTypes: { bookings: true, rates: true, availability: true, propertyInfo: true },
+        retryAttempts: 3,
+        retryDelay: 5
+      },
+      performance: { totalBookings: 0, totalRevenue: 0, averageRating: 0, responseTime: 0, successRate: 0 },
+      rateParity: { enabled: false, tolerance: 5, checkInterval: 30, autoAdjust: false },
+      properties: [propertyId],
+      createdBy: new mongoose.Types.ObjectId()
+    });
+
+    await inventoryRepository.updateNights(propertyId, roomId, nights(1, 3), { rate: 180, currency: 'USD' });
+  });
+
+  afterEach(() => {
+    inventoryEventService.removeAllListeners();
+  });
+
+  it('should coalesce changes to a room type into one push of date ranges', async () => {
+    expect(await ariPushQueueService.enqueue(change(nights(1, 2), { availability: false }))).toBe(1);
+    expect(await ariPushQueueService.enqueue(change(nights(2, 2), { rates: false }))).toBe(1);
+
+    const tasks = await AriPushTask.find();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ status: AriPushStatus.PENDING, availability: true, rates: true });
+    expect(tasks[0]?.dates).toHaveLength(3);
+
+    // Nothing is pushed before the coalescing delay has passed
+    expect(await ariPushQueueService.processDue()).toBe(0);
+
+    await makeDue();
+    expect(await ariPushQueueService.processDue()).toBe(1);
+
+    const updates = mockOTA.getCalendarUpdates(OTAProvider.BOOKING);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      propertyId: 'BDC-1',
+      roomId: 'BDC-1-DLX',
+      updates: { available: true, availableUnits: 1, rate: 180 }
+    });
+    expect(updates[0]?.startDate).not.toBe(updates[0]?.endDate);
+    expect(await AriPushTask.countDocuments()).toBe(0);
+  });
+
+  it('should only queue for active outbound channels with the room type mapped', async () => {
+    expect(await ariPushQueueService.enqueue(change(nights(1, 1), { roomId: new mongoose.Types.ObjectId() }))).toBe(0);
+    expect(await ariPushQueueService.enqueue(change(nights(-3, 2)))).toBe(0);
+    expect(await ariPushQueueService.enqueue(change(nights(1, 1), { channel: ChannelType.AIRBNB }))).toBe(0);
+
+    await Channel.updateOne({ _id: channel._id }, { 'syncSettings.syncDirection': 'inbound' });
+    expect(await ariPushQueueService.enqueue(change(nights(1, 1)))).toBe(0);
+    expect(await AriPushTask.countDocuments()).toBe(0);
+  });
+
+  it('should retry a push while the OTA is down', async () => {
+    await ariPushQueueService.enqueue(change(nights(1, 3)));
+    await makeDue();
+
+    // The OTA is down for the first call and its retry
+    mockOTA.failNext(503, 2, 'Service unavailable');
+    await ariPushQueueService.processDue();
+
+    const retrying = await AriPushTask.findOne();
+    expect(retrying).toMatchObject({ status: AriPushStatus.PENDING, attempts: 1, lastError: 'ARI update failed: Service unavailable' });
+    expect(retrying!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    await makeDue();
+    await ariPushQueueService.processDue();
+
+    expect(mockOTA.getCalendarUpdates(OTAProvider.BOOKING)).toHaveLength(1);
+    expect(await AriPushTask.countDocuments()).toBe(0);
+  });
+
+  it('should fail refused updates and fold them into the next change', async () => {
+    mockOTA.reset();
+    mockOTA.addListing(OTAProvider.BOOKING, { id: 'BDC-1', name: 'Test Hotel', rooms: [{ id: 'BDC-1-STD', name: 'Standard' }] });
+
+    await ariPushQueueService.enqueue(change(nights(1, 2)));
+    await makeDue();
+    await ariPushQueueService.processDue();
+
+    const failed = await AriPushTask.findOne();
+    expect(failed?.status).toBe(AriPushStatus.FAILED);
+    expect(failed?.lastError).toMatch(/Unknown listing BDC-1\/BDC-1-DLX/);
+
+    const [stats] = await ariPushQueueService.getChannelStats(channel._id as mongoose.Types.ObjectId);
+    expect(stats).toMatchObject({ pendingUpdates: 0, failedUpdates: 1, lastError: expect.stringMatching(/Unknown listing/) });
+
+    await ariPushQueueService.enqueue(change(nights(3, 1), { availability: false }));
+
+    const tasks = await AriPushTask.find();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ status: AriPushStatus.PENDING, availability: true, rates: true });
+    expect(tasks[0]?.dates).toHaveLength(3);
+  });
+
+  it('should report pending updates and lag per channel', async () => {
+    await ariPushQueueService.enqueue(change(nights(1, 3)));
+    await AriPushTask.updateMany({}, { firstQueuedAt: new Date(Date.now() - 120000) });
+
+    const stats = await ariPushQueueService.getChannelStats();
+
+    expect(stats).toHaveLength(1);
+    expect(stats[0]).toMatchObject({ channelName: 'Booking.com', pendingUpdates: 1, pendingNights: 3, failedUpdates: 0, lastError: null });
+    expect(stats[0]?.lagSeconds).toBeGreaterThanOrEqual(120);
+
+    await makeDue();
+    await ariPushQueueService.processDue();
+
+    const [caughtUp] = await ariPushQueueService.getChannelStats();
+    expect(caughtUp).toMatchObject({ pendingUpdates: 0, pendingNights: 0, lagSeconds: 0, oldestQueuedAt: null });
+  });
+
+  it('should queue booking and inventory changes through inventory events', async () => {
+    ariPushQueueService.subscribeToInventoryEvents();
+    const [checkIn, , checkOut] = nights(1, 3);
+
+    await inventoryReservationService.reserve({
+      propertyId,
+      roomId,
+      checkIn: checkIn!,
+      checkOut: checkOut!,
+      bookingId: new mongoose.Types.ObjectId(),
+      channel: 'direct'
+    });
+    await inventoryRepository.updateNights(propertyId, roomId, nights(5, 1), { rate: 200, currency: 'USD' });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const task = await AriPushTask.findOne();
+    expect(task).toMatchObject({ availability: true, rates: true });
+    expect(task?.dates).toHaveLength(3);
+  });
+
+  it('should queue a unit going out of service', async () => {
+    const unit = await roomUnitService.createUnit(propertyId, roomId, { number: '101', floor: 1 });
+    await roomUnitService.createUnit(propertyId, roomId, { number: '102', floor: 1 });
+    ariPushQueueService.subscribeToInventoryEvents();
+    const [startDate, , endDate] = nights(1, 3);
+
+    await roomUnitService.addOutOfService(propertyId, unit._id, { startDate: startDate!, endDate: endDate! });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const task = await AriPushTask.findOne();
+    expect(task).toMatchObject({ status: AriPushStatus.PENDING, availability: true, rates: false });
+    expect(task?.dates).toHaveLength(2);
+  });
+
+  it('should keep the queue status routes private', async () => {
+    await request(app).get('/api/v1/channels/ari-queue').expect(401);
+    await request(app).get(`/api/v1/channels/${String(channel._id)}/ari-queue`).expect(401);
+  });
+});
@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking, BookingStatus } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { inventoryReservationService } from '../src/services/inventoryReservationService';
+import { bookingModificationService } from '../src/services/bookingModificationService';
+import { bookingEventService, IBookingModifiedEvent } from '../src/services/bookingEventService';
+import { ConflictError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Booking Modification Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+  let booking: IBooking;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const bookedNights = async (): Promise<number[]> => {
+    const nights = await RoomAvailability.find({ room: roomId, 'bookedRooms.bookingId': booking._id }).sort({ date: 1 });
+    return nights.map(night => Math.round((night.date.getTime() - day(0).getTime()) / 86400000));
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+    bookingEventService.removeAllListeners();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+
+    await RoomAvailability.insertMany([10, 11, 12, 13, 14].map(offset => ({
+      property: propertyId,
+      room: roomId,
+      date: day(offset),
+      totalRooms: 1,
+      availableRooms: 1
+    })));
+
+    booking = await Booking.create({
+      ...createTestBooking(propertyId, roomId),
+      checkIn: day(10),
+      checkOut: day(12),
+      pricing: { baseRate: 300, taxes: 30, fees: 20, discounts: 0, total: 350, currency: 'USD' }
+    });
+    await inventoryReservationService.reserve({
+      propertyId,
+      roomId,
+      checkIn: day(10),
+      checkOut: day(12),
+      bookingId: booking._id,
+      channel: booking.channel
+    });
+  });
+
+  it('should swap inventory to the new dates and reprice the stay', async () => {
+    const events: IBookingModifiedEvent[] = [];
+    bookingEventService.onModified(event => {
+      events.push(event);
+    });
+
+    const { booking: modified, modification } = await bookingModificationService.modifyBooking(booking._id, {
+      checkIn: day(11),
+      checkOut: day(14),
+      reason: 'Guest arrives a day later'
+    });
+
+    expect(await bookedNights()).toEqual([11, 12, 13]);
+    const released = await RoomAvailability.findOne({ room: roomId, date: day(10) });
+    expect(released?.availableRooms).toBe(1);
+
+    // 3 nights at the room base rate, taxes keep their 10% rate
+    expect(modified.pricing.baseRate).toBe(450);
+    expect(modified.pricing.taxes).toBe(45);
+    expect(modified.pricing.total).toBe(515);
+    expect(modified.status).toBe(BookingStatus.MODIFIED);
+
+    expect(modification.previousStatus).toBe(BookingStatus.CONFIRMED);
+    expect(modification.before.checkIn.getTime()).toBe(day(10).getTime());
+    expect(modification.after.checkOut.getTime()).toBe(day(14).getTime());
+    expect(modification.priceDifference).toBe(165);
+
+    await new Promise(resolve => setImmediate(resolve));
+    expect(events).toHaveLength(1);
+    expect(events[0].bookingId.toString()).toBe(booking._id.toString());
+  });
+
+  it('should leave the booking and its inventory untouched when a new night is sold out', async () => {
+    await RoomAvailability.updateOne({ room: roomId, date: day(12) }, { $set: { availableRooms: 0 } });
+
+    await expect(bookingModificationService.modifyBooking(booking._id, { checkOut: day(13) }))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    const unchanged = await Booking.findById(booking._id);
+    expect(unchanged?.checkOut.getTime()).toBe(day(12).getTime());
+    expect(unchanged?.modifications).toHaveLength(0);
+    expect(await bookedNights()).toEqual([10, 11]);
+  });
+
+  it('should not move the arrival of a checked-in booking', async () => {
+    await Booking.updateOne({ _id: booking._id }, { $set: { status: BookingStatus.CHECKED_IN } });
+
+    await expect(bookingModificationService.modifyBooking(booking._id, { checkIn: day(11) }))
+      .rejects.toThrow('Cannot change the check-in date of a checked-in booking');
+  });
+});
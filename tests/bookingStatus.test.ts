@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking, BookingStatus, StatusChangeSource } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { inventoryReservationService } from '../src/services/inventoryReservationService';
+import { bookingStatusService } from '../src/services/bookingStatusService';
+import { folioService } from '../src/services/folioService';
+import { PaymentMethod } from '../src/models/Folio';
+import { StatusTransitionError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Booking Status Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const createBooking = async (checkInOffset: number, checkOutOffset: number): Promise<IBooking> => {
+    const booking = await Booking.create({
+      ...createTestBooking(propertyId, roomId),
+      checkIn: day(checkInOffset),
+      checkOut: day(checkOutOffset),
+      status: BookingStatus.CONFIRMED
+    });
+    await inventoryReservationService.reserve({
+      propertyId,
+      roomId,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      bookingId: booking._id,
+      channel: booking.channel
+    });
+    return booking;
+  };
+
+  const availableOn = async (offset: number): Promise<number | undefined> => {
+    const night = await RoomAvailability.findOne({ room: roomId, date: day(offset) });
+    return night?.availableRooms;
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+
+    await RoomAvailability.insertMany([-1, 0, 1, 2, 3, 10, 11].map(offset => ({
+      property: propertyId,
+      room: roomId,
+      date: day(offset),
+      totalRooms: 1,
+      availableRooms: 1
+    })));
+  });
+
+  it('should reject transitions that are not in the transition table', async () => {
+    const booking = await createBooking(10, 12);
+    await bookingStatusService.transition(booking, BookingStatus.CANCELLED);
+
+    await expect(bookingStatusService.transition(booking._id, BookingStatus.CONFIRMED))
+      .rejects.toBeInstanceOf(StatusTransitionError);
+  });
+
+  it('should not check in before the check-in date', async () => {
+    const booking = await createBooking(10, 12);
+
+    await expect(bookingStatusService.transition(booking, BookingStatus.CHECKED_IN))
+      .rejects.toThrow('Booking cannot be checked in before its check-in date');
+  });
+
+  it('should release inventory and record history on cancellation', async () => {
+    const booking = await createBooking(10, 12);
+    const userId = new mongoose.Types.ObjectId().toString();
+
+    const cancelled = await bookingStatusService.transition(booking, BookingStatus.CANCELLED, {
+      userId,
+      reason: 'Plans changed'
+    });
+
+    expect(cancelled.status).toBe(BookingStatus.CANCELLED);
+    expect(cancelled.cancelledAt).toBeDefined();
+    expect(await availableOn(10)).toBe(1);
+    expect(await availableOn(11)).toBe(1);
+
+    const stored = await Booking.findById(booking._id);
+    expect(stored?.statusHistory.map(change => change.to)).toEqual([BookingStatus.CONFIRMED, BookingStatus.CANCELLED]);
+    expect(stored?.statusHistory[1].from).toBe(BookingStatus.CONFIRMED);
+    expect(stored?.statusHistory[1].changedBy?.toString()).toBe(userId);
+    expect(stored?.statusHistory[1].reason).toBe('Plans changed');
+  });
+
+  it('should honour the cancellation cutoff unless overridden or cancelled by the OTA', async () => {
+    const booking = await createBooking(0, 2);
+
+    await expect(bookingStatusService.transition(booking, BookingStatus.CANCELLED))
+      .rejects.toThrow('Booking can no longer be cancelled');
+
+    const cancelled = await bookingStatusService.transition(booking._id, BookingStatus.CANCELLED, {
+      source: StatusChangeSource.OTA
+    });
+    expect(cancelled.status).toBe(BookingStatus.CANCELLED);
+    expect(cancelled.statusHistory[cancelled.statusHistory.length - 1].source).toBe(StatusChangeSource.OTA);
+  });
+
+  it('should give back the unused nights on an early check-out', async () => {
+    const booking = await createBooking(-1, 3);
+    await bookingStatusService.transition(booking, BookingStatus.CHECKED_IN);
+    await folioService.recordPayment(booking, { amount: booking.pricing.total, method: PaymentMethod.CARD });
+    await bookingStatusService.transition(booking, BookingStatus.CHECKED_OUT);
+
+    expect(booking.checkedOutAt).toBeDefined();
+    expect(await availableOn(-1)).toBe(0);
+    expect(await availableOn(0)).toBe(1);
+    expect(await availableOn(2)).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking, BookingStatus } from '../src/models/Booking';
+import RatePlan, { CancellationPolicy, RatePlanType } from '../src/models/RatePlan';
+import Folio, { ChargeCategory, PaymentMethod } from '../src/models/Folio';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { cancellationPolicyService } from '../src/services/cancellationPolicyService';
+import { bookingStatusService } from '../src/services/bookingStatusService';
+import { folioService } from '../src/services/folioService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Cancellation Policy Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const ratePlanData = (cancellationPolicy: CancellationPolicy) => ({
+    property: propertyId,
+    room: roomId,
+    name: `${cancellationPolicy} rate`,
+    description: 'Test rate plan',
+    type: RatePlanType.STANDARD,
+    baseRate: 100,
+    cancellationPolicy,
+    validFrom: day(-30),
+    validTo: day(365),
+    createdBy: new mongoose.Types.ObjectId()
+  });
+
+  const createBooking = async (checkInOffset: number, nights: number, cancellationPolicy?: CancellationPolicy): Promise<IBooking> => {
+    const ratePlan = cancellationPolicy ? await RatePlan.create(ratePlanData(cancellationPolicy)) : undefined;
+
+    return Booking.create({
+      ...createTestBooking(propertyId, roomId),
+      checkIn: day(checkInOffset),
+      checkOut: day(checkInOffset + nights),
+      ratePlan: ratePlan?._id,
+      status: BookingStatus.CONFIRMED
+    });
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+  });
+
+  it('should use the structured rules of a custom policy, tightest window first', () => {
+    const ratePlan = new RatePlan({
+      ...ratePlanData(CancellationPolicy.CUSTOM),
+      cancellationRules: [
+        { hoursBeforeCheckIn: 48, penaltyType: 'nights', penaltyValue: 1 },
+        { hoursBeforeCheckIn: 14 * 24, penaltyType: 'percentage', penaltyValue: 25 }
+      ],
+      noShowPenalty: { penaltyType: 'fixed', penaltyValue: 80 }
+    });
+
+    const terms = cancellationPolicyService.getTerms(ratePlan);
+
+    expect(terms.rules.map(rule => rule.hoursBeforeCheckIn)).toEqual([14 * 24, 48]);
+    expect(terms.noShowPenalty).toMatchObject({ penaltyType: 'fixed', penaltyValue: 80 });
+  });
+
+  it('should quote free cancellation until the deadline', async () => {
+    const booking = await createBooking(10, 2);
+
+    const quote = await cancellationPolicyService.quote(booking);
+
+    expect(quote.policy).toBe(CancellationPolicy.FREE_CANCELLATION);
+    expect(quote.penalty).toBe(0);
+    expect(quote.freeCancellationUntil).toEqual(new Date(booking.checkIn.getTime() - 24 * 60 * 60 * 1000));
+  });
+
+  it('should charge the partial refund penalty inside its window', async () => {
+    const booking = await createBooking(3, 2, CancellationPolicy.PARTIAL_REFUND);
+
+    const quote = await cancellationPolicyService.quote(booking);
+
+    expect(quote.penalty).toBe(booking.pricing.total / 2);
+    expect(quote.freeCancellationUntil).toBeUndefined();
+  });
+
+  it('should post the penalty to the folio and return the refund on cancellation', async () => {
+    const booking = await createBooking(10, 2, CancellationPolicy.NON_REFUNDABLE);
+    await folioService.recordPayment(booking, { amount: booking.pricing.total + 50, method: PaymentMethod.CARD });
+
+    await bookingStatusService.transition(booking, BookingStatus.CANCELLED);
+
+    expect(booking.cancellationCharge).toMatchObject({
+      policy: CancellationPolicy.NON_REFUNDABLE,
+      penalty: booking.pricing.total,
+      refund: 50,
+      balanceDue: 0
+    });
+
+    const folio = await Folio.findOne({ booking: booking._id });
+    const penalties = folio?.transactions.filter(transaction => transaction.category === ChargeCategory.CANCELLATION);
+    expect(penalties?.map(transaction => transaction.amount)).toEqual([booking.pricing.total]);
+    expect(folio?.balance).toBe(-50);
+  });
+
+  it('should charge the no-show penalty and let staff waive penalties', async () => {
+    const noShow = await createBooking(-1, 2);
+    await bookingStatusService.transition(noShow, BookingStatus.NO_SHOW);
+    expect(noShow.cancellationCharge).toMatchObject({ noShow: true, penalty: noShow.pricing.total / 2 });
+    expect((await Folio.findOne({ booking: noShow._id }))?.balance).toBe(noShow.pricing.total / 2);
+
+    const waived = await createBooking(10, 2, CancellationPolicy.NON_REFUNDABLE);
+    await bookingStatusService.transition(waived, BookingStatus.CANCELLED, { waivePenalty: true });
+    expect(waived.cancellationCharge).toMatchObject({ penalty: 0, waived: true });
+    expect((await Folio.findOne({ booking: waived._id }))?.balance).toBe(0);
+  });
+});
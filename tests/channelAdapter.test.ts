@@ -0,0 +1,206 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../src/app';
+import Property from '../src/models/Property';
+import Booking from '../src/models/Booking';
+import Channel, { IChannel, ChannelType, ChannelStatus } from '../src/models/Channel';
+import ChannelMapping from '../src/models/ChannelMapping';
+import WebhookInboxEvent from '../src/models/WebhookInboxEvent';
+import { OTAProvider } from '../src/services/OTAService';
+import { MockOTAServer } from '../src/utils/mockOTAServer';
+import { channelAdapterService, IChannelAdapter } from '../src/services/channelAdapterService';
+import { genericRestChannelAdapter } from '../src/services/genericRestChannelAdapter';
+import { channelSyncService, ChannelSyncType } from '../src/services/channelSyncService';
+import { inventoryRepository } from '../src/services/inventoryRepository';
+import { webhookInboxService } from '../src/services/webhookInboxService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty
+} from './utils/testHelpers';
+
+describe('Channel Adapters', () => {
+  const API_KEY = 'booking-api-key-1';
+  const mockOTA = new MockOTAServer({ apiKey: API_KEY });
+
+  let baseUrl: string;
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+  let channel: IChannel;
+
+  // Stay nights starting the given number of days from today
+  const nights = (offset: number, count: number): Date[] => Array.from({ length: count }, (_, index) => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() + offset + index);
+    return date;
+  });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+    baseUrl = await mockOTA.start();
+  });
+
+  afterAll(async () => {
+    await mockOTA.stop();
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+    await WebhookInboxEvent.syncIndexes();
+    mockOTA.reset();
+    mockOTA.addListing(OTAProvider.BOOKING, {
+      id: 'BDC-1',
+      name: 'Test Hotel',
+      rooms: [{ id: 'BDC-1-DLX', name: 'Deluxe' }]
+    });
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]!._id;
+    await ChannelMapping.create({
+      channelType: ChannelType.BOOKING,
+      property: propertyId,
+      externalPropertyId: 'BDC-1',
+      rooms: [{ room: roomId, externalRoomId: 'BDC-1-DLX' }]
+    });
+
+    channel = await Channel.create({
+      name: 'Booking.com',
+      type: ChannelType.BOOKING,
+      displayName: 'Booking.com',
+      status: ChannelStatus.ACTIVE,
+      apiCredentials: { apiKey: API_KEY, apiSecret: 'booking-webhook-secret', additionalConfig: { baseUrl } },
+      syncSettings: {
+        autoSync: true,
+        syncInterval: 60,
+        syncDirection: 'bidirectional',
+        syncTypes: { bookings: true, rates: true, availability: true, propertyInfo: true },
+        retryAttempts: 3,
+        retryDelay: 5
+      },
+      performance: { totalBookings: 0, totalRevenue: 0, averageRating: 0, responseTime: 0, successRate: 0 },
+      rateParity: { enabled: false, tolerance: 5, checkInterval: 30, autoAdjust: false },
+      properties: [propertyId],
+      createdBy: new mongoose.Types.ObjectId()
+    });
+  });
+
+  it('should test the connection against the OTA and record failures', async () => {
+    const connected = await channelSyncService.testConnection(channel);
+    expect(connected.connected).toBe(true);
+
+    channel.apiCredentials.apiKey = 'wrong-key';
+    const refused = await channelSyncService.testConnection(channel);
+    expect(refused).toMatchObject({ connected: false, message: 'Connection test failed: credentials were rejected' });
+
+    const stored = await Channel.findById(channel._id);
+    expect(stored?.status).toBe(ChannelStatus.ERROR);
+    expect(stored?.lastError?.message).toMatch(/credentials were rejected/);
+  });
+
+  it('should pull reservations into the inbox, acknowledge them and file them as bookings', async () => {
+    const [checkIn, , checkOut] = nights(10, 3);
+    mockOTA.addReservation(OTAProvider.BOOKING, {
+      id: 'BDC-RES-1',
+      propertyId: 'BDC-1',
+      roomId: 'BDC-1-DLX',
+      checkIn: checkIn!.toISOString(),
+      checkOut: checkOut!.toISOString(),
+      guestInfo: { firstName: 'Ines', lastName: 'Costa', email: 'ines@example.com' },
+      pricing: { nightlyRate: 150, total: 300, currency: 'USD' }
+    });
+
+    const result = await channelSyncService.sync(channel, ChannelSyncType.BOOKINGS);
+
+    expect(result.status).toBe('success');
+    expect(result.results.bookings).toMatchObject({ synced: 1, failed: 0 });
+    expect(mockOTA.isAcknowledged(OTAProvider.BOOKING, 'BDC-RES-1')).toBe(true);
+    expect(await WebhookInboxEvent.countDocuments({ provider: 'booking', event: 'booking.created' })).toBe(1);
+
+    await webhookInboxService.processDue();
+    const booking = await Booking.findOne({ channelBookingId: 'BDC-RES-1' });
+    expect(booking?.property.toString()).toBe(propertyId.toString());
+    expect(booking?.room.toString()).toBe(roomId.toString());
+
+    // Acknowledged reservations are not pulled again
+    const again = await channelSyncService.sync(channel, ChannelSyncType.BOOKINGS);
+    expect(again.results.bookings).toMatchObject({ synced: 0, failed: 0 });
+  });
+
+  it('should push availability and rates in OTA IDs as date ranges and report outages', async () => {
+    const [first, , last] = nights(1, 3);
+    await inventoryRepository.updateNights(propertyId, roomId, nights(1, 3), { rate: 180, currency: 'USD', minStay: 2 });
+
+    const availability = await channelSyncService.sync(channel, ChannelSyncType.AVAILABILITY);
+    expect(availability.results.availability).toMatchObject({ synced: 1, failed: 0 });
+
+    const rates = await channelSyncService.sync(channel, ChannelSyncType.RATES);
+    expect(rates.results.rates).toMatchObject({ synced: 1, failed: 0 });
+
+    // The three identical nights go out as one range each
+    const updates = mockOTA.getCalendarUpdates(OTAProvider.BOOKING);
+    expect(updates).toHaveLength(2);
+    expect(updates[0]).toMatchObject({ propertyId: 'BDC-1', roomId: 'BDC-1-DLX', updates: { available: true, availableUnits: 1 } });
+    expect(updates[1]).toMatchObject({ propertyId: 'BDC-1', roomId: 'BDC-1-DLX', updates: { rate: 180, minStay: 2 } });
+    expect(new Date(`${updates[1]!.startDate}T00:00:00`).getTime()).toBe(first!.getTime());
+    expect(new Date(`${updates[1]!.endDate}T00:00:00`).getTime()).toBe(last!.getTime());
+
+    // The OTA is down for the first call and its retry
+    mockOTA.failNext(503, 2, 'Service unavailable');
+    const failed = await channelSyncService.sync(channel, ChannelSyncType.AVAILABILITY);
+    expect(failed.status).toBe('failed');
+    expect(failed.results.availability?.errors[0]).toBe('ARI update failed: Service unavailable');
+    expect((await Channel.findById(channel._id))?.status).toBe(ChannelStatus.ERROR);
+  });
+
+  it('should report OTA listings that are not mapped', async () => {
+    mockOTA.addListing(OTAProvider.BOOKING, { id: 'BDC-2', name: 'Annex', rooms: [{ id: 'BDC-2-STD', name: 'Standard' }] });
+
+    const result = await channelSyncService.sync(channel, ChannelSyncType.PROPERTY_INFO);
+
+    expect(result.results.propertyInfo).toMatchObject({ synced: 1, failed: 0 });
+    expect(result.unmappedListings).toEqual([
+      { externalPropertyId: 'BDC-2', name: 'Annex', rooms: [{ externalRoomId: 'BDC-2-STD', name: 'Standard', ratePlans: [] }] }
+    ]);
+  });
+
+  it('should use a registered adapter and merge nights for range-based OTAs', async () => {
+    const pushed: unknown[] = [];
+    const rangeAdapter: IChannelAdapter = {
+      name: 'range-test',
+      capabilities: { ariGranularity: 'range', maxAriBatchSize: 10, acknowledgesReservations: false },
+      testConnection: async () => ({ connected: true, responseTime: 0, message: 'ok' }),
+      pushAri: async (_channel, updates) => {
+        pushed.push(...updates);
+        return { accepted: updates.length, rejected: [] };
+      },
+      pullReservations: async () => [],
+      acknowledgeReservation: async () => undefined,
+      getListings: async () => []
+    };
+
+    channelAdapterService.register(rangeAdapter, [ChannelType.BOOKING]);
+    try {
+      await inventoryRepository.updateNights(propertyId, roomId, nights(1, 3), { rate: 180, currency: 'USD' });
+      await inventoryRepository.updateNights(propertyId, roomId, nights(4, 2), { rate: 210, currency: 'USD' });
+
+      const result = await channelSyncService.sync(channel, ChannelSyncType.RATES);
+
+      expect(result.results.rates).toMatchObject({ synced: 2, failed: 0 });
+      expect(pushed).toHaveLength(2);
+      expect(pushed[0]).toMatchObject({ rate: 180, startDate: expect.any(String) });
+      expect(pushed[1]).toMatchObject({ rate: 210 });
+      expect(mockOTA.getCalendarUpdates(OTAProvider.BOOKING)).toHaveLength(0);
+    } finally {
+      channelAdapterService.register(genericRestChannelAdapter, [ChannelType.BOOKING]);
+    }
+  });
+
+  it('should keep the channel sync routes private', async () => {
+    await request(app).post(`/api/v1/channels/${String(channel._id)}/test-connection`).expect(401);
+    await request(app).post(`/api/v1/channels/${String(channel._id)}/sync`).send({ syncType: 'all' }).expect(401);
+  });
+});
@@ -0,0 +1,123 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../src/app';
+import Property, { IProperty } from '../src/models/Property';
+import { ChannelType } from '../src/models/Channel';
+import { channelMappingService } from '../src/services/channelMappingService';
+import { ChannelMappingError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty
+} from './utils/testHelpers';
+
+describe('Channel Mapping Registry', () => {
+  let property: IProperty;
+
+  const roomId = (index: number): string => property.rooms[index]!._id.toString();
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const data = createTestProperty(new mongoose.Types.ObjectId());
+    property = await Property.create({
+      ...data,
+      rooms: [data.rooms[0], { ...data.rooms[0], _id: new mongoose.Types.ObjectId(), name: 'Garden Suite' }]
+    });
+  });
+
+  it('should resolve an OTA listing and room to our property and room type', async () => {
+    await channelMappingService.create({
+      channelType: ChannelType.BOOKING,
+      propertyId: property._id.toString(),
+      externalPropertyId: 'BDC-100',
+      rooms: [
+        { roomId: roomId(0), externalRoomId: 'BDC-100-STD' },
+        { roomId: roomId(1), externalRoomId: 'BDC-100-STE' }
+      ]
+    });
+
+    const resolved = await channelMappingService.resolve(ChannelType.BOOKING, 'BDC-100', 'BDC-100-STE');
+    expect(resolved.property._id.toString()).toBe(property._id.toString());
+    expect(resolved.room._id.toString()).toBe(roomId(1));
+
+    // The same IDs on another OTA, or no room ID on a listing with two rooms, are not guessed
+    await expect(channelMappingService.resolve(ChannelType.EXPEDIA, 'BDC-100', 'BDC-100-STE')).rejects.toThrow(ChannelMappingError);
+    await expect(channelMappingService.resolve(ChannelType.BOOKING, 'BDC-100')).rejects.toThrow(/no room ID/);
+    await expect(channelMappingService.resolve(ChannelType.BOOKING, 'BDC-100', 'BDC-100-XYZ')).rejects.toThrow(/BDC-100-XYZ/);
+  });
+
+  it('should validate room types, rate plans and duplicate IDs', async () => {
+    await expect(channelMappingService.create({
+      channelType: ChannelType.AIRBNB,
+      propertyId: property._id.toString(),
+      externalPropertyId: 'AIR-1',
+      rooms: [
+        { roomId: new mongoose.Types.ObjectId().toString(), externalRoomId: 'A' },
+        { roomId: roomId(0), externalRoomId: 'B', ratePlans: [{ ratePlanId: new mongoose.Types.ObjectId().toString(), externalRatePlanId: 'NR' }] },
+        { roomId: roomId(1), externalRoomId: 'B' }
+      ]
+    })).rejects.toMatchObject({
+      statusCode: 400,
+      errors: [
+        { field: 'rooms.0.roomId' },
+        { field: 'rooms.1.ratePlans.0.ratePlanId' },
+        { field: 'rooms.2.externalRoomId' }
+      ]
+    });
+
+    await channelMappingService.create({
+      channelType: ChannelType.AIRBNB,
+      propertyId: property._id.toString(),
+      externalPropertyId: 'AIR-1',
+      rooms: [{ roomId: roomId(0), externalRoomId: 'A' }]
+    });
+
+    const other = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    await expect(channelMappingService.create({
+      channelType: ChannelType.AIRBNB,
+      propertyId: other._id.toString(),
+      externalPropertyId: 'AIR-1',
+      rooms: []
+    })).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('should list the active room types that block channel activation', async () => {
+    const unmappedProperty = await channelMappingService.getUnmappedRooms(ChannelType.VRBO, [property._id]);
+    expect(unmappedProperty).toHaveLength(2);
+    expect(unmappedProperty[0]?.reason).toBe('Property has no vrbo listing');
+
+    const mapping = await channelMappingService.create({
+      channelType: ChannelType.VRBO,
+      propertyId: property._id.toString(),
+      externalPropertyId: 'VRBO-7',
+      rooms: [{ roomId: roomId(0), externalRoomId: 'VRBO-7-1' }]
+    });
+
+    await expect(channelMappingService.assertChannelMapped(ChannelType.VRBO, [property._id])).rejects.toMatchObject({
+      statusCode: 422,
+      errors: [{ roomId: roomId(1) }]
+    });
+
+    // Inactive room types need no mapping
+    await Property.updateOne({ _id: property._id }, { $set: { 'rooms.1.isActive': false } });
+    await expect(channelMappingService.assertChannelMapped(ChannelType.VRBO, [property._id])).resolves.toBeUndefined();
+
+    await channelMappingService.delete(mapping._id);
+    await expect(channelMappingService.assertChannelMapped(ChannelType.VRBO, [property._id])).rejects.toThrow(ChannelMappingError);
+  });
+
+  it('should keep the mapping routes private', async () => {
+    await request(app).get('/api/v1/channel-mappings').expect(401);
+    await request(app).post('/api/v1/channel-mappings').send({}).expect(401);
+  });
+});
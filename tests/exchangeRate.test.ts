@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import Organization from '../src/models/Organization';
+import Property from '../src/models/Property';
+import Booking from '../src/models/Booking';
+import ExchangeRate, { ExchangeRateSource } from '../src/models/ExchangeRate';
+import analyticsService, { TimeRange } from '../src/services/AnalyticsService';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { exchangeRateService } from '../src/services/exchangeRateService';
+import { NotFoundError, ValidationError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking,
+  createTestOrganization
+} from './utils/testHelpers';
+
+describe('Exchange Rate Service', () => {
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+  const isoDay = (offset: number): string => day(offset).toISOString().split('T')[0]!;
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    await exchangeRateService.importTable({ date: day(-20), base: 'USD', rates: { EUR: 0.9, GBP: 0.8 } }, ExchangeRateSource.API);
+    await exchangeRateService.importTable({ date: day(-5), base: 'USD', rates: { EUR: 1, GBP: 0.75 } }, ExchangeRateSource.API);
+  });
+
+  it('should import CSV rows, replace rates already loaded and report bad rows', async () => {
+    const csv = [
+      'quote,base,date,rate',
+      `EUR,USD,${isoDay(-5)},0.95`,
+      `JPY,USD,${isoDay(-5)},150`,
+      `USD,USD,${isoDay(-5)},1`,
+      `CHF,USD,yesterday,0.9`,
+      `CHF,USD,${isoDay(-5)},-1`
+    ].join('\n');
+
+    const result = await exchangeRateService.importCsv(csv);
+
+    expect(result).toMatchObject({ imported: 1, updated: 1, skipped: 3 });
+    expect(result.errors.map(error => error.row)).toEqual([4, 5, 6]);
+    expect(await ExchangeRate.countDocuments({ date: day(-5) })).toBe(3);
+    expect((await exchangeRateService.getRate('USD', 'EUR', day(-5))).rate).toBe(0.95);
+
+    await expect(exchangeRateService.importCsv('date,base,rate\n2024-01-01,USD,1')).rejects.toThrow(ValidationError);
+  });
+
+  it('should convert with direct, inverse and pivot rates of the latest table on or before a date', async () => {
+    expect(await exchangeRateService.getRate('USD', 'GBP', day(-10))).toMatchObject({ rate: 0.8, date: day(-20) });
+    expect(await exchangeRateService.getRate('USD', 'GBP', day(-5))).toMatchObject({ rate: 0.75, date: day(-5) });
+
+    const inverse = await exchangeRateService.getRate('GBP', 'USD', day(-5));
+    expect(inverse.rate).toBeCloseTo(1 / 0.75, 10);
+
+    const cross = await exchangeRateService.getRate('EUR', 'GBP', day(-15));
+    expect(cross.rate).toBeCloseTo(0.8 / 0.9, 10);
+    expect(await exchangeRateService.convert(100, 'EUR', 'GBP', day(-15))).toBe(88.89);
+
+    expect(await exchangeRateService.convert(100, 'usd', 'USD')).toBe(100);
+  });
+
+  it('should refuse to convert with a stale or missing table', async () => {
+    // The day(-20) table is more than 7 days old by then
+    await expect(exchangeRateService.getRate('USD', 'EUR', day(-12))).rejects.toThrow(NotFoundError);
+    await expect(exchangeRateService.getRate('USD', 'EUR', day(-25))).rejects.toThrow(NotFoundError);
+    await expect(exchangeRateService.getRate('USD', 'JPY', day(-5))).rejects.toThrow(NotFoundError);
+  });
+
+  it('should restate a quote in the guest currency', async () => {
+    const converted = await exchangeRateService.convertPricing({
+      baseRate: 450,
+      taxes: 45,
+      fees: 40,
+      discounts: 0,
+      total: 535,
+      currency: 'USD',
+      breakdown: { roomRate: 450, tourismTax: 45, cleaningFee: 40 }
+    }, 'GBP', day(-5));
+
+    expect(converted.rate).toMatchObject({ from: 'USD', to: 'GBP', rate: 0.75 });
+    expect(converted.pricing).toMatchObject({
+      baseRate: 337.5,
+      taxes: 33.75,
+      fees: 30,
+      total: 401.25,
+      currency: 'GBP',
+      breakdown: { roomRate: 337.5, tourismTax: 33.75, cleaningFee: 30 }
+    });
+  });
+
+  it('should report revenue in the organization currency at the rates of each check-in', async () => {
+    const ownerId = new mongoose.Types.ObjectId();
+    const organization = await Organization.create({
+      ...createTestOrganization(ownerId),
+      settings: { currency: 'GBP' }
+    });
+    const property = await Property.create({ ...createTestProperty(ownerId), organization: organization._id });
+    const roomId = property.rooms[0]!._id;
+
+    const booking = (checkIn: Date, currency: string) => ({
+      ...createTestBooking(property._id, roomId),
+      checkIn,
+      checkOut: new Date(checkIn.getTime() + 86400000 * 2),
+      pricing: { baseRate: 150, taxes: 30, fees: 20, discounts: 0, total: 200, currency }
+    });
+    await Booking.create([
+      booking(day(-20), 'USD'), // 200 * 0.8 = 160
+      booking(day(-20), 'EUR'), // 200 / 0.9 * 0.8 = 177.78
+      booking(day(-5), 'EUR') // 200 / 1 * 0.75 = 150
+    ]);
+
+    const revenue = await analyticsService.getRevenueBreakdown(
+      TimeRange.CUSTOM,
+      property._id.toString(),
+      day(-30),
+      day(0)
+    );
+
+    expect(revenue.currency).toBe('GBP');
+    expect(revenue.total).toBe(487.78);
+
+    const inUsd = await analyticsService.getRevenueBreakdown(
+      TimeRange.CUSTOM,
+      property._id.toString(),
+      day(-30),
+      day(0),
+      'USD'
+    );
+    expect(inUsd.currency).toBe('USD');
+    expect(inUsd.total).toBe(622.22); // 200 + 222.22 + 200
+  });
+});
@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { BookingStatus } from '../src/models/Booking';
+import { ExtraCategory, ExtraChargeType, IExtra } from '../src/models/Extra';
+import ExtraInventory from '../src/models/ExtraInventory';
+import { ChargeCategory, LedgerAccount } from '../src/models/Folio';
+import analyticsService, { TimeRange } from '../src/services/AnalyticsService';
+import { bookingStatusService } from '../src/services/bookingStatusService';
+import { folioService } from '../src/services/folioService';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { extraService, IExtraRequest } from '../src/services/extraService';
+import { ConflictError, ValidationError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Extra Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const createExtra = (request: Partial<IExtraRequest>): Promise<IExtra> => extraService.createExtra(propertyId, {
+    name: 'Breakfast',
+    category: ExtraCategory.BREAKFAST,
+    chargeType: ExtraChargeType.PER_GUEST_PER_NIGHT,
+    price: 15,
+    currency: 'USD',
+    ...request
+  });
+
+  // Three nights for two adults at 500 USD
+  const newBooking = (checkIn = day(7), checkOut = day(10)) => new Booking({
+    ...createTestBooking(propertyId, roomId),
+    checkIn,
+    checkOut,
+    pricing: { baseRate: 450, taxes: 30, fees: 20, discounts: 0, total: 500, currency: 'USD' }
+  });
+
+  const stay = () => ({
+    propertyId,
+    checkIn: day(7),
+    checkOut: day(10),
+    guests: { adults: 2, children: 0, infants: 0 },
+    currency: 'USD'
+  });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]!._id;
+  });
+
+  it('should price extras per stay, night, guest and guest per night', async () => {
+    const breakfast = await createExtra({});
+    const parking = await createExtra({ name: 'Parking', category: ExtraCategory.PARKING, chargeType: ExtraChargeType.PER_NIGHT, price: 20 });
+    const transfer = await createExtra({
+      name: 'Airport transfer',
+      category: ExtraCategory.AIRPORT_TRANSFER,
+      chargeType: ExtraChargeType.PER_STAY,
+      price: 60
+    });
+    const welcome = await createExtra({ name: 'Welcome drink', category: ExtraCategory.OTHER, chargeType: ExtraChargeType.PER_GUEST, price: 5 });
+
+    const quote = await extraService.quote([
+      { extraId: breakfast._id },
+      { extraId: parking._id.toString(), quantity: 2 },
+      { extraId: transfer._id },
+      { extraId: welcome._id }
+    ], stay());
+
+    expect(quote.unavailable).toEqual([]);
+    expect(quote.lines.map(line => [line.name, line.amount])).toEqual([
+      ['Breakfast', 90],
+      ['Parking', 120],
+      ['Airport transfer', 60],
+      ['Welcome drink', 10]
+    ]);
+    expect(quote.total).toBe(280);
+
+    const pricing = extraService.addToPricing({ baseRate: 450, taxes: 30, fees: 20, discounts: 0, total: 500, currency: 'USD' }, quote);
+    expect(pricing).toMatchObject({ extras: 280, total: 780 });
+    expect(pricing.breakdown?.extras).toEqual([
+      { name: 'Breakfast', amount: 90 },
+      { name: 'Parking x2', amount: 120 },
+      { name: 'Airport transfer', amount: 60 },
+      { name: 'Welcome drink', amount: 10 }
+    ]);
+  });
+
+  it('should refuse extras that are off sale, of another property or over their quantity', async () => {
+    const inactive = await createExtra({ active: false });
+    const limited = await createExtra({ name: 'Late checkout', category: ExtraCategory.LATE_CHECKOUT, chargeType: ExtraChargeType.PER_STAY, maxQuantity: 1 });
+    const otherProperty = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    const elsewhere = await extraService.createExtra(otherProperty._id, {
+      name: 'Spa',
+      chargeType: ExtraChargeType.PER_STAY,
+      price: 80,
+      currency: 'USD'
+    });
+
+    const quote = await extraService.quote([
+      { extraId: inactive._id },
+      { extraId: limited._id, quantity: 2 },
+      { extraId: elsewhere._id },
+      { extraId: 'not-an-id' }
+    ], stay());
+
+    expect(quote.lines).toEqual([]);
+    expect(quote.unavailable.map(unavailable => unavailable.reason)).toEqual([
+      'Extra is not on sale',
+      'At most 1 of this extra can be booked',
+      'Extra is not sold at this property',
+      'Extra not found'
+    ]);
+
+    await expect(extraService.applyToBooking(newBooking(), [{ extraId: inactive._id }])).rejects.toThrow(ValidationError);
+  });
+
+  it('should take daily inventory for the nights booked and give it back on cancellation', async () => {
+    const parking = await createExtra({ name: 'Parking', category: ExtraCategory.PARKING, chargeType: ExtraChargeType.PER_NIGHT, price: 20, dailyInventory: 1 });
+
+    const first = newBooking();
+    await extraService.applyToBooking(first, [{ extraId: parking._id }]);
+    await extraService.reserve(first);
+    await first.save();
+
+    expect(first.pricing).toMatchObject({ extras: 60, total: 560 });
+    expect(await ExtraInventory.countDocuments({ extra: parking._id, sold: 1 })).toBe(3);
+
+    // The last night overlaps and is sold out
+    const quote = await extraService.quote([{ extraId: parking._id }], { ...stay(), checkIn: day(9), checkOut: day(12) });
+    expect(quote.unavailable[0]?.reason).toBe('Extra is sold out for these dates');
+
+    const second = newBooking(day(9), day(12));
+    second.extras.push({
+      _id: new mongoose.Types.ObjectId(),
+      extra: parking._id,
+      name: 'Parking',
+      category: ExtraCategory.PARKING,
+      chargeType: ExtraChargeType.PER_NIGHT,
+      quantity: 1,
+      unitPrice: 20,
+      amount: 60,
+      addedAt: new Date()
+    });
+    await expect(extraService.reserve(second)).rejects.toThrow(ConflictError);
+    expect(await ExtraInventory.countDocuments({ 'claims.booking': second._id })).toBe(0);
+
+    // Releasing again after the cancellation gives nothing back twice
+    await bookingStatusService.transition(first, BookingStatus.CANCELLED);
+    await extraService.releaseBooking(first._id);
+
+    expect(await ExtraInventory.countDocuments({ extra: parking._id, sold: { $gt: 0 } })).toBe(0);
+    expect((await extraService.quote([{ extraId: parking._id }], { ...stay(), checkIn: day(9), checkOut: day(12) })).unavailable).toEqual([]);
+  });
+
+  it('should let staff add and remove extras, charging them to the folio', async () => {
+    const transfer = await createExtra({
+      name: 'Airport transfer',
+      category: ExtraCategory.AIRPORT_TRANSFER,
+      chargeType: ExtraChargeType.PER_STAY,
+      price: 60
+    });
+    const booking = await newBooking().save();
+    await folioService.getFolio(booking);
+
+    const updated = await extraService.addToBooking(booking._id, [{ extraId: transfer._id }], new mongoose.Types.ObjectId().toString());
+
+    expect(updated.extras).toHaveLength(1);
+    expect(updated.pricing).toMatchObject({ extras: 60, total: 560 });
+
+    let folio = await folioService.getFolio(booking._id);
+    expect(folio.transactions.filter(t => t.category === ChargeCategory.EXTRA).map(t => t.amount)).toEqual([60]);
+    expect(folio.accountBalance(LedgerAccount.EXTRAS_REVENUE)).toBe(-60);
+
+    const removed = await extraService.removeFromBooking(booking._id, updated.extras[0]!._id);
+    expect(removed.extras).toEqual([]);
+    expect(removed.pricing).toMatchObject({ extras: 0, total: 500 });
+
+    folio = await folioService.getFolio(booking._id);
+    expect(folio.accountBalance(LedgerAccount.EXTRAS_REVENUE)).toBe(0);
+    expect(folio.balance).toBe(500);
+  });
+
+  it('should report extras revenue as a separate line', async () => {
+    const breakfast = await createExtra({});
+
+    const booking = newBooking(day(-3), day(0));
+    await extraService.applyToBooking(booking, [{ extraId: breakfast._id }]);
+    await booking.save();
+
+    const revenue = await analyticsService.getRevenueBreakdown(TimeRange.LAST_7_DAYS, propertyId.toString());
+
+    expect(revenue.total).toBe(590);
+    expect(revenue.extras).toBe(90);
+    expect(revenue.byExtraCategory[ExtraCategory.BREAKFAST]).toBe(90);
+    expect(revenue.byExtraCategory[ExtraCategory.PARKING]).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking, BookingStatus } from '../src/models/Booking';
+import Folio, { IFolio, FolioTransactionType, ChargeCategory, PaymentMethod, LedgerAccount } from '../src/models/Folio';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { folioService } from '../src/services/folioService';
+import { bookingStatusService } from '../src/services/bookingStatusService';
+import { StatusTransitionError, ValidationError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Folio Service', () => {
+  let booking: IBooking;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  // Every transaction posts as much to debits as to credits
+  const expectBalancedLedger = (folio: IFolio): void => {
+    const lines = folio.transactions.flatMap(transaction => transaction.lines);
+    const debits = lines.reduce((sum, line) => sum + line.debit, 0);
+    const credits = lines.reduce((sum, line) => sum + line.credit, 0);
+    expect(debits).toBeCloseTo(credits, 2);
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    booking = await Booking.create({
+      ...createTestBooking(property._id, property.rooms[0]._id),
+      checkIn: day(-1),
+      checkOut: day(1),
+      status: BookingStatus.CONFIRMED
+    });
+  });
+
+  it('should open the folio with the stay charges of the booking', async () => {
+    const folio = await folioService.getFolio(booking);
+
+    expect(folio.balance).toBe(booking.pricing.total);
+    expect(folio.transactions.map(transaction => transaction.category))
+      .toEqual([ChargeCategory.ROOM, ChargeCategory.TAX, ChargeCategory.FEE]);
+    expect(folio.accountBalance(LedgerAccount.ROOM_REVENUE)).toBe(-booking.pricing.baseRate);
+    expectBalancedLedger(folio);
+
+    // Opening twice returns the same folio
+    const again = await folioService.getFolio(booking._id);
+    expect(again._id.equals(folio._id)).toBe(true);
+  });
+
+  it('should keep the balance across charges, payments and refunds', async () => {
+    await folioService.postCharge(booking, { amount: 25, category: ChargeCategory.INCIDENTAL, description: 'Minibar' });
+    await folioService.recordPayment(booking, { amount: 100, method: PaymentMethod.CASH });
+
+    await expect(folioService.refund(booking, { amount: 150, method: PaymentMethod.CASH }))
+      .rejects.toBeInstanceOf(ValidationError);
+
+    const { folio } = await folioService.refund(booking, { amount: 40, method: PaymentMethod.CASH });
+
+    expect(folio.balance).toBe(booking.pricing.total + 25 - 100 + 40);
+    expect(folio.getSummary()).toMatchObject({ charges: booking.pricing.total + 25, payments: 100, refunds: 40 });
+    expectBalancedLedger(folio);
+  });
+
+  it('should void a transaction with a reversal instead of deleting it', async () => {
+    const { transaction } = await folioService.postCharge(booking, {
+      amount: 30,
+      category: ChargeCategory.INCIDENTAL,
+      description: 'Parking'
+    });
+
+    const { folio, transaction: reversal } = await folioService.voidTransaction(booking, transaction._id, 'Posted to the wrong room');
+
+    expect(reversal.type).toBe(FolioTransactionType.REVERSAL);
+    expect(folio.transactions.find(entry => entry._id.equals(transaction._id))?.voidedBy?.equals(reversal._id)).toBe(true);
+    expect(folio.balance).toBe(booking.pricing.total);
+    await expect(folioService.voidTransaction(booking, transaction._id, 'Again')).rejects.toThrow();
+  });
+
+  it('should post the difference when the booking is repriced', async () => {
+    await folioService.getFolio(booking);
+
+    booking.pricing.baseRate -= 50;
+    await booking.save();
+    const folio = await folioService.syncWithBooking(booking);
+
+    const adjustment = folio.transactions[folio.transactions.length - 1];
+    expect(adjustment).toMatchObject({ type: FolioTransactionType.ADJUSTMENT, category: ChargeCategory.ROOM, amount: -50 });
+    expect(folio.balance).toBe(booking.pricing.total);
+  });
+
+  it('should block check-out with a balance due unless it is allowed, then flag it', async () => {
+    await bookingStatusService.transition(booking, BookingStatus.CHECKED_IN);
+
+    await expect(bookingStatusService.transition(booking, BookingStatus.CHECKED_OUT))
+      .rejects.toBeInstanceOf(StatusTransitionError);
+
+    await bookingStatusService.transition(booking, BookingStatus.CHECKED_OUT, { allowBalanceDue: true });
+
+    const folio = await Folio.findOne({ booking: booking._id });
+    expect(booking.status).toBe(BookingStatus.CHECKED_OUT);
+    expect(folio?.balanceDueAtCheckout?.amount).toBe(booking.pricing.total);
+  });
+});
@@ -0,0 +1,154 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking, IGuestInfo, BookingStatus } from '../src/models/Booking';
+import Guest, { GuestStatus } from '../src/models/Guest';
+import { CancellationPolicy } from '../src/models/RatePlan';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { guestProfileService } from '../src/services/guestProfileService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Guest Profile Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const createBooking = async (guestInfo: Partial<IGuestInfo>, overrides: Partial<IBooking> = {}): Promise<IBooking> => {
+    const data = createTestBooking(propertyId, roomId);
+
+    return Booking.create({
+      ...data,
+      guestInfo: { ...data.guestInfo, phone: '+447700900123', ...guestInfo },
+      ...overrides
+    });
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+  });
+
+  it('should link repeat bookings of a guest to one profile', async () => {
+    const first = await guestProfileService.attachBooking(await createBooking({ documentNumber: 'X1' }));
+    const second = await guestProfileService.attachBooking(await createBooking({
+      firstName: 'Jon',
+      email: 'JOHN.DOE@example.com',
+      phone: '07700 900123',
+      documentNumber: 'X2'
+    }));
+
+    expect(second._id.equals(first._id)).toBe(true);
+    expect(second.documents.map(document => document.documentNumber)).toEqual(['X1', 'X2']);
+    expect(second.stats.totalBookings).toBe(2);
+    expect(await Booking.countDocuments({ guest: first._id })).toBe(2);
+  });
+
+  it('should keep people sharing a contact apart unless their document matches', async () => {
+    const parent = await guestProfileService.attachBooking(await createBooking({}));
+    const child = await guestProfileService.attachBooking(await createBooking({ firstName: 'Emma', documentNumber: 'CD987654' }));
+    expect(child._id.equals(parent._id)).toBe(false);
+
+    // The same passport is the same person, whatever name the channel sent
+    const renamed = await guestProfileService.attachBooking(await createBooking({ firstName: 'J.', email: 'other@example.org' }));
+    expect(renamed._id.equals(parent._id)).toBe(true);
+
+    // Turning the name check off links on contact details alone
+    const matches = await guestProfileService.findMatches(parent.owner, {
+      firstName: 'Emma',
+      lastName: 'Doe',
+      email: 'john.doe@example.com'
+    }, { nameSimilarity: 0 });
+    expect(matches.every(match => match.confident)).toBe(true);
+  });
+
+  it('should never match on the placeholders channels send for unknown guests', async () => {
+    const placeholders = { email: 'guest@example.com', phone: '+1234567890' };
+
+    const first = await guestProfileService.attachBooking(await createBooking({ ...placeholders, documentNumber: 'TEMP-1' }));
+    const second = await guestProfileService.attachBooking(await createBooking({ ...placeholders, documentNumber: 'TEMP-2' }));
+
+    expect(second._id.equals(first._id)).toBe(false);
+    expect(first.emails).toEqual([]);
+    expect(first.documents).toEqual([]);
+  });
+
+  it('should merge duplicates with their bookings, tags and notes', async () => {
+    const target = await guestProfileService.attachBooking(await createBooking({}));
+    const duplicate = await guestProfileService.attachBooking(await createBooking({
+      firstName: 'Johnny',
+      lastName: 'Doe-Smith',
+      email: 'jd@example.org',
+      phone: '+15550001111',
+      documentNumber: 'ZZ111111'
+    }));
+    await guestProfileService.updateTags(duplicate, ['VIP']);
+    await guestProfileService.addNote(duplicate, 'Allergic to feathers');
+
+    expect((await guestProfileService.findDuplicates(target)).length).toBe(0);
+
+    const merged = await guestProfileService.mergeGuests(target._id, [duplicate._id]);
+
+    expect(merged.emails).toEqual(['john.doe@example.com', 'jd@example.org']);
+    expect(merged.tags).toEqual(['vip']);
+    expect(merged.notes.map(note => note.text)).toEqual(['Allergic to feathers']);
+    expect(merged.stats.totalBookings).toBe(2);
+    const retired = await Guest.findById(duplicate._id);
+    expect(retired?.status).toBe(GuestStatus.MERGED);
+    expect(retired?.mergedInto?.equals(target._id)).toBe(true);
+    await expect(guestProfileService.mergeGuests(target._id, [duplicate._id])).rejects.toThrow();
+  });
+
+  it('should compute stay history and lifetime value', async () => {
+    await createBooking({}, { checkIn: day(-40), checkOut: day(-37), status: BookingStatus.CHECKED_OUT });
+    await createBooking({}, {
+      status: BookingStatus.CANCELLED,
+      cancellationCharge: {
+        policy: CancellationPolicy.NON_REFUNDABLE,
+        noShow: false,
+        penalty: 120,
+        amountPaid: 0,
+        refund: 0,
+        balanceDue: 120,
+        waived: false,
+        calculatedAt: new Date()
+      }
+    });
+    const upcoming = await createBooking({}, { checkIn: day(20), checkOut: day(22) });
+
+    for (const booking of await Booking.find()) {
+      await guestProfileService.attachBooking(booking);
+    }
+    const guest = await guestProfileService.refreshStats((await Booking.findById(upcoming._id))!.guest!);
+
+    const { stats } = guest.toObject();
+    expect(stats).toMatchObject({
+      totalBookings: 3,
+      completedStays: 1,
+      totalNights: 3,
+      cancellations: 1,
+      nextStayAt: day(20)
+    });
+    expect(stats.lifetimeValue).toEqual([{ currency: 'USD', amount: 500 + 120 }]);
+
+    const history = await guestProfileService.getStayHistory(guest, 1, 2);
+    expect(history.total).toBe(3);
+    expect(history.bookings[0]?.checkIn).toEqual(day(20));
+  });
+});
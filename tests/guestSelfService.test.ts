@@ -0,0 +1,218 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../src/app';
+import Property from '../src/models/Property';
+import Booking, { IBooking, BookingStatus, StatusChangeSource } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import emailService from '../src/services/emailService';
+import { guestAccessService } from '../src/services/guestAccessService';
+import { inventoryReservationService } from '../src/services/inventoryReservationService';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Guest Self-Service API', () => {
+  const CODE = 'RES-GUEST1';
+  const EMAIL = 'john.doe@example.com';
+
+  let roomId: mongoose.Types.ObjectId;
+  let booking: IBooking;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const guestAuditEntries = (action: string) => mongoose.connection.collection('audit_logs')
+    .find({ action, bookingId: booking._id.toString(), actorType: 'guest' })
+    .toArray();
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+    jest.restoreAllMocks();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    roomId = property.rooms[0]!._id;
+
+    await RoomAvailability.insertMany([10, 11, 12, 13, 14].map(offset => ({
+      property: property._id,
+      room: roomId,
+      date: day(offset),
+      totalRooms: 1,
+      availableRooms: 1
+    })));
+
+    booking = await Booking.create({
+      ...createTestBooking(property._id, roomId),
+      checkIn: day(10),
+      checkOut: day(12),
+      channelConfirmationCode: CODE,
+      pricing: { baseRate: 300, taxes: 30, fees: 20, discounts: 0, total: 350, currency: 'USD' }
+    });
+    await inventoryReservationService.reserve({
+      propertyId: property._id,
+      roomId,
+      checkIn: day(10),
+      checkOut: day(12),
+      bookingId: booking._id,
+      channel: booking.channel
+    });
+  });
+
+  it('should let a guest in with the confirmation code and the booking email only', async () => {
+    const response = await request(app)
+      .get(`/api/v1/guest/bookings/${CODE}/manage`)
+      .set('X-Guest-Email', ' John.Doe@Example.com ')
+      .expect(200);
+
+    expect(response.body.data.booking.confirmationCode).toBe(CODE);
+    expect(response.body.data.booking).not.toHaveProperty('notes');
+    expect(response.body.data).toMatchObject({ canModify: true, canCancel: true });
+    expect(response.body.data.cancellation.penalty).toBeDefined();
+
+    await request(app)
+      .get(`/api/v1/guest/bookings/${CODE}/manage`)
+      .set('X-Guest-Email', 'someone.else@example.com')
+      .expect(401);
+
+    await request(app)
+      .get(`/api/v1/guest/bookings/${CODE}/manage`)
+      .expect(401);
+  });
+
+  it('should email a signed link that stops working when the booking email changes', async () => {
+    const send = jest.spyOn(emailService, 'sendGuestBookingLinkEmail').mockResolvedValue(true);
+
+    // Unknown details get the same answer and no email
+    await request(app)
+      .post(`/api/v1/guest/bookings/${CODE}/link`)
+      .send({ email: 'someone.else@example.com' })
+      .expect(200);
+    expect(send).not.toHaveBeenCalled();
+
+    await request(app)
+      .post(`/api/v1/guest/bookings/${CODE}/link`)
+      .send({ email: EMAIL })
+      .expect(200);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((await guestAuditEntries('EMAIL_SENT'))[0]?.userEmail).toBe(EMAIL);
+
+    const manageUrl = new URL(send.mock.calls[0]![2].manageUrl);
+    const token = manageUrl.searchParams.get('token') ?? '';
+    expect(manageUrl.searchParams.get('code')).toBe(CODE);
+
+    await request(app)
+      .get(`/api/v1/guest/bookings/${CODE}/manage`)
+      .set('X-Guest-Token', token)
+      .expect(200);
+
+    // A link only opens the booking it was issued for
+    await request(app)
+      .get('/api/v1/guest/bookings/RES-OTHER/manage')
+      .set('X-Guest-Token', token)
+      .expect(401);
+
+    await Booking.updateOne({ _id: booking._id }, { $set: { 'guestInfo.email': 'new.address@example.com' } });
+    await request(app)
+      .get(`/api/v1/guest/bookings/${CODE}/manage?token=${token}`)
+      .expect(401);
+  });
+
+  it('should cancel within the cancellation policy and audit the guest', async () => {
+    const token = guestAccessService.issueLink(booking).token;
+
+    const response = await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/cancel`)
+      .set('X-Guest-Token', token)
+      .send({ reason: 'Plans changed' })
+      .expect(200);
+
+    expect(response.body.data.booking.status).toBe(BookingStatus.CANCELLED);
+
+    const cancelled = await Booking.findById(booking._id);
+    expect(cancelled?.statusHistory[cancelled.statusHistory.length - 1]?.source).toBe(StatusChangeSource.GUEST);
+    expect(await RoomAvailability.countDocuments({ room: roomId, 'bookedRooms.bookingId': booking._id })).toBe(0);
+
+    const [entry] = await guestAuditEntries('BOOKING_CANCELLED');
+    expect(entry).toMatchObject({ userEmail: EMAIL, metadata: { method: 'magic_link', reason: 'Plans changed' } });
+
+    // Past the cutoff only staff may cancel
+    booking = await Booking.create({
+      ...createTestBooking(booking.property, roomId),
+      checkIn: new Date(Date.now() + 3600000 * 12),
+      checkOut: day(3),
+      channelConfirmationCode: 'RES-GUEST2'
+    });
+
+    await request(app)
+      .patch('/api/v1/guest/bookings/RES-GUEST2/cancel')
+      .set('X-Guest-Email', EMAIL)
+      .expect(409);
+    expect((await Booking.findById(booking._id))?.status).toBe(BookingStatus.CONFIRMED);
+  });
+
+  it('should change dates through the same inventory and pricing rules as staff', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/stay`)
+      .set('X-Guest-Email', EMAIL)
+      .send({ checkIn: day(11).toISOString(), checkOut: day(14).toISOString() })
+      .expect(200);
+
+    expect(response.body.data.booking.pricing.total).toBe(515);
+    expect(response.body.data.priceDifference).toBe(165);
+    expect(await RoomAvailability.countDocuments({ room: roomId, 'bookedRooms.bookingId': booking._id })).toBe(3);
+
+    const [entry] = await guestAuditEntries('BOOKING_UPDATED');
+    expect(entry?.metadata.priceDifference).toBe(165);
+
+    // A sold-out night is refused and the stay is left as it was
+    await RoomAvailability.updateOne({ room: roomId, date: day(10) }, { $set: { availableRooms: 0 } });
+    await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/stay`)
+      .set('X-Guest-Email', EMAIL)
+      .send({ checkIn: day(10).toISOString() })
+      .expect(409);
+    expect((await Booking.findById(booking._id))?.checkIn.getTime()).toBe(day(11).getTime());
+
+    // Too many guests for the room
+    await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/stay`)
+      .set('X-Guest-Email', EMAIL)
+      .send({ guests: { adults: 20 } })
+      .expect(400);
+  });
+
+  it('should update the arrival time and special requests until check-in', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/details`)
+      .set('X-Guest-Email', EMAIL)
+      .send({ arrivalTime: '21:30', specialRequests: ['Quiet room'] })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ arrivalTime: '21:30', specialRequests: ['Quiet room'] });
+    expect((await guestAuditEntries('BOOKING_UPDATED'))[0]?.metadata.changes.arrivalTime).toBe('21:30');
+
+    await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/details`)
+      .set('X-Guest-Email', EMAIL)
+      .send({ arrivalTime: '25:00' })
+      .expect(400);
+
+    await Booking.updateOne({ _id: booking._id }, { $set: { status: BookingStatus.CHECKED_IN } });
+    await request(app)
+      .patch(`/api/v1/guest/bookings/${CODE}/details`)
+      .set('X-Guest-Email', EMAIL)
+      .send({ arrivalTime: '18:00' })
+      .expect(400);
+  });
+});
@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import RoomAvailability from '../src/models/RoomAvailability';
+import InventoryHold, { HoldStatus } from '../src/models/InventoryHold';
+import { inventoryHoldService } from '../src/services/inventoryHoldService';
+import { InventoryReservationService } from '../src/services/inventoryReservationService';
+import { ConflictError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase
+} from './utils/testHelpers';
+
+describe('Inventory Hold Service', () => {
+  const propertyId = new mongoose.Types.ObjectId().toString();
+  const roomId = new mongoose.Types.ObjectId().toString();
+  const checkIn = new Date(Date.now() + 86400000 * 7);
+  const checkOut = new Date(Date.now() + 86400000 * 9);
+  const nights = InventoryReservationService.getStayDates(checkIn, checkOut);
+
+  const stay = { propertyId, roomId, checkIn, checkOut };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+    await RoomAvailability.insertMany(nights.map(date => ({
+      property: propertyId,
+      room: roomId,
+      date,
+      totalRooms: 1,
+      availableRooms: 1
+    })));
+  });
+
+  it('should hold the last unit so nobody else can book it', async () => {
+    const { hold } = await inventoryHoldService.createHold(stay);
+
+    expect(hold.token).toMatch(/^HOLD-/);
+    await expect(inventoryHoldService.createHold(stay)).rejects.toBeInstanceOf(ConflictError);
+
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.heldRooms).toHaveLength(1);
+      expect(record.bookedRooms).toHaveLength(0);
+      expect(record.availableRooms).toBe(0);
+    });
+  });
+
+  it('should convert a hold into a booking without freeing the unit', async () => {
+    const { hold } = await inventoryHoldService.createHold(stay);
+    const bookingId = new mongoose.Types.ObjectId();
+
+    await inventoryHoldService.convertHold(hold.token, { ...stay, bookingId });
+
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.heldRooms).toHaveLength(0);
+      expect(record.bookedRooms).toHaveLength(1);
+      expect(record.availableRooms).toBe(0);
+    });
+
+    const converted = await InventoryHold.findById(hold._id);
+    expect(converted?.status).toBe(HoldStatus.CONVERTED);
+    await expect(
+      inventoryHoldService.convertHold(hold.token, { ...stay, bookingId: new mongoose.Types.ObjectId() })
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('should give expired holds back to the pool when swept', async () => {
+    const { hold } = await inventoryHoldService.createHold(stay);
+
+    const swept = await inventoryHoldService.sweepExpiredHolds(new Date(hold.expiresAt.getTime() + 1000));
+
+    expect(swept).toBe(1);
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.heldRooms).toHaveLength(0);
+      expect(record.availableRooms).toBe(1);
+    });
+    const expired = await InventoryHold.findById(hold._id);
+    expect(expired?.status).toBe(HoldStatus.EXPIRED);
+  });
+});
@@ -0,0 +1,154 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { BookingStatus } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import { DriftType, ReconciliationMode, ReconciliationStatus } from '../src/models/InventoryReconciliation';
+import { inventoryReconciliationService } from '../src/services/inventoryReconciliationService';
+import {
+  inventoryReservationService,
+  InventoryReservationService
+} from '../src/services/inventoryReservationService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Inventory Reconciliation Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const seedNights = async (dates: Date[], totalRooms: number): Promise<void> => {
+    await RoomAvailability.insertMany(dates.map(date => ({
+      property: propertyId,
+      room: roomId,
+      date,
+      totalRooms,
+      availableRooms: totalRooms
+    })));
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = new Property(createTestProperty(new mongoose.Types.ObjectId()));
+    property.rooms[0].totalUnits = 3;
+    await property.save();
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+  });
+
+  it('should report drift without changing anything on a dry run', async () => {
+    const booking = await Booking.create(createTestBooking(propertyId, roomId));
+    const nights = InventoryReservationService.getStayDates(booking.checkIn, booking.checkOut);
+    await seedNights(nights, 2);
+
+    const report = await inventoryReconciliationService.run({ propertyId: propertyId.toString() });
+
+    expect(report.mode).toBe(ReconciliationMode.DRY_RUN);
+    expect(report.status).toBe(ReconciliationStatus.COMPLETED);
+    expect(report.summary[DriftType.MISSING_BOOKING_CLAIM]).toBe(nights.length);
+    expect(report.summary[DriftType.TOTAL_ROOMS_MISMATCH]).toBe(nights.length);
+    expect(report.stats.issuesRepaired).toBe(0);
+
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.totalRooms).toBe(2);
+      expect(record.bookedRooms).toHaveLength(0);
+    });
+  });
+
+  it('should attach missing claims and fix unit counts in apply mode', async () => {
+    const booking = await Booking.create(createTestBooking(propertyId, roomId));
+    const nights = InventoryReservationService.getStayDates(booking.checkIn, booking.checkOut);
+    await seedNights(nights, 2);
+
+    await inventoryReconciliationService.run({ propertyId: propertyId.toString(), apply: true });
+
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.totalRooms).toBe(3);
+      expect(record.bookedRooms).toHaveLength(1);
+      expect(record.availableRooms).toBe(2);
+    });
+
+    const rerun = await inventoryReconciliationService.run({ propertyId: propertyId.toString() });
+    expect(rerun.stats.issuesFound).toBe(0);
+  });
+
+  it('should release claims held by cancelled bookings', async () => {
+    const booking = await Booking.create({
+      ...createTestBooking(propertyId, roomId),
+      status: BookingStatus.CANCELLED
+    });
+    const nights = InventoryReservationService.getStayDates(booking.checkIn, booking.checkOut);
+    await RoomAvailability.insertMany(nights.map(date => ({
+      property: propertyId,
+      room: roomId,
+      date,
+      totalRooms: 3,
+      availableRooms: 2,
+      bookedRooms: [{ channel: 'direct', bookingId: booking._id, bookedAt: new Date() }]
+    })));
+
+    const report = await inventoryReconciliationService.run({ propertyId: propertyId.toString(), apply: true });
+
+    expect(report.summary[DriftType.ORPHANED_BOOKING_CLAIM]).toBe(nights.length);
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.bookedRooms).toHaveLength(0);
+      expect(record.availableRooms).toBe(3);
+    });
+  });
+
+  it('should count force-reserved nights as oversold and keep them negative on repair', async () => {
+    const booking = await Booking.create(createTestBooking(propertyId, roomId));
+    const nights = InventoryReservationService.getStayDates(booking.checkIn, booking.checkOut);
+    await RoomAvailability.insertMany(nights.map(date => ({
+      property: propertyId,
+      room: roomId,
+      date,
+      totalRooms: 3,
+      blockedRooms: 3,
+      availableRooms: 0
+    })));
+    await inventoryReservationService.forceReserve({
+      propertyId,
+      roomId,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      bookingId: booking._id,
+      channel: 'booking'
+    });
+
+    const check = await inventoryReconciliationService.run({ propertyId: propertyId.toString() });
+
+    expect(check.stats.issuesFound).toBe(0);
+    expect(check.stats.oversoldNights).toBe(nights.length);
+
+    // A counter clamped to zero is drift, repaired back to oversold
+    await RoomAvailability.updateOne({ room: roomId, date: nights[0] }, { $set: { availableRooms: 0 } });
+
+    const applied = await inventoryReconciliationService.run({ propertyId: propertyId.toString(), apply: true });
+
+    expect(applied.summary).toEqual({ [DriftType.AVAILABLE_COUNT_MISMATCH]: 1 });
+    expect(applied.issues[0]).toMatchObject({ expected: -1, actual: 0, repaired: true });
+    expect(applied.stats.oversoldNights).toBe(nights.length);
+
+    const records = await RoomAvailability.find({ room: roomId });
+    records.forEach(record => {
+      expect(record.availableRooms).toBe(-1);
+      expect(record.bookedRooms).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import RoomAvailability, { AvailabilityStatus } from '../src/models/RoomAvailability';
+import Calendar, { CalendarStatus, CalendarChannel } from '../src/models/Calendar';
+import { inventoryRepository, InventoryRepository } from '../src/services/inventoryRepository';
+import { inventoryMigrationService } from '../src/services/inventoryMigrationService';
+import Property from '../src/models/Property';
+import RoomUnit, { UnitStatus } from '../src/models/RoomUnit';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty
+} from './utils/testHelpers';
+
+describe('Inventory Repository', () => {
+  const propertyId = new mongoose.Types.ObjectId();
+  const roomId = new mongoose.Types.ObjectId();
+  const date = InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * 14));
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+  });
+
+  describe('updateNights', () => {
+    it('should create missing nights and keep channel rates apart', async () => {
+      await inventoryRepository.updateNights(propertyId, roomId, [date], {
+        channel: CalendarChannel.ALL,
+        rate: 100
+      });
+      await inventoryRepository.updateNights(propertyId, roomId, [date], {
+        channel: CalendarChannel.AIRBNB,
+        rate: 120
+      });
+
+      const night = await inventoryRepository.findNight(propertyId, roomId, date);
+      expect(night).not.toBeNull();
+      expect(night!.getRateForChannel('airbnb')).toBe(120);
+      expect(night!.getRateForChannel('direct')).toBe(100);
+    });
+
+    it('should close a single channel without blocking the others', async () => {
+      await inventoryRepository.updateNights(propertyId, roomId, [date], {
+        channel: CalendarChannel.BOOKING,
+        status: CalendarStatus.BLOCKED
+      });
+
+      const booking = await inventoryRepository.findCalendarEntry(propertyId, roomId, date, CalendarChannel.BOOKING);
+      const direct = await inventoryRepository.findCalendarEntry(propertyId, roomId, date, CalendarChannel.DIRECT);
+      expect(booking!.status).toBe(CalendarStatus.BLOCKED);
+      expect(direct!.status).toBe(CalendarStatus.AVAILABLE);
+    });
+
+    it('should not touch sold units when blocking a night', async () => {
+      await RoomAvailability.create({
+        property: propertyId,
+        room: roomId,
+        date,
+        totalRooms: 2,
+        availableRooms: 1,
+        bookedRooms: [{ channel: 'direct', bookingId: new mongoose.Types.ObjectId(), bookedAt: new Date() }]
+      });
+
+      await inventoryRepository.updateNights(propertyId, roomId, [date], { status: CalendarStatus.MAINTENANCE });
+
+      const night = await inventoryRepository.findNight(propertyId, roomId, date);
+      expect(night!.status).toBe(AvailabilityStatus.MAINTENANCE);
+      expect(night!.availableRooms).toBe(1);
+      expect(night!.bookedRooms).toHaveLength(1);
+    });
+  });
+
+  describe('default unit count', () => {
+    it('should size the first night of a room type from its unit count', async () => {
+      const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+      const room = property.rooms[0]!;
+      room.totalUnits = 20;
+      await property.save();
+
+      await inventoryRepository.updateNights(property._id, room._id, [date], { rate: 100 });
+
+      const night = await inventoryRepository.findNight(property._id, room._id, date);
+      expect(night).toMatchObject({ totalRooms: 20, availableRooms: 20 });
+    });
+
+    it('should prefer the active units of a room type that has them', async () => {
+      const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+      const room = property.rooms[0]!;
+      await RoomUnit.create([
+        { property: property._id, room: room._id, number: '101' },
+        { property: property._id, room: room._id, number: '102' },
+        { property: property._id, room: room._id, number: '103', status: UnitStatus.INACTIVE }
+      ]);
+
+      await inventoryRepository.updateNights(property._id, room._id, [date], { rate: 100 });
+
+      const night = await inventoryRepository.findNight(property._id, room._id, date);
+      expect(night).toMatchObject({ totalRooms: 2, availableRooms: 2 });
+    });
+  });
+
+  describe('migrateLegacyCalendar', () => {
+    it('should fold calendar entries into one night and be safe to re-run', async () => {
+      const bookingId = new mongoose.Types.ObjectId();
+      await Calendar.create([
+        { property: propertyId, room: roomId, date, channel: CalendarChannel.AIRBNB, status: CalendarStatus.BOOKED, booking: bookingId, rate: 150 },
+        { property: propertyId, room: roomId, date, channel: CalendarChannel.VRBO, status: CalendarStatus.BLOCKED, rate: 140 }
+      ]);
+
+      const first = await inventoryMigrationService.migrateLegacyCalendar();
+      const second = await inventoryMigrationService.migrateLegacyCalendar();
+
+      expect(first.nightsCreated).toBe(1);
+      expect(first.bookingsAttached).toBe(1);
+      expect(second.nightsCreated).toBe(0);
+      expect(second.nightsUpdated).toBe(0);
+
+      const nights = await RoomAvailability.find({ room: roomId });
+      expect(nights).toHaveLength(1);
+      expect(nights[0].bookedRooms).toHaveLength(1);
+      expect(nights[0].closedChannels).toContain('vrbo');
+      expect(nights[0].getRateForChannel('airbnb')).toBe(150);
+    });
+
+    it('should size the first night of a room type from its unit count, not its calendar entries', async () => {
+      const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+      const room = property.rooms[0]!;
+      room.totalUnits = 4;
+      await property.save();
+      await Calendar.create([
+        { property: property._id, room: room._id, date, channel: CalendarChannel.AIRBNB, status: CalendarStatus.AVAILABLE, rate: 150 },
+        { property: property._id, room: room._id, date, channel: CalendarChannel.VRBO, status: CalendarStatus.AVAILABLE, rate: 140 }
+      ]);
+
+      await inventoryMigrationService.migrateLegacyCalendar();
+
+      const night = await inventoryRepository.findNight(property._id, room._id, date);
+      expect(night).toMatchObject({ totalRooms: 4, availableRooms: 4 });
+    });
+
+    it('should attach a migrated booking to a full night and leave it oversold', async () => {
+      await inventoryRepository.updateNights(propertyId, roomId, [date], { rate: 100 });
+      await RoomAvailability.updateOne(
+        { room: roomId, date },
+        {
+          $push: { bookedRooms: { channel: 'direct', bookingId: new mongoose.Types.ObjectId(), bookedAt: new Date() } },
+          $inc: { availableRooms: -1 }
+        }
+      );
+      await Calendar.create({
+        property: propertyId,
+        room: roomId,
+        date,
+        channel: CalendarChannel.AIRBNB,
+        status: CalendarStatus.BOOKED,
+        booking: new mongoose.Types.ObjectId()
+      });
+
+      const report = await inventoryMigrationService.migrateLegacyCalendar();
+
+      expect(report).toMatchObject({ nightsUpdated: 1, bookingsAttached: 1 });
+      expect(report.overbookedNights).toHaveLength(1);
+      const night = await inventoryRepository.findNight(propertyId, roomId, date);
+      expect(night!.bookedRooms).toHaveLength(2);
+      expect(night!.availableRooms).toBe(-1);
+    });
+
+    it('should leave the database untouched on a dry run', async () => {
+      await Calendar.create({ property: propertyId, room: roomId, date, channel: CalendarChannel.ALL, status: CalendarStatus.AVAILABLE, rate: 100 });
+
+      const report = await inventoryMigrationService.migrateLegacyCalendar({ dryRun: true });
+
+      expect(report.nightsCreated).toBe(1);
+      expect(await RoomAvailability.countDocuments()).toBe(0);
+    });
+  });
+});
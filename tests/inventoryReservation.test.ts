@@ -0,0 +1,197 @@
+import mongoose, { FilterQuery, UpdateQuery } from 'mongoose';
+import RoomAvailability, { IRoomAvailability, AvailabilityStatus } from '../src/models/RoomAvailability';
+import {
+  inventoryReservationService,
+  InventoryReservationService
+} from '../src/services/inventoryReservationService';
+import { ConflictError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase
+} from './utils/testHelpers';
+
+describe('Inventory Reservation Service', () => {
+  const propertyId = new mongoose.Types.ObjectId();
+  const roomId = new mongoose.Types.ObjectId();
+  const checkIn = new Date(Date.now() + 86400000 * 7);
+  const checkOut = new Date(Date.now() + 86400000 * 10);
+  const nights = InventoryReservationService.getStayDates(checkIn, checkOut);
+
+  const seedInventory = async (totalRooms: number): Promise<void> => {
+    await RoomAvailability.insertMany(nights.map(date => ({
+      property: propertyId,
+      room: roomId,
+      date,
+      totalRooms,
+      availableRooms: totalRooms,
+      rates: [{ channel: 'direct', rate: 100, currency: 'USD' }]
+    })));
+  };
+
+  const reserveFor = (bookingId: mongoose.Types.ObjectId, channel: string = 'direct') =>
+    inventoryReservationService.reserve({
+      propertyId,
+      roomId,
+      checkIn,
+      checkOut,
+      bookingId,
+      channel
+    });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+  });
+
+  describe('reserve', () => {
+    it('should claim one unit on every night of the stay', async () => {
+      await seedInventory(2);
+
+      const reserved = await reserveFor(new mongoose.Types.ObjectId());
+
+      expect(reserved).toHaveLength(nights.length);
+      const records = await RoomAvailability.find({ room: roomId });
+      records.forEach(record => {
+        expect(record.availableRooms).toBe(1);
+        expect(record.bookedRooms).toHaveLength(1);
+      });
+    });
+
+    it('should never oversell when bookings race for the last unit', async () => {
+      await seedInventory(1);
+
+      const attempts = Array.from({ length: 10 }, () => reserveFor(new mongoose.Types.ObjectId()));
+      const results = await Promise.allSettled(attempts);
+
+      const succeeded = results.filter(r => r.status === 'fulfilled');
+      const failed = results.filter(r => r.status === 'rejected');
+      expect(succeeded).toHaveLength(1);
+      expect(failed).toHaveLength(9);
+      failed.forEach(r => {
+        expect((r as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+      });
+
+      const records = await RoomAvailability.find({ room: roomId });
+      records.forEach(record => {
+        expect(record.availableRooms).toBe(0);
+        expect(record.bookedRooms).toHaveLength(1);
+      });
+    });
+
+    it('should roll back earlier nights when a later night is sold out', async () => {
+      await seedInventory(1);
+      await RoomAvailability.updateOne(
+        { room: roomId, date: nights[nights.length - 1] },
+        { status: AvailabilityStatus.CLOSED }
+      );
+
+      await expect(reserveFor(new mongoose.Types.ObjectId())).rejects.toBeInstanceOf(ConflictError);
+
+      const records = await RoomAvailability.find({ room: roomId });
+      records.forEach(record => {
+        expect(record.availableRooms).toBe(1);
+        expect(record.bookedRooms).toHaveLength(0);
+      });
+    });
+
+    it('should not give back units a concurrent release already returned', async () => {
+      await seedInventory(1);
+      await RoomAvailability.updateOne(
+        { room: roomId, date: nights[nights.length - 1] },
+        { status: AvailabilityStatus.CLOSED }
+      );
+      const bookingId = new mongoose.Types.ObjectId();
+      const updateMany = RoomAvailability.updateMany.bind(RoomAvailability);
+
+      // The booking is released while its failed reservation rolls back
+      const spy = jest.spyOn(RoomAvailability, 'updateMany').mockImplementationOnce(((
+        filter: FilterQuery<IRoomAvailability>,
+        update: UpdateQuery<IRoomAvailability>
+      ) => inventoryReservationService.release({ propertyId, roomId, checkIn, checkOut, bookingId })
+        .then(() => updateMany(filter, update))) as unknown as typeof RoomAvailability.updateMany);
+
+      try {
+        await expect(reserveFor(bookingId)).rejects.toBeInstanceOf(ConflictError);
+      } finally {
+        spy.mockRestore();
+      }
+
+      const records = await RoomAvailability.find({ room: roomId });
+      records.forEach(record => {
+        expect(record.availableRooms).toBe(1);
+        expect(record.bookedRooms).toHaveLength(0);
+      });
+    });
+
+    it('should reject nights without loaded inventory', async () => {
+      await expect(reserveFor(new mongoose.Types.ObjectId())).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should reject channels that are closed', async () => {
+      await seedInventory(2);
+      await RoomAvailability.updateMany({ room: roomId }, { closedChannels: ['airbnb'] });
+
+      await expect(reserveFor(new mongoose.Types.ObjectId(), 'airbnb')).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('should stop a channel at its allotment while others sell the rest', async () => {
+      await seedInventory(4);
+      await RoomAvailability.updateMany({ room: roomId }, { allotments: [{ channel: 'booking', limit: 2 }] });
+
+      await reserveFor(new mongoose.Types.ObjectId(), 'booking');
+      await reserveFor(new mongoose.Types.ObjectId(), 'booking');
+      await expect(reserveFor(new mongoose.Types.ObjectId(), 'booking')).rejects.toBeInstanceOf(ConflictError);
+
+      await reserveFor(new mongoose.Types.ObjectId(), 'direct');
+      const records = await RoomAvailability.find({ room: roomId });
+      records.forEach(record => {
+        expect(record.getSoldForChannel('booking')).toBe(2);
+        expect(record.availableRooms).toBe(1);
+      });
+    });
+
+    it('should sell past total rooms up to the overbooking limit', async () => {
+      await seedInventory(1);
+      const records = await RoomAvailability.find({ room: roomId });
+      for (const record of records) {
+        record.overbookingLimit = 1;
+        await record.save();
+      }
+
+      await reserveFor(new mongoose.Types.ObjectId());
+      await reserveFor(new mongoose.Types.ObjectId());
+      await expect(reserveFor(new mongoose.Types.ObjectId())).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('release', () => {
+    it('should restore availability for every night held by the booking', async () => {
+      await seedInventory(1);
+      const bookingId = new mongoose.Types.ObjectId();
+      await reserveFor(bookingId);
+
+      const released = await inventoryReservationService.release({
+        propertyId,
+        roomId,
+        checkIn,
+        checkOut,
+        bookingId
+      });
+
+      expect(released).toBe(nights.length);
+      const records = await RoomAvailability.find({ room: roomId });
+      records.forEach(record => {
+        expect(record.availableRooms).toBe(1);
+        expect(record.bookedRooms).toHaveLength(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Organization from '../src/models/Organization';
+import Booking, { IBooking, BookingStatus } from '../src/models/Booking';
+import { ChargeCategory, PaymentMethod } from '../src/models/Folio';
+import Invoice, { InvoiceStatus, InvoiceType } from '../src/models/Invoice';
+import InvoiceSequence from '../src/models/InvoiceSequence';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { folioService } from '../src/services/folioService';
+import { invoiceService } from '../src/services/invoiceService';
+import { invoiceDocumentService } from '../src/services/invoiceDocumentService';
+import emailService from '../src/services/emailService';
+import { ConflictError, ValidationError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking,
+  createTestOrganization
+} from './utils/testHelpers';
+
+describe('Invoice Service', () => {
+  const year = new Date().getFullYear();
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const createProperty = async (organization?: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId> => {
+    const property = await Property.create({ ...createTestProperty(new mongoose.Types.ObjectId()), organization });
+    return property._id;
+  };
+
+  const createBooking = async (propertyId: mongoose.Types.ObjectId, status = BookingStatus.CONFIRMED): Promise<IBooking> => {
+    const property = await Property.findById(propertyId);
+
+    return Booking.create({
+      ...createTestBooking(propertyId, property!.rooms[0]._id),
+      checkIn: day(-2),
+      checkOut: day(1),
+      status
+    });
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should invoice the folio charges and payments of a booking', async () => {
+    const booking = await createBooking(await createProperty());
+    await folioService.postCharge(booking, { amount: 12.5, category: ChargeCategory.INCIDENTAL, description: 'Minibar' });
+    await folioService.recordPayment(booking, { amount: 100, method: PaymentMethod.CARD });
+
+    const invoice = await invoiceService.issueInvoice(booking, { notes: 'Thank you for staying with us' });
+    const folio = await folioService.getFolio(booking);
+
+    expect(invoice.number).toBe(`INV-${year}-000001`);
+    expect(invoice.lines.map(line => line.category))
+      .toEqual([ChargeCategory.ROOM, ChargeCategory.FEE, ChargeCategory.TAX, ChargeCategory.INCIDENTAL]);
+    expect(invoice.lines[0]?.quantity).toBe(3);
+    expect(invoice.total).toBe(folio.getSummary().charges);
+    expect(invoice.taxTotal).toBe(booking.pricing.taxes);
+    expect(invoice.subtotal).toBe(invoice.total - invoice.taxTotal);
+    expect(invoice.amountPaid).toBe(100);
+    expect(invoice.balanceDue).toBe(folio.balance);
+    expect(invoice.recipient.name).toBe('John Doe');
+    expect(invoice.issuer.propertyName).toBe(invoice.issuer.name);
+
+    // Stored renderings
+    const pdf = await invoiceDocumentService.getDocument(invoice, 'pdf');
+    expect(pdf.content.subarray(0, 8).toString()).toBe('%PDF-1.4');
+    expect(invoice.files.pdf?.path).toContain(`uploads/invoices/${booking.property.toString()}/`);
+    const html = await invoiceDocumentService.getDocument(invoice, 'html');
+    expect(html.content.toString()).toContain(invoice.number);
+
+    // One live invoice per booking
+    await expect(invoiceService.issueInvoice(booking)).rejects.toThrow(ConflictError);
+  });
+
+  it('should let only one of two concurrent issues invoice a booking', async () => {
+    await Invoice.syncIndexes();
+    const propertyId = await createProperty();
+    const booking = await createBooking(propertyId);
+
+    const results = await Promise.allSettled([invoiceService.issueInvoice(booking), invoiceService.issueInvoice(booking)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [failed] = results.filter(result => result.status === 'rejected');
+    expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+    expect(await Invoice.countDocuments({ booking: booking._id })).toBe(1);
+
+    // The losing issue took no number
+    const next = await invoiceService.issueInvoice(await createBooking(propertyId));
+    expect(next.number).toBe(`INV-${year}-000002`);
+  });
+
+  it('should number gap-free per organization with its legal details', async () => {
+    const organization = await Organization.create({
+      ...createTestOrganization(new mongoose.Types.ObjectId()),
+      legalName: 'Test Hotels Ltd',
+      contactInfo: { email: 'billing@testhotels.com' },
+      businessInfo: { taxId: 'PT123456789', registrationNumber: 'REG-42' }
+    });
+    const first = await createBooking(await createProperty(organization._id));
+    const second = await createBooking(await createProperty(organization._id));
+    const pending = await createBooking(await createProperty(organization._id), BookingStatus.PENDING);
+    const independent = await createBooking(await createProperty());
+
+    const firstInvoice = await invoiceService.issueInvoice(first);
+    // A failed issue takes no number
+    await expect(invoiceService.issueInvoice(pending)).rejects.toThrow(ConflictError);
+    const secondInvoice = await invoiceService.issueInvoice(second);
+    const independentInvoice = await invoiceService.issueInvoice(independent);
+
+    expect([firstInvoice.number, secondInvoice.number]).toEqual([`INV-${year}-000001`, `INV-${year}-000002`]);
+    expect(independentInvoice.number).toBe(`INV-${year}-000001`);
+    expect(secondInvoice.toObject().issuer).toMatchObject({
+      name: 'Test Organization',
+      legalName: 'Test Hotels Ltd',
+      taxId: 'PT123456789',
+      registrationNumber: 'REG-42'
+    });
+
+    // A series left behind (e.g. by an interrupted issue) catches up instead of reusing a number
+    await InvoiceSequence.updateOne({ key: secondInvoice.sequenceKey }, { lastNumber: 0 });
+    const third = await invoiceService.issueInvoice(await createBooking(await createProperty(organization._id)));
+    expect(third.number).toBe(`INV-${year}-000003`);
+  });
+
+  it('should credit invoices in part and in full, then allow a new invoice', async () => {
+    const booking = await createBooking(await createProperty());
+    const invoice = await invoiceService.issueInvoice(booking);
+
+    const partial = await invoiceService.issueCreditNote(invoice, { amount: 50, reason: 'Noisy room' });
+    expect(partial.type).toBe(InvoiceType.CREDIT_NOTE);
+    expect(partial.number).toBe(`CN-${year}-000001`);
+    expect(partial.originalNumber).toBe(invoice.number);
+    expect(partial.total).toBe(-50);
+    expect(partial.lines.reduce((sum, line) => sum + line.amount, 0)).toBeCloseTo(-50, 2);
+    expect(partial.taxTotal).toBeLessThan(0);
+    expect((await Invoice.findById(invoice._id))?.status).toBe(InvoiceStatus.PARTIALLY_CREDITED);
+
+    await expect(invoiceService.issueCreditNote(invoice._id, { amount: invoice.total, reason: 'Too much' }))
+      .rejects.toThrow(ConflictError);
+    await expect(invoiceService.issueCreditNote(partial._id, { reason: 'Not an invoice' }))
+      .rejects.toThrow(ValidationError);
+
+    const rest = await invoiceService.issueCreditNote(invoice._id, { reason: 'Stay cancelled' });
+    expect(rest.number).toBe(`CN-${year}-000002`);
+    expect(rest.total).toBe(-(invoice.total - 50));
+
+    const credited = await Invoice.findById(invoice._id);
+    expect(credited?.status).toBe(InvoiceStatus.CREDITED);
+    expect(credited?.creditedAmount).toBe(invoice.total);
+
+    const reissued = await invoiceService.issueInvoice(booking);
+    expect(reissued.number).toBe(`INV-${year}-000002`);
+    expect((await invoiceService.getBookingInvoices(booking._id)).map(document => document.number))
+      .toEqual([invoice.number, partial.number, rest.number, reissued.number]);
+  });
+
+  it('should email the PDF and record the delivery', async () => {
+    const booking = await createBooking(await createProperty());
+    const invoice = await invoiceService.issueInvoice(booking);
+
+    jest.spyOn(emailService, 'isEmailConfigured').mockReturnValue(true);
+    const send = jest.spyOn(emailService, 'sendInvoiceEmail').mockResolvedValue(true);
+
+    await invoiceService.sendInvoice(invoice._id, {}, new mongoose.Types.ObjectId().toString());
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const [to, name, , attachments] = send.mock.calls[0]!;
+    expect(to).toBe('john.doe@example.com');
+    expect(name).toBe('John Doe');
+    expect(attachments?.[0]).toMatchObject({ filename: `INV-${year}-000001.pdf`, contentType: 'application/pdf' });
+
+    const delivered = await Invoice.findById(invoice._id);
+    expect(delivered?.deliveries.map(delivery => delivery.to)).toEqual(['john.doe@example.com']);
+  });
+});
@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking, BookingStatus, StatusChangeSource } from '../src/models/Booking';
+import Folio from '../src/models/Folio';
+import NightAudit, { NightAuditAction, NightAuditStatus } from '../src/models/NightAudit';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { nightAuditService } from '../src/services/nightAuditService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Night Audit Service', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  // A moment given as hours past UTC midnight of a booking date
+  const hoursInto = (date: Date, hours: number): Date =>
+    new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) + hours * HOUR);
+
+  const createProperty = async (timezone: string): Promise<mongoose.Types.ObjectId> => {
+    const property = await Property.create({ ...createTestProperty(new mongoose.Types.ObjectId()), settings: { timezone } });
+    return property._id;
+  };
+
+  const createBooking = async (
+    propertyId: mongoose.Types.ObjectId,
+    checkInOffset: number,
+    status: BookingStatus = BookingStatus.CONFIRMED
+  ): Promise<IBooking> => {
+    const property = await Property.findById(propertyId);
+
+    return Booking.create({
+      ...createTestBooking(propertyId, property!.rooms[0]._id),
+      checkIn: day(checkInOffset),
+      checkOut: day(checkInOffset + 2),
+      status
+    });
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+  });
+
+  it('should mark arrivals past the cutoff as no-shows with the policy charge', async () => {
+    const propertyId = await createProperty('UTC');
+    const missed = await createBooking(propertyId, -2);
+    const upcoming = await createBooking(propertyId, 3);
+
+    const report = await nightAuditService.run({ propertyId: propertyId.toString() });
+
+    const noShow = await Booking.findById(missed._id);
+    expect(noShow?.status).toBe(BookingStatus.NO_SHOW);
+    expect(noShow?.statusHistory[noShow.statusHistory.length - 1]?.source).toBe(StatusChangeSource.SYSTEM);
+    expect(noShow?.cancellationCharge?.noShow).toBe(true);
+    expect((await Folio.findOne({ booking: missed._id }))?.balance).toBe(noShow?.cancellationCharge?.penalty);
+    expect((await Booking.findById(upcoming._id))?.status).toBe(BookingStatus.CONFIRMED);
+
+    expect(report.status).toBe(NightAuditStatus.COMPLETED);
+    expect(report.toObject().stats).toMatchObject({ properties: 1, noShows: 1, failures: 0 });
+    expect(report.entries.map(entry => entry.action)).toEqual([NightAuditAction.NO_SHOW]);
+    expect(report.entries[0]?.penalty).toBe(noShow?.cancellationCharge?.penalty);
+  });
+
+  it('should apply the cutoff on each property\'s local clock', async () => {
+    const east = await createProperty('Pacific/Kiritimati'); // UTC+14
+    const west = await createProperty('Pacific/Pago_Pago');  // UTC-11
+    const eastBooking = await createBooking(east, -3);
+    const westBooking = await createBooking(west, -3);
+
+    // 09:00 UTC the day after arrival: 23:00 that day in the east, still 22:00 on the arrival day in the west
+    const report = await nightAuditService.run({ at: hoursInto(eastBooking.checkIn, 33), noShowCutoffHours: 28 });
+
+    expect((await Booking.findById(eastBooking._id))?.status).toBe(BookingStatus.NO_SHOW);
+    expect((await Booking.findById(westBooking._id))?.status).toBe(BookingStatus.CONFIRMED);
+    expect(report.entries.map(entry => entry.timezone)).toEqual(['Pacific/Kiritimati']);
+  });
+
+  it('should flag guests in house past check-out and change nothing on a dry run', async () => {
+    const propertyId = await createProperty('UTC');
+    const overdue = await createBooking(propertyId, -3, BookingStatus.CHECKED_IN);
+    const missed = await createBooking(propertyId, -2);
+
+    const preview = await nightAuditService.run({ dryRun: true });
+    expect(preview.toObject().stats).toMatchObject({ noShows: 1, overdueDepartures: 1 });
+    expect((await Booking.findById(missed._id))?.status).toBe(BookingStatus.CONFIRMED);
+    expect((await Booking.findById(overdue._id))?.overdueDepartureAt).toBeUndefined();
+
+    const report = await nightAuditService.run();
+    expect((await Booking.findById(overdue._id))?.overdueDepartureAt).toEqual(report.auditedAt);
+    expect((await Booking.findById(overdue._id))?.status).toBe(BookingStatus.CHECKED_IN);
+
+    const { runs, total } = await nightAuditService.getRuns();
+    expect(total).toBe(2);
+    expect(runs[0]?._id.equals(report._id)).toBe(true);
+    expect(await NightAudit.countDocuments({ dryRun: true })).toBe(1);
+  });
+});
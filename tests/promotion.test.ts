@@ -0,0 +1,201 @@
+import mongoose from 'mongoose';
+import Property, { RoomType } from '../src/models/Property';
+import Booking, { IPricing } from '../src/models/Booking';
+import Promotion, { PromotionDiscountType, PromotionType } from '../src/models/Promotion';
+import PromotionRedemption, { RedemptionStatus } from '../src/models/PromotionRedemption';
+import PromotionGuestUsage from '../src/models/PromotionGuestUsage';
+import analyticsService, { TimeRange } from '../src/services/AnalyticsService';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { promotionService, IPromotionRequest } from '../src/services/promotionService';
+import { ConflictError, ValidationError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Promotion Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  // Three nights of the test room type (150 USD per night) with 50 USD of taxes
+  const pricing = (): IPricing => ({ baseRate: 450, taxes: 50, fees: 0, discounts: 0, total: 500, currency: 'USD' });
+
+  const stay = (overrides: Partial<Parameters<typeof promotionService.evaluate>[1]> = {}) => ({
+    propertyId,
+    roomId,
+    checkIn: day(14),
+    checkOut: day(17),
+    pricing: pricing(),
+    guestEmail: 'john.doe@example.com',
+    ...overrides
+  });
+
+  const createPromotion = (request: Partial<IPromotionRequest>) => promotionService.createPromotion({
+    code: 'SUMMER10',
+    name: 'Summer sale',
+    discountType: PromotionDiscountType.PERCENTAGE,
+    amount: 10,
+    properties: [propertyId.toString()],
+    ...request
+  });
+
+  const newBooking = (email = 'john.doe@example.com') => new Booking({
+    ...createTestBooking(propertyId, roomId),
+    guestInfo: { ...createTestBooking(propertyId, roomId).guestInfo, email },
+    checkIn: day(14),
+    checkOut: day(17),
+    pricing: pricing()
+  });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]!._id;
+  });
+
+  it('should take percentages and then fixed amounts off the room rate', async () => {
+    await createPromotion({ code: 'summer10', stackable: true });
+    await createPromotion({
+      code: 'GIFT50',
+      name: 'Gift voucher',
+      type: PromotionType.VOUCHER,
+      discountType: PromotionDiscountType.FIXED,
+      amount: 50,
+      currency: 'USD',
+      stackable: true
+    });
+
+    const quote = await promotionService.evaluate([' gift50', 'Summer10'], stay());
+
+    expect(quote.rejected).toEqual([]);
+    expect(quote.applied.map(applied => [applied.code, applied.discount])).toEqual([['SUMMER10', 45], ['GIFT50', 50]]);
+    expect(quote.discount).toBe(95);
+    expect(quote.pricing).toMatchObject({ baseRate: 450, taxes: 50, discounts: 95, total: 405 });
+
+    // Vouchers are single use unless told otherwise
+    expect((await Promotion.findOne({ code: 'GIFT50' }))?.maxUses).toBe(1);
+  });
+
+  it('should reject codes outside their properties, room types, dates, booking window and minimum stay', async () => {
+    await Promotion.create({
+      code: 'OTHERHOTEL',
+      name: 'Other hotel',
+      discountType: PromotionDiscountType.PERCENTAGE,
+      amount: 10,
+      properties: [new mongoose.Types.ObjectId()]
+    });
+    await createPromotion({ code: 'SUITES', roomTypes: [RoomType.SUITE] });
+    await createPromotion({ code: 'WINTER', stayFrom: day(30), stayTo: day(60) });
+    await createPromotion({ code: 'EARLYBIRD', minDaysInAdvance: 30 });
+    await createPromotion({ code: 'LONGSTAY', minNights: 5 });
+    await createPromotion({ code: 'EXPIRED', validTo: day(-1) });
+    await createPromotion({ code: 'DELUXE', roomTypes: [RoomType.DELUXE], stayFrom: day(14), stayTo: day(16) });
+
+    const quote = await promotionService.evaluate(
+      ['OTHERHOTEL', 'SUITES', 'WINTER', 'EARLYBIRD', 'LONGSTAY', 'EXPIRED', 'NOSUCHCODE', 'DELUXE'],
+      stay()
+    );
+
+    expect(quote.rejected.map(rejected => rejected.code)).toEqual([
+      'OTHERHOTEL', 'SUITES', 'WINTER', 'EARLYBIRD', 'LONGSTAY', 'EXPIRED', 'NOSUCHCODE'
+    ]);
+    expect(quote.rejected[0]?.reason).toBe('Code is not valid at this property');
+    expect(quote.applied.map(applied => applied.code)).toEqual(['DELUXE']);
+  });
+
+  it('should not combine a code that is not stackable', async () => {
+    await createPromotion({ code: 'SUMMER10' });
+    await createPromotion({ code: 'MEMBER5', amount: 5, stackable: true });
+
+    const quote = await promotionService.evaluate(['SUMMER10', 'MEMBER5'], stay());
+
+    expect(quote.applied.map(applied => applied.code)).toEqual(['SUMMER10']);
+    expect(quote.rejected).toEqual([{ code: 'MEMBER5', reason: 'Code cannot be combined with other codes' }]);
+
+    await expect(promotionService.applyToBooking(newBooking(), ['SUMMER10', 'MEMBER5'])).rejects.toThrow(ValidationError);
+  });
+
+  it('should count redemptions against the code and guest limits and give them back on release', async () => {
+    const promotion = await createPromotion({ code: 'TWICE', maxUses: 2, maxUsesPerGuest: 1 });
+
+    const first = newBooking();
+    const applied = await promotionService.applyToBooking(first, ['TWICE']);
+    await promotionService.redeem(first, applied);
+    await first.save();
+
+    expect(first.pricing).toMatchObject({ discounts: 45, total: 455 });
+    expect((await Promotion.findById(promotion._id))?.usageCount).toBe(1);
+
+    // The same guest may not use it again
+    await expect(promotionService.applyToBooking(newBooking('JOHN.DOE@example.com'), ['TWICE'])).rejects.toThrow(ValidationError);
+    await expect(promotionService.redeem(newBooking(), applied)).rejects.toThrow(ConflictError);
+    expect((await Promotion.findById(promotion._id))?.usageCount).toBe(1);
+
+    const second = newBooking('jane@example.com');
+    await promotionService.redeem(second, await promotionService.applyToBooking(second, ['TWICE']));
+
+    // Fully redeemed until a booking gives its use back
+    const quote = await promotionService.evaluate(['TWICE'], stay({ guestEmail: 'other@example.com' }));
+    expect(quote.rejected[0]?.reason).toBe('Code has been fully redeemed');
+
+    await promotionService.releaseBooking(first._id);
+    await promotionService.releaseBooking(first._id);
+
+    expect((await Promotion.findById(promotion._id))?.usageCount).toBe(1);
+    expect(await PromotionRedemption.countDocuments({ status: RedemptionStatus.RELEASED })).toBe(1);
+    expect((await promotionService.evaluate(['TWICE'], stay())).applied).toHaveLength(1);
+  });
+
+  it('should let only one of a guest\'s concurrent bookings use a once-per-guest code', async () => {
+    const promotion = await createPromotion({ code: 'ONCE', maxUses: 5, maxUsesPerGuest: 1 });
+    await PromotionGuestUsage.syncIndexes();
+
+    const bookings = [newBooking(), newBooking('John.Doe@example.com')];
+    const applied = await Promise.all(bookings.map(booking => promotionService.applyToBooking(booking, ['ONCE'])));
+    const results = await Promise.allSettled(bookings.map((booking, index) => promotionService.redeem(booking, applied[index]!)));
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [failed] = results.filter(result => result.status === 'rejected');
+    expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(ConflictError);
+
+    expect(await PromotionRedemption.countDocuments({ status: RedemptionStatus.REDEEMED })).toBe(1);
+    expect((await Promotion.findById(promotion._id))?.usageCount).toBe(1);
+  });
+
+  it('should report redemptions and discounts in analytics', async () => {
+    await createPromotion({ code: 'SUMMER10' });
+
+    for (const email of ['a@example.com', 'b@example.com']) {
+      const booking = newBooking(email);
+      await promotionService.redeem(booking, await promotionService.applyToBooking(booking, ['SUMMER10']));
+      await booking.save();
+    }
+
+    const performance = await analyticsService.getPromotionPerformance(TimeRange.LAST_7_DAYS, propertyId.toString());
+
+    expect(performance).toMatchObject({
+      redemptions: 2,
+      totalDiscount: 90,
+      bookingRevenue: 910,
+      currency: 'USD'
+    });
+    expect(performance.byPromotion).toEqual([
+      expect.objectContaining({ code: 'SUMMER10', redemptions: 2, discount: 90, bookingRevenue: 910 })
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { BookingChannel, BookingStatus, DocumentType } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import ReservationGroup, { ReservationGroupStatus } from '../src/models/ReservationGroup';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { reservationGroupService, IGroupReservationRequest } from '../src/services/reservationGroupService';
+import { ConflictError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Reservation Group Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const groupRequest = (roomCount: number): IGroupReservationRequest => ({
+    propertyId,
+    name: 'Smith wedding',
+    leadGuest: { ...createTestBooking(propertyId, roomId).guestInfo, documentType: DocumentType.PASSPORT },
+    channel: BookingChannel.DIRECT,
+    rooms: Array.from({ length: roomCount }, () => ({
+      roomId,
+      checkIn: day(10),
+      checkOut: day(12),
+      guests: { adults: 2, children: 0, infants: 0 }
+    }))
+  });
+
+  const availableOn = async (offset: number): Promise<number | undefined> => {
+    const night = await RoomAvailability.findOne({ room: roomId, date: day(offset) });
+    return night?.availableRooms;
+  };
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+
+    await RoomAvailability.insertMany([10, 11].map(offset => ({
+      property: propertyId,
+      room: roomId,
+      date: day(offset),
+      totalRooms: 3,
+      availableRooms: 3
+    })));
+  });
+
+  it('should book every room under one confirmation code and folio', async () => {
+    const { group, bookings } = await reservationGroupService.createGroup(groupRequest(2));
+
+    expect(bookings).toHaveLength(2);
+    expect(bookings.every(booking => booking.group?.equals(group._id))).toBe(true);
+    expect(bookings.map(booking => booking.channelConfirmationCode))
+      .toEqual([`${group.confirmationCode}-1`, `${group.confirmationCode}-2`]);
+    expect(group.folio.total).toBe(bookings[0].pricing.total + bookings[1].pricing.total);
+    expect(await availableOn(10)).toBe(1);
+  });
+
+  it('should book nothing when the group needs more rooms than are free', async () => {
+    const availability = await reservationGroupService.checkAvailability(propertyId, groupRequest(4).rooms, 'direct');
+    expect(availability.available).toBe(false);
+    expect(availability.shortfalls[0]).toMatchObject({ requested: 4, available: 3 });
+
+    await expect(reservationGroupService.createGroup(groupRequest(4)))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    expect(await Booking.countDocuments()).toBe(0);
+    expect(await ReservationGroup.countDocuments()).toBe(0);
+    expect(await availableOn(10)).toBe(3);
+  });
+
+  it('should cancel single rooms and keep the group status and folio in step', async () => {
+    const { group, bookings } = await reservationGroupService.createGroup(groupRequest(3));
+
+    const partial = await reservationGroupService.cancelRooms(group._id, [bookings[0]._id], { reason: 'One room fewer' });
+    expect(partial.group.status).toBe(ReservationGroupStatus.PARTIALLY_CANCELLED);
+    expect(partial.group.folio.total).toBe(bookings[1].pricing.total + bookings[2].pricing.total);
+    expect(await availableOn(10)).toBe(1);
+
+    const cancelled = await reservationGroupService.cancelRooms(group._id, undefined);
+    expect(cancelled.group.status).toBe(ReservationGroupStatus.CANCELLED);
+    expect(cancelled.bookings.every(booking => booking.status === BookingStatus.CANCELLED)).toBe(true);
+    expect(cancelled.group.folio.total).toBe(0);
+    expect(await availableOn(10)).toBe(3);
+  });
+});
@@ -0,0 +1,163 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking, { IBooking } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import { IRoomUnit } from '../src/models/RoomUnit';
+import UnitAssignment, { AssignmentMethod } from '../src/models/UnitAssignment';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { roomUnitService } from '../src/services/roomUnitService';
+import { unitAssignmentService } from '../src/services/unitAssignmentService';
+import { ConflictError } from '../src/utils/errors';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Room Units', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+  let units: IRoomUnit[];
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  const createBooking = (checkIn: number, checkOut: number): Promise<IBooking> =>
+    Booking.create({ ...createTestBooking(propertyId, roomId), checkIn: day(checkIn), checkOut: day(checkOut) });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]._id;
+
+    await RoomAvailability.insertMany([10, 11, 12, 13].map(offset => ({
+      property: propertyId,
+      room: roomId,
+      date: day(offset),
+      totalRooms: 5,
+      availableRooms: 5
+    })));
+
+    units = [];
+    for (const number of ['101', '102']) {
+      units.push(await roomUnitService.createUnit(propertyId, roomId, { number, floor: 1 }));
+    }
+  });
+
+  describe('inventory counts', () => {
+    it('should set totalRooms to the active unit count', async () => {
+      const nights = await RoomAvailability.find({ room: roomId });
+
+      nights.forEach(night => {
+        expect(night.totalRooms).toBe(2);
+        expect(night.availableRooms).toBe(2);
+      });
+    });
+
+    it('should derive blockedRooms from units out of service', async () => {
+      const { unit } = await roomUnitService.addOutOfService(propertyId, units[0]._id, {
+        startDate: day(11),
+        endDate: day(13)
+      });
+
+      const blocked = await RoomAvailability.find({ room: roomId, date: { $in: [day(11), day(12)] } });
+      blocked.forEach(night => {
+        expect(night.blockedRooms).toBe(1);
+        expect(night.availableRooms).toBe(1);
+      });
+
+      await roomUnitService.removeOutOfService(propertyId, unit._id, unit.outOfService[0]._id);
+
+      const restored = await RoomAvailability.find({ room: roomId });
+      restored.forEach(night => {
+        expect(night.blockedRooms).toBe(0);
+        expect(night.availableRooms).toBe(2);
+      });
+    });
+
+    it('should refuse to take an assigned unit out of service', async () => {
+      const booking = await createBooking(10, 12);
+      await unitAssignmentService.assignUnit(booking._id, units[0]._id);
+
+      await expect(roomUnitService.addOutOfService(propertyId, units[0]._id, {
+        startDate: day(11),
+        endDate: day(12)
+      })).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe('assignment', () => {
+    it('should place a new stay next to the stay it fits against', async () => {
+      const first = await createBooking(10, 12);
+      await unitAssignmentService.assignUnit(first._id, units[1]._id);
+
+      const second = await createBooking(12, 14);
+      const segments = await unitAssignmentService.assignBooking(second);
+
+      expect(segments).toHaveLength(1);
+      expect(segments?.[0].unit.toString()).toBe(units[1]._id.toString());
+      expect(second.unit?.toString()).toBe(units[1]._id.toString());
+    });
+
+    it('should split a stay only when no unit is free for all of it', async () => {
+      const early = await createBooking(10, 12);
+      const late = await createBooking(12, 14);
+      await unitAssignmentService.assignUnit(early._id, units[0]._id);
+      await unitAssignmentService.assignUnit(late._id, units[1]._id);
+
+      const long = await createBooking(10, 14);
+      const result = await unitAssignmentService.autoAssign(propertyId, { startDate: day(10), endDate: day(14) });
+
+      expect(result.unchanged).toBe(2);
+      expect(result.moves).toBe(1);
+      const segments = await UnitAssignment.find({ booking: long._id }).sort({ startDate: 1 });
+      expect(segments.map(s => s.unit.toString())).toEqual([units[1]._id.toString(), units[0]._id.toString()]);
+    });
+
+    it('should not move existing stays unless asked to re-optimise', async () => {
+      const booking = await createBooking(10, 12);
+      await unitAssignmentService.assignBooking(booking);
+
+      const rerun = await unitAssignmentService.autoAssign(propertyId, { startDate: day(10), endDate: day(14) });
+
+      expect(rerun.assigned).toHaveLength(0);
+      expect(rerun.unchanged).toBe(1);
+    });
+
+    it('should move a stay from the effective date and keep the nights already stayed', async () => {
+      const booking = await createBooking(10, 13);
+      await unitAssignmentService.assignUnit(booking._id, units[0]._id);
+
+      const assignments = await unitAssignmentService.moveBooking(booking._id, units[1]._id, {
+        effectiveDate: day(11),
+        reason: 'Air conditioning broken'
+      });
+
+      expect(assignments).toHaveLength(2);
+      expect(assignments[0].endDate.getTime()).toBe(day(11).getTime());
+      expect(assignments[1].method).toBe(AssignmentMethod.MOVE);
+      expect(assignments[1].movedFrom?.toString()).toBe(units[0]._id.toString());
+    });
+
+    it('should reject a move into an occupied unit', async () => {
+      const staying = await createBooking(10, 13);
+      const moving = await createBooking(11, 13);
+      await unitAssignmentService.assignUnit(staying._id, units[0]._id);
+      await unitAssignmentService.assignUnit(moving._id, units[1]._id);
+
+      await expect(unitAssignmentService.moveBooking(moving._id, units[0]._id, { effectiveDate: day(11) }))
+        .rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+});
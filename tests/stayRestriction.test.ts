@@ -0,0 +1,99 @@
+import mongoose from 'mongoose';
+import RoomAvailability, { IRoomAvailability } from '../src/models/RoomAvailability';
+import { inventoryRepository, InventoryRepository } from '../src/services/inventoryRepository';
+import { stayRestrictionService, RestrictionCode } from '../src/services/stayRestrictionService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase
+} from './utils/testHelpers';
+
+describe('Stay Restriction Service', () => {
+  const propertyId = new mongoose.Types.ObjectId();
+  const roomId = new mongoose.Types.ObjectId();
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  // Nights from day 10 to day 15, built in memory
+  const buildNights = (overrides: Record<number, Partial<IRoomAvailability>> = {}): IRoomAvailability[] =>
+    [10, 11, 12, 13, 14, 15].map(offset => new RoomAvailability({
+      property: propertyId,
+      room: roomId,
+      date: day(offset),
+      totalRooms: 2,
+      availableRooms: 2,
+      ...overrides[offset]
+    }));
+
+  const codes = (nights: IRoomAvailability[], checkIn: number, checkOut: number, channel = 'direct'): RestrictionCode[] =>
+    stayRestrictionService
+      .evaluate({ checkIn: day(checkIn), checkOut: day(checkOut), channel, nights })
+      .map(violation => violation.code);
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+  });
+
+  describe('evaluate', () => {
+    it('should reject arrivals and departures on closed dates only', () => {
+      const nights = buildNights({ 11: { closedToArrival: true, closedToDeparture: true } });
+
+      expect(codes(nights, 11, 13)).toEqual([RestrictionCode.CLOSED_TO_ARRIVAL]);
+      expect(codes(nights, 10, 11)).toEqual([RestrictionCode.CLOSED_TO_DEPARTURE]);
+      expect(codes(nights, 10, 12)).toEqual([]);
+    });
+
+    it('should apply min-stay-arrival to the arrival date and min-stay-through to every night', () => {
+      const nights = buildNights({
+        10: { minStayArrival: 3 },
+        12: { minStay: 2 }
+      });
+
+      expect(codes(nights, 10, 12)).toEqual([RestrictionCode.MIN_STAY_ARRIVAL]);
+      expect(codes(nights, 11, 12)).toEqual([]);
+      expect(codes(nights, 12, 13)).toEqual([RestrictionCode.MIN_STAY_THROUGH]);
+    });
+
+    it('should enforce the advance booking window on the arrival date', () => {
+      const nights = buildNights({
+        10: { minAdvanceDays: 14 },
+        11: { maxAdvanceDays: 7 }
+      });
+
+      expect(codes(nights, 10, 12)).toEqual([RestrictionCode.MIN_ADVANCE]);
+      expect(codes(nights, 11, 12)).toEqual([RestrictionCode.MAX_ADVANCE]);
+    });
+
+    it('should let a channel override the date defaults', () => {
+      const nights = buildNights({
+        10: { closedToArrival: true, channelRestrictions: [{ channel: 'airbnb', closedToArrival: false }] }
+      });
+
+      expect(codes(nights, 10, 12, 'direct')).toEqual([RestrictionCode.CLOSED_TO_ARRIVAL]);
+      expect(codes(nights, 10, 12, 'airbnb')).toEqual([]);
+    });
+  });
+
+  describe('checkStay', () => {
+    it('should read restrictions written through the inventory repository', async () => {
+      await inventoryRepository.updateNights(propertyId, roomId, [day(10), day(11), day(12)], {
+        channel: 'booking',
+        restrictions: { closedToArrival: true, minStayThrough: 3 }
+      });
+
+      const booking = await stayRestrictionService.checkStay(propertyId, roomId, day(10), day(12), 'booking');
+      const direct = await stayRestrictionService.checkStay(propertyId, roomId, day(10), day(12), 'direct');
+
+      expect(booking.map(v => v.code)).toContain(RestrictionCode.CLOSED_TO_ARRIVAL);
+      expect(booking.map(v => v.code)).toContain(RestrictionCode.MIN_STAY_THROUGH);
+      expect(direct).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import Property from '../src/models/Property';
+import Booking from '../src/models/Booking';
+import RatePlan, { RatePlanType } from '../src/models/RatePlan';
+import TaxRule, { TaxRuleCalculation, TaxRuleCategory, TaxRuleKind } from '../src/models/TaxRule';
+import { InventoryRepository } from '../src/services/inventoryRepository';
+import { bookingPricingService } from '../src/services/bookingPricingService';
+import { taxRuleService } from '../src/services/taxRuleService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty,
+  createTestBooking
+} from './utils/testHelpers';
+
+describe('Tax Rule Service', () => {
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const day = (offset: number): Date => InventoryRepository.normalizeDate(new Date(Date.now() + 86400000 * offset));
+
+  // Three nights of the test room type (150 USD per night)
+  const priceStay = (adults: number, children = 0, nights = 3) => bookingPricingService.priceStay({
+    propertyId,
+    roomId,
+    checkIn: day(7),
+    checkOut: day(7 + nights),
+    channel: 'direct',
+    adults,
+    children
+  });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]!._id;
+  });
+
+  it('should itemise percentage, per-person-per-night, per-night and per-stay rules', async () => {
+    await taxRuleService.createRule({
+      name: 'Tourism tax',
+      region: { country: 'test country' },
+      category: TaxRuleCategory.TOURISM_TAX,
+      calculation: TaxRuleCalculation.PERCENTAGE,
+      amount: 10
+    });
+    await taxRuleService.createRule({
+      name: 'City tax',
+      category: TaxRuleCategory.CITY_TAX,
+      calculation: TaxRuleCalculation.PER_PERSON_PER_NIGHT,
+      amount: 2.5,
+      currency: 'USD',
+      maxNights: 2,
+      exemptChildren: true
+    }, propertyId);
+    await taxRuleService.createRule({
+      name: 'Cleaning',
+      category: TaxRuleCategory.CLEANING_FEE,
+      calculation: TaxRuleCalculation.PER_STAY,
+      amount: 40
+    }, propertyId);
+    await taxRuleService.createRule({
+      name: 'Resort fee',
+      kind: TaxRuleKind.FEE,
+      category: TaxRuleCategory.OTHER,
+      calculation: TaxRuleCalculation.PER_NIGHT,
+      amount: 5
+    }, propertyId);
+    // Priced in another currency, so not levied on USD stays
+    await taxRuleService.createRule({
+      name: 'Service',
+      category: TaxRuleCategory.SERVICE_FEE,
+      calculation: TaxRuleCalculation.PER_STAY,
+      amount: 10,
+      currency: 'EUR'
+    }, propertyId);
+
+    const price = await priceStay(2, 1);
+
+    expect(price.roomTotal).toBe(450);
+    expect(price.pricing).toMatchObject({
+      baseRate: 450,
+      taxes: 55,
+      fees: 55,
+      total: 560,
+      currency: 'USD',
+      breakdown: {
+        roomRate: 450,
+        tourismTax: 45,
+        cityTax: 10, // 2 adults for the first 2 nights
+        cleaningFee: 40,
+        otherFees: [{ name: 'Resort fee', amount: 15 }]
+      }
+    });
+    expect(price.pricing.breakdown?.serviceFee).toBeUndefined();
+    expect(price.taxes.map(line => line.name)).toEqual(['Tourism tax', 'City tax', 'Cleaning', 'Resort fee']);
+  });
+
+  it('should apply the most specific rule per category and exempt long stays', async () => {
+    await TaxRule.create([
+      {
+        name: 'National city tax',
+        region: { country: 'Test Country' },
+        category: TaxRuleCategory.CITY_TAX,
+        calculation: TaxRuleCalculation.PERCENTAGE,
+        amount: 5
+      },
+      {
+        name: 'Test City tax',
+        region: { country: 'Test Country', state: 'Test State', city: 'test city' },
+        category: TaxRuleCategory.CITY_TAX,
+        calculation: TaxRuleCalculation.PER_NIGHT,
+        amount: 3
+      },
+      {
+        name: 'Elsewhere',
+        region: { country: 'Test Country', city: 'Other City' },
+        category: TaxRuleCategory.TOURISM_TAX,
+        calculation: TaxRuleCalculation.PER_STAY,
+        amount: 99
+      },
+      {
+        name: 'Short stay levy',
+        property: propertyId,
+        category: TaxRuleCategory.TOURISM_TAX,
+        calculation: TaxRuleCalculation.PER_NIGHT,
+        amount: 1,
+        exemptFromNights: 5
+      },
+      {
+        name: 'Expired',
+        property: propertyId,
+        category: TaxRuleCategory.SERVICE_FEE,
+        calculation: TaxRuleCalculation.PER_STAY,
+        amount: 20,
+        validTo: day(-1)
+      }
+    ]);
+
+    const applicable = await taxRuleService.getApplicableRules(propertyId, day(7));
+    expect(applicable.map(rule => rule.name)).toEqual(['Test City tax', 'Short stay levy']);
+
+    const short = await priceStay(2);
+    expect(short.pricing.breakdown).toMatchObject({ cityTax: 9, tourismTax: 3 });
+
+    const long = await priceStay(2, 0, 5);
+    expect(long.pricing.breakdown?.cityTax).toBe(15);
+    expect(long.pricing.breakdown?.tourismTax).toBeUndefined();
+    expect(long.pricing.total).toBe(765);
+  });
+
+  it('should carve inclusive taxes out of the rate of a rate plan that includes them', async () => {
+    await RatePlan.create({
+      property: propertyId,
+      room: roomId,
+      name: 'All taxes included',
+      description: 'Test rate plan',
+      type: RatePlanType.STANDARD,
+      baseRate: 100,
+      includesTaxes: true,
+      validFrom: day(-30),
+      validTo: day(365),
+      createdBy: new mongoose.Types.ObjectId()
+    });
+    await taxRuleService.createRule({
+      name: 'VAT',
+      category: TaxRuleCategory.TOURISM_TAX,
+      calculation: TaxRuleCalculation.PERCENTAGE,
+      amount: 10
+    }, propertyId);
+    await taxRuleService.createRule({
+      name: 'City tax',
+      category: TaxRuleCategory.CITY_TAX,
+      calculation: TaxRuleCalculation.PER_NIGHT,
+      amount: 2
+    }, propertyId);
+    await taxRuleService.createRule({
+      name: 'Cleaning',
+      category: TaxRuleCategory.CLEANING_FEE,
+      calculation: TaxRuleCalculation.PER_STAY,
+      amount: 30
+    }, propertyId);
+
+    const price = await priceStay(2);
+
+    // (300 - 6) / 1.1 = 267.27 net of the 6.00 city tax and 26.73 VAT included
+    expect(price.roomTotal).toBe(300);
+    expect(price.taxes.every(line => line.inclusive === (line.kind === TaxRuleKind.TAX))).toBe(true);
+    expect(price.pricing).toMatchObject({
+      baseRate: 267.27,
+      taxes: 32.73,
+      fees: 30,
+      total: 330,
+      breakdown: { roomRate: 267.27, tourismTax: 26.73, cityTax: 6, cleaningFee: 30 }
+    });
+  });
+
+  it('should replace the entered taxes of a new booking only when rules apply', async () => {
+    const entered = new Booking({ ...createTestBooking(propertyId, roomId), checkIn: day(7), checkOut: day(10) });
+    expect(await taxRuleService.applyToBooking(entered)).toEqual([]);
+    expect(entered.pricing).toMatchObject({ baseRate: 150, taxes: 30, fees: 20 });
+
+    await taxRuleService.createRule({
+      name: 'City tax',
+      category: TaxRuleCategory.CITY_TAX,
+      calculation: TaxRuleCalculation.PER_PERSON_PER_NIGHT,
+      amount: 1
+    }, propertyId);
+
+    const booking = new Booking({
+      ...createTestBooking(propertyId, roomId),
+      checkIn: day(7),
+      checkOut: day(10),
+      pricing: { baseRate: 450, taxes: 0, fees: 0, discounts: 50, total: 400, currency: 'USD' }
+    });
+    await taxRuleService.applyToBooking(booking);
+    await booking.save();
+
+    expect(booking.pricing).toMatchObject({
+      baseRate: 450,
+      taxes: 6,
+      fees: 0,
+      discounts: 50,
+      total: 406,
+      breakdown: { roomRate: 450, cityTax: 6 }
+    });
+  });
+});
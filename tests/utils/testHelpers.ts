@@ -79,20 +79,32 @@ export const createTestUser = () => ({
  */
 export const createTestProperty = (userId: mongoose.Types.ObjectId) => ({
   name: 'Test Hotel',
-  type: 'hotel',
+  description: 'A test hotel',
+  propertyType: 'hotel',
   address: {
     street: '123 Test Street',
     city: 'Test City',
     state: 'Test State',
     country: 'Test Country',
-    postalCode: '12345'
+    postalCode: '12345',
+    coordinates: {
+      latitude: 40.7128,
+      longitude: -74.006
+    }
   },
   contactInfo: {
     email: 'hotel@test.com',
     phone: '+1234567890',
     website: 'https://testhotel.com'
   },
+  policies: {
+    checkInTime: '15:00',
+    checkOutTime: '11:00',
+    cancellationPolicy: 'Free cancellation up to 24 hours before check-in',
+    houseRules: []
+  },
   owner: userId,
+  manager: userId,
   status: 'active',
   rooms: [
     {
@@ -100,10 +112,15 @@ export const createTestProperty = (userId: mongoose.Types.ObjectId) => ({
       name: 'Deluxe Room',
       type: 'deluxe',
       description: 'Spacious deluxe room',
-      capacity: 2,
+      capacity: {
+        adults: 2,
+        children: 1,
+        infants: 1
+      },
       baseRate: 150,
+      currency: 'USD',
       amenities: ['WiFi', 'TV', 'Air Conditioning'],
-      status: 'active'
+      isActive: true
     }
   ]
 });
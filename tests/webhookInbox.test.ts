@@ -0,0 +1,320 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../src/app';
+import Property from '../src/models/Property';
+import Booking, { BookingStatus } from '../src/models/Booking';
+import RoomAvailability from '../src/models/RoomAvailability';
+import Channel, { ChannelType, ChannelStatus } from '../src/models/Channel';
+import ChannelMapping from '../src/models/ChannelMapping';
+import WebhookInboxEvent, { WebhookInboxStatus } from '../src/models/WebhookInboxEvent';
+import { OTAProvider } from '../src/services/OTAService';
+import { webhookSignatureService } from '../src/services/webhookSignatureService';
+import { webhookInboxService } from '../src/services/webhookInboxService';
+import { webhookProcessingService } from '../src/services/webhookProcessingService';
+import { channelMappingService } from '../src/services/channelMappingService';
+import { inventoryRepository } from '../src/services/inventoryRepository';
+import {
+  inventoryReservationService,
+  InventoryReservationService
+} from '../src/services/inventoryReservationService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty
+} from './utils/testHelpers';
+
+describe('Webhook Inbox', () => {
+  const SECRET = 'airbnb-webhook-secret-1';
+
+  let propertyId: mongoose.Types.ObjectId;
+  let roomId: mongoose.Types.ObjectId;
+
+  const bookingCreated = (id: string, listing: string = 'AIR-LISTING-1'): string => JSON.stringify({
+    event: 'booking.created',
+    channel: 'airbnb',
+    timestamp: new Date().toISOString(),
+    data: {
+      id,
+      propertyId: listing,
+      checkIn: new Date(Date.now() + 86400000 * 7).toISOString(),
+      checkOut: new Date(Date.now() + 86400000 * 9).toISOString(),
+      guestInfo: { firstName: 'Ana', lastName: 'Silva', email: 'ana@example.com' },
+      pricing: { nightlyRate: 100, total: 200, currency: 'USD' }
+    }
+  });
+
+  const bookingEvent = (event: string, data: Record<string, unknown>): string => JSON.stringify({
+    event,
+    channel: 'airbnb',
+    timestamp: new Date().toISOString(),
+    data
+  });
+
+  const inDays = (days: number): string => new Date(Date.now() + 86400000 * days).toISOString();
+
+  const send = (body: string, secret: string = SECRET) => {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    return request(app)
+      .post('/api/v1/webhooks/airbnb')
+      .set('Content-Type', 'application/json')
+      .set('X-Airbnb-Timestamp', timestamp)
+      .set('X-Airbnb-Signature', webhookSignatureService.sign(OTAProvider.AIRBNB, secret, body, timestamp))
+      .send(body);
+  };
+
+  const createChannel = (name: string, secret: string, properties: mongoose.Types.ObjectId[]) => Channel.create({
+    name,
+    type: ChannelType.AIRBNB,
+    displayName: name,
+    status: ChannelStatus.ACTIVE,
+    apiCredentials: { apiKey: `${name}-key`, apiSecret: secret },
+    syncSettings: {
+      autoSync: true,
+      syncInterval: 60,
+      syncDirection: 'bidirectional',
+      syncTypes: { bookings: true, rates: true, availability: true, propertyInfo: true },
+      retryAttempts: 3,
+      retryDelay: 5
+    },
+    performance: { totalBookings: 0, totalRevenue: 0, averageRating: 0, responseTime: 0, successRate: 0 },
+    rateParity: { enabled: false, tolerance: 5, checkInterval: 30, autoAdjust: false },
+    properties,
+    createdBy: new mongoose.Types.ObjectId()
+  });
+
+  // Bring every scheduled retry forward to now
+  const makeDue = () => WebhookInboxEvent.updateMany({}, { $set: { nextAttemptAt: new Date(Date.now() - 1000) } });
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+    jest.restoreAllMocks();
+    await WebhookInboxEvent.syncIndexes();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    roomId = property.rooms[0]!._id;
+    await ChannelMapping.create({
+      channelType: ChannelType.AIRBNB,
+      property: property._id,
+      externalPropertyId: 'AIR-LISTING-1',
+      rooms: [{ room: roomId, externalRoomId: 'AIR-ROOM-1' }]
+    });
+
+    await createChannel('Airbnb', SECRET, [propertyId]);
+  });
+
+  it('should store a webhook before processing it and store a redelivery once', async () => {
+    const body = bookingCreated('AIR-1');
+
+    const response = await send(body).expect(202);
+    await send(body).expect(202);
+
+    const stored = await WebhookInboxEvent.find();
+    expect(stored).toHaveLength(1);
+    expect(stored[0]?._id.toString()).toBe(response.body.data.eventId);
+    expect(stored[0]).toMatchObject({ provider: 'airbnb', event: 'booking.created', status: WebhookInboxStatus.PENDING });
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-1' })).toBe(0);
+
+    expect(await webhookInboxService.processDue()).toBe(1);
+
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-1' })).toBe(1);
+    const processed = await WebhookInboxEvent.findById(stored[0]?._id);
+    expect(processed).toMatchObject({ status: WebhookInboxStatus.PROCESSED, attempts: 1 });
+    expect(processed?.processedAt).toBeInstanceOf(Date);
+  });
+
+  it('should retry a failing event with backoff and then dead-letter it', async () => {
+    jest.spyOn(webhookProcessingService, 'process').mockRejectedValue(new Error('Database unavailable'));
+    await send(bookingCreated('AIR-2')).expect(202);
+
+    await webhookInboxService.processDue();
+
+    let event = await WebhookInboxEvent.findOne();
+    expect(event).toMatchObject({ status: WebhookInboxStatus.PENDING, attempts: 1, lastError: 'Database unavailable' });
+    expect(event!.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect(await webhookInboxService.processDue()).toBe(0);
+
+    for (let attempt = 2; attempt <= event!.maxAttempts; attempt++) {
+      await makeDue();
+      await webhookInboxService.processDue();
+    }
+
+    event = await WebhookInboxEvent.findOne();
+    expect(event?.status).toBe(WebhookInboxStatus.DEAD_LETTER);
+    expect(event?.attemptErrors).toHaveLength(event!.maxAttempts);
+    expect(event?.deadLetteredAt).toBeInstanceOf(Date);
+
+    await makeDue();
+    expect(await webhookInboxService.processDue()).toBe(0);
+
+    // Replayed once the cause is fixed
+    jest.restoreAllMocks();
+    const replayed = await webhookInboxService.replay(event!._id);
+    expect(replayed).toMatchObject({ status: WebhookInboxStatus.PENDING, attempts: 0, replayCount: 1 });
+    await expect(webhookInboxService.replay(event!._id)).rejects.toThrow(/pending/);
+
+    await webhookInboxService.processDue();
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-2' })).toBe(1);
+    await expect(webhookInboxService.discard(event!._id)).rejects.toThrow(/processed/);
+  });
+
+  it('should park a reservation for an unmapped listing until it is mapped', async () => {
+    await send(bookingCreated('AIR-3', 'AIR-LISTING-2')).expect(202);
+
+    await webhookInboxService.processDue();
+
+    const event = await WebhookInboxEvent.findOne();
+    expect(event).toMatchObject({ status: WebhookInboxStatus.NEEDS_ATTENTION, attempts: 1 });
+    expect(event?.lastError).toMatch(/AIR-LISTING-2/);
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-3' })).toBe(0);
+
+    // Not retried on its own
+    await makeDue();
+    expect(await webhookInboxService.processDue()).toBe(0);
+
+    const other = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    await channelMappingService.create({
+      channelType: ChannelType.AIRBNB,
+      propertyId: other._id.toString(),
+      externalPropertyId: 'AIR-LISTING-2',
+      rooms: [{ roomId: other.rooms[0]!._id.toString(), externalRoomId: 'AIR-ROOM-2' }]
+    });
+    await Channel.updateOne({ name: 'Airbnb' }, { $push: { properties: other._id } });
+    expect(await webhookInboxService.requeueNeedsAttention(ChannelType.AIRBNB)).toBe(1);
+
+    await webhookInboxService.processDue();
+    const booking = await Booking.findOne({ channelBookingId: 'AIR-3' });
+    expect(booking?.property.toString()).toBe(other._id.toString());
+    expect((await WebhookInboxEvent.findById(event!._id))?.status).toBe(WebhookInboxStatus.PROCESSED);
+  });
+
+  it('should park a reservation signed by a channel not connected to its property', async () => {
+    const other = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    await ChannelMapping.create({
+      channelType: ChannelType.AIRBNB,
+      property: other._id,
+      externalPropertyId: 'AIR-LISTING-B',
+      rooms: [{ room: other.rooms[0]!._id, externalRoomId: 'AIR-ROOM-B' }]
+    });
+    await createChannel('Airbnb B', 'airbnb-webhook-secret-b', [other._id]);
+
+    // Channel A's secret signs a reservation for channel B's listing
+    await send(bookingCreated('AIR-8', 'AIR-LISTING-B')).expect(202);
+    await webhookInboxService.processDue();
+
+    const event = await WebhookInboxEvent.findOne();
+    expect(event).toMatchObject({ status: WebhookInboxStatus.NEEDS_ATTENTION, attempts: 1 });
+    expect(event?.lastError).toMatch(/not connected to property/);
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-8' })).toBe(0);
+
+    // Signed by its own channel it goes through
+    await send(bookingCreated('AIR-9', 'AIR-LISTING-B'), 'airbnb-webhook-secret-b').expect(202);
+    await webhookInboxService.processDue();
+    expect((await Booking.findOne({ channelBookingId: 'AIR-9' }))?.property.toString()).toBe(other._id.toString());
+  });
+
+  it('should claim a sold-out stay for an OTA booking and leave its nights oversold', async () => {
+    const body = bookingCreated('AIR-7');
+    const { checkIn, checkOut } = (JSON.parse(body) as { data: { checkIn: string; checkOut: string } }).data;
+    const stay = InventoryReservationService.getStayDates(new Date(checkIn), new Date(checkOut));
+
+    // Every unit is out of service
+    await inventoryRepository.updateNights(propertyId, roomId, stay, { rate: 100, currency: 'USD' });
+    await RoomAvailability.updateMany({ property: propertyId, room: roomId }, [{ $set: { blockedRooms: '$totalRooms', availableRooms: 0 } }]);
+
+    await send(body).expect(202);
+    await webhookInboxService.processDue();
+
+    const booking = await Booking.findOne({ channelBookingId: 'AIR-7' });
+    expect(booking?.status).toBe(BookingStatus.CONFIRMED);
+    expect((await WebhookInboxEvent.findOne())?.status).toBe(WebhookInboxStatus.PROCESSED);
+
+    const nights = await RoomAvailability.find({ property: propertyId, room: roomId });
+    expect(nights).toHaveLength(stay.length);
+    nights.forEach(night => {
+      expect(night.availableRooms).toBe(-1);
+      expect(night.bookedRooms.map(entry => entry.bookingId.toString())).toEqual([booking!._id.toString()]);
+    });
+  });
+
+  it('should not claim new dates for a cancelled booking', async () => {
+    await send(bookingCreated('AIR-10')).expect(202);
+    await webhookInboxService.processDue();
+    await send(bookingEvent('booking.cancelled', { id: 'AIR-10' })).expect(202);
+    await webhookInboxService.processDue();
+
+    await send(bookingEvent('booking.updated', { id: 'AIR-10', checkIn: inDays(20), checkOut: inDays(22) })).expect(202);
+    await webhookInboxService.processDue();
+
+    const booking = await Booking.findOne({ channelBookingId: 'AIR-10' });
+    expect(booking?.status).toBe(BookingStatus.CANCELLED);
+    expect(await RoomAvailability.countDocuments({ 'bookedRooms.bookingId': booking!._id })).toBe(0);
+  });
+
+  it('should keep the old dates and nights when the new stay cannot be claimed', async () => {
+    await send(bookingCreated('AIR-11')).expect(202);
+    await webhookInboxService.processDue();
+    const booking = await Booking.findOne({ channelBookingId: 'AIR-11' });
+    const stay = InventoryReservationService.getStayDates(booking!.checkIn, booking!.checkOut);
+
+    jest.spyOn(inventoryReservationService, 'reserve').mockRejectedValueOnce(new Error('Database unavailable'));
+    await send(bookingEvent('booking.updated', { id: 'AIR-11', checkIn: inDays(20), checkOut: inDays(22) })).expect(202);
+    await webhookInboxService.processDue();
+
+    const event = await WebhookInboxEvent.findOne({ event: 'booking.updated' });
+    expect(event).toMatchObject({ status: WebhookInboxStatus.PENDING, lastError: 'Database unavailable' });
+
+    const unchanged = await Booking.findById(booking!._id);
+    expect(unchanged?.checkIn.getTime()).toBe(booking!.checkIn.getTime());
+    expect(unchanged?.checkOut.getTime()).toBe(booking!.checkOut.getTime());
+
+    const claimed = await RoomAvailability.find({ 'bookedRooms.bookingId': booking!._id }).sort({ date: 1 });
+    expect(claimed.map(night => night.date.getTime())).toEqual(stay.map(date => date.getTime()));
+  });
+
+  it('should not process a discarded event', async () => {
+    await send(bookingCreated('AIR-4')).expect(202);
+
+    const event = await WebhookInboxEvent.findOne();
+    const discarded = await webhookInboxService.discard(event!._id, undefined, 'Test booking');
+    expect(discarded).toMatchObject({ status: WebhookInboxStatus.DISCARDED, discardReason: 'Test booking' });
+
+    expect(await webhookInboxService.processDue()).toBe(0);
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-4' })).toBe(0);
+  });
+
+  it('should report persisted statistics and keep the inbox admin routes private', async () => {
+    await send(bookingCreated('AIR-5')).expect(202);
+    await send(bookingCreated('AIR-6', 'AIR-LISTING-9')).expect(202);
+    await webhookInboxService.processDue();
+
+    const response = await request(app)
+      .get('/api/v1/webhooks/status')
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      totalReceived: 2,
+      totalProcessed: 1,
+      totalFailed: 1,
+      pending: 0,
+      needsAttention: 1,
+      deadLetter: 0,
+      byChannel: { airbnb: 2 },
+      byEvent: { 'booking.created': 2 }
+    });
+
+    await request(app).get('/api/v1/webhooks/events').expect(401);
+    await request(app).post(`/api/v1/webhooks/events/${new mongoose.Types.ObjectId().toString()}/replay`).expect(401);
+  });
+});
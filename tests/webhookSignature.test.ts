@@ -0,0 +1,179 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../src/app';
+import Property from '../src/models/Property';
+import Booking from '../src/models/Booking';
+import WebhookInboxEvent from '../src/models/WebhookInboxEvent';
+import Channel, { ChannelType, ChannelStatus } from '../src/models/Channel';
+import ChannelMapping from '../src/models/ChannelMapping';
+import { OTAProvider } from '../src/services/OTAService';
+import { webhookSignatureService } from '../src/services/webhookSignatureService';
+import { webhookInboxService } from '../src/services/webhookInboxService';
+import {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  clearTestDatabase,
+  createTestProperty
+} from './utils/testHelpers';
+
+describe('Webhook Signature Verification', () => {
+  const SECRET = 'airbnb-webhook-secret-1';
+
+  let propertyId: mongoose.Types.ObjectId;
+  let channelId: mongoose.Types.ObjectId;
+
+  const bookingCreated = (id: string): string => JSON.stringify({
+    event: 'booking.created',
+    channel: 'airbnb',
+    timestamp: new Date().toISOString(),
+    data: {
+      id,
+      propertyId: 'AIR-LISTING-1',
+      checkIn: new Date(Date.now() + 86400000 * 7).toISOString(),
+      checkOut: new Date(Date.now() + 86400000 * 9).toISOString(),
+      guestInfo: { firstName: 'Ana', lastName: 'Silva', email: 'ana@example.com' },
+      pricing: { nightlyRate: 100, total: 200, currency: 'USD' }
+    }
+  });
+
+  const send = (body: string, secret: string, timestamp = Math.floor(Date.now() / 1000).toString()) => request(app)
+    .post('/api/v1/webhooks/airbnb')
+    .set('Content-Type', 'application/json')
+    .set('X-Airbnb-Timestamp', timestamp)
+    .set('X-Airbnb-Signature', webhookSignatureService.sign(OTAProvider.AIRBNB, secret, body, timestamp))
+    .send(body);
+
+  const rejections = () => mongoose.connection.collection('audit_logs').find({ action: 'WEBHOOK_REJECTED' }).toArray();
+
+  beforeAll(async () => {
+    await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await clearTestDatabase();
+
+    const property = await Property.create(createTestProperty(new mongoose.Types.ObjectId()));
+    propertyId = property._id;
+    await ChannelMapping.create({
+      channelType: ChannelType.AIRBNB,
+      property: property._id,
+      externalPropertyId: 'AIR-LISTING-1',
+      rooms: [{ room: property.rooms[0]!._id, externalRoomId: 'AIR-ROOM-1' }]
+    });
+
+    const channel = await Channel.create({
+      name: 'Airbnb',
+      type: ChannelType.AIRBNB,
+      displayName: 'Airbnb',
+      status: ChannelStatus.ACTIVE,
+      apiCredentials: { apiKey: 'airbnb-key', apiSecret: SECRET },
+      syncSettings: {
+        autoSync: true,
+        syncInterval: 60,
+        syncDirection: 'bidirectional',
+        syncTypes: { bookings: true, rates: true, availability: true, propertyInfo: true },
+        retryAttempts: 3,
+        retryDelay: 5
+      },
+      performance: { totalBookings: 0, totalRevenue: 0, averageRating: 0, responseTime: 0, successRate: 0 },
+      rateParity: { enabled: false, tolerance: 5, checkInterval: 30, autoAdjust: false },
+      properties: [propertyId],
+      createdBy: new mongoose.Types.ObjectId()
+    });
+    channelId = channel._id as mongoose.Types.ObjectId;
+  });
+
+  it('should accept a webhook signed with the channel secret over the raw body', async () => {
+    await send(bookingCreated('AIR-1'), SECRET).expect(202);
+    await webhookInboxService.processDue();
+
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-1' })).toBe(1);
+  });
+
+  it('should reject unsigned, forged and tampered webhooks and audit them', async () => {
+    const body = bookingCreated('AIR-2');
+
+    await request(app)
+      .post('/api/v1/webhooks/airbnb')
+      .set('Content-Type', 'application/json')
+      .send(body)
+      .expect(401);
+
+    await send(body, 'guessed-secret').expect(401);
+
+    // Signed, then re-serialized with different whitespace and a changed total
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const tampered = body.replace('"total":200', '"total": 1');
+    await request(app)
+      .post('/api/v1/webhooks/airbnb')
+      .set('Content-Type', 'application/json')
+      .set('X-Airbnb-Timestamp', timestamp)
+      .set('X-Airbnb-Signature', webhookSignatureService.sign(OTAProvider.AIRBNB, SECRET, body, timestamp))
+      .send(tampered)
+      .expect(401);
+
+    expect(await WebhookInboxEvent.countDocuments()).toBe(0);
+
+    const entries = await rejections();
+    expect(entries.map(entry => entry.errorMessage)).toEqual([
+      'Missing webhook signature',
+      'Signature does not match any channel secret',
+      'Signature does not match any channel secret'
+    ]);
+    expect(entries[0]?.resourceId).toBe('airbnb');
+  });
+
+  it('should reject replays outside the timestamp tolerance', async () => {
+    const stale = Math.floor(Date.now() / 1000 - 3600).toString();
+
+    await send(bookingCreated('AIR-3'), SECRET, stale).expect(401);
+
+    expect(await WebhookInboxEvent.countDocuments()).toBe(0);
+    expect(await Booking.countDocuments({ channelBookingId: 'AIR-3' })).toBe(0);
+    expect((await rejections())[0]?.errorMessage).toBe('Webhook timestamp is outside the allowed tolerance');
+  });
+
+  it('should accept the previous secret during the rotation overlap only', async () => {
+    await webhookSignatureService.rotateSecret(channelId, 'airbnb-webhook-secret-2', 1);
+
+    await send(bookingCreated('AIR-4'), 'airbnb-webhook-secret-2').expect(202);
+    await send(bookingCreated('AIR-5'), SECRET).expect(202);
+
+    // The overlap ends
+    await Channel.updateOne(
+      { _id: channelId },
+      { $set: { 'apiCredentials.retiredSecrets.0.expiresAt': new Date(Date.now() - 1000) } }
+    );
+    await send(bookingCreated('AIR-6'), SECRET).expect(401);
+    await webhookInboxService.processDue();
+
+    expect(await Booking.countDocuments({ channelBookingId: { $in: ['AIR-4', 'AIR-5', 'AIR-6'] } })).toBe(2);
+  });
+
+  it('should verify with a provider scheme registered at runtime', async () => {
+    const original = webhookSignatureService.getScheme(OTAProvider.AIRBNB)!;
+    webhookSignatureService.registerScheme(OTAProvider.AIRBNB, {
+      signatureHeader: 'X-Airbnb-Signature',
+      algorithm: 'sha512',
+      encoding: 'base64',
+      prefix: 'v1='
+    });
+
+    try {
+      // No timestamp header: the payload's signed timestamp is checked instead
+      const body = bookingCreated('AIR-7');
+      await request(app)
+        .post('/api/v1/webhooks/airbnb')
+        .set('Content-Type', 'application/json')
+        .set('X-Airbnb-Signature', webhookSignatureService.sign(OTAProvider.AIRBNB, SECRET, body))
+        .send(body)
+        .expect(202);
+    } finally {
+      webhookSignatureService.registerScheme(OTAProvider.AIRBNB, original);
+    }
+  });
+});